@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "exchanges" ADD COLUMN     "offeredItemId" TEXT,
+ADD COLUMN     "requestedItemId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "exchanges_offeredItemId_idx" ON "exchanges"("offeredItemId");
+
+-- CreateIndex
+CREATE INDEX "exchanges_requestedItemId_idx" ON "exchanges"("requestedItemId");
+
+-- AddForeignKey
+ALTER TABLE "exchanges" ADD CONSTRAINT "exchanges_offeredItemId_fkey" FOREIGN KEY ("offeredItemId") REFERENCES "items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "exchanges" ADD CONSTRAINT "exchanges_requestedItemId_fkey" FOREIGN KEY ("requestedItemId") REFERENCES "items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
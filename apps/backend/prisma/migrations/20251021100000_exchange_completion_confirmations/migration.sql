@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "exchanges" ADD COLUMN     "requesterConfirmedAt" TIMESTAMP(3),
+ADD COLUMN     "responderConfirmedAt" TIMESTAMP(3);
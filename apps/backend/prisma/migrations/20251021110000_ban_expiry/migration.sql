@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "bans" ADD COLUMN     "expiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "bans_expiresAt_idx" ON "bans"("expiresAt");
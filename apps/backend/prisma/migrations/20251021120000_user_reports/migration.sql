@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "ReportReason" AS ENUM ('SPAM', 'SCAM', 'INAPPROPRIATE', 'HARASSMENT', 'PROHIBITED_ITEM', 'MISLEADING', 'OTHER');
+
+-- AlterTable: le type de cible utilise l'enum "ReportType" (créé avec les modèles admin)
+ALTER TABLE "reports" ALTER COLUMN "type" TYPE "ReportType" USING (
+  CASE WHEN "type" IN ('USER', 'ITEM', 'EXCHANGE', 'POST') THEN "type" ELSE 'OTHER' END
+)::"ReportType";
+ALTER TABLE "reports" ADD COLUMN "reason" "ReportReason" NOT NULL DEFAULT 'OTHER';
+ALTER TABLE "reports" ALTER COLUMN "message" DROP NOT NULL;
+
+-- Les signalements orphelins (reporter supprimé) sont conservés
+UPDATE "reports" SET "reporterId" = NULL
+WHERE "reporterId" IS NOT NULL AND "reporterId" NOT IN (SELECT "id" FROM "users");
+
+-- CreateIndex
+CREATE INDEX "reports_targetExchangeId_idx" ON "reports"("targetExchangeId");
+CREATE INDEX "reports_targetPostId_idx" ON "reports"("targetPostId");
+CREATE INDEX "reports_reporterId_createdAt_idx" ON "reports"("reporterId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
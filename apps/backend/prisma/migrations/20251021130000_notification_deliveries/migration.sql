@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "NotificationDeliveryStatus" AS ENUM ('SENT', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT,
+    "userId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "type" TEXT,
+    "status" "NotificationDeliveryStatus" NOT NULL,
+    "statusCode" INTEGER,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_userId_createdAt_idx" ON "notification_deliveries"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_tokenId_idx" ON "notification_deliveries"("tokenId");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_idx" ON "notification_deliveries"("status");
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "notification_tokens"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Les anciens tokens webpush opaques (avant PushSubscription) ne peuvent pas être livrés
+DELETE FROM "notification_tokens" WHERE "provider" = 'webpush' AND "token" NOT LIKE '{%';
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('WEEKLY_THEME', 'EXCHANGE_STATUS', 'NEW_MESSAGE', 'COMMUNITY_REPLY', 'RECOMMENDATIONS');
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "userId" TEXT NOT NULL,
+    "mutedPush" "NotificationType"[],
+    "mutedInApp" "NotificationType"[],
+    "quietHoursStart" TEXT,
+    "quietHoursEnd" TEXT,
+    "timezone" TEXT NOT NULL DEFAULT 'Europe/Paris',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("userId")
+);
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
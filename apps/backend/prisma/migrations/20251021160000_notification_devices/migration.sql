@@ -0,0 +1,23 @@
+-- Plusieurs appareils par utilisateur: un token est désormais unique par provider
+-- (et non plus par utilisateur + provider)
+
+-- DropIndex
+DROP INDEX "notification_tokens_userId_provider_key";
+
+-- AlterTable
+ALTER TABLE "notification_tokens" ADD COLUMN     "label" TEXT,
+ADD COLUMN     "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "userAgent" TEXT;
+
+-- Un même abonnement enregistré par plusieurs comptes: garder le plus récent
+DELETE FROM "notification_tokens" AS older
+USING "notification_tokens" AS newer
+WHERE older."provider" = newer."provider"
+  AND older."token" = newer."token"
+  AND older."createdAt" < newer."createdAt";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_tokens_provider_token_key" ON "notification_tokens"("provider", "token");
+
+-- CreateIndex
+CREATE INDEX "notification_tokens_lastSeenAt_idx" ON "notification_tokens"("lastSeenAt");
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "DigestFrequency" AS ENUM ('NEVER', 'DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN     "digestFrequency" "DigestFrequency" NOT NULL DEFAULT 'WEEKLY',
+ADD COLUMN     "lastDigestAt" TIMESTAMP(3),
+ADD COLUMN     "mutedEmail" "NotificationType"[];
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "user_profiles" ADD COLUMN     "geohash" TEXT,
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "items" ADD COLUMN     "geohash" TEXT,
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "location" TEXT,
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "items_latitude_longitude_idx" ON "items"("latitude", "longitude");
@@ -0,0 +1,37 @@
+-- Recherche plein texte des items
+-- - unaccent: recherche insensible aux accents ("velo" = "vélo")
+-- - pg_trgm: tolérance aux fautes de frappe (similarité de trigrammes)
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- unaccent() n'est pas IMMUTABLE (dictionnaire modifiable): cette variante à
+-- dictionnaire fixé peut servir dans une colonne générée et dans un index
+CREATE OR REPLACE FUNCTION immutable_unaccent(text)
+  RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, $1) $$;
+
+-- Vecteur de recherche pondéré: titre (A) > tags (B) > description (C),
+-- en configuration française et anglaise (racinisation des deux langues)
+CREATE OR REPLACE FUNCTION items_search_vector(title text, tags text[], description text)
+  RETURNS tsvector
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE
+AS $$
+  SELECT
+    setweight(to_tsvector('french'::regconfig, immutable_unaccent(coalesce(title, ''))), 'A') ||
+    setweight(to_tsvector('english'::regconfig, immutable_unaccent(coalesce(title, ''))), 'A') ||
+    setweight(to_tsvector('french'::regconfig, immutable_unaccent(coalesce(array_to_string(tags, ' '), ''))), 'B') ||
+    setweight(to_tsvector('english'::regconfig, immutable_unaccent(coalesce(array_to_string(tags, ' '), ''))), 'B') ||
+    setweight(to_tsvector('french'::regconfig, immutable_unaccent(coalesce(description, ''))), 'C') ||
+    setweight(to_tsvector('english'::regconfig, immutable_unaccent(coalesce(description, ''))), 'C')
+$$;
+
+-- AlterTable
+ALTER TABLE "items" ADD COLUMN "searchVector" tsvector
+  GENERATED ALWAYS AS (items_search_vector("title", "tags", "description")) STORED;
+
+-- CreateIndex
+CREATE INDEX "items_searchVector_idx" ON "items" USING GIN ("searchVector");
+
+-- CreateIndex (hors schéma Prisma: index d'expression pour l'opérateur <%)
+CREATE INDEX "items_title_trgm_idx" ON "items" USING GIN (immutable_unaccent(lower("title")) gin_trgm_ops);
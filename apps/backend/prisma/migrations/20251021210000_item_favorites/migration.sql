@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'WATCHED_ITEM';
+
+-- AlterTable
+ALTER TABLE "items" ADD COLUMN     "favoriteCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "favorites" (
+    "userId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "favorites_pkey" PRIMARY KEY ("userId","itemId")
+);
+
+-- CreateIndex
+CREATE INDEX "favorites_itemId_idx" ON "favorites"("itemId");
+
+-- CreateIndex
+CREATE INDEX "favorites_userId_createdAt_idx" ON "favorites"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "favorites" ADD CONSTRAINT "favorites_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "favorites" ADD CONSTRAINT "favorites_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
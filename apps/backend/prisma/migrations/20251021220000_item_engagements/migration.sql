@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "EngagementType" AS ENUM ('VIEW', 'FAVORITE', 'EXCHANGE_PROPOSAL', 'CHAT_START');
+
+-- CreateTable
+CREATE TABLE "item_engagements" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "userId" TEXT,
+    "sessionId" TEXT,
+    "type" "EngagementType" NOT NULL,
+    "dedupKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "item_engagements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "item_engagements_createdAt_idx" ON "item_engagements"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "item_engagements_itemId_dedupKey_key" ON "item_engagements"("itemId", "dedupKey");
+
+-- AddForeignKey
+ALTER TABLE "item_engagements" ADD CONSTRAINT "item_engagements_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "item_engagements" ADD CONSTRAINT "item_engagements_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Les favoris existants deviennent des engagements (date d'ajout conservée)
+INSERT INTO "item_engagements" ("id", "itemId", "userId", "type", "dedupKey", "createdAt")
+SELECT md5(random()::text || f."userId" || f."itemId"), f."itemId", f."userId", 'FAVORITE', 'favorite:' || f."userId", f."createdAt"
+FROM "favorites" f;
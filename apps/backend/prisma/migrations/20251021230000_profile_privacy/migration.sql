@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "user_profiles" ADD COLUMN "showBio" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "showLocation" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "showItems" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "showExchangeStats" BOOLEAN NOT NULL DEFAULT true;
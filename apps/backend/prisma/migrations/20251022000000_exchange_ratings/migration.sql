@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "RatingTag" AS ENUM ('ON_TIME', 'AS_DESCRIBED', 'FRIENDLY', 'RESPONSIVE', 'CAREFUL');
+
+-- CreateTable
+CREATE TABLE "exchange_ratings" (
+    "id" TEXT NOT NULL,
+    "exchangeId" TEXT NOT NULL,
+    "raterId" TEXT NOT NULL,
+    "rateeId" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "comment" TEXT,
+    "tags" "RatingTag"[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "visibleAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_ratings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_ratings_exchangeId_raterId_key" ON "exchange_ratings"("exchangeId", "raterId");
+
+-- CreateIndex
+CREATE INDEX "exchange_ratings_rateeId_visibleAt_idx" ON "exchange_ratings"("rateeId", "visibleAt");
+
+-- AddForeignKey
+ALTER TABLE "exchange_ratings" ADD CONSTRAINT "exchange_ratings_exchangeId_fkey" FOREIGN KEY ("exchangeId") REFERENCES "exchanges"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "exchange_ratings" ADD CONSTRAINT "exchange_ratings_raterId_fkey" FOREIGN KEY ("raterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "exchange_ratings" ADD CONSTRAINT "exchange_ratings_rateeId_fkey" FOREIGN KEY ("rateeId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "ExchangeItemSide" AS ENUM ('OFFERED', 'REQUESTED');
+
+-- CreateTable
+CREATE TABLE "exchange_items" (
+    "id" TEXT NOT NULL,
+    "exchangeId" TEXT NOT NULL,
+    "itemId" TEXT,
+    "side" "ExchangeItemSide" NOT NULL,
+    "title" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "exchange_items_pkey" PRIMARY KEY ("id")
+);
+
+-- Reprise des objets liés aux échanges existants (un objet de chaque côté)
+INSERT INTO "exchange_items" ("id", "exchangeId", "itemId", "side", "title", "createdAt")
+SELECT 'exi_o_' || "id", "id", "offeredItemId", 'OFFERED', "offeredItemTitle", "createdAt"
+FROM "exchanges";
+
+INSERT INTO "exchange_items" ("id", "exchangeId", "itemId", "side", "title", "createdAt")
+SELECT 'exi_r_' || "id", "id", "requestedItemId", 'REQUESTED', "requestedItemTitle", "createdAt"
+FROM "exchanges";
+
+-- AlterTable
+ALTER TABLE "exchanges" ADD COLUMN     "proposedById" TEXT;
+
+-- Les échanges existants n'ont pas de contre-proposition: le lot vient du demandeur
+UPDATE "exchanges" SET "proposedById" = "requesterId";
+
+ALTER TABLE "exchanges" ALTER COLUMN "proposedById" SET NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "exchanges" DROP CONSTRAINT "exchanges_offeredItemId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "exchanges" DROP CONSTRAINT "exchanges_requestedItemId_fkey";
+
+-- DropIndex
+DROP INDEX "exchanges_offeredItemId_idx";
+
+-- DropIndex
+DROP INDEX "exchanges_requestedItemId_idx";
+
+-- AlterTable
+ALTER TABLE "exchanges" DROP COLUMN "offeredItemId",
+DROP COLUMN "requestedItemId";
+
+-- CreateIndex
+CREATE INDEX "exchange_items_exchangeId_idx" ON "exchange_items"("exchangeId");
+
+-- CreateIndex
+CREATE INDEX "exchange_items_itemId_idx" ON "exchange_items"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "exchange_items" ADD CONSTRAINT "exchange_items_exchangeId_fkey" FOREIGN KEY ("exchangeId") REFERENCES "exchanges"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "exchange_items" ADD CONSTRAINT "exchange_items_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
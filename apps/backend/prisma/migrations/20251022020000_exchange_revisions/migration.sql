@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "exchanges" ADD COLUMN     "currentVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "exchange_revisions" (
+    "id" TEXT NOT NULL,
+    "exchangeId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "note" TEXT,
+    "items" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "exchange_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- Version 1 des échanges existants: leur lot actuel, attribué à son auteur
+INSERT INTO "exchange_revisions" ("id", "exchangeId", "version", "authorId", "items", "createdAt")
+SELECT
+    'exr_' || e."id",
+    e."id",
+    1,
+    e."proposedById",
+    COALESCE(
+        (
+            SELECT jsonb_agg(
+                jsonb_build_object('itemId', ei."itemId", 'side', ei."side", 'title', ei."title")
+                ORDER BY ei."createdAt"
+            )
+            FROM "exchange_items" ei
+            WHERE ei."exchangeId" = e."id"
+        ),
+        '[]'::jsonb
+    ),
+    e."createdAt"
+FROM "exchanges" e;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_revisions_exchangeId_version_key" ON "exchange_revisions"("exchangeId", "version");
+
+-- AddForeignKey
+ALTER TABLE "exchange_revisions" ADD CONSTRAINT "exchange_revisions_exchangeId_fkey" FOREIGN KEY ("exchangeId") REFERENCES "exchanges"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "exchange_revisions" ADD CONSTRAINT "exchange_revisions_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "AiValidationOutcome" AS ENUM ('REPAIRED', 'FALLBACK');
+
+-- CreateTable
+CREATE TABLE "ai_validation_failures" (
+    "id" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "promptHash" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "outcome" "AiValidationOutcome" NOT NULL,
+    "errors" JSONB NOT NULL,
+    "response" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_validation_failures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_validation_failures_feature_createdAt_idx" ON "ai_validation_failures"("feature", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_validation_failures_promptHash_idx" ON "ai_validation_failures"("promptHash");
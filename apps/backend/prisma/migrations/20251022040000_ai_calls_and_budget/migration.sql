@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "AiCallOutcome" AS ENUM ('SUCCESS', 'ERROR', 'BUDGET_EXCEEDED');
+
+-- CreateTable
+CREATE TABLE "ai_calls" (
+    "id" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptHash" TEXT NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "inputTokens" INTEGER,
+    "outputTokens" INTEGER,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "outcome" "AiCallOutcome" NOT NULL,
+    "error" TEXT,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_calls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ai_budgets" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "dailyLimitUsd" DOUBLE PRECISION,
+    "monthlyLimitUsd" DOUBLE PRECISION,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_calls_createdAt_idx" ON "ai_calls"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_calls_feature_createdAt_idx" ON "ai_calls"("feature", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_calls_entityType_entityId_idx" ON "ai_calls"("entityType", "entityId");
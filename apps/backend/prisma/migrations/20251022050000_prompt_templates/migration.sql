@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "ai_calls" ADD COLUMN "promptVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ai_validation_failures" ADD COLUMN "promptVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "prompt_templates" (
+    "id" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "template" TEXT NOT NULL,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "prompt_deployments" (
+    "id" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "environment" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "candidateVersion" INTEGER,
+    "candidateShare" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prompt_deployments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "prompt_outcomes" (
+    "id" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "promptVersion" INTEGER NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "metric" TEXT NOT NULL,
+    "value" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prompt_outcomes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_calls_feature_promptVersion_idx" ON "ai_calls"("feature", "promptVersion");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_templates_feature_version_key" ON "prompt_templates"("feature", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_deployments_feature_environment_key" ON "prompt_deployments"("feature", "environment");
+
+-- CreateIndex
+CREATE INDEX "prompt_outcomes_feature_promptVersion_idx" ON "prompt_outcomes"("feature", "promptVersion");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_outcomes_entityType_entityId_metric_key" ON "prompt_outcomes"("entityType", "entityId", "metric");
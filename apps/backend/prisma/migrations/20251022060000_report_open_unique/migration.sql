@@ -0,0 +1,26 @@
+-- Un seul signalement non résolu par signaleur et par cible (doublons
+-- simultanés). Index partiel hors schéma Prisma (non exprimable).
+-- La cible est le premier champ renseigné: targetUserId est présent pour
+-- tous les types, il ne désigne la cible que pour le type USER.
+
+-- Doublons existants: on conserve le plus ancien, les autres sont résolus
+UPDATE "reports" r
+SET "resolved" = true, "resolvedAt" = CURRENT_TIMESTAMP
+FROM (
+  SELECT "id",
+    ROW_NUMBER() OVER (
+      PARTITION BY "reporterId", "type",
+        COALESCE("targetItemId", "targetExchangeId", "targetPostId", "targetUserId")
+      ORDER BY "createdAt", "id"
+    ) AS "position"
+  FROM "reports"
+  WHERE NOT "resolved" AND "reporterId" IS NOT NULL
+) duplicate
+WHERE r."id" = duplicate."id" AND duplicate."position" > 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reports_open_target_key" ON "reports" (
+  "reporterId",
+  "type",
+  COALESCE("targetItemId", "targetExchangeId", "targetPostId", "targetUserId")
+) WHERE NOT "resolved";
@@ -1,4 +1,9 @@
-import { PrismaClient, UserRole, ExchangeStatus } from '@prisma/client';
+import {
+  PrismaClient,
+  UserRole,
+  ExchangeStatus,
+  ExchangeItemSide,
+} from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 
 const prisma = new PrismaClient();
@@ -82,14 +87,31 @@ async function main() {
     },
   });
 
-  // Créer des échanges d'exemple
+  // Créer des échanges d'exemple (lot + révision initiale de la négociation)
+  const firstBundle = [
+    { side: ExchangeItemSide.OFFERED, title: 'MacBook Air M1' },
+    { side: ExchangeItemSide.REQUESTED, title: 'iPhone 13 Pro' },
+  ];
+  const secondBundle = [
+    { side: ExchangeItemSide.OFFERED, title: 'Tablette iPad Pro' },
+    {
+      side: ExchangeItemSide.REQUESTED,
+      title: 'Collection de livres de science-fiction',
+    },
+  ];
+
   await prisma.exchange.create({
     data: {
       requesterId: user1.id,
       responderId: user2.id,
+      proposedById: user1.id,
       requestedItemTitle: 'iPhone 13 Pro',
       offeredItemTitle: 'MacBook Air M1',
       status: ExchangeStatus.PENDING,
+      items: { create: firstBundle },
+      revisions: {
+        create: { version: 1, authorId: user1.id, items: firstBundle },
+      },
     },
   });
 
@@ -97,10 +119,15 @@ async function main() {
     data: {
       requesterId: user2.id,
       responderId: user1.id,
+      proposedById: user2.id,
       requestedItemTitle: 'Collection de livres de science-fiction',
       offeredItemTitle: 'Tablette iPad Pro',
       status: ExchangeStatus.COMPLETED,
       completedAt: new Date(),
+      items: { create: secondBundle },
+      revisions: {
+        create: { version: 1, authorId: user2.id, items: secondBundle },
+      },
     },
   });
 
@@ -294,8 +294,8 @@ const collection = {
               raw: JSON.stringify(
                 {
                   responderId: 'user_id_here',
-                  requestedItemTitle: 'iPhone 13 Pro',
-                  offeredItemTitle: 'MacBook Air M1',
+                  requestedItemId: 'requested_item_id_here',
+                  offeredItemId: 'offered_item_id_here',
                 },
                 null,
                 2,
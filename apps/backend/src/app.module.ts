@@ -36,6 +36,10 @@ import { EcoModule } from './modules/eco/eco.module'; // Contenu écologique
 import { CommunityModule } from './modules/community/community.module'; // Communauté (forums)
 import { NotificationsModule } from './modules/notifications/notifications.module'; // Notifications
 import { AdminModule } from './modules/admin/admin.module'; // Administration
+import { ReportsModule } from './modules/reports/reports.module'; // Signalements utilisateurs
+import { SavedSearchesModule } from './modules/saved-searches/saved-searches.module'; // Recherches sauvegardées
+import { FavoritesModule } from './modules/favorites/favorites.module'; // Favoris (liste de suivi)
+import { RatingsModule } from './modules/ratings/ratings.module'; // Avis après échange
 
 // Import des fichiers de configuration
 import appConfig from './config/app.config'; // Configuration générale de l'app
@@ -96,6 +100,11 @@ import prismaConfig from './config/prisma.config'; // Configuration de la base d
         ttl: 60 * 1000, // 1 minute
         limit: 10, // Maximum 10 recommandations IA par minute (économie de coûts API)
       },
+      {
+        name: 'reports',
+        ttl: 60 * 1000, // 1 minute
+        limit: 5, // Maximum 5 signalements par minute (anti-abus de la modération)
+      },
     ]),
 
     // ============================================
@@ -126,6 +135,10 @@ import prismaConfig from './config/prisma.config'; // Configuration de la base d
      * EcoModule: Contenu écologique et éducatif
      * CommunityModule: Forums et discussions communautaires
      * NotificationsModule: Notifications push et in-app
+     * ReportsModule: Signalements de contenus par les utilisateurs
+     * SavedSearchesModule: Recherches sauvegardées et alertes sur les nouveaux objets
+     * FavoritesModule: Favoris et alertes sur les objets suivis
+     * RatingsModule: Avis après échange et réputation des membres
      */
     AuthModule,
     UsersModule,
@@ -139,6 +152,10 @@ import prismaConfig from './config/prisma.config'; // Configuration de la base d
     EcoModule,
     CommunityModule,
     NotificationsModule,
+    ReportsModule,
+    SavedSearchesModule,
+    FavoritesModule,
+    RatingsModule,
     AdminModule,
   ],
 })
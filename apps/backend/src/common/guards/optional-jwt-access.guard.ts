@@ -0,0 +1,36 @@
+/**
+ * FICHIER: optional-jwt-access.guard.ts
+ *
+ * DESCRIPTION:
+ * Variante de JwtAccessGuard pour les routes publiques qui adaptent leur
+ * comportement à l'utilisateur connecté (ex: enregistrement d'une vue).
+ *
+ * FONCTIONNEMENT:
+ * - Token valide: l'utilisateur est ajouté à request.user (comme JwtAccessGuard)
+ * - Token absent ou invalide: la requête passe quand même, request.user est null
+ *
+ * UTILISATION:
+ * - @UseGuards(OptionalJwtAccessGuard), puis `req.user?.id` dans le contrôleur
+ */
+
+// Import des décorateurs NestJS
+import { Injectable } from '@nestjs/common';
+
+// Import de AuthGuard de Passport (système d'authentification)
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * GUARD: OptionalJwtAccessGuard
+ *
+ * Même stratégie 'jwt-access' que JwtAccessGuard, sans rejeter les visiteurs anonymes.
+ */
+@Injectable()
+export class OptionalJwtAccessGuard extends AuthGuard('jwt-access') {
+  /**
+   * Appelée par Passport après la validation du token.
+   * Au lieu de lever une 401, on renvoie null si aucun utilisateur n'est authentifié.
+   */
+  handleRequest<TUser = any>(_err: any, user: any): TUser {
+    return user || null;
+  }
+}
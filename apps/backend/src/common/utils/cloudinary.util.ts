@@ -0,0 +1,59 @@
+/**
+ * FICHIER: cloudinary.util.ts
+ *
+ * DESCRIPTION:
+ * Validation des URLs d'images Cloudinary. Les photos des items sont
+ * téléversées par le navigateur directement sur Cloudinary, puis leur URL est
+ * enregistrée par l'API: seule une URL du cloud configuré est acceptée.
+ *
+ * SÉCURITÉ:
+ * Le serveur télécharge ces images (analyse des photos par l'IA): restreindre
+ * l'hôte évite qu'une URL arbitraire lui fasse appeler un service interne (SSRF).
+ */
+
+/**
+ * Hôte de diffusion des images Cloudinary.
+ */
+export const CLOUDINARY_DELIVERY_HOST = 'res.cloudinary.com';
+
+/**
+ * CLASSE: CloudinaryUtil
+ *
+ * Méthodes statiques de validation des URLs Cloudinary.
+ */
+export class CloudinaryUtil {
+  /**
+   * MÉTHODE: isAssetUrl
+   *
+   * Indique si l'URL désigne une image du cloud Cloudinary configuré:
+   * https, hôte `res.cloudinary.com` (port par défaut, sans identifiants) et
+   * chemin commençant par `/<cloudName>/`.
+   *
+   * @param url - URL à vérifier
+   * @param cloudName - Nom du cloud Cloudinary (config `cloudinary.cloudName`)
+   * @returns false si l'URL est invalide ou si aucun cloud n'est configuré
+   *
+   * Exemple:
+   * isAssetUrl("https://res.cloudinary.com/demo/image/upload/a.webp", "demo") -> true
+   */
+  static isAssetUrl(url: string, cloudName: string | undefined): boolean {
+    if (!cloudName) {
+      return false;
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    return (
+      parsed.protocol === 'https:' &&
+      parsed.host === CLOUDINARY_DELIVERY_HOST &&
+      !parsed.username &&
+      !parsed.password &&
+      parsed.pathname.startsWith(`/${cloudName}/`)
+    );
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * FICHIER: geo-cities.ts
+ *
+ * DESCRIPTION:
+ * Table de géocodage hors ligne: coordonnées (centre-ville) des villes les plus
+ * courantes parmi nos utilisateurs. Elle permet de convertir un texte libre
+ * ("Lyon", "Saint-Étienne, France") en coordonnées sans appeler de service externe.
+ *
+ * NOTE:
+ * - Les clés sont normalisées (minuscules, sans accents, tirets → espaces),
+ *   voir `GeoUtil.normalizeCityName`
+ * - Une ville absente de la table n'est simplement pas géolocalisée: l'utilisateur
+ *   peut alors fournir ses coordonnées directement
+ */
+
+/**
+ * INTERFACE: CityCoordinates
+ */
+export interface CityCoordinates {
+  name: string; // Nom affichable
+  country: string; // Code pays ISO 3166-1 alpha-2
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Villes connues, indexées par nom normalisé.
+ */
+export const CITY_COORDINATES: Record<string, CityCoordinates> = {
+  // France
+  paris: { name: 'Paris', country: 'FR', latitude: 48.8566, longitude: 2.3522 },
+  marseille: {
+    name: 'Marseille',
+    country: 'FR',
+    latitude: 43.2965,
+    longitude: 5.3698,
+  },
+  lyon: { name: 'Lyon', country: 'FR', latitude: 45.764, longitude: 4.8357 },
+  toulouse: {
+    name: 'Toulouse',
+    country: 'FR',
+    latitude: 43.6047,
+    longitude: 1.4442,
+  },
+  nice: { name: 'Nice', country: 'FR', latitude: 43.7102, longitude: 7.262 },
+  nantes: {
+    name: 'Nantes',
+    country: 'FR',
+    latitude: 47.2184,
+    longitude: -1.5536,
+  },
+  montpellier: {
+    name: 'Montpellier',
+    country: 'FR',
+    latitude: 43.6108,
+    longitude: 3.8767,
+  },
+  strasbourg: {
+    name: 'Strasbourg',
+    country: 'FR',
+    latitude: 48.5734,
+    longitude: 7.7521,
+  },
+  bordeaux: {
+    name: 'Bordeaux',
+    country: 'FR',
+    latitude: 44.8378,
+    longitude: -0.5792,
+  },
+  lille: { name: 'Lille', country: 'FR', latitude: 50.6292, longitude: 3.0573 },
+  rennes: {
+    name: 'Rennes',
+    country: 'FR',
+    latitude: 48.1173,
+    longitude: -1.6778,
+  },
+  reims: { name: 'Reims', country: 'FR', latitude: 49.2583, longitude: 4.0317 },
+  toulon: {
+    name: 'Toulon',
+    country: 'FR',
+    latitude: 43.1242,
+    longitude: 5.928,
+  },
+  'saint etienne': {
+    name: 'Saint-Étienne',
+    country: 'FR',
+    latitude: 45.4397,
+    longitude: 4.3872,
+  },
+  'le havre': {
+    name: 'Le Havre',
+    country: 'FR',
+    latitude: 49.4944,
+    longitude: 0.1079,
+  },
+  grenoble: {
+    name: 'Grenoble',
+    country: 'FR',
+    latitude: 45.1885,
+    longitude: 5.7245,
+  },
+  dijon: { name: 'Dijon', country: 'FR', latitude: 47.322, longitude: 5.0415 },
+  angers: {
+    name: 'Angers',
+    country: 'FR',
+    latitude: 47.4784,
+    longitude: -0.5632,
+  },
+  nimes: { name: 'Nîmes', country: 'FR', latitude: 43.8367, longitude: 4.3601 },
+  'clermont ferrand': {
+    name: 'Clermont-Ferrand',
+    country: 'FR',
+    latitude: 45.7772,
+    longitude: 3.087,
+  },
+  'le mans': {
+    name: 'Le Mans',
+    country: 'FR',
+    latitude: 48.0061,
+    longitude: 0.1996,
+  },
+  'aix en provence': {
+    name: 'Aix-en-Provence',
+    country: 'FR',
+    latitude: 43.5297,
+    longitude: 5.4474,
+  },
+  brest: {
+    name: 'Brest',
+    country: 'FR',
+    latitude: 48.3904,
+    longitude: -4.4861,
+  },
+  tours: { name: 'Tours', country: 'FR', latitude: 47.3941, longitude: 0.6848 },
+  amiens: {
+    name: 'Amiens',
+    country: 'FR',
+    latitude: 49.8941,
+    longitude: 2.2958,
+  },
+  limoges: {
+    name: 'Limoges',
+    country: 'FR',
+    latitude: 45.8336,
+    longitude: 1.2611,
+  },
+  annecy: {
+    name: 'Annecy',
+    country: 'FR',
+    latitude: 45.8992,
+    longitude: 6.1294,
+  },
+  perpignan: {
+    name: 'Perpignan',
+    country: 'FR',
+    latitude: 42.6887,
+    longitude: 2.8948,
+  },
+  metz: { name: 'Metz', country: 'FR', latitude: 49.1193, longitude: 6.1757 },
+  besancon: {
+    name: 'Besançon',
+    country: 'FR',
+    latitude: 47.2378,
+    longitude: 6.0241,
+  },
+  orleans: {
+    name: 'Orléans',
+    country: 'FR',
+    latitude: 47.9029,
+    longitude: 1.9093,
+  },
+  rouen: { name: 'Rouen', country: 'FR', latitude: 49.4432, longitude: 1.0999 },
+  mulhouse: {
+    name: 'Mulhouse',
+    country: 'FR',
+    latitude: 47.7508,
+    longitude: 7.3359,
+  },
+  caen: { name: 'Caen', country: 'FR', latitude: 49.1829, longitude: -0.3707 },
+  nancy: { name: 'Nancy', country: 'FR', latitude: 48.6921, longitude: 6.1844 },
+  avignon: {
+    name: 'Avignon',
+    country: 'FR',
+    latitude: 43.9493,
+    longitude: 4.8055,
+  },
+  poitiers: {
+    name: 'Poitiers',
+    country: 'FR',
+    latitude: 46.5802,
+    longitude: 0.3404,
+  },
+  'la rochelle': {
+    name: 'La Rochelle',
+    country: 'FR',
+    latitude: 46.1603,
+    longitude: -1.1511,
+  },
+  pau: { name: 'Pau', country: 'FR', latitude: 43.2951, longitude: -0.3708 },
+  bayonne: {
+    name: 'Bayonne',
+    country: 'FR',
+    latitude: 43.4929,
+    longitude: -1.4748,
+  },
+  ajaccio: {
+    name: 'Ajaccio',
+    country: 'FR',
+    latitude: 41.9192,
+    longitude: 8.7386,
+  },
+
+  // Pays francophones voisins
+  bruxelles: {
+    name: 'Bruxelles',
+    country: 'BE',
+    latitude: 50.8503,
+    longitude: 4.3517,
+  },
+  brussels: {
+    name: 'Bruxelles',
+    country: 'BE',
+    latitude: 50.8503,
+    longitude: 4.3517,
+  },
+  liege: { name: 'Liège', country: 'BE', latitude: 50.6326, longitude: 5.5797 },
+  geneve: {
+    name: 'Genève',
+    country: 'CH',
+    latitude: 46.2044,
+    longitude: 6.1432,
+  },
+  geneva: {
+    name: 'Genève',
+    country: 'CH',
+    latitude: 46.2044,
+    longitude: 6.1432,
+  },
+  lausanne: {
+    name: 'Lausanne',
+    country: 'CH',
+    latitude: 46.5197,
+    longitude: 6.6323,
+  },
+  luxembourg: {
+    name: 'Luxembourg',
+    country: 'LU',
+    latitude: 49.6116,
+    longitude: 6.1319,
+  },
+  monaco: {
+    name: 'Monaco',
+    country: 'MC',
+    latitude: 43.7384,
+    longitude: 7.4246,
+  },
+  montreal: {
+    name: 'Montréal',
+    country: 'CA',
+    latitude: 45.5017,
+    longitude: -73.5673,
+  },
+  quebec: {
+    name: 'Québec',
+    country: 'CA',
+    latitude: 46.8139,
+    longitude: -71.208,
+  },
+
+  // Grandes villes européennes
+  london: {
+    name: 'London',
+    country: 'GB',
+    latitude: 51.5072,
+    longitude: -0.1276,
+  },
+  londres: {
+    name: 'London',
+    country: 'GB',
+    latitude: 51.5072,
+    longitude: -0.1276,
+  },
+  berlin: { name: 'Berlin', country: 'DE', latitude: 52.52, longitude: 13.405 },
+  madrid: {
+    name: 'Madrid',
+    country: 'ES',
+    latitude: 40.4168,
+    longitude: -3.7038,
+  },
+  barcelona: {
+    name: 'Barcelona',
+    country: 'ES',
+    latitude: 41.3874,
+    longitude: 2.1686,
+  },
+  barcelone: {
+    name: 'Barcelona',
+    country: 'ES',
+    latitude: 41.3874,
+    longitude: 2.1686,
+  },
+  rome: { name: 'Roma', country: 'IT', latitude: 41.9028, longitude: 12.4964 },
+  roma: { name: 'Roma', country: 'IT', latitude: 41.9028, longitude: 12.4964 },
+  milan: { name: 'Milano', country: 'IT', latitude: 45.4642, longitude: 9.19 },
+  milano: { name: 'Milano', country: 'IT', latitude: 45.4642, longitude: 9.19 },
+  amsterdam: {
+    name: 'Amsterdam',
+    country: 'NL',
+    latitude: 52.3676,
+    longitude: 4.9041,
+  },
+  lisbonne: {
+    name: 'Lisboa',
+    country: 'PT',
+    latitude: 38.7223,
+    longitude: -9.1393,
+  },
+  lisbon: {
+    name: 'Lisboa',
+    country: 'PT',
+    latitude: 38.7223,
+    longitude: -9.1393,
+  },
+  lisboa: {
+    name: 'Lisboa',
+    country: 'PT',
+    latitude: 38.7223,
+    longitude: -9.1393,
+  },
+};
@@ -0,0 +1,293 @@
+/**
+ * FICHIER: geo.util.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier contient les fonctions utilitaires de géolocalisation utilisées
+ * par les profils, les items et les recommandations:
+ * - Géocodage hors ligne d'une ville (table `CITY_COORDINATES`)
+ * - Arrondi des coordonnées pour préserver la vie privée
+ * - Calcul de geohash (position grossière)
+ * - Distance entre deux points (formule de haversine)
+ * - Rectangle englobant un rayon (pré-filtrage en base de données)
+ *
+ * VIE PRIVÉE:
+ * On ne stocke jamais une position exacte: les coordonnées sont arrondies à
+ * 0,01° (~1 km) et le geohash est limité à 5 caractères (~5 km).
+ * Les distances affichées sont elles-mêmes arrondies au kilomètre.
+ */
+
+// Import de la table de géocodage hors ligne
+import { CITY_COORDINATES, CityCoordinates } from './geo-cities';
+
+/**
+ * INTERFACE: GeoPoint
+ *
+ * Point géographique (degrés décimaux).
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * INTERFACE: StoredLocation
+ *
+ * Colonnes de localisation enregistrées sur un profil ou un item.
+ * Toutes à null quand la localisation est effacée ou inconnue.
+ */
+export interface StoredLocation {
+  latitude: number | null;
+  longitude: number | null;
+  geohash: string | null;
+}
+
+/**
+ * INTERFACE: BoundingBox
+ */
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+/**
+ * Rayon par défaut d'une recherche `near` (km), partagé par la recherche d'items
+ * et les recherches sauvegardées.
+ */
+export const DEFAULT_NEAR_RADIUS_KM = 50;
+
+// Rayon moyen de la Terre (km), aussi utilisé par les calculs de distance SQL
+export const EARTH_RADIUS_KM = 6371;
+
+// Longueur d'un degré de latitude (km)
+const KM_PER_DEGREE = 111.32;
+
+// Précision de l'arrondi des coordonnées (2 décimales ≈ 1,1 km)
+const COORDINATE_PRECISION = 2;
+
+// Longueur du geohash stocké (5 caractères ≈ 4,9 km × 4,9 km)
+const GEOHASH_PRECISION = 5;
+
+// Alphabet base32 du geohash (sans a, i, l, o)
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * CLASSE: GeoUtil
+ *
+ * Classe utilitaire avec des méthodes statiques (comme `HashUtil`).
+ */
+export class GeoUtil {
+  /**
+   * MÉTHODE: normalizeCityName
+   *
+   * Normalise un nom de ville pour la recherche dans la table:
+   * "Saint-Étienne, France" → "saint etienne".
+   */
+  static normalizeCityName(value: string): string {
+    return value
+      .split(',')[0]
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '') // Supprimer les accents
+      .toLowerCase()
+      .replace(/[-'’]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * MÉTHODE: geocodeCity
+   *
+   * Géocode une ville grâce à la table hors ligne.
+   *
+   * @returns Coordonnées de la ville, ou null si elle est inconnue
+   */
+  static geocodeCity(value: string): CityCoordinates | null {
+    return CITY_COORDINATES[GeoUtil.normalizeCityName(value)] ?? null;
+  }
+
+  /**
+   * MÉTHODE: parseNear
+   *
+   * Interprète le paramètre `near` d'une recherche:
+   * - "45.76,4.83" → coordonnées
+   * - "Lyon" → coordonnées de la ville (table hors ligne)
+   *
+   * @returns Point correspondant, ou null si la valeur n'est pas reconnue
+   */
+  static parseNear(value: string): GeoPoint | null {
+    const match = value
+      .trim()
+      .match(/^(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)$/);
+
+    if (match) {
+      const point = { latitude: Number(match[1]), longitude: Number(match[2]) };
+      return GeoUtil.isValidPoint(point) ? point : null;
+    }
+
+    const city = GeoUtil.geocodeCity(value);
+    return city ? { latitude: city.latitude, longitude: city.longitude } : null;
+  }
+
+  /**
+   * MÉTHODE: toPoint
+   *
+   * Extrait un point d'un enregistrement (profil, item) s'il est géolocalisé.
+   */
+  static toPoint(
+    value?: { latitude: number | null; longitude: number | null } | null,
+  ): GeoPoint | null {
+    if (value?.latitude == null || value.longitude == null) {
+      return null;
+    }
+    return { latitude: value.latitude, longitude: value.longitude };
+  }
+
+  /**
+   * MÉTHODE: isValidPoint
+   *
+   * Vérifie que les coordonnées sont dans les bornes terrestres.
+   */
+  static isValidPoint(point: GeoPoint): boolean {
+    return (
+      Number.isFinite(point.latitude) &&
+      Number.isFinite(point.longitude) &&
+      Math.abs(point.latitude) <= 90 &&
+      Math.abs(point.longitude) <= 180
+    );
+  }
+
+  /**
+   * MÉTHODE: toStoredLocation
+   *
+   * Prépare les colonnes à enregistrer: coordonnées arrondies + geohash.
+   * Passer null efface la localisation.
+   */
+  static toStoredLocation(point: GeoPoint | null): StoredLocation {
+    // Des coordonnées hors bornes sont traitées comme une localisation inconnue
+    if (!point || !GeoUtil.isValidPoint(point)) {
+      return { latitude: null, longitude: null, geohash: null };
+    }
+
+    const factor = 10 ** COORDINATE_PRECISION;
+    return {
+      latitude: Math.round(point.latitude * factor) / factor,
+      longitude: Math.round(point.longitude * factor) / factor,
+      geohash: GeoUtil.encodeGeohash(point),
+    };
+  }
+
+  /**
+   * MÉTHODE: resolveInput
+   *
+   * Calcule la localisation à enregistrer à partir d'une saisie (profil ou item):
+   * - latitude + longitude fournies → utilisées (arrondies)
+   * - sinon, `location` modifiée → géocodée avec la table hors ligne
+   *   (ville inconnue ou location vidée → localisation effacée)
+   * - sinon → undefined (localisation inchangée)
+   */
+  static resolveInput(input: {
+    location?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+  }): StoredLocation | undefined {
+    if (input.latitude != null && input.longitude != null) {
+      return GeoUtil.toStoredLocation({
+        latitude: input.latitude,
+        longitude: input.longitude,
+      });
+    }
+
+    if (input.location !== undefined) {
+      const city = input.location ? GeoUtil.geocodeCity(input.location) : null;
+      return GeoUtil.toStoredLocation(city);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * MÉTHODE: encodeGeohash
+   *
+   * Encode un point en geohash: on alterne longitude / latitude en coupant
+   * l'intervalle en deux à chaque bit, puis on regroupe les bits par 5.
+   *
+   * Exemple: Paris (48.8566, 2.3522) → "u09tv"
+   */
+  static encodeGeohash(
+    point: GeoPoint,
+    precision: number = GEOHASH_PRECISION,
+  ): string {
+    const latitudeRange = [-90, 90];
+    const longitudeRange = [-180, 180];
+    let hash = '';
+    let bits = 0;
+    let bitCount = 0;
+    let evenBit = true; // Les bits pairs codent la longitude
+
+    while (hash.length < precision) {
+      const range = evenBit ? longitudeRange : latitudeRange;
+      const value = evenBit ? point.longitude : point.latitude;
+      const middle = (range[0] + range[1]) / 2;
+
+      bits <<= 1;
+      if (value >= middle) {
+        bits |= 1;
+        range[0] = middle;
+      } else {
+        range[1] = middle;
+      }
+
+      evenBit = !evenBit;
+      if (++bitCount === 5) {
+        hash += GEOHASH_BASE32[bits];
+        bits = 0;
+        bitCount = 0;
+      }
+    }
+
+    return hash;
+  }
+
+  /**
+   * MÉTHODE: distanceKm
+   *
+   * Distance à vol d'oiseau entre deux points (formule de haversine).
+   */
+  static distanceKm(from: GeoPoint, to: GeoPoint): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const deltaLatitude = toRadians(to.latitude - from.latitude);
+    const deltaLongitude = toRadians(to.longitude - from.longitude);
+
+    const a =
+      Math.sin(deltaLatitude / 2) ** 2 +
+      Math.cos(toRadians(from.latitude)) *
+        Math.cos(toRadians(to.latitude)) *
+        Math.sin(deltaLongitude / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+
+  /**
+   * MÉTHODE: boundingBox
+   *
+   * Rectangle contenant le cercle de rayon `radiusKm` autour d'un point.
+   * Sert de pré-filtre indexable en base; la distance exacte est ensuite
+   * vérifiée avec `distanceKm`.
+   */
+  static boundingBox(center: GeoPoint, radiusKm: number): BoundingBox {
+    const latitudeDelta = radiusKm / KM_PER_DEGREE;
+    // Un degré de longitude raccourcit en s'éloignant de l'équateur
+    const longitudeDelta =
+      radiusKm /
+      (KM_PER_DEGREE *
+        Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01));
+
+    return {
+      minLatitude: Math.max(center.latitude - latitudeDelta, -90),
+      maxLatitude: Math.min(center.latitude + latitudeDelta, 90),
+      minLongitude: Math.max(center.longitude - longitudeDelta, -180),
+      maxLongitude: Math.min(center.longitude + longitudeDelta, 180),
+    };
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * FICHIER: item-categories.ts
+ *
+ * DESCRIPTION:
+ * Registre des catégories d'objets: source unique de vérité pour
+ * - la validation des catégories (ItemsService, DTOs)
+ * - le prompt d'analyse et de thèmes de l'IA (AiService)
+ * - l'endpoint public GET /items/categories, qui alimente le frontend
+ *   (sélecteurs, filtres, labels et icônes)
+ *
+ * Chaque catégorie correspond à une valeur de l'enum Prisma `ItemCategory`
+ * et porte ses labels traduits, une icône et des sous-catégories indicatives.
+ *
+ * NOTE:
+ * Les sous-catégories ne sont pas enregistrées sur l'item: elles décrivent le
+ * contenu de la catégorie (aide au choix dans l'interface et pour l'IA).
+ */
+
+// Import des types Prisma
+import { ItemCategory } from '@prisma/client';
+
+/**
+ * Langues disponibles pour les labels des catégories.
+ */
+export const CATEGORY_LOCALES = ['fr', 'en'] as const;
+export type CategoryLocale = (typeof CATEGORY_LOCALES)[number];
+
+/**
+ * Langue par défaut (interface en français).
+ */
+export const DEFAULT_CATEGORY_LOCALE: CategoryLocale = 'fr';
+
+/**
+ * INTERFACE: LocalizedLabel
+ */
+export type LocalizedLabel = Record<CategoryLocale, string>;
+
+/**
+ * INTERFACE: SubcategoryDefinition
+ */
+export interface SubcategoryDefinition {
+  value: string;
+  labels: LocalizedLabel;
+}
+
+/**
+ * INTERFACE: CategoryDefinition
+ *
+ * Entrée du registre. `icon` est le nom d'une icône lucide (kebab-case).
+ */
+export interface CategoryDefinition {
+  value: ItemCategory;
+  labels: LocalizedLabel;
+  icon: string;
+  subcategories?: SubcategoryDefinition[];
+}
+
+/**
+ * INTERFACE: CategoryOption
+ *
+ * Catégorie traduite dans une langue (réponse de GET /items/categories).
+ */
+export interface CategoryOption {
+  value: ItemCategory;
+  label: string;
+  icon: string;
+  subcategories: { value: string; label: string }[];
+}
+
+/**
+ * REGISTRE: ITEM_CATEGORY_REGISTRY
+ *
+ * Ordre d'affichage des catégories (OTHER toujours en dernier).
+ * Toute valeur ajoutée à l'enum `ItemCategory` doit y figurer (vérifié par les tests).
+ */
+export const ITEM_CATEGORY_REGISTRY: CategoryDefinition[] = [
+  {
+    value: ItemCategory.CLOTHING,
+    labels: { fr: 'Vêtements', en: 'Clothing' },
+    icon: 'shirt',
+    subcategories: [
+      { value: 'SHOES', labels: { fr: 'Chaussures', en: 'Shoes' } },
+      {
+        value: 'ACCESSORIES',
+        labels: { fr: 'Accessoires', en: 'Accessories' },
+      },
+      { value: 'KIDS', labels: { fr: 'Enfants', en: 'Kids' } },
+    ],
+  },
+  {
+    value: ItemCategory.ELECTRONICS,
+    labels: { fr: 'Électronique', en: 'Electronics' },
+    icon: 'smartphone',
+    subcategories: [
+      { value: 'PHONES', labels: { fr: 'Smartphones', en: 'Phones' } },
+      { value: 'COMPUTERS', labels: { fr: 'Ordinateurs', en: 'Computers' } },
+      { value: 'AUDIO', labels: { fr: 'Audio', en: 'Audio' } },
+      { value: 'GAMING', labels: { fr: 'Jeux vidéo', en: 'Gaming' } },
+    ],
+  },
+  {
+    value: ItemCategory.BOOKS,
+    labels: { fr: 'Livres', en: 'Books' },
+    icon: 'book-open',
+    subcategories: [
+      { value: 'NOVELS', labels: { fr: 'Romans', en: 'Novels' } },
+      { value: 'TEXTBOOKS', labels: { fr: 'Manuels', en: 'Textbooks' } },
+      { value: 'COMICS', labels: { fr: 'Bandes dessinées', en: 'Comics' } },
+    ],
+  },
+  {
+    value: ItemCategory.HOME,
+    labels: { fr: 'Maison', en: 'Home' },
+    icon: 'home',
+    subcategories: [
+      { value: 'FURNITURE', labels: { fr: 'Mobilier', en: 'Furniture' } },
+      { value: 'DECORATION', labels: { fr: 'Décoration', en: 'Decoration' } },
+      { value: 'KITCHEN', labels: { fr: 'Cuisine', en: 'Kitchen' } },
+    ],
+  },
+  {
+    value: ItemCategory.TOOLS,
+    labels: { fr: 'Outils', en: 'Tools' },
+    icon: 'wrench',
+    subcategories: [
+      { value: 'DIY', labels: { fr: 'Bricolage', en: 'DIY' } },
+      { value: 'GARDENING', labels: { fr: 'Jardinage', en: 'Gardening' } },
+    ],
+  },
+  {
+    value: ItemCategory.TOYS,
+    labels: { fr: 'Jouets', en: 'Toys' },
+    icon: 'puzzle',
+    subcategories: [
+      {
+        value: 'BOARD_GAMES',
+        labels: { fr: 'Jeux de société', en: 'Board games' },
+      },
+      { value: 'PUZZLES', labels: { fr: 'Puzzles', en: 'Puzzles' } },
+    ],
+  },
+  {
+    value: ItemCategory.SPORTS,
+    labels: { fr: 'Sport', en: 'Sports' },
+    icon: 'dumbbell',
+    subcategories: [
+      { value: 'EQUIPMENT', labels: { fr: 'Équipement', en: 'Equipment' } },
+      {
+        value: 'SPORTSWEAR',
+        labels: { fr: 'Vêtements de sport', en: 'Sportswear' },
+      },
+      { value: 'BIKES', labels: { fr: 'Vélos', en: 'Bikes' } },
+    ],
+  },
+  {
+    value: ItemCategory.ART,
+    labels: { fr: 'Art', en: 'Art' },
+    icon: 'palette',
+    subcategories: [
+      { value: 'PAINTINGS', labels: { fr: 'Peintures', en: 'Paintings' } },
+      { value: 'SCULPTURES', labels: { fr: 'Sculptures', en: 'Sculptures' } },
+    ],
+  },
+  {
+    value: ItemCategory.VINTAGE,
+    labels: { fr: 'Vintage', en: 'Vintage' },
+    icon: 'hourglass',
+    subcategories: [
+      {
+        value: 'COLLECTIBLES',
+        labels: { fr: 'Collection', en: 'Collectibles' },
+      },
+      { value: 'ANTIQUES', labels: { fr: 'Antiquités', en: 'Antiques' } },
+    ],
+  },
+  {
+    value: ItemCategory.HANDCRAFT,
+    labels: { fr: 'Artisanat', en: 'Handcraft' },
+    icon: 'scissors',
+    subcategories: [
+      { value: 'HANDMADE', labels: { fr: 'Fait main', en: 'Handmade' } },
+      {
+        value: 'CRAFT_SUPPLIES',
+        labels: { fr: 'Fournitures', en: 'Craft supplies' },
+      },
+    ],
+  },
+  {
+    value: ItemCategory.OTHER,
+    labels: { fr: 'Autre', en: 'Other' },
+    icon: 'package',
+  },
+];
+
+/**
+ * Valeurs des catégories, dans l'ordre du registre.
+ */
+export const ITEM_CATEGORY_VALUES: ItemCategory[] = ITEM_CATEGORY_REGISTRY.map(
+  (category) => category.value,
+);
+
+/**
+ * Message d'erreur commun aux validations de catégorie.
+ */
+export const INVALID_CATEGORY_MESSAGE = `Catégorie invalide. Catégories valides: ${ITEM_CATEGORY_VALUES.join(', ')}`;
+
+/**
+ * Vérifie qu'une valeur (ex: proposée par l'IA) est une catégorie du registre.
+ */
+export function isItemCategory(value: unknown): value is ItemCategory {
+  return (
+    typeof value === 'string' &&
+    ITEM_CATEGORY_VALUES.includes(value as ItemCategory)
+  );
+}
+
+/**
+ * Normalise une langue demandée (ex: "en-US" -> "en"), avec repli sur le français.
+ */
+export function resolveCategoryLocale(locale?: string | null): CategoryLocale {
+  const language = locale?.slice(0, 2).toLowerCase();
+  return (
+    CATEGORY_LOCALES.find((l) => l === language) ?? DEFAULT_CATEGORY_LOCALE
+  );
+}
+
+/**
+ * Catégories traduites dans une langue (réponse de GET /items/categories).
+ */
+export function listCategoryOptions(locale?: string | null): CategoryOption[] {
+  const resolved = resolveCategoryLocale(locale);
+
+  return ITEM_CATEGORY_REGISTRY.map((category) => ({
+    value: category.value,
+    label: category.labels[resolved],
+    icon: category.icon,
+    subcategories: (category.subcategories ?? []).map((subcategory) => ({
+      value: subcategory.value,
+      label: subcategory.labels[resolved],
+    })),
+  }));
+}
+
+/**
+ * Liste des catégories pour un prompt d'IA, une par ligne:
+ * "- HOME (Maison: Mobilier, Décoration, Cuisine)"
+ */
+export function describeCategoriesForPrompt(locale?: string | null): string {
+  return listCategoryOptions(locale)
+    .map((category) => {
+      const details = category.subcategories.map((s) => s.label).join(', ');
+      return `- ${category.value} (${category.label}${details ? `: ${details}` : ''})`;
+    })
+    .join('\n');
+}
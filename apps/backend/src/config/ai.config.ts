@@ -2,17 +2,34 @@
  * FICHIER: ai.config.ts
  *
  * DESCRIPTION:
- * Ce fichier définit la configuration pour l'intégration avec l'API Google Gemini (IA).
- * Il contient la clé API, le modèle à utiliser, et les paramètres de timeout/retry.
+ * Ce fichier définit la configuration de l'intégration avec les modèles de langage (IA):
+ * fournisseur utilisé, paramètres de chaque fournisseur, et réglages par fonctionnalité
+ * (modèle, température, longueur maximale de la réponse).
+ *
+ * FOURNISSEURS (AI_PROVIDER):
+ * - gemini: API Google Gemini (défaut)
+ * - openai: endpoint compatible OpenAI (/chat/completions), par exemple un
+ *   serveur de modèles local (Ollama, llama.cpp, vLLM...)
+ * - fixture: rejoue des réponses enregistrées sur disque (tests, développement hors ligne)
  *
  * UTILISATION:
  * - Analyse automatique des items pour catégorisation
  * - Génération de suggestions d'objets basées sur les thèmes
- * - Génération de contenu écologique
+ * - Génération du thème de la semaine
+ * - Enrichissement des contenus éco-éducatifs
+ * - Analyse des photos d'un item (modèle multimodal)
+ *
+ * COÛTS:
+ * - Tarifs par modèle (pricing) pour estimer le coût de chaque appel
+ * - Budgets journalier et mensuel réglés par les admins (table ai_budgets)
+ *
+ * PROMPTS:
+ * - Versions et déploiements par environnement gérés par les admins
+ *   (tables prompt_templates et prompt_deployments)
  *
  * SÉCURITÉ:
- * - La clé API doit être stockée dans les variables d'environnement
- * - Ne JAMAIS commiter la clé API dans le code source
+ * - Les clés API doivent être stockées dans les variables d'environnement
+ * - Ne JAMAIS commiter une clé API dans le code source
  */
 
 // Import de registerAs
@@ -21,40 +38,118 @@ import { registerAs } from '@nestjs/config';
 /**
  * CONFIGURATION: ai
  *
- * Configuration pour l'intégration avec Google Gemini API.
+ * Configuration du fournisseur de modèles de langage.
  */
 export default registerAs('ai', () => ({
   /**
-   * Clé API Google Gemini.
-   * OBLIGATOIRE pour utiliser les fonctionnalités IA.
-   * Obtenue depuis: https://makersuite.google.com/app/apikey
+   * Fournisseur utilisé: gemini, openai ou fixture.
+   * Défaut: gemini
+   */
+  provider: process.env.AI_PROVIDER || 'gemini',
+
+  /**
+   * Timeout pour les requêtes au fournisseur (en millisecondes).
+   * Si la requête prend plus de temps, elle sera annulée.
+   * Défaut: 10 secondes (10000 ms)
    */
-  geminiApiKey: process.env.AI_GEMINI_API_KEY,
+  timeoutMs: parseInt(
+    process.env.AI_TIMEOUT_MS || process.env.AI_GEMINI_TIMEOUT_MS || '10000',
+  ),
 
   /**
-   * Modèle Gemini à utiliser.
+   * Nombre maximum de tentatives par appel.
+   * Si une requête échoue, elle sera réessayée jusqu'à ce nombre de fois.
+   * Défaut: 1 tentative (pas de retry)
+   */
+  maxRetries: parseInt(
+    process.env.AI_MAX_RETRIES || process.env.AI_GEMINI_MAX_RETRIES || '1',
+  ),
+
+  /**
+   * Google Gemini (fournisseur gemini).
+   * Clé obtenue depuis: https://makersuite.google.com/app/apikey
+   * Modèles:
    * - gemini-2.5-flash: Rapide et économique (recommandé)
    * - gemini-pro: Plus puissant mais plus lent et coûteux
    */
-  geminiModel: process.env.AI_GEMINI_MODEL || 'gemini-2.5-flash',
+  gemini: {
+    apiKey: process.env.AI_GEMINI_API_KEY || process.env.GEMINI_API_KEY,
+    model: process.env.AI_GEMINI_MODEL || 'gemini-2.5-flash',
+    baseUrl:
+      process.env.AI_GEMINI_BASE_URL ||
+      'https://generativelanguage.googleapis.com/v1beta',
+  },
 
   /**
-   * Timeout pour les requêtes API (en millisecondes).
-   * Si la requête prend plus de temps, elle sera annulée.
-   * Défaut: 10 secondes (10000 ms)
+   * Endpoint compatible OpenAI (fournisseur openai).
+   * La clé est optionnelle (souvent inutile pour un serveur local).
    */
-  geminiTimeout: parseInt(process.env.AI_GEMINI_TIMEOUT_MS || '10000'),
+  openai: {
+    baseUrl: process.env.AI_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: process.env.AI_OPENAI_API_KEY,
+    model: process.env.AI_OPENAI_MODEL || 'llama3.1',
+  },
 
   /**
-   * Nombre maximum de tentatives en cas d'échec.
-   * Si une requête échoue, elle sera réessayée jusqu'à ce nombre de fois.
-   * Défaut: 1 tentative (pas de retry)
+   * Dossier des réponses enregistrées (fournisseur fixture).
+   * Une réponse par fichier: `<dossier>/<fonctionnalité>/<hash du prompt>.txt`,
+   * ou `<dossier>/<fonctionnalité>/default.txt` pour tout prompt.
+   */
+  fixturesDir: process.env.AI_FIXTURES_DIR || './test/fixtures/ai',
+
+  /**
+   * Tarifs des modèles en dollars US par million de tokens (coût des appels, budget).
+   * AI_PRICING (JSON) complète ou remplace ces tarifs, par exemple:
+   * {"gpt-4o-mini":{"input":0.15,"output":0.6}}
+   * Un modèle sans tarif (serveur local, fixtures) est compté à 0.
+   */
+  pricing: {
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    ...JSON.parse(process.env.AI_PRICING || '{}'),
+  },
+
+  /**
+   * Environnement dont les prompts déployés sont utilisés (registre des prompts,
+   * versions choisies par les admins pour chaque environnement).
+   * Défaut: NODE_ENV, sinon development
    */
-  geminiMaxRetries: parseInt(process.env.AI_GEMINI_MAX_RETRIES || '1'),
+  promptEnvironment:
+    process.env.AI_PROMPT_ENV || process.env.NODE_ENV || 'development',
 
   /**
-   * URL de base de l'API Google Gemini.
-   * Ne change généralement pas, sauf mise à jour de l'API.
+   * Réglages par fonctionnalité.
+   * - model: modèle spécifique (défaut: modèle du fournisseur)
+   * - temperature: bas = réponses plus déterministes
+   * - maxOutputTokens: limite la longueur de la réponse
    */
-  geminiBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+  features: {
+    itemAnalysis: {
+      model: process.env.AI_ITEM_ANALYSIS_MODEL,
+      temperature: 0.3,
+      maxOutputTokens: 500,
+    },
+    suggestions: {
+      model: process.env.AI_SUGGESTIONS_MODEL,
+      temperature: 0.3,
+      maxOutputTokens: 500,
+    },
+    theme: {
+      model: process.env.AI_THEME_MODEL,
+      temperature: 0.3,
+      maxOutputTokens: 500,
+    },
+    ecoEnrichment: {
+      model: process.env.AI_ECO_ENRICHMENT_MODEL,
+      temperature: 0.3,
+      maxOutputTokens: 1024,
+    },
+    // Modèle multimodal requis (les photos de l'item sont jointes au prompt)
+    photoAnalysis: {
+      model: process.env.AI_PHOTO_ANALYSIS_MODEL,
+      temperature: 0.2,
+      maxOutputTokens: 800,
+    },
+  },
 }));
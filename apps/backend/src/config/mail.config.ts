@@ -0,0 +1,75 @@
+/**
+ * FICHIER: mail.config.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier définit la configuration de l'envoi des emails de notification
+ * (événements d'échange, nouveaux messages, thème de la semaine, résumés).
+ *
+ * TRANSPORTS:
+ * - smtp: envoi réel via un serveur SMTP (STARTTLS si proposé, ou TLS direct)
+ * - file: chaque email est écrit dans un fichier .eml (tests locaux)
+ * - console: l'email est seulement affiché dans les logs (défaut)
+ *
+ * LIENS DE DÉSINSCRIPTION:
+ * - Signés (HMAC-SHA256) avec `unsubscribeSecret`
+ * - Changer le secret invalide les liens déjà envoyés
+ */
+
+// Import de registerAs
+import { registerAs } from '@nestjs/config';
+
+/**
+ * CONFIGURATION: mail
+ *
+ * Configuration de l'envoi des emails.
+ */
+export default registerAs('mail', () => ({
+  /**
+   * Transport utilisé: smtp, file ou console.
+   * Défaut: console (aucun email réellement envoyé)
+   */
+  transport: process.env.MAIL_TRANSPORT || 'console',
+
+  /**
+   * Expéditeur des emails (adresse seule ou "Nom <adresse>").
+   */
+  from:
+    process.env.MAIL_FROM || 'SecondLife Exchange <no-reply@secondlife.com>',
+
+  /**
+   * Serveur SMTP (transport smtp).
+   * secure: TLS dès la connexion (port 465), sinon STARTTLS si proposé.
+   */
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '10000'),
+  },
+
+  /**
+   * Dossier des fichiers .eml (transport file).
+   */
+  fileDir: process.env.MAIL_FILE_DIR || './tmp/mails',
+
+  /**
+   * URL du frontend (liens des emails et page de désinscription).
+   */
+  appUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+
+  /**
+   * URL publique de l'API (désinscription en un clic, en-tête List-Unsubscribe).
+   */
+  apiUrl: process.env.API_PUBLIC_URL || 'http://localhost:4000/api/v1',
+
+  /**
+   * Secret de signature des liens de désinscription.
+   * Défaut: secret des tokens d'accès JWT
+   */
+  unsubscribeSecret:
+    process.env.MAIL_UNSUBSCRIBE_SECRET ||
+    process.env.JWT_ACCESS_SECRET ||
+    'change_me_unsubscribe',
+}));
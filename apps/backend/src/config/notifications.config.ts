@@ -0,0 +1,62 @@
+/**
+ * FICHIER: notifications.config.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier définit la configuration de l'envoi des notifications Web Push.
+ * Il contient les clés VAPID qui identifient le serveur auprès des services push
+ * des navigateurs (FCM pour Chrome, Mozilla Autopush, Apple...).
+ *
+ * GÉNÉRATION DES CLÉS:
+ * - `WebPushService.generateVapidKeys()` (ou `npx web-push generate-vapid-keys`)
+ * - La clé publique doit aussi être connue du frontend (applicationServerKey)
+ *
+ * SÉCURITÉ:
+ * - La clé privée doit être stockée dans les variables d'environnement
+ * - Changer les clés invalide tous les abonnements existants
+ */
+
+// Import de registerAs
+import { registerAs } from '@nestjs/config';
+
+/**
+ * CONFIGURATION: notifications
+ *
+ * Configuration pour l'envoi des notifications Web Push (VAPID).
+ */
+export default registerAs('notifications', () => ({
+  /**
+   * Clé publique VAPID (point P-256 non compressé, base64url).
+   * Transmise au navigateur lors de `pushManager.subscribe()`.
+   */
+  vapidPublicKey: process.env.VAPID_PUBLIC_KEY,
+
+  /**
+   * Clé privée VAPID (scalaire P-256 de 32 octets, base64url).
+   * Sert à signer le JWT envoyé aux services push.
+   */
+  vapidPrivateKey: process.env.VAPID_PRIVATE_KEY,
+
+  /**
+   * Contact de l'émetteur (mailto: ou https:), exigé par les services push.
+   */
+  vapidSubject: process.env.VAPID_SUBJECT || 'mailto:contact@secondlife.com',
+
+  /**
+   * Durée de conservation d'une notification par le service push
+   * si l'appareil est hors ligne (en secondes).
+   * Défaut: 24 heures
+   */
+  ttlSeconds: parseInt(process.env.WEB_PUSH_TTL_SECONDS || '86400'),
+
+  /**
+   * Timeout des requêtes vers les services push (en millisecondes).
+   */
+  timeoutMs: parseInt(process.env.WEB_PUSH_TIMEOUT_MS || '10000'),
+
+  /**
+   * Nombre de jours sans enregistrement après lequel un appareil est
+   * considéré comme inactif (plus d'envoi, puis suppression par le cron).
+   * Défaut: 60 jours
+   */
+  staleTokenDays: parseInt(process.env.NOTIFICATION_TOKEN_STALE_DAYS || '60'),
+}));
@@ -51,7 +51,7 @@ export default registerAs('schedule', () => ({
    * Nombre maximum de suggestions à générer par exécution.
    * Défaut: 20 suggestions
    *
-   * Limite le nombre de suggestions pour éviter de surcharger l'API Gemini.
+   * Limite le nombre de suggestions pour éviter de surcharger le fournisseur IA.
    */
   maxSuggestionsPerRun: parseInt(process.env.SUGGESTIONS_MAX_PER_RUN || '20'),
 
@@ -26,6 +26,11 @@ import { ResolveReportDto } from './dtos/report.dto';
 import { CreateThemeDto } from '../themes/dtos/create-theme.dto';
 import { UpdateThemeDto } from '../themes/dtos/update-theme.dto';
 import { GenerateThemeSuggestionsDto } from './dtos/theme-admin.dto';
+import {
+  CreatePromptVersionDto,
+  UpdateAiBudgetDto,
+  UpdatePromptDeploymentDto,
+} from './dtos/ai-admin.dto';
 
 @ApiTags('Admin')
 @ApiBearerAuth()
@@ -69,7 +74,12 @@ export class AdminController {
     @Body() banDto: BanUserDto,
     @Request() req: any,
   ) {
-    return this.adminService.banUser(id, req.user.id, banDto.reason);
+    return this.adminService.banUser(
+      id,
+      req.user.id,
+      banDto.reason,
+      banDto.expiresAt ? new Date(banDto.expiresAt) : undefined,
+    );
   }
 
   @Patch('users/:id/unban')
@@ -235,6 +245,51 @@ export class AdminController {
     );
   }
 
+  // AI
+  @Get('ai/validation-failures')
+  @ApiOperation({ summary: 'Réponses IA invalides (corrigées ou abandonnées) par fonctionnalité et par prompt' })
+  async getAiValidationFailures(@Query('days') days?: string) {
+    return this.adminService.getAiValidationFailures(days ? parseInt(days) : 7);
+  }
+
+  @Get('ai/usage')
+  @ApiOperation({ summary: 'Usage IA: appels, tokens et coût par fonctionnalité, budget en cours' })
+  async getAiUsage(@Query('days') days?: string) {
+    return this.adminService.getAiUsage(days ? parseInt(days) : 30);
+  }
+
+  @Patch('ai/budget')
+  @ApiOperation({ summary: 'Modifier les limites journalière et mensuelle du budget IA' })
+  async updateAiBudget(@Body() dto: UpdateAiBudgetDto, @Request() req: any) {
+    return this.adminService.updateAiBudget(dto, req.user.id);
+  }
+
+  @Get('ai/prompts')
+  @ApiOperation({ summary: 'Prompts IA: versions, déploiements par environnement et comparaison des versions' })
+  async getAiPrompts(@Query('days') days?: string) {
+    return this.adminService.getAiPrompts(days ? parseInt(days) : 30);
+  }
+
+  @Post('ai/prompts/:feature/versions')
+  @ApiOperation({ summary: "Créer une nouvelle version d'un prompt IA" })
+  async createPromptVersion(
+    @Param('feature') feature: string,
+    @Body() dto: CreatePromptVersionDto,
+    @Request() req: any,
+  ) {
+    return this.adminService.createPromptVersion(feature, dto, req.user.id);
+  }
+
+  @Patch('ai/prompts/:feature/deployment')
+  @ApiOperation({ summary: "Choisir la version active et la version candidate (A/B) d'un prompt IA" })
+  async updatePromptDeployment(
+    @Param('feature') feature: string,
+    @Body() dto: UpdatePromptDeploymentDto,
+    @Request() req: any,
+  ) {
+    return this.adminService.updatePromptDeployment(feature, dto, req.user.id);
+  }
+
   // Logs
   @Get('logs')
   @ApiOperation({ summary: 'Logs des actions admin' })
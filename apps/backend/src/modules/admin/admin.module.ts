@@ -14,9 +14,11 @@ import { AdminJwtStrategy } from '../auth/strategies/admin-jwt.strategy';
 import { AdminMiddleware } from './admin.middleware';
 import { ThemesModule } from '../themes/themes.module';
 import { SuggestionsModule } from '../suggestions/suggestions.module';
+import { AuthModule } from '../auth/auth.module';
+import { AiModule } from '../ai/ai.module';
 
 @Module({
-  imports: [PrismaModule, ConfigModule, ThemesModule, SuggestionsModule],
+  imports: [PrismaModule, ConfigModule, ThemesModule, SuggestionsModule, AuthModule, AiModule],
   controllers: [AdminController],
   providers: [AdminService, AdminJwtStrategy],
   exports: [AdminService],
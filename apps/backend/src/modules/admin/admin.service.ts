@@ -5,13 +5,26 @@
  * Service principal pour toutes les opérations admin.
  */
 
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { ItemStatus } from '@prisma/client';
 import { ThemesService } from '../themes/themes.service';
 import { SuggestionsService, SuggestionStats } from '../suggestions/suggestions.service';
 import { CreateThemeDto } from '../themes/dtos/create-theme.dto';
 import { UpdateThemeDto } from '../themes/dtos/update-theme.dto';
+import {
+  SocketAuthError,
+  SocketAuthErrorCode,
+  SocketAuthService,
+} from '../auth/socket-auth.service';
+import { AccountSuspendedException } from '../auth/bans.service';
+import { AiUsageService } from '../ai/ai-usage.service';
+import { PromptTemplatesService } from '../ai/prompt-templates.service';
+import {
+  CreatePromptVersionDto,
+  UpdateAiBudgetDto,
+  UpdatePromptDeploymentDto,
+} from './dtos/ai-admin.dto';
 
 @Injectable()
 export class AdminService {
@@ -19,6 +32,9 @@ export class AdminService {
     private prisma: PrismaService,
     private themesService: ThemesService,
     private suggestionsService: SuggestionsService,
+    private socketAuth: SocketAuthService,
+    private aiUsage: AiUsageService,
+    private prompts: PromptTemplatesService,
   ) {}
 
   // Dashboard Stats
@@ -151,22 +167,52 @@ export class AdminService {
     return user;
   }
 
-  async banUser(userId: string, adminId: string, reason?: string) {
+  /**
+   * Bannit un utilisateur (définitivement, ou jusqu'à `expiresAt`).
+   * Les refresh tokens sont révoqués et les sockets ouverts déconnectés;
+   * les access tokens restants sont refusés par JwtAccessStrategy.
+   */
+  async banUser(userId: string, adminId: string, reason?: string, expiresAt?: Date) {
     const user = await this.prisma.user.findUnique({ where: { id: userId } });
     if (!user) {
       throw new NotFoundException('Utilisateur non trouvé');
     }
 
-    await this.prisma.ban.upsert({
-      where: { userId },
-      update: { reason },
-      create: {
-        userId,
-        reason,
-      },
-    });
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('La date de fin de suspension doit être dans le futur');
+    }
 
-    await this.logAction(adminId, 'BAN_USER', 'User', userId, { reason });
+    const [ban, revoked] = await this.prisma.$transaction([
+      this.prisma.ban.upsert({
+        where: { userId },
+        update: { reason, expiresAt: expiresAt ?? null },
+        create: {
+          userId,
+          reason,
+          expiresAt: expiresAt ?? null,
+        },
+      }),
+      this.prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+
+    // Déconnecter les sessions temps réel en cours (chat, communauté)
+    const disconnectedSockets = this.socketAuth.disconnectUser(
+      userId,
+      new SocketAuthError(
+        SocketAuthErrorCode.ACCOUNT_SUSPENDED,
+        new AccountSuspendedException(ban).message,
+      ),
+    );
+
+    await this.logAction(adminId, 'BAN_USER', 'User', userId, {
+      reason,
+      expiresAt: expiresAt?.toISOString() ?? null,
+      revokedRefreshTokens: revoked.count,
+      disconnectedSockets,
+    });
 
     return { success: true };
   }
@@ -243,6 +289,11 @@ export class AdminService {
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
+        include: {
+          reporter: {
+            select: { id: true, displayName: true, email: true },
+          },
+        },
       }),
       this.prisma.report.count({ where }),
     ]);
@@ -400,6 +451,175 @@ export class AdminService {
     };
   }
 
+  // AI Validation Metrics (réponses IA invalides: corrigées ou abandonnées)
+  async getAiValidationFailures(days = 7) {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const where = { createdAt: { gte: since } };
+
+    const [byOutcome, byPrompt, recent] = await Promise.all([
+      this.prisma.aiValidationFailure.groupBy({
+        by: ['feature', 'outcome'],
+        where,
+        _count: { _all: true },
+      }),
+      this.prisma.aiValidationFailure.groupBy({
+        by: ['feature', 'promptHash'],
+        where,
+        _count: { promptHash: true },
+        orderBy: { _count: { promptHash: 'desc' } },
+        take: 10,
+      }),
+      this.prisma.aiValidationFailure.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+      }),
+    ]);
+
+    return {
+      since,
+      byOutcome: byOutcome.map((row) => ({
+        feature: row.feature,
+        outcome: row.outcome,
+        count: row._count._all,
+      })),
+      flakyPrompts: byPrompt.map((row) => ({
+        feature: row.feature,
+        promptHash: row.promptHash,
+        count: row._count.promptHash,
+      })),
+      recent,
+    };
+  }
+
+  // AI Usage (journal des appels: volume, tokens, coût et budget)
+  async getAiUsage(days = 30) {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const where = { createdAt: { gte: since } };
+
+    const [budget, byFeature, daily, recent] = await Promise.all([
+      this.aiUsage.getBudgetStatus(),
+      this.prisma.aiCall.groupBy({
+        by: ['feature', 'outcome'],
+        where,
+        _count: { _all: true },
+        _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+        _avg: { latencyMs: true },
+      }),
+      this.prisma.$queryRaw<{ day: Date; calls: bigint; costUsd: number }[]>`
+        SELECT date_trunc('day', "createdAt") AS day,
+               COUNT(*) AS calls,
+               COALESCE(SUM("costUsd"), 0) AS "costUsd"
+        FROM ai_calls
+        WHERE "createdAt" >= ${since}
+        GROUP BY day
+        ORDER BY day
+      `,
+      this.prisma.aiCall.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+      }),
+    ]);
+
+    return {
+      since,
+      budget,
+      byFeature: byFeature.map((row) => ({
+        feature: row.feature,
+        outcome: row.outcome,
+        calls: row._count._all,
+        inputTokens: row._sum.inputTokens ?? 0,
+        outputTokens: row._sum.outputTokens ?? 0,
+        costUsd: row._sum.costUsd ?? 0,
+        avgLatencyMs: Math.round(row._avg.latencyMs ?? 0),
+      })),
+      daily: daily.map((row) => ({
+        day: row.day,
+        calls: Number(row.calls),
+        costUsd: Number(row.costUsd),
+      })),
+      recent,
+    };
+  }
+
+  async updateAiBudget(data: UpdateAiBudgetDto, adminId: string) {
+    const budget = await this.aiUsage.updateBudget(data);
+    await this.logAction(adminId, 'UPDATE_AI_BUDGET', 'AiBudget', null, data);
+    return budget;
+  }
+
+  // AI Prompts (versions, déploiements et comparaison des versions)
+  async getAiPrompts(days = 30) {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const where = { createdAt: { gte: since }, promptVersion: { not: null } };
+
+    const [registry, calls, validationFailures, outcomes] = await Promise.all([
+      this.prompts.listTemplates(),
+      this.prisma.aiCall.groupBy({
+        by: ['feature', 'promptVersion', 'outcome'],
+        where,
+        _count: { _all: true },
+        _sum: { costUsd: true },
+        _avg: { latencyMs: true },
+      }),
+      this.prisma.aiValidationFailure.groupBy({
+        by: ['feature', 'promptVersion', 'outcome'],
+        where,
+        _count: { _all: true },
+      }),
+      this.prisma.promptOutcome.groupBy({
+        by: ['feature', 'promptVersion', 'metric', 'value'],
+        where: { createdAt: { gte: since } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return {
+      since,
+      ...registry,
+      calls: calls.map((row) => ({
+        feature: row.feature,
+        promptVersion: row.promptVersion,
+        outcome: row.outcome,
+        calls: row._count._all,
+        costUsd: row._sum.costUsd ?? 0,
+        avgLatencyMs: Math.round(row._avg.latencyMs ?? 0),
+      })),
+      validationFailures: validationFailures.map((row) => ({
+        feature: row.feature,
+        promptVersion: row.promptVersion,
+        outcome: row.outcome,
+        count: row._count._all,
+      })),
+      outcomes: outcomes.map((row) => ({
+        feature: row.feature,
+        promptVersion: row.promptVersion,
+        metric: row.metric,
+        value: row.value,
+        count: row._count._all,
+      })),
+    };
+  }
+
+  async createPromptVersion(feature: string, data: CreatePromptVersionDto, adminId: string) {
+    const version = await this.prompts.createVersion(feature, data, adminId);
+    await this.logAction(adminId, 'CREATE_PROMPT_VERSION', 'PromptTemplate', version.id, {
+      feature,
+      version: version.version,
+    });
+    return version;
+  }
+
+  async updatePromptDeployment(feature: string, data: UpdatePromptDeploymentDto, adminId: string) {
+    const deployment = await this.prompts.updateDeployment(feature, data);
+    await this.logAction(adminId, 'UPDATE_PROMPT_DEPLOYMENT', 'PromptDeployment', deployment.id, {
+      feature,
+      ...data,
+    });
+    return deployment;
+  }
+
   // Logs
   async getLogs(page = 1, limit = 50, adminId?: string) {
     const skip = (page - 1) * limit;
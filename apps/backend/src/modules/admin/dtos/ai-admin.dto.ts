@@ -0,0 +1,71 @@
+/**
+ * DTOs spécifiques à la gestion de l'IA via l'espace admin.
+ */
+
+import {
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+/**
+ * Limites du budget IA en dollars US.
+ * Champ absent: limite inchangée. null: pas de limite.
+ */
+export class UpdateAiBudgetDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  dailyLimitUsd?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  monthlyLimitUsd?: number | null;
+}
+
+/**
+ * Nouvelle version d'un prompt (variables {{nom}} de la fonctionnalité).
+ */
+export class CreatePromptVersionDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(20000)
+  template: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  note?: string;
+}
+
+/**
+ * Version active et version candidate (comparaison A/B) d'un prompt.
+ * Environnement absent: environnement courant du serveur.
+ */
+export class UpdatePromptDeploymentDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  environment?: string;
+
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  candidateVersion?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  candidateShare?: number;
+}
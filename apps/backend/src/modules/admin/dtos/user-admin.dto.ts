@@ -5,7 +5,7 @@
  * DTOs pour la gestion des utilisateurs par l'admin.
  */
 
-import { IsOptional, IsString, IsBoolean } from 'class-validator';
+import { IsOptional, IsString, IsBoolean, IsDateString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class BanUserDto {
@@ -13,6 +13,12 @@ export class BanUserDto {
   @IsOptional()
   @IsString()
   reason?: string;
+
+  // Date de fin de suspension (ISO 8601); absente = bannissement définitif
+  @ApiProperty({ required: false, example: '2026-12-31T00:00:00.000Z' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
 }
 
 export class UpdateUserDto {
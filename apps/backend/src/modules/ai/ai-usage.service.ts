@@ -0,0 +1,290 @@
+/**
+ * FICHIER: ai-usage.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service tient le journal des appels aux modèles de langage et le budget
+ * des dépenses IA. Chaque tentative d'appel passée par LlmService est
+ * enregistrée (ai_calls), qu'elle réussisse, échoue ou soit refusée.
+ *
+ * JOURNAL (ai_calls):
+ * - Fonctionnalité, fournisseur, modèle, hash et version du prompt
+ * - Latence, tokens consommés et coût estimé (tarifs ai.pricing)
+ * - Résultat: SUCCESS, ERROR ou BUDGET_EXCEEDED (appel refusé)
+ * - Entité concernée (ex: Item, WeeklyTheme, EcoContent)
+ *
+ * BUDGET (ai_budgets, réglé par les admins):
+ * - Limites journalière et mensuelle en dollars US (null: pas de limite)
+ * - Limite atteinte: LlmService refuse les appels et chaque fonctionnalité
+ *   applique son repli (analyse ignorée, suggestions différées...)
+ * - L'état du budget est gardé en cache une minute pour ne pas agréger
+ *   ai_calls à chaque appel (les coûts enregistrés entre-temps y sont ajoutés)
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+// Import des types Prisma
+import { AiCallOutcome } from '@prisma/client';
+
+// Import des services
+import { PrismaService } from '../../common/prisma/prisma.service';
+
+// Import du contrat des fournisseurs
+import { AiFeature, LlmUsage } from './providers/llm-provider';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Entité à l'origine d'un appel (type de modèle Prisma + ID).
+ */
+export interface AiCallEntity {
+  type: string; // Ex: 'Item', 'WeeklyTheme', 'EcoContent'
+  id: string;
+}
+
+/**
+ * Appel à enregistrer dans le journal.
+ */
+export interface AiCallRecord {
+  feature: AiFeature;
+  provider: string;
+  model: string;
+  promptHash: string;
+  promptVersion?: number; // Prompts du registre uniquement
+  latencyMs: number;
+  outcome: AiCallOutcome;
+  usage?: LlmUsage;
+  error?: string;
+  entity?: AiCallEntity;
+}
+
+/**
+ * Période dont la limite est atteinte.
+ */
+export type AiBudgetPeriod = 'daily' | 'monthly';
+
+/**
+ * État du budget: limites, dépenses de la période en cours et limite atteinte.
+ */
+export interface AiBudgetStatus {
+  dailyLimitUsd: number | null;
+  monthlyLimitUsd: number | null;
+  dailySpentUsd: number;
+  monthlySpentUsd: number;
+  exceeded: AiBudgetPeriod | null;
+}
+
+/**
+ * Tarif d'un modèle en dollars US par million de tokens (ai.pricing).
+ */
+interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Durée de validité de l'état du budget en cache
+ */
+const BUDGET_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * ID de l'unique ligne de réglages du budget
+ */
+const BUDGET_ID = 'default';
+
+/**
+ * Longueur maximale du message d'erreur enregistré
+ */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * SERVICE: AiUsageService
+ */
+@Injectable()
+export class AiUsageService {
+  private readonly logger = new Logger(AiUsageService.name);
+
+  /**
+   * État du budget en cache (null: à recalculer)
+   */
+  private cachedStatus: { status: AiBudgetStatus; expiresAt: number } | null =
+    null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ============================================
+  // MÉTHODE: record (Journal des appels)
+  // ============================================
+
+  /**
+   * Enregistre un appel et son coût estimé.
+   *
+   * Stratégie: une erreur d'enregistrement est seulement loguée, elle ne doit pas
+   * faire échouer la fonctionnalité IA.
+   */
+  async record(call: AiCallRecord): Promise<void> {
+    const costUsd = this.computeCost(call.model, call.usage);
+
+    try {
+      await this.prisma.aiCall.create({
+        data: {
+          feature: call.feature,
+          provider: call.provider,
+          model: call.model,
+          promptHash: call.promptHash,
+          promptVersion: call.promptVersion,
+          latencyMs: call.latencyMs,
+          inputTokens: call.usage?.inputTokens,
+          outputTokens: call.usage?.outputTokens,
+          costUsd,
+          outcome: call.outcome,
+          error: call.error?.substring(0, MAX_ERROR_LENGTH),
+          entityType: call.entity?.type,
+          entityId: call.entity?.id,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Impossible d'enregistrer l'appel IA ${call.feature}: ${error.message}`,
+      );
+    }
+
+    // Le budget en cache tient compte de la dépense sans attendre son expiration
+    if (this.cachedStatus && costUsd > 0) {
+      const status = this.cachedStatus.status;
+      status.dailySpentUsd += costUsd;
+      status.monthlySpentUsd += costUsd;
+      status.exceeded = exceededPeriod(status);
+    }
+  }
+
+  /**
+   * Coût estimé d'un appel en dollars US (0 si le modèle n'a pas de tarif
+   * ou si le fournisseur ne rapporte pas les tokens).
+   */
+  computeCost(model: string, usage?: LlmUsage): number {
+    const pricing =
+      this.configService.get<Record<string, ModelPricing>>('ai.pricing')?.[
+        model
+      ];
+
+    if (!pricing || !usage) {
+      return 0;
+    }
+
+    return (
+      (usage.inputTokens * pricing.input +
+        usage.outputTokens * pricing.output) /
+      1_000_000
+    );
+  }
+
+  // ============================================
+  // MÉTHODES: Budget
+  // ============================================
+
+  /**
+   * État du budget pour la journée et le mois en cours.
+   *
+   * @param now - Date de référence (tests)
+   */
+  async getBudgetStatus(now: Date = new Date()): Promise<AiBudgetStatus> {
+    if (this.cachedStatus && this.cachedStatus.expiresAt > now.getTime()) {
+      return this.cachedStatus.status;
+    }
+
+    const startOfDay = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate(),
+    );
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+    const [budget, daily, monthly] = await Promise.all([
+      this.prisma.aiBudget.findUnique({ where: { id: BUDGET_ID } }),
+      this.prisma.aiCall.aggregate({
+        where: { createdAt: { gte: startOfDay } },
+        _sum: { costUsd: true },
+      }),
+      this.prisma.aiCall.aggregate({
+        where: { createdAt: { gte: startOfMonth } },
+        _sum: { costUsd: true },
+      }),
+    ]);
+
+    const status: AiBudgetStatus = {
+      dailyLimitUsd: budget?.dailyLimitUsd ?? null,
+      monthlyLimitUsd: budget?.monthlyLimitUsd ?? null,
+      dailySpentUsd: daily._sum.costUsd ?? 0,
+      monthlySpentUsd: monthly._sum.costUsd ?? 0,
+      exceeded: null,
+    };
+    status.exceeded = exceededPeriod(status);
+
+    this.cachedStatus = {
+      status,
+      expiresAt: now.getTime() + BUDGET_CACHE_TTL_MS,
+    };
+    return status;
+  }
+
+  /**
+   * Période dont la limite est atteinte (null: appels autorisés).
+   *
+   * Stratégie: si le budget ne peut pas être lu, les appels restent autorisés.
+   */
+  async checkBudget(): Promise<AiBudgetPeriod | null> {
+    try {
+      return (await this.getBudgetStatus()).exceeded;
+    } catch (error) {
+      this.logger.error(`Impossible de lire le budget IA: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Modifie les limites du budget (undefined: inchangée, null: pas de limite).
+   *
+   * @returns Nouvel état du budget
+   */
+  async updateBudget(limits: {
+    dailyLimitUsd?: number | null;
+    monthlyLimitUsd?: number | null;
+  }): Promise<AiBudgetStatus> {
+    await this.prisma.aiBudget.upsert({
+      where: { id: BUDGET_ID },
+      create: { id: BUDGET_ID, ...limits },
+      update: limits,
+    });
+
+    this.cachedStatus = null;
+    return this.getBudgetStatus();
+  }
+}
+
+/**
+ * Période dont la dépense atteint la limite (le mois prime sur la journée).
+ */
+function exceededPeriod(status: AiBudgetStatus): AiBudgetPeriod | null {
+  if (
+    status.monthlyLimitUsd !== null &&
+    status.monthlySpentUsd >= status.monthlyLimitUsd
+  ) {
+    return 'monthly';
+  }
+
+  if (
+    status.dailyLimitUsd !== null &&
+    status.dailySpentUsd >= status.dailyLimitUsd
+  ) {
+    return 'daily';
+  }
+
+  return null;
+}
@@ -3,43 +3,62 @@
  *
  * DESCRIPTION:
  * Ce module NestJS regroupe les fonctionnalités liées à l'intelligence artificielle.
- * Il intègre Google Gemini API pour l'analyse et la génération de contenu.
+ * Toutes les fonctionnalités qui appellent un modèle passent par LlmService.
  *
  * COMPOSANTS:
- * - GeminiService: Service pour interagir avec l'API Google Gemini
+ * - LlmService: Accès au modèle de langage (fournisseur et réglages par fonctionnalité)
+ * - Fournisseurs: Gemini, endpoint compatible OpenAI ou fixtures (choisi par AI_PROVIDER)
+ * - AiService: Prompts et validation des réponses (analyse, suggestions, thèmes)
+ * - AiUsageService: Journal des appels (tokens, coût) et budget des dépenses IA
+ * - PromptTemplatesService: Registre des prompts (versions, déploiement par
+ *   environnement, comparaison A/B, résultats observés)
  *
  * FONCTIONNALITÉS:
  * - Analyse automatique des items (catégorisation, tags, résumé)
  * - Génération de suggestions d'objets basées sur les thèmes
- * - Génération de contenu écologique
+ * - Génération du thème de la semaine
+ * - Enrichissement des contenus éco (EcoModule, via LlmService)
  *
  * DÉPENDANCES:
- * - ConfigModule: Configuration de l'API Gemini (clé API, modèle, etc.)
+ * - ConfigModule: Configuration IA (fournisseur, clés API, réglages par fonctionnalité)
+ *   et cloud Cloudinary (seules ses images sont jointes aux prompts)
+ * - PrismaModule: Journal des appels, budget, prompts et réponses IA invalides
  */
 
 // Import des modules NestJS
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 
-// Import du service
-import { GeminiService } from './gemini.service';
+// Import des services
+import { AiService } from './ai.service';
+import { LlmService } from './llm.service';
+import { AiUsageService } from './ai-usage.service';
+import { PromptTemplatesService } from './prompt-templates.service';
+
+// Import des modules dépendants
+import { PrismaModule } from '../../common/prisma/prisma.module';
 
 // Import de la configuration
 import aiConfig from '../../config/ai.config';
+import cloudinaryConfig from '../../config/cloudinary.config';
 
 /**
  * MODULE: AiModule
  *
- * Module pour l'intégration avec l'API Google Gemini.
+ * Module pour l'intégration avec les modèles de langage.
  */
 @Module({
   // Modules importés nécessaires
-  imports: [ConfigModule.forFeature(aiConfig)], // Configuration de l'API Gemini
+  imports: [
+    ConfigModule.forFeature(aiConfig), // Configuration IA
+    ConfigModule.forFeature(cloudinaryConfig), // Cloud des photos analysées
+    PrismaModule, // Journal des appels, budget, prompts, réponses IA invalides
+  ],
 
   // Services fournis par ce module
-  providers: [GeminiService],
+  providers: [LlmService, AiUsageService, PromptTemplatesService, AiService],
 
   // Services exportés pour être utilisés dans d'autres modules
-  exports: [GeminiService],
+  exports: [LlmService, AiUsageService, PromptTemplatesService, AiService],
 })
 export class AiModule {}
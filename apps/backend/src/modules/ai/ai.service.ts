@@ -0,0 +1,683 @@
+/**
+ * FICHIER: ai.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service regroupe les fonctionnalités IA de la plateforme: il construit les
+ * prompts (registre PromptTemplatesService), les envoie au modèle via
+ * LlmService et valide les réponses.
+ *
+ * FONCTIONNALITÉS:
+ * - Analyse automatique d'items (catégorisation, tags, résumé, conseils de réparation)
+ * - Analyse des photos d'un item (modèle multimodal): suggestions avec confiance
+ * - Génération de suggestions d'objets basées sur des thèmes
+ * - Génération du thème de la semaine
+ * - Validation des réponses IA avec Zod (une demande de correction, puis repli)
+ *
+ * PROMPTS:
+ * - Textes versionnés avec variables typées (prompts/prompt-definitions.ts)
+ * - Version choisie par PromptTemplatesService (environnement, comparaison A/B)
+ *
+ * CONFIGURATION:
+ * - Fournisseur (Gemini, endpoint compatible OpenAI, fixtures) choisi par LlmService
+ * - Modèle, température et longueur de réponse par fonctionnalité (ai.features)
+ * - Sans fournisseur configuré, les fonctionnalités IA sont ignorées (null / [])
+ * - Budget IA atteint: les appels sont refusés, même repli (null / [])
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+
+// Import des services
+import { LlmService } from './llm.service';
+import { AiCallEntity } from './ai-usage.service';
+import {
+  PromptTemplatesService,
+  RenderedPrompt,
+} from './prompt-templates.service';
+
+// Import des types Prisma
+import { ItemCategory, ItemCondition } from '@prisma/client';
+
+// Import de Zod pour la validation
+import { z } from 'zod';
+
+// Import des utilitaires
+import { HashUtil } from '../../common/utils/hash.util';
+
+// Import du registre des catégories (prompts et validation)
+import {
+  describeCategoriesForPrompt,
+  isItemCategory,
+} from '../../common/utils/item-categories';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * INTERFACE: AiAnalysisResult
+ *
+ * Résultat de l'analyse IA d'un item.
+ * Contient la catégorie suggérée, les tags, un résumé et des conseils de réparation.
+ */
+export interface AiAnalysisResult {
+  category: ItemCategory; // Catégorie suggérée par l'IA
+  tags: string[]; // Tags pertinents (3-4 tags)
+  aiSummary: string; // Résumé concis (max 240 caractères)
+  aiRepairTip: string; // Conseil de réparation (max 240 caractères)
+  promptVersion: number; // Version du prompt (résultats observés)
+}
+
+/**
+ * INTERFACE: AnalyzeItemRequest
+ *
+ * Requête pour analyser un item avec l'IA.
+ */
+export interface AnalyzeItemRequest {
+  title: string; // Titre de l'item
+  description: string; // Description de l'item
+  locale?: string; // Langue (défaut: 'fr')
+}
+
+/**
+ * INTERFACE: AiFieldSuggestion
+ *
+ * Valeur proposée par l'IA pour un champ, avec sa confiance (0 à 1).
+ */
+export interface AiFieldSuggestion<T> {
+  value: T;
+  confidence: number;
+}
+
+/**
+ * INTERFACE: AiPhotoAnalysisResult
+ *
+ * Résultat de l'analyse des photos d'un item: suggestions à accepter ou
+ * refuser par le propriétaire (rien n'est appliqué automatiquement).
+ */
+export interface AiPhotoAnalysisResult {
+  category: AiFieldSuggestion<ItemCategory>;
+  condition: AiFieldSuggestion<ItemCondition>;
+  tags: AiFieldSuggestion<string[]>; // 3-4 tags
+  title: AiFieldSuggestion<string> | null; // null: titre actuel conservé
+  damageNotes: AiFieldSuggestion<string> | null; // null: aucun dégât visible
+  promptVersion: number; // Version du prompt (résultats observés)
+}
+
+/**
+ * INTERFACE: AnalyzeItemPhotosRequest
+ *
+ * Requête pour analyser les photos d'un item avec l'IA.
+ */
+export interface AnalyzeItemPhotosRequest extends AnalyzeItemRequest {
+  photoUrls: string[]; // URLs des photos (Cloudinary)
+}
+
+// ============================================
+// SCHÉMAS ZOD POUR LA VALIDATION
+// ============================================
+/**
+ * Chaque appel au modèle déclare le schéma de sa réponse: une réponse qui ne
+ * le respecte pas est renvoyée une fois au modèle avec les erreurs, puis
+ * abandonnée (voir LlmService.completeStructured).
+ */
+
+/**
+ * Catégorie du registre (casse et espaces ignorés).
+ * Une catégorie inconnue rend la réponse invalide.
+ */
+const CategorySchema = z
+  .string()
+  .transform((value) => value.trim().toUpperCase())
+  .refine(isItemCategory, {
+    message:
+      'Catégorie inconnue: utilise une valeur de la liste des catégories',
+  });
+
+/**
+ * Schéma Zod pour valider l'analyse d'un item.
+ * Les textes trop longs rendent la réponse invalide (ils ne sont plus tronqués).
+ */
+const ItemAnalysisSchema = z.object({
+  category: CategorySchema, // Catégorie du registre
+  tags: z.array(z.string().trim().min(2).max(24)).min(1), // 4 premiers conservés
+  aiSummary: z.string().trim().min(1).max(240), // Résumé concis
+  aiRepairTip: z.string().trim().min(1).max(240), // Conseil de réparation
+});
+
+/**
+ * Valeur proposée pour un champ et confiance du modèle (0 à 1).
+ */
+const fieldSuggestion = <T extends z.ZodTypeAny>(value: T) =>
+  z.object({
+    value,
+    confidence: z.number().min(0).max(1),
+  });
+
+/**
+ * Suggestion validée par fieldSuggestion (champs présents après validation).
+ */
+const toFieldSuggestion = <T>(suggestion: {
+  value?: T;
+  confidence?: number;
+}): AiFieldSuggestion<T> => ({
+  value: suggestion.value,
+  confidence: suggestion.confidence,
+});
+
+/**
+ * Schéma Zod pour valider l'analyse des photos d'un item.
+ * Titre et dégâts peuvent valoir null (rien à proposer).
+ */
+const ItemPhotoAnalysisSchema = z.object({
+  category: fieldSuggestion(CategorySchema),
+  condition: fieldSuggestion(z.nativeEnum(ItemCondition)),
+  tags: fieldSuggestion(z.array(z.string().trim().min(2).max(24)).min(1)), // 4 premiers conservés
+  title: fieldSuggestion(z.string().trim().min(1).max(100).nullable()),
+  damageNotes: fieldSuggestion(z.string().trim().min(1).max(300).nullable()),
+});
+
+/**
+ * Schéma Zod pour valider une suggestion d'objet générée par l'IA.
+ * Utilisé pour valider les réponses du modèle.
+ */
+const SuggestedItemDraftSchema = z.object({
+  name: z.string().min(1).max(120), // Nom de l'objet
+  category: CategorySchema, // Catégorie du registre
+  country: z.string().min(1).max(50), // Pays d'origine
+  era: z.string().max(50).nullable(), // Époque (optionnel)
+  materials: z.string().max(200).nullable(), // Matériaux (optionnel)
+  ecoReason: z.string().min(1).max(240), // Raison écologique
+  repairDifficulty: z.enum(['faible', 'moyenne', 'elevee']), // Difficulté de réparation
+  popularity: z.number().int().min(1).max(5), // Popularité (1-5)
+  tags: z.array(z.string().max(30)).max(8), // Tags (max 8)
+  photoRef: z.string().max(200).nullable(), // Référence photo (optionnel)
+});
+
+/**
+ * Schéma Zod pour valider la réponse complète de suggestions.
+ */
+const SuggestedItemsResponseSchema = z.object({
+  items: z.array(SuggestedItemDraftSchema).max(20), // Maximum 20 suggestions
+});
+
+/**
+ * Schéma Zod pour valider un thème généré par l'IA.
+ *
+ * Note: impactText est volontairement autorisé jusqu'à ~800 caractères
+ * pour permettre un texte explicatif riche avec plusieurs exemples concrets.
+ */
+const ThemeDraftSchema = z.object({
+  title: z.string().min(1).max(200), // Titre du thème
+  slug: z.string().min(1).max(100), // Slug URL-friendly
+  impactText: z.string().min(1).max(800), // Texte explicatif + exemples
+  photoSearchQuery: z.string().min(1).max(100), // Terme de recherche Unsplash
+  targetCategories: z.array(CategorySchema).min(1).max(3), // 1 à 3 catégories ciblées
+});
+
+/**
+ * TYPE: ThemeDraft
+ *
+ * Type TypeScript inféré depuis le schéma Zod.
+ */
+export type ThemeDraft = z.infer<typeof ThemeDraftSchema>;
+
+/**
+ * TYPE: SuggestedItemDraft
+ *
+ * Type TypeScript inféré depuis le schéma Zod.
+ */
+export type SuggestedItemDraft = z.infer<typeof SuggestedItemDraftSchema>;
+
+/**
+ * TYPE: SuggestedItemsResponse
+ *
+ * Type pour la réponse complète de suggestions.
+ */
+export type SuggestedItemsResponse = z.infer<
+  typeof SuggestedItemsResponseSchema
+>;
+
+/**
+ * INTERFACE: SuggestedItemWithMetadata
+ *
+ * Étend SuggestedItemDraft avec les métadonnées IA.
+ * Utilisé pour stocker les suggestions avec leurs métadonnées.
+ */
+export interface SuggestedItemWithMetadata extends SuggestedItemDraft {
+  aiModel?: string; // Modèle IA utilisé
+  aiPromptHash?: string; // Hash du prompt (pour déduplication)
+  aiRaw?: any; // Prompt, version du prompt et réponse brute (pour débogage)
+}
+
+/**
+ * INTERFACE: GenerateSuggestionsRequest
+ *
+ * Requête pour générer des suggestions d'objets basées sur un thème.
+ */
+export interface GenerateSuggestionsRequest {
+  themeTitle: string; // Titre du thème
+  locale: string[]; // Locales cibles (ex: ['FR', 'MA', 'JP'])
+  trends?: any; // Tendances (optionnel)
+}
+
+/**
+ * SERVICE: AiService
+ *
+ * Service des fonctionnalités IA (analyse, suggestions, thèmes).
+ */
+@Injectable()
+export class AiService {
+  /**
+   * Logger pour enregistrer les événements
+   */
+  private readonly logger = new Logger(AiService.name);
+
+  constructor(
+    private readonly llm: LlmService,
+    private readonly prompts: PromptTemplatesService,
+  ) {}
+
+  /**
+   * Indique si la limite de dépenses IA est atteinte: les appels seront refusés,
+   * un traitement planifié peut être différé.
+   */
+  async isBudgetExceeded(): Promise<boolean> {
+    return this.llm.isBudgetExceeded();
+  }
+
+  // ============================================
+  // MÉTHODE: analyzeItem (Analyser un item)
+  // ============================================
+
+  /**
+   * Analyse un item avec l'IA pour auto-catégorisation et suggestions.
+   *
+   * PROCESSUS:
+   * 1. Construit un prompt avec le titre et la description
+   * 2. Envoie le prompt au modèle (fonctionnalité itemAnalysis)
+   * 3. Valide la réponse JSON (ItemAnalysisSchema, une demande de correction)
+   * 4. Retourne le résultat structuré
+   *
+   * @param request - Requête d'analyse (title, description, locale)
+   * @param entity - Entité concernée (journal des appels)
+   * @returns Résultat de l'analyse (category, tags, summary, repairTip) ou null si erreur
+   */
+  async analyzeItem(
+    request: AnalyzeItemRequest,
+    entity?: AiCallEntity,
+  ): Promise<AiAnalysisResult | null> {
+    if (!this.llm.isEnabled()) {
+      this.logger.warn('Fournisseur IA non configuré, analyse IA ignorée');
+      return null;
+    }
+
+    try {
+      const prompt = await this.buildAnalysisPrompt(request, entity);
+      const { data } = await this.llm.completeStructured(
+        'itemAnalysis',
+        prompt,
+        ItemAnalysisSchema,
+        entity,
+      );
+
+      return {
+        category: data.category,
+        tags: data.tags.slice(0, 4), // Max 4 tags
+        aiSummary: data.aiSummary,
+        aiRepairTip: data.aiRepairTip,
+        promptVersion: prompt.version,
+      };
+    } catch (error) {
+      this.logger.error(`Erreur lors de l'analyse IA: ${error.message}`);
+      return null; // Continue sans IA en cas d'erreur
+    }
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: buildAnalysisPrompt
+  // ============================================
+
+  /**
+   * Construit le prompt pour l'analyse IA d'un item
+   * (version déployée du registre).
+   *
+   * Le prompt demande à l'IA de:
+   * - Catégoriser l'objet
+   * - Générer des tags pertinents
+   * - Créer un résumé concis
+   * - Proposer des conseils de réparation
+   *
+   * @param request - Requête d'analyse
+   * @param entity - Entité concernée (répartition A/B)
+   * @returns Prompt et version utilisée
+   */
+  private buildAnalysisPrompt(
+    request: AnalyzeItemRequest,
+    entity?: AiCallEntity,
+  ): Promise<RenderedPrompt> {
+    const { title, description, locale = 'fr' } = request;
+
+    return this.prompts.render(
+      'itemAnalysis',
+      {
+        title,
+        description,
+        locale,
+        categories: describeCategoriesForPrompt(locale),
+      },
+      entity,
+    );
+  }
+
+  // ============================================
+  // MÉTHODE: analyzeItemPhotos (Analyser les photos d'un item)
+  // ============================================
+
+  /**
+   * Analyse les photos d'un item avec un modèle multimodal.
+   *
+   * PROCESSUS:
+   * 1. Construit un prompt avec le titre et la description actuels
+   * 2. Envoie le prompt et les photos au modèle (fonctionnalité photoAnalysis)
+   * 3. Valide la réponse JSON (ItemPhotoAnalysisSchema, une demande de correction)
+   * 4. Retourne une suggestion par champ avec sa confiance
+   *
+   * @param request - Requête d'analyse (title, description, photoUrls, locale)
+   * @param entity - Entité concernée (journal des appels)
+   * @returns Suggestions (category, condition, tags, title, damageNotes) ou null si erreur
+   */
+  async analyzeItemPhotos(
+    request: AnalyzeItemPhotosRequest,
+    entity?: AiCallEntity,
+  ): Promise<AiPhotoAnalysisResult | null> {
+    if (!this.llm.isEnabled()) {
+      this.logger.warn(
+        'Fournisseur IA non configuré, analyse des photos ignorée',
+      );
+      return null;
+    }
+
+    try {
+      const { title, description, locale = 'fr', photoUrls } = request;
+      const prompt = await this.prompts.render(
+        'photoAnalysis',
+        {
+          title,
+          description,
+          locale,
+          categories: describeCategoriesForPrompt(locale),
+        },
+        entity,
+      );
+      const { data } = await this.llm.completeStructured(
+        'photoAnalysis',
+        prompt,
+        ItemPhotoAnalysisSchema,
+        entity,
+        photoUrls,
+      );
+
+      return {
+        category: toFieldSuggestion(data.category),
+        condition: toFieldSuggestion(data.condition),
+        tags: toFieldSuggestion({
+          ...data.tags,
+          value: data.tags.value.slice(0, 4), // Max 4 tags
+        }),
+        title: data.title.value === null ? null : toFieldSuggestion(data.title),
+        damageNotes:
+          data.damageNotes.value === null
+            ? null
+            : toFieldSuggestion(data.damageNotes),
+        promptVersion: prompt.version,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Erreur lors de l'analyse IA des photos: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  // ============================================
+  // MÉTHODE: generateSuggestions
+  // ============================================
+
+  /**
+   * Génère des suggestions d'objets pour un thème hebdomadaire.
+   *
+   * PROCESSUS:
+   * 1. Construit un prompt avec le thème et les locales
+   * 2. Envoie le prompt au modèle (fonctionnalité suggestions)
+   * 3. Valide la réponse JSON avec Zod (une demande de correction)
+   * 4. Ajoute les métadonnées IA (modèle, hash du prompt, réponse brute)
+   *
+   * DIVERSITÉ:
+   * - Le prompt demande une diversité géographique (max 2 par pays)
+   * - Le prompt demande une diversité temporelle (max 2 par époque)
+   *
+   * @param request - Requête de génération (themeTitle, locale, trends?)
+   * @param entity - Entité concernée (journal des appels)
+   * @returns Liste de suggestions avec métadonnées IA
+   */
+  async generateSuggestions(
+    request: GenerateSuggestionsRequest,
+    entity?: AiCallEntity,
+  ): Promise<SuggestedItemWithMetadata[]> {
+    if (!this.llm.isEnabled()) {
+      this.logger.warn(
+        'Fournisseur IA non configuré, génération de suggestions ignorée',
+      );
+      return [];
+    }
+
+    try {
+      const prompt = await this.buildSuggestionsPrompt(request, entity);
+      const promptHash = HashUtil.promptHash(prompt.text);
+
+      this.logger.log(
+        `Génération de suggestions pour le thème: ${request.themeTitle}`,
+      );
+
+      const {
+        data,
+        text: response,
+        model,
+      } = await this.llm.completeStructured(
+        'suggestions',
+        prompt,
+        SuggestedItemsResponseSchema,
+        entity,
+      );
+
+      // Ajouter les métadonnées IA
+      const suggestionsWithMetadata = data.items.map((item) => ({
+        ...item,
+        aiModel: model,
+        aiPromptHash: promptHash,
+        aiRaw: {
+          prompt: prompt.text,
+          promptVersion: prompt.version,
+          response,
+        },
+      }));
+
+      this.logger.log(
+        `Généré ${suggestionsWithMetadata.length} suggestions pour le thème: ${request.themeTitle}`,
+      );
+      return suggestionsWithMetadata;
+    } catch (error) {
+      this.logger.error(
+        `Erreur lors de la génération de suggestions: ${error.message}`,
+      );
+      return [];
+    }
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: buildSuggestionsPrompt
+  // ============================================
+
+  /**
+   * Construit le prompt pour la génération de suggestions d'objets
+   * (version déployée du registre).
+   *
+   * Le prompt demande à l'IA de:
+   * - Proposer 20 objets maximum
+   * - Respecter la diversité (max 2 par pays et par époque)
+   * - Préférer vintage, artisanat, objets réparables
+   * - Focus sur les pays spécifiés dans locale
+   *
+   * @param request - Requête de génération
+   * @param entity - Entité concernée (répartition A/B)
+   * @returns Prompt et version utilisée
+   */
+  private buildSuggestionsPrompt(
+    request: GenerateSuggestionsRequest,
+    entity?: AiCallEntity,
+  ): Promise<RenderedPrompt> {
+    const { themeTitle, locale } = request;
+
+    return this.prompts.render(
+      'suggestions',
+      {
+        themeTitle,
+        countries: locale.join(', '),
+        categories: describeCategoriesForPrompt(),
+      },
+      entity,
+    );
+  }
+
+  // ============================================
+  // MÉTHODE: generateTheme
+  // ============================================
+
+  /**
+   * Génère un thème hebdomadaire avec l'IA.
+   *
+   * PROCESSUS:
+   * 1. Construit un prompt pour générer un thème créatif et écologique
+   * 2. Envoie le prompt au modèle (fonctionnalité theme)
+   * 3. Valide la réponse JSON (ThemeDraftSchema, une demande de correction)
+   * 4. Retourne le thème avec titre, slug, impactText et terme de recherche pour photo
+   *
+   * @param date - Date de la semaine pour le thème
+   * @returns Thème généré avec titre, slug, impactText et photoSearchQuery
+   */
+  async generateTheme(date: Date): Promise<{
+    title: string;
+    slug: string;
+    impactText: string;
+    photoSearchQuery: string;
+    targetCategories: string[];
+  } | null> {
+    if (!this.llm.isEnabled()) {
+      this.logger.error(
+        `❌ Fournisseur IA "${this.llm.providerName}" non configuré ! Vérifiez AI_PROVIDER et sa clé API dans .env`,
+      );
+      return null;
+    }
+
+    try {
+      const prompt = await this.buildThemePrompt(date);
+
+      this.logger.log(
+        `🎨 Génération de thème pour la semaine du ${date.toLocaleDateString('fr-FR')}`,
+      );
+
+      const { data } = await this.llm.completeStructured(
+        'theme',
+        prompt,
+        ThemeDraftSchema,
+      );
+
+      const parsed = this.normalizeTheme(data);
+
+      this.logger.log(`✅ Thème généré: "${parsed.title}"`);
+      return parsed;
+    } catch (error: any) {
+      this.logger.error(
+        `❌ Erreur lors de la génération de thème: ${error.message}`,
+      );
+      this.logger.error(`Stack: ${error.stack}`);
+      return null;
+    }
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: buildThemePrompt
+  // ============================================
+
+  /**
+   * Construit le prompt pour la génération de thème hebdomadaire
+   * (version déployée du registre).
+   */
+  private buildThemePrompt(date: Date): Promise<RenderedPrompt> {
+    const weekStart = new Date(date);
+    weekStart.setDate(date.getDate() - date.getDay() + 1);
+
+    return this.prompts.render('theme', {
+      weekStart: weekStart.toLocaleDateString('fr-FR', {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+      }),
+      categories: describeCategoriesForPrompt(),
+    });
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: normalizeTheme
+  // ============================================
+
+  /**
+   * Nettoie un thème validé (espaces, slug URL-friendly, longueurs).
+   */
+  private normalizeTheme(validated: ThemeDraft): {
+    title: string;
+    slug: string;
+    impactText: string;
+    photoSearchQuery: string;
+    targetCategories: string[];
+  } {
+    return {
+      title: validated.title.trim().substring(0, 200),
+      slug: validated.slug
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9-]/g, '-')
+        .substring(0, 100),
+      impactText: validated.impactText.trim().substring(0, 500),
+      photoSearchQuery: validated.photoSearchQuery.trim().substring(0, 100),
+      targetCategories: validated.targetCategories,
+    };
+  }
+
+  // ============================================
+  // MÉTHODE: testConnection
+  // ============================================
+
+  /**
+   * Teste la connexion au fournisseur IA.
+   *
+   * UTILISATION:
+   * - Vérifier que la clé API est valide
+   * - Vérifier que le fournisseur est accessible
+   *
+   * @returns true si la connexion réussit, false sinon
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const result = await this.analyzeItem({
+        title: 'Test',
+        description: 'Test de connexion',
+      });
+      return result !== null;
+    } catch (error) {
+      this.logger.error(`Test connexion IA échoué: ${error.message}`);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,530 @@
+/**
+ * FICHIER: llm.service.ts
+ *
+ * DESCRIPTION:
+ * Point d'entrée unique vers les modèles de langage. Toutes les fonctionnalités IA
+ * (analyse d'items, suggestions, thème de la semaine, enrichissement éco) passent
+ * par ce service, qui choisit le fournisseur, applique les réglages de chaque
+ * fonctionnalité et valide les réponses JSON.
+ *
+ * FOURNISSEURS (ai.provider):
+ * - gemini: GeminiLlmProvider (API Google Gemini, défaut)
+ * - openai: OpenAiCompatibleLlmProvider (endpoint /chat/completions, serveur local possible)
+ * - fixture: FixtureLlmProvider (réponses enregistrées, sans réseau)
+ *
+ * RÉGLAGES PAR FONCTIONNALITÉ (ai.features.<fonctionnalité>):
+ * - model (défaut: modèle du fournisseur), temperature, maxOutputTokens
+ *
+ * IMAGES:
+ * - URLs d'images jointes au prompt (photoAnalysis), téléchargées par le
+ *   fournisseur: la fonctionnalité doit utiliser un modèle multimodal
+ *
+ * SORTIE STRUCTURÉE (completeStructured):
+ * - Chaque appel fournit le schéma Zod de la réponse attendue
+ * - Réponse invalide: une seule nouvelle demande, avec les erreurs de validation
+ * - Toujours invalide: LlmValidationError, l'appelant applique son repli
+ * - Chaque réponse invalide est enregistrée (ai_validation_failures) pour repérer
+ *   les prompts instables: REPAIRED (corrigée) ou FALLBACK (abandonnée)
+ *
+ * JOURNAL ET BUDGET (AiUsageService):
+ * - Chaque tentative est enregistrée (ai_calls): latence, tokens, coût, entité
+ *   et version du prompt (prompts du registre, voir PromptTemplatesService)
+ * - Budget atteint: l'appel est refusé (LlmBudgetExceededError) sans contacter
+ *   le fournisseur, l'appelant applique son repli
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+// Import des types Prisma
+import { AiCallOutcome, AiValidationOutcome } from '@prisma/client';
+
+// Import de Zod pour la validation
+import { z } from 'zod';
+
+// Import des services
+import { PrismaService } from '../../common/prisma/prisma.service';
+import {
+  AiBudgetPeriod,
+  AiCallEntity,
+  AiUsageService,
+} from './ai-usage.service';
+import { RenderedPrompt } from './prompt-templates.service';
+
+// Import des utilitaires
+import { HashUtil } from '../../common/utils/hash.util';
+
+// Import des fournisseurs
+import {
+  AiFeature,
+  LlmCompletion,
+  LlmProvider,
+} from './providers/llm-provider';
+import { GeminiLlmProvider } from './providers/gemini.provider';
+import { OpenAiCompatibleLlmProvider } from './providers/openai.provider';
+import { FixtureLlmProvider } from './providers/fixture.provider';
+
+/**
+ * Réglages d'une fonctionnalité (ai.features.<fonctionnalité>)
+ */
+interface AiFeatureSettings {
+  model?: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+/**
+ * Réponse du modèle validée par le schéma de l'appelant.
+ */
+export interface LlmStructuredCompletion<T> extends LlmCompletion {
+  data: T;
+  repaired: boolean; // true: valide seulement après la demande de correction
+}
+
+/**
+ * ERREUR: LlmValidationError
+ *
+ * La réponse du modèle reste invalide après la demande de correction.
+ */
+export class LlmValidationError extends Error {
+  constructor(
+    public readonly feature: AiFeature,
+    public readonly errors: string[],
+  ) {
+    super(`Réponse IA invalide (${feature}): ${errors.join('; ')}`);
+    this.name = 'LlmValidationError';
+  }
+}
+
+/**
+ * ERREUR: LlmBudgetExceededError
+ *
+ * Appel refusé: la limite de dépenses IA de la période est atteinte.
+ */
+export class LlmBudgetExceededError extends Error {
+  constructor(
+    public readonly feature: AiFeature,
+    public readonly period: AiBudgetPeriod,
+  ) {
+    super(
+      `Budget IA ${period === 'daily' ? 'journalier' : 'mensuel'} atteint, appel ${feature} refusé`,
+    );
+    this.name = 'LlmBudgetExceededError';
+  }
+}
+
+/**
+ * Résultat de la validation d'une réponse (errors renseigné si invalide).
+ */
+interface ValidationResult<T> {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+}
+
+/**
+ * Longueur maximale de la réponse invalide renvoyée au modèle et enregistrée
+ */
+const MAX_INVALID_RESPONSE_LENGTH = 4000;
+
+/**
+ * Réglages utilisés si la fonctionnalité n'est pas configurée.
+ */
+const DEFAULT_FEATURE_SETTINGS: AiFeatureSettings = {
+  temperature: 0.3,
+  maxOutputTokens: 500,
+};
+
+/**
+ * SERVICE: LlmService
+ */
+@Injectable()
+export class LlmService {
+  private readonly logger = new Logger(LlmService.name);
+
+  /**
+   * Fournisseur choisi au démarrage d'après `ai.provider`
+   */
+  private readonly provider: LlmProvider;
+
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection de la configuration et création du fournisseur
+   */
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly usage: AiUsageService,
+  ) {
+    this.provider = this.createProvider();
+
+    // Logger la configuration (sans exposer de clé API)
+    this.logger.log(
+      `Fournisseur IA: ${this.provider.name} (modèle ${this.provider.defaultModel}, ${this.provider.isConfigured() ? 'configuré' : 'non configuré'})`,
+    );
+  }
+
+  /**
+   * Nom du fournisseur actif (gemini, openai, fixture).
+   */
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Indique si les fonctionnalités IA peuvent être utilisées
+   * (false: clé API Gemini absente par exemple).
+   */
+  isEnabled(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  /**
+   * Modèle utilisé pour une fonctionnalité.
+   */
+  getModel(feature: AiFeature): string {
+    return this.getFeatureSettings(feature).model || this.provider.defaultModel;
+  }
+
+  /**
+   * Indique si la limite de dépenses IA est atteinte (appels refusés).
+   */
+  async isBudgetExceeded(): Promise<boolean> {
+    return (await this.usage.checkBudget()) !== null;
+  }
+
+  // ============================================
+  // MÉTHODE: complete (Texte généré)
+  // ============================================
+
+  /**
+   * Envoie un prompt au fournisseur avec les réglages de la fonctionnalité.
+   *
+   * RETRY:
+   * - Jusqu'à `ai.maxRetries` tentatives (1 = pas de nouvelle tentative)
+   * - Chaque tentative est enregistrée dans le journal des appels
+   *
+   * @param feature - Fonctionnalité à l'origine de l'appel
+   * @param prompt - Prompt texte, ou prompt du registre avec sa version
+   * @param entity - Entité concernée (journal des appels)
+   * @param images - URLs d'images jointes au prompt (modèle multimodal)
+   * @returns Texte généré, modèle utilisé et tokens consommés
+   * @throws LlmBudgetExceededError si la limite de dépenses est atteinte
+   * @throws LlmProviderError si toutes les tentatives échouent
+   */
+  async complete(
+    feature: AiFeature,
+    prompt: string | RenderedPrompt,
+    entity?: AiCallEntity,
+    images?: string[],
+  ): Promise<LlmCompletion> {
+    const { text, version } = toRenderedPrompt(prompt);
+    const settings = this.getFeatureSettings(feature);
+    const model = settings.model || this.provider.defaultModel;
+    const attempts = Math.max(
+      1,
+      this.configService.get<number>('ai.maxRetries') ?? 1,
+    );
+    const call = {
+      feature,
+      provider: this.provider.name,
+      model,
+      promptHash: HashUtil.promptHash(text),
+      promptVersion: version,
+      entity,
+    };
+
+    const exceeded = await this.usage.checkBudget();
+    if (exceeded) {
+      await this.usage.record({
+        ...call,
+        latencyMs: 0,
+        outcome: AiCallOutcome.BUDGET_EXCEEDED,
+      });
+      throw new LlmBudgetExceededError(feature, exceeded);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+
+      try {
+        const completion = await this.provider.complete({
+          feature,
+          prompt: text,
+          images,
+          model,
+          temperature: settings.temperature,
+          maxOutputTokens: settings.maxOutputTokens,
+        });
+
+        await this.usage.record({
+          ...call,
+          model: completion.model,
+          latencyMs: Date.now() - startedAt,
+          outcome: AiCallOutcome.SUCCESS,
+          usage: completion.usage,
+        });
+        return completion;
+      } catch (error) {
+        await this.usage.record({
+          ...call,
+          latencyMs: Date.now() - startedAt,
+          outcome: AiCallOutcome.ERROR,
+          error: error.message,
+        });
+
+        if (attempt >= attempts) {
+          throw error;
+        }
+
+        this.logger.warn(
+          `Appel IA ${feature} échoué (tentative ${attempt}/${attempts}): ${error.message}`,
+        );
+      }
+    }
+  }
+
+  // ============================================
+  // MÉTHODE: completeStructured (Réponse JSON validée)
+  // ============================================
+
+  /**
+   * Envoie un prompt qui demande une réponse JSON et la valide avec le schéma
+   * de l'appelant (les blocs markdown ```json ... ``` sont retirés).
+   *
+   * PROCESSUS:
+   * 1. Appel du modèle et validation de la réponse
+   * 2. Si invalide: nouvelle demande avec la réponse et les erreurs de validation
+   * 3. Si toujours invalide: enregistrement FALLBACK et LlmValidationError
+   *
+   * @param feature - Fonctionnalité à l'origine de l'appel
+   * @param prompt - Prompt texte, ou prompt du registre avec sa version
+   * @param schema - Schéma Zod de la réponse attendue
+   * @param entity - Entité concernée (journal des appels)
+   * @param images - URLs d'images jointes au prompt (aussi à la demande de correction)
+   * @returns Données validées (et transformées) par le schéma
+   * @throws LlmBudgetExceededError si la limite de dépenses est atteinte
+   * @throws LlmProviderError si un appel échoue
+   * @throws LlmValidationError si la réponse corrigée reste invalide
+   */
+  async completeStructured<S extends z.ZodTypeAny>(
+    feature: AiFeature,
+    prompt: string | RenderedPrompt,
+    schema: S,
+    entity?: AiCallEntity,
+    images?: string[],
+  ): Promise<LlmStructuredCompletion<z.infer<S>>> {
+    const { text, version } = toRenderedPrompt(prompt);
+    const completion = await this.complete(feature, prompt, entity, images);
+    const result = this.validate(completion.text, schema);
+
+    if (result.success) {
+      return { ...completion, data: result.data, repaired: false };
+    }
+
+    this.logger.warn(
+      `Réponse IA ${feature} invalide, demande de correction: ${result.errors.join('; ')}`,
+    );
+
+    const failure = {
+      feature,
+      promptHash: HashUtil.promptHash(text),
+      promptVersion: version,
+      model: completion.model,
+      response: completion.text,
+    };
+
+    let repair: LlmCompletion;
+    try {
+      repair = await this.complete(
+        feature,
+        {
+          text: buildRepairPrompt(text, completion.text, result.errors),
+          version,
+        },
+        entity,
+        images,
+      );
+    } catch (error) {
+      await this.recordValidationFailure(
+        failure,
+        AiValidationOutcome.FALLBACK,
+        {
+          initial: result.errors,
+          repair: [error.message],
+        },
+      );
+      throw error;
+    }
+
+    const repaired = this.validate(repair.text, schema);
+
+    if (repaired.success) {
+      await this.recordValidationFailure(
+        failure,
+        AiValidationOutcome.REPAIRED,
+        {
+          initial: result.errors,
+        },
+      );
+      return { ...repair, data: repaired.data, repaired: true };
+    }
+
+    await this.recordValidationFailure(failure, AiValidationOutcome.FALLBACK, {
+      initial: result.errors,
+      repair: repaired.errors,
+    });
+    throw new LlmValidationError(feature, repaired.errors);
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Réglages de la fonctionnalité (valeurs par défaut si absente de la config).
+   */
+  private getFeatureSettings(feature: AiFeature): AiFeatureSettings {
+    return {
+      ...DEFAULT_FEATURE_SETTINGS,
+      ...this.configService.get<AiFeatureSettings>(`ai.features.${feature}`),
+    };
+  }
+
+  /**
+   * Parse le JSON d'une réponse et le valide avec le schéma.
+   * Les erreurs sont formulées pour être renvoyées au modèle ("chemin: message").
+   */
+  private validate<S extends z.ZodTypeAny>(
+    text: string,
+    schema: S,
+  ): ValidationResult<z.infer<S>> {
+    const cleanResponse = text
+      .replace(/```json\n?/g, '')
+      .replace(/```\n?/g, '')
+      .trim();
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(cleanResponse);
+    } catch (error) {
+      return { success: false, errors: [`JSON invalide: ${error.message}`] };
+    }
+
+    const result = schema.safeParse(parsed);
+    if (result.success) {
+      return { success: true, data: result.data };
+    }
+
+    return {
+      success: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join('.') || 'réponse'}: ${issue.message}`,
+      ),
+    };
+  }
+
+  /**
+   * Enregistre une réponse invalide (métrique de stabilité des prompts).
+   *
+   * Stratégie: une erreur d'enregistrement est seulement loguée, elle ne doit pas
+   * faire échouer la fonctionnalité IA.
+   */
+  private async recordValidationFailure(
+    failure: {
+      feature: AiFeature;
+      promptHash: string;
+      promptVersion?: number;
+      model: string;
+      response: string;
+    },
+    outcome: AiValidationOutcome,
+    errors: { initial: string[]; repair?: string[] },
+  ): Promise<void> {
+    try {
+      await this.prisma.aiValidationFailure.create({
+        data: {
+          ...failure,
+          response: failure.response.substring(0, MAX_INVALID_RESPONSE_LENGTH),
+          outcome,
+          errors,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Impossible d'enregistrer l'échec de validation IA: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Crée le fournisseur configuré (gemini si la valeur est inconnue).
+   */
+  private createProvider(): LlmProvider {
+    const provider = this.configService.get<string>('ai.provider');
+    const timeoutMs = this.configService.get<number>('ai.timeoutMs') ?? 10000;
+    // Photos des items: seules les images de ce cloud sont téléchargées
+    const imageCloudName = this.configService.get<string>(
+      'cloudinary.cloudName',
+    );
+
+    switch (provider) {
+      case 'openai':
+        return new OpenAiCompatibleLlmProvider({
+          ...this.configService.get('ai.openai'),
+          timeoutMs,
+          imageCloudName,
+        });
+      case 'fixture':
+        return new FixtureLlmProvider(
+          this.configService.get<string>('ai.fixturesDir'),
+        );
+      case 'gemini':
+        return new GeminiLlmProvider({
+          ...this.configService.get('ai.gemini'),
+          timeoutMs,
+          imageCloudName,
+        });
+      default:
+        this.logger.warn(
+          `Fournisseur IA inconnu "${provider}", utilisation de Gemini`,
+        );
+        return new GeminiLlmProvider({
+          ...this.configService.get('ai.gemini'),
+          timeoutMs,
+          imageCloudName,
+        });
+    }
+  }
+}
+
+/**
+ * Texte et version d'un prompt (pas de version pour un prompt hors registre).
+ */
+function toRenderedPrompt(prompt: string | RenderedPrompt): {
+  text: string;
+  version?: number;
+} {
+  return typeof prompt === 'string' ? { text: prompt } : prompt;
+}
+
+/**
+ * Prompt de correction: prompt d'origine, réponse invalide et erreurs de validation.
+ */
+function buildRepairPrompt(
+  prompt: string,
+  response: string,
+  errors: string[],
+): string {
+  return `${prompt}
+
+Ta réponse précédente ne respecte pas le format attendu:
+${response.substring(0, MAX_INVALID_RESPONSE_LENGTH)}
+
+Erreurs de validation:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Corrige ces erreurs et réponds uniquement le JSON corrigé, sans texte supplémentaire.`;
+}
@@ -0,0 +1,468 @@
+/**
+ * FICHIER: prompt-templates.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service gère le registre des prompts: versions, version active par
+ * environnement, répartition du trafic entre deux versions et résultats
+ * observés pour comparer leur qualité.
+ *
+ * VERSIONS (prompt_templates):
+ * - Version 1: texte intégré au code (prompts/prompt-definitions.ts)
+ * - Versions suivantes: créées par les admins, jamais modifiées ensuite
+ * - Variables typées par fonctionnalité, vérifiées à la création
+ *
+ * DÉPLOIEMENT (prompt_deployments, par environnement ai.promptEnvironment):
+ * - Version active (défaut: version 1)
+ * - Version candidate optionnelle qui reçoit candidateShare % du trafic
+ * - Une même entité reçoit toujours la même version (répartition par hash)
+ * - L'état est gardé en cache une minute, vidé à chaque modification
+ *
+ * RÉSULTATS (prompt_outcomes):
+ * - Un résultat par entité et par métrique (ex: Item + categoryKept)
+ * - Rattaché à la version du prompt qui a produit la réponse
+ *
+ * Stratégie: si le registre ne peut pas être lu, le texte intégré est utilisé;
+ * une erreur d'enregistrement d'un résultat est seulement loguée.
+ */
+
+// Import des classes NestJS
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+// Import des types Prisma
+import { PromptDeployment } from '@prisma/client';
+
+// Import des services
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { AiCallEntity } from './ai-usage.service';
+
+// Import des utilitaires
+import { HashUtil } from '../../common/utils/hash.util';
+
+// Import du registre des prompts
+import { AiFeature } from './providers/llm-provider';
+import {
+  BUILT_IN_PROMPT_VERSION,
+  findPromptTemplateErrors,
+  isPromptFeature,
+  PROMPT_DEFINITIONS,
+  PromptVariables,
+  renderPromptTemplate,
+} from './prompts/prompt-definitions';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Prompt prêt à être envoyé, avec la version utilisée (journal des appels).
+ */
+export interface RenderedPrompt {
+  text: string;
+  version: number;
+}
+
+/**
+ * Déploiement d'un prompt dans un environnement.
+ */
+export interface PromptDeploymentInput {
+  environment?: string; // Défaut: environnement courant
+  version: number;
+  candidateVersion?: number | null; // null: pas de comparaison A/B
+  candidateShare?: number; // Pourcentage du trafic de la candidate (0-100)
+}
+
+/**
+ * Résultat observé d'une réponse IA.
+ */
+export interface PromptOutcomeInput {
+  feature: AiFeature;
+  promptVersion: number;
+  entity: AiCallEntity;
+  metric: string; // Ex: 'categoryKept'
+  value: boolean;
+}
+
+/**
+ * Durée de validité d'un déploiement en cache
+ */
+const DEPLOYMENT_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * SERVICE: PromptTemplatesService
+ */
+@Injectable()
+export class PromptTemplatesService {
+  private readonly logger = new Logger(PromptTemplatesService.name);
+
+  /**
+   * Environnement dont le déploiement est appliqué (ex: production, staging)
+   */
+  readonly environment: string;
+
+  /**
+   * Déploiements en cache par fonctionnalité (null: aucun, version 1)
+   */
+  private readonly deployments = new Map<
+    AiFeature,
+    { deployment: PromptDeployment | null; expiresAt: number }
+  >();
+
+  /**
+   * Textes des versions déjà lus (une version n'est jamais modifiée)
+   */
+  private readonly templates = new Map<string, string>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.environment =
+      this.configService.get<string>('ai.promptEnvironment') || 'development';
+  }
+
+  // ============================================
+  // MÉTHODE: render (Prompt d'un appel)
+  // ============================================
+
+  /**
+   * Construit le prompt d'une fonctionnalité avec la version déployée.
+   *
+   * @param feature - Fonctionnalité à l'origine de l'appel
+   * @param variables - Valeurs des variables du prompt
+   * @param entity - Entité concernée (répartition A/B stable par entité)
+   * @returns Texte du prompt et version utilisée
+   */
+  async render<F extends AiFeature>(
+    feature: F,
+    variables: PromptVariables[F],
+    entity?: AiCallEntity,
+  ): Promise<RenderedPrompt> {
+    let version = BUILT_IN_PROMPT_VERSION;
+    let template = PROMPT_DEFINITIONS[feature].template;
+
+    try {
+      version = this.selectVersion(
+        feature,
+        await this.getDeployment(feature),
+        entity,
+      );
+      template = await this.getTemplate(feature, version);
+    } catch (error) {
+      this.logger.error(
+        `Impossible de lire le prompt ${feature}, texte intégré utilisé: ${error.message}`,
+      );
+      version = BUILT_IN_PROMPT_VERSION;
+      template = PROMPT_DEFINITIONS[feature].template;
+    }
+
+    return { text: renderPromptTemplate(template, variables), version };
+  }
+
+  // ============================================
+  // MÉTHODES: Administration
+  // ============================================
+
+  /**
+   * Registre complet: variables, versions et déploiements de chaque prompt.
+   */
+  async listTemplates() {
+    const [versions, deployments] = await Promise.all([
+      this.prisma.promptTemplate.findMany({
+        orderBy: [{ feature: 'asc' }, { version: 'desc' }],
+      }),
+      this.prisma.promptDeployment.findMany({
+        orderBy: { environment: 'asc' },
+      }),
+    ]);
+
+    return {
+      environment: this.environment,
+      prompts: (Object.keys(PROMPT_DEFINITIONS) as AiFeature[]).map(
+        (feature) => ({
+          feature,
+          description: PROMPT_DEFINITIONS[feature].description,
+          variables: PROMPT_DEFINITIONS[feature].variables,
+          versions: [
+            ...versions.filter((version) => version.feature === feature),
+            {
+              id: null,
+              feature,
+              version: BUILT_IN_PROMPT_VERSION,
+              template: PROMPT_DEFINITIONS[feature].template,
+              note: 'Texte intégré au code',
+              createdById: null,
+              createdAt: null,
+            },
+          ],
+          deployments: deployments.filter(
+            (deployment) => deployment.feature === feature,
+          ),
+        }),
+      ),
+    };
+  }
+
+  /**
+   * Crée une nouvelle version d'un prompt (non déployée).
+   *
+   * @throws NotFoundException si la fonctionnalité n'existe pas
+   * @throws BadRequestException si le texte utilise des variables inconnues
+   * ou omet des variables déclarées
+   */
+  async createVersion(
+    feature: string,
+    data: { template: string; note?: string },
+    adminId?: string,
+  ) {
+    this.assertFeature(feature);
+
+    const errors = findPromptTemplateErrors(feature, data.template);
+    if (errors.length > 0) {
+      throw new BadRequestException(`Prompt invalide: ${errors.join(', ')}`);
+    }
+
+    const latest = await this.prisma.promptTemplate.findFirst({
+      where: { feature },
+      orderBy: { version: 'desc' },
+    });
+
+    return this.prisma.promptTemplate.create({
+      data: {
+        feature,
+        version: (latest?.version ?? BUILT_IN_PROMPT_VERSION) + 1,
+        template: data.template,
+        note: data.note,
+        createdById: adminId,
+      },
+    });
+  }
+
+  /**
+   * Choisit la version active (et la candidate) d'un prompt dans un environnement.
+   *
+   * @throws NotFoundException si la fonctionnalité ou une version n'existe pas
+   * @throws BadRequestException si la candidate est la version active
+   */
+  async updateDeployment(feature: string, data: PromptDeploymentInput) {
+    this.assertFeature(feature);
+
+    const environment = data.environment || this.environment;
+    const candidateVersion = data.candidateVersion ?? null;
+
+    if (candidateVersion === data.version) {
+      throw new BadRequestException(
+        'La version candidate doit être différente de la version active',
+      );
+    }
+
+    for (const version of [data.version, candidateVersion]) {
+      if (version !== null && !(await this.versionExists(feature, version))) {
+        throw new NotFoundException(
+          `Version ${version} du prompt ${feature} non trouvée`,
+        );
+      }
+    }
+
+    const deployment = {
+      version: data.version,
+      candidateVersion,
+      candidateShare:
+        candidateVersion === null ? 0 : (data.candidateShare ?? 0),
+    };
+
+    const saved = await this.prisma.promptDeployment.upsert({
+      where: { feature_environment: { feature, environment } },
+      create: { feature, environment, ...deployment },
+      update: deployment,
+    });
+
+    this.deployments.delete(feature);
+    return saved;
+  }
+
+  // ============================================
+  // MÉTHODES: Résultats observés
+  // ============================================
+
+  /**
+   * Enregistre le résultat d'une réponse IA (remplace celui de la même
+   * entité et métrique, ex: nouvelle analyse d'un item).
+   */
+  async tagOutcome(outcome: PromptOutcomeInput): Promise<void> {
+    const data = {
+      feature: outcome.feature,
+      promptVersion: outcome.promptVersion,
+      value: outcome.value,
+    };
+
+    try {
+      await this.prisma.promptOutcome.upsert({
+        where: {
+          entityType_entityId_metric: {
+            entityType: outcome.entity.type,
+            entityId: outcome.entity.id,
+            metric: outcome.metric,
+          },
+        },
+        create: {
+          ...data,
+          entityType: outcome.entity.type,
+          entityId: outcome.entity.id,
+          metric: outcome.metric,
+        },
+        update: data,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Impossible d'enregistrer le résultat ${outcome.metric}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Modifie la valeur d'un résultat déjà enregistré (sans effet s'il n'existe pas,
+   * ex: item créé sans analyse IA).
+   */
+  async updateOutcome(
+    entity: AiCallEntity,
+    metric: string,
+    value: boolean,
+  ): Promise<void> {
+    try {
+      await this.prisma.promptOutcome.updateMany({
+        where: { entityType: entity.type, entityId: entity.id, metric },
+        data: { value },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Impossible de modifier le résultat ${metric}: ${error.message}`,
+      );
+    }
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Déploiement de l'environnement courant (cache d'une minute).
+   */
+  private async getDeployment(
+    feature: AiFeature,
+  ): Promise<PromptDeployment | null> {
+    const cached = this.deployments.get(feature);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.deployment;
+    }
+
+    const deployment = await this.prisma.promptDeployment.findUnique({
+      where: {
+        feature_environment: { feature, environment: this.environment },
+      },
+    });
+
+    this.deployments.set(feature, {
+      deployment,
+      expiresAt: Date.now() + DEPLOYMENT_CACHE_TTL_MS,
+    });
+    return deployment;
+  }
+
+  /**
+   * Version à utiliser pour un appel: la candidate pour candidateShare % des
+   * entités (tirage aléatoire sans entité), l'active sinon.
+   */
+  private selectVersion(
+    feature: AiFeature,
+    deployment: PromptDeployment | null,
+    entity?: AiCallEntity,
+  ): number {
+    if (!deployment) {
+      return BUILT_IN_PROMPT_VERSION;
+    }
+
+    if (
+      deployment.candidateVersion === null ||
+      deployment.candidateShare <= 0
+    ) {
+      return deployment.version;
+    }
+
+    const bucket = entity
+      ? parseInt(
+          HashUtil.sha256(`${feature}:${entity.type}:${entity.id}`).substring(
+            0,
+            8,
+          ),
+          16,
+        ) % 100
+      : Math.floor(Math.random() * 100);
+
+    return bucket < deployment.candidateShare
+      ? deployment.candidateVersion
+      : deployment.version;
+  }
+
+  /**
+   * Texte d'une version (texte intégré pour la version 1).
+   *
+   * @throws NotFoundException si la version n'existe pas
+   */
+  private async getTemplate(
+    feature: AiFeature,
+    version: number,
+  ): Promise<string> {
+    if (version === BUILT_IN_PROMPT_VERSION) {
+      return PROMPT_DEFINITIONS[feature].template;
+    }
+
+    const key = `${feature}:${version}`;
+    if (!this.templates.has(key)) {
+      const template = await this.prisma.promptTemplate.findUnique({
+        where: { feature_version: { feature, version } },
+      });
+
+      if (!template) {
+        throw new NotFoundException(
+          `Version ${version} du prompt ${feature} non trouvée`,
+        );
+      }
+
+      this.templates.set(key, template.template);
+    }
+
+    return this.templates.get(key);
+  }
+
+  /**
+   * Indique si une version existe (la version 1 existe toujours).
+   */
+  private async versionExists(
+    feature: AiFeature,
+    version: number,
+  ): Promise<boolean> {
+    if (version === BUILT_IN_PROMPT_VERSION) {
+      return true;
+    }
+
+    const count = await this.prisma.promptTemplate.count({
+      where: { feature, version },
+    });
+    return count > 0;
+  }
+
+  /**
+   * @throws NotFoundException si la fonctionnalité n'a pas de prompt
+   */
+  private assertFeature(feature: string): asserts feature is AiFeature {
+    if (!isPromptFeature(feature)) {
+      throw new NotFoundException(`Prompt inconnu: ${feature}`);
+    }
+  }
+}
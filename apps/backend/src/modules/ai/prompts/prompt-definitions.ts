@@ -0,0 +1,332 @@
+/**
+ * FICHIER: prompt-definitions.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier déclare les prompts des fonctionnalités IA: variables typées et
+ * texte intégré au code. Le texte intégré est la version 1 de chaque prompt;
+ * les versions suivantes sont créées par les admins (prompt_templates), voir
+ * PromptTemplatesService.
+ *
+ * SYNTAXE:
+ * - Variables entre doubles accolades: {{title}}
+ * - Chaque variable déclarée doit apparaître dans le texte, aucune autre n'est
+ *   acceptée (vérifié à la création d'une version)
+ */
+
+// Import du contrat des fournisseurs
+import { AiFeature } from '../providers/llm-provider';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Variables de chaque prompt (valeurs déjà mises en forme par l'appelant).
+ */
+export interface PromptVariables {
+  itemAnalysis: {
+    title: string;
+    description: string;
+    locale: string;
+    categories: string;
+  };
+  suggestions: {
+    themeTitle: string;
+    countries: string;
+    categories: string;
+  };
+  theme: {
+    weekStart: string;
+    categories: string;
+  };
+  ecoEnrichment: {
+    title: string;
+    url: string;
+    content: string;
+  };
+  photoAnalysis: {
+    title: string;
+    description: string;
+    locale: string;
+    categories: string;
+  };
+}
+
+/**
+ * Déclaration d'un prompt: description des variables et texte intégré.
+ */
+export interface PromptDefinition<F extends AiFeature> {
+  description: string;
+  variables: Record<keyof PromptVariables[F], string>; // Nom -> description
+  template: string;
+}
+
+/**
+ * Version du texte intégré au code
+ */
+export const BUILT_IN_PROMPT_VERSION = 1;
+
+/**
+ * Variable du texte: {{nom}} (espaces tolérés autour du nom)
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// ============================================
+// TEXTES INTÉGRÉS (VERSION 1)
+// ============================================
+
+const ITEM_ANALYSIS_TEMPLATE = `Analyse cet objet pour une plateforme d'échange d'objets d'occasion.
+
+Titre: "{{title}}"
+Description: "{{description}}"
+
+Réponds UNIQUEMENT en JSON valide avec cette structure exacte:
+{
+  "category": "CATEGORIE_APPROPRIEE",
+  "tags": ["tag1", "tag2", "tag3", "tag4"],
+  "aiSummary": "Résumé concis en {{locale}} (max 240 caractères)",
+  "aiRepairTip": "Conseil réparation basique en {{locale}} (max 240 caractères)"
+}
+
+Catégories disponibles (utilise la valeur en majuscules):
+{{categories}}
+
+Règles:
+- Choisis la catégorie la plus appropriée
+- Génère 3-4 tags pertinents (2-24 caractères chacun)
+- Résumé: description courte et attractive
+- Conseil réparation: astuce simple si l'objet semble endommagé, sinon "Aucune réparation nécessaire"
+
+Réponds uniquement le JSON, sans texte supplémentaire.`;
+
+const SUGGESTIONS_TEMPLATE = `Rôle: Tu es un curateur d'objets d'échange écoresponsables à l'échelle mondiale.
+Tâche: Proposer une liste variée d'objets pertinents pour le thème: "{{themeTitle}}".
+
+Contraintes:
+- Réponds UNIQUEMENT en JSON valide (pas de texte hors JSON).
+- 20 objets maximum.
+- Contrainte diversité: pas plus de 2 objets par pays et par décennie/ère.
+- Préférer vintage, artisanat, objets réparables.
+- Focus sur les pays: {{countries}}
+
+Champs attendus pour chaque objet:
+{
+  "name": string,
+  "category": string,           // valeur en majuscules de la liste ci-dessous
+  "country": string,             // ISO ou nom pays
+  "era": string|null,            // ex "années 80", "Meiji", "2000s"
+  "materials": string|null,
+  "ecoReason": string,           // pourquoi c'est écoresponsable
+  "repairDifficulty": "faible"|"moyenne"|"elevee",
+  "popularity": 1|2|3|4|5,
+  "tags": string[],
+  "photoRef": string|null
+}
+
+Catégories disponibles:
+{{categories}}
+
+Sortie: { "items": [ ... ] }
+
+Réponds uniquement le JSON, sans texte supplémentaire.`;
+
+const THEME_TEMPLATE = `Rôle: Tu es un créateur de thèmes hebdomadaires pour une plateforme d'échange d'objets écoresponsables.
+Tâche: Créer un thème inspirant et créatif pour la semaine du {{weekStart}}.
+
+IMPORTANT - Le titre du thème doit être:
+- Créatif, accrocheur et mémorable (PAS juste "Thème de la semaine du...")
+- Inspirant et engageant
+- Spécifique à une ou plusieurs catégories d'objets
+- Exemples de BONS titres: "Objets Vintage des Années 80", "Artisanat Local et Fait Main", "Électronique Durable et Réparable", "Livres de Science-Fiction Rétro", "Outils de Jardinage Écologiques", "Jouets en Bois Naturel", "Art et Créations Originales", "Vêtements Vintage et Mode Circulaire"
+- Exemples de MAUVAIS titres: "Thème de la semaine du 29/11/2025", "Échange d'objets", "Thème écologique"
+
+Catégories d'objets disponibles sur la plateforme:
+{{categories}}
+
+Le thème doit:
+- Mettre en avant 1 à 3 catégories principales (choisies parmi la liste ci-dessus)
+- Être créatif et engageant
+- Mettre en avant l'échange, la réparation, la réutilisation
+- Être écologique et durable
+- Inspirer les utilisateurs à échanger des objets vintage, artisanaux, réparables
+- Être adapté à un public international (France, Maroc, Japon, USA, Brésil)
+- Varier chaque semaine pour éviter la répétition
+
+Réponds UNIQUEMENT en JSON valide (pas de texte hors JSON):
+{
+  "title": string,              // Titre créatif et accrocheur (ex: "Objets Vintage des Années 80", "Artisanat Local et Fait Main")
+  "slug": string,               // Slug URL-friendly (ex: "objets-vintage-annees-80", "artisanat-local-fait-main")
+  "impactText": string,         // Texte explicatif (3-5 phrases) qui décrit le thème, explique son intérêt écologique
+                                // ET donne au moins 2 à 3 exemples concrets d'objets typiques de ce thème
+                                // (ex: "veste en jean vintage", "console de jeux des années 90", "service de vaisselle en céramique fait main")
+  "photoSearchQuery": string,   // Terme de recherche pour trouver une photo sur Unsplash (en anglais, ex: "vintage 80s objects", "handmade crafts sustainable")
+  "targetCategories": string[]  // 1 à 3 catégories principales ciblées par ce thème (ex: ["VINTAGE", "CLOTHING"], ["HANDCRAFT", "HOME"])
+}
+
+Sortie: Réponds uniquement le JSON, sans texte supplémentaire.`;
+
+const ECO_ENRICHMENT_TEMPLATE = `Analyse ce contenu éco-éducatif et génère un résumé et des tags pertinents.
+
+Titre: {{title}}
+URL: {{url}}
+{{content}}
+
+Réponds UNIQUEMENT avec un JSON valide dans ce format exact:
+{
+  "summary": "Résumé concis en français (max 240 caractères) expliquant l'impact écologique",
+  "tags": ["tag1", "tag2", "tag3", "tag4", "tag5", "tag6", "tag7", "tag8"],
+  "kpis": {
+    "co2Saved": "X kg CO2 épargnés",
+    "wasteReduced": "X kg déchets évités",
+    "energySaved": "X kWh économisés"
+  }
+}
+
+Règles:
+- Summary: maximum 240 caractères, focus sur l'impact écologique
+- Tags: maximum 8 tags, en français, liés à l'écologie/durabilité
+- KPIs: seulement si des données chiffrées sont disponibles
+- Réponse JSON valide uniquement, pas de texte supplémentaire`;
+
+const PHOTO_ANALYSIS_TEMPLATE = `Analyse les photos jointes de cet objet, proposé sur une plateforme d'échange d'objets d'occasion.
+
+Titre actuel: "{{title}}"
+Description actuelle: "{{description}}"
+
+Appuie-toi d'abord sur les photos (état réel, type d'objet), le titre et la description servent de contexte.
+
+Réponds UNIQUEMENT en JSON valide avec cette structure exacte:
+{
+  "category": { "value": "CATEGORIE_APPROPRIEE", "confidence": 0.9 },
+  "condition": { "value": "NEW|GOOD|FAIR|TO_REPAIR", "confidence": 0.8 },
+  "tags": { "value": ["tag1", "tag2", "tag3", "tag4"], "confidence": 0.7 },
+  "title": { "value": "Titre amélioré en {{locale}} ou null", "confidence": 0.6 },
+  "damageNotes": { "value": "Dégâts visibles en {{locale}} ou null", "confidence": 0.8 }
+}
+
+Catégories disponibles (utilise la valeur en majuscules):
+{{categories}}
+
+États disponibles:
+- NEW: neuf ou jamais utilisé
+- GOOD: bon état, traces d'usage légères
+- FAIR: état correct, usure visible
+- TO_REPAIR: à réparer, défaut empêchant un usage normal
+
+Règles:
+- confidence: nombre entre 0 et 1, ta certitude pour ce champ d'après les photos
+- Génère 3-4 tags pertinents (2-24 caractères chacun)
+- Titre: plus précis que le titre actuel (marque, modèle, matière, couleur visibles), max 100 caractères, null si le titre actuel convient
+- Dégâts: rayures, taches, pièces cassées ou manquantes visibles (max 300 caractères), null si aucun dégât visible
+
+Réponds uniquement le JSON, sans texte supplémentaire.`;
+
+// ============================================
+// REGISTRE
+// ============================================
+
+/**
+ * Prompts de chaque fonctionnalité IA.
+ */
+export const PROMPT_DEFINITIONS: {
+  [F in AiFeature]: PromptDefinition<F>;
+} = {
+  itemAnalysis: {
+    description:
+      "Analyse d'un item (catégorie, tags, résumé, conseil de réparation)",
+    variables: {
+      title: "Titre de l'item",
+      description: "Description de l'item",
+      locale: 'Langue des textes générés (ex: fr)',
+      categories: 'Liste des catégories disponibles',
+    },
+    template: ITEM_ANALYSIS_TEMPLATE,
+  },
+  suggestions: {
+    description: "Suggestions d'objets pour le thème de la semaine",
+    variables: {
+      themeTitle: 'Titre du thème',
+      countries: 'Pays ciblés, séparés par des virgules',
+      categories: 'Liste des catégories disponibles',
+    },
+    template: SUGGESTIONS_TEMPLATE,
+  },
+  theme: {
+    description: 'Thème de la semaine',
+    variables: {
+      weekStart: 'Lundi de la semaine (ex: 20 octobre 2025)',
+      categories: 'Liste des catégories disponibles',
+    },
+    template: THEME_TEMPLATE,
+  },
+  ecoEnrichment: {
+    description: "Résumé, tags et KPIs d'un contenu éco-éducatif",
+    variables: {
+      title: 'Titre du contenu',
+      url: 'URL du contenu',
+      content: 'Extrait du texte de la page ("Contenu: ...", vide si absent)',
+    },
+    template: ECO_ENRICHMENT_TEMPLATE,
+  },
+  photoAnalysis: {
+    description:
+      "Analyse des photos d'un item (catégorie, état, tags, titre, dégâts)",
+    variables: {
+      title: "Titre actuel de l'item",
+      description: "Description actuelle de l'item",
+      locale: 'Langue des textes générés (ex: fr)',
+      categories: 'Liste des catégories disponibles',
+    },
+    template: PHOTO_ANALYSIS_TEMPLATE,
+  },
+};
+
+// ============================================
+// FONCTIONS
+// ============================================
+
+/**
+ * Indique si une valeur est une fonctionnalité du registre (paramètre de route).
+ */
+export function isPromptFeature(value: string): value is AiFeature {
+  return Object.prototype.hasOwnProperty.call(PROMPT_DEFINITIONS, value);
+}
+
+/**
+ * Remplace les variables du texte par leurs valeurs.
+ */
+export function renderPromptTemplate<F extends AiFeature>(
+  template: string,
+  variables: PromptVariables[F],
+): string {
+  const values: Record<string, string> = variables;
+
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? values[name]
+      : placeholder,
+  );
+}
+
+/**
+ * Erreurs d'un texte de prompt: variables inconnues ou absentes.
+ *
+ * @returns Messages d'erreur (tableau vide si le texte est valide)
+ */
+export function findPromptTemplateErrors(
+  feature: AiFeature,
+  template: string,
+): string[] {
+  const declared = Object.keys(PROMPT_DEFINITIONS[feature].variables);
+  const used = new Set(
+    Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]),
+  );
+
+  const unknown = [...used].filter((name) => !declared.includes(name));
+  const missing = declared.filter((name) => !used.has(name));
+
+  return [
+    ...unknown.map((name) => `Variable inconnue: {{${name}}}`),
+    ...missing.map((name) => `Variable absente: {{${name}}}`),
+  ];
+}
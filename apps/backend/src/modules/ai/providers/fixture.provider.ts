@@ -0,0 +1,63 @@
+/**
+ * FICHIER: fixture.provider.ts
+ *
+ * DESCRIPTION:
+ * Fournisseur de rejeu: aucune requête réseau, la réponse est lue sur disque.
+ * Déterministe (même prompt = même réponse), pour les tests et le développement
+ * hors ligne. Les images jointes au prompt sont ignorées.
+ *
+ * RECHERCHE DE LA RÉPONSE (dans le dossier `ai.fixturesDir`):
+ * 1. `<fonctionnalité>/<hash SHA256 du prompt>.txt`: réponse propre à ce prompt
+ * 2. `<fonctionnalité>/default.txt`: réponse de la fonctionnalité pour tout prompt
+ */
+
+// Import de Node.js
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// Import des utilitaires
+import { HashUtil } from '../../../common/utils/hash.util';
+
+// Import du contrat des fournisseurs
+import {
+  LlmCompletion,
+  LlmProvider,
+  LlmProviderError,
+  LlmRequest,
+} from './llm-provider';
+
+/**
+ * FOURNISSEUR: FixtureLlmProvider
+ */
+export class FixtureLlmProvider implements LlmProvider {
+  readonly name = 'fixture';
+  readonly defaultModel = 'fixture';
+
+  constructor(private readonly directory: string) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * @throws LlmProviderError si aucune fixture ne correspond (le hash attendu est indiqué)
+   */
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const featureDir = path.join(this.directory, request.feature);
+    const promptHash = HashUtil.promptHash(request.prompt);
+
+    for (const fileName of [`${promptHash}.txt`, 'default.txt']) {
+      const text = await fs
+        .readFile(path.join(featureDir, fileName), 'utf8')
+        .catch(() => null);
+
+      if (text !== null) {
+        return { text, model: request.model };
+      }
+    }
+
+    throw new LlmProviderError(
+      `Aucune fixture IA pour ${request.feature} (attendue: ${path.join(featureDir, `${promptHash}.txt`)})`,
+    );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * FICHIER: gemini.provider.ts
+ *
+ * DESCRIPTION:
+ * Fournisseur Google Gemini: appelle `models/<modèle>:generateContent`
+ * de l'API REST (clé API en paramètre de requête).
+ *
+ * IMAGES:
+ * - Téléchargées puis jointes au prompt en base64 (inline_data)
+ */
+
+// Import du contrat des fournisseurs
+import {
+  LlmCompletion,
+  LlmProvider,
+  LlmProviderError,
+  LlmRequest,
+  fetchImage,
+  postJson,
+} from './llm-provider';
+
+/**
+ * Paramètres du fournisseur Gemini (`ai.gemini` + timeout).
+ */
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  model: string;
+  baseUrl: string;
+  timeoutMs: number;
+  imageCloudName?: string; // Cloud Cloudinary des images jointes (photos des items)
+}
+
+/**
+ * Réponse de generateContent (seuls les champs utilisés sont typés).
+ */
+type GeminiResponse = {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+};
+
+/**
+ * FOURNISSEUR: GeminiLlmProvider
+ */
+export class GeminiLlmProvider implements LlmProvider {
+  readonly name = 'gemini';
+
+  constructor(private readonly options: GeminiProviderOptions) {}
+
+  get defaultModel(): string {
+    return this.options.model;
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.apiKey;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const { baseUrl, apiKey, timeoutMs, imageCloudName } = this.options;
+    const url = `${baseUrl}/models/${request.model}:generateContent?key=${apiKey}`;
+
+    const images = await Promise.all(
+      (request.images ?? []).map((imageUrl) =>
+        fetchImage(imageUrl, {
+          provider: 'Gemini',
+          timeoutMs,
+          cloudName: imageCloudName,
+        }),
+      ),
+    );
+
+    const data = await postJson<GeminiResponse>(
+      url,
+      {
+        contents: [
+          {
+            parts: [
+              { text: request.prompt },
+              ...images.map((image) => ({
+                inline_data: { mime_type: image.mimeType, data: image.data },
+              })),
+            ],
+          },
+        ],
+        generationConfig: {
+          temperature: request.temperature,
+          topP: 0.8,
+          topK: 40,
+          maxOutputTokens: request.maxOutputTokens,
+        },
+      },
+      { provider: 'Gemini', timeoutMs },
+    );
+
+    const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new LlmProviderError(
+        'Réponse Gemini invalide: structure de réponse inattendue',
+      );
+    }
+
+    return {
+      text,
+      model: request.model,
+      usage: data.usageMetadata && {
+        inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * FICHIER: llm-provider.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier définit le contrat commun des fournisseurs de modèles de langage
+ * (Gemini, endpoint compatible OpenAI, rejeu de fixtures), ainsi que l'appel
+ * HTTP JSON et le téléchargement d'images avec timeout partagés par les
+ * fournisseurs distants.
+ *
+ * FONCTIONNALITÉS IA (clés de `ai.features`):
+ * - itemAnalysis: analyse d'un item (catégorie, tags, résumé, conseil de réparation)
+ * - suggestions: suggestions d'objets pour un thème
+ * - theme: thème de la semaine
+ * - ecoEnrichment: résumé, tags et KPIs d'un contenu éco-éducatif
+ * - photoAnalysis: analyse d'un item à partir de ses photos (modèle multimodal)
+ */
+
+// Import de la validation des URLs d'images (photos Cloudinary uniquement)
+import { CloudinaryUtil } from '../../../common/utils/cloudinary.util';
+
+/**
+ * Fonctionnalité à l'origine d'un appel (réglages dédiés, fixtures rangées par fonctionnalité).
+ */
+export type AiFeature =
+  | 'itemAnalysis'
+  | 'suggestions'
+  | 'theme'
+  | 'ecoEnrichment'
+  | 'photoAnalysis';
+
+/**
+ * Requête envoyée à un fournisseur (réglages de la fonctionnalité déjà résolus).
+ */
+export interface LlmRequest {
+  feature: AiFeature;
+  prompt: string;
+  images?: string[]; // URLs d'images jointes au prompt (modèle multimodal)
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+/**
+ * Tokens consommés par un appel (tels que rapportés par le fournisseur).
+ */
+export interface LlmUsage {
+  inputTokens: number; // Tokens du prompt
+  outputTokens: number; // Tokens générés
+}
+
+/**
+ * Réponse texte du modèle.
+ */
+export interface LlmCompletion {
+  text: string;
+  model: string; // Modèle qui a répondu
+  usage?: LlmUsage; // Absent si le fournisseur ne le rapporte pas (fixtures)
+}
+
+/**
+ * INTERFACE: LlmProvider
+ *
+ * Un fournisseur reçoit une requête et retourne le texte généré,
+ * ou lève une LlmProviderError en cas d'échec.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string; // Modèle des fonctionnalités sans modèle dédié
+  isConfigured(): boolean; // false: les fonctionnalités IA sont désactivées
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+/**
+ * ERREUR: LlmProviderError
+ *
+ * Échec d'un appel: erreur HTTP (status renseigné), timeout, réponse inattendue
+ * ou fixture absente.
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+/**
+ * Envoie une requête POST JSON et retourne la réponse JSON.
+ *
+ * @param url - URL de l'endpoint
+ * @param body - Corps de la requête
+ * @param options - En-têtes supplémentaires, timeout et nom du fournisseur (messages d'erreur)
+ * @throws LlmProviderError si la réponse n'est pas 2xx ou si le délai est dépassé
+ */
+export async function postJson<T>(
+  url: string,
+  body: unknown,
+  options: {
+    provider: string;
+    timeoutMs: number;
+    headers?: Record<string, string>;
+  },
+): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new LlmProviderError(
+        `API ${options.provider} error: ${response.status} - ${errorText}`,
+        response.status,
+      );
+    }
+
+    return (await response.json()) as T;
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      throw new LlmProviderError(`Timeout de l'API ${options.provider}`);
+    }
+
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Image téléchargée, prête à être jointe à une requête (contenu en base64).
+ */
+export interface LlmImage {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * Taille maximale d'une image jointe à un prompt (5 Mo)
+ */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Télécharge une image à joindre à un prompt.
+ *
+ * SÉCURITÉ:
+ * - Seules les images du cloud Cloudinary configuré sont téléchargées (https,
+ *   `res.cloudinary.com/<cloudName>/`), sans suivre de redirection (SSRF)
+ * - La taille est vérifiée avant (`content-length`) et pendant la lecture:
+ *   le téléchargement est interrompu au-delà de MAX_IMAGE_BYTES
+ *
+ * @param url - URL de l'image (photo Cloudinary d'un item)
+ * @param options - Timeout, nom du fournisseur (messages d'erreur) et cloud
+ * Cloudinary autorisé
+ * @throws LlmProviderError si l'URL n'est pas autorisée, si l'image est
+ * inaccessible, trop lourde, n'est pas une image ou si le délai est dépassé
+ */
+export async function fetchImage(
+  url: string,
+  options: { provider: string; timeoutMs: number; cloudName?: string },
+): Promise<LlmImage> {
+  if (!CloudinaryUtil.isAssetUrl(url, options.cloudName)) {
+    throw new LlmProviderError(
+      `Image refusée pour ${options.provider}: seules les images Cloudinary sont acceptées - ${url}`,
+    );
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs);
+  const tooLarge = (bytes: string | number) =>
+    new LlmProviderError(
+      `Image trop lourde pour ${options.provider} (${bytes} octets) - ${url}`,
+    );
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      redirect: 'error',
+    });
+
+    if (!response.ok) {
+      throw new LlmProviderError(
+        `Image inaccessible pour ${options.provider}: ${response.status} - ${url}`,
+        response.status,
+      );
+    }
+
+    const mimeType = (response.headers.get('content-type') || '')
+      .split(';')[0]
+      .trim();
+    if (!mimeType.startsWith('image/')) {
+      throw new LlmProviderError(
+        `Type de fichier non supporté pour ${options.provider}: ${mimeType || 'inconnu'} - ${url}`,
+      );
+    }
+
+    const declaredBytes = Number(response.headers.get('content-length'));
+    if (declaredBytes > MAX_IMAGE_BYTES) {
+      throw tooLarge(declaredBytes);
+    }
+
+    const buffer = await readBody(response, MAX_IMAGE_BYTES);
+    if (!buffer) {
+      throw tooLarge(`plus de ${MAX_IMAGE_BYTES}`);
+    }
+
+    return { mimeType, data: buffer.toString('base64') };
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      throw new LlmProviderError(
+        `Timeout du téléchargement d'image pour ${options.provider}`,
+      );
+    }
+
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Lit le corps d'une réponse en comptant les octets reçus.
+ *
+ * @returns Contenu lu, ou null si maxBytes est dépassé (lecture interrompue)
+ */
+async function readBody(
+  response: Response,
+  maxBytes: number,
+): Promise<Buffer | null> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks, received);
+    }
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * FICHIER: openai.provider.ts
+ *
+ * DESCRIPTION:
+ * Fournisseur compatible OpenAI: appelle `<baseUrl>/chat/completions`.
+ * Permet d'utiliser l'API OpenAI ou un serveur de modèles local exposant
+ * la même API (Ollama, llama.cpp, vLLM, LM Studio...).
+ *
+ * AUTHENTIFICATION:
+ * - En-tête `Authorization: Bearer <clé>` seulement si une clé est configurée
+ *
+ * IMAGES:
+ * - Téléchargées puis jointes au message en data URL (image_url), format
+ *   accepté aussi par les serveurs locaux qui ne téléchargent pas les URLs
+ */
+
+// Import du contrat des fournisseurs
+import {
+  LlmCompletion,
+  LlmProvider,
+  LlmProviderError,
+  LlmRequest,
+  fetchImage,
+  postJson,
+} from './llm-provider';
+
+/**
+ * Paramètres du fournisseur compatible OpenAI (`ai.openai` + timeout).
+ */
+export interface OpenAiProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+  imageCloudName?: string; // Cloud Cloudinary des images jointes (photos des items)
+}
+
+/**
+ * Réponse de /chat/completions (seuls les champs utilisés sont typés).
+ */
+type ChatCompletionResponse = {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+};
+
+/**
+ * FOURNISSEUR: OpenAiCompatibleLlmProvider
+ */
+export class OpenAiCompatibleLlmProvider implements LlmProvider {
+  readonly name = 'openai';
+
+  constructor(private readonly options: OpenAiProviderOptions) {}
+
+  get defaultModel(): string {
+    return this.options.model;
+  }
+
+  /**
+   * Un serveur local ne demande pas de clé: seule l'URL est requise.
+   */
+  isConfigured(): boolean {
+    return !!this.options.baseUrl;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const { baseUrl, apiKey, timeoutMs, imageCloudName } = this.options;
+
+    const images = await Promise.all(
+      (request.images ?? []).map((imageUrl) =>
+        fetchImage(imageUrl, {
+          provider: 'OpenAI',
+          timeoutMs,
+          cloudName: imageCloudName,
+        }),
+      ),
+    );
+
+    const data = await postJson<ChatCompletionResponse>(
+      `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      {
+        model: request.model,
+        messages: [
+          {
+            role: 'user',
+            content: images.length
+              ? [
+                  { type: 'text', text: request.prompt },
+                  ...images.map((image) => ({
+                    type: 'image_url',
+                    image_url: {
+                      url: `data:${image.mimeType};base64,${image.data}`,
+                    },
+                  })),
+                ]
+              : request.prompt,
+          },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+      },
+      {
+        provider: 'OpenAI',
+        timeoutMs,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      },
+    );
+
+    const text = data?.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new LlmProviderError(
+        'Réponse OpenAI invalide: structure de réponse inattendue',
+      );
+    }
+
+    return {
+      text,
+      model: data.model || request.model,
+      usage: data.usage && {
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -11,6 +11,8 @@
  * - AuthService: Logique métier de l'authentification
  * - JwtAccessStrategy: Stratégie pour valider les access tokens
  * - JwtRefreshStrategy: Stratégie pour valider les refresh tokens
+ * - SocketAuthService: Authentification des sockets (même access token que HTTP)
+ * - BansService: Application des bannissements (connexion, refresh, routes, sockets)
  *
  * CONFIGURATION:
  * - JwtModule: Configuré avec les secrets et options depuis les variables d'environnement
@@ -31,6 +33,8 @@ import { JwtRefreshStrategy } from './strategies/jwt-refresh.strategy';
 import { AuthAdminController } from './auth-admin.controller';
 import { AuthAdminService } from './auth-admin.service';
 import { AdminJwtStrategy } from './strategies/admin-jwt.strategy';
+import { SocketAuthService } from './socket-auth.service';
+import { BansService } from './bans.service';
 
 /**
  * MODULE: AuthModule
@@ -76,6 +80,8 @@ import { AdminJwtStrategy } from './strategies/admin-jwt.strategy';
     JwtRefreshStrategy, // Stratégie pour valider les refresh tokens
     AuthAdminService, // Service d'authentification admin
     AdminJwtStrategy, // Stratégie JWT pour les admins
+    SocketAuthService, // Authentification des connexions WebSocket
+    BansService, // Vérification des bannissements
   ],
 
   // ============================================
@@ -84,6 +90,8 @@ import { AdminJwtStrategy } from './strategies/admin-jwt.strategy';
   exports: [
     AuthService, // Exporté pour que d'autres modules puissent l'utiliser
     JwtAccessStrategy, // Exporté pour que les guards puissent l'utiliser
+    SocketAuthService, // Exporté pour les gateways WebSocket (échanges, communauté)
+    BansService, // Exporté pour l'administration (bannissements)
   ],
 })
 export class AuthModule {}
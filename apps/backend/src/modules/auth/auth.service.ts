@@ -48,6 +48,9 @@ import { ConfigService } from '@nestjs/config';
 // Import du service Prisma pour accéder à la base de données
 import { PrismaService } from '../../common/prisma/prisma.service';
 
+// Import du service de bannissements (compte suspendu → connexion/refresh refusés)
+import { BansService } from './bans.service';
+
 // Import de bcrypt pour hasher les mots de passe
 import * as bcrypt from 'bcrypt';
 
@@ -85,11 +88,16 @@ export class AuthService {
    *    ↳ Permet de récupérer dynamiquement les paramètres déclarés dans les
    *      fichiers de config (`security.bcryptSaltRounds`, secrets JWT, TTL...).
    *      Cela évite de hardcoder les valeurs et simplifie les déploiements multi-envs.
+   *
+   * - `BansService bansService`
+   *    ↳ Refuse la connexion et le rafraîchissement des comptes suspendus
+   *      (403 `ACCOUNT_SUSPENDED` avec la raison et la date de fin éventuelle).
    */
   constructor(
     private prisma: PrismaService,
     private jwtService: JwtService,
     private configService: ConfigService,
+    private bansService: BansService,
   ) {}
 
   // ============================================
@@ -319,6 +327,12 @@ export class AuthService {
       throw new UnauthorizedException('Email ou mot de passe incorrect');
     }
 
+    // ============================================
+    // VÉRIFICATION DU BANNISSEMENT
+    // ============================================
+    // Après le mot de passe: la suspension n'est révélée qu'au titulaire du compte
+    await this.bansService.assertNotBanned(user.id);
+
     // ============================================
     // GÉNÉRATION DES NOUVEAUX TOKENS
     // ============================================
@@ -446,6 +460,12 @@ export class AuthService {
       throw new UnauthorizedException('Refresh token invalide');
     }
 
+    // ============================================
+    // VÉRIFICATION DU BANNISSEMENT
+    // ============================================
+    // Un compte suspendu ne peut plus obtenir de nouveaux tokens
+    await this.bansService.assertNotBanned(tokenRecord.user.id);
+
     // ============================================
     // GÉNÉRATION DES NOUVEAUX TOKENS
     // ============================================
@@ -0,0 +1,108 @@
+/**
+ * FICHIER: bans.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service centralise l'application des bannissements (table `bans`).
+ * Les bannissements sont créés par l'admin (AdminService.banUser) et vérifiés ici
+ * à chaque point d'entrée authentifié.
+ *
+ * POINTS DE CONTRÔLE:
+ * - AuthService.login: connexion refusée
+ * - AuthService.refresh: rafraîchissement refusé
+ * - JwtAccessStrategy.validate: toutes les routes protégées par JwtAccessGuard
+ * - SocketAuthService: handshake WebSocket (via JwtAccessStrategy)
+ *
+ * EXPIRATION:
+ * - `expiresAt = null` → bannissement définitif
+ * - `expiresAt` dépassé → le bannissement est levé automatiquement (ligne supprimée
+ *   lors de la prochaine vérification)
+ */
+
+// Import des classes NestJS
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { Ban } from '@prisma/client';
+
+// Import du service Prisma
+import { PrismaService } from '../../common/prisma/prisma.service';
+
+/**
+ * Code d'erreur renvoyé dans le corps des réponses 403 "compte suspendu".
+ */
+export const ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED';
+
+/**
+ * EXCEPTION: AccountSuspendedException
+ *
+ * 403 distinct d'un simple refus d'accès: le frontend peut reconnaître le `code`
+ * et afficher la raison et la date de fin de suspension.
+ */
+export class AccountSuspendedException extends ForbiddenException {
+  constructor(ban: Pick<Ban, 'reason' | 'expiresAt'>) {
+    const until = ban.expiresAt
+      ? ` jusqu'au ${ban.expiresAt.toLocaleDateString('fr-FR')}`
+      : '';
+    const reason = ban.reason ? ` : ${ban.reason}` : '';
+
+    super({
+      statusCode: 403,
+      error: 'Forbidden',
+      code: ACCOUNT_SUSPENDED,
+      message: `Votre compte est suspendu${until}${reason}`,
+      reason: ban.reason ?? null,
+      expiresAt: ban.expiresAt ? ban.expiresAt.toISOString() : null,
+    });
+  }
+}
+
+/**
+ * SERVICE: BansService
+ *
+ * Vérifie si un utilisateur est actuellement banni.
+ */
+@Injectable()
+export class BansService {
+  constructor(private prisma: PrismaService) {}
+
+  // ============================================
+  // MÉTHODE: findActiveBan
+  // ============================================
+
+  /**
+   * Retourne le bannissement actif d'un utilisateur, ou null.
+   * Un bannissement expiré est supprimé (levée automatique).
+   *
+   * @param userId - ID de l'utilisateur
+   */
+  async findActiveBan(userId: string): Promise<Ban | null> {
+    const ban = await this.prisma.ban.findUnique({ where: { userId } });
+
+    if (!ban) {
+      return null;
+    }
+
+    if (ban.expiresAt && ban.expiresAt <= new Date()) {
+      // Suppression conditionnelle: un nouveau bannissement entre-temps est conservé
+      await this.prisma.ban.deleteMany({
+        where: { id: ban.id, expiresAt: { lte: new Date() } },
+      });
+      return null;
+    }
+
+    return ban;
+  }
+
+  // ============================================
+  // MÉTHODE: assertNotBanned
+  // ============================================
+
+  /**
+   * @throws AccountSuspendedException si l'utilisateur est banni
+   */
+  async assertNotBanned(userId: string): Promise<void> {
+    const ban = await this.findActiveBan(userId);
+
+    if (ban) {
+      throw new AccountSuspendedException(ban);
+    }
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * FICHIER: socket-auth.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service authentifie les connexions WebSocket (Socket.io) avec le même
+ * access token JWT que les routes HTTP protégées par JwtAccessGuard.
+ *
+ * FONCTIONNEMENT:
+ * 1. Extrait le token du handshake (`auth.token`, header Authorization ou query `token`)
+ * 2. Vérifie la signature et l'expiration avec le secret des access tokens
+ * 3. Réutilise `JwtAccessStrategy.validate` (même logique que les routes HTTP)
+ * 4. Attache l'utilisateur au socket (`client.data.user`)
+ * 5. Programme la déconnexion du socket à l'expiration du token
+ * 6. Référence le socket par utilisateur (déconnexion immédiate en cas de bannissement)
+ *
+ * ERREURS:
+ * - Au handshake: la connexion est refusée, le client reçoit `connect_error`
+ *   avec `err.data = { code, message }`
+ * - En cours de session (token expiré, compte suspendu): le client reçoit l'événement
+ *   `auth:error` ({ code, message }) puis est déconnecté
+ *
+ * UTILISATION:
+ * - Dans `afterInit` d'un gateway: `server.use(this.socketAuth.middleware())`
+ * - Dans les handlers: `this.socketAuth.requireUser(client)`
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, TokenExpiredError } from '@nestjs/jwt';
+
+// Import de Socket.io
+import { Socket } from 'socket.io';
+
+// Import de la stratégie JWT (validation de l'utilisateur)
+import {
+  JwtAccessPayload,
+  JwtAccessStrategy,
+} from './strategies/jwt-access.strategy';
+import { AccountSuspendedException } from './bans.service';
+
+/**
+ * Nom de l'événement émis vers le client avant une déconnexion pour cause d'authentification.
+ */
+export const SOCKET_AUTH_ERROR_EVENT = 'auth:error';
+
+/**
+ * Codes d'erreur d'authentification WebSocket (partagés avec le frontend).
+ */
+export enum SocketAuthErrorCode {
+  TOKEN_MISSING = 'TOKEN_MISSING',
+  TOKEN_INVALID = 'TOKEN_INVALID',
+  TOKEN_EXPIRED = 'TOKEN_EXPIRED',
+  USER_NOT_FOUND = 'USER_NOT_FOUND',
+  ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED',
+}
+
+/**
+ * Contenu de l'erreur envoyée au client (`err.data` ou événement `auth:error`).
+ */
+export interface SocketAuthErrorPayload {
+  code: SocketAuthErrorCode;
+  message: string;
+}
+
+/**
+ * Utilisateur attaché au socket (même forme que `request.user` en HTTP).
+ */
+export type SocketUser = Awaited<ReturnType<JwtAccessStrategy['validate']>>;
+
+/**
+ * ERREUR: SocketAuthError
+ *
+ * Socket.io transmet la propriété `data` d'une erreur de middleware au client
+ * (disponible dans `connect_error`).
+ */
+export class SocketAuthError extends Error {
+  readonly data: SocketAuthErrorPayload;
+
+  constructor(code: SocketAuthErrorCode, message: string) {
+    super(message);
+    this.name = 'SocketAuthError';
+    this.data = { code, message };
+  }
+}
+
+/**
+ * SERVICE: SocketAuthService
+ *
+ * Authentifie les sockets et expose l'utilisateur connecté aux gateways.
+ */
+@Injectable()
+export class SocketAuthService {
+  private readonly logger = new Logger(SocketAuthService.name);
+
+  /**
+   * Sockets authentifiés par utilisateur (tous gateways confondus).
+   * Le service est un singleton partagé par les gateways qui importent AuthModule.
+   */
+  private readonly userSockets = new Map<string, Set<Socket>>(); // userId -> sockets
+
+  constructor(
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private jwtAccessStrategy: JwtAccessStrategy,
+  ) {}
+
+  // ============================================
+  // MÉTHODE: middleware
+  // ============================================
+
+  /**
+   * Middleware Socket.io à enregistrer dans `afterInit` d'un gateway.
+   * Refuse la connexion (handshake) si le token est absent, invalide ou expiré.
+   */
+  middleware() {
+    return async (socket: Socket, next: (err?: Error) => void) => {
+      try {
+        await this.authenticate(socket);
+        next();
+      } catch (error) {
+        next(
+          error instanceof SocketAuthError
+            ? error
+            : new SocketAuthError(
+                SocketAuthErrorCode.TOKEN_INVALID,
+                'Authentification impossible',
+              ),
+        );
+      }
+    };
+  }
+
+  // ============================================
+  // MÉTHODE: authenticate
+  // ============================================
+
+  /**
+   * Valide le token du handshake et attache l'utilisateur au socket.
+   *
+   * @param client - Socket en cours de connexion
+   * @returns L'utilisateur authentifié
+   * @throws SocketAuthError si l'authentification échoue
+   */
+  async authenticate(client: Socket): Promise<SocketUser> {
+    const token = this.extractToken(client);
+
+    if (!token) {
+      throw new SocketAuthError(
+        SocketAuthErrorCode.TOKEN_MISSING,
+        "Token d'accès manquant",
+      );
+    }
+
+    // Vérifier la signature et l'expiration (même secret que JwtAccessStrategy)
+    let payload: JwtAccessPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtAccessPayload>(token, {
+        secret: this.configService.get<string>('security.jwtAccessSecret'),
+      });
+    } catch (error) {
+      if (error instanceof TokenExpiredError) {
+        throw new SocketAuthError(
+          SocketAuthErrorCode.TOKEN_EXPIRED,
+          'Session expirée, veuillez vous reconnecter',
+        );
+      }
+      throw new SocketAuthError(
+        SocketAuthErrorCode.TOKEN_INVALID,
+        "Token d'accès invalide",
+      );
+    }
+
+    // Même validation que les routes HTTP (utilisateur existant et non banni)
+    let user: SocketUser;
+    try {
+      user = await this.jwtAccessStrategy.validate(payload);
+    } catch (error: any) {
+      if (error instanceof AccountSuspendedException) {
+        throw new SocketAuthError(
+          SocketAuthErrorCode.ACCOUNT_SUSPENDED,
+          error.message,
+        );
+      }
+      throw new SocketAuthError(
+        SocketAuthErrorCode.USER_NOT_FOUND,
+        error.message || 'Utilisateur non trouvé',
+      );
+    }
+
+    client.data.user = user;
+    this.track(client, user.id);
+    this.scheduleExpiry(client, payload.exp);
+
+    return user;
+  }
+
+  // ============================================
+  // MÉTHODE: requireUser
+  // ============================================
+
+  /**
+   * Retourne l'utilisateur attaché au socket.
+   * Si le socket n'est pas authentifié (cas anormal), il est rejeté et déconnecté.
+   *
+   * @returns L'utilisateur, ou null si le socket a été rejeté
+   */
+  requireUser(client: Socket): SocketUser | null {
+    const user = client.data?.user as SocketUser | undefined;
+
+    if (!user) {
+      this.reject(
+        client,
+        new SocketAuthError(
+          SocketAuthErrorCode.TOKEN_MISSING,
+          'Connexion non authentifiée',
+        ),
+      );
+      return null;
+    }
+
+    return user;
+  }
+
+  // ============================================
+  // MÉTHODE: reject
+  // ============================================
+
+  /**
+   * Notifie le client (`auth:error`) puis ferme la connexion.
+   */
+  reject(client: Socket, error: SocketAuthError): void {
+    this.logger.warn(`Socket ${client.id} rejeté: ${error.data.code}`);
+    client.emit(SOCKET_AUTH_ERROR_EVENT, error.data);
+    client.disconnect(true);
+  }
+
+  // ============================================
+  // MÉTHODE: disconnectUser
+  // ============================================
+
+  /**
+   * Déconnecte tous les sockets d'un utilisateur (ex: bannissement par un admin).
+   *
+   * @returns Nombre de sockets déconnectés
+   */
+  disconnectUser(userId: string, error: SocketAuthError): number {
+    const sockets = Array.from(this.userSockets.get(userId) ?? []);
+    sockets.forEach((socket) => this.reject(socket, error));
+    return sockets.length;
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Référence le socket de l'utilisateur jusqu'à sa déconnexion.
+   */
+  private track(client: Socket, userId: string): void {
+    if (!this.userSockets.has(userId)) {
+      this.userSockets.set(userId, new Set());
+    }
+    this.userSockets.get(userId)!.add(client);
+
+    client.once('disconnect', () => {
+      const sockets = this.userSockets.get(userId);
+      sockets?.delete(client);
+      if (sockets?.size === 0) {
+        this.userSockets.delete(userId);
+      }
+    });
+  }
+
+  /**
+   * Cherche le token dans l'ordre: `auth.token` (socket.io-client),
+   * header `Authorization: Bearer <token>`, puis query `?token=`.
+   */
+  private extractToken(client: Socket): string | null {
+    const { auth, headers, query } = client.handshake;
+
+    if (typeof auth?.token === 'string' && auth.token) {
+      return auth.token.replace(/^Bearer\s+/i, '');
+    }
+
+    const authorization = headers?.authorization;
+    if (
+      typeof authorization === 'string' &&
+      /^Bearer\s+/i.test(authorization)
+    ) {
+      return authorization.replace(/^Bearer\s+/i, '');
+    }
+
+    if (typeof query?.token === 'string' && query.token) {
+      return query.token;
+    }
+
+    return null;
+  }
+
+  /**
+   * Déconnecte le socket à l'expiration du token (le client doit se reconnecter
+   * avec un token rafraîchi).
+   */
+  private scheduleExpiry(client: Socket, exp?: number): void {
+    if (!exp) return;
+
+    const delay = Math.max(exp * 1000 - Date.now(), 0);
+    const timer = setTimeout(
+      () =>
+        this.reject(
+          client,
+          new SocketAuthError(
+            SocketAuthErrorCode.TOKEN_EXPIRED,
+            'Session expirée, veuillez vous reconnecter',
+          ),
+        ),
+      delay,
+    );
+
+    client.once('disconnect', () => clearTimeout(timer));
+  }
+}
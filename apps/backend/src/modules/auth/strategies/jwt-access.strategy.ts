@@ -11,6 +11,7 @@
  * 3. Vérifie que le token n'est pas expiré
  * 4. Extrait le payload (données du token)
  * 5. Valide que l'utilisateur existe toujours dans la base de données
+ *    et qu'il n'est pas banni (BansService)
  * 6. Retourne l'utilisateur qui sera ajouté à request.user
  *
  * UTILISATION:
@@ -28,6 +29,7 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 // Import des services nécessaires
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../../common/prisma/prisma.service';
+import { BansService } from '../bans.service';
 
 /**
  * INTERFACE: JwtAccessPayload
@@ -71,6 +73,7 @@ export class JwtAccessStrategy extends PassportStrategy(
   constructor(
     private configService: ConfigService,
     private prisma: PrismaService,
+    private bansService: BansService,
   ) {
     super({
       // Extraire le token depuis le header Authorization
@@ -103,6 +106,7 @@ export class JwtAccessStrategy extends PassportStrategy(
    * @param payload - Le payload du token JWT (données décodées)
    * @returns Les informations de l'utilisateur (seront dans request.user)
    * @throws UnauthorizedException si l'utilisateur n'existe plus
+   * @throws AccountSuspendedException (403) si l'utilisateur est banni
    */
   async validate(payload: JwtAccessPayload) {
     // Chercher l'utilisateur dans la base de données avec l'ID du token
@@ -124,6 +128,9 @@ export class JwtAccessStrategy extends PassportStrategy(
       throw new UnauthorizedException('Utilisateur non trouvé');
     }
 
+    // Un utilisateur banni perd l'accès immédiatement, même avec un token encore valide
+    await this.bansService.assertNotBanned(user.id);
+
     // Retourner l'utilisateur (sera ajouté à request.user)
     return user;
   }
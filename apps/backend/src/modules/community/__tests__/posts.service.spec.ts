@@ -6,6 +6,7 @@ import {
 } from '@nestjs/common';
 import { PostsService } from '../posts.service';
 import { PrismaService } from '../../../common/prisma/prisma.service';
+import { NotificationsService } from '../../notifications/notifications.service';
 
 describe('PostsService', () => {
   let service: PostsService;
@@ -26,6 +27,10 @@ describe('PostsService', () => {
     },
   };
 
+  const mockNotificationsService = {
+    sendCommunityReplyNotification: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -34,6 +39,10 @@ describe('PostsService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: NotificationsService,
+          useValue: mockNotificationsService,
+        },
       ],
     }).compile();
 
@@ -206,6 +215,81 @@ describe('PostsService', () => {
         }),
       ).rejects.toThrow(BadRequestException);
     });
+
+    it('should notify the thread author of a new post', async () => {
+      mockPrismaService.thread.findUnique.mockResolvedValue({
+        id: 'thread1',
+        title: 'Réparer un vélo',
+        authorId: 'author1',
+      });
+      mockPrismaService.post.create.mockResolvedValue({
+        id: '3',
+        threadId: 'thread1',
+        authorId: 'user1',
+        content: 'Un conseil',
+        createdAt: new Date(),
+        author: { id: 'user1', displayName: 'User 1', avatarUrl: null },
+        _count: { replies: 0 },
+      });
+      mockPrismaService.thread.update.mockResolvedValue({});
+
+      await service.createPost('thread1', 'user1', { content: 'Un conseil' });
+
+      expect(
+        mockNotificationsService.sendCommunityReplyNotification,
+      ).toHaveBeenCalledWith('thread1', 'Réparer un vélo', 'author1', 'User 1');
+    });
+
+    it('should not notify the thread author of their own post', async () => {
+      mockPrismaService.thread.findUnique.mockResolvedValue({
+        id: 'thread1',
+        title: 'Réparer un vélo',
+        authorId: 'user1',
+      });
+      mockPrismaService.post.create.mockResolvedValue({
+        id: '4',
+        threadId: 'thread1',
+        authorId: 'user1',
+        content: 'Précision',
+        createdAt: new Date(),
+        author: { id: 'user1', displayName: 'User 1', avatarUrl: null },
+        _count: { replies: 0 },
+      });
+      mockPrismaService.thread.update.mockResolvedValue({});
+
+      await service.createPost('thread1', 'user1', { content: 'Précision' });
+
+      expect(
+        mockNotificationsService.sendCommunityReplyNotification,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should still create the post when the notification fails', async () => {
+      mockPrismaService.thread.findUnique.mockResolvedValue({
+        id: 'thread1',
+        title: 'Réparer un vélo',
+        authorId: 'author1',
+      });
+      mockPrismaService.post.create.mockResolvedValue({
+        id: '5',
+        threadId: 'thread1',
+        authorId: 'user1',
+        content: 'Un conseil',
+        createdAt: new Date(),
+        author: { id: 'user1', displayName: 'User 1', avatarUrl: null },
+        _count: { replies: 0 },
+      });
+      mockPrismaService.thread.update.mockResolvedValue({});
+      mockNotificationsService.sendCommunityReplyNotification.mockRejectedValueOnce(
+        new Error('SMTP indisponible'),
+      );
+
+      const result = await service.createPost('thread1', 'user1', {
+        content: 'Un conseil',
+      });
+
+      expect(result).toEqual(expect.objectContaining({ id: '5' }));
+    });
   });
 
   describe('updatePost', () => {
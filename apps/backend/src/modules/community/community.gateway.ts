@@ -5,12 +5,13 @@ import {
   ConnectedSocket,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   WebSocketServer,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
-import { UseGuards } from '@nestjs/common';
-import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
+import { Namespace, Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { SocketAuthService } from '../auth/socket-auth.service';
 
 @WebSocketGateway({
   cors: {
@@ -20,7 +21,7 @@ import { Logger } from '@nestjs/common';
   namespace: '/community',
 })
 export class CommunityGateway
-  implements OnGatewayConnection, OnGatewayDisconnect
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
 {
   @WebSocketServer()
   server: Server;
@@ -29,12 +30,26 @@ export class CommunityGateway
   private readonly connectedUsers = new Map<string, Set<string>>(); // userId -> Set<socketId>
   private readonly typingUsers = new Map<string, Set<string>>(); // threadId -> Set<userId>
 
+  constructor(
+    private prisma: PrismaService,
+    private socketAuth: SocketAuthService,
+  ) {}
+
+  // Le handshake doit porter un access token valide (l'utilisateur est lié au socket)
+  afterInit(namespace: Namespace) {
+    namespace.use(this.socketAuth.middleware());
+  }
+
   async handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return;
+
+    this.logger.log(`Client connected: ${client.id} (user ${user.id})`);
   }
 
   async handleDisconnect(client: Socket) {
     this.logger.log(`Client disconnected: ${client.id}`);
+    const userId: string | undefined = client.data?.user?.id;
 
     // Nettoyer les utilisateurs connectés
     for (const [userId, socketIds] of this.connectedUsers.entries()) {
@@ -44,19 +59,37 @@ export class CommunityGateway
       }
     }
 
-    // Nettoyer les utilisateurs en train de taper
-    for (const [threadId, userIds] of this.typingUsers.entries()) {
-      // On ne peut pas identifier l'utilisateur depuis le socket sans auth
-      // On laisse le timeout gérer le nettoyage
+    // Nettoyer les utilisateurs en train de taper (identifiés grâce au socket authentifié)
+    if (userId && !this.connectedUsers.has(userId)) {
+      for (const [threadId, userIds] of this.typingUsers.entries()) {
+        userIds.delete(userId);
+        if (userIds.size === 0) {
+          this.typingUsers.delete(threadId);
+        }
+      }
     }
   }
 
   @SubscribeMessage('join-thread')
   async handleJoinThread(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { threadId: string; userId: string },
+    @MessageBody() data: { threadId: string },
   ) {
-    const { threadId, userId } = data;
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return;
+
+    const { threadId } = data;
+    const userId = user.id;
+
+    // Vérifier que le thread existe avant d'abonner le socket
+    const thread = await this.prisma.thread.findUnique({
+      where: { id: threadId },
+      select: { id: true },
+    });
+    if (!thread) {
+      client.emit('error', { message: 'Thread non trouvé' });
+      return;
+    }
 
     // Rejoindre la room du thread
     await client.join(`thread:${threadId}`);
@@ -79,9 +112,13 @@ export class CommunityGateway
   @SubscribeMessage('leave-thread')
   async handleLeaveThread(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { threadId: string; userId: string },
+    @MessageBody() data: { threadId: string },
   ) {
-    const { threadId, userId } = data;
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return;
+
+    const { threadId } = data;
+    const userId = user.id;
 
     // Quitter la room du thread
     await client.leave(`thread:${threadId}`);
@@ -109,9 +146,12 @@ export class CommunityGateway
     @ConnectedSocket() client: Socket,
     @MessageBody() data: { threadId: string; post: any },
   ) {
-    const { threadId, post } = data;
+    const post = await this.findOwnPost(client, data);
+    if (!post) return;
 
-    // Diffuser le nouveau post à tous les utilisateurs du thread
+    const { threadId } = data;
+
+    // Diffuser le nouveau post (version de la base) à tous les utilisateurs du thread
     this.server.to(`thread:${threadId}`).emit('post:new', {
       threadId,
       post,
@@ -125,9 +165,12 @@ export class CommunityGateway
     @ConnectedSocket() client: Socket,
     @MessageBody() data: { threadId: string; post: any },
   ) {
-    const { threadId, post } = data;
+    const post = await this.findOwnPost(client, data);
+    if (!post) return;
+
+    const { threadId } = data;
 
-    // Diffuser la mise à jour du post
+    // Diffuser la mise à jour du post (version de la base)
     this.server.to(`thread:${threadId}`).emit('post:update', {
       threadId,
       post,
@@ -141,8 +184,21 @@ export class CommunityGateway
     @ConnectedSocket() client: Socket,
     @MessageBody() data: { threadId: string; postId: string },
   ) {
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return;
+
     const { threadId, postId } = data;
 
+    // Ne diffuser la suppression que si le post a réellement été supprimé
+    const stillExists = await this.prisma.post.findUnique({
+      where: { id: postId },
+      select: { id: true },
+    });
+    if (stillExists) {
+      client.emit('error', { message: "Ce post n'a pas été supprimé" });
+      return;
+    }
+
     // Diffuser la suppression du post
     this.server.to(`thread:${threadId}`).emit('post:delete', {
       threadId,
@@ -155,9 +211,14 @@ export class CommunityGateway
   @SubscribeMessage('typing:start')
   async handleTypingStart(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { threadId: string; userId: string; userName: string },
+    @MessageBody() data: { threadId: string },
   ) {
-    const { threadId, userId, userName } = data;
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return;
+
+    const { threadId } = data;
+    const userId = user.id;
+    const userName = user.displayName;
 
     // Ajouter l'utilisateur aux utilisateurs en train de taper
     if (!this.typingUsers.has(threadId)) {
@@ -174,16 +235,19 @@ export class CommunityGateway
 
     // Nettoyer après 3 secondes
     setTimeout(() => {
-      this.handleTypingStop(client, { threadId, userId });
+      this.handleTypingStop(client, { threadId });
     }, 3000);
   }
 
   @SubscribeMessage('typing:stop')
   async handleTypingStop(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { threadId: string; userId: string },
+    @MessageBody() data: { threadId: string },
   ) {
-    const { threadId, userId } = data;
+    const userId: string | undefined = client.data?.user?.id;
+    if (!userId) return;
+
+    const { threadId } = data;
 
     // Retirer l'utilisateur des utilisateurs en train de taper
     const typingUsers = this.typingUsers.get(threadId);
@@ -201,6 +265,34 @@ export class CommunityGateway
     });
   }
 
+  // Récupère le post depuis la base: il doit appartenir au thread et à l'utilisateur du socket
+  private async findOwnPost(
+    client: Socket,
+    data: { threadId: string; post: any },
+  ) {
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return null;
+
+    const post = await this.prisma.post.findFirst({
+      where: {
+        id: data.post?.id,
+        threadId: data.threadId,
+        authorId: user.id,
+      },
+      include: {
+        author: {
+          select: { id: true, displayName: true, avatarUrl: true },
+        },
+      },
+    });
+
+    if (!post) {
+      client.emit('error', { message: 'Post non trouvé ou non autorisé' });
+    }
+
+    return post;
+  }
+
   // Méthodes publiques pour les services
   broadcastNewPost(threadId: string, post: any) {
     this.server.to(`thread:${threadId}`).emit('post:new', {
@@ -229,4 +321,3 @@ export class CommunityGateway
     return Array.from(this.connectedUsers.keys());
   }
 }
-
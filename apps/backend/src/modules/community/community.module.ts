@@ -14,6 +14,8 @@
  *
  * DÉPENDANCES:
  * - PrismaModule: Accès à la base de données
+ * - AuthModule: Authentification des sockets (SocketAuthService)
+ * - NotificationsModule: Notification de l'auteur d'un thread à chaque réponse
  */
 
 // Import du décorateur Module
@@ -28,6 +30,8 @@ import { CommunityGateway } from './community.gateway';
 
 // Import des modules dépendants
 import { PrismaModule } from '../../common/prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 /**
  * MODULE: CommunityModule
@@ -36,7 +40,11 @@ import { PrismaModule } from '../../common/prisma/prisma.module';
  */
 @Module({
   // Modules importés nécessaires
-  imports: [PrismaModule], // Accès à la base de données
+  imports: [
+    PrismaModule, // Base de données
+    AuthModule, // Authentification des sockets
+    NotificationsModule, // Notification de l'auteur du thread
+  ],
 
   // Contrôleurs qui exposent les routes HTTP
   controllers: [ThreadsController, PostsController],
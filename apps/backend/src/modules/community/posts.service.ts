@@ -15,6 +15,7 @@
  * RÉPONSES:
  * - Un post peut répondre à un autre post via repliesTo
  * - Les réponses sont comptées et affichées
+ * - L'auteur du thread est notifié de chaque nouveau post (sauf le sien)
  */
 
 // Import des exceptions NestJS
@@ -28,6 +29,9 @@ import {
 // Import du service Prisma
 import { PrismaService } from '../../common/prisma/prisma.service';
 
+// Import du service de notifications
+import { NotificationsService } from '../notifications/notifications.service';
+
 // Import des DTOs
 import {
   CreatePostInput,
@@ -47,9 +51,12 @@ export class PostsService {
   /**
    * CONSTRUCTEUR
    *
-   * Injection du service Prisma
+   * Injection du service Prisma et du service de notifications
    */
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+  ) {}
 
   // ============================================
   // MÉTHODE: listPosts (Lister les posts)
@@ -166,6 +173,7 @@ export class PostsService {
    * PROCESSUS:
    * 1. Crée le post
    * 2. Met à jour la date de modification du thread (updatedAt)
+   * 3. Notifie l'auteur du thread (sauf s'il est l'auteur du post)
    *
    * @param threadId - ID du thread
    * @param authorId - ID de l'auteur du post
@@ -235,6 +243,20 @@ export class PostsService {
       data: { updatedAt: new Date() },
     });
 
+    // Notifier l'auteur du thread (sans bloquer la publication en cas d'échec)
+    if (thread.authorId !== authorId) {
+      try {
+        await this.notifications.sendCommunityReplyNotification(
+          threadId,
+          thread.title,
+          thread.authorId,
+          post.author.displayName,
+        );
+      } catch (e) {
+        // Stratégie: on loggue côté NotificationsService; le post reste publié
+      }
+    }
+
     return this.mapToResponse(post);
   }
 
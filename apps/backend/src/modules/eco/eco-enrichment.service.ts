@@ -0,0 +1,195 @@
+/**
+ * FICHIER: eco-enrichment.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service enrichit les contenus éco-éducatifs avec l'IA: résumés, tags
+ * et KPIs pour les articles/vidéos éco.
+ *
+ * MODÈLE:
+ * - Appels via LlmService (module ai), fonctionnalité `ecoEnrichment`
+ * - Modèle et température réglables dans ai.features.ecoEnrichment
+ * - Prompt versionné du registre (PromptTemplatesService, prompt ecoEnrichment)
+ *
+ * FONCTIONNALITÉS:
+ * - Enrichissement automatique de contenus éco avec résumé, tags et KPIs
+ * - Extraction de texte depuis HTML
+ * - Validation des réponses IA avec Zod (une demande de correction, puis échec)
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+
+// Import de Zod pour la validation
+import { z } from 'zod';
+
+// Import des services
+import { LlmBudgetExceededError, LlmService } from '../ai/llm.service';
+import { AiCallEntity } from '../ai/ai-usage.service';
+import {
+  PromptTemplatesService,
+  RenderedPrompt,
+} from '../ai/prompt-templates.service';
+
+// Import des DTOs
+import { EnrichEcoContentResponse } from './dtos/eco-content.dto';
+
+/**
+ * Schéma Zod de la réponse d'enrichissement.
+ * Un résumé trop long ou plus de 8 tags rendent la réponse invalide.
+ */
+const EcoEnrichmentSchema = z.object({
+  summary: z.string().trim().min(1).max(240), // Résumé (impact écologique)
+  tags: z.array(z.string().trim().min(1).max(40)).max(8), // Tags en français
+  kpis: z
+    .record(z.union([z.string(), z.number()]))
+    .nullable()
+    .optional(), // KPIs chiffrés, si disponibles
+});
+
+/**
+ * SERVICE: EcoEnrichmentService
+ *
+ * Service pour l'enrichissement de contenus éco avec l'IA.
+ */
+@Injectable()
+export class EcoEnrichmentService {
+  /**
+   * Logger pour enregistrer les événements
+   */
+  private readonly logger = new Logger(EcoEnrichmentService.name);
+
+  constructor(
+    private readonly llm: LlmService,
+    private readonly prompts: PromptTemplatesService,
+  ) {}
+
+  // ============================================
+  // MÉTHODE: enrichEcoContent
+  // ============================================
+
+  /**
+   * Enrichit un contenu éco-éducatif avec l'IA.
+   *
+   * PROCESSUS:
+   * 1. Construit un prompt avec le titre, l'URL et le contenu HTML (si disponible)
+   * 2. Envoie le prompt au modèle (fonctionnalité ecoEnrichment)
+   * 3. Valide la réponse JSON (EcoEnrichmentSchema, une demande de correction)
+   * 4. Retourne le résumé, les tags et les KPIs
+   *
+   * @param title - Titre du contenu
+   * @param url - URL du contenu
+   * @param html - Contenu HTML (optionnel, extrait le texte si fourni)
+   * @param entity - Entité concernée (journal des appels)
+   * @returns Résultat de l'enrichissement (summary, tags, kpis)
+   * @throws Error si le fournisseur IA n'est pas configuré, si le budget IA est
+   * atteint ou si l'enrichissement échoue
+   */
+  async enrichEcoContent(
+    {
+      title,
+      url,
+      html,
+    }: {
+      title: string;
+      url: string;
+      html?: string;
+    },
+    entity?: AiCallEntity,
+  ): Promise<EnrichEcoContentResponse> {
+    if (!this.llm.isEnabled()) {
+      throw new Error('Fournisseur IA non configuré');
+    }
+
+    const prompt = await this.buildEnrichmentPrompt(title, url, html, entity);
+
+    try {
+      const { data } = await this.llm.completeStructured(
+        'ecoEnrichment',
+        prompt,
+        EcoEnrichmentSchema,
+        entity,
+      );
+
+      return {
+        summary: data.summary,
+        tags: data.tags,
+        kpis: data.kpis || undefined,
+      };
+    } catch (error) {
+      // Budget atteint: message explicite pour l'admin qui a lancé l'enrichissement
+      if (error instanceof LlmBudgetExceededError) {
+        throw new Error(error.message);
+      }
+
+      this.logger.error("Erreur lors de l'enrichissement IA:", error);
+      throw new Error("Échec de l'enrichissement par IA");
+    }
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: buildEnrichmentPrompt
+  // ============================================
+
+  /**
+   * Construit le prompt pour l'enrichissement de contenu éco
+   * (version déployée du registre).
+   *
+   * Le prompt demande à l'IA de:
+   * - Générer un résumé concis (max 240 caractères) sur l'impact écologique
+   * - Générer jusqu'à 8 tags pertinents en français
+   * - Extraire des KPIs si des données chiffrées sont disponibles
+   *
+   * @param title - Titre du contenu
+   * @param url - URL du contenu
+   * @param html - Contenu HTML (optionnel)
+   * @param entity - Entité concernée (répartition A/B)
+   * @returns Prompt et version utilisée
+   */
+  private buildEnrichmentPrompt(
+    title: string,
+    url: string,
+    html?: string,
+    entity?: AiCallEntity,
+  ): Promise<RenderedPrompt> {
+    const content = html ? this.extractTextFromHtml(html) : '';
+
+    return this.prompts.render(
+      'ecoEnrichment',
+      {
+        title,
+        url,
+        content: content ? `Contenu: ${content.substring(0, 2000)}...` : '',
+      },
+      entity,
+    );
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: extractTextFromHtml
+  // ============================================
+
+  /**
+   * Extrait le texte principal depuis du HTML.
+   *
+   * FONCTIONNEMENT:
+   * - Supprime les balises <script> et <style>
+   * - Supprime toutes les balises HTML
+   * - Normalise les espaces multiples
+   *
+   * NOTE:
+   * Extraction basique. Pour une extraction plus avancée,
+   * utiliser une bibliothèque dédiée comme cheerio ou jsdom.
+   *
+   * @param html - Contenu HTML
+   * @returns Texte extrait
+   */
+  private extractTextFromHtml(html: string): string {
+    // Extraction basique du texte (à améliorer avec une lib dédiée si nécessaire)
+    return html
+      .replace(/<script[^>]*>.*?<\/script>/gi, '')
+      .replace(/<style[^>]*>.*?<\/style>/gi, '')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
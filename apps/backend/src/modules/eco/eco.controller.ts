@@ -294,7 +294,7 @@ export class EcoController {
   @ApiOperation({
     summary: 'Enrichir un contenu éco avec IA (Admin)',
     description:
-      'Utilise Gemini pour enrichir un contenu avec résumé, tags et KPIs',
+      "Utilise l'IA pour enrichir un contenu avec résumé, tags et KPIs",
   })
   @ApiParam({
     name: 'id',
@@ -8,13 +8,11 @@
  * COMPOSANTS:
  * - EcoController: Routes HTTP pour les contenus éco
  * - EcoService: Logique métier pour les contenus éco
- * - GeminiService: Service IA pour l'enrichissement automatique de contenus
+ * - EcoEnrichmentService: Enrichissement automatique de contenus par l'IA
  *
  * DÉPENDANCES:
  * - PrismaModule: Accès à la base de données
- *
- * NOTE:
- * GeminiService est spécifique au module eco (différent de ai/gemini.service.ts).
+ * - AiModule: Accès au modèle de langage (LlmService)
  */
 
 // Import du décorateur Module
@@ -23,10 +21,11 @@ import { Module } from '@nestjs/common';
 // Import des composants du module
 import { EcoController } from './eco.controller';
 import { EcoService } from './eco.service';
-import { GeminiService } from './gemini.service';
+import { EcoEnrichmentService } from './eco-enrichment.service';
 
 // Import des modules dépendants
 import { PrismaModule } from '../../common/prisma/prisma.module';
+import { AiModule } from '../ai/ai.module';
 
 /**
  * MODULE: EcoModule
@@ -35,15 +34,18 @@ import { PrismaModule } from '../../common/prisma/prisma.module';
  */
 @Module({
   // Modules importés nécessaires
-  imports: [PrismaModule], // Accès à la base de données
+  imports: [
+    PrismaModule, // Accès à la base de données
+    AiModule, // Modèle de langage pour l'enrichissement
+  ],
 
   // Contrôleur qui expose les routes HTTP
   controllers: [EcoController],
 
   // Services fournis par ce module
-  providers: [EcoService, GeminiService],
+  providers: [EcoService, EcoEnrichmentService],
 
   // Services exportés pour être utilisés dans d'autres modules
-  exports: [EcoService, GeminiService],
+  exports: [EcoService, EcoEnrichmentService],
 })
 export class EcoModule {}
@@ -28,7 +28,7 @@ import {
 
 // Import des services
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { GeminiService } from './gemini.service';
+import { EcoEnrichmentService } from './eco-enrichment.service';
 
 // Import des DTOs
 import {
@@ -54,7 +54,7 @@ export class EcoService {
    */
   constructor(
     private prisma: PrismaService,
-    private geminiService: GeminiService,
+    private ecoEnrichmentService: EcoEnrichmentService,
   ) {}
 
   // ============================================
@@ -229,7 +229,7 @@ export class EcoService {
   }
 
   /**
-   * Enrichit un contenu éco avec Gemini
+   * Enrichit un contenu éco avec l'IA
    */
   async enrichEcoContent(id: string): Promise<EnrichEcoContentResponse> {
     const item = await this.prisma.ecoContent.findUnique({
@@ -241,11 +241,14 @@ export class EcoService {
     }
 
     try {
-      // Appeler Gemini pour enrichir le contenu
-      const enrichment = await this.geminiService.enrichEcoContent({
-        title: item.title,
-        url: item.url,
-      });
+      // Appeler l'IA pour enrichir le contenu
+      const enrichment = await this.ecoEnrichmentService.enrichEcoContent(
+        {
+          title: item.title,
+          url: item.url,
+        },
+        { type: 'EcoContent', id },
+      );
 
       // Mettre à jour le contenu avec les données enrichies
       await this.prisma.ecoContent.update({
@@ -0,0 +1,44 @@
+/**
+ * FICHIER: engagement.module.ts
+ *
+ * DESCRIPTION:
+ * Ce module NestJS regroupe l'enregistrement des engagements sur les objets
+ * (vues, favoris, propositions d'échange, débuts de discussion) et le calcul
+ * du score de popularité qui en découle.
+ *
+ * COMPOSANTS:
+ * - EngagementService: Enregistrement des signaux et recalcul de la popularité
+ *
+ * DÉPENDANCES:
+ * - PrismaModule: Accès à la base de données
+ *
+ * NOTE:
+ * EngagementService est exporté pour les modules qui produisent les signaux
+ * (Items, Favorites, Exchanges) et pour SchedulerModule, qui recalcule les scores.
+ */
+
+// Import du décorateur Module
+import { Module } from '@nestjs/common';
+
+// Import des composants du module
+import { EngagementService } from './engagement.service';
+
+// Import des modules dépendants
+import { PrismaModule } from '../../common/prisma/prisma.module';
+
+/**
+ * MODULE: EngagementModule
+ *
+ * Module pour les engagements et la popularité des objets.
+ */
+@Module({
+  // Modules importés nécessaires
+  imports: [PrismaModule], // Base de données
+
+  // Services fournis par ce module
+  providers: [EngagementService],
+
+  // Services exportés pour être utilisés dans d'autres modules
+  exports: [EngagementService],
+})
+export class EngagementModule {}
@@ -0,0 +1,311 @@
+/**
+ * FICHIER: engagement.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service enregistre les signaux d'intérêt pour les objets (engagements)
+ * et en déduit le score de popularité (`Item.popularityScore`), utilisé par
+ * le matching pour ordonner les candidats et noter la popularité.
+ *
+ * SIGNAUX ENREGISTRÉS (EngagementType):
+ * - VIEW: consultation de la fiche (une par visiteur, objet et jour UTC;
+ *   visiteur = utilisateur connecté, sinon session du navigateur)
+ * - FAVORITE: objet suivi (retiré si l'utilisateur ne le suit plus)
+ * - EXCHANGE_PROPOSAL: proposition d'échange pour obtenir l'objet
+ * - CHAT_START: premier message d'un participant dans la discussion d'un échange
+ *
+ * RÈGLES:
+ * - Le propriétaire de l'objet n'est jamais compté
+ * - Chaque signal a une clé de déduplication unique par objet (`dedupKey`)
+ * - L'enregistrement ne bloque jamais l'action d'origine: les erreurs sont logguées
+ *
+ * SCORE DE POPULARITÉ (recomputePopularity, tâche planifiée):
+ * - Somme des poids des engagements (ENGAGEMENT_WEIGHTS), chacun divisé par 2
+ *   tous les POPULARITY_HALF_LIFE_DAYS jours (décroissance exponentielle)
+ * - Seuls les engagements des ENGAGEMENT_RETENTION_DAYS derniers jours comptent;
+ *   les plus anciens sont supprimés (pruneEngagements)
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+import { EngagementType, Prisma } from '@prisma/client';
+
+// Import des services
+import { PrismaService } from '../../common/prisma/prisma.service';
+
+/**
+ * Poids de chaque signal dans le score de popularité (avant décroissance).
+ * Le matching plafonne la popularité à 100 points.
+ */
+export const ENGAGEMENT_WEIGHTS: Record<EngagementType, number> = {
+  VIEW: 1,
+  CHAT_START: 3,
+  FAVORITE: 5,
+  EXCHANGE_PROPOSAL: 8,
+};
+
+/**
+ * Demi-vie d'un engagement: son poids est divisé par 2 tous les 7 jours.
+ */
+export const POPULARITY_HALF_LIFE_DAYS = 7;
+
+/**
+ * Durée de conservation des engagements (au-delà, leur poids est négligeable).
+ */
+export const ENGAGEMENT_RETENTION_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format accepté pour l'identifiant de session envoyé par le navigateur (ex: UUID).
+ */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+/**
+ * Visiteur d'une fiche: utilisateur connecté ou session anonyme du navigateur.
+ */
+export interface EngagementViewer {
+  userId?: string | null;
+  sessionId?: string | null;
+}
+
+/**
+ * Engagement à enregistrer (avant le filtrage du propriétaire).
+ */
+interface EngagementInput {
+  itemId: string;
+  type: EngagementType;
+  dedupKey: string;
+  userId?: string | null;
+  sessionId?: string | null;
+}
+
+/**
+ * SERVICE: EngagementService
+ *
+ * Service pour les engagements et le score de popularité des objets.
+ */
+@Injectable()
+export class EngagementService {
+  /**
+   * Logger pour enregistrer les événements
+   */
+  private readonly logger = new Logger(EngagementService.name);
+
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection du service Prisma
+   */
+  constructor(private prisma: PrismaService) {}
+
+  // ============================================
+  // ENREGISTREMENT DES SIGNAUX
+  // ============================================
+
+  /**
+   * Enregistre la consultation d'une fiche (une fois par visiteur et par jour).
+   * Sans utilisateur ni session valide, la vue est ignorée (impossible à dédupliquer).
+   *
+   * @returns true si la vue a été comptée
+   */
+  async recordView(
+    itemId: string,
+    viewer: EngagementViewer,
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    const sessionId =
+      viewer.sessionId && SESSION_ID_PATTERN.test(viewer.sessionId)
+        ? viewer.sessionId
+        : null;
+    const viewerKey = viewer.userId
+      ? `user:${viewer.userId}`
+      : sessionId
+        ? `session:${sessionId}`
+        : null;
+    if (!viewerKey) return false;
+
+    const day = now.toISOString().slice(0, 10);
+    const count = await this.record([
+      {
+        itemId,
+        type: EngagementType.VIEW,
+        dedupKey: `view:${viewerKey}:${day}`,
+        userId: viewer.userId,
+        sessionId: viewer.userId ? null : sessionId,
+      },
+    ]);
+
+    return count > 0;
+  }
+
+  /**
+   * Enregistre l'ajout d'un objet aux favoris (une fois par utilisateur).
+   */
+  async recordFavorite(itemId: string, userId: string): Promise<void> {
+    await this.record([
+      {
+        itemId,
+        type: EngagementType.FAVORITE,
+        dedupKey: `favorite:${userId}`,
+        userId,
+      },
+    ]);
+  }
+
+  /**
+   * Retire le signal FAVORITE quand l'utilisateur ne suit plus l'objet.
+   */
+  async retractFavorite(itemId: string, userId: string): Promise<void> {
+    try {
+      await this.prisma.itemEngagement.deleteMany({
+        where: { itemId, dedupKey: `favorite:${userId}` },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Impossible de retirer le favori de l'objet ${itemId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Enregistre une proposition d'échange pour obtenir les objets demandés
+   * (un engagement par objet du lot).
+   */
+  async recordExchangeProposal(
+    itemIds: string[],
+    userId: string,
+    exchangeId: string,
+  ): Promise<void> {
+    await this.record(
+      itemIds.map((itemId) => ({
+        itemId,
+        type: EngagementType.EXCHANGE_PROPOSAL,
+        dedupKey: `exchange:${exchangeId}`,
+        userId,
+      })),
+    );
+  }
+
+  /**
+   * Enregistre le premier message d'un participant dans la discussion d'un échange,
+   * pour chaque objet de l'échange (celui dont il est propriétaire est ignoré).
+   */
+  async recordChatStart(
+    itemIds: string[],
+    userId: string,
+    exchangeId: string,
+  ): Promise<void> {
+    await this.record(
+      itemIds.map((itemId) => ({
+        itemId,
+        type: EngagementType.CHAT_START,
+        dedupKey: `chat:${exchangeId}:${userId}`,
+        userId,
+      })),
+    );
+  }
+
+  // ============================================
+  // SCORE DE POPULARITÉ
+  // ============================================
+
+  /**
+   * Recalcule le score de popularité de tous les objets à partir des
+   * engagements récents, avec décroissance exponentielle.
+   * Les objets sans engagement récent retombent à 0.
+   *
+   * @param now - Date de référence (injectable pour les tests)
+   * @returns Nombre d'objets dont le score a changé
+   */
+  async recomputePopularity(now: Date = new Date()): Promise<number> {
+    // Dates passées en secondes depuis l'epoch: les colonnes sont des
+    // TIMESTAMP sans fuseau, en UTC
+    const nowSeconds = now.getTime() / 1000;
+    const sinceSeconds =
+      nowSeconds - (ENGAGEMENT_RETENTION_DAYS * DAY_MS) / 1000;
+    const halfLifeSeconds = POPULARITY_HALF_LIFE_DAYS * 24 * 60 * 60;
+
+    const weight = Prisma.sql`CASE e."type"
+      WHEN 'VIEW' THEN ${ENGAGEMENT_WEIGHTS.VIEW}::float8
+      WHEN 'CHAT_START' THEN ${ENGAGEMENT_WEIGHTS.CHAT_START}::float8
+      WHEN 'FAVORITE' THEN ${ENGAGEMENT_WEIGHTS.FAVORITE}::float8
+      WHEN 'EXCHANGE_PROPOSAL' THEN ${ENGAGEMENT_WEIGHTS.EXCHANGE_PROPOSAL}::float8
+      ELSE 0 END`;
+
+    return this.prisma.$executeRaw`
+      WITH scores AS (
+        SELECT e."itemId",
+          ROUND(SUM(${weight} * POWER(0.5::float8,
+            (${nowSeconds}::float8 - EXTRACT(EPOCH FROM e."createdAt")::float8) / ${halfLifeSeconds}::float8
+          )))::int AS "score"
+        FROM "item_engagements" e
+        WHERE e."createdAt" > (to_timestamp(${sinceSeconds}::float8) AT TIME ZONE 'UTC')
+        GROUP BY e."itemId"
+      )
+      UPDATE "items" AS i
+      SET "popularityScore" = COALESCE(s."score", 0)
+      FROM "items" AS base
+      LEFT JOIN scores s ON s."itemId" = base."id"
+      WHERE i."id" = base."id"
+        AND i."popularityScore" IS DISTINCT FROM COALESCE(s."score", 0)`;
+  }
+
+  /**
+   * Supprime les engagements sortis de la fenêtre de calcul.
+   *
+   * @returns Nombre d'engagements supprimés
+   */
+  async pruneEngagements(now: Date = new Date()): Promise<number> {
+    const { count } = await this.prisma.itemEngagement.deleteMany({
+      where: {
+        createdAt: {
+          lt: new Date(now.getTime() - ENGAGEMENT_RETENTION_DAYS * DAY_MS),
+        },
+      },
+    });
+
+    return count;
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Enregistre des engagements en ignorant ceux du propriétaire de l'objet
+   * et les doublons (même objet + même `dedupKey`).
+   *
+   * @returns Nombre d'engagements enregistrés
+   */
+  private async record(engagements: EngagementInput[]): Promise<number> {
+    if (engagements.length === 0) return 0;
+
+    try {
+      const items = await this.prisma.item.findMany({
+        where: { id: { in: engagements.map((e) => e.itemId) } },
+        select: { id: true, ownerId: true },
+      });
+      const ownerByItem = new Map(items.map((item) => [item.id, item.ownerId]));
+
+      const data = engagements.filter(
+        (engagement) =>
+          ownerByItem.has(engagement.itemId) &&
+          (!engagement.userId ||
+            ownerByItem.get(engagement.itemId) !== engagement.userId),
+      );
+      if (data.length === 0) return 0;
+
+      const { count } = await this.prisma.itemEngagement.createMany({
+        data,
+        skipDuplicates: true,
+      });
+
+      return count;
+    } catch (error) {
+      this.logger.error(
+        `Impossible d'enregistrer l'engagement: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+}
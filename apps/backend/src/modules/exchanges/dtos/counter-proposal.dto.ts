@@ -0,0 +1,58 @@
+import {
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ArrayUnique,
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+} from 'class-validator';
+import { z } from 'zod';
+import { BundleItemIdsSchema, MAX_BUNDLE_ITEMS } from './create-exchange.dto';
+
+// Schéma Zod pour la validation
+// Contre-proposition: le lot complet est renvoyé (objets proposés par le
+// demandeur et objets demandés au répondant), pas un différentiel.
+// Chaque contre-proposition devient une nouvelle révision immuable.
+export const CounterProposalSchema = z.object({
+  offeredItemIds: BundleItemIdsSchema,
+  requestedItemIds: BundleItemIdsSchema,
+  note: z.string().max(500).optional(),
+});
+
+export type CounterProposalInput = z.infer<typeof CounterProposalSchema>;
+
+// DTO pour class-validator
+export class CounterProposalDto {
+  @IsArray()
+  @ArrayMinSize(1, {
+    message: 'Le lot doit contenir au moins un objet proposé',
+  })
+  @ArrayMaxSize(MAX_BUNDLE_ITEMS, {
+    message: `${MAX_BUNDLE_ITEMS} objets proposés maximum`,
+  })
+  @ArrayUnique({ message: 'Un même objet ne peut pas être proposé deux fois' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  offeredItemIds: string[];
+
+  @IsArray()
+  @ArrayMinSize(1, {
+    message: 'Le lot doit contenir au moins un objet demandé',
+  })
+  @ArrayMaxSize(MAX_BUNDLE_ITEMS, {
+    message: `${MAX_BUNDLE_ITEMS} objets demandés maximum`,
+  })
+  @ArrayUnique({ message: 'Un même objet ne peut pas être demandé deux fois' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  requestedItemIds: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, {
+    message: 'La note ne peut pas dépasser 500 caractères',
+  })
+  note?: string;
+}
@@ -1,24 +1,37 @@
 import {
   IsString,
   IsNotEmpty,
-  MinLength,
   MaxLength,
   IsOptional,
   IsUUID,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ArrayUnique,
 } from 'class-validator';
 import { z } from 'zod';
 
+/**
+ * Nombre maximum d'objets de chaque côté d'un lot d'échange
+ */
+export const MAX_BUNDLE_ITEMS = 10;
+
+// Schéma Zod d'un côté du lot (objets proposés ou demandés)
+export const BundleItemIdsSchema = z
+  .array(z.string().cuid("ID d'objet invalide"))
+  .min(1, 'Sélectionnez au moins un objet')
+  .max(MAX_BUNDLE_ITEMS, `${MAX_BUNDLE_ITEMS} objets maximum par côté`)
+  .refine((ids) => new Set(ids).size === ids.length, {
+    message: 'Un même objet ne peut pas apparaître deux fois',
+  });
+
 // Schéma Zod pour la validation
+// Les titres ne sont plus saisis librement: ils sont copiés depuis les items
+// au moment de la création (snapshot conservé pour l'historique).
 export const CreateExchangeSchema = z.object({
   responderId: z.string().cuid('ID du répondant invalide'),
-  requestedItemTitle: z
-    .string()
-    .min(2, "Le titre de l'objet demandé doit contenir au moins 2 caractères")
-    .max(100),
-  offeredItemTitle: z
-    .string()
-    .min(2, "Le titre de l'objet proposé doit contenir au moins 2 caractères")
-    .max(100),
+  requestedItemIds: BundleItemIdsSchema,
+  offeredItemIds: BundleItemIdsSchema,
   message: z.string().max(500).optional(),
   ownerId: z.string().uuid().optional(),
 });
@@ -31,25 +44,25 @@ export class CreateExchangeDto {
   @IsNotEmpty()
   responderId: string;
 
-  @IsString()
-  @IsNotEmpty()
-  @MinLength(2, {
-    message: "Le titre de l'objet demandé doit contenir au moins 2 caractères",
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Sélectionnez au moins un objet demandé' })
+  @ArrayMaxSize(MAX_BUNDLE_ITEMS, {
+    message: `${MAX_BUNDLE_ITEMS} objets demandés maximum`,
   })
-  @MaxLength(100, {
-    message: "Le titre de l'objet demandé ne peut pas dépasser 100 caractères",
-  })
-  requestedItemTitle: string;
+  @ArrayUnique({ message: 'Un même objet ne peut pas être demandé deux fois' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  requestedItemIds: string[];
 
-  @IsString()
-  @IsNotEmpty()
-  @MinLength(2, {
-    message: "Le titre de l'objet proposé doit contenir au moins 2 caractères",
-  })
-  @MaxLength(100, {
-    message: "Le titre de l'objet proposé ne peut pas dépasser 100 caractères",
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Sélectionnez au moins un objet proposé' })
+  @ArrayMaxSize(MAX_BUNDLE_ITEMS, {
+    message: `${MAX_BUNDLE_ITEMS} objets proposés maximum`,
   })
-  offeredItemTitle: string;
+  @ArrayUnique({ message: 'Un même objet ne peut pas être proposé deux fois' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  offeredItemIds: string[];
 
   @IsOptional()
   @IsString()
@@ -1,9 +1,12 @@
-import { IsEnum } from 'class-validator';
+import { IsEnum, IsInt, IsOptional, Min } from 'class-validator';
 import { z } from 'zod';
 
 // Schéma Zod pour la validation
 export const UpdateExchangeStatusSchema = z.object({
   status: z.enum(['PENDING', 'ACCEPTED', 'DECLINED', 'COMPLETED', 'CANCELLED']),
+  // Révision du lot sur laquelle porte la décision (ACCEPTED / DECLINED):
+  // refusée si une contre-proposition plus récente existe
+  version: z.number().int().min(1).optional(),
 });
 
 export type UpdateExchangeStatusInput = z.infer<
@@ -17,4 +20,9 @@ export class UpdateExchangeStatusDto {
       'Le statut doit être PENDING, ACCEPTED, DECLINED, COMPLETED ou CANCELLED',
   })
   status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'COMPLETED' | 'CANCELLED';
+
+  @IsOptional()
+  @IsInt({ message: 'La version doit être un entier' })
+  @Min(1, { message: 'La version doit être supérieure ou égale à 1' })
+  version?: number;
 }
@@ -0,0 +1,150 @@
+/**
+ * FICHIER: modules/exchanges/exchange-transitions.ts
+ *
+ * OBJECTIF:
+ * Décrire explicitement la machine à états d'un échange: quelles transitions
+ * de statut sont possibles, et pour quel rôle (demandeur / répondant).
+ *
+ * TABLE DES TRANSITIONS:
+ * - PENDING  → ACCEPTED   (répondant uniquement)
+ * - PENDING  → DECLINED   (répondant uniquement)
+ * - PENDING  → CANCELLED  (demandeur ou répondant)
+ * - ACCEPTED → COMPLETED  (demandeur ou répondant, confirmation des DEUX requise)
+ * - ACCEPTED → CANCELLED  (demandeur ou répondant)
+ * - DECLINED / COMPLETED / CANCELLED: statuts terminaux, plus aucune transition
+ *
+ * CONTRE-PROPOSITIONS:
+ * Pour une proposition PENDING, le « répondant » de la table est le destinataire
+ * du lot en cours: l'autre participant que l'auteur de la dernière révision
+ * (voir `getProposalRole`). Seule la dernière révision peut être acceptée.
+ *
+ * ERREURS:
+ * Toute transition invalide lève une `ConflictException` (409) avec un corps structuré
+ * (`code`, `from`, `to`, `role`, `allowed`) exploitable par le frontend.
+ */
+
+import { ConflictException } from '@nestjs/common';
+import { ExchangeStatus } from '@prisma/client';
+
+/**
+ * Rôle d'un participant dans un échange.
+ */
+export type ExchangeRole = 'requester' | 'responder';
+
+/**
+ * Codes d'erreur renvoyés dans le corps des réponses 409.
+ */
+export enum ExchangeTransitionError {
+  TERMINAL_STATUS = 'EXCHANGE_TERMINAL_STATUS',
+  INVALID_TRANSITION = 'EXCHANGE_INVALID_TRANSITION',
+  ROLE_NOT_ALLOWED = 'EXCHANGE_ROLE_NOT_ALLOWED',
+  ALREADY_CONFIRMED = 'EXCHANGE_ALREADY_CONFIRMED',
+  STALE_STATUS = 'EXCHANGE_STALE_STATUS',
+  STALE_REVISION = 'EXCHANGE_STALE_REVISION',
+}
+
+/**
+ * Table des transitions: statut courant → statut cible → rôles autorisés.
+ */
+export const EXCHANGE_TRANSITIONS: Record<
+  ExchangeStatus,
+  Partial<Record<ExchangeStatus, ExchangeRole[]>>
+> = {
+  [ExchangeStatus.PENDING]: {
+    [ExchangeStatus.ACCEPTED]: ['responder'],
+    [ExchangeStatus.DECLINED]: ['responder'],
+    [ExchangeStatus.CANCELLED]: ['requester', 'responder'],
+  },
+  [ExchangeStatus.ACCEPTED]: {
+    [ExchangeStatus.COMPLETED]: ['requester', 'responder'],
+    [ExchangeStatus.CANCELLED]: ['requester', 'responder'],
+  },
+  [ExchangeStatus.DECLINED]: {},
+  [ExchangeStatus.COMPLETED]: {},
+  [ExchangeStatus.CANCELLED]: {},
+};
+
+/**
+ * Liste des statuts cibles accessibles depuis `from` pour un rôle donné.
+ */
+export function getAllowedTransitions(
+  from: ExchangeStatus,
+  role: ExchangeRole,
+): ExchangeStatus[] {
+  const targets = EXCHANGE_TRANSITIONS[from] ?? {};
+  return (Object.keys(targets) as ExchangeStatus[]).filter((to) =>
+    targets[to].includes(role),
+  );
+}
+
+/**
+ * Rôle d'un participant vis-à-vis du lot en cours d'une proposition PENDING:
+ * l'auteur du lot (`proposedById`) peut seulement annuler, l'autre participant
+ * accepte ou refuse.
+ */
+export function getProposalRole(
+  proposedById: string,
+  userId: string,
+): ExchangeRole {
+  return proposedById === userId ? 'requester' : 'responder';
+}
+
+/**
+ * Construit une `ConflictException` au format commun des erreurs de transition.
+ */
+export function exchangeTransitionConflict(
+  code: ExchangeTransitionError,
+  message: string,
+  details: { from: ExchangeStatus; to: ExchangeStatus; role: ExchangeRole },
+): ConflictException {
+  return new ConflictException({
+    statusCode: 409,
+    error: 'Conflict',
+    code,
+    message,
+    from: details.from,
+    to: details.to,
+    role: details.role,
+    allowed: getAllowedTransitions(details.from, details.role),
+  });
+}
+
+/**
+ * Vérifie qu'une transition est autorisée pour ce rôle.
+ *
+ * @throws ConflictException (409) structurée si la transition est refusée
+ */
+export function assertExchangeTransition(
+  from: ExchangeStatus,
+  to: ExchangeStatus,
+  role: ExchangeRole,
+): void {
+  const targets = EXCHANGE_TRANSITIONS[from] ?? {};
+
+  if (Object.keys(targets).length === 0) {
+    throw exchangeTransitionConflict(
+      ExchangeTransitionError.TERMINAL_STATUS,
+      `L'échange est ${from} et ne peut plus être modifié`,
+      { from, to, role },
+    );
+  }
+
+  const allowedRoles = targets[to];
+  if (!allowedRoles) {
+    throw exchangeTransitionConflict(
+      ExchangeTransitionError.INVALID_TRANSITION,
+      `Transition ${from} → ${to} impossible`,
+      { from, to, role },
+    );
+  }
+
+  if (!allowedRoles.includes(role)) {
+    throw exchangeTransitionConflict(
+      ExchangeTransitionError.ROLE_NOT_ALLOWED,
+      role === 'requester'
+        ? `Seul le destinataire de la proposition peut passer l'échange à ${to}`
+        : `Le destinataire ne peut pas passer l'échange à ${to}`,
+      { from, to, role },
+    );
+  }
+}
@@ -11,6 +11,7 @@
  * - GET   /api/v1/exchanges/me         → lister les échanges du user courant
  * - GET   /api/v1/exchanges/:id        → afficher les détails d'un échange + messages
  * - PATCH /api/v1/exchanges/:id/status → mettre à jour le statut (accept, decline…)
+ * - POST  /api/v1/exchanges/:id/revisions → contre-proposer un lot modifié (nouvelle révision)
  * - POST  /api/v1/exchanges/:id/messages → (géré côté gateway ou extension future)
  *
  * SÉCURITÉ:
@@ -49,6 +50,7 @@ import { ExchangesService } from './exchanges.service';
 // Import des DTOs
 import { CreateExchangeDto } from './dtos/create-exchange.dto';
 import { UpdateExchangeStatusDto } from './dtos/update-exchange-status.dto';
+import { CounterProposalDto } from './dtos/counter-proposal.dto';
 import { PaginationDto } from '../../common/dtos/pagination.dto';
 
 // Import des guards et intercepteurs
@@ -79,7 +81,8 @@ export class ExchangesController {
    * POST /api/v1/exchanges
    *
    * Crée une nouvelle proposition d'échange. Le `requesterId` est injecté via `req.user.id`
-   * (payload du JWT). Le DTO contient l'identifiant du répondant et les informations textuelles.
+   * (payload du JWT). Le DTO contient l'identifiant du répondant et les IDs des deux lots
+   * (objets proposés / objets demandés); le service vérifie propriété et disponibilité.
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
@@ -132,12 +135,19 @@ export class ExchangesController {
   /**
    * PATCH /api/v1/exchanges/:id/status
    *
-   * Permet au requester ou au responder de modifier le statut (ACCEPTED, DECLINED, COMPLETED...).
-   * `UpdateExchangeStatusDto` contient uniquement la nouvelle valeur de statut.
+   * Fait évoluer le statut selon la table de transitions (rôle du participant inclus).
+   * `UpdateExchangeStatusDto` contient la nouvelle valeur de statut et, pour accepter
+   * ou refuser, la révision du lot concernée (seule la dernière est acceptable).
+   * COMPLETED enregistre la confirmation de l'appelant; l'échange n'est terminé
+   * qu'une fois les deux participants ayant confirmé.
    */
   @Patch(':id/status')
   @ApiOperation({ summary: 'Mettre à jour le statut d’un échange' })
   @ApiResponse({ status: 200, description: 'Statut mis à jour' })
+  @ApiResponse({
+    status: 409,
+    description: 'Transition refusée (code, from, to, role, allowed)',
+  })
   async updateExchangeStatus(
     @Request() req,
     @Param('id') id: string,
@@ -149,4 +159,33 @@ export class ExchangesController {
       updateExchangeStatusDto,
     );
   }
+
+  /**
+   * POST /api/v1/exchanges/:id/revisions
+   *
+   * Contre-proposition du destinataire du lot en cours (demandeur ou répondant):
+   * remplace le lot complet (objets proposés par le demandeur et objets demandés)
+   * d'une proposition en attente, avec une note optionnelle. Le lot est conservé
+   * comme nouvelle révision; l'autre participant doit ensuite l'accepter, le
+   * refuser ou contre-proposer à son tour.
+   */
+  @Post(':id/revisions')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Contre-proposer un lot modifié' })
+  @ApiResponse({ status: 201, description: 'Révision créée, lot remplacé' })
+  @ApiResponse({
+    status: 409,
+    description: 'Proposition plus modifiable ou objet indisponible',
+  })
+  async counterPropose(
+    @Request() req,
+    @Param('id') id: string,
+    @Body() counterProposalDto: CounterProposalDto,
+  ) {
+    return this.exchangesService.counterPropose(
+      id,
+      req.user.id,
+      counterProposalDto,
+    );
+  }
 }
@@ -18,6 +18,10 @@
  *
  * SÉCURITÉ:
  * - CORS configuré pour autoriser uniquement le frontend
+ * - Handshake authentifié par access token JWT (SocketAuthService): l'utilisateur
+ *   est lié au socket, l'`userId` envoyé par le client n'est plus jamais utilisé
+ * - Rejoindre la room d'un échange exige d'en être participant
+ * - Token absent/invalide/expiré → événement `auth:error` puis déconnexion
  * - Les messages sont validés avant d'être sauvegardés
  */
 
@@ -29,6 +33,7 @@ import {
   ConnectedSocket,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   WebSocketServer,
 } from '@nestjs/websockets';
 
@@ -36,11 +41,11 @@ import {
 import { Server, Socket } from 'socket.io';
 
 // Import des classes NestJS
-import { Logger, UseGuards } from '@nestjs/common';
+import { Logger } from '@nestjs/common';
 
-// Import du service
+// Import des services
 import { ExchangesService } from './exchanges.service';
-import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
+import { SocketAuthService } from '../auth/socket-auth.service';
 
 /**
  * GATEWAY: ExchangesGateway
@@ -58,7 +63,7 @@ import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
   },
 })
 export class ExchangesGateway
-  implements OnGatewayConnection, OnGatewayDisconnect
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
 {
   /**
    * SERVEUR WEBSOCKET
@@ -87,24 +92,43 @@ export class ExchangesGateway
   /**
    * CONSTRUCTEUR
    *
-   * Injection du service d'échanges
+   * Injection du service d'échanges et du service d'authentification des sockets
    */
-  constructor(private exchangesService: ExchangesService) {}
+  constructor(
+    private exchangesService: ExchangesService,
+    private socketAuth: SocketAuthService,
+  ) {}
 
   // ============================================
   // GESTION DES CONNEXIONS
   // ============================================
 
+  /**
+   * MÉTHODE: afterInit
+   *
+   * Enregistre le middleware d'authentification: un handshake sans access token
+   * valide est refusé avant même `handleConnection`.
+   *
+   * @param server - Le serveur Socket.io
+   */
+  afterInit(server: Server) {
+    server.use(this.socketAuth.middleware());
+  }
+
   /**
    * MÉTHODE: handleConnection
    *
-   * Appelée automatiquement quand un client se connecte au WebSocket.
+   * Appelée automatiquement quand un client (déjà authentifié) se connecte.
+   * Mappe l'utilisateur à son socket.
    *
    * @param client - Le socket du client qui se connecte
    */
   async handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
-    // L'authentification sera gérée via le token dans la query ou les headers
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return;
+
+    this.userSockets.set(user.id, client.id);
+    this.logger.log(`Client connected: ${client.id} (user ${user.id})`);
   }
 
   /**
@@ -135,21 +159,34 @@ export class ExchangesGateway
    *
    * Permet à un client de rejoindre la salle d'un échange spécifique.
    * Une fois dans la salle, le client recevra tous les messages de cet échange.
+   * Seuls les participants (requester/responder) peuvent rejoindre la salle.
    *
    * @param client - Le socket du client
-   * @param data - { exchangeId: ID de l'échange, userId: ID de l'utilisateur }
+   * @param data - { exchangeId: ID de l'échange }
    */
   @SubscribeMessage('join')
   async handleJoin(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { exchangeId: string; userId: string },
+    @MessageBody() data: { exchangeId: string },
   ) {
-    const { exchangeId, userId } = data;
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return;
+
+    const { exchangeId } = data;
+
+    try {
+      // Vérifier la participation avant d'abonner le socket
+      await this.exchangesService.assertParticipant(exchangeId, user.id);
+    } catch (error: any) {
+      client.emit('error', {
+        message: error.message || "Impossible de rejoindre l'échange",
+      });
+      return;
+    }
+
     // Rejoindre la salle spécifique à cet échange
     await client.join(`exchange:${exchangeId}`);
-    // Mapper l'utilisateur à son socket
-    this.userSockets.set(userId, client.id);
-    this.logger.log(`User ${userId} joined exchange ${exchangeId}`);
+    this.logger.log(`User ${user.id} joined exchange ${exchangeId}`);
   }
 
   /**
@@ -185,8 +222,10 @@ export class ExchangesGateway
    * 2. Sauvegarde le message dans la base de données via ExchangesService
    * 3. Diffuse le message à tous les participants de l'échange (via la room)
    *
+   * L'expéditeur est toujours l'utilisateur authentifié du socket.
+   *
    * @param client - Le socket du client qui envoie le message
-   * @param data - { exchangeId, content, images?, userId }
+   * @param data - { exchangeId, content, images? }
    */
   @SubscribeMessage('message:new')
   async handleMessage(
@@ -196,10 +235,13 @@ export class ExchangesGateway
       exchangeId: string;
       content: string;
       images?: string[];
-      userId: string;
     },
   ) {
-    const { exchangeId, content, images, userId } = data;
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return;
+
+    const { exchangeId, content, images } = data;
+    const userId = user.id;
 
     try {
       // ============================================
@@ -12,6 +12,11 @@
  *
  * DÉPENDANCES:
  * - NotificationsModule: Pour envoyer des notifications aux utilisateurs
+ * - AuthModule: Pour authentifier les sockets du chat (SocketAuthService)
+ * - FavoritesModule: Pour prévenir les utilisateurs qui suivent les objets échangés
+ * - EngagementModule: Les propositions et discussions comptent dans la popularité des objets
+ * - RatingsModule: Réputation des participants affichée avec les échanges
+ * - SavedSearchesModule: Alertes des recherches sauvegardées quand un objet est libéré
  */
 
 // Import du décorateur Module
@@ -24,6 +29,11 @@ import { ExchangesGateway } from './exchanges.gateway';
 
 // Import des modules dépendants
 import { NotificationsModule } from '../notifications/notifications.module';
+import { AuthModule } from '../auth/auth.module';
+import { FavoritesModule } from '../favorites/favorites.module';
+import { EngagementModule } from '../engagement/engagement.module';
+import { RatingsModule } from '../ratings/ratings.module';
+import { SavedSearchesModule } from '../saved-searches/saved-searches.module';
 
 /**
  * MODULE: ExchangesModule
@@ -32,7 +42,14 @@ import { NotificationsModule } from '../notifications/notifications.module';
  */
 @Module({
   // Modules importés nécessaires
-  imports: [NotificationsModule], // Pour envoyer des notifications
+  imports: [
+    NotificationsModule, // Notifications des participants
+    AuthModule, // Authentification des sockets
+    FavoritesModule, // Alertes des objets suivis
+    EngagementModule, // Popularité des objets
+    RatingsModule, // Réputation des participants
+    SavedSearchesModule, // Alertes des recherches sauvegardées
+  ],
 
   // Contrôleur qui expose les routes HTTP
   controllers: [ExchangesController],
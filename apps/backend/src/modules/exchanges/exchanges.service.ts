@@ -8,16 +8,37 @@
  *
  * RESPONSABILITÉS MAJEURES:
  * 1. Créer une proposition d'échange (avec validations métiers + notification)
- * 2. Mettre à jour le statut (accepter, refuser, compléter, annuler)
- * 3. Lister les échanges d'un utilisateur avec pagination
- * 4. Consulter un échange spécifique (avec les messages et participants)
- * 5. Publier des messages de chat (en s'assurant que l'auteur est bien participant)
+ * 2. Contre-proposer un lot modifié (chaque participant, à tour de rôle)
+ * 3. Mettre à jour le statut (accepter, refuser, compléter, annuler)
+ * 4. Lister les échanges d'un utilisateur avec pagination
+ * 5. Consulter un échange spécifique (avec les messages et participants)
+ * 6. Publier des messages de chat (en s'assurant que l'auteur est bien participant)
  *
  * CONTRAINTES ET SÉCURITÉ:
  * - On interdit la création d'un échange avec soi-même
+ * - Un échange porte un lot d'objets de chaque côté (`ExchangeItem`): le demandeur doit
+ *   posséder les objets proposés, le répondant les objets demandés, et tous doivent
+ *   être `AVAILABLE`
+ * - Le destinataire du lot en cours peut contre-proposer un lot modifié; c'est alors
+ *   à l'autre participant d'accepter ou refuser (`proposedById` = auteur du lot en cours)
+ * - Chaque lot proposé est conservé comme révision immuable (`ExchangeRevision`),
+ *   qui forme l'historique de la négociation; seule la dernière révision
+ *   (`currentVersion`) peut être acceptée
+ * - Le statut des items suit celui de l'échange, pour tous les objets du lot ensemble
+ *   (ACCEPTED → PENDING, COMPLETED → TRADED, DECLINED/CANCELLED → AVAILABLE)
  * - Seuls les participants (requester/responder) peuvent lire ou modifier un échange
- * - On empêche la modification d'un échange déjà terminé (COMPLETED/CANCELLED)
- * - Chaque changement de statut déclenche une notification (service Notifications)
+ * - Les transitions de statut suivent une table explicite par rôle (`exchange-transitions.ts`):
+ *   seul le destinataire du lot en cours accepte/refuse, chacun peut annuler, la complétion exige
+ *   la confirmation des deux participants; les statuts terminaux sont figés
+ * - Chaque changement de statut notifie l'autre participant (service Notifications)
+ * - Les utilisateurs qui suivent un des items sont prévenus quand son statut change
+ *   (service Favorites), par exemple quand il redevient disponible
+ * - Un item libéré (de nouveau disponible) déclenche les alertes des recherches
+ *   sauvegardées (service SavedSearches)
+ * - Les propositions et les débuts de discussion sont des engagements qui comptent
+ *   dans la popularité des items (service Engagement)
+ * - Les échanges listés ou consultés portent la réputation (avis) de chaque
+ *   participant (service Ratings)
  *
  * RÉFÉRENCES D'ARCHITECTURE:
  * - Contrôleur associé: `exchanges.controller.ts`
@@ -31,17 +52,83 @@ import {
   NotFoundException,
   ForbiddenException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
+import {
+  ExchangeItemSide,
+  ExchangeStatus,
+  Item,
+  ItemStatus,
+  Prisma,
+} from '@prisma/client';
 
 // Import des services
 import { PrismaService } from '../../common/prisma/prisma.service';
 import { NotificationsService } from '../notifications/notifications.service';
+import { FavoritesService } from '../favorites/favorites.service';
+import { EngagementService } from '../engagement/engagement.service';
+import { RatingsService } from '../ratings/ratings.service';
+import { SavedSearchesService } from '../saved-searches/saved-searches.service';
 
 // Import des DTOs
 import { CreateExchangeInput } from './dtos/create-exchange.dto';
+import { CounterProposalInput } from './dtos/counter-proposal.dto';
 import { UpdateExchangeStatusInput } from './dtos/update-exchange-status.dto';
 import { PaginationInput } from '../../common/dtos/pagination.dto';
 
+// Machine à états des échanges
+import {
+  ExchangeRole,
+  ExchangeTransitionError,
+  assertExchangeTransition,
+  exchangeTransitionConflict,
+  getProposalRole,
+} from './exchange-transitions';
+
+/**
+ * Sélection commune des items liés à un échange (proposés/demandés).
+ * Même forme que `ItemWithPhotos` pour que le frontend puisse réutiliser ses composants.
+ */
+const EXCHANGE_ITEM_INCLUDE = {
+  include: {
+    photos: {
+      select: {
+        id: true,
+        url: true,
+        width: true,
+        height: true,
+        createdAt: true,
+      },
+    },
+    owner: {
+      select: {
+        id: true,
+        displayName: true,
+        avatarUrl: true,
+      },
+    },
+  },
+} as const;
+
+/**
+ * Objets du lot d'un échange (snapshot + item courant s'il existe encore),
+ * dans l'ordre où ils ont été ajoutés.
+ */
+const EXCHANGE_BUNDLE_INCLUDE = {
+  orderBy: { createdAt: 'asc' },
+  include: {
+    item: EXCHANGE_ITEM_INCLUDE,
+  },
+} as const;
+
+/**
+ * Historique de négociation: révisions du lot, de la proposition initiale
+ * à la dernière contre-proposition.
+ */
+const EXCHANGE_REVISIONS_INCLUDE = {
+  orderBy: { version: 'asc' },
+} as const;
+
 /**
  * SERVICE: ExchangesService
  *
@@ -62,11 +149,24 @@ export class ExchangesService {
    * - `PrismaService prisma`
    *    ↳ Accès DB (tables: exchange, chatMessage, user).
    * - `NotificationsService notifications`
-   *    ↳ Envoie des push/in-app lors des changements de statut via `sendExchangeStatusNotification`.
+   *    ↳ Envoie des push/in-app lors des changements de statut via `sendExchangeStatusNotification`
+   *      et des nouveaux messages du chat via `sendNewMessageNotification`.
+   * - `FavoritesService favorites`
+   *    ↳ Prévient les utilisateurs qui suivent les items dont le statut change (`notifyWatchers`).
+   * - `EngagementService engagement`
+   *    ↳ Enregistre les propositions et débuts de discussion (popularité des items).
+   * - `RatingsService ratings`
+   *    ↳ Réputation des participants affichée avec les échanges (`getSummaries`).
+   * - `SavedSearchesService savedSearches`
+   *    ↳ Alerte les recherches sauvegardées quand un item est libéré (`notifyMatches`).
    */
   constructor(
     private prisma: PrismaService,
     private readonly notifications: NotificationsService,
+    private readonly favorites: FavoritesService,
+    private readonly engagement: EngagementService,
+    private readonly ratings: RatingsService,
+    private readonly savedSearches: SavedSearchesService,
   ) {}
 
   // ============================================
@@ -79,33 +179,38 @@ export class ExchangesService {
    * PROCESSUS:
    * 1. Vérifie que le répondant existe
    * 2. Vérifie qu'on ne fait pas d'échange avec soi-même
-   * 3. Crée l'échange avec le statut PENDING
-   * 4. Envoie une notification au répondant
+   * 3. Vérifie la propriété et la disponibilité de tous les items du lot
+   * 4. Crée l'échange avec le statut PENDING (titres copiés en snapshot) et sa
+   *    révision 1 (début de l'historique de négociation)
+   * 5. Envoie une notification au répondant
    *
    * @param requesterId - ID de l'utilisateur qui fait la proposition
-   * @param input - Données de l'échange (responderId, requestedItemTitle, offeredItemTitle, message)
-   * @returns Échange créé avec les informations des participants
-   * @throws NotFoundException si le répondant n'existe pas
+   * @param input - Données de l'échange (responderId, requestedItemIds, offeredItemIds, message)
+   * @returns Échange créé avec les informations des participants et des items
+   * @throws NotFoundException si le répondant ou un des items n'existe pas
    * @throws BadRequestException si on essaie d'échanger avec soi-même
+   * @throws ForbiddenException si un objet proposé n'appartient pas au demandeur
+   * @throws ConflictException si un des items n'est plus disponible
    */
   async createExchange(requesterId: string, input: CreateExchangeInput) {
     /**
      * MÉTHODE: createExchange
      *
      * Permet à un utilisateur (`requesterId`) de proposer un échange à un autre
-     * utilisateur (`responderId`). Aucun item n'est créé ici : on se contente
-     * d'enregistrer la proposition textuelle (titres des objets, message d'intro).
+     * utilisateur (`responderId`) en liant deux lots d'items existants: ceux qu'il
+     * propose (`offeredItemIds`) et ceux qu'il souhaite recevoir (`requestedItemIds`).
      *
      * FLUX:
      * 1. Vérifier que le répondant existe
      * 2. Empêcher l'auto-échange (requester === responder)
-     * 3. Créer l'échange avec statut initial `PENDING`
-     * 4. Notifier le répondant pour qu'il puisse répondre rapidement
+     * 3. Vérifier que chaque item appartient au bon participant et est `AVAILABLE`
+     * 4. Créer l'échange avec statut initial `PENDING`
+     * 5. Notifier le répondant pour qu'il puisse répondre rapidement
+     * 6. Enregistrer la proposition comme engagement sur les objets demandés
      */
 
     // Extraire les données de l'échange
-    const { responderId, requestedItemTitle, offeredItemTitle, message } =
-      input;
+    const { responderId, requestedItemIds, offeredItemIds, message } = input;
 
     // ============================================
     // VÉRIFICATIONS PRÉLIMINAIRES
@@ -126,16 +231,34 @@ export class ExchangesService {
       );
     }
 
+    // ============================================
+    // VÉRIFICATION DES ITEMS
+    // ============================================
+    const bundle = await this.loadBundle(
+      { requesterId, responderId },
+      { offeredItemIds, requestedItemIds },
+    );
+
     /**
      * Création de l'échange + jointures indispensables pour le frontend.
      * (Le frontend peut afficher immédiatement les infos requester/responder)
+     * Les titres sont copiés pour garder l'historique même si l'item est
+     * renommé ou supprimé plus tard.
      */
     const exchange = await this.prisma.exchange.create({
       data: {
         requesterId,
         responderId,
-        requestedItemTitle,
-        offeredItemTitle,
+        proposedById: requesterId,
+        ...this.toBundleSnapshot(bundle),
+        items: { create: this.toBundleRows(bundle) },
+        revisions: {
+          create: {
+            version: 1,
+            authorId: requesterId,
+            items: this.toBundleRows(bundle),
+          },
+        },
         message,
         status: 'PENDING',
       },
@@ -156,6 +279,7 @@ export class ExchangesService {
             avatarUrl: true,
           },
         },
+        items: EXCHANGE_BUNDLE_INCLUDE,
       },
     });
 
@@ -170,15 +294,272 @@ export class ExchangesService {
       // Stratégie: on loggue côté NotificationsService; ici on n'empêche pas la création
     }
 
+    // La proposition compte dans la popularité des objets demandés
+    await this.engagement.recordExchangeProposal(
+      requestedItemIds,
+      requesterId,
+      exchange.id,
+    );
+
     return exchange;
   }
 
+  // ============================================
+  // MÉTHODE: counterPropose (Contre-proposer un lot)
+  // ============================================
+
+  /**
+   * Remplace le lot d'une proposition en attente par un lot modifié (objets ajoutés
+   * ou retirés de chaque côté), avec une note optionnelle.
+   *
+   * RÈGLES:
+   * - Seul le destinataire du lot en cours contre-propose (demandeur ou répondant,
+   *   à tour de rôle), et seulement sur une proposition PENDING
+   * - Le lot complet est revalidé comme à la création (propriété, disponibilité)
+   * - Le lot devient une nouvelle révision immuable (`currentVersion` + 1): les
+   *   révisions précédentes ne peuvent plus être acceptées
+   * - L'autre participant est notifié à chaque contre-proposition
+   *
+   * @throws NotFoundException si l'échange ou un des items n'existe pas
+   * @throws ForbiddenException si l'utilisateur ne participe pas à l'échange
+   * @throws ConflictException si la proposition n'est plus modifiable
+   */
+  async counterPropose(
+    exchangeId: string,
+    userId: string,
+    input: CounterProposalInput,
+  ) {
+    const exchange = await this.prisma.exchange.findUnique({
+      where: { id: exchangeId },
+    });
+
+    if (!exchange) {
+      throw new NotFoundException('Échange non trouvé');
+    }
+
+    if (exchange.requesterId !== userId && exchange.responderId !== userId) {
+      throw new ForbiddenException(
+        "Vous n'êtes pas autorisé à modifier cet échange",
+      );
+    }
+
+    if (exchange.status !== ExchangeStatus.PENDING) {
+      throw new ConflictException(
+        'Seule une proposition en attente peut être modifiée',
+      );
+    }
+
+    if (exchange.proposedById === userId) {
+      throw new ConflictException(
+        "Votre proposition attend déjà la réponse de l'autre participant",
+      );
+    }
+
+    const role: ExchangeRole =
+      exchange.requesterId === userId ? 'requester' : 'responder';
+    const otherUserId =
+      role === 'requester' ? exchange.responderId : exchange.requesterId;
+    const bundle = await this.loadBundle(exchange, input);
+    const rows = this.toBundleRows(bundle);
+    const version = exchange.currentVersion + 1;
+
+    /**
+     * Transaction: le lot est remplacé en entier et la révision enregistrée.
+     * La mise à jour est conditionnée à la révision lue plus haut (verrou
+     * optimiste): si l'autre participant a agi entre-temps, on renvoie un 409.
+     */
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.exchange.updateMany({
+        where: {
+          id: exchangeId,
+          status: ExchangeStatus.PENDING,
+          currentVersion: exchange.currentVersion,
+        },
+        data: {
+          proposedById: userId,
+          currentVersion: version,
+          ...this.toBundleSnapshot(bundle),
+        },
+      });
+
+      if (count === 0) {
+        throw exchangeTransitionConflict(
+          ExchangeTransitionError.STALE_STATUS,
+          "L'échange a été modifié entre-temps, veuillez recharger",
+          { from: exchange.status, to: ExchangeStatus.PENDING, role },
+        );
+      }
+
+      await tx.exchangeItem.deleteMany({ where: { exchangeId } });
+      await tx.exchangeItem.createMany({
+        data: rows.map((row) => ({ ...row, exchangeId })),
+      });
+      await tx.exchangeRevision.create({
+        data: {
+          exchangeId,
+          version,
+          authorId: userId,
+          note: input.note?.trim() || null,
+          items: rows,
+        },
+      });
+
+      return tx.exchange.findUnique({
+        where: { id: exchangeId },
+        include: {
+          requester: {
+            select: {
+              id: true,
+              email: true,
+              displayName: true,
+              avatarUrl: true,
+            },
+          },
+          responder: {
+            select: {
+              id: true,
+              email: true,
+              displayName: true,
+              avatarUrl: true,
+            },
+          },
+          items: EXCHANGE_BUNDLE_INCLUDE,
+          revisions: EXCHANGE_REVISIONS_INCLUDE,
+        },
+      });
+    });
+
+    // L'autre participant doit maintenant accepter, refuser ou contre-proposer
+    try {
+      await this.notifications.sendExchangeStatusNotification(
+        exchangeId,
+        'COUNTER_PROPOSED',
+        otherUserId,
+      );
+    } catch (e) {
+      // Stratégie: on loggue côté NotificationsService; la contre-proposition reste valide
+    }
+
+    return updated;
+  }
+
+  /**
+   * Charge et valide les objets d'un lot.
+   *
+   * RÈGLES:
+   * - Chaque objet existe
+   * - Les objets proposés appartiennent au demandeur, les objets demandés au répondant
+   * - Tous sont `AVAILABLE`
+   *
+   * @returns Objets de chaque côté, dans l'ordre des IDs reçus
+   */
+  private async loadBundle(
+    participants: { requesterId: string; responderId: string },
+    ids: Pick<CreateExchangeInput, 'offeredItemIds' | 'requestedItemIds'>,
+  ): Promise<{ offered: Item[]; requested: Item[] }> {
+    const items = await this.prisma.item.findMany({
+      where: {
+        id: { in: [...ids.offeredItemIds, ...ids.requestedItemIds] },
+      },
+    });
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+
+    const offered = ids.offeredItemIds.map((id) => itemsById.get(id));
+    const requested = ids.requestedItemIds.map((id) => itemsById.get(id));
+
+    if (offered.some((item) => !item)) {
+      throw new NotFoundException('Objet proposé non trouvé');
+    }
+
+    if (requested.some((item) => !item)) {
+      throw new NotFoundException('Objet demandé non trouvé');
+    }
+
+    // Les objets proposés viennent du demandeur
+    if (offered.some((item) => item!.ownerId !== participants.requesterId)) {
+      throw new ForbiddenException(
+        "Les objets proposés doivent appartenir au demandeur de l'échange",
+      );
+    }
+
+    // Les objets demandés doivent appartenir au répondant désigné
+    if (requested.some((item) => item!.ownerId !== participants.responderId)) {
+      throw new BadRequestException(
+        "Un des objets demandés n'appartient pas à cet utilisateur",
+      );
+    }
+
+    if (
+      [...offered, ...requested].some(
+        (item) => item!.status !== ItemStatus.AVAILABLE,
+      )
+    ) {
+      throw new ConflictException(
+        "Un des objets n'est plus disponible pour un échange",
+      );
+    }
+
+    return { offered: offered as Item[], requested: requested as Item[] };
+  }
+
+  /**
+   * Lignes `ExchangeItem` d'un lot (titres copiés pour l'historique).
+   */
+  private toBundleRows(bundle: { offered: Item[]; requested: Item[] }) {
+    return [
+      ...bundle.offered.map((item) => ({
+        itemId: item.id,
+        side: ExchangeItemSide.OFFERED,
+        title: item.title,
+      })),
+      ...bundle.requested.map((item) => ({
+        itemId: item.id,
+        side: ExchangeItemSide.REQUESTED,
+        title: item.title,
+      })),
+    ];
+  }
+
+  /**
+   * Titres résumés de chaque côté du lot (listes, historique, recommandations).
+   */
+  private toBundleSnapshot(bundle: { offered: Item[]; requested: Item[] }) {
+    return {
+      offeredItemTitle: bundle.offered.map((item) => item.title).join(', '),
+      requestedItemTitle: bundle.requested.map((item) => item.title).join(', '),
+    };
+  }
+
+  // ============================================
+  // MÉTHODE: updateExchangeStatus (Faire évoluer le statut)
+  // ============================================
+
+  /**
+   * Applique une transition de statut demandée par un participant.
+   *
+   * RÈGLES (voir `exchange-transitions.ts`):
+   * - Seul le destinataire du lot en cours accepte ou refuse une proposition PENDING
+   *   (le répondant, ou le demandeur après une contre-proposition), et seulement
+   *   la dernière révision du lot (`version`, si elle est fournie)
+   * - Les deux participants peuvent annuler (PENDING ou ACCEPTED)
+   * - COMPLETED exige la confirmation des deux participants: la première demande
+   *   enregistre seulement la confirmation de son auteur (l'échange reste ACCEPTED),
+   *   la seconde passe l'échange à COMPLETED
+   *
+   * L'autre participant est notifié à chaque transition (y compris une confirmation
+   * de réalisation unilatérale).
+   *
+   * @throws NotFoundException si l'échange n'existe pas
+   * @throws ForbiddenException si l'utilisateur ne participe pas à l'échange
+   * @throws ConflictException (409 structurée) si la transition est refusée ou
+   *   si la révision visée a été remplacée par une contre-proposition
+   */
   async updateExchangeStatus(
     exchangeId: string,
     userId: string,
     input: UpdateExchangeStatusInput,
   ) {
-    const { status } = input;
+    const { status, version } = input;
 
     /**
      * On récupère l'échange + ses participants pour deux raisons:
@@ -190,6 +571,7 @@ export class ExchangesService {
       include: {
         requester: true,
         responder: true,
+        items: { select: { itemId: true } },
       },
     });
 
@@ -204,40 +586,230 @@ export class ExchangesService {
       );
     }
 
-    // Vérifier que l'échange n'est pas déjà terminé
-    if (exchange.status === 'COMPLETED' || exchange.status === 'CANCELLED') {
-      throw new BadRequestException('Cet échange ne peut plus être modifié');
+    const role: ExchangeRole =
+      exchange.requesterId === userId ? 'requester' : 'responder';
+    const otherUserId =
+      role === 'requester' ? exchange.responderId : exchange.requesterId;
+
+    // Vérifier la transition dans la table (rôle + statut courant). Une proposition
+    // en attente s'évalue par rapport à l'auteur du lot en cours.
+    assertExchangeTransition(
+      exchange.status,
+      status,
+      exchange.status === ExchangeStatus.PENDING
+        ? getProposalRole(exchange.proposedById, userId)
+        : role,
+    );
+
+    // Une décision porte sur une révision précise: refusée si elle a été remplacée
+    const isDecision =
+      status === ExchangeStatus.ACCEPTED || status === ExchangeStatus.DECLINED;
+    if (isDecision && version && version !== exchange.currentVersion) {
+      throw exchangeTransitionConflict(
+        ExchangeTransitionError.STALE_REVISION,
+        `La version ${version} du lot a été remplacée par une contre-proposition (version ${exchange.currentVersion})`,
+        { from: exchange.status, to: status, role },
+      );
     }
 
-    // Logique métier pour les changements de statut
-    const updateData: any = { status };
+    const now = new Date();
+    const updateData: Prisma.ExchangeUpdateManyMutationInput = { status };
+    let notificationStatus: string = status;
+
+    /**
+     * Complétion en deux temps: chacun confirme de son côté.
+     * Tant que l'autre participant n'a pas confirmé, l'échange reste ACCEPTED.
+     */
+    if (status === ExchangeStatus.COMPLETED) {
+      const ownConfirmedAt =
+        role === 'requester'
+          ? exchange.requesterConfirmedAt
+          : exchange.responderConfirmedAt;
+      const otherConfirmedAt =
+        role === 'requester'
+          ? exchange.responderConfirmedAt
+          : exchange.requesterConfirmedAt;
+
+      if (ownConfirmedAt) {
+        throw exchangeTransitionConflict(
+          ExchangeTransitionError.ALREADY_CONFIRMED,
+          "Vous avez déjà confirmé la réalisation, en attente de l'autre participant",
+          { from: exchange.status, to: status, role },
+        );
+      }
+
+      if (role === 'requester') {
+        updateData.requesterConfirmedAt = now;
+      } else {
+        updateData.responderConfirmedAt = now;
+      }
 
-    if (status === 'COMPLETED') {
-      updateData.completedAt = new Date();
+      if (otherConfirmedAt) {
+        updateData.completedAt = now;
+      } else {
+        delete updateData.status;
+        notificationStatus = 'COMPLETION_CONFIRMED';
+      }
     }
 
-    return this.prisma.exchange.update({
-      where: { id: exchangeId },
-      data: updateData,
-      include: {
-        requester: {
-          select: {
-            id: true,
-            email: true,
-            displayName: true,
-            avatarUrl: true,
+    const nextStatus = (updateData.status as ExchangeStatus) ?? exchange.status;
+
+    /**
+     * Transaction: le statut des items et celui de l'échange doivent évoluer
+     * ensemble (si un item a été pris entre-temps, rien n'est modifié).
+     * La mise à jour est conditionnée à l'état lu plus haut (verrou optimiste):
+     * si l'autre participant a agi entre-temps (y compris une contre-proposition),
+     * on renvoie un 409.
+     */
+    const { updated, itemStatus } = await this.prisma.$transaction(
+      async (tx) => {
+        const { count } = await tx.exchange.updateMany({
+          where: {
+            id: exchangeId,
+            status: exchange.status,
+            currentVersion: exchange.currentVersion,
+            requesterConfirmedAt: exchange.requesterConfirmedAt,
+            responderConfirmedAt: exchange.responderConfirmedAt,
           },
-        },
-        responder: {
-          select: {
-            id: true,
-            email: true,
-            displayName: true,
-            avatarUrl: true,
+          data: updateData,
+        });
+
+        if (count === 0) {
+          throw exchangeTransitionConflict(
+            ExchangeTransitionError.STALE_STATUS,
+            "L'échange a été modifié entre-temps, veuillez recharger",
+            { from: exchange.status, to: status, role },
+          );
+        }
+
+        const itemStatus =
+          nextStatus !== exchange.status
+            ? await this.syncItemsStatus(tx, exchange, nextStatus)
+            : null;
+
+        const updated = await tx.exchange.findUnique({
+          where: { id: exchangeId },
+          include: {
+            requester: {
+              select: {
+                id: true,
+                email: true,
+                displayName: true,
+                avatarUrl: true,
+              },
+            },
+            responder: {
+              select: {
+                id: true,
+                email: true,
+                displayName: true,
+                avatarUrl: true,
+              },
+            },
+            items: EXCHANGE_BUNDLE_INCLUDE,
           },
-        },
+        });
+
+        return { updated, itemStatus };
       },
-    });
+    );
+
+    // Notifier l'autre participant (sans bloquer la transition en cas d'échec)
+    try {
+      await this.notifications.sendExchangeStatusNotification(
+        exchangeId,
+        notificationStatus,
+        otherUserId,
+      );
+    } catch (e) {
+      // Stratégie: on loggue côté NotificationsService; la transition reste valide
+    }
+
+    // Items réservés, échangés ou libérés: prévenir ceux qui les suivent,
+    // et alerter les recherches sauvegardées pour les items de nouveau disponibles
+    // (notifyWatchers et notifyMatches logguent leurs propres erreurs)
+    if (itemStatus && updated) {
+      for (const { item } of updated.items) {
+        if (item?.status === itemStatus) {
+          await this.favorites.notifyWatchers(item, itemStatus);
+          if (itemStatus === ItemStatus.AVAILABLE) {
+            await this.savedSearches.notifyMatches(item);
+          }
+        }
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Répercute le nouveau statut de l'échange sur tous les items du lot, ensemble.
+   *
+   * RÈGLES:
+   * - ACCEPTED  → items réservés (`PENDING`), à condition qu'ils soient encore `AVAILABLE`
+   * - COMPLETED → items échangés (`TRADED`)
+   * - DECLINED / CANCELLED → items libérés (`AVAILABLE`), uniquement s'ils avaient été
+   *   réservés par cet échange (statut précédent ACCEPTED)
+   *
+   * Les items supprimés depuis (titres seuls) et les anciens échanges sans items
+   * liés sont ignorés.
+   *
+   * @returns Nouveau statut des items, ou null s'ils n'ont pas changé
+   * @throws ConflictException si un item n'est plus disponible au moment de l'acceptation
+   */
+  private async syncItemsStatus(
+    tx: Prisma.TransactionClient,
+    exchange: {
+      status: ExchangeStatus;
+      items: { itemId: string | null }[];
+    },
+    nextStatus: ExchangeStatus,
+  ): Promise<ItemStatus | null> {
+    const itemIds = exchange.items
+      .map(({ itemId }) => itemId)
+      .filter((id): id is string => !!id);
+
+    if (itemIds.length === 0) {
+      return null;
+    }
+
+    switch (nextStatus) {
+      case ExchangeStatus.ACCEPTED: {
+        const { count } = await tx.item.updateMany({
+          where: { id: { in: itemIds }, status: ItemStatus.AVAILABLE },
+          data: { status: ItemStatus.PENDING },
+        });
+
+        if (count !== itemIds.length) {
+          throw new ConflictException(
+            "Un des objets n'est plus disponible pour cet échange",
+          );
+        }
+        return ItemStatus.PENDING;
+      }
+
+      case ExchangeStatus.COMPLETED:
+        await tx.item.updateMany({
+          where: { id: { in: itemIds } },
+          data: { status: ItemStatus.TRADED },
+        });
+        return ItemStatus.TRADED;
+
+      case ExchangeStatus.DECLINED:
+      case ExchangeStatus.CANCELLED: {
+        if (exchange.status !== ExchangeStatus.ACCEPTED) {
+          return null;
+        }
+        const { count } = await tx.item.updateMany({
+          where: { id: { in: itemIds }, status: ItemStatus.PENDING },
+          data: { status: ItemStatus.AVAILABLE },
+        });
+        return count > 0 ? ItemStatus.AVAILABLE : null;
+      }
+
+      default:
+        return null;
+    }
   }
 
   /**
@@ -298,6 +870,7 @@ export class ExchangesService {
               avatarUrl: true,
             },
           },
+          items: EXCHANGE_BUNDLE_INCLUDE,
         },
       }),
       this.prisma.exchange.count({ where }),
@@ -306,7 +879,7 @@ export class ExchangesService {
     const totalPages = total > 0 ? Math.ceil(total / limit) : 0;
 
     return {
-      items: exchanges,
+      items: await this.withParticipantRatings(exchanges),
       total,
       page,
       limit,
@@ -315,7 +888,7 @@ export class ExchangesService {
   }
 
   /**
-   * Récupère un échange précis (incl. messages) et vérifie que l'utilisateur actuel
+   * Récupère un échange précis (incl. messages et historique de négociation) et vérifie que l'utilisateur actuel
    * est bien l'un des participants.
    */
   async getExchangeById(exchangeId: string, userId: string) {
@@ -338,6 +911,8 @@ export class ExchangesService {
             avatarUrl: true,
           },
         },
+        items: EXCHANGE_BUNDLE_INCLUDE,
+        revisions: EXCHANGE_REVISIONS_INCLUDE,
         messages: {
           include: {
             sender: {
@@ -367,7 +942,63 @@ export class ExchangesService {
       );
     }
 
-    return exchange;
+    const [withRatings] = await this.withParticipantRatings([exchange]);
+    return withRatings;
+  }
+
+  /**
+   * Ajoute la réputation (note moyenne, nombre d'avis) du demandeur et du
+   * répondant à chaque échange, en une seule requête pour toute la liste.
+   */
+  private async withParticipantRatings<
+    T extends { requester: { id: string }; responder: { id: string } },
+  >(exchanges: T[]) {
+    const summaries = await this.ratings.getSummaries(
+      exchanges.flatMap((exchange) => [
+        exchange.requester.id,
+        exchange.responder.id,
+      ]),
+    );
+
+    return exchanges.map((exchange) => ({
+      ...exchange,
+      requester: {
+        ...exchange.requester,
+        rating: summaries.get(exchange.requester.id),
+      },
+      responder: {
+        ...exchange.responder,
+        rating: summaries.get(exchange.responder.id),
+      },
+    }));
+  }
+
+  // ============================================
+  // MÉTHODE: assertParticipant
+  // ============================================
+
+  /**
+   * Vérifie qu'un utilisateur participe à un échange, sans charger les messages.
+   * Utilisé par le gateway avant d'abonner un socket à la room d'un échange.
+   *
+   * @throws NotFoundException si l'échange n'existe pas
+   * @throws ForbiddenException si l'utilisateur ne participe pas à l'échange
+   */
+  async assertParticipant(exchangeId: string, userId: string): Promise<void> {
+    const exchange = await this.prisma.exchange.findUnique({
+      where: { id: exchangeId },
+      select: { requesterId: true, responderId: true },
+    });
+
+    if (!exchange) {
+      throw new NotFoundException('Échange non trouvé');
+    }
+
+    if (exchange.requesterId !== userId && exchange.responderId !== userId) {
+      throw new ForbiddenException(
+        "Vous n'êtes pas autorisé à rejoindre cet échange",
+      );
+    }
   }
 
   // ============================================
@@ -383,6 +1014,7 @@ export class ExchangesService {
    *
    * FONCTIONNALITÉS:
    * - Supporte les messages texte et images
+   * - Notifie l'autre participant (push, boîte de réception, email selon ses préférences)
    * - Retourne le message avec les informations de l'expéditeur
    *
    * @param exchangeId - ID de l'échange
@@ -405,6 +1037,7 @@ export class ExchangesService {
     // Vérifier que l'échange existe et que l'utilisateur y participe
     const exchange = await this.prisma.exchange.findUnique({
       where: { id: exchangeId },
+      include: { items: { select: { itemId: true, title: true } } },
     });
 
     if (!exchange) {
@@ -448,6 +1081,30 @@ export class ExchangesService {
       },
     });
 
+    // Premier message de l'expéditeur: début de discussion (dédupliqué par
+    // EngagementService; son propre objet est ignoré)
+    await this.engagement.recordChatStart(
+      exchange.items
+        .map(({ itemId }) => itemId)
+        .filter((id): id is string => !!id),
+      senderId,
+      exchangeId,
+    );
+
+    // Notifier l'autre participant (sans bloquer l'envoi en cas d'échec)
+    try {
+      await this.notifications.sendNewMessageNotification(
+        exchangeId,
+        exchange.items.map(({ title }) => title).join(', ') || 'Échange',
+        exchange.requesterId === senderId
+          ? exchange.responderId
+          : exchange.requesterId,
+        message.sender.displayName,
+      );
+    } catch (e) {
+      // Stratégie: on loggue côté NotificationsService; le message reste envoyé
+    }
+
     return message;
   }
 }
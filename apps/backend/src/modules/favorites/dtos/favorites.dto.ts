@@ -0,0 +1,31 @@
+/**
+ * FICHIER: favorites.dto.ts
+ *
+ * DESCRIPTION:
+ * Types de réponse des routes de favoris (liste de suivi).
+ * La liste paginée utilise PaginationDto (page, limit) pour ses paramètres.
+ */
+
+// Import du type d'item renvoyé par ItemsService
+import { ItemWithPhotos } from '../../items/items.service';
+
+// État d'un favori après ajout / retrait
+export interface FavoriteStatusResponse {
+  itemId: string;
+  isFavorite: boolean;
+  favoriteCount: number; // Nombre total d'utilisateurs qui suivent l'objet
+}
+
+// Objet suivi, avec la date d'ajout à la liste
+export interface FavoriteItem extends ItemWithPhotos {
+  favoritedAt: Date;
+}
+
+// Liste de suivi paginée (plus récents ajouts en premier)
+export interface PaginatedFavorites {
+  items: FavoriteItem[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
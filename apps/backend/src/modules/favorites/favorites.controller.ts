@@ -0,0 +1,152 @@
+/**
+ * FICHIER: favorites.controller.ts
+ *
+ * DESCRIPTION:
+ * Ce contrôleur expose les routes des favoris (liste de suivi d'objets).
+ * Les utilisateurs qui suivent un objet reçoivent une notification (WATCHED_ITEM)
+ * quand son statut change, par exemple quand il redevient disponible après
+ * l'échec d'un échange.
+ *
+ * ROUTES:
+ * - GET /api/v1/favorites - Ma liste de suivi, paginée (authentifié)
+ * - GET /api/v1/favorites/ids - IDs des objets suivis (authentifié)
+ * - PUT /api/v1/favorites/:itemId - Suivre un objet (authentifié)
+ * - DELETE /api/v1/favorites/:itemId - Ne plus suivre un objet (authentifié)
+ *
+ * SÉCURITÉ:
+ * - Routes protégées par JwtAccessGuard
+ */
+
+// Import des décorateurs NestJS
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+
+// Import des décorateurs Swagger
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+// Import du service
+import { FavoritesService } from './favorites.service';
+
+// Import des DTOs
+import { PaginationDto } from '../../common/dtos/pagination.dto';
+import {
+  FavoriteStatusResponse,
+  PaginatedFavorites,
+} from './dtos/favorites.dto';
+
+// Import des guards et intercepteurs
+import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
+import { LoggingInterceptor } from '../../common/interceptors/logging.interceptor';
+
+/**
+ * CONTRÔLEUR: FavoritesController
+ *
+ * Le préfixe 'favorites' signifie que les routes commencent par /api/v1/favorites
+ */
+@ApiTags('Favorites')
+@Controller('favorites')
+@UseGuards(JwtAccessGuard)
+@UseInterceptors(LoggingInterceptor) // Logger toutes les requêtes
+@ApiBearerAuth()
+export class FavoritesController {
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection du service des favoris
+   */
+  constructor(private readonly favoritesService: FavoritesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Ma liste de suivi',
+    description:
+      'Objets suivis, tous statuts confondus, ajouts les plus récents en premier',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Liste paginée des objets suivis',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Non authentifié',
+  })
+  async listFavorites(
+    @Request() req: any,
+    @Query() paginationDto: PaginationDto,
+  ): Promise<PaginatedFavorites> {
+    return this.favoritesService.listFavorites(req.user.id, paginationDto);
+  }
+
+  @Get('ids')
+  @ApiOperation({
+    summary: 'IDs des objets suivis',
+    description: "Permet d'afficher l'état favori sur les cartes d'objets",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Liste des IDs',
+  })
+  async listFavoriteIds(@Request() req: any): Promise<string[]> {
+    return this.favoritesService.listFavoriteIds(req.user.id);
+  }
+
+  @Put(':itemId')
+  @ApiOperation({
+    summary: 'Suivre un objet',
+    description:
+      "Ajoute l'objet à la liste de suivi (sans effet s'il y est déjà)",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Objet suivi',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Impossible de suivre ses propres objets',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Item non trouvé',
+  })
+  async addFavorite(
+    @Request() req: any,
+    @Param('itemId') itemId: string,
+  ): Promise<FavoriteStatusResponse> {
+    return this.favoritesService.addFavorite(req.user.id, itemId);
+  }
+
+  @Delete(':itemId')
+  @ApiOperation({
+    summary: 'Ne plus suivre un objet',
+    description:
+      "Retire l'objet de la liste de suivi (sans effet s'il n'y est pas)",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Objet retiré de la liste de suivi',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Item non trouvé',
+  })
+  async removeFavorite(
+    @Request() req: any,
+    @Param('itemId') itemId: string,
+  ): Promise<FavoriteStatusResponse> {
+    return this.favoritesService.removeFavorite(req.user.id, itemId);
+  }
+}
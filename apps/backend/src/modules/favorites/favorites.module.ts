@@ -0,0 +1,52 @@
+/**
+ * FICHIER: favorites.module.ts
+ *
+ * DESCRIPTION:
+ * Ce module NestJS regroupe les favoris (liste de suivi d'objets) et les
+ * alertes envoyées quand le statut d'un objet suivi change.
+ *
+ * COMPOSANTS:
+ * - FavoritesController: Routes HTTP (liste de suivi, suivre, ne plus suivre)
+ * - FavoritesService: Gestion des favoris, compteurs et alertes
+ *
+ * DÉPENDANCES:
+ * - PrismaModule: Accès à la base de données
+ * - NotificationsModule: Envoi des alertes
+ * - EngagementModule: Les favoris comptent dans la popularité
+ *
+ * NOTE:
+ * FavoritesService est exporté pour ItemsModule et ExchangesModule, qui
+ * changent le statut des objets et déclenchent les alertes.
+ */
+
+// Import du décorateur Module
+import { Module } from '@nestjs/common';
+
+// Import des composants du module
+import { FavoritesController } from './favorites.controller';
+import { FavoritesService } from './favorites.service';
+
+// Import des modules dépendants
+import { PrismaModule } from '../../common/prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { EngagementModule } from '../engagement/engagement.module';
+
+/**
+ * MODULE: FavoritesModule
+ *
+ * Module pour les favoris.
+ */
+@Module({
+  // Modules importés nécessaires
+  imports: [PrismaModule, NotificationsModule, EngagementModule], // Base de données + alertes + popularité
+
+  // Contrôleur qui expose les routes HTTP
+  controllers: [FavoritesController],
+
+  // Services fournis par ce module
+  providers: [FavoritesService],
+
+  // Services exportés pour être utilisés dans d'autres modules
+  exports: [FavoritesService],
+})
+export class FavoritesModule {}
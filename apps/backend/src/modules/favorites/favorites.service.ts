@@ -0,0 +1,285 @@
+/**
+ * FICHIER: favorites.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service gère les favoris des utilisateurs (liste de suivi d'objets) et
+ * prévient les utilisateurs qui suivent un objet quand son statut change.
+ *
+ * FAVORIS:
+ * - Ajout / retrait idempotents (un favori par utilisateur et par objet)
+ * - On ne peut pas suivre ses propres objets
+ * - `Item.favoriteCount` est tenu à jour dans la même transaction
+ * - Chaque favori est un engagement FAVORITE (EngagementService), pris en
+ *   compte dans le score de popularité et retiré avec le favori
+ *
+ * ALERTES (notifyWatchers):
+ * - Appelé à chaque changement de statut d'un objet: par son propriétaire
+ *   (ItemsService.updateItemStatus) ou par un échange (ExchangesService:
+ *   réservation, échange réalisé, libération après refus / annulation)
+ * - Notification WATCHED_ITEM à tous les utilisateurs qui suivent l'objet
+ * - Les erreurs sont logguées: une alerte ne doit jamais bloquer le changement de statut
+ */
+
+// Import des classes NestJS
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Item, ItemStatus, Prisma } from '@prisma/client';
+
+// Import des services
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { EngagementService } from '../engagement/engagement.service';
+
+// Import des DTOs
+import { PaginationInput } from '../../common/dtos/pagination.dto';
+import {
+  FavoriteStatusResponse,
+  PaginatedFavorites,
+} from './dtos/favorites.dto';
+
+/**
+ * SERVICE: FavoritesService
+ *
+ * Service pour les favoris et les alertes sur les objets suivis.
+ */
+@Injectable()
+export class FavoritesService {
+  /**
+   * Logger pour enregistrer les événements
+   */
+  private readonly logger = new Logger(FavoritesService.name);
+
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection du service Prisma, du service de notifications et des engagements
+   */
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+    private engagement: EngagementService,
+  ) {}
+
+  // ============================================
+  // MÉTHODE: addFavorite (Suivre un objet)
+  // ============================================
+
+  /**
+   * Ajoute un objet aux favoris de l'utilisateur (sans effet s'il y est déjà).
+   *
+   * @param userId - ID de l'utilisateur
+   * @param itemId - ID de l'objet
+   * @returns État du favori et nombre total de favoris de l'objet
+   * @throws NotFoundException si l'objet n'existe pas
+   * @throws BadRequestException si l'utilisateur est le propriétaire de l'objet
+   */
+  async addFavorite(
+    userId: string,
+    itemId: string,
+  ): Promise<FavoriteStatusResponse> {
+    const item = await this.findItem(itemId);
+
+    if (item.ownerId === userId) {
+      throw new BadRequestException(
+        'Vous ne pouvez pas ajouter vos propres objets à vos favoris',
+      );
+    }
+
+    try {
+      const updated = await this.prisma.$transaction(async (tx) => {
+        await tx.favorite.create({ data: { userId, itemId } });
+        return tx.item.update({
+          where: { id: itemId },
+          data: { favoriteCount: { increment: 1 } },
+          select: { favoriteCount: true },
+        });
+      });
+
+      await this.engagement.recordFavorite(itemId, userId);
+
+      return { itemId, isFavorite: true, favoriteCount: updated.favoriteCount };
+    } catch (error) {
+      // Déjà en favori (clé primaire userId + itemId): rien à faire
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return { itemId, isFavorite: true, favoriteCount: item.favoriteCount };
+      }
+      throw error;
+    }
+  }
+
+  // ============================================
+  // MÉTHODE: removeFavorite (Ne plus suivre)
+  // ============================================
+
+  /**
+   * Retire un objet des favoris de l'utilisateur (sans effet s'il n'y est pas).
+   *
+   * @throws NotFoundException si l'objet n'existe pas
+   */
+  async removeFavorite(
+    userId: string,
+    itemId: string,
+  ): Promise<FavoriteStatusResponse> {
+    const item = await this.findItem(itemId);
+
+    const favoriteCount = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.favorite.deleteMany({
+        where: { userId, itemId },
+      });
+      if (count === 0) return item.favoriteCount;
+
+      const updated = await tx.item.update({
+        where: { id: itemId },
+        data: { favoriteCount: { decrement: 1 } },
+        select: { favoriteCount: true },
+      });
+      return updated.favoriteCount;
+    });
+
+    await this.engagement.retractFavorite(itemId, userId);
+
+    return { itemId, isFavorite: false, favoriteCount };
+  }
+
+  // ============================================
+  // MÉTHODE: listFavorites (Ma liste de suivi)
+  // ============================================
+
+  /**
+   * Objets suivis par l'utilisateur, tous statuts confondus
+   * (un objet réservé ou échangé reste visible), ajouts les plus récents en premier.
+   */
+  async listFavorites(
+    userId: string,
+    pagination: PaginationInput,
+  ): Promise<PaginatedFavorites> {
+    const page = pagination.page ?? 1;
+    const limit = pagination.limit ?? 20;
+
+    const [favorites, total] = await Promise.all([
+      this.prisma.favorite.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          item: {
+            include: {
+              photos: {
+                select: {
+                  id: true,
+                  url: true,
+                  width: true,
+                  height: true,
+                  createdAt: true,
+                },
+              },
+              owner: {
+                select: {
+                  id: true,
+                  displayName: true,
+                  avatarUrl: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+      this.prisma.favorite.count({ where: { userId } }),
+    ]);
+
+    return {
+      items: favorites.map(({ item, createdAt }) => ({
+        ...item,
+        favoritedAt: createdAt,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // ============================================
+  // MÉTHODE: listFavoriteIds
+  // ============================================
+
+  /**
+   * IDs des objets suivis par l'utilisateur (affichage de l'état
+   * "favori" sur les cartes d'objets).
+   */
+  async listFavoriteIds(userId: string): Promise<string[]> {
+    const favorites = await this.prisma.favorite.findMany({
+      where: { userId },
+      select: { itemId: true },
+    });
+
+    return favorites.map((favorite) => favorite.itemId);
+  }
+
+  // ============================================
+  // MÉTHODE: notifyWatchers (Alertes)
+  // ============================================
+
+  /**
+   * Prévient les utilisateurs qui suivent l'objet de son nouveau statut.
+   *
+   * @param item - Objet dont le statut vient de changer
+   * @param status - Nouveau statut
+   * @returns Nombre d'utilisateurs prévenus
+   */
+  async notifyWatchers(
+    item: Pick<Item, 'id' | 'title' | 'ownerId'>,
+    status: ItemStatus,
+  ): Promise<number> {
+    try {
+      const favorites = await this.prisma.favorite.findMany({
+        where: { itemId: item.id, userId: { not: item.ownerId } },
+        select: { userId: true },
+      });
+      if (favorites.length === 0) return 0;
+
+      const userIds = favorites.map((favorite) => favorite.userId);
+      await this.notifications.sendWatchedItemNotification(
+        item.id,
+        item.title,
+        status,
+        userIds,
+      );
+
+      return userIds.length;
+    } catch (error) {
+      this.logger.error(
+        `Impossible de prévenir les utilisateurs qui suivent l'objet ${item.id}: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * @throws NotFoundException si l'objet n'existe pas
+   */
+  private async findItem(itemId: string) {
+    const item = await this.prisma.item.findUnique({
+      where: { id: itemId },
+      select: { id: true, ownerId: true, favoriteCount: true },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Item non trouvé');
+    }
+
+    return item;
+  }
+}
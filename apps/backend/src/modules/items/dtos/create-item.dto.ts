@@ -12,6 +12,8 @@
  * - condition: État de l'objet (obligatoire: NEW, GOOD, FAIR, TO_REPAIR)
  * - tags: Tags pour faciliter la recherche (1-10 tags, optionnel)
  * - aiAuto: Activer l'analyse IA automatique (optionnel, défaut: false)
+ * - location / latitude / longitude: Localisation de l'objet (optionnel,
+ *   sinon celle du profil du propriétaire)
  *
  * FONCTIONNALITÉS:
  * - Si aiAuto=true, l'IA analyse automatiquement le titre et la description
@@ -30,6 +32,8 @@ import {
   ArrayMaxSize,
   ArrayMinSize,
   ValidateIf,
+  IsLatitude,
+  IsLongitude,
 } from 'class-validator';
 
 // Import des décorateurs Swagger
@@ -38,6 +42,9 @@ import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 // Import des types Prisma
 import { ItemCategory, ItemCondition } from '@prisma/client';
 
+// Import du registre des catégories (message d'erreur)
+import { INVALID_CATEGORY_MESSAGE } from '../../../common/utils/item-categories';
+
 /**
  * DTO: CreateItemDto
  *
@@ -95,6 +102,7 @@ export class CreateItemDto {
    * @IsOptional(): Optionnel
    * @ValidateIf(): Valide seulement si défini
    * @IsEnum(): Doit être une valeur de l'enum ItemCategory
+   * (liste et labels: GET /items/categories)
    */
   @ApiPropertyOptional({
     description: "Catégorie de l'objet (optionnel si aiAuto=true)",
@@ -103,10 +111,7 @@ export class CreateItemDto {
   })
   @IsOptional()
   @ValidateIf((o) => o.category !== undefined)
-  @IsEnum(ItemCategory, {
-    message:
-      'Catégorie invalide. Catégories valides: ELECTRONICS, CLOTHING, BOOKS, FURNITURE, SPORTS, TOYS, OTHER',
-  })
+  @IsEnum(ItemCategory, { message: INVALID_CATEGORY_MESSAGE })
   category?: ItemCategory;
 
   /**
@@ -172,4 +177,43 @@ export class CreateItemDto {
   @IsOptional()
   @IsBoolean()
   aiAuto?: boolean;
+
+  /**
+   * PROPRIÉTÉ: location
+   *
+   * Ville où se trouve l'objet, si elle diffère de celle du propriétaire.
+   * Géocodée avec la table hors ligne des villes courantes.
+   *
+   * @IsOptional(): Optionnel
+   * @IsString(): Doit être une chaîne
+   * @MaxLength(100): Maximum 100 caractères
+   */
+  @ApiPropertyOptional({
+    description:
+      "Ville de l'objet (sinon la localisation du propriétaire est utilisée)",
+    maxLength: 100,
+    example: 'Lyon',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  location?: string | null;
+
+  /**
+   * PROPRIÉTÉS: latitude / longitude
+   *
+   * Coordonnées précises (ex: géolocalisation du navigateur), prioritaires
+   * sur la ville. Elles vont toujours ensemble et sont arrondies à ~1 km.
+   *
+   * @ValidateIf(): Obligatoire dès que l'une des deux est fournie
+   */
+  @ApiPropertyOptional({ description: 'Latitude', example: 45.76 })
+  @ValidateIf((o) => o.latitude !== undefined || o.longitude !== undefined)
+  @IsLatitude()
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Longitude', example: 4.84 })
+  @ValidateIf((o) => o.latitude !== undefined || o.longitude !== undefined)
+  @IsLongitude()
+  longitude?: number;
 }
@@ -8,12 +8,15 @@
  * FILTRES DISPONIBLES:
  * - page: Numéro de page (défaut: 1)
  * - limit: Nombre d'éléments par page (défaut: 20, max: 50)
- * - q: Recherche textuelle (titre, description, tags)
+ * - q: Recherche plein texte (titre, tags, description), sans accents et tolérante aux fautes
  * - category: Filtrer par catégorie
  * - condition: Filtrer par état
  * - status: Filtrer par statut (AVAILABLE, PENDING, TRADED, ARCHIVED)
  * - ownerId: Filtrer par propriétaire
- * - sort: Tri (ex: -createdAt pour plus récent en premier)
+ * - near: Point de recherche (ville connue ou "latitude,longitude")
+ * - radiusKm: Rayon autour de near (défaut: 50 km, max: 500 km)
+ * - sort: Tri (ex: -createdAt pour plus récent en premier, distance pour les plus proches,
+ *   relevance pour les plus pertinents; défaut: relevance avec q, sinon -createdAt)
  *
  * NOTE:
  * Tous les paramètres sont optionnels pour permettre une recherche flexible.
@@ -28,6 +31,7 @@ import {
   Min,
   Max,
   IsUUID,
+  MaxLength,
 } from 'class-validator';
 
 // Import des décorateurs Swagger
@@ -72,7 +76,8 @@ export class ListItemsQueryDto {
   limit?: number = 20;
 
   @ApiPropertyOptional({
-    description: 'Mot-clé pour la recherche full-text sur titre et description',
+    description:
+      'Recherche plein texte sur titre, tags et description (sans accents, tolérante aux fautes)',
     example: 'vintage',
   })
   @IsOptional()
@@ -116,10 +121,34 @@ export class ListItemsQueryDto {
 
   @ApiPropertyOptional({
     description:
-      'Tri des résultats (ex: -createdAt pour plus récent en premier)',
+      'Rechercher autour d\'une ville connue ou de coordonnées "latitude,longitude"',
+    example: 'Lyon',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  near?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rayon de recherche autour de near (km)',
+    minimum: 1,
+    maximum: 500,
+    default: 50,
+    example: 25,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  radiusKm?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Tri des résultats (ex: -createdAt pour plus récent en premier, distance pour les plus proches de near, relevance pour les plus pertinents). Défaut: relevance avec q, sinon -createdAt',
     example: '-createdAt',
   })
   @IsOptional()
   @IsString()
-  sort?: string = '-createdAt';
+  sort?: string;
 }
@@ -8,7 +8,9 @@
  * ROUTES:
  * - POST /api/v1/items - Créer un item (authentifié)
  * - GET /api/v1/items - Lister les items avec filtres (public)
+ * - GET /api/v1/items/categories - Catégories avec labels traduits et icônes (public)
  * - GET /api/v1/items/:id - Récupérer un item par ID (public)
+ * - POST /api/v1/items/:id/views - Enregistrer une vue de la fiche (public, dédupliquée)
  * - PATCH /api/v1/items/:id - Mettre à jour un item (propriétaire uniquement)
  * - DELETE /api/v1/items/:id - Supprimer un item (propriétaire uniquement)
  * - PATCH /api/v1/items/:id/status - Mettre à jour le statut (propriétaire uniquement)
@@ -50,19 +52,29 @@ import {
 
 // Import des services
 import { ItemsService, PaginatedItems, ItemWithPhotos } from './items.service';
+import { AiPhotoAnalysisResult } from '../ai/ai.service';
 import {
   UploadsService,
   SignedUploadParams,
   AttachPhotoDto,
 } from './uploads/uploads.service';
+import { EngagementService } from '../engagement/engagement.service';
 
 // Import des DTOs
 import { CreateItemDto } from './dtos/create-item.dto';
 import { UpdateItemDto } from './dtos/update-item.dto';
 import { ListItemsQueryDto } from './dtos/list-items.query.dto';
 
+// Import du registre des catégories
+import {
+  CATEGORY_LOCALES,
+  CategoryOption,
+  ITEM_CATEGORY_VALUES,
+} from '../../common/utils/item-categories';
+
 // Import des guards
 import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
+import { OptionalJwtAccessGuard } from '../../common/guards/optional-jwt-access.guard';
 
 // Import des types Prisma
 import { ItemStatus } from '@prisma/client';
@@ -86,6 +98,7 @@ export class ItemsController {
   constructor(
     private readonly itemsService: ItemsService,
     private readonly uploadsService: UploadsService,
+    private readonly engagementService: EngagementService,
   ) {}
 
   @Post()
@@ -130,19 +143,7 @@ export class ItemsController {
   @ApiQuery({
     name: 'category',
     required: false,
-    enum: [
-      'CLOTHING',
-      'ELECTRONICS',
-      'BOOKS',
-      'HOME',
-      'TOOLS',
-      'TOYS',
-      'SPORTS',
-      'ART',
-      'VINTAGE',
-      'HANDCRAFT',
-      'OTHER',
-    ],
+    enum: ITEM_CATEGORY_VALUES,
   })
   @ApiQuery({
     name: 'condition',
@@ -160,11 +161,24 @@ export class ItemsController {
     type: String,
     description: 'ID du propriétaire',
   })
+  @ApiQuery({
+    name: 'near',
+    required: false,
+    type: String,
+    description: 'Ville connue ou coordonnées "latitude,longitude"',
+  })
+  @ApiQuery({
+    name: 'radiusKm',
+    required: false,
+    type: Number,
+    description: 'Rayon autour de near en km (défaut: 50)',
+  })
   @ApiQuery({
     name: 'sort',
     required: false,
     type: String,
-    description: 'Tri (ex: -createdAt)',
+    description:
+      'Tri (ex: -createdAt, distance avec near, relevance avec q — défaut avec q)',
   })
   async listItems(@Query() query: ListItemsQueryDto): Promise<PaginatedItems> {
     /**
@@ -174,6 +188,23 @@ export class ItemsController {
     return this.itemsService.listItems(query);
   }
 
+  @Get('categories')
+  @ApiOperation({
+    summary: 'Lister les catégories',
+    description:
+      'Registre des catégories: labels traduits, icône et sous-catégories. Ce sont les seules catégories acceptées',
+  })
+  @ApiResponse({ status: 200, description: 'Liste des catégories' })
+  @ApiQuery({
+    name: 'locale',
+    required: false,
+    enum: CATEGORY_LOCALES,
+    description: 'Langue des labels (défaut: fr)',
+  })
+  listCategories(@Query('locale') locale?: string): CategoryOption[] {
+    return this.itemsService.listCategories(locale);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Récupérer un item par ID' })
   @ApiResponse({ status: 200, description: "Détails de l'item" })
@@ -182,6 +213,26 @@ export class ItemsController {
     return this.itemsService.getItemById(id);
   }
 
+  @Post(':id/views')
+  @UseGuards(OptionalJwtAccessGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: "Enregistrer une vue de la fiche d'un item",
+    description:
+      'Alimente le score de popularité. Une vue par visiteur (utilisateur connecté, sinon sessionId) et par jour; les vues du propriétaire sont ignorées',
+  })
+  @ApiResponse({ status: 204, description: 'Vue prise en compte' })
+  async recordView(
+    @Param('id') id: string,
+    @Request() req: any,
+    @Body('sessionId') sessionId?: string,
+  ): Promise<void> {
+    await this.engagementService.recordView(id, {
+      userId: req.user?.id,
+      sessionId: typeof sessionId === 'string' ? sessionId : null,
+    });
+  }
+
   @Patch(':id')
   @UseGuards(JwtAccessGuard)
   @ApiBearerAuth()
@@ -199,6 +250,31 @@ export class ItemsController {
     return this.itemsService.updateItem(id, req.user.id, updateItemDto);
   }
 
+  @Post(':id/analyze-photos')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      "Analyser les photos d'un item avec l'IA (suggestions, propriétaire uniquement)",
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Suggestions de catégorie, état, tags, titre et dégâts avec leur confiance',
+  })
+  @ApiResponse({ status: 400, description: "L'item n'a pas de photo" })
+  @ApiResponse({ status: 401, description: 'Non authentifié' })
+  @ApiResponse({ status: 403, description: 'Accès non autorisé' })
+  @ApiResponse({ status: 404, description: 'Item non trouvé' })
+  @ApiResponse({ status: 503, description: 'Analyse IA indisponible' })
+  async analyzeItemPhotos(
+    @Param('id') id: string,
+    @Request() req: any,
+  ): Promise<AiPhotoAnalysisResult> {
+    return this.itemsService.analyzeItemPhotos(id, req.user.id);
+  }
+
   @Delete(':id')
   @UseGuards(JwtAccessGuard)
   @ApiBearerAuth()
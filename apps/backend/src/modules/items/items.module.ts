@@ -28,6 +28,9 @@ import { UploadsService } from './uploads/uploads.service';
 // Import des modules dépendants
 import { PrismaModule } from '../../common/prisma/prisma.module';
 import { AiModule } from '../ai/ai.module';
+import { SavedSearchesModule } from '../saved-searches/saved-searches.module';
+import { FavoritesModule } from '../favorites/favorites.module';
+import { EngagementModule } from '../engagement/engagement.module';
 import cloudinaryConfig from '../../config/cloudinary.config';
 
 /**
@@ -40,6 +43,9 @@ import cloudinaryConfig from '../../config/cloudinary.config';
   imports: [
     PrismaModule, // Accès à la base de données
     AiModule, // Analyse IA des items
+    SavedSearchesModule, // Alertes des recherches sauvegardées
+    FavoritesModule, // Alertes des objets suivis
+    EngagementModule, // Vues des fiches (popularité)
     ConfigModule.forFeature(cloudinaryConfig), // Configuration Cloudinary
   ],
 
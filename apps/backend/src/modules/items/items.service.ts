@@ -7,7 +7,7 @@
  * Il agit comme couche intermédiaire entre:
  * - les contrôleurs REST (`ItemsController`)
  * - la base de données (via `PrismaService`)
- * - l'IA Gemini (`GeminiService`) pour l'analyse automatisée
+ * - l'IA (`AiService`) pour l'analyse automatisée
  *
  * PRINCIPAUX CAS D'USAGE COUVERTS:
  * 1. Création d'un item avec option d'analyse IA (catégories, tags, résumés, tips)
@@ -16,6 +16,18 @@
  * 4. Mise à jour d'un item / de son statut (contrôle strict du propriétaire)
  * 5. Suppression d'un item (cascade sur les photos via Prisma)
  * 6. Recherche par tags (utilisé pour les recommandations rapides)
+ * 7. Recherche par distance autour d'une ville ou de coordonnées (`near`, `radiusKm`)
+ * 8. Recherche plein texte PostgreSQL (sans accents, FR/EN, tolérante aux fautes)
+ *    avec tri par pertinence et compteurs par catégorie / état / statut (facettes)
+ * 9. Alertes des recherches sauvegardées quand un item devient disponible
+ *    (`SavedSearchesService.notifyMatches`)
+ * 10. Alertes des utilisateurs qui suivent un item quand son statut change
+ *    (`FavoritesService.notifyWatchers`)
+ * 11. Liste des catégories traduites (registre `common/utils/item-categories.ts`)
+ * 12. Suivi de la catégorie proposée par l'IA (conservée ou remplacée par le
+ *    propriétaire) pour comparer les versions du prompt d'analyse
+ * 13. Analyse des photos d'un item (modèle multimodal): suggestions à accepter
+ *    ou refuser par le propriétaire, rien n'est modifié
  *
  * GARANTIES MÉTIER & SÉCURITÉ:
  * - Toutes les opérations d'écriture vérifient que l'utilisateur est propriétaire
@@ -35,11 +47,32 @@ import {
   NotFoundException,
   ForbiddenException,
   BadRequestException,
+  HttpException,
+  HttpStatus,
 } from '@nestjs/common';
 
 // Import des services
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { GeminiService } from '../ai/gemini.service';
+import { AiPhotoAnalysisResult, AiService } from '../ai/ai.service';
+import { PromptTemplatesService } from '../ai/prompt-templates.service';
+import { SavedSearchesService } from '../saved-searches/saved-searches.service';
+import { FavoritesService } from '../favorites/favorites.service';
+
+// Import des utilitaires de géolocalisation
+import {
+  DEFAULT_NEAR_RADIUS_KM,
+  EARTH_RADIUS_KM,
+  GeoPoint,
+  GeoUtil,
+} from '../../common/utils/geo.util';
+
+// Import du registre des catégories
+import {
+  CategoryOption,
+  INVALID_CATEGORY_MESSAGE,
+  isItemCategory,
+  listCategoryOptions,
+} from '../../common/utils/item-categories';
 
 // Import des DTOs
 import { CreateItemDto } from './dtos/create-item.dto';
@@ -74,6 +107,7 @@ export interface ItemWithPhotos extends Item {
     displayName: string;
     avatarUrl?: string;
   };
+  distanceKm?: number; // Présent uniquement pour une recherche avec `near`
 }
 
 /**
@@ -87,6 +121,78 @@ export interface PaginatedItems {
   page: number;
   limit: number;
   totalPages: number;
+  facets: ItemFacets;
+}
+
+/**
+ * INTERFACE: ItemFacets
+ *
+ * Nombre d'items par valeur de filtre. Chaque facette applique tous les
+ * autres filtres mais pas le sien (ex: les compteurs par catégorie ignorent
+ * la catégorie sélectionnée), pour afficher ce que donnerait chaque choix.
+ */
+export interface ItemFacets {
+  category: Partial<Record<ItemCategory, number>>;
+  condition: Partial<Record<ItemCondition, number>>;
+  status: Partial<Record<ItemStatus, number>>;
+}
+
+/**
+ * Filtres pouvant faire l'objet d'une facette.
+ */
+type FacetField = keyof ItemFacets;
+
+/**
+ * Nombre maximum d'items retenus par statut pour une recherche `near`
+ * (les plus proches).
+ */
+const NEAR_SEARCH_MAX_RESULTS = 1000;
+
+/**
+ * Nombre maximum de résultats retenus par statut pour une recherche plein
+ * texte (les mieux classés).
+ */
+const SEARCH_MAX_RESULTS = 1000;
+
+/**
+ * Seuil de similarité (trigrammes) entre la recherche et un mot du titre
+ * pour tolérer les fautes de frappe ("vleo" → "vélo").
+ */
+const SEARCH_FUZZY_THRESHOLD = 0.4;
+
+/**
+ * Poids de la similarité approximative dans le score de pertinence,
+ * à côté du rang plein texte (titre > tags > description).
+ */
+const SEARCH_FUZZY_WEIGHT = 0.5;
+
+/**
+ * Résultat observé de l'analyse IA: la catégorie proposée est-elle conservée
+ * par le propriétaire ? (comparaison des versions du prompt itemAnalysis)
+ */
+const CATEGORY_KEPT_METRIC = 'categoryKept';
+
+/**
+ * Nombre maximum de photos envoyées au modèle pour l'analyse des photos
+ * (les premières ajoutées).
+ */
+const PHOTO_ANALYSIS_MAX_PHOTOS = 4;
+
+/**
+ * Ajoute la distance (arrondie au kilomètre) aux items d'une recherche `near`.
+ */
+function withDistances<T extends { id: string }>(
+  items: T[],
+  distances: Map<string, number> | null,
+): (T & { distanceKm?: number })[] {
+  if (!distances) {
+    return items;
+  }
+
+  return items.map((item) => ({
+    ...item,
+    distanceKm: Math.round(distances.get(item.id)),
+  }));
 }
 
 /**
@@ -101,11 +207,17 @@ export class ItemsService {
    *
    * Injection des dépendances:
    * - prisma: pour accéder à la base de données
-   * - geminiService: pour l'analyse IA des items
+   * - aiService: pour l'analyse IA des items
+   * - savedSearches: pour alerter les utilisateurs dont une recherche correspond
+   * - favorites: pour alerter les utilisateurs qui suivent l'item
+   * - prompts: pour enregistrer si la catégorie proposée par l'IA est conservée
    */
   constructor(
     private readonly prisma: PrismaService,
-    private readonly geminiService: GeminiService,
+    private readonly aiService: AiService,
+    private readonly savedSearches: SavedSearchesService,
+    private readonly favorites: FavoritesService,
+    private readonly prompts: PromptTemplatesService,
   ) {}
 
   // ============================================
@@ -119,6 +231,7 @@ export class ItemsService {
    * - Analyse IA optionnelle pour catégoriser automatiquement l'item
    * - Validation de la catégorie
    * - Association automatique avec le propriétaire (userId)
+   * - Alerte des utilisateurs dont une recherche sauvegardée correspond
    *
    * @param userId - ID de l'utilisateur créateur (propriétaire)
    * @param createItemDto - Données de l'item à créer
@@ -146,14 +259,21 @@ export class ItemsService {
      * - Les tags
      * - Un résumé
      * - Des conseils de réparation
+     *
+     * Sans réponse de l'IA (erreur, budget IA atteint), l'item est créé
+     * avec les données fournies.
      */
     let aiAnalysis = null;
     if (aiAuto) {
       console.log('🔍 Début analyse IA pour:', itemData.title);
-      aiAnalysis = await this.geminiService.analyzeItem({
-        title: itemData.title,
-        description: itemData.description,
-      });
+      // L'item n'existe pas encore: l'appel est rattaché à son propriétaire
+      aiAnalysis = await this.aiService.analyzeItem(
+        {
+          title: itemData.title,
+          description: itemData.description,
+        },
+        { type: 'User', id: userId },
+      );
       console.log('🤖 Résultat analyse IA:', aiAnalysis);
     }
 
@@ -171,6 +291,7 @@ export class ItemsService {
       tags: aiAnalysis?.tags || itemData.tags || [], // Tags IA > manuels > []
       aiSummary: aiAnalysis?.aiSummary, // Résumé généré par l'IA
       aiRepairTip: aiAnalysis?.aiRepairTip, // Conseils de réparation de l'IA
+      ...GeoUtil.resolveInput(itemData), // Coordonnées arrondies + geohash
     };
 
     // ============================================
@@ -183,20 +304,9 @@ export class ItemsService {
       );
     }
 
-    // Vérifier que la catégorie est valide
-    const validCategories = [
-      'ELECTRONICS',
-      'CLOTHING',
-      'BOOKS',
-      'FURNITURE',
-      'SPORTS',
-      'TOYS',
-      'OTHER',
-    ];
-    if (!validCategories.includes(finalItemData.category)) {
-      throw new BadRequestException(
-        `Catégorie invalide. Catégories valides: ${validCategories.join(', ')}`,
-      );
+    // Vérifier que la catégorie est valide (registre des catégories)
+    if (!isItemCategory(finalItemData.category)) {
+      throw new BadRequestException(INVALID_CATEGORY_MESSAGE);
     }
 
     // ============================================
@@ -229,6 +339,20 @@ export class ItemsService {
       },
     });
 
+    // Catégorie proposée par l'IA: conservée tant que le propriétaire ne la change pas
+    if (aiAnalysis) {
+      await this.prompts.tagOutcome({
+        feature: 'itemAnalysis',
+        promptVersion: aiAnalysis.promptVersion,
+        entity: { type: 'Item', id: item.id },
+        metric: CATEGORY_KEPT_METRIC,
+        value: true,
+      });
+    }
+
+    // Un nouvel item est disponible: alerter les recherches sauvegardées
+    await this.savedSearches.notifyMatches(item);
+
     return item;
   }
 
@@ -240,15 +364,32 @@ export class ItemsService {
    * Liste les items avec filtres et pagination.
    *
    * FILTRES DISPONIBLES:
-   * - q: Recherche textuelle (titre, description, tags)
+   * - q: Recherche plein texte (titre, tags, description)
    * - category: Filtrer par catégorie
    * - condition: Filtrer par état (NEW, GOOD, FAIR, TO_REPAIR)
    * - status: Filtrer par statut (AVAILABLE, PENDING, TRADED, ARCHIVED)
    * - ownerId: Filtrer par propriétaire
-   * - sort: Tri (ex: -createdAt pour plus récent en premier)
+   * - near / radiusKm: Items à moins de radiusKm km du point (ville ou coordonnées)
+   * - sort: Tri (ex: -createdAt pour plus récent en premier, distance avec near,
+   *   relevance avec q; défaut: relevance avec q, sinon -createdAt;
+   *   sans q, relevance revient à -createdAt)
+   *
+   * RECHERCHE PLEIN TEXTE:
+   * - Voir `rankSearchMatches`: les items correspondants sont filtrés par ID,
+   *   le tri par pertinence est appliqué en mémoire sur ces IDs
+   *
+   * FACETTES:
+   * - Toujours renvoyées (`facets`), calculées avec `groupBy`
+   * - Pour une recherche par distance, elles portent sur les items du rayon
+   *
+   * RECHERCHE PAR DISTANCE:
+   * - Voir `findNearbyItems`: distance exacte calculée en base, les items du
+   *   rayon sont filtrés par ID, le tri par distance est appliqué sur ces IDs
+   * - Chaque item renvoyé porte `distanceKm` (arrondie au kilomètre)
    *
    * @param query - Paramètres de filtrage et pagination
    * @returns Liste paginée d'items
+   * @throws BadRequestException si near est inconnu ou si sort=distance sans near
    */
   async listItems(query: ListItemsQueryDto): Promise<PaginatedItems> {
     const {
@@ -259,7 +400,9 @@ export class ItemsService {
       condition,
       status,
       ownerId,
-      sort = '-createdAt',
+      near,
+      radiusKm = DEFAULT_NEAR_RADIUS_KM,
+      sort = q?.trim() ? 'relevance' : '-createdAt', // Une recherche est triée par pertinence
     } = query;
 
     // Convertir en numbers pour éviter les erreurs Prisma
@@ -269,38 +412,72 @@ export class ItemsService {
 
     // Construire les filtres
     // (cette structure est passée telle quelle à Prisma, ce qui limite le boilerplate)
-    const where: Prisma.ItemWhereInput = {
+    /**
+     * On sépare les filtres "à facette" (catégorie, état, statut) du reste:
+     * chaque facette est comptée sans son propre filtre.
+     */
+    const baseWhere: Prisma.ItemWhereInput = {};
+    const facetFilters: Pick<Prisma.ItemWhereInput, FacetField> = {
       status: status || ItemStatus.AVAILABLE, // Filtre par défaut : uniquement les items disponibles
     };
 
     if (category) {
-      where.category = category;
+      facetFilters.category = category;
     }
 
     if (condition) {
-      where.condition = condition;
+      facetFilters.condition = condition;
     }
 
     if (ownerId) {
-      where.ownerId = ownerId;
+      baseWhere.ownerId = ownerId;
+    }
+
+    // Recherche par distance: position valide avant toute requête
+    if (sort === 'distance' && !near) {
+      throw new BadRequestException(
+        'Le tri par distance nécessite le paramètre near',
+      );
     }
 
-    // Recherche full-text
-    if (q) {
-      where.OR = [
-        { title: { contains: q, mode: 'insensitive' } },
-        { description: { contains: q, mode: 'insensitive' } },
-        { tags: { has: q } },
-      ];
+    let center: GeoPoint | null = null;
+    if (near) {
+      center = GeoUtil.parseNear(near);
+      if (!center) {
+        throw new BadRequestException(
+          'Localisation inconnue: indiquez une ville courante ou des coordonnées "latitude,longitude"',
+        );
+      }
     }
 
+    // Recherche plein texte: IDs correspondants + score de pertinence
+    const ranks = q?.trim() ? await this.rankSearchMatches(q, ownerId) : null;
+
+    // Recherche par distance: IDs dans le rayon + distance exacte
+    const distances = center
+      ? await this.findNearbyItems(center, radiusKm, ownerId)
+      : null;
+
+    if (ranks || distances) {
+      const ids = [...(ranks ?? distances).keys()].filter(
+        (id) => !ranks || !distances || distances.has(id),
+      );
+      baseWhere.id = { in: ids };
+    }
+
+    const where: Prisma.ItemWhereInput = { ...baseWhere, ...facetFilters };
+
     // Construire l'ordre de tri
     /**
      * Construction dynamique du tri.
      * Convention: un `-` en prefix signifie tri descendant (`-createdAt` → plus récents d'abord).
+     * Les tris par distance et par pertinence sont appliqués sur les scores
+     * calculés en base (voir listItemsByScore).
      */
     const orderBy: Prisma.ItemOrderByWithRelationInput = {};
-    if (sort.startsWith('-')) {
+    if (sort === 'distance' || sort === 'relevance') {
+      orderBy.createdAt = 'desc';
+    } else if (sort.startsWith('-')) {
       orderBy[sort.substring(1)] = 'desc';
     } else {
       orderBy[sort] = 'asc';
@@ -308,7 +485,30 @@ export class ItemsService {
 
     // Requêtes parallèles avec gestion d'erreur
     try {
-      const [items, total] = await Promise.all([
+      const facets = this.computeFacets(baseWhere, facetFilters);
+
+      // Tri par distance (croissante) ou par pertinence (décroissante)
+      const scores =
+        sort === 'distance' ? distances : sort === 'relevance' ? ranks : null;
+      if (scores) {
+        const [result, facetCounts] = await Promise.all([
+          this.listItemsByScore(
+            where,
+            scores,
+            sort === 'distance' ? 'asc' : 'desc',
+            pageNum,
+            limitNum,
+          ),
+          facets,
+        ]);
+        return {
+          ...result,
+          items: withDistances(result.items, distances),
+          facets: facetCounts,
+        };
+      }
+
+      const [items, total, facetCounts] = await Promise.all([
         this.prisma.item.findMany({
           where,
           orderBy,
@@ -334,14 +534,16 @@ export class ItemsService {
           },
         }),
         this.prisma.item.count({ where }), // deuxième requête pour la pagination (total global)
+        facets,
       ]);
 
       return {
-        items,
+        items: withDistances(items, distances),
         total,
         page: pageNum,
         limit: limitNum,
         totalPages: Math.ceil(total / limitNum),
+        facets: facetCounts,
       };
     } catch (error: any) {
       // Si erreur de connexion Prisma, retourner une liste vide
@@ -353,6 +555,7 @@ export class ItemsService {
           page: pageNum,
           limit: limitNum,
           totalPages: 0,
+          facets: { category: {}, condition: {}, status: {} },
         };
       }
       // Propager les autres erreurs
@@ -360,6 +563,226 @@ export class ItemsService {
     }
   }
 
+  /**
+   * Variante de listItems pour un tri par score (pertinence ou distance).
+   *
+   * Les IDs correspondant à tous les filtres sont triés selon leur score,
+   * puis seule la page demandée est chargée (dans le même ordre).
+   *
+   * @param scores - Score par ID (rang de pertinence ou distance en km)
+   * @param direction - desc: meilleur score d'abord (pertinence), asc: plus
+   * petit d'abord (distance)
+   */
+  private async listItemsByScore(
+    where: Prisma.ItemWhereInput,
+    scores: Map<string, number>,
+    direction: 'asc' | 'desc',
+    page: number,
+    limit: number,
+  ): Promise<Omit<PaginatedItems, 'facets'>> {
+    const matching = await this.prisma.item.findMany({
+      where,
+      select: { id: true },
+    });
+    const sign = direction === 'asc' ? 1 : -1;
+    const orderedIds = matching
+      .map(({ id }) => id)
+      .sort((a, b) => sign * (scores.get(a) - scores.get(b)));
+
+    const skip = (page - 1) * limit;
+    const pageIds = orderedIds.slice(skip, skip + limit);
+    const items = await this.prisma.item.findMany({
+      where: { id: { in: pageIds } },
+      include: {
+        photos: {
+          select: {
+            id: true,
+            url: true,
+            width: true,
+            height: true,
+            createdAt: true,
+          },
+        },
+        owner: {
+          select: {
+            id: true,
+            displayName: true,
+            avatarUrl: true,
+          },
+        },
+      },
+    });
+
+    return {
+      items: items.sort(
+        (a, b) => pageIds.indexOf(a.id) - pageIds.indexOf(b.id),
+      ),
+      total: orderedIds.length,
+      page,
+      limit,
+      totalPages: Math.ceil(orderedIds.length / limit),
+    };
+  }
+
+  /**
+   * Recherche plein texte PostgreSQL.
+   *
+   * FONCTIONNEMENT (voir la migration `item_full_text_search`):
+   * - `searchVector`: colonne générée, titre (poids A) > tags (B) > description (C),
+   *   sans accents, en configuration française ET anglaise ("velo" trouve "vélo",
+   *   "chaussures" trouve "chaussure")
+   * - Tolérance aux fautes: similarité de trigrammes avec les mots du titre
+   *   (opérateur `<%`, index GIN trigram)
+   * - Score = rang plein texte + SEARCH_FUZZY_WEIGHT × similarité
+   * - Les SEARCH_MAX_RESULTS mieux classés de chaque statut sont retenus:
+   *   les filtres et facettes restent exacts pour le statut demandé
+   *
+   * @param q - Texte saisi (syntaxe "websearch": guillemets, OR, -exclusion)
+   * @param ownerId - Propriétaire (filtre appliqué avant la limite)
+   * @returns Score de pertinence par ID d'item
+   */
+  private async rankSearchMatches(
+    q: string,
+    ownerId?: string,
+  ): Promise<Map<string, number>> {
+    const [, rows] = await this.prisma.$transaction([
+      // Seuil de l'opérateur `<%`, limité à cette transaction
+      this.prisma.$executeRaw`
+        SELECT set_config('pg_trgm.word_similarity_threshold', ${String(SEARCH_FUZZY_THRESHOLD)}, true)`,
+      this.prisma.$queryRaw<{ id: string; rank: number }[]>`
+        SELECT ranked."id", ranked."rank"
+        FROM (
+          SELECT matched."id", matched."rank",
+            ROW_NUMBER() OVER (
+              PARTITION BY matched."status"
+              ORDER BY matched."rank" DESC
+            ) AS "position"
+          FROM (
+            SELECT i."id", i."status",
+              (ts_rank_cd(i."searchVector", search.query)
+                + ${SEARCH_FUZZY_WEIGHT} * word_similarity(search.text, immutable_unaccent(lower(i."title"))))::float8 AS "rank"
+            FROM "items" i,
+              (SELECT websearch_to_tsquery('french', immutable_unaccent(${q}))
+                  || websearch_to_tsquery('english', immutable_unaccent(${q})) AS query,
+                immutable_unaccent(lower(${q})) AS text) search
+            WHERE (i."searchVector" @@ search.query
+                OR search.text <% immutable_unaccent(lower(i."title")))
+              ${ownerId ? Prisma.sql`AND i."ownerId" = ${ownerId}` : Prisma.empty}
+          ) matched
+        ) ranked
+        WHERE ranked."position" <= ${SEARCH_MAX_RESULTS}`,
+    ]);
+
+    return new Map(rows.map(({ id, rank }) => [id, rank]));
+  }
+
+  /**
+   * Items à moins de radiusKm km d'un point, avec leur distance.
+   *
+   * FONCTIONNEMENT:
+   * - Position de l'item, sinon celle du profil du propriétaire
+   * - Rectangle englobant indexable (items et profils), puis distance exacte
+   *   (haversine) calculée en base
+   * - Les NEAR_SEARCH_MAX_RESULTS plus proches de chaque statut sont retenus:
+   *   les filtres et facettes restent exacts pour le statut demandé
+   * - Aussi utilisé par MatchingService (rayon des recommandations)
+   *
+   * @param center - Point de recherche
+   * @param radiusKm - Rayon en km
+   * @param ownerId - Propriétaire (filtre appliqué avant la limite)
+   * @returns Distance en km par ID d'item (dans le rayon)
+   */
+  async findNearbyItems(
+    center: GeoPoint,
+    radiusKm: number,
+    ownerId?: string,
+  ): Promise<Map<string, number>> {
+    const box = GeoUtil.boundingBox(center, radiusKm);
+    const inBox = (table: Prisma.Sql) => Prisma.sql`
+      ${table}."latitude" BETWEEN ${box.minLatitude}::float8 AND ${box.maxLatitude}::float8
+      AND ${table}."longitude" BETWEEN ${box.minLongitude}::float8 AND ${box.maxLongitude}::float8`;
+
+    const rows = await this.prisma.$queryRaw<
+      { id: string; distance: number }[]
+    >`
+      SELECT ranked."id", ranked."distance"
+      FROM (
+        SELECT located."id", located."distance",
+          ROW_NUMBER() OVER (
+            PARTITION BY located."status"
+            ORDER BY located."distance", located."createdAt" DESC
+          ) AS "position"
+        FROM (
+          SELECT i."id", i."status", i."createdAt",
+            (2 * ${EARTH_RADIUS_KM}::float8 * asin(least(1, sqrt(
+              power(sin(radians(point."latitude" - ${center.latitude}::float8) / 2), 2)
+              + cos(radians(${center.latitude}::float8)) * cos(radians(point."latitude"))
+                * power(sin(radians(point."longitude" - ${center.longitude}::float8) / 2), 2)
+            ))))::float8 AS "distance"
+          FROM "items" i
+          LEFT JOIN "user_profiles" p ON p."userId" = i."ownerId"
+          CROSS JOIN LATERAL (
+            SELECT
+              CASE WHEN i."latitude" IS NULL THEN p."latitude" ELSE i."latitude" END AS "latitude",
+              CASE WHEN i."latitude" IS NULL THEN p."longitude" ELSE i."longitude" END AS "longitude"
+          ) point
+          WHERE ((${inBox(Prisma.sql`i`)}) OR (i."latitude" IS NULL AND ${inBox(Prisma.sql`p`)}))
+            ${ownerId ? Prisma.sql`AND i."ownerId" = ${ownerId}` : Prisma.empty}
+        ) located
+        WHERE located."distance" <= ${radiusKm}::float8
+      ) ranked
+      WHERE ranked."position" <= ${NEAR_SEARCH_MAX_RESULTS}`;
+
+    return new Map(rows.map(({ id, distance }) => [id, distance]));
+  }
+
+  /**
+   * Compteurs par catégorie, état et statut (voir ItemFacets).
+   *
+   * @param baseWhere - Filtres hors facettes (recherche, propriétaire, distance)
+   * @param facetFilters - Filtres à facette actuellement appliqués
+   */
+  private async computeFacets(
+    baseWhere: Prisma.ItemWhereInput,
+    facetFilters: Pick<Prisma.ItemWhereInput, FacetField>,
+  ): Promise<ItemFacets> {
+    const fields: FacetField[] = ['category', 'condition', 'status'];
+
+    const groups = await Promise.all(
+      fields.map((field) => {
+        // Tous les filtres sauf celui de la facette comptée
+        const { [field]: _ignored, ...otherFilters } = facetFilters;
+        return this.prisma.item.groupBy({
+          by: [field],
+          where: { ...baseWhere, ...otherFilters },
+          _count: { _all: true },
+        });
+      }),
+    );
+
+    const facets: ItemFacets = { category: {}, condition: {}, status: {} };
+    fields.forEach((field, index) => {
+      for (const group of groups[index]) {
+        facets[field][group[field]] = group._count._all;
+      }
+    });
+    return facets;
+  }
+
+  // ============================================
+  // MÉTHODE: listCategories (Registre des catégories)
+  // ============================================
+
+  /**
+   * Catégories disponibles avec leurs labels traduits, icônes et sous-catégories.
+   * Les catégories acceptées à la création d'un item sont exactement celles-ci.
+   *
+   * @param locale - Langue des labels (ex: 'fr', 'en'; défaut: 'fr')
+   */
+  listCategories(locale?: string): CategoryOption[] {
+    return listCategoryOptions(locale);
+  }
+
   // ============================================
   // MÉTHODE: getItemById (Récupérer un item)
   // ============================================
@@ -452,15 +875,21 @@ export class ItemsService {
       updateItemDto.aiAuto &&
       (updateItemDto.title || updateItemDto.description)
     ) {
-      aiAnalysis = await this.geminiService.analyzeItem({
-        title: updateItemDto.title || existingItem.title,
-        description: updateItemDto.description || existingItem.description,
-      });
+      aiAnalysis = await this.aiService.analyzeItem(
+        {
+          title: updateItemDto.title || existingItem.title,
+          description: updateItemDto.description || existingItem.description,
+        },
+        { type: 'Item', id },
+      );
     }
 
     // Préparer les données de mise à jour
     const { aiAuto, ...updateData } = updateItemDto;
 
+    // Localisation: coordonnées arrondies + geohash (inchangée si non fournie)
+    Object.assign(updateData, GeoUtil.resolveInput(updateItemDto));
+
     if (aiAnalysis) {
       updateData.category = aiAnalysis.category;
       updateData.tags = aiAnalysis.tags;
@@ -491,9 +920,98 @@ export class ItemsService {
       },
     });
 
+    // Nouvelle analyse IA, ou catégorie de l'IA remplacée par le propriétaire
+    if (aiAnalysis) {
+      await this.prompts.tagOutcome({
+        feature: 'itemAnalysis',
+        promptVersion: aiAnalysis.promptVersion,
+        entity: { type: 'Item', id },
+        metric: CATEGORY_KEPT_METRIC,
+        value: true,
+      });
+    } else if (
+      updateItemDto.category &&
+      updateItemDto.category !== existingItem.category
+    ) {
+      await this.prompts.updateOutcome(
+        { type: 'Item', id },
+        CATEGORY_KEPT_METRIC,
+        false,
+      );
+    }
+
     return updatedItem;
   }
 
+  // ============================================
+  // MÉTHODE: analyzeItemPhotos (Analyser les photos)
+  // ============================================
+
+  /**
+   * Analyse les photos d'un item avec un modèle multimodal.
+   *
+   * Les suggestions (catégorie, état, tags, titre, dégâts) sont seulement
+   * retournées: le propriétaire les accepte ou les refuse dans le formulaire,
+   * puis enregistre l'item avec updateItem.
+   *
+   * @param id - ID de l'item
+   * @param userId - ID de l'utilisateur (doit être le propriétaire)
+   * @returns Suggestions avec leur confiance
+   * @throws NotFoundException si l'item n'existe pas
+   * @throws ForbiddenException si l'utilisateur n'est pas le propriétaire
+   * @throws BadRequestException si l'item n'a pas de photo
+   * @throws HttpException (503) si l'analyse IA est indisponible ou échoue
+   */
+  async analyzeItemPhotos(
+    id: string,
+    userId: string,
+  ): Promise<AiPhotoAnalysisResult> {
+    const item = await this.prisma.item.findUnique({
+      where: { id },
+      include: {
+        photos: {
+          select: { url: true },
+          orderBy: { createdAt: 'asc' },
+          take: PHOTO_ANALYSIS_MAX_PHOTOS,
+        },
+      },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Item non trouvé');
+    }
+
+    if (item.ownerId !== userId) {
+      throw new ForbiddenException(
+        'Vous ne pouvez analyser que vos propres items',
+      );
+    }
+
+    if (item.photos.length === 0) {
+      throw new BadRequestException(
+        "Ajoutez au moins une photo avant de lancer l'analyse",
+      );
+    }
+
+    const analysis = await this.aiService.analyzeItemPhotos(
+      {
+        title: item.title,
+        description: item.description,
+        photoUrls: item.photos.map((photo) => photo.url),
+      },
+      { type: 'Item', id },
+    );
+
+    if (!analysis) {
+      throw new HttpException(
+        'Analyse des photos indisponible, réessayez plus tard',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    return analysis;
+  }
+
   // ============================================
   // MÉTHODE: deleteItem (Supprimer un item)
   // ============================================
@@ -569,6 +1087,8 @@ export class ItemsService {
    * - TRADED: Échangé
    * - ARCHIVED: Archivé
    *
+   * Un item qui redevient AVAILABLE déclenche les alertes des recherches sauvegardées.
+   *
    * @param id - ID de l'item
    * @param userId - ID de l'utilisateur (doit être le propriétaire)
    * @param status - Nouveau statut
@@ -619,6 +1139,16 @@ export class ItemsService {
       },
     });
 
+    // Item remis en disponibilité: alerter les recherches sauvegardées
+    if (existingItem.status !== ItemStatus.AVAILABLE) {
+      await this.savedSearches.notifyMatches(updatedItem);
+    }
+
+    // Statut modifié: prévenir les utilisateurs qui suivent l'item
+    if (existingItem.status !== status) {
+      await this.favorites.notifyWatchers(updatedItem, status);
+    }
+
     return updatedItem;
   }
 
@@ -15,6 +15,8 @@
  *
  * SÉCURITÉ:
  * - Signatures cryptographiques pour éviter les abus
+ * - Seules les URLs d'images du cloud Cloudinary configuré sont enregistrées
+ *   (le serveur télécharge ces images pour l'analyse IA)
  * - Validation de la taille et du format des fichiers
  * - Limitation du nombre de photos par item
  * - Suppression des photos depuis Cloudinary lors de la suppression
@@ -37,6 +39,9 @@ import { v2 as cloudinary } from 'cloudinary';
 // Import de crypto pour générer les signatures
 import { createHash } from 'crypto';
 
+// Import de la validation des URLs Cloudinary
+import { CloudinaryUtil } from '../../../common/utils/cloudinary.util';
+
 /**
  * INTERFACE: SignedUploadParams
  *
@@ -167,15 +172,19 @@ export class UploadsService {
    * Attache une photo à un item après upload réussi sur Cloudinary.
    *
    * VALIDATION:
+   * - Vérifie que l'URL est une image du cloud Cloudinary configuré
    * - Vérifie que l'item existe
    * - Vérifie que le nombre maximum de photos n'est pas atteint
    *
    * @param itemId - ID de l'item
    * @param photoData - Données de la photo (URL, publicId, dimensions)
    * @throws NotFoundException si l'item n'existe pas
-   * @throws BadRequestException si le nombre maximum de photos est atteint
+   * @throws BadRequestException si l'URL n'est pas une image Cloudinary ou si
+   * le nombre maximum de photos est atteint
    */
   async attachPhoto(itemId: string, photoData: AttachPhotoDto): Promise<void> {
+    this.assertCloudinaryUrls([photoData]);
+
     // Vérifier que l'item existe
     const item = await this.prisma.item.findUnique({
       where: { id: itemId },
@@ -216,19 +225,22 @@ export class UploadsService {
    * Attache plusieurs photos à un item en une transaction atomique.
    *
    * FONCTIONNEMENT:
+   * - Vérifie que toutes les URLs sont des images du cloud Cloudinary configuré
    * - Vérifie le nombre de photos existantes
    * - Limite le nombre de photos à insérer selon la limite maximale
    * - Insère toutes les photos en une transaction
    *
    * @param itemId - ID de l'item
    * @param photos - Tableau de photos à attacher
-   * @throws BadRequestException si aucune photo fournie ou limite atteinte
+   * @throws BadRequestException si aucune photo fournie, URL hors Cloudinary
+   * ou limite atteinte
    * @throws NotFoundException si l'item n'existe pas
    */
   async attachPhotos(itemId: string, photos: AttachPhotoDto[]): Promise<void> {
     if (!Array.isArray(photos) || photos.length === 0) {
       throw new BadRequestException('Aucune photo fournie');
     }
+    this.assertCloudinaryUrls(photos);
 
     // Vérifier l'item
     const item = await this.prisma.item.findUnique({ where: { id: itemId } });
@@ -347,6 +359,29 @@ export class UploadsService {
     });
   }
 
+  // ============================================
+  // MÉTHODE PRIVÉE: assertCloudinaryUrls
+  // ============================================
+
+  /**
+   * Vérifie que chaque photo est une image du cloud Cloudinary configuré.
+   *
+   * @param photos - Photos à attacher
+   * @throws BadRequestException si une URL est hors Cloudinary
+   */
+  private assertCloudinaryUrls(photos: AttachPhotoDto[]): void {
+    const invalid = photos.find(
+      (photo) =>
+        !CloudinaryUtil.isAssetUrl(photo?.url, this.cloudinaryConfig.cloudName),
+    );
+
+    if (invalid) {
+      throw new BadRequestException(
+        'URL de photo invalide: seules les images Cloudinary sont acceptées',
+      );
+    }
+  }
+
   // ============================================
   // MÉTHODE PRIVÉE: createSignature
   // ============================================
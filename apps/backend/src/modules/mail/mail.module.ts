@@ -0,0 +1,44 @@
+/**
+ * FICHIER: mail.module.ts
+ *
+ * DESCRIPTION:
+ * Ce module NestJS regroupe l'envoi des emails de notification.
+ *
+ * COMPOSANTS:
+ * - MailService: Mise en forme des modèles, liens de désinscription signés, envoi
+ * - Transports: SMTP, fichiers .eml ou console (choisi par MAIL_TRANSPORT)
+ *
+ * DÉPENDANCES:
+ * - ConfigModule: Transport, serveur SMTP, URLs et secret (mail.config)
+ *
+ * UTILISATION:
+ * Importé par NotificationsModule (emails d'événements, désinscription)
+ * et SchedulerModule (résumés quotidiens / hebdomadaires).
+ */
+
+// Import du décorateur Module
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+// Import des composants du module
+import { MailService } from './mail.service';
+
+// Import de la configuration des emails
+import mailConfig from '../../config/mail.config';
+
+/**
+ * MODULE: MailModule
+ *
+ * Module pour l'envoi des emails.
+ */
+@Module({
+  // Modules importés nécessaires
+  imports: [ConfigModule.forFeature(mailConfig)],
+
+  // Services fournis par ce module
+  providers: [MailService],
+
+  // Services exportés pour être utilisés dans d'autres modules
+  exports: [MailService],
+})
+export class MailModule {}
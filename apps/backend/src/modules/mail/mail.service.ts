@@ -0,0 +1,220 @@
+/**
+ * FICHIER: mail.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service envoie les emails de notification: il met en forme un modèle
+ * (mail.templates.ts) dans la langue du destinataire, ajoute les liens de
+ * désinscription signés et confie l'email au transport configuré.
+ *
+ * TRANSPORTS (mail.transport):
+ * - smtp: SmtpMailTransport (serveur SMTP)
+ * - file: FileMailTransport (fichiers .eml, tests locaux)
+ * - console: ConsoleMailTransport (logs, défaut)
+ *
+ * DÉSINSCRIPTION EN UN CLIC:
+ * - Token = base64url(JSON { u: userId, s: scope }) + "." + signature HMAC-SHA256
+ * - Pied de page: lien vers la page /unsubscribe du frontend
+ * - En-têtes List-Unsubscribe / List-Unsubscribe-Post (RFC 8058): le client mail
+ *   appelle directement POST /notifications/unsubscribe?token=...
+ * - Le scope est choisi par l'appelant (type de notification, résumé...)
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+// Import de Node.js
+import * as crypto from 'crypto';
+
+// Import des transports
+import { MailTransport } from './transports/mail-transport';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { ConsoleMailTransport } from './transports/console.transport';
+
+// Import des modèles
+import {
+  MailTemplateName,
+  MailTemplateParams,
+  renderMail,
+  resolveMailLocale,
+} from './mail.templates';
+
+/**
+ * Email à envoyer à partir d'un modèle.
+ */
+export interface TemplateMailOptions<K extends MailTemplateName> {
+  userId: string;
+  to: string;
+  recipientName: string;
+  locale?: string | null; // Preference.locale (fr par défaut)
+  template: K;
+  params: MailTemplateParams[K];
+  unsubscribeScope: string; // Ce que désactive le lien de désinscription
+}
+
+/**
+ * Contenu d'un token de désinscription vérifié.
+ */
+export interface UnsubscribeTokenPayload {
+  userId: string;
+  scope: string;
+}
+
+/**
+ * SERVICE: MailService
+ *
+ * Mise en forme et envoi des emails, signature des liens de désinscription.
+ */
+@Injectable()
+export class MailService {
+  /**
+   * Logger pour enregistrer les événements
+   */
+  private readonly logger = new Logger(MailService.name);
+
+  /**
+   * Transport choisi au démarrage d'après `mail.transport`
+   */
+  private readonly transport: MailTransport;
+
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection de la configuration et création du transport
+   */
+  constructor(private configService: ConfigService) {
+    this.transport = this.createTransport();
+    this.logger.log(`Transport email: ${this.transport.name}`);
+  }
+
+  // ============================================
+  // MÉTHODE: sendTemplate
+  // ============================================
+
+  /**
+   * Met en forme un modèle et envoie l'email.
+   *
+   * @param options - Destinataire, modèle, paramètres et scope de désinscription
+   * @throws Error si le transport échoue (à gérer par l'appelant)
+   */
+  async sendTemplate<K extends MailTemplateName>(
+    options: TemplateMailOptions<K>,
+  ): Promise<void> {
+    const token = this.createUnsubscribeToken(
+      options.userId,
+      options.unsubscribeScope,
+    );
+    const appUrl = this.configService.get<string>('mail.appUrl');
+    const apiUrl = this.configService.get<string>('mail.apiUrl');
+
+    const rendered = renderMail(
+      options.template,
+      resolveMailLocale(options.locale),
+      options.params,
+      {
+        recipientName: options.recipientName,
+        appUrl,
+        unsubscribeUrl: `${appUrl}/unsubscribe?token=${token}`,
+      },
+    );
+
+    await this.transport.send(this.configService.get<string>('mail.from'), {
+      to: options.to,
+      ...rendered,
+      headers: {
+        'List-Unsubscribe': `<${apiUrl}/notifications/unsubscribe?token=${token}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+  }
+
+  // ============================================
+  // MÉTHODES: tokens de désinscription
+  // ============================================
+
+  /**
+   * Crée un token de désinscription signé (sans expiration: un lien reçu
+   * il y a longtemps doit toujours fonctionner).
+   *
+   * @param userId - Destinataire de l'email
+   * @param scope - Ce que le lien désactive
+   */
+  createUnsubscribeToken(userId: string, scope: string): string {
+    const payload = Buffer.from(
+      JSON.stringify({ u: userId, s: scope }),
+      'utf8',
+    ).toString('base64url');
+
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Vérifie un token de désinscription.
+   *
+   * @returns Utilisateur et scope, ou null si le token est invalide ou falsifié
+   */
+  verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload | null {
+    const [payload, signature, ...rest] = (token ?? '').split('.');
+    if (!payload || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(this.sign(payload));
+    const received = Buffer.from(signature);
+    if (
+      expected.length !== received.length ||
+      !crypto.timingSafeEqual(expected, received)
+    ) {
+      return null;
+    }
+
+    try {
+      const { u, s } = JSON.parse(
+        Buffer.from(payload, 'base64url').toString('utf8'),
+      );
+      if (typeof u !== 'string' || typeof s !== 'string') return null;
+      return { userId: u, scope: s };
+    } catch {
+      return null;
+    }
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Signature HMAC-SHA256 (base64url) d'un contenu de token.
+   */
+  private sign(payload: string): string {
+    return crypto
+      .createHmac(
+        'sha256',
+        this.configService.get<string>('mail.unsubscribeSecret'),
+      )
+      .update(payload)
+      .digest('base64url');
+  }
+
+  /**
+   * Crée le transport configuré (console si la valeur est inconnue).
+   */
+  private createTransport(): MailTransport {
+    const transport = this.configService.get<string>('mail.transport');
+
+    switch (transport) {
+      case 'smtp':
+        return new SmtpMailTransport(this.configService.get('mail.smtp'));
+      case 'file':
+        return new FileMailTransport(
+          this.configService.get<string>('mail.fileDir'),
+        );
+      case 'console':
+        return new ConsoleMailTransport();
+      default:
+        this.logger.warn(
+          `Transport email inconnu "${transport}", utilisation de la console`,
+        );
+        return new ConsoleMailTransport();
+    }
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * FICHIER: mail.templates.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier contient les modèles des emails de notification, traduits en
+ * français et en anglais, et leur mise en forme (version texte + version HTML).
+ *
+ * MODÈLES:
+ * - exchange_status: changement de statut d'un échange
+ * - new_message: nouveau message dans une conversation
+ * - community_reply: nouvelle réponse dans une discussion de la communauté
+ * - weekly_theme: nouveau thème de la semaine
+ * - saved_search: nouvel objet correspondant à une recherche sauvegardée
+ * - watched_item: changement de statut d'un objet suivi (favori)
+ * - digest: résumé quotidien / hebdomadaire des notifications non lues
+ *
+ * LANGUE:
+ * - Choisie d'après `Preference.locale` de l'utilisateur ("fr", "en", "en-GB"...)
+ * - Langue inconnue ou absente → français
+ *
+ * MISE EN FORME:
+ * - Chaque modèle décrit un contenu (titre, paragraphes, liste, bouton)
+ * - `renderMail` produit les deux versions avec le même pied de page
+ *   (lien de désinscription + lien vers les préférences)
+ * - Toutes les valeurs insérées dans le HTML sont échappées
+ */
+
+/**
+ * Langues disponibles (la première est la langue par défaut).
+ */
+export const MAIL_LOCALES = ['fr', 'en'] as const;
+
+export type MailLocale = (typeof MAIL_LOCALES)[number];
+
+/**
+ * Paramètres attendus par chaque modèle.
+ * Les liens sont des chemins de l'application (ex: /exchange/abc).
+ */
+export interface MailTemplateParams {
+  exchange_status: { status: string; link: string };
+  new_message: { senderName: string; threadTitle: string; link: string };
+  community_reply: { authorName: string; threadTitle: string; link: string };
+  weekly_theme: { themeTitle: string; link: string };
+  saved_search: { searchName: string; itemTitle: string; link: string };
+  watched_item: { itemTitle: string; status: string; link: string };
+  digest: {
+    frequency: 'DAILY' | 'WEEKLY';
+    unreadCount: number;
+    items: { title: string; body: string; link: string | null }[];
+  };
+}
+
+export type MailTemplateName = keyof MailTemplateParams;
+
+/**
+ * Contexte commun à tous les emails.
+ */
+export interface MailRenderContext {
+  recipientName: string;
+  appUrl: string; // URL du frontend, préfixe des liens
+  unsubscribeUrl: string; // Page de désinscription (lien signé)
+}
+
+/**
+ * Email mis en forme.
+ */
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Contenu d'un email avant mise en forme.
+ */
+interface MailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  items?: { title: string; body: string; link: string | null }[];
+  action: { label: string; link: string };
+}
+
+/**
+ * Textes du pied de page et de la salutation.
+ */
+const LAYOUT_STRINGS: Record<
+  MailLocale,
+  {
+    greeting: (name: string) => string;
+    footer: string;
+    unsubscribe: string;
+    preferences: string;
+  }
+> = {
+  fr: {
+    greeting: (name) => `Bonjour ${name},`,
+    footer:
+      'Vous recevez cet email car les notifications par email sont activées sur votre compte SecondLife Exchange.',
+    unsubscribe: 'Ne plus recevoir ces emails',
+    preferences: 'Gérer mes préférences de notification',
+  },
+  en: {
+    greeting: (name) => `Hello ${name},`,
+    footer:
+      'You are receiving this email because email notifications are enabled on your SecondLife Exchange account.',
+    unsubscribe: 'Stop receiving these emails',
+    preferences: 'Manage my notification preferences',
+  },
+};
+
+/**
+ * Libellés des statuts d'échange.
+ */
+const EXCHANGE_STATUS_STRINGS: Record<MailLocale, Record<string, string>> = {
+  fr: {
+    PENDING: "Vous avez reçu une nouvelle demande d'échange.",
+    ACCEPTED: 'Votre échange a été accepté.',
+    DECLINED: 'Votre échange a été décliné.',
+    COMPLETED: 'Votre échange est terminé.',
+    CANCELLED: 'Votre échange a été annulé.',
+    COMPLETION_CONFIRMED:
+      "L'autre participant a confirmé la réalisation de l'échange.",
+    RATED:
+      "L'autre participant a laissé son avis sur l'échange. Donnez le vôtre pour le découvrir.",
+    COUNTER_PROPOSED:
+      'Une contre-proposition avec un lot modifié attend votre réponse.',
+    DEFAULT: 'Le statut de votre échange a été mis à jour.',
+  },
+  en: {
+    PENDING: 'You received a new exchange request.',
+    ACCEPTED: 'Your exchange has been accepted.',
+    DECLINED: 'Your exchange has been declined.',
+    COMPLETED: 'Your exchange is complete.',
+    CANCELLED: 'Your exchange has been cancelled.',
+    COMPLETION_CONFIRMED:
+      'The other participant confirmed the exchange took place.',
+    RATED:
+      'The other participant reviewed the exchange. Leave your review to see theirs.',
+    COUNTER_PROPOSED:
+      'A counter-offer with a modified bundle is waiting for your answer.',
+    DEFAULT: 'The status of your exchange has been updated.',
+  },
+};
+
+/**
+ * Libellés des statuts d'un objet suivi.
+ */
+const WATCHED_ITEM_STATUS_STRINGS: Record<
+  MailLocale,
+  Record<string, (itemTitle: string) => string>
+> = {
+  fr: {
+    AVAILABLE: (title) => `« ${title} » est de nouveau disponible.`,
+    PENDING: (title) => `« ${title} » est réservé pour un échange.`,
+    TRADED: (title) => `« ${title} » a été échangé.`,
+    ARCHIVED: (title) => `« ${title} » n'est plus proposé par son propriétaire.`,
+    DEFAULT: (title) => `Le statut de « ${title} » a changé.`,
+  },
+  en: {
+    AVAILABLE: (title) => `"${title}" is available again.`,
+    PENDING: (title) => `"${title}" is reserved for an exchange.`,
+    TRADED: (title) => `"${title}" has been exchanged.`,
+    ARCHIVED: (title) => `"${title}" is no longer offered by its owner.`,
+    DEFAULT: (title) => `The status of "${title}" has changed.`,
+  },
+};
+
+/**
+ * MODÈLES: contenu de chaque email, par langue.
+ */
+const TEMPLATES: {
+  [K in MailTemplateName]: Record<
+    MailLocale,
+    (params: MailTemplateParams[K]) => MailContent
+  >;
+} = {
+  exchange_status: {
+    fr: ({ status, link }) => ({
+      subject: 'Du nouveau sur votre échange',
+      heading: 'Suivi de votre échange',
+      paragraphs: [
+        EXCHANGE_STATUS_STRINGS.fr[status] ??
+          EXCHANGE_STATUS_STRINGS.fr.DEFAULT,
+      ],
+      action: { label: "Voir l'échange", link },
+    }),
+    en: ({ status, link }) => ({
+      subject: 'News about your exchange',
+      heading: 'Exchange update',
+      paragraphs: [
+        EXCHANGE_STATUS_STRINGS.en[status] ??
+          EXCHANGE_STATUS_STRINGS.en.DEFAULT,
+      ],
+      action: { label: 'View exchange', link },
+    }),
+  },
+
+  new_message: {
+    fr: ({ senderName, threadTitle, link }) => ({
+      subject: `Nouveau message de ${senderName}`,
+      heading: 'Vous avez un nouveau message',
+      paragraphs: [`${senderName} vous a écrit dans « ${threadTitle} ».`],
+      action: { label: 'Lire le message', link },
+    }),
+    en: ({ senderName, threadTitle, link }) => ({
+      subject: `New message from ${senderName}`,
+      heading: 'You have a new message',
+      paragraphs: [`${senderName} wrote to you in "${threadTitle}".`],
+      action: { label: 'Read message', link },
+    }),
+  },
+
+  community_reply: {
+    fr: ({ authorName, threadTitle, link }) => ({
+      subject: `Nouvelle réponse dans « ${threadTitle} »`,
+      heading: 'Votre discussion a une nouvelle réponse',
+      paragraphs: [`${authorName} a répondu dans « ${threadTitle} ».`],
+      action: { label: 'Voir la discussion', link },
+    }),
+    en: ({ authorName, threadTitle, link }) => ({
+      subject: `New reply in "${threadTitle}"`,
+      heading: 'Your discussion has a new reply',
+      paragraphs: [`${authorName} replied in "${threadTitle}".`],
+      action: { label: 'View discussion', link },
+    }),
+  },
+
+  weekly_theme: {
+    fr: ({ themeTitle, link }) => ({
+      subject: `Thème de la semaine: ${themeTitle}`,
+      heading: 'Un nouveau thème vous attend',
+      paragraphs: [
+        `Cette semaine, le thème est « ${themeTitle} ».`,
+        'Proposez vos objets et découvrez ceux de la communauté.',
+      ],
+      action: { label: 'Découvrir le thème', link },
+    }),
+    en: ({ themeTitle, link }) => ({
+      subject: `Theme of the week: ${themeTitle}`,
+      heading: 'A new theme is waiting for you',
+      paragraphs: [
+        `This week's theme is "${themeTitle}".`,
+        'List your items and discover what the community offers.',
+      ],
+      action: { label: 'Discover the theme', link },
+    }),
+  },
+
+  saved_search: {
+    fr: ({ searchName, itemTitle, link }) => ({
+      subject: `Nouvel objet pour « ${searchName} »`,
+      heading: 'Un objet correspond à votre recherche',
+      paragraphs: [
+        `« ${itemTitle} » vient d'être publié et correspond à votre recherche sauvegardée « ${searchName} ».`,
+      ],
+      action: { label: "Voir l'objet", link },
+    }),
+    en: ({ searchName, itemTitle, link }) => ({
+      subject: `New item for "${searchName}"`,
+      heading: 'An item matches your search',
+      paragraphs: [
+        `"${itemTitle}" was just listed and matches your saved search "${searchName}".`,
+      ],
+      action: { label: 'View item', link },
+    }),
+  },
+
+  watched_item: {
+    fr: ({ itemTitle, status, link }) => ({
+      subject: `Du nouveau sur « ${itemTitle} »`,
+      heading: 'Un objet que vous suivez a changé',
+      paragraphs: [
+        (
+          WATCHED_ITEM_STATUS_STRINGS.fr[status] ??
+          WATCHED_ITEM_STATUS_STRINGS.fr.DEFAULT
+        )(itemTitle),
+      ],
+      action: { label: "Voir l'objet", link },
+    }),
+    en: ({ itemTitle, status, link }) => ({
+      subject: `News about "${itemTitle}"`,
+      heading: 'An item you follow has changed',
+      paragraphs: [
+        (
+          WATCHED_ITEM_STATUS_STRINGS.en[status] ??
+          WATCHED_ITEM_STATUS_STRINGS.en.DEFAULT
+        )(itemTitle),
+      ],
+      action: { label: 'View item', link },
+    }),
+  },
+
+  digest: {
+    fr: ({ frequency, unreadCount, items }) => ({
+      subject:
+        frequency === 'DAILY'
+          ? `Votre résumé du jour: ${unreadCount} notification(s) non lue(s)`
+          : `Votre résumé de la semaine: ${unreadCount} notification(s) non lue(s)`,
+      heading:
+        frequency === 'DAILY'
+          ? 'Votre résumé du jour'
+          : 'Votre résumé de la semaine',
+      paragraphs: [
+        `Vous avez ${unreadCount} notification(s) non lue(s) depuis votre dernier résumé.`,
+      ],
+      items,
+      action: { label: 'Ouvrir mes notifications', link: '/notifications' },
+    }),
+    en: ({ frequency, unreadCount, items }) => ({
+      subject:
+        frequency === 'DAILY'
+          ? `Your daily digest: ${unreadCount} unread notification(s)`
+          : `Your weekly digest: ${unreadCount} unread notification(s)`,
+      heading:
+        frequency === 'DAILY' ? 'Your daily digest' : 'Your weekly digest',
+      paragraphs: [
+        `You have ${unreadCount} unread notification(s) since your last digest.`,
+      ],
+      items,
+      action: { label: 'Open my notifications', link: '/notifications' },
+    }),
+  },
+};
+
+/**
+ * Langue d'un email d'après la préférence de l'utilisateur ("en-GB" → "en").
+ */
+export function resolveMailLocale(locale?: string | null): MailLocale {
+  const language = locale?.slice(0, 2).toLowerCase();
+  return MAIL_LOCALES.find((l) => l === language) ?? MAIL_LOCALES[0];
+}
+
+/**
+ * Met en forme un email (sujet, version texte, version HTML).
+ *
+ * @param template - Nom du modèle
+ * @param locale - Langue de l'email
+ * @param params - Paramètres du modèle
+ * @param context - Destinataire et liens communs
+ */
+export function renderMail<K extends MailTemplateName>(
+  template: K,
+  locale: MailLocale,
+  params: MailTemplateParams[K],
+  context: MailRenderContext,
+): RenderedMail {
+  const content = TEMPLATES[template][locale](params);
+  const layout = LAYOUT_STRINGS[locale];
+  const url = (link: string) => `${context.appUrl}${link}`;
+  const preferencesUrl = url('/profile');
+
+  // Version texte
+  const text = [
+    layout.greeting(context.recipientName),
+    '',
+    ...content.paragraphs,
+    '',
+    ...(content.items ?? []).flatMap((item) => [
+      `- ${item.title}: ${item.body}`,
+      ...(item.link ? [`  ${url(item.link)}`] : []),
+    ]),
+    ...(content.items?.length ? [''] : []),
+    `${content.action.label}: ${url(content.action.link)}`,
+    '',
+    '--',
+    layout.footer,
+    `${layout.unsubscribe}: ${context.unsubscribeUrl}`,
+    `${layout.preferences}: ${preferencesUrl}`,
+  ].join('\n');
+
+  // Version HTML
+  const items = content.items?.length
+    ? `<ul style="padding-left:20px">${content.items
+        .map((item) => {
+          const title = item.link
+            ? `<a href="${escapeHtml(url(item.link))}">${escapeHtml(item.title)}</a>`
+            : escapeHtml(item.title);
+          return `<li style="margin-bottom:8px"><strong>${title}</strong><br>${escapeHtml(item.body)}</li>`;
+        })
+        .join('')}</ul>`
+    : '';
+
+  const html = [
+    '<!DOCTYPE html>',
+    `<html lang="${locale}"><head><meta charset="utf-8"><title>${escapeHtml(content.subject)}</title></head>`,
+    '<body style="font-family:Arial,sans-serif;color:#1f2937;max-width:600px;margin:0 auto;padding:24px">',
+    `<h1 style="font-size:20px;color:#15803d">${escapeHtml(content.heading)}</h1>`,
+    `<p>${escapeHtml(layout.greeting(context.recipientName))}</p>`,
+    ...content.paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`),
+    items,
+    `<p><a href="${escapeHtml(url(content.action.link))}" style="display:inline-block;background:#15803d;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none">${escapeHtml(content.action.label)}</a></p>`,
+    '<hr style="border:none;border-top:1px solid #e5e7eb;margin:24px 0">',
+    `<p style="font-size:12px;color:#6b7280">${escapeHtml(layout.footer)}<br>`,
+    `<a href="${escapeHtml(context.unsubscribeUrl)}">${escapeHtml(layout.unsubscribe)}</a> · `,
+    `<a href="${escapeHtml(preferencesUrl)}">${escapeHtml(layout.preferences)}</a></p>`,
+    '</body></html>',
+  ].join('\n');
+
+  return { subject: content.subject, text, html };
+}
+
+/**
+ * Échappe une valeur insérée dans le HTML (titres, noms saisis par les utilisateurs).
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
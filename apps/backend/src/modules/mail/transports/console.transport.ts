@@ -0,0 +1,28 @@
+/**
+ * FICHIER: console.transport.ts
+ *
+ * DESCRIPTION:
+ * Transport de développement: l'email n'est pas envoyé, son destinataire,
+ * son sujet et sa version texte sont affichés dans les logs.
+ */
+
+// Import des classes NestJS
+import { Logger } from '@nestjs/common';
+
+// Import du contrat des transports
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * TRANSPORT: ConsoleMailTransport
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Email de ${from} à ${message.to}: ${message.subject}\n${message.text}`,
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * FICHIER: file.transport.ts
+ *
+ * DESCRIPTION:
+ * Transport de test local: chaque email est écrit dans un fichier .eml
+ * (ouvrable dans un client mail) au lieu d'être envoyé.
+ *
+ * NOM DES FICHIERS:
+ * `<horodatage>-<aléa>-<destinataire>.eml`, dans le dossier `mail.fileDir`
+ */
+
+// Import de Node.js
+import { promises as fs } from 'fs';
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+// Import du contrat des transports
+import { buildMimeMessage, MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * TRANSPORT: FileMailTransport
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const suffix = crypto.randomBytes(4).toString('hex');
+    const fileName = `${Date.now()}-${suffix}-${recipient}.eml`;
+
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      buildMimeMessage(from, message),
+      'utf8',
+    );
+  }
+}
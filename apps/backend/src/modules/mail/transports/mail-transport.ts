@@ -0,0 +1,117 @@
+/**
+ * FICHIER: mail-transport.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier définit le contrat commun des transports d'email (SMTP, fichier, console)
+ * et la construction du message MIME envoyé (ou écrit) par ces transports.
+ *
+ * FORMAT DU MESSAGE:
+ * - multipart/alternative: version texte + version HTML
+ * - Parties encodées en base64 (UTF-8, lignes de 76 caractères)
+ * - Sujet et nom de l'expéditeur encodés selon la RFC 2047 s'ils ne sont pas ASCII
+ */
+
+// Import de Node.js
+import * as crypto from 'crypto';
+
+/**
+ * Email prêt à être envoyé.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>; // En-têtes supplémentaires (List-Unsubscribe...)
+}
+
+/**
+ * INTERFACE: MailTransport
+ *
+ * Un transport reçoit l'expéditeur et le message, et lève une erreur en cas d'échec.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(from: string, message: MailMessage): Promise<void>;
+}
+
+/**
+ * Extrait l'adresse d'un expéditeur "Nom <adresse>" (ou retourne l'adresse telle quelle).
+ */
+export function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Construit le message MIME complet (en-têtes + corps), lignes terminées par CRLF.
+ *
+ * @param from - Expéditeur ("Nom <adresse>" ou adresse)
+ * @param message - Email à envoyer
+ * @param date - Date de l'email (injectable pour les tests)
+ */
+export function buildMimeMessage(
+  from: string,
+  message: MailMessage,
+  date: Date = new Date(),
+): string {
+  const boundary = `=_sle_${crypto.randomBytes(12).toString('hex')}`;
+  const domain = extractAddress(from).split('@')[1] || 'localhost';
+
+  const headers: Record<string, string> = {
+    From: encodeMailbox(from),
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: date.toUTCString(),
+    'Message-ID': `<${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+
+  const lines = Object.entries(headers).map(
+    ([name, value]) => `${name}: ${value}`,
+  );
+
+  lines.push(
+    '',
+    `--${boundary}`,
+    ...encodePart('text/plain', message.text),
+    `--${boundary}`,
+    ...encodePart('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  );
+
+  return lines.join('\r\n');
+}
+
+/**
+ * Partie MIME encodée en base64.
+ */
+function encodePart(contentType: string, content: string): string[] {
+  const encoded = Buffer.from(content, 'utf8').toString('base64');
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(encoded.match(/.{1,76}/g) ?? ['']),
+  ];
+}
+
+/**
+ * Encodage RFC 2047 (=?UTF-8?B?...?=) d'une valeur d'en-tête non ASCII.
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Encode le nom d'un expéditeur "Nom <adresse>" (l'adresse reste en clair).
+ */
+function encodeMailbox(mailbox: string): string {
+  const match = mailbox.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) return mailbox;
+  return `${encodeHeader(match[1])} <${match[2]}>`;
+}
@@ -0,0 +1,325 @@
+/**
+ * FICHIER: smtp.transport.ts
+ *
+ * DESCRIPTION:
+ * Transport SMTP (RFC 5321) implémenté avec les modules `net` et `tls` de Node,
+ * sans dépendance externe. Une connexion est ouverte par email.
+ *
+ * DIALOGUE:
+ * 1. Accueil du serveur (220) puis EHLO
+ * 2. STARTTLS si le serveur le propose (sauf connexion déjà chiffrée), puis nouvel EHLO
+ * 3. AUTH PLAIN ou AUTH LOGIN si des identifiants sont configurés
+ * 4. MAIL FROM, RCPT TO, DATA (message MIME, lignes commençant par "." doublées)
+ * 5. QUIT
+ *
+ * ERREURS:
+ * - SmtpError avec le code de réponse du serveur (absent en cas d'erreur réseau ou de timeout)
+ */
+
+// Import de Node.js
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+
+// Import du contrat des transports
+import {
+  buildMimeMessage,
+  extractAddress,
+  MailMessage,
+  MailTransport,
+} from './mail-transport';
+
+/**
+ * Paramètres de connexion au serveur SMTP.
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS dès la connexion (port 465)
+  user?: string;
+  pass?: string;
+  timeoutMs: number;
+}
+
+/**
+ * ERREUR: SmtpError
+ *
+ * Réponse inattendue du serveur, ou connexion perdue.
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number,
+  ) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Réponse SMTP (éventuellement sur plusieurs lignes "250-...").
+ */
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * TRANSPORT: SmtpMailTransport
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  /**
+   * Envoie un email (une connexion par envoi).
+   *
+   * @throws SmtpError si le serveur refuse une étape
+   */
+  async send(from: string, message: MailMessage): Promise<void> {
+    const connection = await SmtpConnection.open(this.options);
+
+    try {
+      await connection.expect([220]);
+      let capabilities = await connection.ehlo();
+
+      if (!this.options.secure && capabilities.includes('STARTTLS')) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(this.options.host);
+        capabilities = await connection.ehlo();
+      }
+
+      if (this.options.user) {
+        await this.authenticate(connection, capabilities);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(from)}>`, [250]);
+      await connection.command(
+        `RCPT TO:<${extractAddress(message.to)}>`,
+        [250, 251],
+      );
+      await connection.command('DATA', [354]);
+
+      // Transparence (RFC 5321 §4.5.2): un "." en début de ligne est doublé
+      const data = buildMimeMessage(from, message).replace(/^\./gm, '..');
+      await connection.command(`${data}.`, [250], 'DATA');
+
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+
+  /**
+   * Authentification avec le premier mécanisme proposé parmi PLAIN et LOGIN.
+   */
+  private async authenticate(
+    connection: SmtpConnection,
+    capabilities: string[],
+  ): Promise<void> {
+    const { user, pass = '' } = this.options;
+    const auth = capabilities.find((line) => line.startsWith('AUTH')) ?? '';
+    const encode = (value: string) =>
+      Buffer.from(value, 'utf8').toString('base64');
+
+    if (/\bPLAIN\b/.test(auth)) {
+      await connection.command(
+        `AUTH PLAIN ${encode(`\0${user}\0${pass}`)}`,
+        [235],
+        'AUTH',
+      );
+      return;
+    }
+
+    if (/\bLOGIN\b/.test(auth)) {
+      await connection.command('AUTH LOGIN', [334]);
+      await connection.command(encode(user), [334], 'AUTH');
+      await connection.command(encode(pass), [235], 'AUTH');
+      return;
+    }
+
+    throw new SmtpError(
+      "Le serveur SMTP ne propose aucun mécanisme d'authentification pris en charge (PLAIN, LOGIN)",
+    );
+  }
+}
+
+/**
+ * CLASSE: SmtpConnection
+ *
+ * Connexion au serveur: envoi des commandes et lecture des réponses ligne par ligne.
+ */
+class SmtpConnection {
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiter: {
+    resolve: (response: SmtpResponse) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(
+    private socket: net.Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.attach(socket);
+  }
+
+  /**
+   * Ouvre la connexion (TLS direct si `secure`).
+   */
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        socket.removeListener('error', reject);
+        resolve(new SmtpConnection(socket, options.timeoutMs));
+      };
+
+      const socket = options.secure
+        ? tls.connect(
+            {
+              host: options.host,
+              port: options.port,
+              servername: options.host,
+            },
+            onConnect,
+          )
+        : net.connect({ host: options.host, port: options.port }, onConnect);
+
+      socket.setTimeout(options.timeoutMs, () =>
+        socket.destroy(new SmtpError('Délai de connexion SMTP dépassé')),
+      );
+      socket.once('error', reject);
+    });
+  }
+
+  /**
+   * EHLO: retourne les extensions annoncées (STARTTLS, AUTH PLAIN LOGIN...).
+   */
+  async ehlo(): Promise<string[]> {
+    const response = await this.command(`EHLO ${os.hostname()}`, [250]);
+    return response.lines.slice(1).map((line) => line.toUpperCase());
+  }
+
+  /**
+   * Envoie une commande et vérifie le code de la réponse.
+   *
+   * @throws SmtpError si le code n'est pas attendu
+   */
+  async command(
+    line: string,
+    expected: number[],
+    step = line.split(' ')[0],
+  ): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, step);
+  }
+
+  /**
+   * Lit la prochaine réponse et vérifie son code.
+   */
+  async expect(expected: number[], step = 'CONNECT'): Promise<SmtpResponse> {
+    const response = await this.read();
+
+    if (!expected.includes(response.code)) {
+      throw new SmtpError(
+        `Réponse SMTP inattendue à ${step}: ${response.code} ${response.lines.join(' ')}`,
+        response.code,
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Passe la connexion en TLS après STARTTLS.
+   */
+  upgrade(host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      this.socket.removeAllListeners('error');
+      this.socket.removeAllListeners('close');
+      this.socket.setTimeout(0);
+
+      const secureSocket = tls.connect(
+        { socket: this.socket, servername: host },
+        () => {
+          secureSocket.removeListener('error', reject);
+          this.socket = secureSocket;
+          this.attach(secureSocket);
+          resolve();
+        },
+      );
+      secureSocket.once('error', reject);
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  /**
+   * Branche la lecture des réponses et la gestion des erreurs sur le socket.
+   */
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new SmtpError('Délai de réponse SMTP dépassé')),
+    );
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () =>
+      this.fail(new SmtpError('Connexion SMTP fermée par le serveur')),
+    );
+  }
+
+  /**
+   * Découpe les données reçues en lignes; une réponse se termine par "XYZ " (sans tiret).
+   */
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.pendingLines.push(line.slice(4));
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.push({ code: Number(line.slice(0, 3)), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+    }
+  }
+
+  private push(response: SmtpResponse): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(response);
+    } else {
+      this.responses.push(response);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+
+  private read(): Promise<SmtpResponse> {
+    const response = this.responses.shift();
+    if (response) return Promise.resolve(response);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+}
@@ -2,6 +2,9 @@ import { IsOptional, IsInt, Min, Max } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { z } from 'zod';
 
+// Import du type de réputation issu des avis
+import { RatingSummary } from '../../ratings/dtos/rating.dto';
+
 // Schéma Zod pour la validation
 export const RecommendationsQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(50).default(20),
@@ -48,6 +51,7 @@ export interface Recommendation {
       id: string;
       displayName: string;
       avatarUrl?: string;
+      rating?: RatingSummary; // Réputation issue des avis après échange
     };
     photos: Array<{
       id: string;
@@ -56,6 +60,7 @@ export interface Recommendation {
       height?: number;
     }>;
     createdAt: string;
+    distanceKm?: number; // Distance arrondie, si les deux positions sont connues
   };
   score: number;
   reasons: RecommendationReason[];
@@ -68,5 +73,6 @@ export interface RecommendationsResponse {
     preferredCategories: string[];
     preferredConditions: string[];
     country?: string;
+    radiusKm?: number;
   };
 }
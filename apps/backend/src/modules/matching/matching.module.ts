@@ -11,6 +11,8 @@
  *
  * DÉPENDANCES:
  * - PrismaModule: Accès à la base de données
+ * - RatingsModule: Réputation des propriétaires recommandés
+ * - ItemsModule: Filtre de distance exacte (rayon des recommandations)
  */
 
 // Import du décorateur Module
@@ -22,6 +24,8 @@ import { MatchingService } from './matching.service';
 
 // Import des modules dépendants
 import { PrismaModule } from '../../common/prisma/prisma.module';
+import { RatingsModule } from '../ratings/ratings.module';
+import { ItemsModule } from '../items/items.module';
 
 /**
  * MODULE: MatchingModule
@@ -30,7 +34,11 @@ import { PrismaModule } from '../../common/prisma/prisma.module';
  */
 @Module({
   // Modules importés nécessaires
-  imports: [PrismaModule], // Accès à la base de données
+  imports: [
+    PrismaModule, // Base de données
+    RatingsModule, // Réputation des propriétaires
+    ItemsModule, // Distance exacte (rayon)
+  ],
 
   // Contrôleur qui expose les routes HTTP
   controllers: [MatchingController],
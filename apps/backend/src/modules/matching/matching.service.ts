@@ -12,11 +12,14 @@
  * - Application de filtres de diversité (évite les recommandations trop similaires)
  * - Gestion des préférences utilisateur (catégories préférées/détestées, conditions, etc.)
  * - Exclusion des items déjà possédés ou déjà échangés
+ * - Respect du rayon de recherche (`Preference.radiusKm`) autour de l'utilisateur
+ * - Réputation (avis) du propriétaire jointe à chaque recommandation (RatingsService)
  *
  * ALGORITHME DE SCORING:
  * - Score de catégorie: +10 si catégorie préférée, -5 si détestée
  * - Score d'état: +5 si condition préférée
  * - Score de popularité: basé sur popularityScore de l'item
+ * - Score de proximité: jusqu'à +10 selon la distance (sinon +10 si même pays)
  * - Score d'historique: -10 si déjà échangé avec cet utilisateur
  * - Diversité: pénalise les items trop similaires
  */
@@ -26,6 +29,8 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 
 // Import du service Prisma
 import { PrismaService } from '../../common/prisma/prisma.service';
+import { RatingsService } from '../ratings/ratings.service';
+import { ItemsService } from '../items/items.service';
 
 // Import des DTOs
 import {
@@ -35,6 +40,15 @@ import {
 } from './dtos/recommendations.dto';
 import { SavePreferencesInput } from './dtos/preferences.dto';
 
+// Import des utilitaires de géolocalisation
+import { GeoPoint, GeoUtil } from '../../common/utils/geo.util';
+
+/**
+ * Distance (km) au-delà de laquelle un item ne gagne plus de points de
+ * proximité, quand l'utilisateur n'a pas défini de rayon.
+ */
+const DEFAULT_PROXIMITY_SCALE_KM = 100;
+
 /**
  * SERVICE: MatchingService
  *
@@ -47,9 +61,15 @@ export class MatchingService {
   /**
    * CONSTRUCTEUR
    *
-   * Prisma est la seule dépendance: tout le scoring se fait en mémoire dans ce service.
+   * Tout le scoring se fait en mémoire dans ce service; RatingsService fournit
+   * seulement la réputation des propriétaires recommandés, ItemsService le
+   * filtre de distance exacte (calculé en base) pour le rayon.
    */
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private ratings: RatingsService,
+    private items: ItemsService,
+  ) {}
 
   // ============================================
   // MÉTHODE: getRecommendations
@@ -62,7 +82,7 @@ export class MatchingService {
    * 1. Récupère les préférences de l'utilisateur
    * 2. Récupère les items de l'utilisateur (pour exclusion)
    * 3. Récupère l'historique d'échanges (pour exclusion)
-   * 4. Récupère les candidats items avec filtres de préférences
+   * 4. Récupère les candidats items avec filtres de préférences (dont le rayon)
    * 5. Calcule les scores pour chaque candidat
    * 6. Applique les filtres de diversité
    * 7. Retourne les meilleures recommandations
@@ -86,6 +106,14 @@ export class MatchingService {
       where: { userId },
     });
 
+    // Position de l'utilisateur (profil), pour la distance et le rayon
+    const profile = await this.prisma.userProfile.findUnique({
+      where: { userId },
+      select: { latitude: true, longitude: true },
+    });
+    const origin = GeoUtil.toPoint(profile);
+    const radiusKm = origin ? (preferences?.radiusKm ?? null) : null;
+
     // Récupérer les items de l'utilisateur pour les exclure
     const userItems = await this.prisma.item.findMany({
       where: { ownerId: userId },
@@ -120,6 +148,13 @@ export class MatchingService {
       }
     }
 
+    // Rayon: distance exacte calculée en base (position de l'item, sinon du
+    // propriétaire), avant la limite: seuls les items dans le rayon sont classés
+    if (radiusKm) {
+      const distances = await this.items.findNearbyItems(origin, radiusKm);
+      whereClause.id = { in: [...distances.keys()] };
+    }
+
     // Récupérer les candidats
     const candidates = await this.prisma.item.findMany({
       where: whereClause,
@@ -129,6 +164,8 @@ export class MatchingService {
             id: true,
             displayName: true,
             avatarUrl: true,
+            preferences: { select: { country: true } },
+            profile: { select: { latitude: true, longitude: true } },
           },
         },
         photos: {
@@ -150,6 +187,8 @@ export class MatchingService {
       preferences,
       historicalExchanges,
       userId,
+      origin,
+      radiusKm,
     );
 
     // Appliquer les filtres de diversité
@@ -158,6 +197,14 @@ export class MatchingService {
       limit,
     );
 
+    // Réputation des propriétaires (une requête pour toute la liste)
+    const ownerRatings = await this.ratings.getSummaries(
+      diversifiedRecommendations.map((rec) => rec.item.owner.id),
+    );
+    for (const rec of diversifiedRecommendations) {
+      rec.item.owner.rating = ownerRatings.get(rec.item.owner.id);
+    }
+
     return {
       recommendations: diversifiedRecommendations,
       total: diversifiedRecommendations.length,
@@ -166,6 +213,7 @@ export class MatchingService {
             preferredCategories: preferences.preferredCategories,
             preferredConditions: preferences.preferredConditions,
             country: preferences.country,
+            radiusKm: preferences.radiusKm,
           }
         : undefined,
     };
@@ -173,12 +221,16 @@ export class MatchingService {
 
   /**
    * Calcule les scores pour chaque candidat
+   *
+   * Les candidats sont déjà dans le rayon de l'utilisateur (filtre en base).
    */
   private async calculateScores(
     candidates: any[],
     preferences: any,
     historicalExchanges: any[],
     userId: string,
+    origin: GeoPoint | null,
+    radiusKm: number | null,
   ): Promise<Recommendation[]> {
     const recommendations: Recommendation[] = [];
 
@@ -186,6 +238,12 @@ export class MatchingService {
       const reasons: RecommendationReason[] = [];
       let score = 0;
 
+      // Distance (position de l'item, sinon celle du propriétaire)
+      const point =
+        GeoUtil.toPoint(item) ?? GeoUtil.toPoint(item.owner.profile);
+      const distance =
+        origin && point ? GeoUtil.distanceKm(origin, point) : null;
+
       // Score catégorie (+20 si préférée)
       if (preferences?.preferredCategories.includes(item.category)) {
         score += 20;
@@ -248,8 +306,24 @@ export class MatchingService {
         });
       }
 
-      // Score proximité pays (+10 si même pays)
-      if (preferences?.country && item.owner.country === preferences.country) {
+      // Score proximité (jusqu'à +10, décroissant avec la distance)
+      // À défaut de position connue: +10 si même pays
+      if (distance !== null) {
+        const scale = radiusKm ?? DEFAULT_PROXIMITY_SCALE_KM;
+        const proximityScore =
+          Math.round(Math.max(0, 1 - distance / scale) * 100) / 10;
+        if (proximityScore > 0) {
+          score += proximityScore;
+          reasons.push({
+            type: 'location',
+            score: proximityScore,
+            description: `À ${Math.round(distance)} km`,
+          });
+        }
+      } else if (
+        preferences?.country &&
+        item.owner.preferences?.country === preferences.country
+      ) {
         score += 10;
         reasons.push({
           type: 'location',
@@ -293,9 +367,14 @@ export class MatchingService {
             condition: item.condition,
             tags: item.tags,
             popularityScore: item.popularityScore,
-            owner: item.owner,
+            owner: {
+              id: item.owner.id,
+              displayName: item.owner.displayName,
+              avatarUrl: item.owner.avatarUrl,
+            },
             photos: item.photos,
             createdAt: item.createdAt.toISOString(),
+            ...(distance !== null && { distanceKm: Math.round(distance) }),
           },
           score: Math.round(score),
           reasons,
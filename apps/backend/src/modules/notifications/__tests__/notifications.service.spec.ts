@@ -2,6 +2,11 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { NotFoundException, BadRequestException } from '@nestjs/common';
 import { NotificationsService } from '../notifications.service';
 import { PrismaService } from '../../../common/prisma/prisma.service';
+import { WebPushError, WebPushService } from '../web-push.service';
+import { NotificationsGateway } from '../notifications.gateway';
+import { NotificationPreferencesService } from '../notification-preferences.service';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from '../../mail/mail.service';
 
 describe('NotificationsService', () => {
   let service: NotificationsService;
@@ -9,15 +14,81 @@ describe('NotificationsService', () => {
 
   const mockPrismaService = {
     notificationToken: {
-      findFirst: jest.fn(),
       upsert: jest.fn(),
       findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    notificationDelivery: {
+      create: jest.fn(),
+    },
+    notification: {
+      createManyAndReturn: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
     },
     weeklyTheme: {
       findFirst: jest.fn(),
     },
+    user: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockSubscription = {
+    endpoint: 'https://push.example.com/send/abc',
+    keys: { p256dh: 'p256dh-key', auth: 'auth-secret' },
+  };
+
+  const mockGateway = {
+    emitNew: jest.fn(),
+    emitRead: jest.fn(),
+  };
+
+  const buildNotification = (overrides: Record<string, unknown> = {}) => ({
+    id: 'notif1',
+    userId: 'user1',
+    type: 'exchange_status',
+    title: 'SecondLife Exchange',
+    body: 'Votre échange a été accepté',
+    link: '/exchange/exchange1',
+    payload: { exchangeId: 'exchange1', status: 'ACCEPTED' },
+    readAt: null,
+    archivedAt: null,
+    createdAt: new Date('2025-10-21T10:00:00Z'),
+    ...overrides,
+  });
+
+  const mockWebPushService = {
+    parseSubscription: jest.fn(),
+    send: jest.fn(),
+    getPublicKey: jest.fn(),
+  };
+
+  const mockPreferencesService = {
+    resolveChannels: jest.fn(),
+  };
+
+  const mockMailService = {
+    sendTemplate: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) =>
+      key === 'notifications.staleTokenDays' ? 30 : undefined,
+    ),
   };
 
+  // Canaux autorisés par défaut (aucune préférence enregistrée)
+  const allowAll = (userIds: string[]) =>
+    Promise.resolve(
+      new Map(
+        userIds.map((id) => [id, { push: true, inApp: true, email: true }]),
+      ),
+    );
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -26,11 +97,46 @@ describe('NotificationsService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: WebPushService,
+          useValue: mockWebPushService,
+        },
+        {
+          provide: NotificationsGateway,
+          useValue: mockGateway,
+        },
+        {
+          provide: NotificationPreferencesService,
+          useValue: mockPreferencesService,
+        },
+        {
+          provide: MailService,
+          useValue: mockMailService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
       ],
     }).compile();
 
     service = module.get<NotificationsService>(NotificationsService);
     prismaService = module.get<PrismaService>(PrismaService);
+
+    mockWebPushService.parseSubscription.mockReturnValue(mockSubscription);
+    mockWebPushService.send.mockResolvedValue(201);
+    mockPrismaService.notification.createManyAndReturn.mockImplementation(
+      ({ data }) =>
+        Promise.resolve(
+          data.map((entry, i) =>
+            buildNotification({ ...entry, id: `notif${i + 1}` }),
+          ),
+        ),
+    );
+    mockPrismaService.notification.count.mockResolvedValue(1);
+    mockPreferencesService.resolveChannels.mockImplementation(allowAll);
+    mockPrismaService.user.findMany.mockResolvedValue([]);
+    mockMailService.sendTemplate.mockResolvedValue(undefined);
   });
 
   afterEach(() => {
@@ -47,7 +153,6 @@ describe('NotificationsService', () => {
         createdAt: new Date(),
       };
 
-      mockPrismaService.notificationToken.findFirst.mockResolvedValue(null);
       mockPrismaService.notificationToken.upsert.mockResolvedValue(mockToken);
 
       const result = await service.registerToken('user1', {
@@ -64,31 +169,140 @@ describe('NotificationsService', () => {
       });
     });
 
-    it('should return existing token if already registered', async () => {
-      const mockToken = {
-        id: '1',
+    it('should register each device separately with a label derived from the user agent', async () => {
+      mockPrismaService.notificationToken.upsert.mockResolvedValue({
+        id: '2',
         userId: 'user1',
         provider: 'webpush',
-        token: 'test-token',
+        token: 'second-device',
         createdAt: new Date(),
-      };
+      });
 
-      mockPrismaService.notificationToken.findFirst.mockResolvedValue(
-        mockToken,
+      await service.registerToken(
+        'user1',
+        { token: 'second-device', provider: 'webpush' },
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:131.0) Gecko/20100101 Firefox/131.0',
       );
 
-      const result = await service.registerToken('user1', {
-        token: 'test-token',
-        provider: 'webpush',
+      expect(mockPrismaService.notificationToken.upsert).toHaveBeenCalledWith({
+        where: {
+          provider_token: { provider: 'webpush', token: 'second-device' },
+        },
+        update: {
+          userId: 'user1',
+          userAgent: expect.stringContaining('Firefox'),
+          lastSeenAt: expect.any(Date),
+        },
+        create: {
+          userId: 'user1',
+          provider: 'webpush',
+          token: 'second-device',
+          label: 'Firefox sur Windows',
+          userAgent: expect.stringContaining('Firefox'),
+        },
       });
+    });
 
-      expect(result).toEqual({
-        id: '1',
-        userId: 'user1',
-        provider: 'webpush',
-        token: 'test-token',
-        createdAt: expect.any(String),
+    it('should reject a webpush token that is not a PushSubscription', async () => {
+      mockWebPushService.parseSubscription.mockReturnValue(null);
+
+      await expect(
+        service.registerToken('user1', {
+          token: 'opaque-token',
+          provider: 'webpush',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.notificationToken.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('devices', () => {
+    it("should list the user's devices without exposing tokens", async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([
+        {
+          id: '1',
+          userId: 'user1',
+          provider: 'webpush',
+          token: 'secret-subscription',
+          label: 'Chrome sur Android',
+          userAgent: 'Mozilla/5.0 (Linux; Android 14)',
+          lastSeenAt: new Date('2025-10-21T10:00:00Z'),
+          createdAt: new Date('2025-10-01T10:00:00Z'),
+        },
+      ]);
+
+      const devices = await service.listDevices('user1');
+
+      expect(mockPrismaService.notificationToken.findMany).toHaveBeenCalledWith(
+        { where: { userId: 'user1' }, orderBy: { lastSeenAt: 'desc' } },
+      );
+      expect(devices).toEqual([
+        {
+          id: '1',
+          provider: 'webpush',
+          label: 'Chrome sur Android',
+          userAgent: 'Mozilla/5.0 (Linux; Android 14)',
+          lastSeenAt: '2025-10-21T10:00:00.000Z',
+          createdAt: '2025-10-01T10:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should revoke only a device owned by the user', async () => {
+      mockPrismaService.notificationToken.deleteMany.mockResolvedValueOnce({
+        count: 1,
+      });
+      await service.revokeDevice('user1', 'device1');
+      expect(
+        mockPrismaService.notificationToken.deleteMany,
+      ).toHaveBeenCalledWith({ where: { id: 'device1', userId: 'user1' } });
+
+      mockPrismaService.notificationToken.deleteMany.mockResolvedValueOnce({
+        count: 0,
+      });
+      await expect(service.revokeDevice('user2', 'device1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should prune devices not seen for longer than the configured period', async () => {
+      mockPrismaService.notificationToken.deleteMany.mockResolvedValue({
+        count: 3,
       });
+      const thirtyDays = 30 * 24 * 60 * 60 * 1000;
+      const before = Date.now();
+
+      await expect(service.pruneStaleTokens()).resolves.toBe(3);
+
+      const after = Date.now();
+      const { where } =
+        mockPrismaService.notificationToken.deleteMany.mock.calls[0][0];
+      const cutoff = where.lastSeenAt.lt.getTime();
+      expect(cutoff).toBeGreaterThanOrEqual(before - thirtyDays);
+      expect(cutoff).toBeLessThanOrEqual(after - thirtyDays);
+    });
+
+    it('should fan out to every active device of the recipient', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([
+        { id: '1', userId: 'user1', provider: 'webpush', token: 'laptop' },
+        { id: '2', userId: 'user1', provider: 'webpush', token: 'phone' },
+      ]);
+
+      await service.sendExchangeStatusNotification(
+        'exchange1',
+        'ACCEPTED',
+        'user1',
+      );
+
+      expect(mockPrismaService.notificationToken.findMany).toHaveBeenCalledWith(
+        {
+          where: {
+            userId: { in: ['user1'] },
+            lastSeenAt: { gte: expect.any(Date) },
+          },
+        },
+      );
+      expect(mockWebPushService.send).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -169,6 +383,105 @@ describe('NotificationsService', () => {
 
       expect(result.success).toBe(true);
       expect(result.sentCount).toBeGreaterThan(0);
+      expect(
+        mockPrismaService.notificationDelivery.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          tokenId: '2',
+          provider: 'fcm',
+          status: 'FAILED',
+        }),
+      });
+    });
+
+    it('should send the payload to the push service and record the delivery', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([
+        { id: '1', userId: 'user1', provider: 'webpush', token: 'sub-json' },
+      ]);
+
+      await service.sendTestNotification('user1', {
+        title: 'Test Notification',
+        body: 'This is a test',
+      });
+
+      expect(mockWebPushService.parseSubscription).toHaveBeenCalledWith(
+        'sub-json',
+      );
+      expect(mockWebPushService.send).toHaveBeenCalledWith(
+        mockSubscription,
+        expect.objectContaining({
+          title: 'Test Notification',
+          body: 'This is a test',
+          data: expect.objectContaining({ type: 'test' }),
+        }),
+      );
+      expect(
+        mockPrismaService.notificationDelivery.create,
+      ).toHaveBeenCalledWith({
+        data: {
+          tokenId: '1',
+          userId: 'user1',
+          provider: 'webpush',
+          type: 'test',
+          status: 'SENT',
+          statusCode: 201,
+          error: null,
+        },
+      });
+    });
+
+    it('should prune expired subscriptions (410)', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([
+        { id: '1', userId: 'user1', provider: 'webpush', token: 'sub-json' },
+      ]);
+      mockWebPushService.send.mockRejectedValue(
+        new WebPushError('Service push: réponse 410', 410),
+      );
+
+      await expect(
+        service.sendTestNotification('user1', {
+          title: 'Test Notification',
+          body: 'This is a test',
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(
+        mockPrismaService.notificationDelivery.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          tokenId: '1',
+          status: 'EXPIRED',
+          statusCode: 410,
+        }),
+      });
+      expect(
+        mockPrismaService.notificationToken.deleteMany,
+      ).toHaveBeenCalledWith({ where: { id: '1', token: 'sub-json' } });
+    });
+
+    it('should keep the subscription on other push service errors', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([
+        { id: '1', userId: 'user1', provider: 'webpush', token: 'sub-json' },
+      ]);
+      mockWebPushService.send.mockRejectedValue(
+        new WebPushError('Service push: réponse 500', 500),
+      );
+
+      await expect(
+        service.sendTestNotification('user1', {
+          title: 'Test Notification',
+          body: 'This is a test',
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(
+        mockPrismaService.notificationDelivery.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'FAILED', statusCode: 500 }),
+      });
+      expect(
+        mockPrismaService.notificationToken.deleteMany,
+      ).not.toHaveBeenCalled();
     });
   });
 
@@ -193,6 +506,7 @@ describe('NotificationsService', () => {
       ];
 
       mockPrismaService.weeklyTheme.findFirst.mockResolvedValue(mockTheme);
+      mockPrismaService.user.findMany.mockResolvedValueOnce([{ id: 'user1' }]);
       mockPrismaService.notificationToken.findMany.mockResolvedValue(
         mockTokens,
       );
@@ -216,13 +530,55 @@ describe('NotificationsService', () => {
       );
     });
 
+    it("should respect each user's preferences", async () => {
+      mockPrismaService.weeklyTheme.findFirst.mockResolvedValue({
+        id: 'theme1',
+        title: 'Test Theme',
+        isActive: true,
+      });
+      mockPrismaService.user.findMany.mockResolvedValueOnce([
+        { id: 'user1' },
+        { id: 'user2' },
+      ]);
+      mockPrismaService.notificationToken.findMany.mockResolvedValueOnce([
+        { id: '2', userId: 'user2', provider: 'webpush', token: 'token-2' },
+      ]);
+      mockPreferencesService.resolveChannels.mockResolvedValue(
+        new Map([
+          ['user1', { push: false, inApp: false, email: false }],
+          ['user2', { push: true, inApp: true, email: true }],
+        ]),
+      );
+
+      await service.sendWeeklyThemeReminder();
+
+      expect(mockPreferencesService.resolveChannels).toHaveBeenCalledWith(
+        ['user1', 'user2'],
+        'WEEKLY_THEME',
+      );
+      expect(
+        mockPrismaService.notification.createManyAndReturn,
+      ).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ userId: 'user2' })],
+      });
+      expect(
+        mockPrismaService.notificationToken.findMany,
+      ).toHaveBeenLastCalledWith({
+        where: {
+          userId: { in: ['user2'] },
+          lastSeenAt: { gte: expect.any(Date) },
+        },
+      });
+      expect(mockWebPushService.send).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle no active theme gracefully', async () => {
       mockPrismaService.weeklyTheme.findFirst.mockResolvedValue(null);
 
       await expect(service.sendWeeklyThemeReminder()).resolves.not.toThrow();
     });
 
-    it('should handle no tokens gracefully', async () => {
+    it('should handle no users gracefully', async () => {
       const mockTheme = {
         id: 'theme1',
         title: 'Test Theme',
@@ -230,9 +586,9 @@ describe('NotificationsService', () => {
       };
 
       mockPrismaService.weeklyTheme.findFirst.mockResolvedValue(mockTheme);
-      mockPrismaService.notificationToken.findMany.mockResolvedValue([]);
 
       await expect(service.sendWeeklyThemeReminder()).resolves.not.toThrow();
+      expect(mockPreferencesService.resolveChannels).not.toHaveBeenCalled();
     });
   });
 
@@ -284,6 +640,224 @@ describe('NotificationsService', () => {
         ),
       ).resolves.not.toThrow();
     });
+
+    it('should write an inbox entry and push it live even without push tokens', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([]);
+
+      await service.sendExchangeStatusNotification(
+        'exchange1',
+        'ACCEPTED',
+        'user1',
+      );
+
+      expect(
+        mockPrismaService.notification.createManyAndReturn,
+      ).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: 'user1',
+            type: 'exchange_status',
+            title: 'SecondLife Exchange',
+            body: 'Votre échange a été accepté',
+            link: '/exchange/exchange1',
+            payload: { exchangeId: 'exchange1', status: 'ACCEPTED' },
+          },
+        ],
+      });
+      expect(mockGateway.emitNew).toHaveBeenCalledWith(
+        'user1',
+        expect.objectContaining({ id: 'notif1', readAt: null }),
+        1,
+      );
+    });
+  });
+
+  describe('preferences', () => {
+    it('should skip push but keep the inbox entry when push is muted or during quiet hours', async () => {
+      mockPreferencesService.resolveChannels.mockResolvedValue(
+        new Map([['user1', { push: false, inApp: true, email: true }]]),
+      );
+
+      await service.sendNewMessageNotification(
+        'thread1',
+        'Test Thread',
+        'user1',
+        'John Doe',
+      );
+
+      expect(mockPreferencesService.resolveChannels).toHaveBeenCalledWith(
+        ['user1'],
+        'NEW_MESSAGE',
+      );
+      expect(
+        mockPrismaService.notification.createManyAndReturn,
+      ).toHaveBeenCalled();
+      expect(
+        mockPrismaService.notificationToken.findMany,
+      ).not.toHaveBeenCalled();
+      expect(mockWebPushService.send).not.toHaveBeenCalled();
+    });
+
+    it('should not write to the inbox when in-app is muted', async () => {
+      mockPreferencesService.resolveChannels.mockResolvedValue(
+        new Map([['user1', { push: true, inApp: false, email: true }]]),
+      );
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([
+        { id: '1', userId: 'user1', provider: 'webpush', token: 'test-token' },
+      ]);
+
+      await service.sendExchangeStatusNotification(
+        'exchange1',
+        'ACCEPTED',
+        'user1',
+      );
+
+      expect(
+        mockPrismaService.notification.createManyAndReturn,
+      ).not.toHaveBeenCalled();
+      expect(mockGateway.emitNew).not.toHaveBeenCalled();
+      expect(mockWebPushService.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('email', () => {
+    const recipient = {
+      id: 'user1',
+      email: 'user1@example.com',
+      displayName: 'Jane',
+      preferences: { locale: 'en-GB' },
+    };
+
+    it('should email the recipient in their locale with an unsubscribe scope for the type', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([]);
+      mockPrismaService.user.findMany.mockResolvedValue([recipient]);
+
+      await service.sendExchangeStatusNotification(
+        'exchange1',
+        'ACCEPTED',
+        'user1',
+      );
+
+      expect(mockPrismaService.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: ['user1'] } } }),
+      );
+      expect(mockMailService.sendTemplate).toHaveBeenCalledWith({
+        userId: 'user1',
+        to: 'user1@example.com',
+        recipientName: 'Jane',
+        locale: 'en-GB',
+        unsubscribeScope: 'EXCHANGE_STATUS',
+        template: 'exchange_status',
+        params: { status: 'ACCEPTED', link: '/exchange/exchange1' },
+      });
+      expect(
+        mockPrismaService.notificationDelivery.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          tokenId: null,
+          provider: 'email',
+          type: 'exchange_status',
+          status: 'SENT',
+        }),
+      });
+    });
+
+    it('should email the other participant when a chat message is sent', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([]);
+      mockPrismaService.user.findMany.mockResolvedValue([recipient]);
+
+      await service.sendNewMessageNotification(
+        'exchange1',
+        'Vélo vintage',
+        'user1',
+        'John Doe',
+      );
+
+      expect(mockMailService.sendTemplate).toHaveBeenCalledWith({
+        userId: 'user1',
+        to: 'user1@example.com',
+        recipientName: 'Jane',
+        locale: 'en-GB',
+        unsubscribeScope: 'NEW_MESSAGE',
+        template: 'new_message',
+        params: {
+          senderName: 'John Doe',
+          threadTitle: 'Vélo vintage',
+          link: '/exchange/exchange1',
+        },
+      });
+    });
+
+    it('should email the thread author when someone replies', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([]);
+      mockPrismaService.user.findMany.mockResolvedValue([recipient]);
+
+      await service.sendCommunityReplyNotification(
+        'thread1',
+        'Réparer un vélo',
+        'user1',
+        'John Doe',
+      );
+
+      expect(mockMailService.sendTemplate).toHaveBeenCalledWith({
+        userId: 'user1',
+        to: 'user1@example.com',
+        recipientName: 'Jane',
+        locale: 'en-GB',
+        unsubscribeScope: 'COMMUNITY_REPLY',
+        template: 'community_reply',
+        params: {
+          authorName: 'John Doe',
+          threadTitle: 'Réparer un vélo',
+          link: '/thread/thread1',
+        },
+      });
+    });
+
+    it('should not email users who muted email for the type', async () => {
+      mockPreferencesService.resolveChannels.mockResolvedValue(
+        new Map([['user1', { push: true, inApp: true, email: false }]]),
+      );
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([]);
+
+      await service.sendNewMessageNotification(
+        'thread1',
+        'Test Thread',
+        'user1',
+        'John Doe',
+      );
+
+      expect(mockPrismaService.user.findMany).not.toHaveBeenCalled();
+      expect(mockMailService.sendTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should record a failed email without failing the notification', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([]);
+      mockPrismaService.user.findMany.mockResolvedValue([recipient]);
+      mockMailService.sendTemplate.mockRejectedValue(
+        new Error('Réponse SMTP inattendue à RCPT: 550 Mailbox unavailable'),
+      );
+
+      await expect(
+        service.sendNewMessageNotification(
+          'thread1',
+          'Test Thread',
+          'user1',
+          'John Doe',
+        ),
+      ).resolves.not.toThrow();
+
+      expect(
+        mockPrismaService.notificationDelivery.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          provider: 'email',
+          type: 'new_message',
+          status: 'FAILED',
+          error: 'Réponse SMTP inattendue à RCPT: 550 Mailbox unavailable',
+        }),
+      });
+    });
   });
 
   describe('sendNewMessageNotification', () => {
@@ -324,5 +898,176 @@ describe('NotificationsService', () => {
       );
     });
   });
-});
 
+  describe('sendSavedSearchNotification', () => {
+    it('should link the inbox entry to the matching item', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([]);
+
+      await service.sendSavedSearchNotification(
+        'item1',
+        'Vélo de ville',
+        'Vélos à Lyon',
+        'user1',
+      );
+
+      expect(
+        mockPrismaService.notification.createManyAndReturn,
+      ).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: 'user1',
+            type: 'saved_search',
+            title: 'Nouveau: Vélo de ville',
+            body: 'Correspond à votre recherche « Vélos à Lyon »',
+            link: '/item/item1',
+            payload: { itemId: 'item1' },
+          },
+        ],
+      });
+    });
+  });
+
+  describe('sendWatchedItemNotification', () => {
+    it('should notify every watcher with the new item status', async () => {
+      mockPrismaService.notificationToken.findMany.mockResolvedValue([]);
+
+      await service.sendWatchedItemNotification(
+        'item1',
+        'Vélo de ville',
+        'AVAILABLE',
+        ['user1', 'user2'],
+      );
+
+      expect(
+        mockPrismaService.notification.createManyAndReturn,
+      ).toHaveBeenCalledWith({
+        data: ['user1', 'user2'].map((userId) => ({
+          userId,
+          type: 'watched_item',
+          title: 'Vélo de ville',
+          body: 'Est de nouveau disponible',
+          link: '/item/item1',
+          payload: { itemId: 'item1', status: 'AVAILABLE' },
+        })),
+      });
+    });
+  });
+
+  describe('inbox', () => {
+    it('should list non-archived notifications with the unread count', async () => {
+      mockPrismaService.notification.findMany.mockResolvedValue([
+        buildNotification(),
+      ]);
+      mockPrismaService.notification.count
+        .mockResolvedValueOnce(1) // total
+        .mockResolvedValueOnce(3); // non lues
+
+      const result = await service.listNotifications('user1', {
+        page: 1,
+        limit: 20,
+        status: 'all',
+      });
+
+      expect(mockPrismaService.notification.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user1', archivedAt: null },
+        skip: 0,
+        take: 20,
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(result).toEqual(
+        expect.objectContaining({ total: 1, totalPages: 1, unreadCount: 3 }),
+      );
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({
+          id: 'notif1',
+          link: '/exchange/exchange1',
+          createdAt: '2025-10-21T10:00:00.000Z',
+        }),
+      );
+    });
+
+    it('should filter unread notifications', async () => {
+      mockPrismaService.notification.findMany.mockResolvedValue([]);
+      mockPrismaService.notification.count.mockResolvedValue(0);
+
+      await service.listNotifications('user1', {
+        page: 2,
+        limit: 10,
+        status: 'unread',
+      });
+
+      expect(mockPrismaService.notification.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user1', archivedAt: null, readAt: null },
+          skip: 10,
+          take: 10,
+        }),
+      );
+    });
+
+    it('should mark a notification as read and sync other devices', async () => {
+      mockPrismaService.notification.findFirst.mockResolvedValue(
+        buildNotification(),
+      );
+      mockPrismaService.notification.update.mockResolvedValue(
+        buildNotification({ readAt: new Date() }),
+      );
+      mockPrismaService.notification.count.mockResolvedValue(0);
+
+      const result = await service.markAsRead('user1', 'notif1');
+
+      expect(mockPrismaService.notification.findFirst).toHaveBeenCalledWith({
+        where: { id: 'notif1', userId: 'user1' },
+      });
+      expect(result.readAt).toEqual(expect.any(String));
+      expect(mockGateway.emitRead).toHaveBeenCalledWith('user1', {
+        all: false,
+        ids: ['notif1'],
+        unreadCount: 0,
+      });
+    });
+
+    it("should not expose another user's notification", async () => {
+      mockPrismaService.notification.findFirst.mockResolvedValue(null);
+
+      await expect(service.markAsRead('user2', 'notif1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.notification.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark all notifications as read', async () => {
+      mockPrismaService.notification.updateMany.mockResolvedValue({ count: 4 });
+
+      const result = await service.markAllAsRead('user1');
+
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user1', readAt: null },
+        data: { readAt: expect.any(Date) },
+      });
+      expect(result).toEqual({ updated: 4 });
+      expect(mockGateway.emitRead).toHaveBeenCalledWith('user1', {
+        all: true,
+        ids: [],
+        unreadCount: 0,
+      });
+    });
+
+    it('should archive a notification and mark it as read', async () => {
+      mockPrismaService.notification.findFirst.mockResolvedValue(
+        buildNotification(),
+      );
+      mockPrismaService.notification.update.mockImplementation(({ data }) =>
+        Promise.resolve(buildNotification(data)),
+      );
+
+      const result = await service.archive('user1', 'notif1');
+
+      expect(mockPrismaService.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notif1' },
+        data: { archivedAt: expect.any(Date), readAt: expect.any(Date) },
+      });
+      expect(result.archivedAt).toEqual(expect.any(String));
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsNotEmpty,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { DigestFrequency, NotificationType } from '@prisma/client';
+import { z } from 'zod';
+
+// Heure locale au format HH:mm (00:00 à 23:59)
+export const QUIET_HOURS_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Fuseau horaire appliqué tant que l'utilisateur n'en a pas choisi
+export const DEFAULT_NOTIFICATION_TIMEZONE = 'Europe/Paris';
+
+// Emails non transactionnels: désactivés tant que l'utilisateur ne les a pas
+// demandés (opt-in), y compris sans préférences enregistrées
+export const DEFAULT_MUTED_EMAIL: NotificationType[] = [
+  NotificationType.WEEKLY_THEME,
+];
+
+// Scope d'un lien de désinscription qui désactive les résumés par email
+// (les autres scopes sont des NotificationType)
+export const DIGEST_UNSUBSCRIBE_SCOPE = 'DIGEST';
+
+// Schéma Zod pour la validation
+// undefined: valeur inchangée, null: heures calmes désactivées
+export const UpdateNotificationPreferencesSchema = z.object({
+  mutedPush: z.array(z.nativeEnum(NotificationType)).optional(),
+  mutedInApp: z.array(z.nativeEnum(NotificationType)).optional(),
+  mutedEmail: z.array(z.nativeEnum(NotificationType)).optional(),
+  digestFrequency: z.nativeEnum(DigestFrequency).optional(),
+  quietHoursStart: z.string().regex(QUIET_HOURS_PATTERN).nullable().optional(),
+  quietHoursEnd: z.string().regex(QUIET_HOURS_PATTERN).nullable().optional(),
+  timezone: z.string().max(64).optional(),
+});
+
+export type UpdateNotificationPreferencesInput = z.infer<
+  typeof UpdateNotificationPreferencesSchema
+>;
+
+// DTO pour class-validator
+export class UpdateNotificationPreferencesDto {
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationType, { each: true })
+  mutedPush?: NotificationType[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationType, { each: true })
+  mutedInApp?: NotificationType[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationType, { each: true })
+  mutedEmail?: NotificationType[];
+
+  @IsOptional()
+  @IsEnum(DigestFrequency)
+  digestFrequency?: DigestFrequency;
+
+  @IsOptional()
+  @Matches(QUIET_HOURS_PATTERN, {
+    message: "L'heure de début doit être au format HH:mm",
+  })
+  quietHoursStart?: string | null;
+
+  @IsOptional()
+  @Matches(QUIET_HOURS_PATTERN, {
+    message: "L'heure de fin doit être au format HH:mm",
+  })
+  quietHoursEnd?: string | null;
+
+  // Identifiant IANA (ex: Europe/Paris), vérifié par le service
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timezone?: string;
+}
+
+// Désinscription en un clic: token dans le corps (page /unsubscribe)
+// ou dans la query (en-tête List-Unsubscribe-Post des clients mail)
+export class UnsubscribeDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  token?: string;
+
+  // Corps envoyé par les clients mail (RFC 8058): List-Unsubscribe=One-Click
+  @IsOptional()
+  @IsString()
+  'List-Unsubscribe'?: string;
+}
+
+// Types de réponse
+export interface NotificationPreferencesResponse {
+  mutedPush: NotificationType[];
+  mutedInApp: NotificationType[];
+  mutedEmail: NotificationType[];
+  digestFrequency: DigestFrequency;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string;
+}
+
+// Canaux autorisés pour un envoi donné
+export interface NotificationChannels {
+  push: boolean;
+  inApp: boolean;
+  email: boolean;
+}
+
+export interface UnsubscribeResponse {
+  scope: string; // NotificationType ou DIGEST
+  message: string;
+}
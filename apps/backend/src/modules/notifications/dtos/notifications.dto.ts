@@ -3,9 +3,11 @@ import {
   IsNotEmpty,
   IsOptional,
   IsEnum,
+  IsIn,
   MinLength,
   MaxLength,
 } from 'class-validator';
+import { Transform } from 'class-transformer';
 import { z } from 'zod';
 
 // Types pour les providers
@@ -21,6 +23,7 @@ export const RegisterTokenSchema = z.object({
     .min(1, 'Le token est requis')
     .max(1000, 'Le token ne peut pas dépasser 1000 caractères'),
   provider: z.enum(['webpush', 'fcm']).default('webpush'),
+  label: z.string().max(100).optional(),
 });
 
 export const SendTestNotificationSchema = z.object({
@@ -29,10 +32,26 @@ export const SendTestNotificationSchema = z.object({
   body: z.string().min(1).max(500).default('Ceci est une notification de test'),
 });
 
+// Filtres de la boîte de réception
+export const NOTIFICATION_LIST_STATUSES = [
+  'all',
+  'unread',
+  'archived',
+] as const;
+export type NotificationListStatus =
+  (typeof NOTIFICATION_LIST_STATUSES)[number];
+
+export const ListNotificationsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  status: z.enum(NOTIFICATION_LIST_STATUSES).default('all'),
+});
+
 export type RegisterTokenInput = z.infer<typeof RegisterTokenSchema>;
 export type SendTestNotificationInput = z.infer<
   typeof SendTestNotificationSchema
 >;
+export type ListNotificationsInput = z.infer<typeof ListNotificationsSchema>;
 
 // DTOs pour class-validator
 export class RegisterTokenDto {
@@ -45,6 +64,12 @@ export class RegisterTokenDto {
   @IsOptional()
   @IsEnum(NotificationProvider)
   provider?: NotificationProvider = NotificationProvider.WEBPUSH;
+
+  // Nom de l'appareil choisi par l'utilisateur (déduit du user agent sinon)
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
 }
 
 export class SendTestNotificationDto {
@@ -65,6 +90,21 @@ export class SendTestNotificationDto {
   body?: string = 'Ceci est une notification de test';
 }
 
+export class ListNotificationsDto {
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  page?: number = 1;
+
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value))
+  limit?: number = 20;
+
+  // all: non archivées, unread: non lues, archived: archivées
+  @IsOptional()
+  @IsIn(NOTIFICATION_LIST_STATUSES)
+  status?: NotificationListStatus = 'all';
+}
+
 // Types de réponse
 export interface NotificationTokenResponse {
   id: string;
@@ -74,9 +114,50 @@ export interface NotificationTokenResponse {
   createdAt: string;
 }
 
+// Appareil enregistré (le token lui-même n'est pas exposé)
+export interface NotificationDeviceResponse {
+  id: string;
+  provider: string;
+  label: string | null;
+  userAgent: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+}
+
 export interface SendNotificationResponse {
   success: boolean;
   message: string;
   sentCount: number;
 }
 
+export interface NotificationResponse {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  link: string | null;
+  payload: Record<string, unknown> | null;
+  readAt: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+}
+
+export interface PaginatedNotificationsResponse {
+  items: NotificationResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  unreadCount: number;
+}
+
+export interface UnreadCountResponse {
+  unreadCount: number;
+}
+
+// Événement `notification:read` (synchronisation entre appareils)
+export interface NotificationReadEvent {
+  all: boolean; // true: toutes les notifications ont été lues
+  ids: string[];
+  unreadCount: number;
+}
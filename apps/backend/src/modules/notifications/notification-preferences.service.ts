@@ -0,0 +1,362 @@
+/**
+ * FICHIER: notification-preferences.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service gère les préférences de notification de chaque utilisateur
+ * et décide, avant chaque envoi, quels canaux sont autorisés.
+ *
+ * PRÉFÉRENCES:
+ * - Par type (WEEKLY_THEME, EXCHANGE_STATUS, NEW_MESSAGE, COMMUNITY_REPLY,
+ *   RECOMMENDATIONS, SAVED_SEARCH, WATCHED_ITEM) et par canal (push, boîte de
+ *   réception, email)
+ * - Stockées sous forme de listes de types désactivés: un nouveau type
+ *   est donc actif par défaut, comme pour un utilisateur sans préférences
+ * - Exception: les emails non transactionnels (DEFAULT_MUTED_EMAIL, ex: thème
+ *   de la semaine) sont désactivés par défaut et doivent être activés
+ * - Heures calmes (ex: 22:00 → 07:00) dans le fuseau horaire de l'utilisateur
+ * - Fréquence du résumé par email des notifications non lues (NEVER, DAILY, WEEKLY)
+ *
+ * HEURES CALMES:
+ * - Le push est suspendu (pas de différé: la notification n'est pas renvoyée plus tard)
+ * - La boîte de réception est toujours alimentée (lecture au réveil)
+ * - Une plage peut traverser minuit (début > fin)
+ * - Les emails ne sont pas concernés (lus quand l'utilisateur le souhaite)
+ *
+ * DÉSINSCRIPTION:
+ * - Les emails contiennent un lien signé (MailService) dont le scope est
+ *   un type de notification (désactive l'email pour ce type) ou DIGEST
+ *   (désactive les résumés)
+ */
+
+// Import des classes NestJS
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+
+// Import du service Prisma
+import { PrismaService } from '../../common/prisma/prisma.service';
+import {
+  DigestFrequency,
+  NotificationPreference,
+  NotificationType,
+} from '@prisma/client';
+
+// Import du service d'emails (vérification des liens de désinscription)
+import { MailService } from '../mail/mail.service';
+
+// Import des DTOs
+import {
+  DEFAULT_MUTED_EMAIL,
+  DEFAULT_NOTIFICATION_TIMEZONE,
+  DIGEST_UNSUBSCRIBE_SCOPE,
+  NotificationChannels,
+  NotificationPreferencesResponse,
+  UnsubscribeResponse,
+  UpdateNotificationPreferencesInput,
+} from './dtos/notification-preferences.dto';
+
+/**
+ * SERVICE: NotificationPreferencesService
+ *
+ * Lecture / mise à jour des préférences et filtrage central des envois.
+ */
+@Injectable()
+export class NotificationPreferencesService {
+  /**
+   * Logger pour enregistrer les événements
+   */
+  private readonly logger = new Logger(NotificationPreferencesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private mail: MailService,
+  ) {}
+
+  // ============================================
+  // MÉTHODE: getPreferences
+  // ============================================
+
+  /**
+   * Retourne les préférences de l'utilisateur (valeurs par défaut si jamais enregistrées).
+   *
+   * @param userId - ID de l'utilisateur
+   */
+  async getPreferences(
+    userId: string,
+  ): Promise<NotificationPreferencesResponse> {
+    const preference = await this.prisma.notificationPreference.findUnique({
+      where: { userId },
+    });
+
+    return this.mapPreferences(preference);
+  }
+
+  // ============================================
+  // MÉTHODE: updatePreferences
+  // ============================================
+
+  /**
+   * Met à jour les préférences (seuls les champs fournis sont modifiés).
+   *
+   * RÈGLES:
+   * - Les heures calmes se définissent (ou se désactivent avec null) par paire
+   * - Début et fin doivent être différents
+   * - Le fuseau horaire doit être un identifiant IANA connu
+   *
+   * @param userId - ID de l'utilisateur
+   * @param input - Champs à modifier
+   * @throws BadRequestException si les heures calmes ou le fuseau sont invalides
+   */
+  async updatePreferences(
+    userId: string,
+    input: UpdateNotificationPreferencesInput,
+  ): Promise<NotificationPreferencesResponse> {
+    const current = await this.getPreferences(userId);
+
+    const quietHoursStart =
+      input.quietHoursStart !== undefined
+        ? input.quietHoursStart
+        : current.quietHoursStart;
+    const quietHoursEnd =
+      input.quietHoursEnd !== undefined
+        ? input.quietHoursEnd
+        : current.quietHoursEnd;
+
+    if ((quietHoursStart === null) !== (quietHoursEnd === null)) {
+      throw new BadRequestException(
+        'Les heures calmes nécessitent une heure de début et une heure de fin',
+      );
+    }
+
+    if (quietHoursStart !== null && quietHoursStart === quietHoursEnd) {
+      throw new BadRequestException(
+        "L'heure de début et l'heure de fin des heures calmes doivent être différentes",
+      );
+    }
+
+    if (input.timezone !== undefined && !this.isValidTimezone(input.timezone)) {
+      throw new BadRequestException(
+        `Fuseau horaire inconnu: ${input.timezone}`,
+      );
+    }
+
+    const data = {
+      mutedPush: [...new Set(input.mutedPush ?? current.mutedPush)],
+      mutedInApp: [...new Set(input.mutedInApp ?? current.mutedInApp)],
+      mutedEmail: [...new Set(input.mutedEmail ?? current.mutedEmail)],
+      digestFrequency: input.digestFrequency ?? current.digestFrequency,
+      quietHoursStart,
+      quietHoursEnd,
+      timezone: input.timezone ?? current.timezone,
+    };
+
+    const preference = await this.prisma.notificationPreference.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data },
+    });
+
+    return this.mapPreferences(preference);
+  }
+
+  // ============================================
+  // MÉTHODE: resolveChannels (vérification centrale avant envoi)
+  // ============================================
+
+  /**
+   * Détermine, pour chaque destinataire, les canaux autorisés pour ce type.
+   *
+   * - push: type non désactivé pour le push ET hors heures calmes
+   * - inApp: type non désactivé pour la boîte de réception
+   * - email: type non désactivé pour l'email (heures calmes ignorées)
+   *
+   * Sans préférences enregistrées, tout est autorisé sauf l'email des types
+   * de DEFAULT_MUTED_EMAIL.
+   *
+   * @param userIds - Destinataires
+   * @param type - Type de notification
+   * @param now - Instant de l'envoi (injectable pour les tests)
+   * @returns Canaux autorisés par userId
+   */
+  async resolveChannels(
+    userIds: string[],
+    type: NotificationType,
+    now: Date = new Date(),
+  ): Promise<Map<string, NotificationChannels>> {
+    const channels = new Map<string, NotificationChannels>();
+    if (userIds.length === 0) return channels;
+
+    const preferences = await this.prisma.notificationPreference.findMany({
+      where: { userId: { in: userIds } },
+    });
+    const byUser = new Map(preferences.map((p) => [p.userId, p]));
+
+    for (const userId of userIds) {
+      const preference = byUser.get(userId);
+
+      if (!preference) {
+        channels.set(userId, {
+          push: true,
+          inApp: true,
+          email: !DEFAULT_MUTED_EMAIL.includes(type),
+        });
+        continue;
+      }
+
+      channels.set(userId, {
+        push:
+          !preference.mutedPush.includes(type) &&
+          !this.isQuietTime(preference, now),
+        inApp: !preference.mutedInApp.includes(type),
+        email: !preference.mutedEmail.includes(type),
+      });
+    }
+
+    return channels;
+  }
+
+  // ============================================
+  // MÉTHODE: unsubscribe (lien de désinscription en un clic)
+  // ============================================
+
+  /**
+   * Applique un lien de désinscription reçu par email (sans authentification:
+   * la signature du token prouve qu'il a été émis pour cet utilisateur).
+   *
+   * - Scope NotificationType: l'email est désactivé pour ce type
+   * - Scope DIGEST: les résumés ne sont plus envoyés
+   * Réutiliser un lien ne change rien (opération idempotente).
+   *
+   * @param token - Token signé du lien
+   * @throws BadRequestException si le token est invalide
+   * @throws NotFoundException si l'utilisateur n'existe plus
+   */
+  async unsubscribe(token: string): Promise<UnsubscribeResponse> {
+    const payload = this.mail.verifyUnsubscribeToken(token);
+    const isType = Object.values(NotificationType).includes(
+      payload?.scope as NotificationType,
+    );
+
+    if (!payload || (!isType && payload.scope !== DIGEST_UNSUBSCRIBE_SCOPE)) {
+      throw new BadRequestException('Lien de désinscription invalide');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new NotFoundException('Utilisateur non trouvé');
+    }
+
+    const current = await this.getPreferences(payload.userId);
+
+    if (isType) {
+      const type = payload.scope as NotificationType;
+      await this.updatePreferences(payload.userId, {
+        mutedEmail: [...current.mutedEmail, type],
+      });
+    } else {
+      await this.updatePreferences(payload.userId, {
+        digestFrequency: DigestFrequency.NEVER,
+      });
+    }
+
+    this.logger.log(
+      `Désinscription email (${payload.scope}) pour l'utilisateur ${payload.userId}`,
+    );
+
+    return {
+      scope: payload.scope,
+      message: isType
+        ? 'Vous ne recevrez plus ces emails'
+        : 'Vous ne recevrez plus de résumé par email',
+    };
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Indique si `now` tombe dans les heures calmes de l'utilisateur.
+   * La fin est exclue: 22:00 → 07:00 autorise de nouveau le push à 07:00.
+   */
+  private isQuietTime(preference: NotificationPreference, now: Date): boolean {
+    const { quietHoursStart, quietHoursEnd } = preference;
+    if (!quietHoursStart || !quietHoursEnd) return false;
+
+    const start = this.toMinutes(quietHoursStart);
+    const end = this.toMinutes(quietHoursEnd);
+    const current = this.localMinutes(now, preference.timezone);
+
+    // Plage dans la même journée (ex: 13:00 → 14:00)
+    if (start < end) {
+      return current >= start && current < end;
+    }
+
+    // Plage traversant minuit (ex: 22:00 → 07:00)
+    return current >= start || current < end;
+  }
+
+  /**
+   * Minutes écoulées depuis minuit dans le fuseau donné.
+   * Un fuseau invalide (donnée ancienne) retombe sur le fuseau par défaut.
+   */
+  private localMinutes(now: Date, timezone: string): number {
+    const zone = this.isValidTimezone(timezone)
+      ? timezone
+      : DEFAULT_NOTIFICATION_TIMEZONE;
+
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: zone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+
+    const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+    const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+    return hour * 60 + minute;
+  }
+
+  /**
+   * "22:30" → 1350
+   */
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Vérifie qu'un fuseau horaire est reconnu par le moteur Intl.
+   */
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Formate les préférences pour l'API (valeurs par défaut si aucune ligne).
+   */
+  private mapPreferences(
+    preference: NotificationPreference | null,
+  ): NotificationPreferencesResponse {
+    return {
+      mutedPush: preference?.mutedPush ?? [],
+      mutedInApp: preference?.mutedInApp ?? [],
+      mutedEmail: preference?.mutedEmail ?? [...DEFAULT_MUTED_EMAIL],
+      digestFrequency: preference?.digestFrequency ?? DigestFrequency.WEEKLY,
+      quietHoursStart: preference?.quietHoursStart ?? null,
+      quietHoursEnd: preference?.quietHoursEnd ?? null,
+      timezone: preference?.timezone ?? DEFAULT_NOTIFICATION_TIMEZONE,
+    };
+  }
+}
@@ -3,27 +3,47 @@
  *
  * DESCRIPTION:
  * Ce contrôleur expose les endpoints HTTP pour la gestion des notifications push.
- * Toutes les routes nécessitent une authentification JWT.
+ * Les routes d'enregistrement et de test nécessitent une authentification JWT.
  *
  * ROUTES:
- * - POST /api/v1/notifications/register - Enregistrer un token de notification (authentifié)
+ * - GET /api/v1/notifications - Boîte de réception paginée (authentifié)
+ * - GET /api/v1/notifications/unread-count - Nombre de notifications non lues (authentifié)
+ * - GET /api/v1/notifications/preferences - Préférences de notification (authentifié)
+ * - PUT /api/v1/notifications/preferences - Modifier les préférences et heures calmes (authentifié)
+ * - POST /api/v1/notifications/unsubscribe - Désinscription email en un clic (public, lien signé)
+ * - PATCH /api/v1/notifications/:id/read - Marquer une notification comme lue (authentifié)
+ * - POST /api/v1/notifications/read-all - Tout marquer comme lu (authentifié)
+ * - PATCH /api/v1/notifications/:id/archive - Archiver une notification (authentifié)
+ * - GET /api/v1/notifications/vapid-public-key - Clé publique VAPID (public)
+ * - POST /api/v1/notifications/register - Enregistrer un appareil (token de notification) (authentifié)
+ * - GET /api/v1/notifications/devices - Lister mes appareils (authentifié)
+ * - DELETE /api/v1/notifications/devices/:id - Révoquer un appareil (authentifié)
  * - POST /api/v1/notifications/test - Envoyer une notification de test (admin uniquement)
  *
  * SÉCURITÉ:
  * - Routes protégées par JwtAccessGuard
  * - Route de test nécessite AdminGuard
+ * - Désinscription: pas de JWT, le token signé du lien identifie l'utilisateur
  */
 
 // Import des décorateurs NestJS
 import {
   Controller,
+  Get,
   Post,
+  Patch,
+  Put,
+  Delete,
+  Param,
+  Headers,
+  Query,
   Body,
   UseGuards,
   HttpCode,
   HttpStatus,
   UseInterceptors,
   Request,
+  BadRequestException,
 } from '@nestjs/common';
 
 // Import des décorateurs Swagger
@@ -36,14 +56,26 @@ import {
 
 // Import du service
 import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
 
 // Import des DTOs
 import {
   RegisterTokenDto,
   SendTestNotificationDto,
   NotificationTokenResponse,
+  NotificationDeviceResponse,
   SendNotificationResponse,
+  ListNotificationsDto,
+  NotificationResponse,
+  PaginatedNotificationsResponse,
+  UnreadCountResponse,
 } from './dtos/notifications.dto';
+import {
+  UpdateNotificationPreferencesDto,
+  NotificationPreferencesResponse,
+  UnsubscribeDto,
+  UnsubscribeResponse,
+} from './dtos/notification-preferences.dto';
 
 // Import des guards et intercepteurs
 import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
@@ -63,18 +95,204 @@ export class NotificationsController {
   /**
    * CONSTRUCTEUR
    *
-   * Injection du service de notifications
+   * Injection du service de notifications et du service des préférences
    */
-  constructor(private readonly notificationsService: NotificationsService) {}
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly preferencesService: NotificationPreferencesService,
+  ) {}
+
+  @Get()
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Lister mes notifications',
+    description:
+      'Boîte de réception paginée (plus récentes en premier), filtrable par statut (all, unread, archived)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Notifications paginées avec le nombre de non lues',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Non authentifié',
+  })
+  async listNotifications(
+    @Request() req: any,
+    @Query() query: ListNotificationsDto,
+  ): Promise<PaginatedNotificationsResponse> {
+    return this.notificationsService.listNotifications(req.user.id, {
+      page: query.page || 1,
+      limit: query.limit || 20,
+      status: query.status || 'all',
+    });
+  }
+
+  @Get('unread-count')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Nombre de notifications non lues',
+    description: "Compteur partagé entre tous les appareils de l'utilisateur",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Nombre de notifications non lues',
+  })
+  async getUnreadCount(@Request() req: any): Promise<UnreadCountResponse> {
+    return this.notificationsService.getUnreadCount(req.user.id);
+  }
+
+  @Get('preferences')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Récupérer mes préférences de notification',
+    description:
+      'Types désactivés par canal (push, boîte de réception), heures calmes et fuseau horaire',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Préférences (valeurs par défaut si jamais enregistrées)',
+  })
+  async getPreferences(
+    @Request() req: any,
+  ): Promise<NotificationPreferencesResponse> {
+    return this.preferencesService.getPreferences(req.user.id);
+  }
+
+  @Put('preferences')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Modifier mes préférences de notification',
+    description:
+      'Seuls les champs fournis sont modifiés. Heures calmes au format HH:mm (null pour les désactiver)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Préférences mises à jour',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Heures calmes ou fuseau horaire invalides',
+  })
+  async updatePreferences(
+    @Request() req: any,
+    @Body() dto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferencesResponse> {
+    return this.preferencesService.updatePreferences(req.user.id, dto);
+  }
+
+  @Post('unsubscribe')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Se désinscrire des emails en un clic',
+    description:
+      "Token du lien reçu par email, dans le corps (page /unsubscribe) ou dans la query (List-Unsubscribe-Post des clients mail). Désactive l'email pour un type de notification ou les résumés",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Désinscription appliquée',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Lien de désinscription invalide',
+  })
+  async unsubscribe(
+    @Query('token') queryToken: string | undefined,
+    @Body() dto: UnsubscribeDto,
+  ): Promise<UnsubscribeResponse> {
+    const token = dto?.token ?? queryToken;
+    if (!token) {
+      throw new BadRequestException('Lien de désinscription invalide');
+    }
+
+    return this.preferencesService.unsubscribe(token);
+  }
+
+  @Post('read-all')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Tout marquer comme lu',
+    description: "Marque toutes les notifications de l'utilisateur comme lues",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Nombre de notifications mises à jour',
+  })
+  async markAllAsRead(@Request() req: any): Promise<{ updated: number }> {
+    return this.notificationsService.markAllAsRead(req.user.id);
+  }
+
+  @Patch(':id/read')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Marquer une notification comme lue',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Notification mise à jour',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Notification non trouvée',
+  })
+  async markAsRead(
+    @Request() req: any,
+    @Param('id') id: string,
+  ): Promise<NotificationResponse> {
+    return this.notificationsService.markAsRead(req.user.id, id);
+  }
+
+  @Patch(':id/archive')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Archiver une notification',
+    description: 'La notification est retirée de la boîte de réception',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Notification archivée',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Notification non trouvée',
+  })
+  async archive(
+    @Request() req: any,
+    @Param('id') id: string,
+  ): Promise<NotificationResponse> {
+    return this.notificationsService.archive(req.user.id, id);
+  }
+
+  @Get('vapid-public-key')
+  @ApiOperation({
+    summary: 'Récupérer la clé publique VAPID',
+    description:
+      "Clé à passer à pushManager.subscribe() (applicationServerKey). null si Web Push n'est pas configuré",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Clé publique VAPID',
+  })
+  getVapidPublicKey(): { publicKey: string | null } {
+    return { publicKey: this.notificationsService.getVapidPublicKey() };
+  }
 
   @Post('register')
   @UseGuards(JwtAccessGuard)
   @ApiBearerAuth()
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
-    summary: 'Enregistrer un token de notification',
+    summary: 'Enregistrer un appareil',
     description:
-      "Enregistre un token de notification pour l'utilisateur connecté",
+      "Enregistre le token de notification d'un appareil de l'utilisateur connecté (un token par appareil, les autres appareils sont conservés)",
   })
   @ApiResponse({
     status: 201,
@@ -91,13 +309,56 @@ export class NotificationsController {
   async registerToken(
     @Request() req: any,
     @Body() registerTokenDto: RegisterTokenDto,
+    @Headers('user-agent') userAgent?: string,
   ): Promise<NotificationTokenResponse> {
     return this.notificationsService.registerToken(
       req.user.id,
       registerTokenDto,
+      userAgent?.slice(0, 500),
     );
   }
 
+  @Get('devices')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Lister mes appareils',
+    description:
+      'Appareils recevant les notifications push (nom, user agent, dernière activité)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Liste des appareils',
+  })
+  async listDevices(
+    @Request() req: any,
+  ): Promise<NotificationDeviceResponse[]> {
+    return this.notificationsService.listDevices(req.user.id);
+  }
+
+  @Delete('devices/:id')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Révoquer un appareil',
+    description: "L'appareil ne recevra plus de notifications push",
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Appareil révoqué',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Appareil non trouvé',
+  })
+  async revokeDevice(
+    @Request() req: any,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.notificationsService.revokeDevice(req.user.id, id);
+  }
+
   @Post('test')
   @UseGuards(JwtAccessGuard, AdminGuard)
   @ApiBearerAuth()
@@ -0,0 +1,104 @@
+/**
+ * FICHIER: notifications.gateway.ts
+ *
+ * DESCRIPTION:
+ * Ce gateway WebSocket pousse en temps réel les notifications de la boîte de
+ * réception (table `notifications`) vers tous les appareils connectés d'un utilisateur.
+ *
+ * FONCTIONNEMENT:
+ * - Namespace `/notifications`, handshake authentifié par SocketAuthService
+ * - Chaque socket rejoint la room personnelle `user:<userId>`
+ * - Le serveur émet uniquement (aucun message client n'est écouté)
+ *
+ * ÉVÉNEMENTS ÉMIS:
+ * - `notification:new`: nouvelle notification + compteur de non lues à jour
+ * - `notification:read`: notifications marquées comme lues (synchronisation multi-appareils)
+ */
+
+// Import des décorateurs WebSocket de NestJS
+import {
+  WebSocketGateway,
+  OnGatewayConnection,
+  OnGatewayInit,
+  WebSocketServer,
+} from '@nestjs/websockets';
+
+// Import de Socket.io
+import { Namespace, Socket } from 'socket.io';
+
+// Import des classes NestJS
+import { Logger } from '@nestjs/common';
+
+// Import des services
+import { SocketAuthService } from '../auth/socket-auth.service';
+
+// Import des DTOs
+import {
+  NotificationReadEvent,
+  NotificationResponse,
+} from './dtos/notifications.dto';
+
+/**
+ * Nom de la room personnelle d'un utilisateur.
+ */
+const userRoom = (userId: string) => `user:${userId}`;
+
+/**
+ * GATEWAY: NotificationsGateway
+ *
+ * Diffusion temps réel des notifications in-app.
+ */
+@WebSocketGateway({
+  cors: {
+    origin: process.env.FRONTEND_URL || 'http://localhost:3000',
+    credentials: true,
+  },
+  namespace: '/notifications',
+})
+export class NotificationsGateway
+  implements OnGatewayInit, OnGatewayConnection
+{
+  @WebSocketServer()
+  server: Namespace;
+
+  private readonly logger = new Logger(NotificationsGateway.name);
+
+  constructor(private socketAuth: SocketAuthService) {}
+
+  // Le handshake doit porter un access token valide (l'utilisateur est lié au socket)
+  afterInit(namespace: Namespace) {
+    namespace.use(this.socketAuth.middleware());
+  }
+
+  async handleConnection(client: Socket) {
+    const user = this.socketAuth.requireUser(client);
+    if (!user) return;
+
+    await client.join(userRoom(user.id));
+    this.logger.log(`Client connected: ${client.id} (user ${user.id})`);
+  }
+
+  // ============================================
+  // MÉTHODES PUBLIQUES (utilisées par NotificationsService)
+  // ============================================
+
+  /**
+   * Pousse une nouvelle notification vers les appareils connectés de l'utilisateur.
+   */
+  emitNew(
+    userId: string,
+    notification: NotificationResponse,
+    unreadCount: number,
+  ) {
+    this.server
+      ?.to(userRoom(userId))
+      .emit('notification:new', { notification, unreadCount });
+  }
+
+  /**
+   * Informe les autres appareils que des notifications ont été lues.
+   */
+  emitRead(userId: string, event: NotificationReadEvent) {
+    this.server?.to(userRoom(userId)).emit('notification:read', event);
+  }
+}
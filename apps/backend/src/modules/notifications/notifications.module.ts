@@ -8,9 +8,15 @@
  * COMPOSANTS:
  * - NotificationsController: Routes HTTP pour les notifications
  * - NotificationsService: Logique métier pour les notifications
+ * - WebPushService: Envoi Web Push (chiffrement + signature VAPID)
+ * - NotificationsGateway: Notifications in-app en temps réel (namespace /notifications)
+ * - NotificationPreferencesService: Préférences par type/canal, heures calmes et désinscription
  *
  * DÉPENDANCES:
  * - PrismaModule: Accès à la base de données
+ * - ConfigModule: Clés VAPID (notifications.config)
+ * - AuthModule: Authentification des sockets (SocketAuthService)
+ * - MailModule: Envoi des emails et liens de désinscription signés
  *
  * NOTE:
  * Le service inclut une tâche cron pour les rappels hebdomadaires de thèmes.
@@ -18,13 +24,22 @@
 
 // Import du décorateur Module
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 
 // Import des composants du module
 import { NotificationsController } from './notifications.controller';
 import { NotificationsService } from './notifications.service';
+import { WebPushService } from './web-push.service';
+import { NotificationsGateway } from './notifications.gateway';
+import { NotificationPreferencesService } from './notification-preferences.service';
 
 // Import des modules dépendants
 import { PrismaModule } from '../../common/prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { MailModule } from '../mail/mail.module';
+
+// Import de la configuration Web Push
+import notificationsConfig from '../../config/notifications.config';
 
 /**
  * MODULE: NotificationsModule
@@ -33,13 +48,23 @@ import { PrismaModule } from '../../common/prisma/prisma.module';
  */
 @Module({
   // Modules importés nécessaires
-  imports: [PrismaModule], // Accès à la base de données
+  imports: [
+    PrismaModule, // Accès à la base de données
+    ConfigModule.forFeature(notificationsConfig), // Clés VAPID
+    AuthModule, // Authentification des sockets
+    MailModule, // Canal email
+  ],
 
   // Contrôleur qui expose les routes HTTP
   controllers: [NotificationsController],
 
   // Services fournis par ce module
-  providers: [NotificationsService],
+  providers: [
+    NotificationsService,
+    WebPushService,
+    NotificationsGateway,
+    NotificationPreferencesService,
+  ],
 
   // Services exportés pour être utilisés dans d'autres modules
   exports: [NotificationsService],
@@ -11,15 +11,42 @@
  * - Envoi de notifications de test
  * - Rappel hebdomadaire automatique pour les nouveaux thèmes (cron)
  * - Notifications pour changements de statut d'échange
- * - Notifications pour nouveaux messages dans les threads
+ * - Notifications pour nouveaux messages dans le chat d'un échange
+ * - Réponses dans une discussion de la communauté (auteur du thread)
+ * - Alertes des recherches sauvegardées (nouvel objet correspondant)
+ * - Changements de statut des objets suivis (favoris)
  *
  * PROVIDERS SUPPORTÉS:
- * - fcm: Firebase Cloud Messaging (Android/iOS)
- * - webpush: Web Push API (navigateurs)
+ * - webpush: Web Push API (navigateurs), token = JSON de la PushSubscription,
+ *   envoi chiffré et signé VAPID par WebPushService
+ * - fcm: Firebase Cloud Messaging (Android/iOS), pas encore implémenté
+ *   (les envois échouent et sont enregistrés comme FAILED)
  *
- * NOTE:
- * L'implémentation actuelle est un placeholder. Dans un vrai projet,
- * il faudrait implémenter FCM HTTP v1 et Web Push avec VAPID.
+ * APPAREILS:
+ * - Un utilisateur peut enregistrer plusieurs appareils (un token par navigateur/appareil)
+ * - Chaque appareil a un nom, un user agent et une date de dernière activité (lastSeenAt)
+ * - Les envois partent vers tous les appareils actifs (vus depuis moins de `staleTokenDays`)
+ * - Un cron quotidien supprime les appareils inactifs
+ *
+ * SUIVI DES ENVOIS:
+ * - Chaque envoi est enregistré dans `notification_deliveries` (SENT / FAILED / EXPIRED)
+ * - Un abonnement expiré (404/410 du service push) est supprimé de `notification_tokens`
+ *
+ * BOÎTE DE RÉCEPTION:
+ * - Chaque méthode send* écrit d'abord une ligne dans `notifications` par destinataire
+ *   (historique consultable sur tous les appareils, même sans push activé)
+ * - La notification est poussée en direct via NotificationsGateway (`notification:new`)
+ * - Lecture / archivage: listNotifications, markAsRead, markAllAsRead, archive
+ *
+ * PRÉFÉRENCES:
+ * - Avant chaque envoi (sauf la notification de test, demandée explicitement),
+ *   NotificationPreferencesService indique les canaux autorisés par destinataire
+ *   (type désactivé, heures calmes)
+ *
+ * EMAIL:
+ * - Troisième canal, pour les utilisateurs sans push (MailService, modèles traduits)
+ * - Chaque email contient un lien de désinscription signé pour son type
+ * - Chaque envoi est aussi enregistré dans `notification_deliveries` (provider `email`)
  */
 
 // Import des classes NestJS
@@ -32,18 +59,81 @@ import {
 
 // Import du service Prisma
 import { PrismaService } from '../../common/prisma/prisma.service';
+import { ConfigService } from '@nestjs/config';
+import {
+  Notification,
+  NotificationDeliveryStatus,
+  NotificationToken,
+  NotificationType,
+  Prisma,
+} from '@prisma/client';
+
+// Import du service d'envoi Web Push et du gateway temps réel
+import { WebPushError, WebPushService } from './web-push.service';
+import { NotificationsGateway } from './notifications.gateway';
+import { NotificationPreferencesService } from './notification-preferences.service';
+
+// Import du service d'emails
+import { MailService } from '../mail/mail.service';
+import { MailTemplateName, MailTemplateParams } from '../mail/mail.templates';
 
 // Import des DTOs
 import {
   RegisterTokenInput,
   SendTestNotificationInput,
   NotificationTokenResponse,
+  NotificationDeviceResponse,
   SendNotificationResponse,
+  ListNotificationsInput,
+  NotificationResponse,
+  PaginatedNotificationsResponse,
+  UnreadCountResponse,
 } from './dtos/notifications.dto';
 
 // Import du module de scheduling
 import { Cron, CronExpression } from '@nestjs/schedule';
 
+/**
+ * Contenu d'une notification (lu par le service worker via `event.data.json()`).
+ */
+interface NotificationPayload {
+  title: string;
+  body: string;
+  icon?: string;
+  badge?: string;
+  data?: any;
+}
+
+/**
+ * Contenu d'une notification de la boîte de réception.
+ */
+interface InboxContent {
+  type: string; // test, weekly_theme, exchange_status, new_message, saved_search, watched_item...
+  title: string;
+  body: string;
+  link: string; // Lien profond dans l'application
+  payload?: Record<string, string>; // exchangeId, threadId...
+}
+
+/**
+ * Email associé à une notification (modèle + paramètres).
+ * Le résumé (digest) est envoyé séparément par DigestCronService.
+ */
+type NotificationEmail = {
+  [K in Exclude<MailTemplateName, 'digest'>]: {
+    template: K;
+    params: MailTemplateParams[K];
+  };
+}[Exclude<MailTemplateName, 'digest'>];
+
+/**
+ * Résultat de l'envoi à un token.
+ */
+interface DeliveryResult {
+  success: boolean;
+  error?: string;
+}
+
 /**
  * SERVICE: NotificationsService
  *
@@ -59,9 +149,17 @@ export class NotificationsService {
   /**
    * CONSTRUCTEUR
    *
-   * Injection du service Prisma
+   * Injection du service Prisma, du service Web Push, du gateway temps réel,
+   * du service des préférences, du service d'emails et de la configuration
    */
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private webPush: WebPushService,
+    private gateway: NotificationsGateway,
+    private preferences: NotificationPreferencesService,
+    private mail: MailService,
+    private configService: ConfigService,
+  ) {}
 
   // ============================================
   // MÉTHODE: registerToken (Enregistrer un token)
@@ -71,47 +169,53 @@ export class NotificationsService {
    * Enregistre un token de notification pour un utilisateur.
    *
    * FONCTIONNEMENT:
-   * - Si le token existe déjà pour cet utilisateur et provider, le retourne
-   * - Sinon, crée ou met à jour le token (upsert)
+   * - Pour `webpush`, le token doit être le JSON d'une PushSubscription
+   * - Un token correspond à un appareil: les autres appareils de l'utilisateur sont conservés
+   * - Token déjà connu: rattaché à l'utilisateur courant (appareil partagé)
+   *   et date de dernière activité mise à jour
+   * - Le nom de l'appareil est déduit du user agent s'il n'est pas fourni
    *
    * @param userId - ID de l'utilisateur
-   * @param input - Données du token (token, provider)
+   * @param input - Données du token (token, provider, label)
+   * @param userAgent - En-tête User-Agent de la requête
    * @returns Token enregistré
+   * @throws BadRequestException si l'abonnement Web Push est invalide
    */
   async registerToken(
     userId: string,
     input: RegisterTokenInput,
+    userAgent?: string,
   ): Promise<NotificationTokenResponse> {
     const { token, provider = 'webpush' } = input;
 
-    // Vérifier si le token existe déjà
-    const existingToken = await this.prisma.notificationToken.findFirst({
-      where: {
-        userId,
-        token,
-        provider,
-      },
-    });
-
-    if (existingToken) {
-      return this.mapToResponse(existingToken);
+    if (provider === 'webpush' && !this.webPush.parseSubscription(token)) {
+      throw new BadRequestException(
+        'Abonnement Web Push invalide (PushSubscription attendue)',
+      );
     }
 
-    // Créer ou mettre à jour le token
+    const label = input.label?.trim() || this.describeDevice(userAgent);
+
+    // Un enregistrement par appareil (clé: provider + token)
     const notificationToken = await this.prisma.notificationToken.upsert({
       where: {
-        userId_provider: {
-          userId,
+        provider_token: {
           provider,
+          token,
         },
       },
       update: {
-        token,
+        userId,
+        userAgent,
+        lastSeenAt: new Date(),
+        ...(input.label?.trim() && { label }),
       },
       create: {
         userId,
         provider,
         token,
+        label,
+        userAgent,
       },
     });
 
@@ -121,6 +225,81 @@ export class NotificationsService {
     return this.mapToResponse(notificationToken);
   }
 
+  // ============================================
+  // MÉTHODE: listDevices (Appareils enregistrés)
+  // ============================================
+
+  /**
+   * Liste les appareils de l'utilisateur (plus récemment actifs en premier).
+   *
+   * @param userId - ID de l'utilisateur
+   * @returns Appareils (sans le token)
+   */
+  async listDevices(userId: string): Promise<NotificationDeviceResponse[]> {
+    const tokens = await this.prisma.notificationToken.findMany({
+      where: { userId },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return tokens.map((token) => this.mapDevice(token));
+  }
+
+  // ============================================
+  // MÉTHODE: revokeDevice
+  // ============================================
+
+  /**
+   * Révoque un appareil: il ne recevra plus de notifications push.
+   *
+   * @param userId - ID de l'utilisateur
+   * @param deviceId - ID du token
+   * @throws NotFoundException si l'appareil n'appartient pas à l'utilisateur
+   */
+  async revokeDevice(userId: string, deviceId: string): Promise<void> {
+    const { count } = await this.prisma.notificationToken.deleteMany({
+      where: { id: deviceId, userId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Appareil non trouvé');
+    }
+
+    this.logger.log(`Appareil ${deviceId} révoqué par l'utilisateur ${userId}`);
+  }
+
+  // ============================================
+  // TÂCHE CRON: pruneStaleTokens
+  // ============================================
+
+  /**
+   * Supprime les appareils inactifs depuis plus de `staleTokenDays` jours.
+   *
+   * EXPRESSION CRON: '0 4 * * *' (tous les jours à 04:00)
+   *
+   * @returns Nombre d'appareils supprimés
+   */
+  @Cron('0 4 * * *', {
+    timeZone: 'Europe/Paris',
+  })
+  async pruneStaleTokens(): Promise<number> {
+    try {
+      const { count } = await this.prisma.notificationToken.deleteMany({
+        where: { lastSeenAt: { lt: this.staleCutoff() } },
+      });
+
+      if (count > 0) {
+        this.logger.log(`${count} appareil(s) inactif(s) supprimé(s)`);
+      }
+      return count;
+    } catch (error) {
+      this.logger.error(
+        'Erreur lors de la suppression des appareils inactifs:',
+        error,
+      );
+      return 0;
+    }
+  }
+
   // ============================================
   // MÉTHODE: sendTestNotification
   // ============================================
@@ -144,9 +323,9 @@ export class NotificationsService {
   ): Promise<SendNotificationResponse> {
     const { userId = currentUserId, title, body } = input;
 
-    // Récupérer les tokens de l'utilisateur
+    // Récupérer les appareils actifs de l'utilisateur
     const tokens = await this.prisma.notificationToken.findMany({
-      where: { userId },
+      where: { userId, lastSeenAt: { gte: this.staleCutoff() } },
       include: {
         user: {
           select: {
@@ -163,33 +342,20 @@ export class NotificationsService {
       );
     }
 
+    const content: InboxContent = { type: 'test', title, body, link: '/' };
+    await this.createInboxEntries([userId], content);
+
     let sentCount = 0;
     const errors: string[] = [];
 
     // Envoyer la notification à chaque token
     for (const tokenData of tokens) {
-      try {
-        await this.sendNotificationToToken(
-          tokenData.token,
-          tokenData.provider,
-          {
-            title,
-            body,
-            icon: '/logo.svg',
-            badge: '/badge.png',
-            data: {
-              url: '/',
-              type: 'test',
-            },
-          },
-        );
+      const result = await this.deliver(tokenData, this.toPushPayload(content));
+
+      if (result.success) {
         sentCount++;
-      } catch (error) {
-        this.logger.error(
-          `Erreur lors de l'envoi à ${tokenData.provider}:`,
-          error,
-        );
-        errors.push(`${tokenData.provider}: ${error.message}`);
+      } else {
+        errors.push(`${tokenData.provider}: ${result.error}`);
       }
     }
 
@@ -228,8 +394,10 @@ export class NotificationsService {
    *
    * PROCESSUS:
    * 1. Récupère le thème actif
-   * 2. Récupère tous les tokens de notification
-   * 3. Envoie une notification à tous les utilisateurs
+   * 2. Récupère tous les utilisateurs (l'email touche aussi ceux sans push)
+   * 3. Ajoute la notification à la boîte de réception de chaque utilisateur concerné
+   * 4. Envoie une notification push à leurs appareils, puis un email
+   * (les étapes 3 et 4 respectent les préférences de chaque utilisateur)
    */
   @Cron('0 9 * * 1', {
     timeZone: 'Europe/Paris',
@@ -255,57 +423,37 @@ export class NotificationsService {
         return;
       }
 
-      // Récupérer tous les tokens de notification
-      const tokens = await this.prisma.notificationToken.findMany({
-        include: {
-          user: {
-            select: {
-              displayName: true,
-            },
-          },
-        },
+      // Récupérer les destinataires (push, boîte de réception et email)
+      const users = await this.prisma.user.findMany({
+        select: { id: true },
       });
 
-      if (tokens.length === 0) {
-        this.logger.warn(
-          'Aucun token de notification trouvé pour le rappel hebdomadaire',
-        );
+      if (users.length === 0) {
+        this.logger.warn('Aucun utilisateur pour le rappel hebdomadaire');
         return;
       }
 
-      let sentCount = 0;
-      const errors: string[] = [];
-
-      // Envoyer la notification à tous les utilisateurs
-      for (const tokenData of tokens) {
-        try {
-          await this.sendNotificationToToken(
-            tokenData.token,
-            tokenData.provider,
-            {
-              title: 'Nouveau thème de la semaine',
-              body: `Découvrez le thème: ${currentTheme.title}`,
-              icon: '/logo.svg',
-              badge: '/badge.png',
-              data: {
-                url: '/themes',
-                type: 'weekly_theme',
-                themeId: currentTheme.id,
-              },
-            },
-          );
-          sentCount++;
-        } catch (error) {
-          this.logger.error(
-            `Erreur lors de l'envoi du rappel à ${tokenData.provider}:`,
-            error,
-          );
-          errors.push(`${tokenData.provider}: ${error.message}`);
-        }
-      }
+      const content: InboxContent = {
+        type: 'weekly_theme',
+        title: 'Nouveau thème de la semaine',
+        body: `Découvrez le thème: ${currentTheme.title}`,
+        link: '/themes',
+        payload: { themeId: currentTheme.id },
+      };
+
+      const userIds = users.map((user) => user.id);
+      const sentCount = await this.notify(
+        userIds,
+        NotificationType.WEEKLY_THEME,
+        content,
+        {
+          template: 'weekly_theme',
+          params: { themeTitle: currentTheme.title, link: '/themes' },
+        },
+      );
 
       this.logger.log(
-        `Rappel hebdomadaire envoyé à ${sentCount}/${tokens.length} utilisateurs`,
+        `Rappel hebdomadaire envoyé à ${sentCount} appareil(s) pour ${userIds.length} utilisateurs`,
       );
     } catch (error) {
       this.logger.error(
@@ -328,6 +476,9 @@ export class NotificationsService {
    * - DECLINED: Échange décliné
    * - COMPLETED: Échange terminé
    * - CANCELLED: Échange annulé
+   * - COMPLETION_CONFIRMED: L'autre participant a confirmé la réalisation
+   * - RATED: L'autre participant a déposé son avis (invitation à noter)
+   * - COUNTER_PROPOSED: L'autre participant propose un lot modifié (nouvelle révision)
    *
    * @param exchangeId - ID de l'échange
    * @param status - Nouveau statut de l'échange
@@ -338,46 +489,34 @@ export class NotificationsService {
     status: string,
     recipientUserId: string,
   ): Promise<void> {
-    const tokens = await this.prisma.notificationToken.findMany({
-      where: { userId: recipientUserId },
-    });
-
-    if (tokens.length === 0) return;
-
     const statusMessages = {
       PENDING: "Nouvelle demande d'échange",
       ACCEPTED: 'Votre échange a été accepté',
       DECLINED: 'Votre échange a été décliné',
       COMPLETED: 'Échange terminé avec succès',
       CANCELLED: 'Échange annulé',
+      COMPLETION_CONFIRMED:
+        "L'autre participant a confirmé la réalisation de l'échange",
+      RATED: "L'autre participant a laissé son avis, donnez le vôtre",
+      COUNTER_PROPOSED: 'Contre-proposition reçue: un lot modifié vous attend',
     };
 
     const message = statusMessages[status] || "Statut d'échange mis à jour";
 
-    for (const tokenData of tokens) {
-      try {
-        await this.sendNotificationToToken(
-          tokenData.token,
-          tokenData.provider,
-          {
-            title: 'SecondLife Exchange',
-            body: message,
-            icon: '/logo.svg',
-            badge: '/badge.png',
-            data: {
-              url: '/exchanges',
-              type: 'exchange_status',
-              exchangeId,
-            },
-          },
-        );
-      } catch (error) {
-        this.logger.error(
-          `Erreur lors de l'envoi de notification d'échange:`,
-          error,
-        );
-      }
-    }
+    const link = `/exchange/${exchangeId}`;
+
+    await this.notify(
+      [recipientUserId],
+      NotificationType.EXCHANGE_STATUS,
+      {
+        type: 'exchange_status',
+        title: 'SecondLife Exchange',
+        body: message,
+        link,
+        payload: { exchangeId, status },
+      },
+      { template: 'exchange_status', params: { status, link } },
+    );
   }
 
   // ============================================
@@ -385,51 +524,646 @@ export class NotificationsService {
   // ============================================
 
   /**
-   * Envoie une notification pour un nouveau message dans un thread.
+   * Envoie une notification pour un nouveau message dans le chat d'un échange.
    *
-   * @param threadId - ID du thread
-   * @param threadTitle - Titre du thread
-   * @param recipientUserId - ID de l'utilisateur destinataire
+   * @param exchangeId - ID de l'échange
+   * @param exchangeTitle - Titre de la conversation (objets de l'échange)
+   * @param recipientUserId - ID de l'autre participant
    * @param senderName - Nom de l'expéditeur
    */
   async sendNewMessageNotification(
+    exchangeId: string,
+    exchangeTitle: string,
+    recipientUserId: string,
+    senderName: string,
+  ): Promise<void> {
+    const link = `/exchange/${exchangeId}`;
+
+    await this.notify(
+      [recipientUserId],
+      NotificationType.NEW_MESSAGE,
+      {
+        type: 'new_message',
+        title: `Nouveau message de ${senderName}`,
+        body: `Dans: ${exchangeTitle}`,
+        link,
+        payload: { exchangeId },
+      },
+      {
+        template: 'new_message',
+        params: { senderName, threadTitle: exchangeTitle, link },
+      },
+    );
+  }
+
+  // ============================================
+  // MÉTHODE: sendCommunityReplyNotification
+  // ============================================
+
+  /**
+   * Signale à l'auteur d'une discussion qu'un membre y a répondu.
+   *
+   * @param threadId - ID du thread
+   * @param threadTitle - Titre du thread
+   * @param recipientUserId - ID de l'auteur du thread
+   * @param authorName - Nom de l'auteur de la réponse
+   */
+  async sendCommunityReplyNotification(
     threadId: string,
     threadTitle: string,
     recipientUserId: string,
-    senderName: string,
+    authorName: string,
   ): Promise<void> {
-    const tokens = await this.prisma.notificationToken.findMany({
-      where: { userId: recipientUserId },
+    const link = `/thread/${threadId}`;
+
+    await this.notify(
+      [recipientUserId],
+      NotificationType.COMMUNITY_REPLY,
+      {
+        type: 'community_reply',
+        title: `Nouvelle réponse de ${authorName}`,
+        body: `Dans: ${threadTitle}`,
+        link,
+        payload: { threadId },
+      },
+      {
+        template: 'community_reply',
+        params: { authorName, threadTitle, link },
+      },
+    );
+  }
+
+  // ============================================
+  // MÉTHODE: sendSavedSearchNotification
+  // ============================================
+
+  /**
+   * Signale un nouvel objet correspondant à une recherche sauvegardée.
+   *
+   * @param itemId - ID de l'objet publié (ou remis en disponibilité)
+   * @param itemTitle - Titre de l'objet
+   * @param searchName - Nom de la recherche sauvegardée
+   * @param recipientUserId - ID du propriétaire de la recherche
+   */
+  async sendSavedSearchNotification(
+    itemId: string,
+    itemTitle: string,
+    searchName: string,
+    recipientUserId: string,
+  ): Promise<void> {
+    const link = `/item/${itemId}`;
+
+    await this.notify(
+      [recipientUserId],
+      NotificationType.SAVED_SEARCH,
+      {
+        type: 'saved_search',
+        title: `Nouveau: ${itemTitle}`,
+        body: `Correspond à votre recherche « ${searchName} »`,
+        link,
+        payload: { itemId },
+      },
+      {
+        template: 'saved_search',
+        params: { searchName, itemTitle, link },
+      },
+    );
+  }
+
+  // ============================================
+  // MÉTHODE: sendWatchedItemNotification
+  // ============================================
+
+  /**
+   * Prévient les utilisateurs qui suivent un objet (favori) de son nouveau statut.
+   *
+   * @param itemId - ID de l'objet
+   * @param itemTitle - Titre de l'objet
+   * @param status - Nouveau statut (AVAILABLE, PENDING, TRADED, ARCHIVED)
+   * @param recipientUserIds - IDs des utilisateurs qui suivent l'objet
+   */
+  async sendWatchedItemNotification(
+    itemId: string,
+    itemTitle: string,
+    status: string,
+    recipientUserIds: string[],
+  ): Promise<void> {
+    const statusMessages = {
+      AVAILABLE: 'Est de nouveau disponible',
+      PENDING: 'Est réservé pour un échange',
+      TRADED: 'A été échangé',
+      ARCHIVED: "N'est plus proposé",
+    };
+
+    const link = `/item/${itemId}`;
+
+    await this.notify(
+      recipientUserIds,
+      NotificationType.WATCHED_ITEM,
+      {
+        type: 'watched_item',
+        title: itemTitle,
+        body: statusMessages[status] || 'Son statut a changé',
+        link,
+        payload: { itemId, status },
+      },
+      { template: 'watched_item', params: { itemTitle, status, link } },
+    );
+  }
+
+  // ============================================
+  // MÉTHODE: listNotifications (Boîte de réception)
+  // ============================================
+
+  /**
+   * Liste paginée des notifications de l'utilisateur (plus récentes en premier).
+   *
+   * FILTRES (status):
+   * - all: notifications non archivées
+   * - unread: notifications non lues et non archivées
+   * - archived: notifications archivées
+   *
+   * @param userId - ID de l'utilisateur
+   * @param query - Pagination et filtre
+   * @returns Notifications paginées + compteur de non lues
+   */
+  async listNotifications(
+    userId: string,
+    query: ListNotificationsInput,
+  ): Promise<PaginatedNotificationsResponse> {
+    const { page = 1, status = 'all' } = query;
+    const limit = Math.min(query.limit || 20, 50);
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.NotificationWhereInput = { userId };
+    if (status === 'archived') {
+      where.archivedAt = { not: null };
+    } else {
+      where.archivedAt = null;
+      if (status === 'unread') {
+        where.readAt = null;
+      }
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.notification.count({ where }),
+      this.countUnread(userId),
+    ]);
+
+    return {
+      items: notifications.map((notification) =>
+        this.mapNotification(notification),
+      ),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      unreadCount,
+    };
+  }
+
+  // ============================================
+  // MÉTHODE: getUnreadCount
+  // ============================================
+
+  /**
+   * Nombre de notifications non lues (identique sur tous les appareils).
+   */
+  async getUnreadCount(userId: string): Promise<UnreadCountResponse> {
+    return { unreadCount: await this.countUnread(userId) };
+  }
+
+  // ============================================
+  // MÉTHODE: markAsRead
+  // ============================================
+
+  /**
+   * Marque une notification comme lue.
+   *
+   * @throws NotFoundException si la notification n'appartient pas à l'utilisateur
+   */
+  async markAsRead(
+    userId: string,
+    notificationId: string,
+  ): Promise<NotificationResponse> {
+    const notification = await this.findOwnNotification(userId, notificationId);
+
+    if (notification.readAt) {
+      return this.mapNotification(notification);
+    }
+
+    const updated = await this.prisma.notification.update({
+      where: { id: notification.id },
+      data: { readAt: new Date() },
+    });
+
+    await this.broadcastRead(userId, [updated.id]);
+    return this.mapNotification(updated);
+  }
+
+  // ============================================
+  // MÉTHODE: markAllAsRead
+  // ============================================
+
+  /**
+   * Marque toutes les notifications non lues de l'utilisateur comme lues.
+   *
+   * @returns Nombre de notifications mises à jour
+   */
+  async markAllAsRead(userId: string): Promise<{ updated: number }> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    if (count > 0) {
+      this.gateway.emitRead(userId, { all: true, ids: [], unreadCount: 0 });
+    }
+
+    return { updated: count };
+  }
+
+  // ============================================
+  // MÉTHODE: archive
+  // ============================================
+
+  /**
+   * Archive une notification (elle est aussi considérée comme lue).
+   *
+   * @throws NotFoundException si la notification n'appartient pas à l'utilisateur
+   */
+  async archive(
+    userId: string,
+    notificationId: string,
+  ): Promise<NotificationResponse> {
+    const notification = await this.findOwnNotification(userId, notificationId);
+
+    if (notification.archivedAt) {
+      return this.mapNotification(notification);
+    }
+
+    const now = new Date();
+    const updated = await this.prisma.notification.update({
+      where: { id: notification.id },
+      data: { archivedAt: now, readAt: notification.readAt ?? now },
     });
 
-    if (tokens.length === 0) return;
+    if (!notification.readAt) {
+      await this.broadcastRead(userId, [updated.id]);
+    }
+    return this.mapNotification(updated);
+  }
+
+  // ============================================
+  // MÉTHODE: getVapidPublicKey
+  // ============================================
+
+  /**
+   * Clé publique VAPID nécessaire au navigateur pour créer une PushSubscription.
+   *
+   * @returns La clé (base64url), ou null si Web Push n'est pas configuré
+   */
+  getVapidPublicKey(): string | null {
+    return this.webPush.getPublicKey();
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: notify
+  // ============================================
+
+  /**
+   * Notifie des utilisateurs: entrée dans la boîte de réception, push sur leurs appareils
+   * et email, chacun selon ses préférences pour ce type (canaux désactivés, heures calmes).
+   *
+   * @returns Nombre d'appareils ayant reçu le push
+   */
+  private async notify(
+    userIds: string[],
+    type: NotificationType,
+    content: InboxContent,
+    email: NotificationEmail,
+  ): Promise<number> {
+    const channels = await this.preferences.resolveChannels(userIds, type);
+
+    const inAppUserIds = userIds.filter((id) => channels.get(id)?.inApp);
+    const pushUserIds = userIds.filter((id) => channels.get(id)?.push);
+    const emailUserIds = userIds.filter((id) => channels.get(id)?.email);
+
+    await this.createInboxEntries(inAppUserIds, content);
+    const sentCount = await this.pushToUsers(pushUserIds, content);
+    await this.sendEmails(emailUserIds, type, email);
+
+    return sentCount;
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: pushToUsers
+  // ============================================
+
+  /**
+   * Envoie le push à tous les appareils actifs des utilisateurs.
+   *
+   * @returns Nombre d'appareils ayant reçu le push
+   */
+  private async pushToUsers(
+    pushUserIds: string[],
+    content: InboxContent,
+  ): Promise<number> {
+    if (pushUserIds.length === 0) return 0;
 
+    // Tous les appareils actifs des destinataires
+    const tokens = await this.prisma.notificationToken.findMany({
+      where: {
+        userId: { in: pushUserIds },
+        lastSeenAt: { gte: this.staleCutoff() },
+      },
+    });
+
+    let sentCount = 0;
+    const payload = this.toPushPayload(content);
     for (const tokenData of tokens) {
+      const result = await this.deliver(tokenData, payload);
+      if (result.success) sentCount++;
+    }
+
+    return sentCount;
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: sendEmails
+  // ============================================
+
+  /**
+   * Envoie l'email de la notification à chaque utilisateur, dans sa langue
+   * (Preference.locale), avec un lien de désinscription pour ce type.
+   * Un échec est enregistré (delivery FAILED) sans bloquer les autres envois.
+   */
+  private async sendEmails(
+    userIds: string[],
+    type: NotificationType,
+    email: NotificationEmail,
+  ): Promise<void> {
+    if (userIds.length === 0) return;
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: {
+        id: true,
+        email: true,
+        displayName: true,
+        preferences: { select: { locale: true } },
+      },
+    });
+
+    for (const user of users) {
       try {
-        await this.sendNotificationToToken(
-          tokenData.token,
-          tokenData.provider,
-          {
-            title: `Nouveau message de ${senderName}`,
-            body: `Dans: ${threadTitle}`,
-            icon: '/logo.svg',
-            badge: '/badge.png',
-            data: {
-              url: `/thread/${threadId}`,
-              type: 'new_message',
-              threadId,
-            },
-          },
-        );
+        await this.mail.sendTemplate({
+          userId: user.id,
+          to: user.email,
+          recipientName: user.displayName,
+          locale: user.preferences?.locale,
+          unsubscribeScope: type,
+          ...email,
+        });
+        await this.recordEmailDelivery(user.id, email.template, 'SENT');
       } catch (error) {
         this.logger.error(
-          `Erreur lors de l'envoi de notification de message:`,
-          error,
+          `Erreur lors de l'envoi de l'email ${email.template} à l'utilisateur ${user.id}: ${error.message}`,
+        );
+        await this.recordEmailDelivery(
+          user.id,
+          email.template,
+          'FAILED',
+          error.message,
         );
       }
     }
   }
 
+  // ============================================
+  // MÉTHODE PRIVÉE: createInboxEntries
+  // ============================================
+
+  /**
+   * Écrit la notification dans la boîte de réception des utilisateurs et la pousse
+   * en direct sur leurs sockets connectés.
+   * Un échec est seulement loggué: il ne doit pas empêcher l'envoi push.
+   */
+  private async createInboxEntries(
+    userIds: string[],
+    content: InboxContent,
+  ): Promise<void> {
+    if (userIds.length === 0) return;
+
+    try {
+      const notifications = await this.prisma.notification.createManyAndReturn({
+        data: userIds.map((userId) => ({
+          userId,
+          type: content.type,
+          title: content.title,
+          body: content.body,
+          link: content.link,
+          payload: content.payload,
+        })),
+      });
+
+      for (const notification of notifications) {
+        const unreadCount = await this.countUnread(notification.userId);
+        this.gateway.emitNew(
+          notification.userId,
+          this.mapNotification(notification),
+          unreadCount,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Impossible d'enregistrer la notification ${content.type}: ${error.message}`,
+      );
+    }
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES: boîte de réception
+  // ============================================
+
+  /**
+   * Notifications non lues et non archivées.
+   */
+  private countUnread(userId: string): Promise<number> {
+    return this.prisma.notification.count({
+      where: { userId, readAt: null, archivedAt: null },
+    });
+  }
+
+  /**
+   * @throws NotFoundException si la notification n'existe pas ou appartient à un autre utilisateur
+   */
+  private async findOwnNotification(
+    userId: string,
+    notificationId: string,
+  ): Promise<Notification> {
+    const notification = await this.prisma.notification.findFirst({
+      where: { id: notificationId, userId },
+    });
+
+    if (!notification) {
+      throw new NotFoundException('Notification non trouvée');
+    }
+
+    return notification;
+  }
+
+  /**
+   * Synchronise le compteur de non lues sur les autres appareils.
+   */
+  private async broadcastRead(userId: string, ids: string[]): Promise<void> {
+    const unreadCount = await this.countUnread(userId);
+    this.gateway.emitRead(userId, { all: false, ids, unreadCount });
+  }
+
+  /**
+   * Contenu push (lu par public/push-sw.js) à partir du contenu de la boîte de réception.
+   */
+  private toPushPayload(content: InboxContent): NotificationPayload {
+    return {
+      title: content.title,
+      body: content.body,
+      icon: '/logo.svg',
+      badge: '/badge.png',
+      data: {
+        url: content.link,
+        type: content.type,
+        ...content.payload,
+      },
+    };
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: deliver
+  // ============================================
+
+  /**
+   * Envoie une notification à un token et enregistre le résultat.
+   * Ne lève jamais d'exception: un appareil en échec ne bloque pas les autres.
+   *
+   * - Succès → delivery SENT
+   * - 404/410 du service push → delivery EXPIRED et suppression du token
+   * - Autre erreur → delivery FAILED
+   *
+   * @param tokenData - Token enregistré
+   * @param payload - Contenu de la notification
+   * @returns Succès ou message d'erreur
+   */
+  private async deliver(
+    tokenData: NotificationToken,
+    payload: NotificationPayload,
+  ): Promise<DeliveryResult> {
+    try {
+      const statusCode = await this.sendNotificationToToken(
+        tokenData.token,
+        tokenData.provider,
+        payload,
+      );
+      await this.recordDelivery(tokenData, payload, 'SENT', statusCode);
+      return { success: true };
+    } catch (error) {
+      const statusCode =
+        error instanceof WebPushError ? error.statusCode : undefined;
+      const gone = error instanceof WebPushError && error.isGone;
+
+      await this.recordDelivery(
+        tokenData,
+        payload,
+        gone ? 'EXPIRED' : 'FAILED',
+        statusCode,
+        error.message,
+      );
+
+      if (gone) {
+        // Suppression conditionnelle: un nouvel abonnement enregistré entre-temps est conservé
+        await this.prisma.notificationToken.deleteMany({
+          where: { id: tokenData.id, token: tokenData.token },
+        });
+        this.logger.log(
+          `Abonnement ${tokenData.provider} expiré supprimé pour l'utilisateur ${tokenData.userId}`,
+        );
+      } else {
+        this.logger.error(
+          `Erreur lors de l'envoi à ${tokenData.provider}: ${error.message}`,
+        );
+      }
+
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: recordDelivery
+  // ============================================
+
+  /**
+   * Enregistre le résultat d'un envoi (table `notification_deliveries`).
+   * Un échec d'écriture est seulement loggué: il ne doit pas faire échouer l'envoi.
+   */
+  private async recordDelivery(
+    tokenData: NotificationToken,
+    payload: NotificationPayload,
+    status: NotificationDeliveryStatus,
+    statusCode?: number,
+    error?: string,
+  ): Promise<void> {
+    try {
+      await this.prisma.notificationDelivery.create({
+        data: {
+          tokenId: tokenData.id,
+          userId: tokenData.userId,
+          provider: tokenData.provider,
+          type: payload.data?.type ?? null,
+          status,
+          statusCode: statusCode ?? null,
+          error: error ? error.slice(0, 500) : null,
+        },
+      });
+    } catch (recordError) {
+      this.logger.warn(
+        `Impossible d'enregistrer l'envoi de notification: ${recordError.message}`,
+      );
+    }
+  }
+
+  /**
+   * Enregistre le résultat d'un envoi d'email (sans token associé).
+   */
+  private async recordEmailDelivery(
+    userId: string,
+    type: string,
+    status: NotificationDeliveryStatus,
+    error?: string,
+  ): Promise<void> {
+    try {
+      await this.prisma.notificationDelivery.create({
+        data: {
+          tokenId: null,
+          userId,
+          provider: 'email',
+          type,
+          status,
+          error: error ? error.slice(0, 500) : null,
+        },
+      });
+    } catch (recordError) {
+      this.logger.warn(
+        `Impossible d'enregistrer l'envoi de l'email: ${recordError.message}`,
+      );
+    }
+  }
+
   // ============================================
   // MÉTHODE PRIVÉE: sendNotificationToToken
   // ============================================
@@ -437,45 +1171,85 @@ export class NotificationsService {
   /**
    * Envoie une notification à un token spécifique.
    *
-   * NOTE:
-   * Cette méthode est un placeholder. Dans un vrai projet, il faudrait:
-   * - Implémenter FCM HTTP v1 pour les tokens 'fcm'
-   * - Implémenter Web Push avec VAPID pour les tokens 'webpush'
+   * - webpush: le token est la PushSubscription, envoi chiffré via WebPushService
+   * - fcm: non implémenté (FCM HTTP v1 nécessite un compte de service Firebase)
    *
    * @param token - Token de notification
    * @param provider - Provider (fcm ou webpush)
    * @param payload - Données de la notification (title, body, icon, badge, data)
+   * @returns Code HTTP renvoyé par le service push
+   * @throws WebPushError si le service push refuse la notification
    */
   private async sendNotificationToToken(
     token: string,
     provider: string,
-    payload: {
-      title: string;
-      body: string;
-      icon?: string;
-      badge?: string;
-      data?: any;
-    },
-  ): Promise<void> {
-    // Placeholder pour l'envoi de notifications
-    // Dans un vrai projet, vous utiliseriez FCM HTTP v1 ou Web Push
-
-    this.logger.log(`Envoi de notification via ${provider} à ${token}:`, {
-      title: payload.title,
-      body: payload.body,
-    });
+    payload: NotificationPayload,
+  ): Promise<number> {
+    if (provider !== 'webpush') {
+      throw new Error(`Provider ${provider} non pris en charge`);
+    }
 
-    // Simulation d'envoi (à remplacer par l'implémentation réelle)
-    if (provider === 'fcm') {
-      // TODO: Implémenter FCM HTTP v1
-      // await this.sendFCMNotification(token, payload);
-    } else if (provider === 'webpush') {
-      // TODO: Implémenter Web Push avec VAPID
-      // await this.sendWebPushNotification(token, payload);
+    const subscription = this.webPush.parseSubscription(token);
+    if (!subscription) {
+      throw new Error('Abonnement Web Push invalide');
     }
 
-    // Pour les tests, on simule un succès
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    return this.webPush.send(subscription, payload);
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES: appareils
+  // ============================================
+
+  /**
+   * Mappe un appareil (token Prisma) vers la réponse API, sans le token.
+   */
+  private mapDevice(token: NotificationToken): NotificationDeviceResponse {
+    return {
+      id: token.id,
+      provider: token.provider,
+      label: token.label,
+      userAgent: token.userAgent,
+      lastSeenAt: token.lastSeenAt.toISOString(),
+      createdAt: token.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Date avant laquelle un appareil est considéré comme inactif.
+   */
+  private staleCutoff(): Date {
+    const days =
+      this.configService.get<number>('notifications.staleTokenDays') ?? 60;
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Nom lisible d'un appareil à partir de son user agent (ex: "Firefox sur Android").
+   */
+  private describeDevice(userAgent?: string): string | null {
+    if (!userAgent) return null;
+
+    const browsers: [RegExp, string][] = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+    ];
+    const systems: [RegExp, string][] = [
+      [/Android/, 'Android'],
+      [/iPhone|iPad/, 'iOS'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) return `${browser} sur ${system}`;
+    return browser ?? system ?? null;
   }
 
   // ============================================
@@ -497,4 +1271,25 @@ export class NotificationsService {
       createdAt: token.createdAt.toISOString(),
     };
   }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: mapNotification
+  // ============================================
+
+  /**
+   * Mappe une notification Prisma vers la réponse API.
+   */
+  private mapNotification(notification: Notification): NotificationResponse {
+    return {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      link: notification.link,
+      payload: notification.payload as Record<string, unknown> | null,
+      readAt: notification.readAt?.toISOString() ?? null,
+      archivedAt: notification.archivedAt?.toISOString() ?? null,
+      createdAt: notification.createdAt.toISOString(),
+    };
+  }
 }
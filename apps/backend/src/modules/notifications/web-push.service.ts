@@ -0,0 +1,404 @@
+/**
+ * FICHIER: web-push.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service envoie des notifications Web Push aux navigateurs abonnés
+ * (PushSubscription créée par `pushManager.subscribe()` côté frontend).
+ * Il est implémenté avec le module `crypto` de Node, sans dépendance externe.
+ *
+ * PROTOCOLE:
+ * - RFC 8030: requête POST vers l'`endpoint` de l'abonnement (service push du navigateur)
+ * - RFC 8291: chiffrement du contenu (ECDH P-256 + HKDF + AES-128-GCM, encodage `aes128gcm`)
+ * - RFC 8292: identification du serveur par VAPID (JWT ES256 signé avec la clé privée)
+ *
+ * FORMAT DU TOKEN:
+ * Le token enregistré pour le provider `webpush` est le JSON de la PushSubscription:
+ * `{ "endpoint": "https://...", "keys": { "p256dh": "...", "auth": "..." } }`
+ *
+ * ERREURS:
+ * - WebPushError avec le code HTTP du service push
+ * - 404/410: l'abonnement n'existe plus (`isGone`), le token doit être supprimé
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+// Import de Node.js
+import * as crypto from 'crypto';
+
+// Import des librairies
+import axios from 'axios';
+import { z } from 'zod';
+
+/**
+ * Taille d'enregistrement annoncée dans l'en-tête aes128gcm.
+ * Le message est envoyé en un seul enregistrement.
+ */
+const RECORD_SIZE = 4096;
+
+/**
+ * Taille maximale du corps chiffré acceptée par les services push.
+ */
+const MAX_ENCRYPTED_BODY_BYTES = 4096;
+
+/**
+ * En-tête aes128gcm: sel (16), taille d'enregistrement (4), longueur de la
+ * clé (1) et clé publique du serveur (65).
+ */
+const AES128GCM_HEADER_BYTES = 16 + 4 + 1 + 65;
+
+/**
+ * Taille maximale du message en clair: le corps chiffré maximal moins
+ * l'en-tête aes128gcm, le tag GCM (16) et l'octet délimiteur (1), soit 3993.
+ */
+export const WEB_PUSH_MAX_PAYLOAD_BYTES =
+  MAX_ENCRYPTED_BODY_BYTES - AES128GCM_HEADER_BYTES - 16 - 1;
+
+/**
+ * Durée de validité du JWT VAPID (12h, le maximum recommandé est 24h).
+ */
+const VAPID_JWT_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Schéma de la PushSubscription sérialisée par le navigateur (`subscription.toJSON()`).
+ */
+export const PushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export type PushSubscriptionData = z.infer<typeof PushSubscriptionSchema>;
+
+/**
+ * Options d'un envoi.
+ */
+export interface WebPushSendOptions {
+  ttlSeconds?: number; // Durée de conservation par le service push
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+}
+
+/**
+ * ERREUR: WebPushError
+ *
+ * Échec d'un envoi. `statusCode` est absent si le service push n'a pas répondu
+ * (erreur réseau, timeout).
+ */
+export class WebPushError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode?: number,
+    readonly responseBody?: string,
+  ) {
+    super(message);
+    this.name = 'WebPushError';
+  }
+
+  /**
+   * L'abonnement a expiré ou a été révoqué par l'utilisateur.
+   */
+  get isGone(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410;
+  }
+}
+
+/**
+ * SERVICE: WebPushService
+ *
+ * Chiffre et envoie les notifications Web Push signées VAPID.
+ */
+@Injectable()
+export class WebPushService {
+  private readonly logger = new Logger(WebPushService.name);
+
+  /**
+   * Configuration Web Push (clés VAPID, TTL, timeout)
+   */
+  private readonly config: {
+    vapidPublicKey?: string;
+    vapidPrivateKey?: string;
+    vapidSubject: string;
+    ttlSeconds: number;
+    timeoutMs: number;
+  };
+
+  /**
+   * Clé privée VAPID au format KeyObject (null si non configurée)
+   */
+  private readonly vapidKey: crypto.KeyObject | null;
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = this.configService.get('notifications') ?? {
+      vapidSubject: 'mailto:contact@secondlife.com',
+      ttlSeconds: 86400,
+      timeoutMs: 10000,
+    };
+
+    this.vapidKey = this.loadVapidKey();
+
+    if (!this.vapidKey) {
+      this.logger.warn(
+        'Clés VAPID non configurées: les notifications Web Push sont désactivées',
+      );
+    }
+  }
+
+  // ============================================
+  // MÉTHODE: getPublicKey
+  // ============================================
+
+  /**
+   * Clé publique VAPID à transmettre au navigateur (applicationServerKey).
+   *
+   * @returns La clé en base64url, ou null si Web Push n'est pas configuré
+   */
+  getPublicKey(): string | null {
+    return this.vapidKey ? this.config.vapidPublicKey! : null;
+  }
+
+  // ============================================
+  // MÉTHODE: parseSubscription
+  // ============================================
+
+  /**
+   * Lit un token `webpush` (JSON de la PushSubscription).
+   *
+   * @returns L'abonnement, ou null si le token n'est pas une PushSubscription valide
+   */
+  parseSubscription(token: string): PushSubscriptionData | null {
+    try {
+      const result = PushSubscriptionSchema.safeParse(JSON.parse(token));
+      if (!result.success) {
+        return null;
+      }
+
+      // Vérifier la taille des clés du navigateur (point P-256 et secret de 16 octets)
+      const p256dh = Buffer.from(result.data.keys.p256dh, 'base64url');
+      const auth = Buffer.from(result.data.keys.auth, 'base64url');
+      if (p256dh.length !== 65 || p256dh[0] !== 0x04 || auth.length !== 16) {
+        return null;
+      }
+
+      return result.data;
+    } catch {
+      return null;
+    }
+  }
+
+  // ============================================
+  // MÉTHODE: send
+  // ============================================
+
+  /**
+   * Chiffre le message et l'envoie au service push de l'abonnement.
+   *
+   * @param subscription - Abonnement du navigateur
+   * @param payload - Contenu de la notification (sérialisé en JSON)
+   * @param options - TTL et urgence
+   * @returns Le code HTTP du service push (201 en général)
+   * @throws WebPushError si VAPID n'est pas configuré, si le message est trop long
+   *   ou si le service push refuse la notification
+   */
+  async send(
+    subscription: PushSubscriptionData,
+    payload: unknown,
+    options: WebPushSendOptions = {},
+  ): Promise<number> {
+    if (!this.vapidKey) {
+      throw new WebPushError('Clés VAPID non configurées');
+    }
+
+    const plaintext = Buffer.from(JSON.stringify(payload), 'utf8');
+    if (plaintext.length > WEB_PUSH_MAX_PAYLOAD_BYTES) {
+      throw new WebPushError(
+        `Notification trop volumineuse (${plaintext.length} octets, maximum ${WEB_PUSH_MAX_PAYLOAD_BYTES})`,
+      );
+    }
+
+    const body = this.encrypt(subscription, plaintext);
+    const jwt = this.createVapidJwt(new URL(subscription.endpoint).origin);
+
+    let response;
+    try {
+      response = await axios.post(subscription.endpoint, body, {
+        headers: {
+          Authorization: `vapid t=${jwt}, k=${this.config.vapidPublicKey}`,
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          TTL: String(options.ttlSeconds ?? this.config.ttlSeconds),
+          Urgency: options.urgency ?? 'normal',
+        },
+        timeout: this.config.timeoutMs,
+        responseType: 'text',
+        // Les codes d'erreur sont traités ci-dessous (410 = abonnement expiré)
+        validateStatus: () => true,
+      });
+    } catch (error) {
+      throw new WebPushError(
+        `Service push injoignable: ${(error as Error).message}`,
+      );
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new WebPushError(
+        `Service push: réponse ${response.status}`,
+        response.status,
+        typeof response.data === 'string' ? response.data : undefined,
+      );
+    }
+
+    return response.status;
+  }
+
+  // ============================================
+  // MÉTHODE STATIQUE: generateVapidKeys
+  // ============================================
+
+  /**
+   * Génère une paire de clés VAPID (à placer dans VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY).
+   */
+  static generateVapidKeys(): { publicKey: string; privateKey: string } {
+    const ecdh = crypto.createECDH('prime256v1');
+    ecdh.generateKeys();
+
+    return {
+      publicKey: ecdh.getPublicKey().toString('base64url'),
+      privateKey: ecdh.getPrivateKey().toString('base64url'),
+    };
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Construit la clé de signature ES256 à partir des clés VAPID brutes (base64url).
+   */
+  private loadVapidKey(): crypto.KeyObject | null {
+    const { vapidPublicKey, vapidPrivateKey } = this.config;
+    if (!vapidPublicKey || !vapidPrivateKey) {
+      return null;
+    }
+
+    try {
+      const publicKey = Buffer.from(vapidPublicKey, 'base64url');
+      if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+        throw new Error('clé publique invalide');
+      }
+
+      return crypto.createPrivateKey({
+        key: {
+          kty: 'EC',
+          crv: 'P-256',
+          x: publicKey.subarray(1, 33).toString('base64url'),
+          y: publicKey.subarray(33, 65).toString('base64url'),
+          d: vapidPrivateKey,
+        },
+        format: 'jwk',
+      });
+    } catch (error) {
+      this.logger.error(`Clés VAPID invalides: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  /**
+   * JWT VAPID (RFC 8292) pour l'origine du service push.
+   * La signature ES256 est au format JOSE (r || s), pas DER.
+   */
+  private createVapidJwt(audience: string): string {
+    const header = { typ: 'JWT', alg: 'ES256' };
+    const claims = {
+      aud: audience,
+      exp: Math.floor(Date.now() / 1000) + VAPID_JWT_TTL_SECONDS,
+      sub: this.config.vapidSubject,
+    };
+
+    const unsigned = [header, claims]
+      .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+      .join('.');
+
+    const signature = crypto.sign('sha256', Buffer.from(unsigned), {
+      key: this.vapidKey!,
+      dsaEncoding: 'ieee-p1363',
+    });
+
+    return `${unsigned}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Chiffrement `aes128gcm` du message pour l'abonnement (RFC 8291).
+   *
+   * CORPS ENVOYÉ:
+   * salt (16) | taille d'enregistrement (4) | longueur de la clé (1) |
+   * clé publique éphémère (65) | message chiffré + tag GCM
+   */
+  private encrypt(
+    subscription: PushSubscriptionData,
+    plaintext: Buffer,
+  ): Buffer {
+    const userAgentPublicKey = Buffer.from(
+      subscription.keys.p256dh,
+      'base64url',
+    );
+    const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+
+    // Clé éphémère du serveur et secret partagé ECDH
+    const ecdh = crypto.createECDH('prime256v1');
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+    // Matériau de clé combinant le secret ECDH et le secret d'authentification
+    const keyInfo = Buffer.concat([
+      Buffer.from('WebPush: info\0'),
+      userAgentPublicKey,
+      serverPublicKey,
+    ]);
+    const ikm = this.hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+    // Clé de chiffrement et nonce dérivés d'un sel aléatoire
+    const salt = crypto.randomBytes(16);
+    const contentKey = this.hkdf(
+      salt,
+      ikm,
+      Buffer.from('Content-Encoding: aes128gcm\0'),
+      16,
+    );
+    const nonce = this.hkdf(
+      salt,
+      ikm,
+      Buffer.from('Content-Encoding: nonce\0'),
+      12,
+    );
+
+    // Un seul enregistrement: message + délimiteur de dernier enregistrement (0x02)
+    const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+    const ciphertext = Buffer.concat([
+      cipher.update(Buffer.concat([plaintext, Buffer.from([0x02])])),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+
+    return Buffer.concat([header, serverPublicKey, ciphertext]);
+  }
+
+  /**
+   * HKDF-SHA256 (extraction + expansion).
+   */
+  private hkdf(
+    salt: Buffer,
+    ikm: Buffer,
+    info: Buffer,
+    length: number,
+  ): Buffer {
+    return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+  }
+}
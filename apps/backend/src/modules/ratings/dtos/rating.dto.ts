@@ -0,0 +1,112 @@
+/**
+ * FICHIER: rating.dto.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier définit le DTO de dépôt d'un avis après un échange réalisé
+ * (note de 1 à 5, commentaire et tags optionnels) et les types de réponse:
+ * état des avis d'un échange, avis reçus par un membre et réputation agrégée.
+ *
+ * NOTE:
+ * Un avis n'est visible qu'à partir de `visibleAt` (voir RatingsService).
+ */
+
+// Import des décorateurs de validation
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+// Import des décorateurs Swagger
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// Import des types Prisma
+import { RatingTag } from '@prisma/client';
+import { z } from 'zod';
+
+// Schéma Zod pour la validation
+export const CreateRatingSchema = z.object({
+  score: z.number().int().min(1).max(5),
+  comment: z.string().max(500).optional(),
+  tags: z.array(z.nativeEnum(RatingTag)).optional(),
+});
+
+export type CreateRatingInput = z.infer<typeof CreateRatingSchema>;
+
+// DTO pour class-validator
+export class CreateRatingDto {
+  @ApiProperty({ description: 'Note de 1 à 5', minimum: 1, maximum: 5 })
+  @IsInt({ message: 'La note doit être un nombre entier' })
+  @Min(1, { message: 'La note doit être comprise entre 1 et 5' })
+  @Max(5, { message: 'La note doit être comprise entre 1 et 5' })
+  score: number;
+
+  @ApiPropertyOptional({
+    description: 'Commentaire libre',
+    example: 'Échange rapide, objet conforme à la description',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500, {
+    message: 'Le commentaire ne peut pas dépasser 500 caractères',
+  })
+  comment?: string;
+
+  @ApiPropertyOptional({ enum: RatingTag, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @ArrayMaxSize(Object.keys(RatingTag).length)
+  @IsEnum(RatingTag, { each: true, message: 'Tag invalide' })
+  tags?: RatingTag[];
+}
+
+// Avis tel qu'il est affiché
+export interface RatingResponse {
+  id: string;
+  score: number;
+  comment: string | null;
+  tags: RatingTag[];
+  createdAt: Date;
+  rater: {
+    id: string;
+    displayName: string;
+    avatarUrl: string | null;
+  };
+}
+
+// État des avis d'un échange, du point de vue d'un participant
+export interface ExchangeRatingsState {
+  canRate: boolean; // Échange réalisé, délai en cours et avis pas encore déposé
+  deadline: Date | null; // Fin du délai (null si l'échange n'est pas réalisé)
+  myRating: RatingResponse | null;
+  otherRating: RatingResponse | null; // Null tant qu'il est masqué
+  otherHasRated: boolean; // L'autre participant a déposé son avis (même masqué)
+}
+
+// Réputation agrégée (avis visibles uniquement)
+export interface RatingSummary {
+  averageRating: number | null; // Moyenne arrondie à 0,1 (null sans avis)
+  ratingsCount: number;
+}
+
+// Réputation détaillée d'un membre (profil public)
+export interface UserRatingSummary extends RatingSummary {
+  tags: { tag: RatingTag; count: number }[]; // Tags reçus, plus fréquents en premier
+}
+
+// Avis reçus par un membre, paginés (plus récents en premier)
+export interface PaginatedRatings {
+  items: RatingResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
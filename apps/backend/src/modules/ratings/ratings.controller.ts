@@ -0,0 +1,149 @@
+/**
+ * FICHIER: ratings.controller.ts
+ *
+ * DESCRIPTION:
+ * Ce contrôleur expose les routes des avis après échange. Chaque participant
+ * d'un échange réalisé peut laisser un avis sur l'autre (note de 1 à 5,
+ * commentaire et tags), masqué jusqu'à ce que les deux avis soient déposés
+ * ou que le délai expire.
+ *
+ * ROUTES:
+ * - GET /api/v1/ratings/exchanges/:exchangeId - Avis d'un échange (participants)
+ * - POST /api/v1/ratings/exchanges/:exchangeId - Noter l'autre participant (participants)
+ * - GET /api/v1/ratings/users/:userId - Avis visibles reçus par un membre (public)
+ *
+ * SÉCURITÉ:
+ * - Routes des échanges protégées par JwtAccessGuard
+ * - Les avis d'un membre sont publics, comme son profil
+ */
+
+// Import des décorateurs NestJS
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+
+// Import des décorateurs Swagger
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+// Import du service
+import { RatingsService } from './ratings.service';
+
+// Import des DTOs
+import { PaginationDto } from '../../common/dtos/pagination.dto';
+import {
+  CreateRatingDto,
+  ExchangeRatingsState,
+  PaginatedRatings,
+} from './dtos/rating.dto';
+
+// Import des guards et intercepteurs
+import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
+import { LoggingInterceptor } from '../../common/interceptors/logging.interceptor';
+
+/**
+ * CONTRÔLEUR: RatingsController
+ *
+ * Le préfixe 'ratings' signifie que les routes commencent par /api/v1/ratings
+ */
+@ApiTags('Ratings')
+@Controller('ratings')
+@UseInterceptors(LoggingInterceptor) // Logger toutes les requêtes
+export class RatingsController {
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection du service des avis
+   */
+  constructor(private readonly ratingsService: RatingsService) {}
+
+  @Get('exchanges/:exchangeId')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: "Avis d'un échange",
+    description:
+      "Mon avis, celui de l'autre participant s'il est visible et la possibilité de noter",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'État des avis',
+  })
+  @ApiResponse({
+    status: 403,
+    description: "Vous ne participez pas à l'échange",
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Échange non trouvé',
+  })
+  async getExchangeRatings(
+    @Request() req: any,
+    @Param('exchangeId') exchangeId: string,
+  ): Promise<ExchangeRatingsState> {
+    return this.ratingsService.getExchangeRatings(exchangeId, req.user.id);
+  }
+
+  @Post('exchanges/:exchangeId')
+  @UseGuards(JwtAccessGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: "Noter l'autre participant",
+    description:
+      "Un avis par participant, pendant le délai qui suit la réalisation de l'échange",
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Avis enregistré',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Échange non réalisé ou délai dépassé',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Échange déjà noté',
+  })
+  async rateExchange(
+    @Request() req: any,
+    @Param('exchangeId') exchangeId: string,
+    @Body() createRatingDto: CreateRatingDto,
+  ): Promise<ExchangeRatingsState> {
+    return this.ratingsService.rateExchange(
+      exchangeId,
+      req.user.id,
+      createRatingDto,
+    );
+  }
+
+  @Get('users/:userId')
+  @ApiOperation({
+    summary: 'Avis reçus par un membre',
+    description: 'Avis visibles, plus récents en premier',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Liste paginée des avis',
+  })
+  async listUserRatings(
+    @Param('userId') userId: string,
+    @Query() paginationDto: PaginationDto,
+  ): Promise<PaginatedRatings> {
+    return this.ratingsService.listUserRatings(userId, paginationDto);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * FICHIER: ratings.module.ts
+ *
+ * DESCRIPTION:
+ * Ce module NestJS regroupe les avis laissés après un échange réalisé et la
+ * réputation des membres qui en découle.
+ *
+ * COMPOSANTS:
+ * - RatingsController: Routes HTTP (avis d'un échange, noter, avis d'un membre)
+ * - RatingsService: Dépôt des avis, masquage et réputation agrégée
+ *
+ * DÉPENDANCES:
+ * - PrismaModule: Accès à la base de données
+ * - NotificationsModule: Invitation à noter quand l'autre participant a déposé son avis
+ *
+ * NOTE:
+ * RatingsService est exporté pour UsersModule, ExchangesModule et MatchingModule,
+ * qui affichent la réputation des membres.
+ */
+
+// Import du décorateur Module
+import { Module } from '@nestjs/common';
+
+// Import des composants du module
+import { RatingsController } from './ratings.controller';
+import { RatingsService } from './ratings.service';
+
+// Import des modules dépendants
+import { PrismaModule } from '../../common/prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+/**
+ * MODULE: RatingsModule
+ *
+ * Module pour les avis après échange.
+ */
+@Module({
+  // Modules importés nécessaires
+  imports: [PrismaModule, NotificationsModule], // Base de données + notifications
+
+  // Contrôleur qui expose les routes HTTP
+  controllers: [RatingsController],
+
+  // Services fournis par ce module
+  providers: [RatingsService],
+
+  // Services exportés pour être utilisés dans d'autres modules
+  exports: [RatingsService],
+})
+export class RatingsModule {}
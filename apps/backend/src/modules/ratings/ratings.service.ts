@@ -0,0 +1,402 @@
+/**
+ * FICHIER: ratings.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service gère les avis laissés après un échange réalisé et la réputation
+ * qui en découle (note moyenne, nombre d'avis, tags reçus).
+ *
+ * RÈGLES:
+ * - Un avis par participant et par échange, uniquement une fois l'échange COMPLETED
+ * - Les avis se déposent pendant RATING_WINDOW_DAYS jours après la réalisation
+ * - Avis masqués: aucun participant ne voit l'avis de l'autre avant d'avoir
+ *   déposé le sien, ou avant la fin du délai. `visibleAt` vaut la fin du délai
+ *   et est avancé à la date du second avis pour les deux avis
+ * - Seuls les avis visibles comptent dans la réputation
+ * - Le premier avis déposé prévient l'autre participant (notification RATED)
+ *
+ * UTILISATION:
+ * - UsersService: réputation détaillée sur le profil public
+ * - ExchangesService / MatchingService: réputation des participants et des
+ *   propriétaires (getSummaries, une requête pour toute une liste)
+ */
+
+// Import des classes NestJS
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ExchangeStatus, Prisma, RatingTag } from '@prisma/client';
+
+// Import des services
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+// Import des DTOs
+import { PaginationInput } from '../../common/dtos/pagination.dto';
+import {
+  CreateRatingInput,
+  ExchangeRatingsState,
+  PaginatedRatings,
+  RatingResponse,
+  RatingSummary,
+  UserRatingSummary,
+} from './dtos/rating.dto';
+
+/**
+ * Délai (jours après la réalisation) pendant lequel les avis peuvent être déposés.
+ */
+export const RATING_WINDOW_DAYS = 14;
+
+/**
+ * Champs renvoyés pour un avis (auteur inclus).
+ */
+const RATING_SELECT = {
+  id: true,
+  score: true,
+  comment: true,
+  tags: true,
+  createdAt: true,
+  visibleAt: true,
+  rater: {
+    select: {
+      id: true,
+      displayName: true,
+      avatarUrl: true,
+    },
+  },
+} as const;
+
+type SelectedRating = Prisma.ExchangeRatingGetPayload<{
+  select: typeof RATING_SELECT;
+}>;
+
+/**
+ * SERVICE: RatingsService
+ *
+ * Service pour les avis après échange et la réputation des membres.
+ */
+@Injectable()
+export class RatingsService {
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection du service Prisma et du service de notifications
+   */
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+  ) {}
+
+  // ============================================
+  // MÉTHODE: rateExchange (Déposer un avis)
+  // ============================================
+
+  /**
+   * Dépose l'avis d'un participant sur l'autre.
+   *
+   * Si l'autre participant a déjà déposé le sien, les deux avis deviennent
+   * visibles immédiatement; sinon l'avis reste masqué jusqu'à la fin du délai.
+   *
+   * @returns État des avis de l'échange pour l'auteur
+   * @throws NotFoundException si l'échange n'existe pas
+   * @throws ForbiddenException si l'utilisateur ne participe pas à l'échange
+   * @throws BadRequestException si l'échange n'est pas réalisé ou si le délai est dépassé
+   * @throws ConflictException si l'utilisateur a déjà noté cet échange
+   */
+  async rateExchange(
+    exchangeId: string,
+    raterId: string,
+    input: CreateRatingInput,
+  ): Promise<ExchangeRatingsState> {
+    const exchange = await this.findExchange(exchangeId, raterId);
+    const deadline = this.getDeadline(exchange);
+
+    if (!deadline) {
+      throw new BadRequestException(
+        "Vous ne pouvez noter qu'un échange réalisé",
+      );
+    }
+
+    const now = new Date();
+    if (now > deadline) {
+      throw new BadRequestException(
+        'Le délai pour noter cet échange est dépassé',
+      );
+    }
+
+    const rateeId =
+      exchange.requesterId === raterId
+        ? exchange.responderId
+        : exchange.requesterId;
+
+    let revealed: boolean;
+    try {
+      revealed = await this.prisma.$transaction(async (tx) => {
+        // Verrou sur l'échange: deux avis déposés en même temps sont traités
+        // l'un après l'autre, le second voit donc toujours le premier
+        await tx.$queryRaw`
+          SELECT "id" FROM "exchanges" WHERE "id" = ${exchangeId} FOR UPDATE`;
+
+        await tx.exchangeRating.create({
+          data: {
+            exchangeId,
+            raterId,
+            rateeId,
+            score: input.score,
+            comment: input.comment?.trim() || null,
+            tags: input.tags ?? [],
+            visibleAt: deadline,
+          },
+        });
+
+        // Second avis: les deux avis sont publiés maintenant
+        const ratingsCount = await tx.exchangeRating.count({
+          where: { exchangeId },
+        });
+        if (ratingsCount < 2) {
+          return false;
+        }
+
+        await tx.exchangeRating.updateMany({
+          where: { exchangeId },
+          data: { visibleAt: now },
+        });
+        return true;
+      });
+    } catch (error) {
+      // Avis déjà déposé (contrainte unique exchangeId + raterId)
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('Vous avez déjà noté cet échange');
+      }
+      throw error;
+    }
+
+    // Premier avis: inviter l'autre participant à déposer le sien
+    if (!revealed) {
+      try {
+        await this.notifications.sendExchangeStatusNotification(
+          exchangeId,
+          'RATED',
+          rateeId,
+        );
+      } catch (e) {
+        // Stratégie: on loggue côté NotificationsService; l'avis reste enregistré
+      }
+    }
+
+    return this.getExchangeRatings(exchangeId, raterId);
+  }
+
+  // ============================================
+  // MÉTHODE: getExchangeRatings (Avis d'un échange)
+  // ============================================
+
+  /**
+   * État des avis d'un échange pour un participant: son avis, celui de l'autre
+   * participant s'il est visible, et la possibilité de noter.
+   *
+   * @throws NotFoundException si l'échange n'existe pas
+   * @throws ForbiddenException si l'utilisateur ne participe pas à l'échange
+   */
+  async getExchangeRatings(
+    exchangeId: string,
+    userId: string,
+  ): Promise<ExchangeRatingsState> {
+    const exchange = await this.findExchange(exchangeId, userId);
+    const deadline = this.getDeadline(exchange);
+
+    const ratings = await this.prisma.exchangeRating.findMany({
+      where: { exchangeId },
+      select: RATING_SELECT,
+    });
+
+    const now = new Date();
+    const myRating = ratings.find((rating) => rating.rater.id === userId);
+    const otherRating = ratings.find((rating) => rating.rater.id !== userId);
+
+    return {
+      canRate: !!deadline && !myRating && now <= deadline,
+      deadline,
+      myRating: myRating ? this.toResponse(myRating) : null,
+      otherRating:
+        otherRating && otherRating.visibleAt <= now
+          ? this.toResponse(otherRating)
+          : null,
+      otherHasRated: !!otherRating,
+    };
+  }
+
+  // ============================================
+  // MÉTHODE: listUserRatings (Avis reçus par un membre)
+  // ============================================
+
+  /**
+   * Avis visibles reçus par un membre, plus récents en premier (profil public).
+   */
+  async listUserRatings(
+    userId: string,
+    pagination: PaginationInput,
+  ): Promise<PaginatedRatings> {
+    const page = pagination.page ?? 1;
+    const limit = pagination.limit ?? 20;
+    const where = { rateeId: userId, visibleAt: { lte: new Date() } };
+
+    const [ratings, total] = await Promise.all([
+      this.prisma.exchangeRating.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: RATING_SELECT,
+      }),
+      this.prisma.exchangeRating.count({ where }),
+    ]);
+
+    return {
+      items: ratings.map((rating) => this.toResponse(rating)),
+      total,
+      page,
+      limit,
+      totalPages: total > 0 ? Math.ceil(total / limit) : 0,
+    };
+  }
+
+  // ============================================
+  // MÉTHODES: getSummaries / getUserSummary (Réputation)
+  // ============================================
+
+  /**
+   * Réputation de plusieurs membres en une requête (listes d'échanges, recommandations).
+   * Chaque ID demandé a une entrée, y compris sans avis.
+   */
+  async getSummaries(userIds: string[]): Promise<Map<string, RatingSummary>> {
+    const ids = [...new Set(userIds)];
+    const summaries = new Map<string, RatingSummary>(
+      ids.map((id) => [id, { averageRating: null, ratingsCount: 0 }]),
+    );
+
+    if (ids.length === 0) {
+      return summaries;
+    }
+
+    const groups = await this.prisma.exchangeRating.groupBy({
+      by: ['rateeId'],
+      where: { rateeId: { in: ids }, visibleAt: { lte: new Date() } },
+      _avg: { score: true },
+      _count: { _all: true },
+    });
+
+    for (const group of groups) {
+      summaries.set(group.rateeId, {
+        averageRating: this.roundAverage(group._avg.score),
+        ratingsCount: group._count._all,
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Réputation détaillée d'un membre: moyenne, nombre d'avis et tags reçus.
+   */
+  async getUserSummary(userId: string): Promise<UserRatingSummary> {
+    const ratings = await this.prisma.exchangeRating.findMany({
+      where: { rateeId: userId, visibleAt: { lte: new Date() } },
+      select: { score: true, tags: true },
+    });
+
+    const tagCounts = new Map<RatingTag, number>();
+    for (const rating of ratings) {
+      for (const tag of rating.tags) {
+        tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+      }
+    }
+
+    const total = ratings.reduce((sum, rating) => sum + rating.score, 0);
+
+    return {
+      averageRating: ratings.length
+        ? this.roundAverage(total / ratings.length)
+        : null,
+      ratingsCount: ratings.length,
+      tags: [...tagCounts.entries()]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Charge un échange et vérifie que l'utilisateur y participe.
+   */
+  private async findExchange(exchangeId: string, userId: string) {
+    const exchange = await this.prisma.exchange.findUnique({
+      where: { id: exchangeId },
+      select: {
+        id: true,
+        status: true,
+        completedAt: true,
+        requesterId: true,
+        responderId: true,
+      },
+    });
+
+    if (!exchange) {
+      throw new NotFoundException('Échange non trouvé');
+    }
+
+    if (exchange.requesterId !== userId && exchange.responderId !== userId) {
+      throw new ForbiddenException(
+        "Vous n'êtes pas autorisé à consulter les avis de cet échange",
+      );
+    }
+
+    return exchange;
+  }
+
+  /**
+   * Fin du délai de dépôt des avis (null si l'échange n'est pas réalisé).
+   */
+  private getDeadline(exchange: {
+    status: ExchangeStatus;
+    completedAt: Date | null;
+  }): Date | null {
+    if (exchange.status !== ExchangeStatus.COMPLETED || !exchange.completedAt) {
+      return null;
+    }
+
+    return new Date(
+      exchange.completedAt.getTime() + RATING_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+  }
+
+  /**
+   * Moyenne arrondie à une décimale.
+   */
+  private roundAverage(average: number | null): number | null {
+    return average === null ? null : Math.round(average * 10) / 10;
+  }
+
+  /**
+   * Retire les champs internes (visibleAt) d'un avis.
+   */
+  private toResponse(rating: SelectedRating): RatingResponse {
+    return {
+      id: rating.id,
+      score: rating.score,
+      comment: rating.comment,
+      tags: rating.tags,
+      createdAt: rating.createdAt,
+      rater: rating.rater,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { z } from 'zod';
+
+// Types de cibles signalables par un utilisateur (OTHER est réservé à l'historique)
+export const REPORT_TARGET_TYPES = [
+  'ITEM',
+  'USER',
+  'EXCHANGE',
+  'POST',
+] as const;
+export type ReportTargetType = (typeof REPORT_TARGET_TYPES)[number];
+
+// Taxonomie des motifs de signalement (miroir de l'enum Prisma ReportReason)
+export const REPORT_REASONS = [
+  'SPAM',
+  'SCAM',
+  'INAPPROPRIATE',
+  'HARASSMENT',
+  'PROHIBITED_ITEM',
+  'MISLEADING',
+  'OTHER',
+] as const;
+export type ReportReasonValue = (typeof REPORT_REASONS)[number];
+
+// Schéma Zod pour la validation
+export const CreateReportSchema = z.object({
+  targetType: z.enum(REPORT_TARGET_TYPES),
+  targetId: z.string().min(1, "L'identifiant de la cible est requis"),
+  reason: z.enum(REPORT_REASONS),
+  message: z
+    .string()
+    .max(1000, 'Le message ne peut pas dépasser 1000 caractères')
+    .optional(),
+});
+
+export type CreateReportInput = z.infer<typeof CreateReportSchema>;
+
+// DTO pour class-validator
+export class CreateReportDto {
+  @IsEnum(REPORT_TARGET_TYPES, {
+    message: 'Le type de cible doit être ITEM, USER, EXCHANGE ou POST',
+  })
+  targetType: ReportTargetType;
+
+  @IsString()
+  @IsNotEmpty({ message: "L'identifiant de la cible est requis" })
+  targetId: string;
+
+  @IsEnum(REPORT_REASONS, { message: 'Motif de signalement invalide' })
+  reason: ReportReasonValue;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000, {
+    message: 'Le message ne peut pas dépasser 1000 caractères',
+  })
+  message?: string;
+}
+
+// Type de réponse
+export interface ReportResponse {
+  id: string;
+  type: ReportTargetType;
+  reason: ReportReasonValue;
+  createdAt: string;
+}
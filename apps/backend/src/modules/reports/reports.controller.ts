@@ -0,0 +1,109 @@
+/**
+ * FICHIER: reports.controller.ts
+ *
+ * DESCRIPTION:
+ * Ce contrôleur expose la route de signalement d'un contenu par un utilisateur.
+ * Les signalements créés apparaissent dans la file de modération de l'admin.
+ *
+ * ROUTES:
+ * - POST /api/v1/reports - Signaler un objet, un utilisateur, un échange ou un post (authentifié)
+ *
+ * SÉCURITÉ:
+ * - Route protégée par JwtAccessGuard
+ * - ThrottlerGuard: 5 signalements par minute (throttler 'reports')
+ */
+
+// Import des décorateurs NestJS
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+
+// Import des décorateurs Swagger
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+// Import du rate limiting
+import { ThrottlerGuard, Throttle } from '@nestjs/throttler';
+
+// Import du service
+import { ReportsService } from './reports.service';
+
+// Import des DTOs
+import { CreateReportDto, ReportResponse } from './dtos/create-report.dto';
+
+// Import des guards et intercepteurs
+import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
+import { LoggingInterceptor } from '../../common/interceptors/logging.interceptor';
+
+/**
+ * CONTRÔLEUR: ReportsController
+ *
+ * Le préfixe 'reports' signifie que les routes commencent par /api/v1/reports
+ */
+@ApiTags('Reports')
+@Controller('reports')
+@UseGuards(JwtAccessGuard, ThrottlerGuard) // JWT + rate limiting
+@UseInterceptors(LoggingInterceptor) // Logger toutes les requêtes
+@ApiBearerAuth()
+export class ReportsController {
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection du service de signalements
+   */
+  constructor(private readonly reportsService: ReportsService) {}
+
+  @Post()
+  @Throttle({ reports: { limit: 5, ttl: 60000 } }) // 5 signalements par minute
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Signaler un contenu',
+    description:
+      'Signale un objet, un utilisateur, un échange ou un post avec un motif (SPAM, SCAM, INAPPROPRIATE, HARASSMENT, PROHIBITED_ITEM, MISLEADING, OTHER)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Signalement enregistré',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Données invalides ou signalement de son propre contenu',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Non authentifié',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Échange signalé par un non-participant',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Cible non trouvée',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Contenu déjà signalé par cet utilisateur (en attente)',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Trop de signalements',
+  })
+  async createReport(
+    @Request() req: any,
+    @Body() createReportDto: CreateReportDto,
+  ): Promise<ReportResponse> {
+    return this.reportsService.createReport(req.user.id, createReportDto);
+  }
+}
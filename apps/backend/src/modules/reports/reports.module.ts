@@ -0,0 +1,44 @@
+/**
+ * FICHIER: reports.module.ts
+ *
+ * DESCRIPTION:
+ * Ce module NestJS regroupe le signalement de contenus par les utilisateurs
+ * (objets, utilisateurs, échanges, posts de la communauté).
+ *
+ * COMPOSANTS:
+ * - ReportsController: Route HTTP de création d'un signalement
+ * - ReportsService: Vérification de la cible, déduplication et limitation
+ *
+ * DÉPENDANCES:
+ * - PrismaModule: Accès à la base de données
+ *
+ * NOTE:
+ * La modération (liste, résolution, bannissement) reste dans AdminModule.
+ */
+
+// Import du décorateur Module
+import { Module } from '@nestjs/common';
+
+// Import des composants du module
+import { ReportsController } from './reports.controller';
+import { ReportsService } from './reports.service';
+
+// Import des modules dépendants
+import { PrismaModule } from '../../common/prisma/prisma.module';
+
+/**
+ * MODULE: ReportsModule
+ *
+ * Module pour les signalements utilisateurs.
+ */
+@Module({
+  // Modules importés nécessaires
+  imports: [PrismaModule], // Accès à la base de données
+
+  // Contrôleur qui expose les routes HTTP
+  controllers: [ReportsController],
+
+  // Services fournis par ce module
+  providers: [ReportsService],
+})
+export class ReportsModule {}
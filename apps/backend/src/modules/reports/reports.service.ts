@@ -0,0 +1,284 @@
+/**
+ * FICHIER: reports.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service gère la création des signalements par les utilisateurs.
+ * Les signalements alimentent la file de modération de l'admin
+ * (AdminService.getReports / resolveReport).
+ *
+ * CIBLES:
+ * - ITEM: un objet publié (le propriétaire devient `targetUserId`)
+ * - USER: un utilisateur
+ * - EXCHANGE: un échange dont le signaleur est participant (l'autre participant
+ *   devient `targetUserId`)
+ * - POST: un message de la communauté (l'auteur devient `targetUserId`)
+ *
+ * RÈGLES:
+ * - On ne peut pas se signaler soi-même (ni ses objets, ni ses posts)
+ * - Le motif OTHER exige un message
+ * - Déduplication: un seul signalement non résolu par utilisateur et par cible
+ *   (index unique partiel en base pour les envois simultanés)
+ * - Limitation: MAX_REPORTS_PER_DAY signalements par utilisateur sur 24h
+ *   (en plus du throttler 'reports' par IP sur le contrôleur)
+ */
+
+// Import des exceptions NestJS
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+// Import du service Prisma
+import { PrismaService } from '../../common/prisma/prisma.service';
+
+// Import des DTOs
+import {
+  CreateReportInput,
+  ReportResponse,
+  ReportTargetType,
+} from './dtos/create-report.dto';
+
+/**
+ * Nombre maximum de signalements par utilisateur sur une fenêtre glissante de 24h.
+ */
+export const MAX_REPORTS_PER_DAY = 20;
+
+/**
+ * Réponse à un signalement déjà en cours d'examen.
+ */
+const ALREADY_REPORTED_MESSAGE =
+  "Vous avez déjà signalé ce contenu, il est en cours d'examen";
+
+/**
+ * Champ de la table `reports` qui référence chaque type de cible.
+ */
+const TARGET_FIELDS: Record<
+  ReportTargetType,
+  'targetItemId' | 'targetUserId' | 'targetExchangeId' | 'targetPostId'
+> = {
+  ITEM: 'targetItemId',
+  USER: 'targetUserId',
+  EXCHANGE: 'targetExchangeId',
+  POST: 'targetPostId',
+};
+
+/**
+ * Références de la cible enregistrées sur le signalement.
+ */
+type ReportTargetRefs = Pick<
+  Prisma.ReportUncheckedCreateInput,
+  'targetUserId' | 'targetItemId' | 'targetExchangeId' | 'targetPostId'
+>;
+
+/**
+ * SERVICE: ReportsService
+ *
+ * Service pour la création des signalements.
+ */
+@Injectable()
+export class ReportsService {
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection du service Prisma
+   */
+  constructor(private prisma: PrismaService) {}
+
+  // ============================================
+  // MÉTHODE: createReport (Signaler un contenu)
+  // ============================================
+
+  /**
+   * Crée un signalement lié au signaleur.
+   *
+   * @param reporterId - ID de l'utilisateur qui signale
+   * @param input - Cible, motif et message
+   * @returns Le signalement créé
+   * @throws BadRequestException si la cible est soi-même ou si OTHER n'a pas de message
+   * @throws NotFoundException si la cible n'existe pas
+   * @throws ForbiddenException si le signaleur ne participe pas à l'échange signalé
+   * @throws ConflictException si un signalement identique est déjà en attente
+   * @throws HttpException (429) si la limite quotidienne est atteinte
+   */
+  async createReport(
+    reporterId: string,
+    input: CreateReportInput,
+  ): Promise<ReportResponse> {
+    const message = input.message?.trim() || null;
+
+    if (input.reason === 'OTHER' && !message) {
+      throw new BadRequestException(
+        'Merci de préciser le motif du signalement',
+      );
+    }
+
+    // ============================================
+    // RÉSOLUTION DE LA CIBLE
+    // ============================================
+    const target = await this.resolveTarget(
+      reporterId,
+      input.targetType,
+      input.targetId,
+    );
+
+    // ============================================
+    // DÉDUPLICATION
+    // ============================================
+    const existing = await this.prisma.report.findFirst({
+      where: {
+        reporterId,
+        type: input.targetType,
+        [TARGET_FIELDS[input.targetType]]: input.targetId,
+        resolved: false,
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException(ALREADY_REPORTED_MESSAGE);
+    }
+
+    // ============================================
+    // LIMITATION PAR UTILISATEUR
+    // ============================================
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const recentCount = await this.prisma.report.count({
+      where: { reporterId, createdAt: { gte: since } },
+    });
+
+    if (recentCount >= MAX_REPORTS_PER_DAY) {
+      throw new HttpException(
+        'Trop de signalements envoyés, réessayez plus tard',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    // ============================================
+    // CRÉATION
+    // ============================================
+    let report: { id: string; createdAt: Date };
+    try {
+      report = await this.prisma.report.create({
+        data: {
+          type: input.targetType,
+          reason: input.reason,
+          message,
+          reporterId,
+          ...target,
+        },
+      });
+    } catch (error) {
+      // Doublon envoyé en parallèle (index unique des signalements non résolus)
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(ALREADY_REPORTED_MESSAGE);
+      }
+      throw error;
+    }
+
+    return {
+      id: report.id,
+      type: input.targetType,
+      reason: input.reason,
+      createdAt: report.createdAt.toISOString(),
+    };
+  }
+
+  // ============================================
+  // MÉTHODE PRIVÉE: resolveTarget
+  // ============================================
+
+  /**
+   * Vérifie que la cible existe et calcule les références à enregistrer.
+   * `targetUserId` est renseigné pour tous les types afin que l'admin puisse
+   * bannir le responsable depuis la file de modération.
+   */
+  private async resolveTarget(
+    reporterId: string,
+    targetType: ReportTargetType,
+    targetId: string,
+  ): Promise<ReportTargetRefs> {
+    switch (targetType) {
+      case 'ITEM': {
+        const item = await this.prisma.item.findUnique({
+          where: { id: targetId },
+          select: { id: true, ownerId: true },
+        });
+        if (!item) {
+          throw new NotFoundException('Objet non trouvé');
+        }
+        if (item.ownerId === reporterId) {
+          throw new BadRequestException(
+            'Vous ne pouvez pas signaler votre propre objet',
+          );
+        }
+        return { targetItemId: item.id, targetUserId: item.ownerId };
+      }
+
+      case 'USER': {
+        if (targetId === reporterId) {
+          throw new BadRequestException(
+            'Vous ne pouvez pas vous signaler vous-même',
+          );
+        }
+        const user = await this.prisma.user.findUnique({
+          where: { id: targetId },
+          select: { id: true },
+        });
+        if (!user) {
+          throw new NotFoundException('Utilisateur non trouvé');
+        }
+        return { targetUserId: user.id };
+      }
+
+      case 'EXCHANGE': {
+        const exchange = await this.prisma.exchange.findUnique({
+          where: { id: targetId },
+          select: { id: true, requesterId: true, responderId: true },
+        });
+        if (!exchange) {
+          throw new NotFoundException('Échange non trouvé');
+        }
+        if (
+          exchange.requesterId !== reporterId &&
+          exchange.responderId !== reporterId
+        ) {
+          throw new ForbiddenException(
+            'Vous ne pouvez signaler que vos propres échanges',
+          );
+        }
+        return {
+          targetExchangeId: exchange.id,
+          targetUserId:
+            exchange.requesterId === reporterId
+              ? exchange.responderId
+              : exchange.requesterId,
+        };
+      }
+
+      case 'POST': {
+        const post = await this.prisma.post.findUnique({
+          where: { id: targetId },
+          select: { id: true, authorId: true },
+        });
+        if (!post) {
+          throw new NotFoundException('Post non trouvé');
+        }
+        if (post.authorId === reporterId) {
+          throw new BadRequestException(
+            'Vous ne pouvez pas signaler votre propre message',
+          );
+        }
+        return { targetPostId: post.id, targetUserId: post.authorId };
+      }
+    }
+  }
+}
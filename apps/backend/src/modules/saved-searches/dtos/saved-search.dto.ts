@@ -0,0 +1,107 @@
+/**
+ * FICHIER: saved-search.dto.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier définit le DTO de création d'une recherche sauvegardée et le type
+ * de réponse. Les critères reprennent ceux de ListItemsQueryDto (q, category,
+ * condition, near, radiusKm), tels qu'ils sont appliqués sur /explore.
+ *
+ * NOTE:
+ * Au moins un critère est requis (vérifié par SavedSearchesService).
+ */
+
+// Import des décorateurs de validation
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+// Import des décorateurs Swagger
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+// Import des types Prisma
+import { ItemCategory, ItemCondition } from '@prisma/client';
+import { z } from 'zod';
+
+// Schéma Zod pour la validation
+export const CreateSavedSearchSchema = z.object({
+  name: z.string().max(100).optional(),
+  q: z.string().max(200).optional(),
+  category: z.nativeEnum(ItemCategory).optional(),
+  condition: z.nativeEnum(ItemCondition).optional(),
+  near: z.string().max(100).optional(),
+  radiusKm: z.number().int().min(1).max(500).optional(),
+});
+
+export type CreateSavedSearchInput = z.infer<typeof CreateSavedSearchSchema>;
+
+// DTO pour class-validator
+export class CreateSavedSearchDto {
+  @ApiPropertyOptional({
+    description: 'Nom affiché (défaut: construit à partir des critères)',
+    example: 'Vélos à Lyon',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100, { message: 'Le nom ne peut pas dépasser 100 caractères' })
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Recherche plein texte (titre, tags, description)',
+    example: 'vélo',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200, {
+    message: 'La recherche ne peut pas dépasser 200 caractères',
+  })
+  q?: string;
+
+  @ApiPropertyOptional({ enum: ItemCategory })
+  @IsOptional()
+  @IsEnum(ItemCategory, { message: 'Catégorie invalide' })
+  category?: ItemCategory;
+
+  @ApiPropertyOptional({ enum: ItemCondition })
+  @IsOptional()
+  @IsEnum(ItemCondition, { message: 'État invalide' })
+  condition?: ItemCondition;
+
+  @ApiPropertyOptional({
+    description: 'Ville connue ou coordonnées "latitude,longitude"',
+    example: 'Lyon',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  near?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rayon autour de near (km, défaut: 50)',
+    minimum: 1,
+    maximum: 500,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  radiusKm?: number;
+}
+
+// Type de réponse
+export interface SavedSearchResponse {
+  id: string;
+  name: string;
+  q: string | null;
+  category: ItemCategory | null;
+  condition: ItemCondition | null;
+  near: string | null;
+  radiusKm: number | null;
+  lastMatchedAt: string | null; // Dernier objet signalé
+  createdAt: string;
+}
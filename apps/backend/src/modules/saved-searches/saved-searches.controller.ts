@@ -0,0 +1,142 @@
+/**
+ * FICHIER: saved-searches.controller.ts
+ *
+ * DESCRIPTION:
+ * Ce contrôleur expose les routes des recherches sauvegardées. Une recherche
+ * sauvegardée déclenche une notification (SAVED_SEARCH) quand un nouvel objet
+ * correspondant est publié.
+ *
+ * ROUTES:
+ * - GET /api/v1/saved-searches - Lister mes recherches sauvegardées (authentifié)
+ * - POST /api/v1/saved-searches - Sauvegarder une recherche (authentifié)
+ * - DELETE /api/v1/saved-searches/:id - Supprimer une recherche sauvegardée (authentifié)
+ *
+ * SÉCURITÉ:
+ * - Routes protégées par JwtAccessGuard
+ */
+
+// Import des décorateurs NestJS
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  Request,
+} from '@nestjs/common';
+
+// Import des décorateurs Swagger
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+// Import du service
+import { SavedSearchesService } from './saved-searches.service';
+
+// Import des DTOs
+import {
+  CreateSavedSearchDto,
+  SavedSearchResponse,
+} from './dtos/saved-search.dto';
+
+// Import des guards et intercepteurs
+import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
+import { LoggingInterceptor } from '../../common/interceptors/logging.interceptor';
+
+/**
+ * CONTRÔLEUR: SavedSearchesController
+ *
+ * Le préfixe 'saved-searches' signifie que les routes commencent par /api/v1/saved-searches
+ */
+@ApiTags('Saved searches')
+@Controller('saved-searches')
+@UseGuards(JwtAccessGuard)
+@UseInterceptors(LoggingInterceptor) // Logger toutes les requêtes
+@ApiBearerAuth()
+export class SavedSearchesController {
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection du service des recherches sauvegardées
+   */
+  constructor(private readonly savedSearchesService: SavedSearchesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Lister mes recherches sauvegardées',
+    description: 'Recherches sauvegardées, plus récentes en premier',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Liste des recherches sauvegardées',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Non authentifié',
+  })
+  async listSavedSearches(@Request() req: any): Promise<SavedSearchResponse[]> {
+    return this.savedSearchesService.listSavedSearches(req.user.id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Sauvegarder une recherche',
+    description:
+      'Sauvegarde des critères de /explore (q, category, condition, near, radiusKm). Une notification est envoyée pour chaque nouvel objet correspondant',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Recherche sauvegardée',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Aucun critère, localisation inconnue ou limite atteinte',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Non authentifié',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Recherche déjà sauvegardée',
+  })
+  async createSavedSearch(
+    @Request() req: any,
+    @Body() createSavedSearchDto: CreateSavedSearchDto,
+  ): Promise<SavedSearchResponse> {
+    return this.savedSearchesService.createSavedSearch(
+      req.user.id,
+      createSavedSearchDto,
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Supprimer une recherche sauvegardée',
+    description: 'Les alertes de cette recherche sont arrêtées',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Recherche supprimée',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Recherche non trouvée',
+  })
+  async deleteSavedSearch(
+    @Request() req: any,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.savedSearchesService.deleteSavedSearch(req.user.id, id);
+  }
+}
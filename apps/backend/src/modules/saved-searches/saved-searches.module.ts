@@ -0,0 +1,50 @@
+/**
+ * FICHIER: saved-searches.module.ts
+ *
+ * DESCRIPTION:
+ * Ce module NestJS regroupe les recherches sauvegardées et leurs alertes
+ * (notification quand un nouvel objet correspond).
+ *
+ * COMPOSANTS:
+ * - SavedSearchesController: Routes HTTP (lister, sauvegarder, supprimer)
+ * - SavedSearchesService: Gestion des recherches et comparaison avec les nouveaux objets
+ *
+ * DÉPENDANCES:
+ * - PrismaModule: Accès à la base de données
+ * - NotificationsModule: Envoi des alertes
+ *
+ * NOTE:
+ * SavedSearchesService est exporté pour ItemsModule et ExchangesModule, qui
+ * déclenchent les alertes.
+ */
+
+// Import du décorateur Module
+import { Module } from '@nestjs/common';
+
+// Import des composants du module
+import { SavedSearchesController } from './saved-searches.controller';
+import { SavedSearchesService } from './saved-searches.service';
+
+// Import des modules dépendants
+import { PrismaModule } from '../../common/prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+/**
+ * MODULE: SavedSearchesModule
+ *
+ * Module pour les recherches sauvegardées.
+ */
+@Module({
+  // Modules importés nécessaires
+  imports: [PrismaModule, NotificationsModule], // Base de données + alertes
+
+  // Contrôleur qui expose les routes HTTP
+  controllers: [SavedSearchesController],
+
+  // Services fournis par ce module
+  providers: [SavedSearchesService],
+
+  // Services exportés pour être utilisés dans d'autres modules
+  exports: [SavedSearchesService],
+})
+export class SavedSearchesModule {}
@@ -0,0 +1,381 @@
+/**
+ * FICHIER: saved-searches.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service gère les recherches sauvegardées des utilisateurs et les alertes
+ * envoyées quand un nouvel objet leur correspond.
+ *
+ * RECHERCHES SAUVEGARDÉES:
+ * - Critères de /explore: q, category, condition, near + radiusKm
+ * - `near` est résolu en coordonnées à l'enregistrement (ville connue ou "lat,lng")
+ * - Au plus MAX_SAVED_SEARCHES_PER_USER recherches par utilisateur, sans doublon
+ *
+ * ALERTES (notifyMatches):
+ * - Appelé par ItemsService quand un objet devient AVAILABLE
+ *   (création, ou remise en disponibilité via updateItemStatus)
+ * - category / condition: filtrés en base (critère absent = tous)
+ * - q: même recherche plein texte que /explore (colonne `searchVector`),
+ *   sans la tolérance aux fautes pour limiter les fausses alertes
+ * - near: distance entre le point de la recherche et celui de l'objet
+ *   (sinon celui du profil du propriétaire)
+ * - Une seule notification par utilisateur et par objet, même si plusieurs
+ *   de ses recherches correspondent; jamais pour ses propres objets
+ * - Les erreurs sont logguées: une alerte ne doit jamais bloquer la publication
+ */
+
+// Import des classes NestJS
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Item, ItemStatus, Prisma, SavedSearch } from '@prisma/client';
+
+// Import des services
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+// Import des utilitaires de géolocalisation
+import {
+  DEFAULT_NEAR_RADIUS_KM,
+  GeoPoint,
+  GeoUtil,
+} from '../../common/utils/geo.util';
+
+// Import des DTOs
+import {
+  CreateSavedSearchInput,
+  SavedSearchResponse,
+} from './dtos/saved-search.dto';
+
+/**
+ * Nombre maximum de recherches sauvegardées par utilisateur.
+ */
+export const MAX_SAVED_SEARCHES_PER_USER = 20;
+
+/**
+ * Champs d'un objet nécessaires pour le comparer aux recherches sauvegardées.
+ */
+export type MatchableItem = Pick<
+  Item,
+  | 'id'
+  | 'title'
+  | 'ownerId'
+  | 'category'
+  | 'condition'
+  | 'status'
+  | 'latitude'
+  | 'longitude'
+>;
+
+/**
+ * SERVICE: SavedSearchesService
+ *
+ * Service pour les recherches sauvegardées et leurs alertes.
+ */
+@Injectable()
+export class SavedSearchesService {
+  /**
+   * Logger pour enregistrer les événements
+   */
+  private readonly logger = new Logger(SavedSearchesService.name);
+
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection du service Prisma et du service de notifications
+   */
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+  ) {}
+
+  // ============================================
+  // MÉTHODE: createSavedSearch (Sauvegarder une recherche)
+  // ============================================
+
+  /**
+   * Sauvegarde une recherche pour l'utilisateur.
+   *
+   * @param userId - ID de l'utilisateur
+   * @param input - Critères de la recherche et nom optionnel
+   * @returns Recherche sauvegardée
+   * @throws BadRequestException si aucun critère, near inconnu ou limite atteinte
+   * @throws ConflictException si une recherche identique existe déjà
+   */
+  async createSavedSearch(
+    userId: string,
+    input: CreateSavedSearchInput,
+  ): Promise<SavedSearchResponse> {
+    const q = input.q?.trim() || null;
+    const near = input.near?.trim() || null;
+    const category = input.category ?? null;
+    const condition = input.condition ?? null;
+
+    if (!q && !near && !category && !condition) {
+      throw new BadRequestException(
+        'Une recherche sauvegardée doit contenir au moins un critère (q, category, condition ou near)',
+      );
+    }
+
+    // Le point est résolu une fois pour toutes (ville connue ou coordonnées)
+    let point: GeoPoint | null = null;
+    if (near) {
+      point = GeoUtil.parseNear(near);
+      if (!point) {
+        throw new BadRequestException(
+          'Localisation inconnue: indiquez une grande ville ou des coordonnées "latitude,longitude"',
+        );
+      }
+    }
+    // Le rayon n'a de sens qu'avec une localisation
+    const radiusKm = near ? (input.radiusKm ?? DEFAULT_NEAR_RADIUS_KM) : null;
+
+    const criteria = { q, category, condition, near, radiusKm };
+
+    const duplicate = await this.prisma.savedSearch.findFirst({
+      where: { userId, ...criteria },
+    });
+    if (duplicate) {
+      throw new ConflictException('Cette recherche est déjà sauvegardée');
+    }
+
+    const count = await this.prisma.savedSearch.count({ where: { userId } });
+    if (count >= MAX_SAVED_SEARCHES_PER_USER) {
+      throw new BadRequestException(
+        `Vous ne pouvez pas sauvegarder plus de ${MAX_SAVED_SEARCHES_PER_USER} recherches`,
+      );
+    }
+
+    const savedSearch = await this.prisma.savedSearch.create({
+      data: {
+        userId,
+        name: input.name?.trim() || this.buildDefaultName(criteria),
+        ...criteria,
+        latitude: point?.latitude ?? null,
+        longitude: point?.longitude ?? null,
+      },
+    });
+
+    return this.mapToResponse(savedSearch);
+  }
+
+  // ============================================
+  // MÉTHODE: listSavedSearches
+  // ============================================
+
+  /**
+   * Recherches sauvegardées de l'utilisateur (plus récentes en premier).
+   */
+  async listSavedSearches(userId: string): Promise<SavedSearchResponse[]> {
+    const savedSearches = await this.prisma.savedSearch.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return savedSearches.map((savedSearch) => this.mapToResponse(savedSearch));
+  }
+
+  // ============================================
+  // MÉTHODE: deleteSavedSearch
+  // ============================================
+
+  /**
+   * Supprime une recherche sauvegardée (ses alertes s'arrêtent).
+   *
+   * @throws NotFoundException si la recherche n'existe pas ou appartient à un autre utilisateur
+   */
+  async deleteSavedSearch(userId: string, id: string): Promise<void> {
+    const savedSearch = await this.prisma.savedSearch.findFirst({
+      where: { id, userId },
+    });
+
+    if (!savedSearch) {
+      throw new NotFoundException('Recherche sauvegardée non trouvée');
+    }
+
+    await this.prisma.savedSearch.delete({ where: { id } });
+  }
+
+  // ============================================
+  // MÉTHODE: notifyMatches (Alertes)
+  // ============================================
+
+  /**
+   * Notifie les utilisateurs dont une recherche sauvegardée correspond à l'objet.
+   *
+   * @param item - Objet qui vient de devenir disponible
+   * @returns Nombre d'utilisateurs notifiés
+   */
+  async notifyMatches(item: MatchableItem): Promise<number> {
+    if (item.status !== ItemStatus.AVAILABLE) return 0;
+
+    try {
+      const matches = await this.findMatchingSearches(item);
+
+      // Une notification par utilisateur (sa recherche la plus récente)
+      const byUser = new Map<string, SavedSearch>();
+      for (const savedSearch of matches) {
+        if (!byUser.has(savedSearch.userId)) {
+          byUser.set(savedSearch.userId, savedSearch);
+        }
+      }
+      if (byUser.size === 0) return 0;
+
+      await this.prisma.savedSearch.updateMany({
+        where: { id: { in: matches.map((s) => s.id) } },
+        data: { lastMatchedAt: new Date() },
+      });
+
+      let notified = 0;
+      for (const [userId, savedSearch] of byUser) {
+        try {
+          await this.notifications.sendSavedSearchNotification(
+            item.id,
+            item.title,
+            savedSearch.name,
+            userId,
+          );
+          notified++;
+        } catch (error) {
+          this.logger.error(
+            `Alerte de recherche sauvegardée non envoyée à l'utilisateur ${userId}: ${error.message}`,
+          );
+        }
+      }
+
+      return notified;
+    } catch (error) {
+      this.logger.error(
+        `Impossible de comparer l'objet ${item.id} aux recherches sauvegardées: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Recherches sauvegardées (des autres utilisateurs) correspondant à l'objet,
+   * plus récentes en premier.
+   */
+  private async findMatchingSearches(
+    item: MatchableItem,
+  ): Promise<SavedSearch[]> {
+    // category / condition: critère absent = toutes les valeurs
+    const candidates = await this.prisma.savedSearch.findMany({
+      where: {
+        userId: { not: item.ownerId },
+        AND: [
+          { OR: [{ category: null }, { category: item.category }] },
+          { OR: [{ condition: null }, { condition: item.condition }] },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (candidates.length === 0) return [];
+
+    const textMatches = await this.matchText(
+      item.id,
+      candidates.filter((s) => s.q).map((s) => s.id),
+    );
+    const itemPoint = candidates.some((s) => s.near)
+      ? await this.resolveItemPoint(item)
+      : null;
+
+    return candidates.filter((savedSearch) => {
+      if (savedSearch.q && !textMatches.has(savedSearch.id)) return false;
+
+      if (savedSearch.near) {
+        const searchPoint = GeoUtil.toPoint(savedSearch);
+        if (!searchPoint || !itemPoint) return false;
+
+        const radiusKm = savedSearch.radiusKm ?? DEFAULT_NEAR_RADIUS_KM;
+        if (GeoUtil.distanceKm(searchPoint, itemPoint) > radiusKm) return false;
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * IDs des recherches dont le texte `q` correspond à l'objet
+   * (même requête plein texte que la recherche de /explore).
+   */
+  private async matchText(
+    itemId: string,
+    savedSearchIds: string[],
+  ): Promise<Set<string>> {
+    if (savedSearchIds.length === 0) return new Set();
+
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      SELECT s."id"
+      FROM "saved_searches" s
+      JOIN "items" i ON i."id" = ${itemId}
+      WHERE s."id" IN (${Prisma.join(savedSearchIds)})
+        AND i."searchVector" @@ (
+          websearch_to_tsquery('french', immutable_unaccent(s."q"))
+            || websearch_to_tsquery('english', immutable_unaccent(s."q")))`;
+
+    return new Set(rows.map((row) => row.id));
+  }
+
+  /**
+   * Position de l'objet: la sienne, sinon celle du profil du propriétaire.
+   */
+  private async resolveItemPoint(
+    item: MatchableItem,
+  ): Promise<GeoPoint | null> {
+    const point = GeoUtil.toPoint(item);
+    if (point) return point;
+
+    const profile = await this.prisma.userProfile.findUnique({
+      where: { userId: item.ownerId },
+      select: { latitude: true, longitude: true },
+    });
+    return GeoUtil.toPoint(profile);
+  }
+
+  /**
+   * Nom par défaut: « vélo » · BOOKS · Lyon (25 km)
+   */
+  private buildDefaultName(criteria: {
+    q: string | null;
+    category: string | null;
+    condition: string | null;
+    near: string | null;
+    radiusKm: number | null;
+  }): string {
+    return [
+      criteria.q && `« ${criteria.q} »`,
+      criteria.category,
+      criteria.condition,
+      criteria.near && `${criteria.near} (${criteria.radiusKm} km)`,
+    ]
+      .filter(Boolean)
+      .join(' · ')
+      .slice(0, 100);
+  }
+
+  /**
+   * Convertit une recherche Prisma en réponse API (sans les coordonnées résolues)
+   */
+  private mapToResponse(savedSearch: SavedSearch): SavedSearchResponse {
+    return {
+      id: savedSearch.id,
+      name: savedSearch.name,
+      q: savedSearch.q,
+      category: savedSearch.category,
+      condition: savedSearch.condition,
+      near: savedSearch.near,
+      radiusKm: savedSearch.radiusKm,
+      lastMatchedAt: savedSearch.lastMatchedAt?.toISOString() ?? null,
+      createdAt: savedSearch.createdAt.toISOString(),
+    };
+  }
+}
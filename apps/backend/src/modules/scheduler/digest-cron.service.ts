@@ -0,0 +1,251 @@
+/**
+ * FICHIER: digest-cron.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service envoie par email un résumé des notifications non lues
+ * (boîte de réception), selon la fréquence choisie par chaque utilisateur.
+ *
+ * TÂCHE PLANIFIÉE:
+ * - sendDigests: tous les jours à 08:00 (Europe/Paris)
+ *   - utilisateurs DAILY: chaque jour
+ *   - utilisateurs WEEKLY (défaut, y compris sans préférences enregistrées): le lundi
+ *   - utilisateurs NEVER: jamais
+ *
+ * CONTENU:
+ * - Notifications non lues et non archivées reçues depuis le dernier résumé
+ *   (au plus sur la période: 1 jour ou 7 jours)
+ * - Aucun email si rien de nouveau
+ * - Les 10 plus récentes sont détaillées, avec le nombre total
+ * - Lien de désinscription signé (scope DIGEST → fréquence NEVER)
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+
+// Import du module de scheduling
+import { Cron } from '@nestjs/schedule';
+
+// Import des services
+import { PrismaService } from '../../common/prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { DigestFrequency, Prisma } from '@prisma/client';
+import { DIGEST_UNSUBSCRIBE_SCOPE } from '../notifications/dtos/notification-preferences.dto';
+
+/**
+ * Durée couverte par chaque fréquence (en jours).
+ */
+const DIGEST_PERIOD_DAYS: Record<'DAILY' | 'WEEKLY', number> = {
+  DAILY: 1,
+  WEEKLY: 7,
+};
+
+/**
+ * Nombre de notifications détaillées dans un résumé.
+ */
+const DIGEST_MAX_ITEMS = 10;
+
+/**
+ * Fuseau horaire de la tâche (détermine le lundi des résumés hebdomadaires).
+ */
+const DIGEST_TIMEZONE = 'Europe/Paris';
+
+/**
+ * SERVICE: DigestCronService
+ *
+ * Résumés quotidiens / hebdomadaires des notifications non lues.
+ */
+@Injectable()
+export class DigestCronService {
+  /**
+   * Logger pour enregistrer les événements
+   */
+  private readonly logger = new Logger(DigestCronService.name);
+
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection des dépendances.
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mail: MailService,
+  ) {}
+
+  // ============================================
+  // TÂCHE CRON: sendDigests
+  // ============================================
+
+  /**
+   * Envoie les résumés du jour.
+   *
+   * EXPRESSION CRON: '0 8 * * *'
+   * - 0: minute 0
+   * - 8: heure 8 (08:00)
+   * - *: tous les jours du mois
+   * - *: tous les mois
+   * - *: tous les jours de la semaine
+   *
+   * Résultat: Tous les jours à 08:00 (résumés hebdomadaires le lundi)
+   *
+   * PROCESSUS:
+   * 1. Détermine les fréquences concernées (DAILY, + WEEKLY le lundi)
+   * 2. Récupère les utilisateurs concernés ayant des notifications non lues
+   * 3. Pour chacun: notifications non lues depuis le dernier résumé
+   * 4. Envoie l'email et enregistre la date du résumé
+   *
+   * @param now - Date d'exécution (injectable pour les tests)
+   * @returns Nombre de résumés envoyés
+   */
+  @Cron('0 8 * * *', {
+    name: 'notification-digest',
+    timeZone: DIGEST_TIMEZONE,
+  })
+  async sendDigests(now: Date = new Date()): Promise<number> {
+    const frequencies: DigestFrequency[] = [DigestFrequency.DAILY];
+    if (this.isMonday(now)) {
+      frequencies.push(DigestFrequency.WEEKLY);
+    }
+
+    this.logger.log(`Envoi des résumés email (${frequencies.join(', ')})`);
+
+    try {
+      // Sans préférences enregistrées, la fréquence est WEEKLY
+      const preferenceFilter: Prisma.UserWhereInput[] = [
+        { notificationPreference: { digestFrequency: { in: frequencies } } },
+      ];
+      if (frequencies.includes(DigestFrequency.WEEKLY)) {
+        preferenceFilter.push({ notificationPreference: { is: null } });
+      }
+
+      const users = await this.prisma.user.findMany({
+        where: {
+          OR: preferenceFilter,
+          notifications: { some: { readAt: null, archivedAt: null } },
+        },
+        select: {
+          id: true,
+          email: true,
+          displayName: true,
+          preferences: { select: { locale: true } },
+          notificationPreference: {
+            select: { digestFrequency: true, lastDigestAt: true },
+          },
+        },
+      });
+
+      let sentCount = 0;
+      for (const user of users) {
+        const frequency =
+          user.notificationPreference?.digestFrequency ??
+          DigestFrequency.WEEKLY;
+
+        try {
+          const sent = await this.sendDigest(
+            user,
+            frequency as 'DAILY' | 'WEEKLY',
+            user.notificationPreference?.lastDigestAt ?? null,
+            now,
+          );
+          if (sent) sentCount++;
+        } catch (error) {
+          this.logger.error(
+            `Erreur lors de l'envoi du résumé à l'utilisateur ${user.id}: ${error.message}`,
+          );
+        }
+      }
+
+      this.logger.log(`${sentCount} résumé(s) envoyé(s)`);
+      return sentCount;
+    } catch (error) {
+      this.logger.error(
+        `Erreur lors de l'envoi des résumés: ${error.message}`,
+        error.stack,
+      );
+      return 0;
+    }
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Envoie le résumé d'un utilisateur s'il a des notifications non lues récentes.
+   *
+   * @returns true si un email a été envoyé
+   */
+  private async sendDigest(
+    user: {
+      id: string;
+      email: string;
+      displayName: string;
+      preferences: { locale: string | null } | null;
+    },
+    frequency: 'DAILY' | 'WEEKLY',
+    lastDigestAt: Date | null,
+    now: Date,
+  ): Promise<boolean> {
+    const periodStart = new Date(
+      now.getTime() - DIGEST_PERIOD_DAYS[frequency] * 24 * 60 * 60 * 1000,
+    );
+    const since =
+      lastDigestAt && lastDigestAt > periodStart ? lastDigestAt : periodStart;
+
+    const where: Prisma.NotificationWhereInput = {
+      userId: user.id,
+      readAt: null,
+      archivedAt: null,
+      createdAt: { gt: since },
+    };
+
+    const [unreadCount, notifications] = await Promise.all([
+      this.prisma.notification.count({ where }),
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: DIGEST_MAX_ITEMS,
+      }),
+    ]);
+
+    if (unreadCount === 0) return false;
+
+    await this.mail.sendTemplate({
+      userId: user.id,
+      to: user.email,
+      recipientName: user.displayName,
+      locale: user.preferences?.locale,
+      template: 'digest',
+      params: {
+        frequency,
+        unreadCount,
+        items: notifications.map((notification) => ({
+          title: notification.title,
+          body: notification.body,
+          link: notification.link,
+        })),
+      },
+      unsubscribeScope: DIGEST_UNSUBSCRIBE_SCOPE,
+    });
+
+    // Point de départ du prochain résumé
+    await this.prisma.notificationPreference.upsert({
+      where: { userId: user.id },
+      update: { lastDigestAt: now },
+      create: { userId: user.id, lastDigestAt: now },
+    });
+
+    return true;
+  }
+
+  /**
+   * Indique si `now` est un lundi dans le fuseau de la tâche.
+   */
+  private isMonday(now: Date): boolean {
+    const weekday = new Intl.DateTimeFormat('en-US', {
+      timeZone: DIGEST_TIMEZONE,
+      weekday: 'short',
+    }).format(now);
+
+    return weekday === 'Mon';
+  }
+}
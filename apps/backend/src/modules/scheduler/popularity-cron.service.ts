@@ -0,0 +1,74 @@
+/**
+ * FICHIER: popularity-cron.service.ts
+ *
+ * DESCRIPTION:
+ * Ce service recalcule régulièrement le score de popularité des objets
+ * (`Item.popularityScore`) à partir des engagements récents (vues, favoris,
+ * propositions d'échange, débuts de discussion), avec décroissance dans le temps.
+ *
+ * TÂCHE PLANIFIÉE:
+ * - recomputePopularity: toutes les heures
+ *   1. Supprime les engagements sortis de la fenêtre de calcul
+ *   2. Recalcule le score de tous les objets (voir EngagementService)
+ */
+
+// Import des classes NestJS
+import { Injectable, Logger } from '@nestjs/common';
+
+// Import du module de scheduling
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+// Import des services
+import { EngagementService } from '../engagement/engagement.service';
+
+/**
+ * SERVICE: PopularityCronService
+ *
+ * Recalcul planifié des scores de popularité.
+ */
+@Injectable()
+export class PopularityCronService {
+  /**
+   * Logger pour enregistrer les événements
+   */
+  private readonly logger = new Logger(PopularityCronService.name);
+
+  /**
+   * CONSTRUCTEUR
+   *
+   * Injection des dépendances.
+   */
+  constructor(private readonly engagement: EngagementService) {}
+
+  // ============================================
+  // TÂCHE CRON: recomputePopularity
+  // ============================================
+
+  /**
+   * Recalcule les scores de popularité.
+   *
+   * EXPRESSION CRON: CronExpression.EVERY_HOUR ('0 * * * *')
+   * Résultat: toutes les heures, à la minute 0
+   *
+   * @param now - Date d'exécution (injectable pour les tests)
+   * @returns Nombre d'objets dont le score a changé
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'item-popularity' })
+  async recomputePopularity(now: Date = new Date()): Promise<number> {
+    try {
+      const pruned = await this.engagement.pruneEngagements(now);
+      const updated = await this.engagement.recomputePopularity(now);
+
+      this.logger.log(
+        `Popularité recalculée: ${updated} objet(s) mis à jour, ${pruned} engagement(s) expiré(s) supprimé(s)`,
+      );
+      return updated;
+    } catch (error) {
+      this.logger.error(
+        `Erreur lors du recalcul de la popularité: ${error.message}`,
+        error.stack,
+      );
+      return 0;
+    }
+  }
+}
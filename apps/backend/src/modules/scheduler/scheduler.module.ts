@@ -7,13 +7,17 @@
  *
  * COMPOSANTS:
  * - WeeklyCronService: Service pour les tâches cron hebdomadaires
+ * - DigestCronService: Résumés par email des notifications non lues (quotidiens / hebdomadaires)
+ * - PopularityCronService: Recalcul horaire de la popularité des objets
  * - AiController: Contrôleur pour déclencher manuellement la génération
  *
  * DÉPENDANCES:
  * - ScheduleModule: Module NestJS pour les tâches planifiées
  * - ThemesModule: Pour gérer les thèmes
  * - SuggestionsModule: Pour générer les suggestions
- * - AiModule: Pour l'intégration avec Gemini
+ * - AiModule: Pour l'intégration avec le modèle de langage
+ * - MailModule: Pour l'envoi des résumés par email
+ * - EngagementModule: Pour le calcul de la popularité
  */
 
 // Import du décorateur Module
@@ -24,12 +28,16 @@ import { ScheduleModule } from '@nestjs/schedule';
 
 // Import des composants du module
 import { WeeklyCronService } from './weekly-cron.service';
+import { DigestCronService } from './digest-cron.service';
+import { PopularityCronService } from './popularity-cron.service';
 import { AiController } from './ai.controller';
 
 // Import des modules dépendants
 import { ThemesModule } from '../themes/themes.module';
 import { SuggestionsModule } from '../suggestions/suggestions.module';
 import { AiModule } from '../ai/ai.module';
+import { MailModule } from '../mail/mail.module';
+import { EngagementModule } from '../engagement/engagement.module';
 
 /**
  * MODULE: SchedulerModule
@@ -42,14 +50,16 @@ import { AiModule } from '../ai/ai.module';
     ScheduleModule.forRoot(), // Initialise le module de scheduling
     ThemesModule, // Pour gérer les thèmes
     SuggestionsModule, // Pour générer les suggestions
-    AiModule, // Pour l'intégration avec Gemini
+    AiModule, // Pour l'intégration avec le modèle de langage
+    MailModule, // Pour l'envoi des résumés par email
+    EngagementModule, // Pour le calcul de la popularité
   ],
 
   // Contrôleur qui expose les routes HTTP
   controllers: [AiController],
 
   // Services fournis par ce module
-  providers: [WeeklyCronService],
+  providers: [WeeklyCronService, DigestCronService, PopularityCronService],
 
   // Services exportés pour être utilisés dans d'autres modules
   exports: [WeeklyCronService],
@@ -10,6 +10,8 @@
  *   Génère automatiquement des suggestions pour le thème actif de la semaine
  * - cleanupOldSuggestions: Exécutée le premier dimanche de chaque mois
  *   Nettoie les anciennes suggestions (plus de 6 mois)
+ * - generateDeferredSuggestions: Exécutée tous les jours à 6h
+ *   Rattrape les suggestions différées faute de budget IA
  *
  * CONFIGURATION:
  * - Expression cron configurable via les variables d'environnement
@@ -48,6 +50,12 @@ export class WeeklyCronService {
    */
   private readonly scheduleConfig;
 
+  /**
+   * Thème dont la génération de suggestions a été différée (budget IA atteint).
+   * Gardé en mémoire: après un redémarrage, le job hebdomadaire suivant prend le relais.
+   */
+  private deferredTheme: { id: string; title: string } | null = null;
+
   /**
    * CONSTRUCTEUR
    *
@@ -81,7 +89,7 @@ export class WeeklyCronService {
    * PROCESSUS:
    * 1. Trouve ou crée le thème actif pour cette semaine
    * 2. Vérifie si des suggestions existent déjà
-   * 3. Génère les suggestions via l'IA
+   * 3. Génère les suggestions via l'IA (différée si le budget IA est atteint)
    * 4. Sauvegarde les suggestions dans la base de données
    * 5. Log les statistiques de génération
    */
@@ -122,6 +130,14 @@ export class WeeklyCronService {
         ['FR', 'MA', 'JP', 'US', 'BR'], // Locales par défaut
       );
 
+      if (stats.deferred) {
+        this.deferredTheme = { id: activeTheme.id, title: activeTheme.title };
+        this.logger.warn(
+          '⏸️  Budget IA atteint: génération différée (rattrapage quotidien)',
+        );
+        return;
+      }
+
       // Logs de résultat
       this.logger.log('📊 Résultats de la génération:');
       this.logger.log(`  ✅ Suggestions créées: ${stats.created}`);
@@ -242,6 +258,59 @@ export class WeeklyCronService {
     }
   }
 
+  // ============================================
+  // TÂCHE CRON: generateDeferredSuggestions
+  // ============================================
+
+  /**
+   * Job de rattrapage des suggestions différées.
+   *
+   * EXPRESSION CRON: '0 6 * * *'
+   * - 0: minute 0
+   * - 6: heure 6 (06:00)
+   * - *: tous les jours du mois
+   * - *: tous les mois
+   * - *: tous les jours de la semaine
+   *
+   * Résultat: Tous les jours à 06:00
+   *
+   * FONCTIONNEMENT:
+   * - Ne fait rien si aucune génération n'a été différée
+   * - Réessaie pour le thème différé, tant que le budget IA reste atteint
+   */
+  @Cron('0 6 * * *', {
+    name: 'deferred-suggestions-generation',
+    timeZone: 'Europe/Paris',
+  })
+  async generateDeferredSuggestions(): Promise<void> {
+    if (!this.deferredTheme) {
+      return;
+    }
+
+    const { id, title } = this.deferredTheme;
+    this.logger.log(`🔁 Rattrapage des suggestions différées pour "${title}"`);
+
+    try {
+      const stats = await this.suggestionsService.generateAndSaveSuggestions(
+        id,
+        title,
+        ['FR', 'MA', 'JP', 'US', 'BR'],
+      );
+
+      if (stats.deferred) {
+        this.logger.warn('⏸️  Budget IA toujours atteint, nouvel essai demain');
+        return;
+      }
+
+      this.deferredTheme = null;
+      this.logger.log(
+        `✅ Rattrapage terminé: ${stats.created} suggestions créées pour "${title}"`,
+      );
+    } catch (error) {
+      this.logger.error(`❌ Erreur lors du rattrapage: ${error.message}`);
+    }
+  }
+
   // ============================================
   // MÉTHODE: triggerManualGeneration
   // ============================================
@@ -11,7 +11,7 @@
  *
  * DÉPENDANCES:
  * - PrismaModule: Accès à la base de données
- * - AiModule: Service Gemini pour générer les suggestions
+ * - AiModule: Service IA pour générer les suggestions
  * - ConfigModule: Configuration du scheduler (limites de diversité)
  */
 
@@ -37,7 +37,7 @@ import scheduleConfig from '../../config/schedule.config';
   // Modules importés nécessaires
   imports: [
     PrismaModule, // Accès à la base de données
-    AiModule, // Service Gemini pour générer les suggestions
+    AiModule, // Service IA pour générer les suggestions
     ConfigModule.forFeature(scheduleConfig), // Configuration du scheduler
   ],
 
@@ -6,7 +6,7 @@
  * Les suggestions sont générées par l'IA basées sur les thèmes hebdomadaires.
  *
  * FONCTIONNALITÉS:
- * - Génération de suggestions via l'IA Gemini
+ * - Génération de suggestions via l'IA (AiService)
  * - Application de règles de diversité (géographique, temporelle)
  * - Déduplication des suggestions (évite les doublons)
  * - Sauvegarde des suggestions dans la base de données
@@ -17,6 +17,10 @@
  * - Maximum 2 suggestions par pays
  * - Maximum 2 suggestions par époque
  * - Déduplication basée sur le hash canonique (nom + pays + époque + catégorie)
+ *
+ * BUDGET IA:
+ * - Si la limite de dépenses IA est atteinte, la génération est différée
+ *   (stats.deferred): aucun appel n'est fait, le job planifié réessaie plus tard
  */
 
 // Import des classes NestJS
@@ -24,7 +28,7 @@ import { Injectable, Logger } from '@nestjs/common';
 
 // Import des services
 import { PrismaService } from '../../common/prisma/prisma.service';
-import { GeminiService, SuggestedItemWithMetadata } from '../ai/gemini.service';
+import { AiService, SuggestedItemWithMetadata } from '../ai/ai.service';
 import { HashUtil } from '../../common/utils/hash.util';
 import { ConfigService } from '@nestjs/config';
 
@@ -40,6 +44,7 @@ export interface SuggestionStats {
   errors: number; // Nombre d'erreurs lors de la sauvegarde
   duplicates: number; // Nombre de doublons détectés
   diversityFiltered: number; // Nombre filtrées par les règles de diversité
+  deferred?: boolean; // Génération différée (budget IA atteint)
 }
 
 /**
@@ -68,7 +73,7 @@ export class SuggestionsService {
    */
   constructor(
     private readonly prisma: PrismaService,
-    private readonly geminiService: GeminiService,
+    private readonly aiService: AiService,
     private readonly configService: ConfigService,
   ) {
     // Charger la configuration du scheduler
@@ -83,7 +88,7 @@ export class SuggestionsService {
    * Génère et sauvegarde des suggestions pour un thème.
    *
    * PROCESSUS:
-   * 1. Génère les suggestions via l'IA Gemini
+   * 1. Génère les suggestions via l'IA (différée si le budget IA est atteint)
    * 2. Applique les règles de diversité et déduplication
    * 3. Sauvegarde les suggestions filtrées dans la base de données
    * 4. Retourne les statistiques de génération
@@ -107,15 +112,27 @@ export class SuggestionsService {
     };
 
     try {
+      // Budget IA atteint: différer plutôt que produire un appel refusé
+      if (await this.aiService.isBudgetExceeded()) {
+        this.logger.warn(
+          `Budget IA atteint, génération des suggestions différée pour le thème: ${themeTitle}`,
+        );
+        stats.deferred = true;
+        return stats;
+      }
+
       this.logger.log(
         `Début génération suggestions pour le thème: ${themeTitle}`,
       );
 
       // Générer les suggestions via l'IA
-      const rawSuggestions = await this.geminiService.generateSuggestions({
-        themeTitle,
-        locale,
-      });
+      const rawSuggestions = await this.aiService.generateSuggestions(
+        {
+          themeTitle,
+          locale,
+        },
+        { type: 'WeeklyTheme', id: themeId },
+      );
 
       if (rawSuggestions.length === 0) {
         this.logger.warn("Aucune suggestion générée par l'IA");
@@ -278,7 +295,6 @@ export class SuggestionsService {
     return {
       ...suggestion,
       name: suggestion.name.trim().substring(0, 120),
-      category: suggestion.category.trim().substring(0, 50),
       country: suggestion.country.trim().substring(0, 50),
       era: suggestion.era ? suggestion.era.trim().substring(0, 50) : null,
       materials: suggestion.materials
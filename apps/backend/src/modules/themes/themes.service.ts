@@ -38,7 +38,7 @@ import { UpdateThemeDto } from './dtos/update-theme.dto';
 import { WeeklyTheme, Prisma } from '@prisma/client';
 
 // Import des services IA et Unsplash
-import { GeminiService } from '../ai/gemini.service';
+import { AiService } from '../ai/ai.service';
 import { UnsplashService } from '../unsplash/unsplash.service';
 
 /**
@@ -73,7 +73,7 @@ export class ThemesService {
    */
   constructor(
     private readonly prisma: PrismaService,
-    private readonly geminiService: GeminiService,
+    private readonly aiService: AiService,
     private readonly unsplashService: UnsplashService,
   ) {}
 
@@ -501,7 +501,7 @@ export class ThemesService {
     console.log('🎨 Début génération thème avec IA pour:', startOfWeek.toISOString());
     
     // Générer le thème avec l'IA
-    const aiTheme = await this.geminiService.generateTheme(startOfWeek);
+    const aiTheme = await this.aiService.generateTheme(startOfWeek);
     
     if (!aiTheme) {
       console.warn('⚠️  L\'IA n\'a pas pu générer le thème, utilisation du fallback');
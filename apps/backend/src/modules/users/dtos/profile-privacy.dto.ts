@@ -0,0 +1,41 @@
+/**
+ * FICHIER: profile-privacy.dto.ts
+ *
+ * DESCRIPTION:
+ * Ce fichier définit le DTO de mise à jour de la confidentialité du profil
+ * public: chaque section (bio, ville, objets, réputation) peut être masquée
+ * aux autres membres. Tous les champs sont optionnels (mise à jour partielle).
+ */
+
+// Import des décorateurs de validation
+import { IsBoolean, IsOptional } from 'class-validator';
+
+// Import des décorateurs Swagger
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+// DTO pour class-validator
+export class UpdateProfilePrivacyDto {
+  @ApiPropertyOptional({ description: 'Afficher la biographie' })
+  @IsOptional()
+  @IsBoolean()
+  showBio?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Afficher la ville (jamais les coordonnées)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  showLocation?: boolean;
+
+  @ApiPropertyOptional({ description: 'Afficher les objets disponibles' })
+  @IsOptional()
+  @IsBoolean()
+  showItems?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Afficher les échanges réalisés et le taux de réponse',
+  })
+  @IsOptional()
+  @IsBoolean()
+  showExchangeStats?: boolean;
+}
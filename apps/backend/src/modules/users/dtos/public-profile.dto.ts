@@ -0,0 +1,66 @@
+/**
+ * FICHIER: public-profile.dto.ts
+ *
+ * DESCRIPTION:
+ * Types de réponse du profil public (GET /users/:id) et des statistiques
+ * de l'utilisateur connecté (GET /users/me/stats).
+ *
+ * CONFIDENTIALITÉ:
+ * Une section masquée par son propriétaire (ProfilePrivacy) vaut null
+ * pour les autres membres. Le propriétaire voit toujours son profil complet.
+ * La localisation exposée est la ville saisie, jamais les coordonnées.
+ * Les avis reçus (ratings) sont toujours visibles.
+ */
+
+// Import du type d'item renvoyé par ItemsService
+import { ItemWithPhotos } from '../../items/items.service';
+
+// Import des types de réputation issus des avis
+import {
+  RatingSummary,
+  UserRatingSummary,
+} from '../../ratings/dtos/rating.dto';
+
+// Sections visibles du profil public
+export interface ProfilePrivacy {
+  showBio: boolean;
+  showLocation: boolean;
+  showItems: boolean;
+  showExchangeStats: boolean;
+}
+
+// Réputation d'échange d'un membre
+export interface ExchangeReputation {
+  completedExchanges: number; // Échanges réalisés (COMPLETED), proposés ou reçus
+  responseRate: number | null; // % de propositions reçues acceptées ou refusées (null si aucune)
+}
+
+// Objets disponibles d'un membre (aperçu, les plus récents)
+export interface PublicProfileItems {
+  items: ItemWithPhotos[];
+  total: number; // Nombre total d'objets disponibles
+}
+
+// Profil public d'un membre
+export interface PublicProfile {
+  id: string;
+  displayName: string;
+  avatarUrl: string | null;
+  memberSince: Date;
+  bio: string | null;
+  location: string | null;
+  reputation: ExchangeReputation | null;
+  ratings: UserRatingSummary; // Avis reçus (moyenne, nombre, tags)
+  availableItems: PublicProfileItems | null;
+  isOwnProfile: boolean;
+  privacy: ProfilePrivacy | null; // Réglages renvoyés au propriétaire uniquement
+}
+
+// Statistiques de l'utilisateur connecté (page profil)
+export interface UserStats extends ExchangeReputation, RatingSummary {
+  memberSince: Date;
+  publishedItems: number; // Tous statuts confondus
+  availableItems: number;
+  exchangesInitiated: number; // Propositions envoyées
+  exchangesReceived: number; // Propositions reçues
+}
@@ -9,12 +9,21 @@
  * - displayName: Nom d'affichage (2-50 caractères)
  * - avatarUrl: URL de l'avatar (peut être null pour supprimer)
  * - bio: Biographie de l'utilisateur (max 500 caractères)
- * - location: Localisation (max 100 caractères)
+ * - location: Localisation (max 100 caractères), géocodée si la ville est connue
+ * - latitude / longitude: Coordonnées précises (ensemble, prioritaires sur location)
  * - preferencesJson: Préférences utilisateur en format JSON (objet libre)
  */
 
 // Import des décorateurs de validation
-import { IsOptional, IsString, IsObject, MaxLength } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsObject,
+  MaxLength,
+  ValidateIf,
+  IsLatitude,
+  IsLongitude,
+} from 'class-validator';
 
 // Import de Zod
 import { z } from 'zod';
@@ -26,22 +35,33 @@ import { z } from 'zod';
  * Schéma Zod pour valider les données de mise à jour du profil.
  * Tous les champs sont optionnels pour permettre une mise à jour partielle.
  */
-export const UpdateProfileSchema = z.object({
-  // Nom d'affichage: entre 2 et 50 caractères
-  displayName: z.string().min(2).max(50).optional(),
+export const UpdateProfileSchema = z
+  .object({
+    // Nom d'affichage: entre 2 et 50 caractères
+    displayName: z.string().min(2).max(50).optional(),
 
-  // URL de l'avatar: doit être une URL valide, peut être null
-  avatarUrl: z.string().url().optional().nullable(),
+    // URL de l'avatar: doit être une URL valide, peut être null
+    avatarUrl: z.string().url().optional().nullable(),
 
-  // Biographie: maximum 500 caractères, peut être null
-  bio: z.string().max(500).optional().nullable(),
+    // Biographie: maximum 500 caractères, peut être null
+    bio: z.string().max(500).optional().nullable(),
 
-  // Localisation: maximum 100 caractères, peut être null
-  location: z.string().max(100).optional().nullable(),
+    // Localisation: maximum 100 caractères, peut être null
+    location: z.string().max(100).optional().nullable(),
 
-  // Préférences: objet JSON libre (peut contenir n'importe quelles clés/valeurs)
-  preferencesJson: z.record(z.any()).optional().nullable(),
-});
+    // Coordonnées: toujours fournies ensemble (arrondies à ~1 km à l'enregistrement)
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+
+    // Préférences: objet JSON libre (peut contenir n'importe quelles clés/valeurs)
+    preferencesJson: z.record(z.any()).optional().nullable(),
+  })
+  .refine(
+    (data) => (data.latitude === undefined) === (data.longitude === undefined),
+    {
+      message: 'Latitude et longitude doivent être fournies ensemble',
+    },
+  );
 
 /**
  * TYPE: UpdateProfileInput
@@ -113,6 +133,24 @@ export class UpdateProfileDto {
   @MaxLength(100)
   location?: string | null;
 
+  /**
+   * PROPRIÉTÉS: latitude / longitude
+   *
+   * Coordonnées de l'utilisateur (ex: géolocalisation du navigateur).
+   * Prioritaires sur la ville saisie dans location; jamais stockées exactement
+   * (arrondi à ~1 km).
+   *
+   * @ValidateIf(): Obligatoires toutes les deux dès que l'une est fournie
+   * @IsLatitude() / @IsLongitude(): Dans les bornes terrestres
+   */
+  @ValidateIf((o) => o.latitude !== undefined || o.longitude !== undefined)
+  @IsLatitude()
+  latitude?: number;
+
+  @ValidateIf((o) => o.latitude !== undefined || o.longitude !== undefined)
+  @IsLongitude()
+  longitude?: number;
+
   /**
    * PROPRIÉTÉ: preferencesJson
    *
@@ -2,18 +2,24 @@
  * FICHIER: users.controller.ts
  *
  * DESCRIPTION:
- * Ce contrôleur expose les endpoints HTTP pour la gestion du profil utilisateur.
- * Toutes les routes nécessitent une authentification JWT.
+ * Ce contrôleur expose les endpoints HTTP pour la gestion du profil utilisateur
+ * et le profil public des membres.
  *
  * ROUTES:
  * - GET /api/v1/users/me - Récupérer mes informations
  * - PATCH /api/v1/users/me - Mettre à jour mon profil
  * - DELETE /api/v1/users/me - Supprimer mon compte
+ * - GET /api/v1/users/me/stats - Mes statistiques (objets, échanges, réputation)
+ * - GET /api/v1/users/me/privacy - Sections visibles de mon profil public
+ * - PUT /api/v1/users/me/privacy - Modifier les sections visibles
+ * - GET /api/v1/users/:id - Profil public d'un membre (public)
  *
  * SÉCURITÉ:
- * - Toutes les routes sont protégées par JwtAccessGuard
+ * - Les routes /users/me sont protégées par JwtAccessGuard
  * - L'utilisateur ne peut modifier que son propre profil
  * - L'ID de l'utilisateur est extrait automatiquement du token JWT
+ * - Le profil public respecte les réglages de confidentialité du membre
+ *   (OptionalJwtAccessGuard: le propriétaire connecté voit son profil complet)
  */
 
 // Import des décorateurs NestJS
@@ -21,8 +27,10 @@ import {
   Controller, // Décorateur pour définir un contrôleur
   Get, // Décorateur pour une route GET
   Patch, // Décorateur pour une route PATCH (mise à jour partielle)
+  Put, // Décorateur pour une route PUT
   Delete, // Décorateur pour une route DELETE
   Body, // Décorateur pour extraire le body
+  Param, // Décorateur pour extraire un paramètre d'URL
   UseGuards, // Décorateur pour appliquer des guards
   Request, // Décorateur pour accéder à la requête (req.user)
   HttpCode, // Décorateur pour définir le code HTTP
@@ -33,21 +41,29 @@ import {
 // Import du service utilisateurs
 import { UsersService } from './users.service';
 
-// Import du DTO pour la mise à jour
+// Import des DTOs
 import { UpdateProfileDto } from './dtos/update-profile.dto';
+import { UpdateProfilePrivacyDto } from './dtos/profile-privacy.dto';
+import {
+  ProfilePrivacy,
+  PublicProfile,
+  UserStats,
+} from './dtos/public-profile.dto';
 
 // Import des guards et intercepteurs
 import { JwtAccessGuard } from '../../common/guards/jwt-access.guard';
+import { OptionalJwtAccessGuard } from '../../common/guards/optional-jwt-access.guard';
 import { LoggingInterceptor } from '../../common/interceptors/logging.interceptor';
 
 /**
  * CONTRÔLEUR: UsersController
  *
- * Toutes les routes de ce contrôleur nécessitent une authentification JWT.
+ * Les routes /users/me nécessitent une authentification JWT; le profil public
+ * (/users/:id) est accessible à tous. Les routes /users/me sont déclarées avant
+ * /users/:id pour ne pas être capturées par le paramètre.
  * Le préfixe 'users' signifie que les routes commencent par /api/v1/users
  */
 @Controller('users')
-@UseGuards(JwtAccessGuard) // Protection globale: toutes les routes nécessitent un token JWT
 @UseInterceptors(LoggingInterceptor) // Logger toutes les requêtes
 export class UsersController {
   /**
@@ -74,6 +90,7 @@ export class UsersController {
    * Il contient les informations de l'utilisateur extraites du token.
    */
   @Get('me')
+  @UseGuards(JwtAccessGuard)
   async getMe(@Request() req) {
     // Récupérer l'ID de l'utilisateur depuis le token JWT (ajouté par JwtAccessGuard)
     return this.usersService.getMe(req.user.id);
@@ -97,6 +114,7 @@ export class UsersController {
    * - Les règles de validation sont définies dans UpdateProfileDto
    */
   @Patch('me')
+  @UseGuards(JwtAccessGuard)
   async updateMe(@Request() req, @Body() updateProfileDto: UpdateProfileDto) {
     // Mettre à jour le profil de l'utilisateur connecté
     return this.usersService.updateMe(req.user.id, updateProfileDto);
@@ -122,9 +140,71 @@ export class UsersController {
    * - Et potentiellement les items, échanges, etc. (selon la configuration)
    */
   @Delete('me')
+  @UseGuards(JwtAccessGuard)
   @HttpCode(HttpStatus.NO_CONTENT) // Code HTTP 204 (pas de contenu)
   async deleteMe(@Request() req) {
     // Supprimer le compte de l'utilisateur connecté
     await this.usersService.deleteMe(req.user.id);
   }
+
+  // ============================================
+  // ROUTE: GET /api/v1/users/me/stats
+  // ============================================
+
+  /**
+   * Statistiques de l'utilisateur connecté: objets publiés et disponibles,
+   * propositions envoyées et reçues, échanges réalisés et taux de réponse.
+   */
+  @Get('me/stats')
+  @UseGuards(JwtAccessGuard)
+  async getMyStats(@Request() req): Promise<UserStats> {
+    return this.usersService.getStats(req.user.id);
+  }
+
+  // ============================================
+  // ROUTES: GET / PUT /api/v1/users/me/privacy
+  // ============================================
+
+  /**
+   * Sections du profil public visibles des autres membres.
+   */
+  @Get('me/privacy')
+  @UseGuards(JwtAccessGuard)
+  async getMyPrivacy(@Request() req): Promise<ProfilePrivacy> {
+    return this.usersService.getPrivacy(req.user.id);
+  }
+
+  /**
+   * Modifie les sections visibles (mise à jour partielle).
+   */
+  @Put('me/privacy')
+  @UseGuards(JwtAccessGuard)
+  async updateMyPrivacy(
+    @Request() req,
+    @Body() dto: UpdateProfilePrivacyDto,
+  ): Promise<ProfilePrivacy> {
+    return this.usersService.updatePrivacy(req.user.id, dto);
+  }
+
+  // ============================================
+  // ROUTE: GET /api/v1/users/:id
+  // ============================================
+
+  /**
+   * Profil public d'un membre: nom, avatar, ancienneté, et selon ses réglages
+   * bio, ville, objets disponibles et réputation d'échange.
+   *
+   * @param id - ID du membre
+   * @param req - La requête HTTP (req.user présent si un token valide est fourni)
+   *
+   * Code HTTP: 200 (OK), 404 si le membre n'existe pas
+   */
+  @Get(':id')
+  @UseGuards(OptionalJwtAccessGuard)
+  async getPublicProfile(
+    @Param('id') id: string,
+    @Request() req,
+  ): Promise<PublicProfile> {
+    return this.usersService.getPublicProfile(id, req.user?.id);
+  }
 }
@@ -9,6 +9,9 @@
  * - UsersController: Routes HTTP pour la gestion du profil
  * - UsersService: Logique métier pour les utilisateurs
  *
+ * DÉPENDANCES:
+ * - RatingsModule: Réputation issue des avis (profil public, statistiques)
+ *
  * EXPORTS:
  * - UsersService est exporté pour être utilisé dans d'autres modules si nécessaire
  */
@@ -20,12 +23,18 @@ import { Module } from '@nestjs/common';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 
+// Import des modules dépendants
+import { RatingsModule } from '../ratings/ratings.module';
+
 /**
  * MODULE: UsersModule
  *
  * Module pour la gestion des utilisateurs.
  */
 @Module({
+  // Modules importés nécessaires
+  imports: [RatingsModule], // Réputation issue des avis
+
   // Contrôleur qui expose les routes HTTP
   controllers: [UsersController],
 
@@ -9,10 +9,22 @@
  * 1. `getMe`    → récupérer les informations complètes d’un utilisateur (profil inclus)
  * 2. `updateMe` → mettre à jour les informations personnelles + profil dans une transaction
  * 3. `deleteMe` → effectuer une suppression en cascade (tokens, profil, utilisateur)
+ * 4. `getPublicProfile` → profil public d’un membre (bio, ville, objets disponibles,
+ *    réputation), filtré selon ses réglages de confidentialité
+ * 5. `getStats` → statistiques de l’utilisateur connecté (objets, échanges, réputation, avis)
+ * 6. `getPrivacy` / `updatePrivacy` → sections visibles du profil public
+ *
+ * RÉPUTATION:
+ * - Échanges réalisés: échanges COMPLETED où le membre est proposant ou destinataire
+ * - Taux de réponse: part des propositions reçues (hors annulées par le proposant)
+ *   que le membre a acceptées ou refusées; null tant qu’il n’en a reçu aucune
+ * - Avis reçus (RatingsService): note moyenne, nombre d’avis et tags. Toujours
+ *   visibles: ce sont les autres membres qui les ont déposés
  *
  * SÉCURITÉ ET CONTRAINTES:
- * - Toutes les méthodes prennent un `userId` provenant du token JWT → impossible d’accéder
- *   ou de modifier un autre utilisateur.
+ * - Les méthodes d’écriture prennent un `userId` provenant du token JWT → impossible
+ *   de modifier un autre utilisateur.
+ * - Le profil public n’expose ni l’email ni les coordonnées (ville saisie uniquement).
  * - Les transactions Prisma (`$transaction`) garantissent que les données restent cohérentes
  *   même en cas d’erreur en cours de route.
  * - La suppression supprime également les refresh tokens pour empêcher toute reconnexion future.
@@ -24,12 +36,39 @@
 
 // Import des exceptions NestJS
 import { Injectable, NotFoundException } from '@nestjs/common';
+import { ExchangeStatus, ItemStatus } from '@prisma/client';
 
 // Import du service Prisma pour accéder à la base de données
 import { PrismaService } from '../../common/prisma/prisma.service';
+import { RatingsService } from '../ratings/ratings.service';
 
-// Import du DTO pour la mise à jour du profil
+// Import des DTOs
 import { UpdateProfileInput } from './dtos/update-profile.dto';
+import { UpdateProfilePrivacyDto } from './dtos/profile-privacy.dto';
+import {
+  ExchangeReputation,
+  ProfilePrivacy,
+  PublicProfile,
+  UserStats,
+} from './dtos/public-profile.dto';
+
+// Import des utilitaires de géolocalisation
+import { GeoUtil } from '../../common/utils/geo.util';
+
+/**
+ * Nombre d'objets disponibles affichés sur le profil public (les plus récents).
+ */
+export const PUBLIC_PROFILE_ITEMS_LIMIT = 12;
+
+/**
+ * Confidentialité par défaut (membre sans profil enregistré): tout est visible.
+ */
+export const DEFAULT_PROFILE_PRIVACY: ProfilePrivacy = {
+  showBio: true,
+  showLocation: true,
+  showItems: true,
+  showExchangeStats: true,
+};
 
 /**
  * SERVICE: UsersService
@@ -41,11 +80,14 @@ export class UsersService {
   /**
    * CONSTRUCTEUR
    *
-   * Injection du service Prisma
+   * Injection du service Prisma et du service des avis
    */
-  constructor(private prisma: PrismaService) {
+  constructor(
+    private prisma: PrismaService,
+    private ratings: RatingsService,
+  ) {
     // PrismaService centralise les accès DB (user, userProfile, refreshToken, etc.)
-    // Pas d'autres dépendances ici ⇒ service facilement testable
+    // RatingsService fournit la réputation issue des avis après échange
   }
 
   // ============================================
@@ -100,10 +142,13 @@ export class UsersService {
    * - Utilise une transaction pour garantir la cohérence des données
    * - upsert() crée le profil s'il n'existe pas, sinon le met à jour
    * - Seules les propriétés fournies sont mises à jour (mise à jour partielle)
+   * - La localisation (coordonnées arrondies + geohash) est recalculée quand
+   *   location ou latitude/longitude changent
    */
   async updateMe(userId: string, input: UpdateProfileInput) {
     // Extraire les données à mettre à jour
     const { displayName, avatarUrl, bio, location, preferencesJson } = input;
+    const geo = GeoUtil.resolveInput(input);
 
     // Transaction = garantit que user + userProfile restent synchronisés (tout passe ou rien)
     return this.prisma.$transaction(async (tx) => {
@@ -151,6 +196,7 @@ export class UsersService {
           ...(bio !== undefined && { bio }),
           ...(location !== undefined && { location }),
           ...(preferencesJson !== undefined && { preferencesJson }),
+          ...geo,
         },
         create: {
           // Créer le profil s'il n'existe pas
@@ -158,6 +204,7 @@ export class UsersService {
           bio,
           location,
           preferencesJson,
+          ...geo,
         },
       });
 
@@ -240,4 +287,244 @@ export class UsersService {
       });
     });
   }
+
+  // ============================================
+  // MÉTHODE: getPublicProfile (Profil public)
+  // ============================================
+
+  /**
+   * Récupère le profil public d'un membre.
+   * Les sections masquées par le membre valent null, sauf s'il consulte son propre profil.
+   *
+   * @param userId - ID du membre consulté
+   * @param viewerId - ID de l'utilisateur connecté (optionnel)
+   * @throws NotFoundException si le membre n'existe pas
+   */
+  async getPublicProfile(
+    userId: string,
+    viewerId?: string | null,
+  ): Promise<PublicProfile> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        displayName: true,
+        avatarUrl: true,
+        createdAt: true,
+        profile: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Utilisateur non trouvé');
+    }
+
+    const isOwnProfile = viewerId === user.id;
+    const privacy = this.toPrivacy(user.profile);
+    // Le propriétaire voit toutes les sections, quels que soient ses réglages
+    const visible = isOwnProfile ? DEFAULT_PROFILE_PRIVACY : privacy;
+
+    const [reputation, availableItems, ratings] = await Promise.all([
+      visible.showExchangeStats ? this.getReputation(user.id) : null,
+      visible.showItems ? this.getAvailableItems(user.id) : null,
+      this.ratings.getUserSummary(user.id),
+    ]);
+
+    return {
+      id: user.id,
+      displayName: user.displayName,
+      avatarUrl: user.avatarUrl,
+      memberSince: user.createdAt,
+      bio: visible.showBio ? (user.profile?.bio ?? null) : null,
+      location: visible.showLocation ? (user.profile?.location ?? null) : null,
+      reputation,
+      ratings,
+      availableItems,
+      isOwnProfile,
+      privacy: isOwnProfile ? privacy : null,
+    };
+  }
+
+  // ============================================
+  // MÉTHODE: getStats (Mes statistiques)
+  // ============================================
+
+  /**
+   * Statistiques de l'utilisateur connecté (carte "Statistiques" de la page profil).
+   *
+   * @throws NotFoundException si l'utilisateur n'existe pas
+   */
+  async getStats(userId: string): Promise<UserStats> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { createdAt: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Utilisateur non trouvé');
+    }
+
+    const [
+      publishedItems,
+      availableItems,
+      exchangesInitiated,
+      exchangesReceived,
+      reputation,
+      ratings,
+    ] = await Promise.all([
+      this.prisma.item.count({ where: { ownerId: userId } }),
+      this.prisma.item.count({
+        where: { ownerId: userId, status: ItemStatus.AVAILABLE },
+      }),
+      this.prisma.exchange.count({ where: { requesterId: userId } }),
+      this.prisma.exchange.count({ where: { responderId: userId } }),
+      this.getReputation(userId),
+      this.ratings.getSummaries([userId]),
+    ]);
+
+    return {
+      memberSince: user.createdAt,
+      publishedItems,
+      availableItems,
+      exchangesInitiated,
+      exchangesReceived,
+      ...reputation,
+      ...ratings.get(userId),
+    };
+  }
+
+  // ============================================
+  // MÉTHODES: getPrivacy / updatePrivacy (Confidentialité)
+  // ============================================
+
+  /**
+   * Sections du profil public visibles des autres membres.
+   */
+  async getPrivacy(userId: string): Promise<ProfilePrivacy> {
+    const profile = await this.prisma.userProfile.findUnique({
+      where: { userId },
+    });
+
+    return this.toPrivacy(profile);
+  }
+
+  /**
+   * Met à jour les sections visibles (crée le profil s'il n'existe pas).
+   * Seuls les réglages fournis sont modifiés.
+   */
+  async updatePrivacy(
+    userId: string,
+    input: UpdateProfilePrivacyDto,
+  ): Promise<ProfilePrivacy> {
+    const data = Object.fromEntries(
+      Object.entries(input).filter(([, value]) => value !== undefined),
+    ) as Partial<ProfilePrivacy>;
+
+    const profile = await this.prisma.userProfile.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...data },
+    });
+
+    return this.toPrivacy(profile);
+  }
+
+  // ============================================
+  // MÉTHODES PRIVÉES
+  // ============================================
+
+  /**
+   * Échanges réalisés et taux de réponse aux propositions reçues.
+   */
+  private async getReputation(userId: string): Promise<ExchangeReputation> {
+    const [completedExchanges, received] = await Promise.all([
+      this.prisma.exchange.count({
+        where: {
+          status: ExchangeStatus.COMPLETED,
+          OR: [{ requesterId: userId }, { responderId: userId }],
+        },
+      }),
+      this.prisma.exchange.groupBy({
+        by: ['status'],
+        where: { responderId: userId },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countOf = (statuses: ExchangeStatus[]) =>
+      received
+        .filter((group) => statuses.includes(group.status))
+        .reduce((total, group) => total + group._count._all, 0);
+
+    // Annulées par le proposant: le destinataire n'a pas eu à répondre
+    const proposals = countOf([
+      ExchangeStatus.PENDING,
+      ExchangeStatus.ACCEPTED,
+      ExchangeStatus.COMPLETED,
+      ExchangeStatus.DECLINED,
+    ]);
+    const answered = countOf([
+      ExchangeStatus.ACCEPTED,
+      ExchangeStatus.COMPLETED,
+      ExchangeStatus.DECLINED,
+    ]);
+
+    return {
+      completedExchanges,
+      responseRate:
+        proposals > 0 ? Math.round((answered / proposals) * 100) : null,
+    };
+  }
+
+  /**
+   * Objets disponibles d'un membre, les plus récents en premier.
+   */
+  private async getAvailableItems(ownerId: string) {
+    const where = { ownerId, status: ItemStatus.AVAILABLE };
+
+    const [items, total] = await Promise.all([
+      this.prisma.item.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: PUBLIC_PROFILE_ITEMS_LIMIT,
+        include: {
+          photos: {
+            select: {
+              id: true,
+              url: true,
+              width: true,
+              height: true,
+              createdAt: true,
+            },
+          },
+          owner: {
+            select: {
+              id: true,
+              displayName: true,
+              avatarUrl: true,
+            },
+          },
+        },
+      }),
+      this.prisma.item.count({ where }),
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * Réglages de confidentialité d'un profil (tout visible si le profil n'existe pas).
+   */
+  private toPrivacy(
+    profile: ProfilePrivacy | null | undefined,
+  ): ProfilePrivacy {
+    if (!profile) return { ...DEFAULT_PROFILE_PRIVACY };
+
+    return {
+      showBio: profile.showBio,
+      showLocation: profile.showLocation,
+      showItems: profile.showItems,
+      showExchangeStats: profile.showExchangeStats,
+    };
+  }
 }
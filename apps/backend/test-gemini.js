@@ -1,12 +1,30 @@
-const { GeminiService } = require('./dist/modules/ai/gemini.service');
+const { ConfigService } = require('@nestjs/config');
+const aiConfig = require('./dist/config/ai.config').default;
+const { LlmService } = require('./dist/modules/ai/llm.service');
+const { AiService } = require('./dist/modules/ai/ai.service');
+const { AiUsageService } = require('./dist/modules/ai/ai-usage.service');
+const {
+  PromptTemplatesService,
+} = require('./dist/modules/ai/prompt-templates.service');
+const { PrismaService } = require('./dist/common/prisma/prisma.service');
 
 async function testGemini() {
-  const geminiService = new GeminiService();
+  // Fournisseur choisi par AI_PROVIDER (gemini par défaut)
+  const configService = new ConfigService({ ai: aiConfig() });
+  const prisma = new PrismaService();
+  const aiService = new AiService(
+    new LlmService(
+      configService,
+      prisma,
+      new AiUsageService(prisma, configService),
+    ),
+    new PromptTemplatesService(prisma, configService),
+  );
 
-  console.log('🧪 Test direct du service Gemini...');
+  console.log('🧪 Test direct du service IA...');
 
   try {
-    const result = await geminiService.analyzeItem({
+    const result = await aiService.analyzeItem({
       title: 'Livre vintage de cuisine française',
       description:
         'Ancien livre de recettes de cuisine française des années 1970, en bon état général avec quelques pages jaunies. Contient de nombreuses recettes traditionnelles.',
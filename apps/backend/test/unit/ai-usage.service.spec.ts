@@ -0,0 +1,180 @@
+import { ConfigService } from '@nestjs/config';
+import { AiUsageService } from '../../src/modules/ai/ai-usage.service';
+
+describe('AiUsageService', () => {
+  let service: AiUsageService;
+
+  const mockPrismaService = {
+    aiCall: {
+      create: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    aiBudget: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: (key: string) =>
+      key === 'ai.pricing'
+        ? { 'gemini-2.5-flash': { input: 0.3, output: 2.5 } }
+        : undefined,
+  };
+
+  const now = new Date(2025, 9, 22, 15, 30);
+
+  /**
+   * Dépenses de la journée puis du mois (ordre des agrégations)
+   */
+  const mockSpending = (daily: number, monthly: number) => {
+    mockPrismaService.aiCall.aggregate
+      .mockResolvedValueOnce({ _sum: { costUsd: daily } })
+      .mockResolvedValueOnce({ _sum: { costUsd: monthly } });
+  };
+
+  beforeEach(() => {
+    service = new AiUsageService(
+      mockPrismaService as any,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('computeCost', () => {
+    it('devrait appliquer le tarif du modèle par million de tokens', () => {
+      expect(
+        service.computeCost('gemini-2.5-flash', {
+          inputTokens: 2_000_000,
+          outputTokens: 400_000,
+        }),
+      ).toBeCloseTo(1.6);
+    });
+
+    it('devrait compter 0 pour un modèle sans tarif ou sans tokens', () => {
+      expect(
+        service.computeCost('llama3.1', {
+          inputTokens: 1000,
+          outputTokens: 1000,
+        }),
+      ).toBe(0);
+      expect(service.computeCost('gemini-2.5-flash')).toBe(0);
+    });
+  });
+
+  describe('getBudgetStatus', () => {
+    it('devrait agréger les dépenses depuis le début du jour et du mois', async () => {
+      mockPrismaService.aiBudget.findUnique.mockResolvedValue(null);
+      mockSpending(0.5, 3);
+
+      const status = await service.getBudgetStatus(now);
+
+      expect(status).toEqual({
+        dailyLimitUsd: null,
+        monthlyLimitUsd: null,
+        dailySpentUsd: 0.5,
+        monthlySpentUsd: 3,
+        exceeded: null,
+      });
+      expect(mockPrismaService.aiCall.aggregate).toHaveBeenNthCalledWith(1, {
+        where: { createdAt: { gte: new Date(2025, 9, 22) } },
+        _sum: { costUsd: true },
+      });
+      expect(mockPrismaService.aiCall.aggregate).toHaveBeenNthCalledWith(2, {
+        where: { createdAt: { gte: new Date(2025, 9, 1) } },
+        _sum: { costUsd: true },
+      });
+    });
+
+    it('devrait signaler la limite mensuelle en priorité', async () => {
+      mockPrismaService.aiBudget.findUnique.mockResolvedValue({
+        dailyLimitUsd: 1,
+        monthlyLimitUsd: 20,
+      });
+      mockSpending(2, 25);
+
+      const status = await service.getBudgetStatus(now);
+
+      expect(status.exceeded).toBe('monthly');
+    });
+
+    it('devrait réutiliser le budget en cache et y ajouter les coûts enregistrés', async () => {
+      mockPrismaService.aiBudget.findUnique.mockResolvedValue({
+        dailyLimitUsd: 1,
+        monthlyLimitUsd: null,
+      });
+      mockSpending(0.99, 0.99);
+
+      await service.getBudgetStatus(now);
+      await service.record({
+        feature: 'theme',
+        provider: 'gemini',
+        model: 'gemini-2.5-flash',
+        promptHash: 'hash',
+        latencyMs: 120,
+        outcome: 'SUCCESS',
+        usage: { inputTokens: 10_000, outputTokens: 10_000 },
+      });
+      const status = await service.getBudgetStatus(now);
+
+      expect(mockPrismaService.aiCall.aggregate).toHaveBeenCalledTimes(2);
+      expect(status.dailySpentUsd).toBeCloseTo(1.018);
+      expect(status.exceeded).toBe('daily');
+    });
+
+    it('devrait recalculer le budget après une modification des limites', async () => {
+      mockPrismaService.aiBudget.findUnique
+        .mockResolvedValueOnce({ dailyLimitUsd: 1, monthlyLimitUsd: null })
+        .mockResolvedValueOnce({ dailyLimitUsd: 5, monthlyLimitUsd: null });
+      mockSpending(2, 2);
+      mockSpending(2, 2);
+
+      expect((await service.getBudgetStatus()).exceeded).toBe('daily');
+
+      const status = await service.updateBudget({ dailyLimitUsd: 5 });
+
+      expect(mockPrismaService.aiBudget.upsert).toHaveBeenCalledWith({
+        where: { id: 'default' },
+        create: { id: 'default', dailyLimitUsd: 5 },
+        update: { dailyLimitUsd: 5 },
+      });
+      expect(status.exceeded).toBeNull();
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('devrait autoriser les appels si le budget ne peut pas être lu', async () => {
+      mockPrismaService.aiBudget.findUnique.mockRejectedValue(
+        new Error('DB down'),
+      );
+      mockSpending(0, 0);
+
+      await expect(service.checkBudget()).resolves.toBeNull();
+    });
+  });
+
+  describe('record', () => {
+    it("ne devrait pas échouer si l'enregistrement échoue", async () => {
+      mockPrismaService.aiCall.create.mockRejectedValue(new Error('DB down'));
+
+      await expect(
+        service.record({
+          feature: 'itemAnalysis',
+          provider: 'gemini',
+          model: 'gemini-2.5-flash',
+          promptHash: 'hash',
+          latencyMs: 10,
+          outcome: 'ERROR',
+          error: 'x'.repeat(1000),
+        }),
+      ).resolves.toBeUndefined();
+
+      expect(
+        mockPrismaService.aiCall.create.mock.calls[0][0].data.error,
+      ).toHaveLength(500);
+    });
+  });
+});
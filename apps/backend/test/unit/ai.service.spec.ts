@@ -0,0 +1,576 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AiService } from '../../src/modules/ai/ai.service';
+import { LlmService } from '../../src/modules/ai/llm.service';
+import { AiUsageService } from '../../src/modules/ai/ai-usage.service';
+import { PromptTemplatesService } from '../../src/modules/ai/prompt-templates.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+import { ItemCategory } from '@prisma/client';
+import {
+  configFrom,
+  createAiPrismaMock,
+  createAiService,
+} from './helpers/ai.helpers';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+const mockPrismaService = createAiPrismaMock();
+
+describe('AiService', () => {
+  let service: AiService;
+
+  const aiConfig = {
+    provider: 'gemini',
+    timeoutMs: 50,
+    maxRetries: 1,
+    gemini: {
+      apiKey: 'test-key',
+      model: 'gemini-2.5-flash',
+      baseUrl: 'https://gemini.test/v1beta',
+    },
+    features: {
+      itemAnalysis: { temperature: 0.3, maxOutputTokens: 500 },
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AiService,
+        LlmService,
+        AiUsageService,
+        PromptTemplatesService,
+        {
+          provide: ConfigService,
+          useValue: configFrom(aiConfig, {
+            cloudinary: { cloudName: 'demo' },
+          }),
+        },
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AiService>(AiService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockClear();
+  });
+
+  describe('analyzeItem', () => {
+    it('devrait analyser un item avec succès', async () => {
+      const mockResponse = {
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  text: JSON.stringify({
+                    category: 'BOOKS',
+                    tags: ['livre', 'cuisine', 'vintage'],
+                    aiSummary: 'Livre de cuisine vintage en bon état',
+                    aiRepairTip: 'Aucune réparation nécessaire',
+                  }),
+                },
+              ],
+            },
+          },
+        ],
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(mockResponse),
+      });
+
+      const result = await service.analyzeItem({
+        title: 'Livre de cuisine',
+        description: 'Livre de recettes traditionnelles',
+      });
+
+      expect(result).toEqual({
+        category: ItemCategory.BOOKS,
+        tags: ['livre', 'cuisine', 'vintage'],
+        aiSummary: 'Livre de cuisine vintage en bon état',
+        aiRepairTip: 'Aucune réparation nécessaire',
+        promptVersion: 1,
+      });
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://gemini.test/v1beta/models/gemini-2.5-flash:generateContent?key=test-key',
+        expect.objectContaining({ method: 'POST' }),
+      );
+    });
+
+    it('devrait utiliser la version déployée du prompt', async () => {
+      mockPrismaService.promptDeployment.findUnique.mockResolvedValueOnce({
+        feature: 'itemAnalysis',
+        environment: 'development',
+        version: 2,
+        candidateVersion: null,
+        candidateShare: 0,
+      });
+      mockPrismaService.promptTemplate.findUnique.mockResolvedValueOnce({
+        template:
+          'Objet "{{title}}" ({{description}}), réponse en {{locale}}.\n{{categories}}',
+      });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            candidates: [
+              {
+                content: {
+                  parts: [
+                    {
+                      text: JSON.stringify({
+                        category: 'BOOKS',
+                        tags: ['livre'],
+                        aiSummary: 'Livre de cuisine',
+                        aiRepairTip: 'Aucune réparation nécessaire',
+                      }),
+                    },
+                  ],
+                },
+              },
+            ],
+          }),
+      });
+
+      const result = await service.analyzeItem(
+        { title: 'Livre de cuisine', description: 'Recettes' },
+        { type: 'Item', id: 'item-1' },
+      );
+
+      expect(result.promptVersion).toBe(2);
+      expect((global.fetch as jest.Mock).mock.calls[0][1].body).toContain(
+        'Objet \\"Livre de cuisine\\" (Recettes), réponse en fr.',
+      );
+      expect(mockPrismaService.aiCall.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          feature: 'itemAnalysis',
+          promptVersion: 2,
+          outcome: 'SUCCESS',
+        }),
+      });
+    });
+
+    it("devrait retourner null si la clé API n'est pas configurée", async () => {
+      const serviceWithoutKey = createAiService(
+        configFrom({
+          ...aiConfig,
+          gemini: { ...aiConfig.gemini, apiKey: undefined },
+        }),
+        mockPrismaService,
+      );
+
+      const result = await serviceWithoutKey.analyzeItem({
+        title: 'Test Item',
+        description: 'Test description',
+      });
+
+      expect(result).toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('devrait retourner null sans appeler le modèle si le budget IA est atteint', async () => {
+      mockPrismaService.aiBudget.findUnique.mockResolvedValueOnce({
+        dailyLimitUsd: 1,
+        monthlyLimitUsd: null,
+      });
+      mockPrismaService.aiCall.aggregate.mockResolvedValue({
+        _sum: { costUsd: 1.5 },
+      });
+
+      const result = await service.analyzeItem(
+        { title: 'Test Item', description: 'Test description' },
+        { type: 'Item', id: 'item-1' },
+      );
+
+      expect(result).toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(mockPrismaService.aiCall.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          feature: 'itemAnalysis',
+          outcome: 'BUDGET_EXCEEDED',
+          entityType: 'Item',
+          entityId: 'item-1',
+        }),
+      });
+
+      mockPrismaService.aiCall.aggregate.mockResolvedValue({
+        _sum: { costUsd: 0 },
+      });
+    });
+
+    it("devrait gérer les erreurs de l'API Gemini", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: () => Promise.resolve('Bad Request'),
+      });
+
+      const result = await service.analyzeItem({
+        title: 'Test Item',
+        description: 'Test description',
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it('devrait gérer les timeouts', async () => {
+      // La requête ne répond jamais: seule l'annulation (timeout de 50 ms) la termine
+      (global.fetch as jest.Mock).mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) =>
+            init.signal.addEventListener('abort', () =>
+              reject(
+                Object.assign(new Error('aborted'), { name: 'AbortError' }),
+              ),
+            ),
+          ),
+      );
+
+      const result = await service.analyzeItem({
+        title: 'Test Item',
+        description: 'Test description',
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it('devrait valider la structure de la réponse JSON', async () => {
+      const mockResponse = {
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  text: JSON.stringify({
+                    category: 'INVALID_CATEGORY',
+                    tags: ['tag1'],
+                    aiSummary: 'Summary',
+                    aiRepairTip: 'Tip',
+                  }),
+                },
+              ],
+            },
+          },
+        ],
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(mockResponse),
+      });
+
+      const result = await service.analyzeItem({
+        title: 'Test Item',
+        description: 'Test description',
+      });
+
+      // Une demande de correction, puis repli
+      expect(result).toBeNull();
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.aiValidationFailure.create).toHaveBeenCalledWith(
+        {
+          data: expect.objectContaining({
+            feature: 'itemAnalysis',
+            outcome: 'FALLBACK',
+          }),
+        },
+      );
+    });
+
+    it('devrait utiliser la réponse corrigée après une réponse invalide', async () => {
+      const reply = (payload: unknown) => ({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            candidates: [
+              { content: { parts: [{ text: JSON.stringify(payload) }] } },
+            ],
+          }),
+      });
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(
+          reply({
+            category: 'LIVRES',
+            tags: ['roman'],
+            aiSummary: 'Résumé',
+            aiRepairTip: 'Conseil',
+          }),
+        )
+        .mockResolvedValueOnce(
+          reply({
+            category: 'books',
+            tags: ['roman'],
+            aiSummary: 'Résumé',
+            aiRepairTip: 'Conseil',
+          }),
+        );
+
+      const result = await service.analyzeItem({
+        title: 'Test Item',
+        description: 'Test description',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          category: ItemCategory.BOOKS,
+          tags: ['roman'],
+          aiSummary: 'Résumé',
+        }),
+      );
+      expect(mockPrismaService.aiValidationFailure.create).toHaveBeenCalledWith(
+        {
+          data: expect.objectContaining({ outcome: 'REPAIRED' }),
+        },
+      );
+    });
+
+    it('devrait nettoyer les réponses avec markdown', async () => {
+      const mockResponse = {
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  text:
+                    '```json\n' +
+                    JSON.stringify({
+                      category: 'ELECTRONICS',
+                      tags: ['smartphone', 'apple'],
+                      aiSummary: 'iPhone en bon état',
+                      aiRepairTip: 'Aucune réparation nécessaire',
+                    }) +
+                    '\n```',
+                },
+              ],
+            },
+          },
+        ],
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(mockResponse),
+      });
+
+      const result = await service.analyzeItem({
+        title: 'iPhone 12',
+        description: 'Smartphone Apple',
+      });
+
+      expect(result).toEqual({
+        category: ItemCategory.ELECTRONICS,
+        tags: ['smartphone', 'apple'],
+        aiSummary: 'iPhone en bon état',
+        aiRepairTip: 'Aucune réparation nécessaire',
+        promptVersion: 1,
+      });
+    });
+  });
+
+  describe('analyzeItemPhotos', () => {
+    const photoUrl = 'https://res.cloudinary.com/demo/image/upload/lampe.webp';
+
+    /**
+     * Réponse de l'image (photo Cloudinary) ou de Gemini selon l'URL appelée
+     */
+    const mockFetch = (
+      imageOk: boolean,
+      analysis: unknown,
+      image: () => Response = () =>
+        new Response(Uint8Array.from([1, 2, 3]), {
+          status: imageOk ? 200 : 404,
+          headers: { 'content-type': 'image/webp' },
+        }),
+    ) =>
+      (global.fetch as jest.Mock).mockImplementation((url: string) =>
+        Promise.resolve(
+          url === photoUrl
+            ? image()
+            : {
+                ok: true,
+                json: () =>
+                  Promise.resolve({
+                    candidates: [
+                      {
+                        content: {
+                          parts: [{ text: JSON.stringify(analysis) }],
+                        },
+                      },
+                    ],
+                  }),
+              },
+        ),
+      );
+
+    it('devrait joindre les photos au prompt et retourner les suggestions', async () => {
+      mockFetch(true, {
+        category: { value: 'home', confidence: 0.9 },
+        condition: { value: 'TO_REPAIR', confidence: 0.7 },
+        tags: { value: ['lampe', 'laiton', 'vintage'], confidence: 0.8 },
+        title: { value: null, confidence: 0.5 },
+        damageNotes: { value: 'Abat-jour déchiré', confidence: 0.85 },
+      });
+
+      const result = await service.analyzeItemPhotos({
+        title: 'Lampe',
+        description: 'Lampe de bureau',
+        photoUrls: [photoUrl],
+      });
+
+      expect(result).toEqual({
+        category: { value: ItemCategory.HOME, confidence: 0.9 },
+        condition: { value: 'TO_REPAIR', confidence: 0.7 },
+        tags: { value: ['lampe', 'laiton', 'vintage'], confidence: 0.8 },
+        title: null,
+        damageNotes: { value: 'Abat-jour déchiré', confidence: 0.85 },
+        promptVersion: 1,
+      });
+
+      const [, request] = (global.fetch as jest.Mock).mock.calls.find(
+        ([url]) => url !== photoUrl,
+      );
+      expect(JSON.parse(request.body).contents[0].parts[1]).toEqual({
+        inline_data: { mime_type: 'image/webp', data: 'AQID' },
+      });
+      expect(global.fetch).toHaveBeenCalledWith(
+        photoUrl,
+        expect.objectContaining({ redirect: 'error' }),
+      );
+    });
+
+    it('devrait refuser une photo hors du cloud Cloudinary sans la télécharger', async () => {
+      mockFetch(true, {});
+
+      for (const url of [
+        'http://169.254.169.254/latest/meta-data/',
+        'https://res.cloudinary.com/autre-cloud/image/upload/lampe.webp',
+      ]) {
+        const result = await service.analyzeItemPhotos({
+          title: 'Lampe',
+          description: 'Lampe de bureau',
+          photoUrls: [url],
+        });
+
+        expect(result).toBeNull();
+      }
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser une image annoncée trop lourde', async () => {
+      mockFetch(
+        true,
+        {},
+        () =>
+          new Response(Uint8Array.from([1, 2, 3]), {
+            headers: {
+              'content-type': 'image/webp',
+              'content-length': String(6 * 1024 * 1024),
+            },
+          }),
+      );
+
+      const result = await service.analyzeItemPhotos({
+        title: 'Lampe',
+        description: 'Lampe de bureau',
+        photoUrls: [photoUrl],
+      });
+
+      expect(result).toBeNull();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('devrait interrompre la lecture au-delà de 5 Mo', async () => {
+      // Corps sans content-length: 1 Mo par morceau, sans fin
+      let chunksRead = 0;
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          chunksRead += 1;
+          controller.enqueue(new Uint8Array(1024 * 1024));
+        },
+      });
+      mockFetch(
+        true,
+        {},
+        () =>
+          new Response(stream, { headers: { 'content-type': 'image/webp' } }),
+      );
+
+      const result = await service.analyzeItemPhotos({
+        title: 'Lampe',
+        description: 'Lampe de bureau',
+        photoUrls: [photoUrl],
+      });
+
+      expect(result).toBeNull();
+      expect(chunksRead).toBeLessThanOrEqual(7);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('devrait retourner null si une photo est inaccessible', async () => {
+      mockFetch(false, {});
+
+      const result = await service.analyzeItemPhotos({
+        title: 'Lampe',
+        description: 'Lampe de bureau',
+        photoUrls: [photoUrl],
+      });
+
+      expect(result).toBeNull();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('testConnection', () => {
+    it('devrait tester la connexion avec succès', async () => {
+      const mockResponse = {
+        candidates: [
+          {
+            content: {
+              parts: [
+                {
+                  text: JSON.stringify({
+                    category: 'OTHER',
+                    tags: ['test'],
+                    aiSummary: 'Test',
+                    aiRepairTip: 'Test',
+                  }),
+                },
+              ],
+            },
+          },
+        ],
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve(mockResponse),
+      });
+
+      const result = await service.testConnection();
+
+      expect(result).toBe(true);
+    });
+
+    it("devrait retourner false en cas d'erreur", async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 500,
+        text: () => Promise.resolve('Internal Server Error'),
+      });
+
+      const result = await service.testConnection();
+
+      expect(result).toBe(false);
+    });
+  });
+});
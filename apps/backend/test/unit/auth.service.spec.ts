@@ -4,6 +4,10 @@ import { ConfigService } from '@nestjs/config';
 import { ConflictException, UnauthorizedException } from '@nestjs/common';
 import { AuthService } from '../../src/modules/auth/auth.service';
 import { PrismaService } from '../../src/common/prisma/prisma.service';
+import {
+  AccountSuspendedException,
+  BansService,
+} from '../../src/modules/auth/bans.service';
 import * as bcrypt from 'bcrypt';
 
 // Mock bcrypt
@@ -50,6 +54,10 @@ describe('AuthService', () => {
     get: jest.fn(),
   };
 
+  const mockBansService = {
+    assertNotBanned: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -57,6 +65,7 @@ describe('AuthService', () => {
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: JwtService, useValue: mockJwtService },
         { provide: ConfigService, useValue: mockConfigService },
+        { provide: BansService, useValue: mockBansService },
       ],
     }).compile();
 
@@ -160,5 +169,43 @@ describe('AuthService', () => {
         UnauthorizedException,
       );
     });
+
+    it('should throw AccountSuspendedException for a banned user', async () => {
+      const loginInput = {
+        email: 'test@example.com',
+        password: 'Password123!',
+      };
+
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockBansService.assertNotBanned.mockRejectedValue(
+        new AccountSuspendedException({ reason: 'Spam', expiresAt: null }),
+      );
+
+      await expect(service.login(loginInput)).rejects.toThrow(
+        AccountSuspendedException,
+      );
+      expect(mockBansService.assertNotBanned).toHaveBeenCalledWith(mockUser.id);
+      expect(mockPrismaService.refreshToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should refuse to refresh tokens of a banned user', async () => {
+      mockPrismaService.refreshToken.findUnique.mockResolvedValue({
+        id: 'token-1',
+        tokenHash: 'hashed-refresh',
+        expiresAt: new Date(Date.now() + 60_000),
+        revokedAt: null,
+        user: mockUser,
+      });
+      mockBansService.assertNotBanned.mockRejectedValue(
+        new AccountSuspendedException({ reason: null, expiresAt: null }),
+      );
+
+      await expect(service.refresh('refresh-token')).rejects.toThrow(
+        AccountSuspendedException,
+      );
+      expect(mockPrismaService.refreshToken.delete).not.toHaveBeenCalled();
+    });
   });
 });
@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ACCOUNT_SUSPENDED,
+  AccountSuspendedException,
+  BansService,
+} from '../../src/modules/auth/bans.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+
+describe('BansService', () => {
+  let service: BansService;
+
+  const mockPrismaService = {
+    ban: {
+      findUnique: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BansService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<BansService>(BansService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('assertNotBanned', () => {
+    it('devrait laisser passer un utilisateur sans bannissement', async () => {
+      mockPrismaService.ban.findUnique.mockResolvedValue(null);
+
+      await expect(service.assertNotBanned('user-1')).resolves.toBeUndefined();
+    });
+
+    it('devrait refuser un utilisateur banni avec la raison et la date de fin', async () => {
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      mockPrismaService.ban.findUnique.mockResolvedValue({
+        id: 'ban-1',
+        userId: 'user-1',
+        reason: 'Spam',
+        expiresAt,
+      });
+
+      const error = await service
+        .assertNotBanned('user-1')
+        .catch((e: AccountSuspendedException) => e);
+
+      expect(error).toBeInstanceOf(AccountSuspendedException);
+      expect((error as AccountSuspendedException).getResponse()).toMatchObject({
+        statusCode: 403,
+        code: ACCOUNT_SUSPENDED,
+        reason: 'Spam',
+        expiresAt: expiresAt.toISOString(),
+      });
+    });
+
+    it('devrait lever automatiquement un bannissement expiré', async () => {
+      mockPrismaService.ban.findUnique.mockResolvedValue({
+        id: 'ban-1',
+        userId: 'user-1',
+        reason: null,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.assertNotBanned('user-1')).resolves.toBeUndefined();
+      expect(mockPrismaService.ban.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'ban-1', expiresAt: { lte: expect.any(Date) } },
+      });
+    });
+  });
+});
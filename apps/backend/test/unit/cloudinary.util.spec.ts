@@ -0,0 +1,41 @@
+import { CloudinaryUtil } from '../../src/common/utils/cloudinary.util';
+
+describe('CloudinaryUtil', () => {
+  describe('isAssetUrl', () => {
+    it('devrait accepter une image du cloud configuré', () => {
+      expect(
+        CloudinaryUtil.isAssetUrl(
+          'https://res.cloudinary.com/demo/image/upload/v1/items/lampe.webp',
+          'demo',
+        ),
+      ).toBe(true);
+    });
+
+    it('devrait refuser un autre hôte, un autre cloud ou un autre protocole', () => {
+      const rejected = [
+        'http://res.cloudinary.com/demo/image/upload/lampe.webp',
+        'https://res.cloudinary.com/autre/image/upload/lampe.webp',
+        'https://res.cloudinary.com/demo-bis/image/upload/lampe.webp',
+        'https://res.cloudinary.com.evil.test/demo/image/upload/lampe.webp',
+        'https://res.cloudinary.com:8443/demo/image/upload/lampe.webp',
+        'https://user@res.cloudinary.com/demo/image/upload/lampe.webp',
+        'https://169.254.169.254/demo/latest/meta-data',
+        'file:///etc/passwd',
+        'pas une url',
+      ];
+
+      for (const url of rejected) {
+        expect(CloudinaryUtil.isAssetUrl(url, 'demo')).toBe(false);
+      }
+    });
+
+    it("devrait tout refuser si aucun cloud n'est configuré", () => {
+      expect(
+        CloudinaryUtil.isAssetUrl(
+          'https://res.cloudinary.com/demo/image/upload/lampe.webp',
+          undefined,
+        ),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DigestCronService } from '../../src/modules/scheduler/digest-cron.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+import { MailService } from '../../src/modules/mail/mail.service';
+
+describe('DigestCronService', () => {
+  let service: DigestCronService;
+
+  const mockPrismaService = {
+    user: {
+      findMany: jest.fn(),
+    },
+    notification: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+    notificationPreference: {
+      upsert: jest.fn(),
+    },
+  };
+
+  const mockMailService = {
+    sendTemplate: jest.fn(),
+  };
+
+  // Lundi 20 octobre 2025, 08:00 à Paris
+  const monday = new Date('2025-10-20T06:00:00Z');
+  // Mardi 21 octobre 2025, 08:00 à Paris
+  const tuesday = new Date('2025-10-21T06:00:00Z');
+
+  const buildUser = (overrides: Record<string, unknown> = {}) => ({
+    id: 'user-1',
+    email: 'jane@example.com',
+    displayName: 'Jane',
+    preferences: { locale: 'fr' },
+    notificationPreference: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DigestCronService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: MailService, useValue: mockMailService },
+      ],
+    }).compile();
+
+    service = module.get<DigestCronService>(DigestCronService);
+
+    mockPrismaService.user.findMany.mockResolvedValue([]);
+    mockPrismaService.notification.count.mockResolvedValue(0);
+    mockPrismaService.notification.findMany.mockResolvedValue([]);
+    mockMailService.sendTemplate.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('devrait cibler uniquement les résumés quotidiens en semaine', async () => {
+    await service.sendDigests(tuesday);
+
+    const { where } = mockPrismaService.user.findMany.mock.calls[0][0];
+    expect(where.OR).toEqual([
+      { notificationPreference: { digestFrequency: { in: ['DAILY'] } } },
+    ]);
+  });
+
+  it('devrait inclure le lundi les résumés hebdomadaires et les utilisateurs sans préférences', async () => {
+    await service.sendDigests(monday);
+
+    const { where } = mockPrismaService.user.findMany.mock.calls[0][0];
+    expect(where.OR).toEqual([
+      {
+        notificationPreference: {
+          digestFrequency: { in: ['DAILY', 'WEEKLY'] },
+        },
+      },
+      { notificationPreference: { is: null } },
+    ]);
+  });
+
+  it('devrait résumer les notifications non lues depuis le dernier résumé', async () => {
+    const lastDigestAt = new Date('2025-10-20T06:00:00Z');
+    mockPrismaService.user.findMany.mockResolvedValue([
+      buildUser({
+        notificationPreference: { digestFrequency: 'DAILY', lastDigestAt },
+      }),
+    ]);
+    mockPrismaService.notification.count.mockResolvedValue(12);
+    mockPrismaService.notification.findMany.mockResolvedValue([
+      {
+        title: 'SecondLife Exchange',
+        body: 'Votre échange a été accepté',
+        link: '/exchange/abc',
+      },
+    ]);
+
+    await expect(service.sendDigests(tuesday)).resolves.toBe(1);
+
+    expect(mockPrismaService.notification.count).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        readAt: null,
+        archivedAt: null,
+        createdAt: { gt: lastDigestAt },
+      },
+    });
+    expect(mockMailService.sendTemplate).toHaveBeenCalledWith({
+      userId: 'user-1',
+      to: 'jane@example.com',
+      recipientName: 'Jane',
+      locale: 'fr',
+      template: 'digest',
+      params: {
+        frequency: 'DAILY',
+        unreadCount: 12,
+        items: [
+          {
+            title: 'SecondLife Exchange',
+            body: 'Votre échange a été accepté',
+            link: '/exchange/abc',
+          },
+        ],
+      },
+      unsubscribeScope: 'DIGEST',
+    });
+    expect(
+      mockPrismaService.notificationPreference.upsert,
+    ).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      update: { lastDigestAt: tuesday },
+      create: { userId: 'user-1', lastDigestAt: tuesday },
+    });
+  });
+
+  it('devrait limiter la période à 7 jours pour un premier résumé hebdomadaire', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue([buildUser()]);
+
+    await service.sendDigests(monday);
+
+    const { where } = mockPrismaService.notification.count.mock.calls[0][0];
+    expect(where.createdAt.gt).toEqual(new Date('2025-10-13T06:00:00Z'));
+  });
+
+  it('ne devrait rien envoyer sans nouvelle notification non lue', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue([buildUser()]);
+
+    await expect(service.sendDigests(monday)).resolves.toBe(0);
+
+    expect(mockMailService.sendTemplate).not.toHaveBeenCalled();
+    expect(
+      mockPrismaService.notificationPreference.upsert,
+    ).not.toHaveBeenCalled();
+  });
+
+  it('devrait continuer avec les autres utilisateurs si un envoi échoue', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue([
+      buildUser(),
+      buildUser({ id: 'user-2', email: 'john@example.com' }),
+    ]);
+    mockPrismaService.notification.count.mockResolvedValue(1);
+    mockMailService.sendTemplate
+      .mockRejectedValueOnce(new Error('SMTP indisponible'))
+      .mockResolvedValueOnce(undefined);
+
+    await expect(service.sendDigests(monday)).resolves.toBe(1);
+
+    // Le premier utilisateur recevra son résumé la prochaine fois
+    expect(
+      mockPrismaService.notificationPreference.upsert,
+    ).toHaveBeenCalledTimes(1);
+    expect(
+      mockPrismaService.notificationPreference.upsert,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 'user-2' } }),
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EngagementType } from '@prisma/client';
+import {
+  ENGAGEMENT_RETENTION_DAYS,
+  EngagementService,
+} from '../../src/modules/engagement/engagement.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+
+describe('EngagementService', () => {
+  let service: EngagementService;
+
+  const mockPrismaService = {
+    item: {
+      findMany: jest.fn(),
+    },
+    itemEngagement: {
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $executeRaw: jest.fn(),
+  };
+
+  const now = new Date('2025-10-21T15:30:00Z');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EngagementService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<EngagementService>(EngagementService);
+
+    mockPrismaService.item.findMany.mockResolvedValue([
+      { id: 'item-1', ownerId: 'owner-1' },
+      { id: 'item-2', ownerId: 'user-1' },
+    ]);
+    mockPrismaService.itemEngagement.createMany.mockImplementation(({ data }) =>
+      Promise.resolve({ count: data.length }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordView', () => {
+    it('devrait enregistrer une vue par utilisateur et par jour', async () => {
+      const recorded = await service.recordView(
+        'item-1',
+        { userId: 'user-1', sessionId: 'session-abc123' },
+        now,
+      );
+
+      expect(recorded).toBe(true);
+      expect(mockPrismaService.itemEngagement.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            itemId: 'item-1',
+            type: EngagementType.VIEW,
+            dedupKey: 'view:user:user-1:2025-10-21',
+            userId: 'user-1',
+            sessionId: null,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('devrait dédupliquer les vues anonymes par session', async () => {
+      await service.recordView('item-1', { sessionId: 'session-abc123' }, now);
+
+      expect(mockPrismaService.itemEngagement.createMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [
+            expect.objectContaining({
+              dedupKey: 'view:session:session-abc123:2025-10-21',
+              sessionId: 'session-abc123',
+            }),
+          ],
+        }),
+      );
+    });
+
+    it("devrait ignorer une vue déjà comptée aujourd'hui", async () => {
+      mockPrismaService.itemEngagement.createMany.mockResolvedValueOnce({
+        count: 0,
+      });
+
+      const recorded = await service.recordView(
+        'item-1',
+        { userId: 'user-1' },
+        now,
+      );
+
+      expect(recorded).toBe(false);
+    });
+
+    it('devrait ignorer les vues du propriétaire', async () => {
+      const recorded = await service.recordView(
+        'item-1',
+        { userId: 'owner-1' },
+        now,
+      );
+
+      expect(recorded).toBe(false);
+      expect(
+        mockPrismaService.itemEngagement.createMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('devrait ignorer une vue sans utilisateur ni session valide', async () => {
+      await expect(service.recordView('item-1', {}, now)).resolves.toBe(false);
+      await expect(
+        service.recordView('item-1', { sessionId: 'x' }, now),
+      ).resolves.toBe(false);
+
+      expect(mockPrismaService.item.findMany).not.toHaveBeenCalled();
+    });
+
+    it("ne devrait pas faire échouer l'appelant en cas d'erreur", async () => {
+      mockPrismaService.itemEngagement.createMany.mockRejectedValueOnce(
+        new Error('connexion perdue'),
+      );
+
+      await expect(
+        service.recordView('item-1', { userId: 'user-1' }, now),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('recordChatStart', () => {
+    it("devrait ignorer l'objet dont l'expéditeur est propriétaire", async () => {
+      await service.recordChatStart(['item-1', 'item-2'], 'user-1', 'ex-1');
+
+      expect(mockPrismaService.itemEngagement.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            itemId: 'item-1',
+            type: EngagementType.CHAT_START,
+            dedupKey: 'chat:ex-1:user-1',
+            userId: 'user-1',
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+  });
+
+  describe('retractFavorite', () => {
+    it("devrait supprimer le signal FAVORITE de l'utilisateur", async () => {
+      await service.retractFavorite('item-1', 'user-1');
+
+      expect(mockPrismaService.itemEngagement.deleteMany).toHaveBeenCalledWith({
+        where: { itemId: 'item-1', dedupKey: 'favorite:user-1' },
+      });
+    });
+  });
+
+  describe('recomputePopularity', () => {
+    it('devrait recalculer les scores avec décroissance dans une seule requête', async () => {
+      mockPrismaService.$executeRaw.mockResolvedValue(12);
+
+      const updated = await service.recomputePopularity(now);
+
+      expect(updated).toBe(12);
+      expect(mockPrismaService.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('pruneEngagements', () => {
+    it('devrait supprimer les engagements sortis de la fenêtre de calcul', async () => {
+      mockPrismaService.itemEngagement.deleteMany.mockResolvedValue({
+        count: 3,
+      });
+
+      const pruned = await service.pruneEngagements(now);
+
+      expect(pruned).toBe(3);
+      expect(mockPrismaService.itemEngagement.deleteMany).toHaveBeenCalledWith({
+        where: {
+          createdAt: {
+            lt: new Date(
+              now.getTime() - ENGAGEMENT_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+            ),
+          },
+        },
+      });
+    });
+  });
+});
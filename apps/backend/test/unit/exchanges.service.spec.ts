@@ -0,0 +1,789 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ExchangesService } from '../../src/modules/exchanges/exchanges.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+import { NotificationsService } from '../../src/modules/notifications/notifications.service';
+import { FavoritesService } from '../../src/modules/favorites/favorites.service';
+import { EngagementService } from '../../src/modules/engagement/engagement.service';
+import { RatingsService } from '../../src/modules/ratings/ratings.service';
+import { SavedSearchesService } from '../../src/modules/saved-searches/saved-searches.service';
+import { ExchangeItemSide, ItemStatus } from '@prisma/client';
+
+describe('ExchangesService', () => {
+  let service: ExchangesService;
+
+  const offeredItem = {
+    id: 'item-offered',
+    ownerId: 'requester-1',
+    title: 'Vélo vintage',
+    status: ItemStatus.AVAILABLE,
+  };
+
+  const requestedItem = {
+    id: 'item-requested',
+    ownerId: 'responder-1',
+    title: 'Lampe de bureau',
+    status: ItemStatus.AVAILABLE,
+  };
+
+  const secondOfferedItem = {
+    id: 'item-offered-2',
+    ownerId: 'requester-1',
+    title: 'Livre de cuisine',
+    status: ItemStatus.AVAILABLE,
+  };
+
+  const mockPrismaService: any = {
+    user: {
+      findUnique: jest.fn(),
+    },
+    item: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    exchangeItem: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    exchangeRevision: {
+      create: jest.fn(),
+    },
+    chatMessage: {
+      create: jest.fn(),
+    },
+    exchange: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockNotificationsService = {
+    sendExchangeStatusNotification: jest.fn(),
+    sendNewMessageNotification: jest.fn(),
+  };
+
+  const mockFavoritesService = {
+    notifyWatchers: jest.fn(),
+  };
+
+  const mockEngagementService = {
+    recordExchangeProposal: jest.fn(),
+    recordChatStart: jest.fn(),
+  };
+
+  const mockRatingsService = {
+    getSummaries: jest.fn(),
+  };
+
+  const mockSavedSearchesService = {
+    notifyMatches: jest.fn(),
+  };
+
+  const validInput = {
+    responderId: 'responder-1',
+    offeredItemIds: [offeredItem.id],
+    requestedItemIds: [requestedItem.id],
+  };
+
+  const mockItemsLookup = (...items: any[]) => {
+    mockPrismaService.item.findMany.mockResolvedValue(
+      items.filter((item) => !!item),
+    );
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExchangesService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: NotificationsService,
+          useValue: mockNotificationsService,
+        },
+        {
+          provide: FavoritesService,
+          useValue: mockFavoritesService,
+        },
+        {
+          provide: EngagementService,
+          useValue: mockEngagementService,
+        },
+        {
+          provide: RatingsService,
+          useValue: mockRatingsService,
+        },
+        {
+          provide: SavedSearchesService,
+          useValue: mockSavedSearchesService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExchangesService>(ExchangesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createExchange', () => {
+    beforeEach(() => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'responder-1',
+      });
+    });
+
+    it('devrait créer un échange lié aux items avec un snapshot des titres', async () => {
+      mockItemsLookup(offeredItem, requestedItem);
+      mockPrismaService.exchange.create.mockResolvedValue({ id: 'ex-1' });
+
+      await service.createExchange('requester-1', validInput);
+
+      expect(mockPrismaService.exchange.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            proposedById: 'requester-1',
+            offeredItemTitle: offeredItem.title,
+            requestedItemTitle: requestedItem.title,
+            items: {
+              create: [
+                {
+                  itemId: offeredItem.id,
+                  side: ExchangeItemSide.OFFERED,
+                  title: offeredItem.title,
+                },
+                {
+                  itemId: requestedItem.id,
+                  side: ExchangeItemSide.REQUESTED,
+                  title: requestedItem.title,
+                },
+              ],
+            },
+            status: 'PENDING',
+          }),
+        }),
+      );
+      const { data } = mockPrismaService.exchange.create.mock.calls[0][0];
+      expect(data.revisions).toEqual({
+        create: {
+          version: 1,
+          authorId: 'requester-1',
+          items: data.items.create,
+        },
+      });
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).toHaveBeenCalledWith('ex-1', 'PENDING', 'responder-1');
+      expect(mockEngagementService.recordExchangeProposal).toHaveBeenCalledWith(
+        [requestedItem.id],
+        'requester-1',
+        'ex-1',
+      );
+    });
+
+    it('devrait créer un échange avec plusieurs objets proposés', async () => {
+      mockItemsLookup(offeredItem, secondOfferedItem, requestedItem);
+      mockPrismaService.exchange.create.mockResolvedValue({ id: 'ex-1' });
+
+      await service.createExchange('requester-1', {
+        ...validInput,
+        offeredItemIds: [offeredItem.id, secondOfferedItem.id],
+      });
+
+      const { data } = mockPrismaService.exchange.create.mock.calls[0][0];
+      expect(data.offeredItemTitle).toBe('Vélo vintage, Livre de cuisine');
+      expect(
+        data.items.create.map(({ itemId, side }) => [itemId, side]),
+      ).toEqual([
+        [offeredItem.id, ExchangeItemSide.OFFERED],
+        [secondOfferedItem.id, ExchangeItemSide.OFFERED],
+        [requestedItem.id, ExchangeItemSide.REQUESTED],
+      ]);
+    });
+
+    it("devrait refuser si l'objet proposé n'appartient pas au demandeur", async () => {
+      mockItemsLookup(
+        { ...offeredItem, ownerId: 'someone-else' },
+        requestedItem,
+      );
+
+      await expect(
+        service.createExchange('requester-1', validInput),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it("devrait refuser si l'objet demandé n'appartient pas au répondant", async () => {
+      mockItemsLookup(offeredItem, {
+        ...requestedItem,
+        ownerId: 'someone-else',
+      });
+
+      await expect(
+        service.createExchange('requester-1', validInput),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("devrait refuser si un des objets n'est plus disponible", async () => {
+      mockItemsLookup(offeredItem, secondOfferedItem, {
+        ...requestedItem,
+        status: ItemStatus.PENDING,
+      });
+
+      await expect(
+        service.createExchange('requester-1', {
+          ...validInput,
+          offeredItemIds: [offeredItem.id, secondOfferedItem.id],
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.exchange.create).not.toHaveBeenCalled();
+    });
+
+    it("devrait lancer NotFoundException si un item n'existe pas", async () => {
+      mockItemsLookup(null, requestedItem);
+
+      await expect(
+        service.createExchange('requester-1', validInput),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('updateExchangeStatus', () => {
+    const baseExchange = {
+      id: 'ex-1',
+      requesterId: 'requester-1',
+      responderId: 'responder-1',
+      proposedById: 'requester-1',
+      currentVersion: 1,
+      items: [
+        { itemId: offeredItem.id, item: offeredItem },
+        { itemId: secondOfferedItem.id, item: secondOfferedItem },
+        { itemId: requestedItem.id, item: requestedItem },
+      ],
+      status: 'PENDING',
+      requesterConfirmedAt: null,
+      responderConfirmedAt: null,
+    };
+
+    const mockExchange = (overrides: Record<string, unknown> = {}) => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue({
+        ...baseExchange,
+        ...overrides,
+      });
+      mockPrismaService.exchange.updateMany.mockResolvedValue({ count: 1 });
+    };
+
+    const expectConflictCode = async (
+      promise: Promise<any>,
+      code: string,
+    ): Promise<ConflictException> => {
+      const error: ConflictException = await promise.catch((e) => e);
+      expect(error).toBeInstanceOf(ConflictException);
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({ statusCode: 409, code }),
+      );
+      return error;
+    };
+
+    const bundleItemIds = [
+      offeredItem.id,
+      secondOfferedItem.id,
+      requestedItem.id,
+    ];
+
+    it("devrait réserver tous les items du lot à l'acceptation", async () => {
+      mockExchange();
+      mockPrismaService.item.updateMany.mockResolvedValue({ count: 3 });
+
+      await service.updateExchangeStatus('ex-1', 'responder-1', {
+        status: 'ACCEPTED',
+      });
+
+      expect(mockPrismaService.item.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: bundleItemIds },
+          status: ItemStatus.AVAILABLE,
+        },
+        data: { status: ItemStatus.PENDING },
+      });
+    });
+
+    it('devrait laisser le demandeur accepter la dernière contre-proposition', async () => {
+      mockExchange({ proposedById: 'responder-1', currentVersion: 2 });
+      mockPrismaService.item.updateMany.mockResolvedValue({ count: 3 });
+
+      await service.updateExchangeStatus('ex-1', 'requester-1', {
+        status: 'ACCEPTED',
+        version: 2,
+      });
+
+      expect(mockPrismaService.exchange.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ currentVersion: 2 }),
+        }),
+      );
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).toHaveBeenCalledWith('ex-1', 'ACCEPTED', 'responder-1');
+    });
+
+    it("devrait refuser l'acceptation d'une révision remplacée", async () => {
+      mockExchange({ proposedById: 'responder-1', currentVersion: 3 });
+
+      await expectConflictCode(
+        service.updateExchangeStatus('ex-1', 'requester-1', {
+          status: 'ACCEPTED',
+          version: 2,
+        }),
+        'EXCHANGE_STALE_REVISION',
+      );
+      expect(mockPrismaService.exchange.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser que le répondant accepte sa propre contre-proposition', async () => {
+      mockExchange({ proposedById: 'responder-1' });
+
+      await expectConflictCode(
+        service.updateExchangeStatus('ex-1', 'responder-1', {
+          status: 'ACCEPTED',
+        }),
+        'EXCHANGE_ROLE_NOT_ALLOWED',
+      );
+    });
+
+    it("devrait notifier l'autre participant à chaque transition", async () => {
+      mockExchange();
+      mockPrismaService.item.updateMany.mockResolvedValue({ count: 3 });
+
+      await service.updateExchangeStatus('ex-1', 'responder-1', {
+        status: 'ACCEPTED',
+      });
+
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).toHaveBeenCalledWith('ex-1', 'ACCEPTED', 'requester-1');
+    });
+
+    it('devrait échouer si un item du lot a été pris entre-temps', async () => {
+      mockExchange();
+      mockPrismaService.item.updateMany.mockResolvedValue({ count: 2 });
+
+      await expect(
+        service.updateExchangeStatus('ex-1', 'responder-1', {
+          status: 'ACCEPTED',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser que le demandeur accepte sa propre proposition', async () => {
+      mockExchange();
+
+      const error = await expectConflictCode(
+        service.updateExchangeStatus('ex-1', 'requester-1', {
+          status: 'ACCEPTED',
+        }),
+        'EXCHANGE_ROLE_NOT_ALLOWED',
+      );
+
+      expect(error.getResponse()).toEqual(
+        expect.objectContaining({
+          from: 'PENDING',
+          to: 'ACCEPTED',
+          role: 'requester',
+          allowed: ['CANCELLED'],
+        }),
+      );
+      expect(mockPrismaService.exchange.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser toute transition depuis un statut terminal', async () => {
+      mockExchange({ status: 'DECLINED' });
+
+      await expectConflictCode(
+        service.updateExchangeStatus('ex-1', 'responder-1', {
+          status: 'ACCEPTED',
+        }),
+        'EXCHANGE_TERMINAL_STATUS',
+      );
+    });
+
+    it('devrait refuser une transition absente de la table', async () => {
+      mockExchange();
+
+      await expectConflictCode(
+        service.updateExchangeStatus('ex-1', 'responder-1', {
+          status: 'COMPLETED',
+        }),
+        'EXCHANGE_INVALID_TRANSITION',
+      );
+    });
+
+    it("devrait lancer ForbiddenException si l'utilisateur ne participe pas", async () => {
+      mockExchange();
+
+      await expect(
+        service.updateExchangeStatus('ex-1', 'stranger', {
+          status: 'CANCELLED',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('devrait seulement enregistrer la première confirmation de réalisation', async () => {
+      mockExchange({ status: 'ACCEPTED' });
+
+      await service.updateExchangeStatus('ex-1', 'requester-1', {
+        status: 'COMPLETED',
+      });
+
+      const { data } = mockPrismaService.exchange.updateMany.mock.calls[0][0];
+      expect(data.status).toBeUndefined();
+      expect(data.requesterConfirmedAt).toBeInstanceOf(Date);
+      expect(mockPrismaService.item.updateMany).not.toHaveBeenCalled();
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).toHaveBeenCalledWith('ex-1', 'COMPLETION_CONFIRMED', 'responder-1');
+    });
+
+    it('devrait refuser une double confirmation du même participant', async () => {
+      mockExchange({ status: 'ACCEPTED', requesterConfirmedAt: new Date() });
+
+      await expectConflictCode(
+        service.updateExchangeStatus('ex-1', 'requester-1', {
+          status: 'COMPLETED',
+        }),
+        'EXCHANGE_ALREADY_CONFIRMED',
+      );
+    });
+
+    it('devrait compléter et marquer les items TRADED à la seconde confirmation', async () => {
+      mockExchange({ status: 'ACCEPTED', responderConfirmedAt: new Date() });
+      mockPrismaService.item.updateMany.mockResolvedValue({ count: 3 });
+
+      await service.updateExchangeStatus('ex-1', 'requester-1', {
+        status: 'COMPLETED',
+      });
+
+      const { data } = mockPrismaService.exchange.updateMany.mock.calls[0][0];
+      expect(data.status).toBe('COMPLETED');
+      expect(data.completedAt).toBeInstanceOf(Date);
+      expect(mockPrismaService.item.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: bundleItemIds } },
+        data: { status: ItemStatus.TRADED },
+      });
+    });
+
+    it("devrait renvoyer un 409 si l'échange a changé entre-temps", async () => {
+      mockExchange();
+      mockPrismaService.exchange.updateMany.mockResolvedValue({ count: 0 });
+
+      await expectConflictCode(
+        service.updateExchangeStatus('ex-1', 'responder-1', {
+          status: 'DECLINED',
+        }),
+        'EXCHANGE_STALE_STATUS',
+      );
+    });
+
+    it("devrait libérer les items à l'annulation d'un échange accepté", async () => {
+      mockExchange({ status: 'ACCEPTED' });
+      mockPrismaService.item.updateMany.mockResolvedValue({ count: 3 });
+
+      await service.updateExchangeStatus('ex-1', 'requester-1', {
+        status: 'CANCELLED',
+      });
+
+      expect(mockPrismaService.item.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: bundleItemIds },
+          status: ItemStatus.PENDING,
+        },
+        data: { status: ItemStatus.AVAILABLE },
+      });
+    });
+
+    it('devrait prévenir les utilisateurs qui suivent les items libérés', async () => {
+      mockExchange({ status: 'ACCEPTED' });
+      const releasedOffered = { ...offeredItem, status: ItemStatus.AVAILABLE };
+      const releasedRequested = {
+        ...requestedItem,
+        status: ItemStatus.AVAILABLE,
+      };
+      mockPrismaService.exchange.findUnique
+        .mockResolvedValueOnce({ ...baseExchange, status: 'ACCEPTED' })
+        .mockResolvedValueOnce({
+          ...baseExchange,
+          status: 'CANCELLED',
+          items: [
+            { itemId: offeredItem.id, item: releasedOffered },
+            { itemId: requestedItem.id, item: releasedRequested },
+            { itemId: null, item: null },
+          ],
+        });
+      mockPrismaService.item.updateMany.mockResolvedValue({ count: 2 });
+
+      await service.updateExchangeStatus('ex-1', 'requester-1', {
+        status: 'CANCELLED',
+      });
+
+      expect(mockFavoritesService.notifyWatchers).toHaveBeenCalledTimes(2);
+      expect(mockFavoritesService.notifyWatchers).toHaveBeenCalledWith(
+        releasedOffered,
+        ItemStatus.AVAILABLE,
+      );
+      expect(mockFavoritesService.notifyWatchers).toHaveBeenCalledWith(
+        releasedRequested,
+        ItemStatus.AVAILABLE,
+      );
+
+      // Items de nouveau disponibles: alertes des recherches sauvegardées
+      expect(mockSavedSearchesService.notifyMatches).toHaveBeenCalledTimes(2);
+      expect(mockSavedSearchesService.notifyMatches).toHaveBeenCalledWith(
+        releasedOffered,
+      );
+      expect(mockSavedSearchesService.notifyMatches).toHaveBeenCalledWith(
+        releasedRequested,
+      );
+    });
+
+    it("ne devrait pas toucher aux items lors du refus d'une proposition", async () => {
+      mockExchange();
+
+      await service.updateExchangeStatus('ex-1', 'responder-1', {
+        status: 'DECLINED',
+      });
+
+      expect(mockPrismaService.item.updateMany).not.toHaveBeenCalled();
+      expect(mockFavoritesService.notifyWatchers).not.toHaveBeenCalled();
+      expect(mockSavedSearchesService.notifyMatches).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('counterPropose', () => {
+    const pendingExchange = {
+      id: 'ex-1',
+      requesterId: 'requester-1',
+      responderId: 'responder-1',
+      proposedById: 'requester-1',
+      currentVersion: 1,
+      status: 'PENDING',
+    };
+
+    const counterInput = {
+      offeredItemIds: [offeredItem.id, secondOfferedItem.id],
+      requestedItemIds: [requestedItem.id],
+      note: '  Je préfère les deux objets ',
+    };
+
+    beforeEach(() => {
+      mockPrismaService.exchange.updateMany.mockResolvedValue({ count: 1 });
+      mockItemsLookup(offeredItem, secondOfferedItem, requestedItem);
+    });
+
+    it('devrait enregistrer le lot comme nouvelle révision et prévenir le demandeur', async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(pendingExchange);
+
+      await service.counterPropose('ex-1', 'responder-1', counterInput);
+
+      expect(mockPrismaService.exchange.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'ex-1',
+          status: 'PENDING',
+          currentVersion: 1,
+        },
+        data: {
+          proposedById: 'responder-1',
+          currentVersion: 2,
+          offeredItemTitle: 'Vélo vintage, Livre de cuisine',
+          requestedItemTitle: 'Lampe de bureau',
+        },
+      });
+      expect(mockPrismaService.exchangeItem.deleteMany).toHaveBeenCalledWith({
+        where: { exchangeId: 'ex-1' },
+      });
+      expect(
+        mockPrismaService.exchangeItem.createMany.mock.calls[0][0].data,
+      ).toHaveLength(3);
+      expect(mockPrismaService.exchangeRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          exchangeId: 'ex-1',
+          version: 2,
+          authorId: 'responder-1',
+          note: 'Je préfère les deux objets',
+        }),
+      });
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).toHaveBeenCalledWith('ex-1', 'COUNTER_PROPOSED', 'requester-1');
+    });
+
+    it('devrait laisser le demandeur répondre par une contre-proposition', async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue({
+        ...pendingExchange,
+        proposedById: 'responder-1',
+        currentVersion: 2,
+      });
+
+      await service.counterPropose('ex-1', 'requester-1', {
+        offeredItemIds: [offeredItem.id],
+        requestedItemIds: [requestedItem.id],
+      });
+
+      expect(mockPrismaService.exchangeRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          version: 3,
+          authorId: 'requester-1',
+          note: null,
+        }),
+      });
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).toHaveBeenCalledWith('ex-1', 'COUNTER_PROPOSED', 'responder-1');
+    });
+
+    it("devrait refuser une contre-proposition de l'auteur du lot en cours", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(pendingExchange);
+
+      await expect(
+        service.counterPropose('ex-1', 'requester-1', counterInput),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.exchange.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("devrait refuser une contre-proposition d'un non-participant", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(pendingExchange);
+
+      await expect(
+        service.counterPropose('ex-1', 'stranger', counterInput),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it("devrait refuser une contre-proposition sur un échange qui n'est plus en attente", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue({
+        ...pendingExchange,
+        status: 'ACCEPTED',
+      });
+
+      await expect(
+        service.counterPropose('ex-1', 'responder-1', counterInput),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it("devrait renvoyer un 409 si l'autre participant a agi entre-temps", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(pendingExchange);
+      mockPrismaService.exchange.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.counterPropose('ex-1', 'responder-1', counterInput),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.exchangeRevision.create).not.toHaveBeenCalled();
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser un objet proposé qui ne vient pas du demandeur', async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(pendingExchange);
+      mockItemsLookup(
+        offeredItem,
+        { ...secondOfferedItem, ownerId: 'responder-1' },
+        requestedItem,
+      );
+
+      await expect(
+        service.counterPropose('ex-1', 'responder-1', counterInput),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.exchange.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExchangeById', () => {
+    it('devrait joindre la réputation de chaque participant', async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue({
+        id: 'ex-1',
+        requesterId: 'requester-1',
+        responderId: 'responder-1',
+        requester: { id: 'requester-1' },
+        responder: { id: 'responder-1' },
+      });
+      mockRatingsService.getSummaries.mockResolvedValue(
+        new Map([
+          ['requester-1', { averageRating: 4.5, ratingsCount: 2 }],
+          ['responder-1', { averageRating: null, ratingsCount: 0 }],
+        ]),
+      );
+
+      const exchange = await service.getExchangeById('ex-1', 'requester-1');
+
+      expect(mockRatingsService.getSummaries).toHaveBeenCalledWith([
+        'requester-1',
+        'responder-1',
+      ]);
+      expect(exchange.requester).toEqual({
+        id: 'requester-1',
+        rating: { averageRating: 4.5, ratingsCount: 2 },
+      });
+      expect(exchange.responder.rating).toEqual({
+        averageRating: null,
+        ratingsCount: 0,
+      });
+    });
+  });
+
+  describe('createMessage', () => {
+    beforeEach(() => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue({
+        id: 'ex-1',
+        requesterId: 'requester-1',
+        responderId: 'responder-1',
+        items: [
+          { itemId: offeredItem.id, title: offeredItem.title },
+          { itemId: requestedItem.id, title: requestedItem.title },
+        ],
+      });
+      mockPrismaService.chatMessage.create.mockResolvedValue({
+        id: 'msg-1',
+        content: 'Bonjour',
+        sender: { id: 'responder-1', displayName: 'Bob' },
+      });
+    });
+
+    it("devrait notifier l'autre participant d'un nouveau message", async () => {
+      await service.createMessage('ex-1', 'responder-1', 'Bonjour');
+
+      expect(
+        mockNotificationsService.sendNewMessageNotification,
+      ).toHaveBeenCalledWith(
+        'ex-1',
+        'Vélo vintage, Lampe de bureau',
+        'requester-1',
+        'Bob',
+      );
+    });
+
+    it('devrait envoyer le message même si la notification échoue', async () => {
+      mockNotificationsService.sendNewMessageNotification.mockRejectedValueOnce(
+        new Error('SMTP indisponible'),
+      );
+
+      const message = await service.createMessage(
+        'ex-1',
+        'responder-1',
+        'Bonjour',
+      );
+
+      expect(message.id).toBe('msg-1');
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ItemStatus, Prisma } from '@prisma/client';
+import { FavoritesService } from '../../src/modules/favorites/favorites.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+import { NotificationsService } from '../../src/modules/notifications/notifications.service';
+import { EngagementService } from '../../src/modules/engagement/engagement.service';
+
+describe('FavoritesService', () => {
+  let service: FavoritesService;
+
+  const mockPrismaService: any = {
+    item: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    favorite: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockNotificationsService = {
+    sendWatchedItemNotification: jest.fn(),
+  };
+
+  const mockEngagementService = {
+    recordFavorite: jest.fn(),
+    retractFavorite: jest.fn(),
+  };
+
+  const item = {
+    id: 'item-1',
+    ownerId: 'owner-1',
+    favoriteCount: 3,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FavoritesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: EngagementService, useValue: mockEngagementService },
+      ],
+    }).compile();
+
+    service = module.get<FavoritesService>(FavoritesService);
+
+    mockPrismaService.item.findUnique.mockResolvedValue(item);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addFavorite', () => {
+    it('devrait suivre un objet, augmenter son compteur et enregistrer un engagement', async () => {
+      mockPrismaService.item.update.mockResolvedValue({ favoriteCount: 4 });
+
+      const result = await service.addFavorite('user-1', 'item-1');
+
+      expect(result).toEqual({
+        itemId: 'item-1',
+        isFavorite: true,
+        favoriteCount: 4,
+      });
+      expect(mockPrismaService.favorite.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', itemId: 'item-1' },
+      });
+      expect(mockPrismaService.item.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { favoriteCount: { increment: 1 } },
+        select: { favoriteCount: true },
+      });
+      expect(mockEngagementService.recordFavorite).toHaveBeenCalledWith(
+        'item-1',
+        'user-1',
+      );
+    });
+
+    it("devrait être sans effet si l'objet est déjà suivi", async () => {
+      mockPrismaService.favorite.create.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      const result = await service.addFavorite('user-1', 'item-1');
+
+      expect(result).toEqual({
+        itemId: 'item-1',
+        isFavorite: true,
+        favoriteCount: 3,
+      });
+      expect(mockPrismaService.item.update).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser de suivre ses propres objets', async () => {
+      await expect(service.addFavorite('owner-1', 'item-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.favorite.create).not.toHaveBeenCalled();
+    });
+
+    it("devrait lancer NotFoundException si l'objet n'existe pas", async () => {
+      mockPrismaService.item.findUnique.mockResolvedValue(null);
+
+      await expect(service.addFavorite('user-1', 'missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('removeFavorite', () => {
+    it('devrait ne plus suivre un objet et retirer son engagement', async () => {
+      mockPrismaService.favorite.deleteMany.mockResolvedValue({ count: 1 });
+      mockPrismaService.item.update.mockResolvedValue({ favoriteCount: 2 });
+
+      const result = await service.removeFavorite('user-1', 'item-1');
+
+      expect(result).toEqual({
+        itemId: 'item-1',
+        isFavorite: false,
+        favoriteCount: 2,
+      });
+      expect(mockPrismaService.item.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { favoriteCount: { decrement: 1 } },
+        }),
+      );
+      expect(mockEngagementService.retractFavorite).toHaveBeenCalledWith(
+        'item-1',
+        'user-1',
+      );
+    });
+
+    it("ne devrait pas modifier les compteurs si l'objet n'était pas suivi", async () => {
+      mockPrismaService.favorite.deleteMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.removeFavorite('user-1', 'item-1');
+
+      expect(result.favoriteCount).toBe(3);
+      expect(mockPrismaService.item.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listFavorites', () => {
+    it('devrait renvoyer les objets suivis avec leur date de suivi', async () => {
+      const favoritedAt = new Date('2025-10-21T10:00:00Z');
+      mockPrismaService.favorite.findMany.mockResolvedValue([
+        { createdAt: favoritedAt, item: { id: 'item-1', title: 'Vélo' } },
+      ]);
+      mockPrismaService.favorite.count.mockResolvedValue(1);
+
+      const result = await service.listFavorites('user-1', {
+        page: 1,
+        limit: 20,
+      });
+
+      expect(result).toEqual({
+        items: [{ id: 'item-1', title: 'Vélo', favoritedAt }],
+        total: 1,
+        page: 1,
+        limit: 20,
+        totalPages: 1,
+      });
+      expect(mockPrismaService.favorite.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1' },
+          orderBy: { createdAt: 'desc' },
+          skip: 0,
+          take: 20,
+        }),
+      );
+    });
+  });
+
+  describe('notifyWatchers', () => {
+    const watchedItem = { id: 'item-1', title: 'Vélo', ownerId: 'owner-1' };
+
+    it("devrait prévenir les utilisateurs qui suivent l'objet", async () => {
+      mockPrismaService.favorite.findMany.mockResolvedValue([
+        { userId: 'user-1' },
+        { userId: 'user-2' },
+      ]);
+
+      const notified = await service.notifyWatchers(
+        watchedItem,
+        ItemStatus.AVAILABLE,
+      );
+
+      expect(notified).toBe(2);
+      expect(mockPrismaService.favorite.findMany).toHaveBeenCalledWith({
+        where: { itemId: 'item-1', userId: { not: 'owner-1' } },
+        select: { userId: true },
+      });
+      expect(
+        mockNotificationsService.sendWatchedItemNotification,
+      ).toHaveBeenCalledWith('item-1', 'Vélo', ItemStatus.AVAILABLE, [
+        'user-1',
+        'user-2',
+      ]);
+    });
+
+    it("ne devrait rien envoyer si personne ne suit l'objet", async () => {
+      mockPrismaService.favorite.findMany.mockResolvedValue([]);
+
+      const notified = await service.notifyWatchers(
+        watchedItem,
+        ItemStatus.TRADED,
+      );
+
+      expect(notified).toBe(0);
+      expect(
+        mockNotificationsService.sendWatchedItemNotification,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("ne devrait pas faire échouer le changement de statut en cas d'erreur", async () => {
+      mockPrismaService.favorite.findMany.mockResolvedValue([
+        { userId: 'user-1' },
+      ]);
+      mockNotificationsService.sendWatchedItemNotification.mockRejectedValueOnce(
+        new Error('FCM indisponible'),
+      );
+
+      await expect(
+        service.notifyWatchers(watchedItem, ItemStatus.PENDING),
+      ).resolves.toBe(0);
+    });
+  });
+});
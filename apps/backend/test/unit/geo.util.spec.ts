@@ -0,0 +1,89 @@
+import { GeoUtil } from '../../src/common/utils/geo.util';
+
+describe('GeoUtil', () => {
+  const paris = { latitude: 48.8566, longitude: 2.3522 };
+  const lyon = { latitude: 45.764, longitude: 4.8357 };
+
+  describe('géocodage hors ligne', () => {
+    it('devrait trouver une ville malgré la casse, les accents et le pays', () => {
+      expect(GeoUtil.geocodeCity('saint-etienne')).toMatchObject({
+        name: 'Saint-Étienne',
+        country: 'FR',
+      });
+      expect(GeoUtil.geocodeCity('  SAINT ÉTIENNE, France ')).toMatchObject({
+        name: 'Saint-Étienne',
+      });
+      expect(GeoUtil.geocodeCity('Atlantis')).toBeNull();
+    });
+
+    it('devrait interpréter near comme des coordonnées ou une ville', () => {
+      expect(GeoUtil.parseNear('45.76, 4.84')).toEqual({
+        latitude: 45.76,
+        longitude: 4.84,
+      });
+      expect(GeoUtil.parseNear('Lyon')).toEqual(lyon);
+      expect(GeoUtil.parseNear('95,4')).toBeNull();
+      expect(GeoUtil.parseNear('Atlantis')).toBeNull();
+    });
+  });
+
+  describe('toStoredLocation', () => {
+    it('devrait arrondir les coordonnées et calculer un geohash grossier', () => {
+      expect(GeoUtil.toStoredLocation(paris)).toEqual({
+        latitude: 48.86,
+        longitude: 2.35,
+        geohash: 'u09tv',
+      });
+    });
+
+    it('devrait effacer la localisation pour null ou des coordonnées invalides', () => {
+      const cleared = { latitude: null, longitude: null, geohash: null };
+
+      expect(GeoUtil.toStoredLocation(null)).toEqual(cleared);
+      expect(GeoUtil.toStoredLocation({ latitude: 120, longitude: 0 })).toEqual(
+        cleared,
+      );
+    });
+  });
+
+  describe('resolveInput', () => {
+    it('devrait privilégier les coordonnées fournies', () => {
+      expect(
+        GeoUtil.resolveInput({
+          location: 'Paris',
+          latitude: 45.7712,
+          longitude: 4.8898,
+        }),
+      ).toMatchObject({ latitude: 45.77, longitude: 4.89 });
+    });
+
+    it('devrait géocoder la ville, ou effacer la position si elle est inconnue', () => {
+      expect(GeoUtil.resolveInput({ location: 'Lyon' })).toMatchObject({
+        latitude: 45.76,
+        longitude: 4.84,
+      });
+      expect(GeoUtil.resolveInput({ location: 'Trifouilly' })).toEqual({
+        latitude: null,
+        longitude: null,
+        geohash: null,
+      });
+      expect(GeoUtil.resolveInput({ bio: 'inchangé' } as any)).toBeUndefined();
+    });
+  });
+
+  describe('distances', () => {
+    it("devrait calculer la distance à vol d'oiseau entre deux villes", () => {
+      expect(GeoUtil.distanceKm(paris, lyon)).toBeCloseTo(391.5, 0);
+      expect(GeoUtil.distanceKm(lyon, lyon)).toBe(0);
+    });
+
+    it('devrait englober le cercle dans le rectangle de pré-filtrage', () => {
+      const box = GeoUtil.boundingBox(lyon, 50);
+
+      // Les points à 50 km plein nord et plein est sont dans le rectangle
+      expect(box.maxLatitude - lyon.latitude).toBeCloseTo(50 / 111.32, 5);
+      const east = { latitude: lyon.latitude, longitude: box.maxLongitude };
+      expect(GeoUtil.distanceKm(lyon, east)).toBeGreaterThanOrEqual(49.9);
+    });
+  });
+});
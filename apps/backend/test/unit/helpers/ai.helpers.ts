@@ -0,0 +1,87 @@
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../../src/common/prisma/prisma.service';
+import { AiService } from '../../../src/modules/ai/ai.service';
+import { AiUsageService } from '../../../src/modules/ai/ai-usage.service';
+import { LlmService } from '../../../src/modules/ai/llm.service';
+import { PromptTemplatesService } from '../../../src/modules/ai/prompt-templates.service';
+
+/**
+ * Tables Prisma utilisées par les services IA (LlmService, AiUsageService,
+ * PromptTemplatesService).
+ */
+export interface AiPrismaMock {
+  aiValidationFailure: { create: jest.Mock };
+  aiCall: { create: jest.Mock; aggregate: jest.Mock };
+  aiBudget: { findUnique: jest.Mock };
+  promptDeployment: { findUnique: jest.Mock };
+  promptTemplate: { findUnique: jest.Mock };
+}
+
+/**
+ * Prisma simulé: aucune dépense, aucun budget, aucun prompt déployé.
+ */
+export const createAiPrismaMock = (): AiPrismaMock => ({
+  aiValidationFailure: {
+    create: jest.fn(),
+  },
+  aiCall: {
+    create: jest.fn(),
+    aggregate: jest.fn().mockResolvedValue({ _sum: { costUsd: 0 } }),
+  },
+  aiBudget: {
+    findUnique: jest.fn().mockResolvedValue(null),
+  },
+  promptDeployment: {
+    findUnique: jest.fn().mockResolvedValue(null),
+  },
+  promptTemplate: {
+    findUnique: jest.fn(),
+  },
+});
+
+/**
+ * ConfigService minimal: lecture par chemin ("ai.gemini.apiKey") dans un objet.
+ * `others`: autres espaces de configuration (ex: { cloudinary: { cloudName } }).
+ */
+export const configFrom = (
+  ai: Record<string, unknown>,
+  others: Record<string, unknown> = {},
+): ConfigService =>
+  ({
+    get: jest.fn((path: string) =>
+      path
+        .split('.')
+        .reduce<unknown>(
+          (value, key) => (value as Record<string, unknown> | undefined)?.[key],
+          { ...others, ai },
+        ),
+    ),
+  }) as unknown as ConfigService;
+
+const asPrismaService = (prisma: AiPrismaMock) =>
+  prisma as unknown as PrismaService;
+
+/**
+ * LlmService et son journal des appels, sans module Nest.
+ */
+export const createLlmService = (
+  config: ConfigService,
+  prisma: AiPrismaMock,
+): LlmService =>
+  new LlmService(
+    config,
+    asPrismaService(prisma),
+    new AiUsageService(asPrismaService(prisma), config),
+  );
+
+/**
+ * AiService complet (LlmService + registre des prompts), sans module Nest.
+ */
+export const createAiService = (
+  config: ConfigService,
+  prisma: AiPrismaMock,
+): AiService =>
+  new AiService(
+    createLlmService(config, prisma),
+    new PromptTemplatesService(asPrismaService(prisma), config),
+  );
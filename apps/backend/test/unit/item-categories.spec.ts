@@ -0,0 +1,52 @@
+import { ItemCategory } from '@prisma/client';
+import {
+  ITEM_CATEGORY_REGISTRY,
+  describeCategoriesForPrompt,
+  isItemCategory,
+  listCategoryOptions,
+} from '../../src/common/utils/item-categories';
+
+describe('Registre des catégories', () => {
+  it("devrait couvrir exactement les valeurs de l'enum ItemCategory", () => {
+    const values = ITEM_CATEGORY_REGISTRY.map((category) => category.value);
+
+    expect([...values].sort()).toEqual(Object.values(ItemCategory).sort());
+    expect(new Set(values).size).toBe(values.length);
+  });
+
+  it('devrait valider les catégories du registre uniquement', () => {
+    expect(isItemCategory('HOME')).toBe(true);
+    expect(isItemCategory('HANDCRAFT')).toBe(true);
+    expect(isItemCategory('FURNITURE')).toBe(false);
+    expect(isItemCategory(undefined)).toBe(false);
+  });
+
+  it('devrait traduire les labels et replier sur le français', () => {
+    const english = listCategoryOptions('en-US');
+    const fallback = listCategoryOptions('de');
+
+    expect(english.find((c) => c.value === ItemCategory.HOME)).toEqual({
+      value: ItemCategory.HOME,
+      label: 'Home',
+      icon: 'home',
+      subcategories: [
+        { value: 'FURNITURE', label: 'Furniture' },
+        { value: 'DECORATION', label: 'Decoration' },
+        { value: 'KITCHEN', label: 'Kitchen' },
+      ],
+    });
+    expect(fallback[0].label).toBe('Vêtements');
+    expect(fallback[fallback.length - 1]).toMatchObject({
+      value: ItemCategory.OTHER,
+      subcategories: [],
+    });
+  });
+
+  it('devrait lister toutes les catégories pour les prompts IA', () => {
+    const prompt = describeCategoriesForPrompt();
+
+    expect(prompt.split('\n')).toHaveLength(ITEM_CATEGORY_REGISTRY.length);
+    expect(prompt).toContain('- HOME (Maison: Mobilier, Décoration, Cuisine)');
+    expect(prompt).toContain('- OTHER (Autre)');
+  });
+});
@@ -6,13 +6,16 @@ import {
 } from '@nestjs/common';
 import { ItemsService } from '../../src/modules/items/items.service';
 import { PrismaService } from '../../src/common/prisma/prisma.service';
-import { GeminiService } from '../../src/modules/ai/gemini.service';
+import { AiService } from '../../src/modules/ai/ai.service';
+import { PromptTemplatesService } from '../../src/modules/ai/prompt-templates.service';
+import { SavedSearchesService } from '../../src/modules/saved-searches/saved-searches.service';
+import { FavoritesService } from '../../src/modules/favorites/favorites.service';
 import { ItemCategory, ItemCondition, ItemStatus } from '@prisma/client';
 
 describe('ItemsService', () => {
   let service: ItemsService;
   let prismaService: PrismaService;
-  let geminiService: GeminiService;
+  let aiService: AiService;
 
   const mockUser = {
     id: 'user-1',
@@ -45,6 +48,7 @@ describe('ItemsService', () => {
       update: jest.fn(),
       delete: jest.fn(),
       count: jest.fn(),
+      groupBy: jest.fn(),
     },
     itemPhoto: {
       count: jest.fn(),
@@ -52,10 +56,28 @@ describe('ItemsService', () => {
       delete: jest.fn(),
       deleteMany: jest.fn(),
     },
+    // Recherche plein texte: [set_config, requête classée]
+    $executeRaw: jest.fn(),
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn((queries) => Promise.all(queries)),
   };
 
-  const mockGeminiService = {
+  const mockAiService = {
     analyzeItem: jest.fn(),
+    analyzeItemPhotos: jest.fn(),
+  };
+
+  const mockPromptTemplatesService = {
+    tagOutcome: jest.fn(),
+    updateOutcome: jest.fn(),
+  };
+
+  const mockSavedSearchesService = {
+    notifyMatches: jest.fn(),
+  };
+
+  const mockFavoritesService = {
+    notifyWatchers: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -67,15 +89,31 @@ describe('ItemsService', () => {
           useValue: mockPrismaService,
         },
         {
-          provide: GeminiService,
-          useValue: mockGeminiService,
+          provide: AiService,
+          useValue: mockAiService,
+        },
+        {
+          provide: SavedSearchesService,
+          useValue: mockSavedSearchesService,
+        },
+        {
+          provide: FavoritesService,
+          useValue: mockFavoritesService,
+        },
+        {
+          provide: PromptTemplatesService,
+          useValue: mockPromptTemplatesService,
         },
       ],
     }).compile();
 
     service = module.get<ItemsService>(ItemsService);
     prismaService = module.get<PrismaService>(PrismaService);
-    geminiService = module.get<GeminiService>(GeminiService);
+    aiService = module.get<AiService>(AiService);
+  });
+
+  beforeEach(() => {
+    mockPrismaService.item.groupBy.mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -106,6 +144,9 @@ describe('ItemsService', () => {
         },
         include: expect.any(Object),
       });
+      expect(mockSavedSearchesService.notifyMatches).toHaveBeenCalledWith(
+        mockItem,
+      );
     });
 
     it('devrait créer un item avec analyse IA', async () => {
@@ -121,18 +162,29 @@ describe('ItemsService', () => {
         tags: ['smartphone', 'apple'],
         aiSummary: 'Résumé IA',
         aiRepairTip: 'Conseil réparation',
+        promptVersion: 2,
       };
 
-      mockGeminiService.analyzeItem.mockResolvedValue(aiAnalysis);
+      mockAiService.analyzeItem.mockResolvedValue(aiAnalysis);
       mockPrismaService.item.create.mockResolvedValue(mockItem);
 
       const result = await service.createItem('user-1', createItemDto);
 
-      expect(mockGeminiService.analyzeItem).toHaveBeenCalledWith({
-        title: 'Test Item',
-        description: 'Test description',
-      });
+      expect(mockAiService.analyzeItem).toHaveBeenCalledWith(
+        {
+          title: 'Test Item',
+          description: 'Test description',
+        },
+        { type: 'User', id: 'user-1' },
+      );
       expect(result).toEqual(mockItem);
+      expect(mockPromptTemplatesService.tagOutcome).toHaveBeenCalledWith({
+        feature: 'itemAnalysis',
+        promptVersion: 2,
+        entity: { type: 'Item', id: mockItem.id },
+        metric: 'categoryKept',
+        value: true,
+      });
     });
 
     it("devrait utiliser la catégorie OTHER par défaut si l'IA échoue", async () => {
@@ -143,7 +195,7 @@ describe('ItemsService', () => {
         aiAuto: true,
       };
 
-      mockGeminiService.analyzeItem.mockResolvedValue(null);
+      mockAiService.analyzeItem.mockResolvedValue(null);
       mockPrismaService.item.create.mockResolvedValue({
         ...mockItem,
         category: ItemCategory.OTHER,
@@ -153,6 +205,41 @@ describe('ItemsService', () => {
 
       expect(result.category).toBe(ItemCategory.OTHER);
     });
+
+    it("devrait accepter une catégorie choisie par l'IA absente de l'ancienne liste", async () => {
+      mockAiService.analyzeItem.mockResolvedValue({
+        category: ItemCategory.HANDCRAFT,
+        tags: ['fait-main'],
+        aiSummary: 'Résumé IA',
+        aiRepairTip: 'Aucune réparation nécessaire',
+      });
+      mockPrismaService.item.create.mockResolvedValue(mockItem);
+
+      await service.createItem('user-1', {
+        title: 'Panier tressé',
+        description: 'Panier en osier fait main',
+        condition: ItemCondition.GOOD,
+        aiAuto: true,
+      });
+
+      expect(mockPrismaService.item.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ category: ItemCategory.HANDCRAFT }),
+        }),
+      );
+    });
+
+    it('devrait refuser une catégorie hors du registre', async () => {
+      await expect(
+        service.createItem('user-1', {
+          title: 'Commode',
+          description: 'Commode en chêne',
+          category: 'FURNITURE' as ItemCategory,
+          condition: ItemCondition.GOOD,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.item.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('listItems', () => {
@@ -172,6 +259,7 @@ describe('ItemsService', () => {
         page: 1,
         limit: 10,
         totalPages: 1,
+        facets: { category: {}, condition: {}, status: {} },
       });
     });
 
@@ -197,29 +285,255 @@ describe('ItemsService', () => {
       });
     });
 
-    it('devrait rechercher par mot-clé', async () => {
-      const query = { q: 'iPhone' };
-      const mockItems = [mockItem];
-      const mockTotal = 1;
+    describe('recherche plein texte', () => {
+      beforeEach(() => {
+        mockPrismaService.$queryRaw.mockResolvedValue([
+          { id: 'item-2', rank: 0.4 },
+          { id: 'item-1', rank: 0.9 },
+          { id: 'item-3', rank: 0.1 },
+        ]);
+      });
 
-      mockPrismaService.item.findMany.mockResolvedValue(mockItems);
-      mockPrismaService.item.count.mockResolvedValue(mockTotal);
+      it('devrait filtrer sur les items trouvés par la recherche PostgreSQL', async () => {
+        mockPrismaService.item.findMany.mockResolvedValue([mockItem]);
+        mockPrismaService.item.count.mockResolvedValue(1);
+
+        await service.listItems({ q: 'velo', sort: '-createdAt' });
+
+        // Seuil de similarité appliqué dans la même transaction que la recherche
+        expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+        const [setThreshold] = mockPrismaService.$executeRaw.mock.calls[0];
+        expect(setThreshold.join('')).toContain(
+          'pg_trgm.word_similarity_threshold',
+        );
+        const [sql, ...values] = mockPrismaService.$queryRaw.mock.calls[0];
+        expect(sql.join('?')).toContain('websearch_to_tsquery');
+        expect(values).toContain('velo');
+
+        expect(mockPrismaService.item.findMany).toHaveBeenCalledWith({
+          where: {
+            id: { in: ['item-2', 'item-1', 'item-3'] },
+            status: ItemStatus.AVAILABLE,
+          },
+          orderBy: { createdAt: 'desc' },
+          skip: 0,
+          take: 20,
+          include: expect.any(Object),
+        });
+      });
 
-      await service.listItems(query);
+      it('devrait trier par pertinence par défaut et ne charger que la page demandée', async () => {
+        mockPrismaService.item.findMany
+          .mockResolvedValueOnce([
+            { id: 'item-3' },
+            { id: 'item-1' },
+            { id: 'item-2' },
+          ])
+          .mockResolvedValueOnce([
+            { ...mockItem, id: 'item-2' },
+            { ...mockItem, id: 'item-1' },
+          ]);
+
+        const result = await service.listItems({ q: 'velo', limit: 2 });
+
+        expect(mockPrismaService.item.findMany).toHaveBeenLastCalledWith({
+          where: { id: { in: ['item-1', 'item-2'] } },
+          include: expect.any(Object),
+        });
+        expect(result.items.map((item) => item.id)).toEqual([
+          'item-1',
+          'item-2',
+        ]);
+        expect(result.total).toBe(3);
+        expect(result.totalPages).toBe(2);
+      });
 
-      expect(mockPrismaService.item.findMany).toHaveBeenCalledWith({
-        where: {
-          status: ItemStatus.AVAILABLE,
-          OR: [
-            { title: { contains: 'iPhone', mode: 'insensitive' } },
-            { description: { contains: 'iPhone', mode: 'insensitive' } },
-            { tags: { has: 'iPhone' } },
-          ],
-        },
-        orderBy: { createdAt: 'desc' },
-        skip: 0,
-        take: 20,
-        include: expect.any(Object),
+      it('devrait classer les résultats par statut et filtrer le propriétaire en base', async () => {
+        mockPrismaService.item.findMany.mockResolvedValue([]);
+
+        await service.listItems({ q: 'velo', ownerId: 'user-1' });
+
+        // La limite par statut ne coupe pas les items disponibles
+        const [sql, ...values] = mockPrismaService.$queryRaw.mock.calls[0];
+        expect(sql.join('?')).toContain('PARTITION BY matched."status"');
+        expect(sql.join('?')).not.toContain('LIMIT');
+        expect(JSON.stringify(values)).toContain('"ownerId\\" = ');
+        expect(JSON.stringify(values)).toContain('"user-1"');
+      });
+
+      it('ne devrait rien renvoyer si aucun item ne correspond', async () => {
+        mockPrismaService.$queryRaw.mockResolvedValue([]);
+        mockPrismaService.item.findMany.mockResolvedValue([]);
+
+        const result = await service.listItems({ q: 'introuvable' });
+
+        expect(mockPrismaService.item.findMany).toHaveBeenCalledWith({
+          where: { id: { in: [] }, status: ItemStatus.AVAILABLE },
+          select: { id: true },
+        });
+        expect(result.total).toBe(0);
+      });
+    });
+
+    it('devrait compter les facettes sans appliquer leur propre filtre', async () => {
+      mockPrismaService.item.findMany.mockResolvedValue([]);
+      mockPrismaService.item.count.mockResolvedValue(0);
+      mockPrismaService.item.groupBy.mockImplementation(({ by }) =>
+        Promise.resolve(
+          by[0] === 'category'
+            ? [
+                { category: ItemCategory.BOOKS, _count: { _all: 4 } },
+                { category: ItemCategory.TOYS, _count: { _all: 2 } },
+              ]
+            : by[0] === 'status'
+              ? [{ status: ItemStatus.AVAILABLE, _count: { _all: 3 } }]
+              : [],
+        ),
+      );
+
+      const result = await service.listItems({
+        category: ItemCategory.BOOKS,
+        condition: ItemCondition.GOOD,
+        ownerId: 'user-1',
+      });
+
+      expect(result.facets).toEqual({
+        category: { BOOKS: 4, TOYS: 2 },
+        condition: {},
+        status: { AVAILABLE: 3 },
+      });
+      const whereFor = (field: string) =>
+        mockPrismaService.item.groupBy.mock.calls.find(
+          ([args]) => args.by[0] === field,
+        )[0].where;
+      expect(whereFor('category')).toEqual({
+        ownerId: 'user-1',
+        status: ItemStatus.AVAILABLE,
+        condition: ItemCondition.GOOD,
+      });
+      expect(whereFor('status')).toEqual({
+        ownerId: 'user-1',
+        category: ItemCategory.BOOKS,
+        condition: ItemCondition.GOOD,
+      });
+    });
+
+    describe('recherche par distance', () => {
+      // Lyon (45.76, 4.84): Villeurbanne ~4 km, Vienne ~26 km (distances calculées en base)
+      beforeEach(() => {
+        mockPrismaService.$queryRaw.mockResolvedValue([
+          { id: 'vienne', distance: 26.4 },
+          { id: 'villeurbanne', distance: 4.2 },
+        ]);
+      });
+
+      it('devrait filtrer au rayon et trier par distance', async () => {
+        mockPrismaService.item.findMany
+          .mockResolvedValueOnce([{ id: 'vienne' }, { id: 'villeurbanne' }])
+          .mockResolvedValueOnce([
+            { ...mockItem, id: 'vienne' },
+            { ...mockItem, id: 'villeurbanne' },
+          ]);
+
+        const result = await service.listItems({
+          near: 'Lyon',
+          radiusKm: 50,
+          sort: 'distance',
+        });
+
+        expect(result.items.map((item) => item.id)).toEqual([
+          'villeurbanne',
+          'vienne',
+        ]);
+        expect(result.items.map((item) => item.distanceKm)).toEqual([4, 26]);
+        expect(result.total).toBe(2);
+        expect(mockPrismaService.item.findMany).toHaveBeenCalledWith({
+          where: {
+            id: { in: ['vienne', 'villeurbanne'] },
+            status: ItemStatus.AVAILABLE,
+          },
+          select: { id: true },
+        });
+        expect(mockPrismaService.item.count).not.toHaveBeenCalled();
+      });
+
+      it('devrait calculer la distance exacte en base avant de filtrer', async () => {
+        mockPrismaService.item.findMany.mockResolvedValue([
+          { ...mockItem, id: 'villeurbanne' },
+        ]);
+        mockPrismaService.item.count.mockResolvedValue(2);
+
+        const result = await service.listItems({
+          near: '45.76,4.84',
+          radiusKm: 30,
+          ownerId: 'user-1',
+        });
+
+        // Position de l'item, sinon du propriétaire; limite par statut
+        const [sql, ...values] = mockPrismaService.$queryRaw.mock.calls[0];
+        const text = sql.join('?');
+        expect(text).toContain('"user_profiles"');
+        expect(text).toContain('asin');
+        expect(text).toContain('PARTITION BY located."status"');
+        expect(values).toEqual(expect.arrayContaining([45.76, 4.84, 30]));
+        expect(JSON.stringify(values)).toContain('"ownerId\\" = ');
+        expect(JSON.stringify(values)).toContain('"user-1"');
+
+        // Tri par date: pas de chargement de tous les IDs, distance ajoutée
+        expect(mockPrismaService.item.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: {
+              id: { in: ['vienne', 'villeurbanne'] },
+              ownerId: 'user-1',
+              status: ItemStatus.AVAILABLE,
+            },
+            orderBy: { createdAt: 'desc' },
+          }),
+        );
+        expect(result.items[0].distanceKm).toBe(4);
+      });
+
+      it('devrait calculer les facettes sur les items du rayon', async () => {
+        mockPrismaService.item.findMany.mockResolvedValue([]);
+        mockPrismaService.item.count.mockResolvedValue(0);
+
+        await service.listItems({ near: 'Lyon', radiusKm: 50 });
+
+        // Mêmes items que le total: rayon exact, pas le rectangle englobant
+        for (const [args] of mockPrismaService.item.groupBy.mock.calls) {
+          expect(args.where.id).toEqual({ in: ['vienne', 'villeurbanne'] });
+        }
+        expect(mockPrismaService.item.groupBy).toHaveBeenCalledTimes(3);
+      });
+
+      it('devrait combiner recherche plein texte et distance', async () => {
+        mockPrismaService.$queryRaw
+          .mockResolvedValueOnce([
+            { id: 'villeurbanne', rank: 0.2 },
+            { id: 'grenoble', rank: 0.9 },
+          ])
+          .mockResolvedValueOnce([{ id: 'villeurbanne', distance: 4.2 }]);
+        mockPrismaService.item.findMany.mockResolvedValue([]);
+
+        await service.listItems({ q: 'velo', near: 'Lyon' });
+
+        expect(mockPrismaService.item.findMany).toHaveBeenCalledWith({
+          where: { id: { in: ['villeurbanne'] }, status: ItemStatus.AVAILABLE },
+          select: { id: true },
+        });
+      });
+
+      it('devrait refuser une localisation inconnue', async () => {
+        await expect(service.listItems({ near: 'Atlantis' })).rejects.toThrow(
+          BadRequestException,
+        );
+        expect(mockPrismaService.item.findMany).not.toHaveBeenCalled();
+      });
+
+      it('devrait refuser le tri par distance sans near', async () => {
+        await expect(service.listItems({ sort: 'distance' })).rejects.toThrow(
+          BadRequestException,
+        );
       });
     });
   });
@@ -267,6 +581,31 @@ describe('ItemsService', () => {
         data: updateItemDto,
         include: expect.any(Object),
       });
+      expect(mockPromptTemplatesService.updateOutcome).not.toHaveBeenCalled();
+    });
+
+    it("devrait enregistrer que la catégorie proposée par l'IA a été remplacée", async () => {
+      const existingItem = {
+        ...mockItem,
+        ownerId: 'user-1',
+        category: ItemCategory.ELECTRONICS,
+      };
+
+      mockPrismaService.item.findUnique.mockResolvedValue(existingItem);
+      mockPrismaService.item.update.mockResolvedValue({
+        ...existingItem,
+        category: ItemCategory.TOOLS,
+      });
+
+      await service.updateItem('item-1', 'user-1', {
+        category: ItemCategory.TOOLS,
+      });
+
+      expect(mockPromptTemplatesService.updateOutcome).toHaveBeenCalledWith(
+        { type: 'Item', id: 'item-1' },
+        'categoryKept',
+        false,
+      );
     });
 
     it("devrait lever une erreur si l'utilisateur n'est pas le propriétaire", async () => {
@@ -291,6 +630,73 @@ describe('ItemsService', () => {
     });
   });
 
+  describe('analyzeItemPhotos', () => {
+    const photoUrl = 'https://res.cloudinary.com/demo/image/upload/item-1.webp';
+
+    const analysis = {
+      category: { value: ItemCategory.ELECTRONICS, confidence: 0.9 },
+      condition: { value: ItemCondition.FAIR, confidence: 0.7 },
+      tags: { value: ['casque', 'audio'], confidence: 0.8 },
+      title: { value: 'Casque audio Sony WH-1000XM3', confidence: 0.6 },
+      damageNotes: null,
+      promptVersion: 1,
+    };
+
+    it("devrait retourner les suggestions sans modifier l'item", async () => {
+      mockPrismaService.item.findUnique.mockResolvedValue({
+        ...mockItem,
+        photos: [{ url: photoUrl }],
+      });
+      mockAiService.analyzeItemPhotos.mockResolvedValue(analysis);
+
+      const result = await service.analyzeItemPhotos('item-1', 'user-1');
+
+      expect(result).toEqual(analysis);
+      expect(mockAiService.analyzeItemPhotos).toHaveBeenCalledWith(
+        {
+          title: mockItem.title,
+          description: mockItem.description,
+          photoUrls: [photoUrl],
+        },
+        { type: 'Item', id: 'item-1' },
+      );
+      expect(mockPrismaService.item.update).not.toHaveBeenCalled();
+    });
+
+    it("devrait lever une erreur si l'item n'a pas de photo", async () => {
+      mockPrismaService.item.findUnique.mockResolvedValue(mockItem);
+
+      await expect(
+        service.analyzeItemPhotos('item-1', 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockAiService.analyzeItemPhotos).not.toHaveBeenCalled();
+    });
+
+    it("devrait lever une erreur si l'utilisateur n'est pas le propriétaire", async () => {
+      mockPrismaService.item.findUnique.mockResolvedValue({
+        ...mockItem,
+        ownerId: 'user-2',
+        photos: [{ url: photoUrl }],
+      });
+
+      await expect(
+        service.analyzeItemPhotos('item-1', 'user-1'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it("devrait lever une erreur si l'analyse IA échoue", async () => {
+      mockPrismaService.item.findUnique.mockResolvedValue({
+        ...mockItem,
+        photos: [{ url: photoUrl }],
+      });
+      mockAiService.analyzeItemPhotos.mockResolvedValue(null);
+
+      await expect(
+        service.analyzeItemPhotos('item-1', 'user-1'),
+      ).rejects.toThrow('Analyse des photos indisponible');
+    });
+  });
+
   describe('deleteItem', () => {
     it('devrait supprimer un item', async () => {
       const existingItem = { ...mockItem, ownerId: 'user-1' };
@@ -333,7 +739,50 @@ describe('ItemsService', () => {
         page: 1,
         limit: 10,
         totalPages: 1,
+        facets: { category: {}, condition: {}, status: {} },
+      });
+    });
+  });
+
+  describe('updateItemStatus', () => {
+    it('devrait alerter les recherches sauvegardées quand un item redevient disponible', async () => {
+      const reopenedItem = { ...mockItem, status: ItemStatus.AVAILABLE };
+      mockPrismaService.item.findUnique.mockResolvedValue({
+        ...mockItem,
+        status: ItemStatus.ARCHIVED,
       });
+      mockPrismaService.item.update.mockResolvedValue(reopenedItem);
+
+      await service.updateItemStatus('item-1', 'user-1', ItemStatus.AVAILABLE);
+
+      expect(mockSavedSearchesService.notifyMatches).toHaveBeenCalledWith(
+        reopenedItem,
+      );
+      expect(mockFavoritesService.notifyWatchers).toHaveBeenCalledWith(
+        reopenedItem,
+        ItemStatus.AVAILABLE,
+      );
+    });
+
+    it("ne devrait pas alerter si l'item n'est pas remis en disponibilité", async () => {
+      mockPrismaService.item.findUnique.mockResolvedValue(mockItem);
+      mockPrismaService.item.update.mockResolvedValue({
+        ...mockItem,
+        status: ItemStatus.ARCHIVED,
+      });
+
+      await service.updateItemStatus('item-1', 'user-1', ItemStatus.ARCHIVED);
+
+      expect(mockSavedSearchesService.notifyMatches).not.toHaveBeenCalled();
+    });
+
+    it("ne devrait pas prévenir les utilisateurs qui suivent l'item si le statut ne change pas", async () => {
+      mockPrismaService.item.findUnique.mockResolvedValue(mockItem);
+      mockPrismaService.item.update.mockResolvedValue(mockItem);
+
+      await service.updateItemStatus('item-1', 'user-1', mockItem.status);
+
+      expect(mockFavoritesService.notifyWatchers).not.toHaveBeenCalled();
     });
   });
 
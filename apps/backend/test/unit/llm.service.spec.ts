@@ -0,0 +1,503 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import {
+  LlmBudgetExceededError,
+  LlmService,
+  LlmValidationError,
+} from '../../src/modules/ai/llm.service';
+import { LlmProviderError } from '../../src/modules/ai/providers/llm-provider';
+import { HashUtil } from '../../src/common/utils/hash.util';
+import {
+  configFrom,
+  createAiPrismaMock,
+  createLlmService,
+} from './helpers/ai.helpers';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+const mockPrismaService = createAiPrismaMock();
+
+const createService = (ai: Record<string, unknown>) =>
+  createLlmService(configFrom(ai), mockPrismaService);
+
+const baseConfig = {
+  timeoutMs: 1000,
+  maxRetries: 1,
+  gemini: {
+    apiKey: 'gemini-key',
+    model: 'gemini-2.5-flash',
+    baseUrl: 'https://gemini.test/v1beta',
+  },
+  openai: {
+    baseUrl: 'http://localhost:11434/v1/',
+    apiKey: undefined,
+    model: 'llama3.1',
+  },
+  features: {
+    itemAnalysis: { temperature: 0.3, maxOutputTokens: 500 },
+    theme: { model: 'theme-model', temperature: 0.9, maxOutputTokens: 800 },
+  },
+};
+
+const geminiReply = (text: string) => ({
+  ok: true,
+  json: () =>
+    Promise.resolve({ candidates: [{ content: { parts: [{ text }] } }] }),
+});
+
+const openAiReply = (content: string) => ({
+  ok: true,
+  json: () =>
+    Promise.resolve({
+      model: 'llama3.1:8b',
+      choices: [{ message: { content } }],
+    }),
+});
+
+describe('LlmService', () => {
+  beforeEach(() => {
+    mockPrismaService.aiCall.aggregate.mockResolvedValue({
+      _sum: { costUsd: 0 },
+    });
+    mockPrismaService.aiBudget.findUnique.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  describe('fournisseur gemini', () => {
+    it('devrait appliquer les réglages de la fonctionnalité', async () => {
+      const llm = createService({ ...baseConfig, provider: 'gemini' });
+      (global.fetch as jest.Mock).mockResolvedValue(geminiReply('{"a":1}'));
+
+      const completion = await llm.complete('theme', 'Prompt');
+
+      expect(completion).toEqual({ text: '{"a":1}', model: 'theme-model' });
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe(
+        'https://gemini.test/v1beta/models/theme-model:generateContent?key=gemini-key',
+      );
+      expect(JSON.parse(init.body).generationConfig).toEqual(
+        expect.objectContaining({ temperature: 0.9, maxOutputTokens: 800 }),
+      );
+    });
+
+    it('devrait être désactivé sans clé API', () => {
+      const llm = createService({
+        ...baseConfig,
+        provider: 'gemini',
+        gemini: { ...baseConfig.gemini, apiKey: undefined },
+      });
+
+      expect(llm.isEnabled()).toBe(false);
+    });
+
+    it('devrait utiliser Gemini pour un fournisseur inconnu', () => {
+      const llm = createService({ ...baseConfig, provider: 'inconnu' });
+
+      expect(llm.providerName).toBe('gemini');
+      expect(llm.getModel('itemAnalysis')).toBe('gemini-2.5-flash');
+    });
+  });
+
+  describe('fournisseur openai', () => {
+    it('devrait appeler /chat/completions sans clé pour un serveur local', async () => {
+      const llm = createService({ ...baseConfig, provider: 'openai' });
+      (global.fetch as jest.Mock).mockResolvedValue(openAiReply('Bonjour'));
+
+      const completion = await llm.complete('itemAnalysis', 'Prompt');
+
+      expect(completion).toEqual({ text: 'Bonjour', model: 'llama3.1:8b' });
+      const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init.headers.Authorization).toBeUndefined();
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'llama3.1',
+        messages: [{ role: 'user', content: 'Prompt' }],
+        temperature: 0.3,
+        max_tokens: 500,
+      });
+    });
+
+    it('devrait envoyer la clé API si elle est configurée', async () => {
+      const llm = createService({
+        ...baseConfig,
+        provider: 'openai',
+        openai: { ...baseConfig.openai, apiKey: 'sk-test' },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(openAiReply('Bonjour'));
+
+      await llm.complete('itemAnalysis', 'Prompt');
+
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(init.headers.Authorization).toBe('Bearer sk-test');
+    });
+
+    it("devrait lever une LlmProviderError en cas d'erreur HTTP", async () => {
+      const llm = createService({ ...baseConfig, provider: 'openai' });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 503,
+        text: () => Promise.resolve('Service Unavailable'),
+      });
+
+      await expect(llm.complete('itemAnalysis', 'Prompt')).rejects.toEqual(
+        expect.objectContaining({ name: 'LlmProviderError', status: 503 }),
+      );
+    });
+  });
+
+  describe('fournisseur fixture', () => {
+    let fixturesDir: string;
+
+    beforeEach(async () => {
+      fixturesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-fixtures-'));
+      await fs.mkdir(path.join(fixturesDir, 'theme'));
+      await fs.writeFile(
+        path.join(fixturesDir, 'theme', 'default.txt'),
+        '{"title":"Défaut"}',
+      );
+      await fs.writeFile(
+        path.join(
+          fixturesDir,
+          'theme',
+          `${HashUtil.promptHash('Prompt connu')}.txt`,
+        ),
+        '```json\n{"title":"Connu"}\n```',
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(fixturesDir, { recursive: true, force: true });
+    });
+
+    const fixtureService = () =>
+      createService({ ...baseConfig, provider: 'fixture', fixturesDir });
+
+    it('devrait rejouer la fixture du prompt sans appel réseau', async () => {
+      const completion = await fixtureService().completeStructured(
+        'theme',
+        'Prompt connu',
+        z.object({ title: z.string() }),
+      );
+
+      expect(completion.data).toEqual({ title: 'Connu' });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('devrait utiliser la fixture par défaut de la fonctionnalité', async () => {
+      const completion = await fixtureService().completeStructured(
+        'theme',
+        'Autre prompt',
+        z.object({ title: z.string() }),
+      );
+
+      expect(completion.data).toEqual({ title: 'Défaut' });
+    });
+
+    it('devrait échouer si aucune fixture ne correspond', async () => {
+      await expect(
+        fixtureService().complete('itemAnalysis', 'Prompt'),
+      ).rejects.toBeInstanceOf(LlmProviderError);
+    });
+  });
+
+  describe('retry', () => {
+    it("devrait réessayer jusqu'à ai.maxRetries tentatives", async () => {
+      const llm = createService({
+        ...baseConfig,
+        provider: 'gemini',
+        maxRetries: 2,
+      });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 500,
+          text: () => Promise.resolve('Internal Server Error'),
+        })
+        .mockResolvedValueOnce(geminiReply('OK'));
+
+      const completion = await llm.complete('itemAnalysis', 'Prompt');
+
+      expect(completion.text).toBe('OK');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('journal des appels et budget', () => {
+    const pricedConfig = {
+      ...baseConfig,
+      provider: 'gemini',
+      pricing: { 'theme-model': { input: 1, output: 10 } },
+    };
+
+    it('devrait enregistrer chaque appel avec ses tokens et son coût', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            candidates: [{ content: { parts: [{ text: 'OK' }] } }],
+            usageMetadata: {
+              promptTokenCount: 1000,
+              candidatesTokenCount: 200,
+            },
+          }),
+      });
+
+      const completion = await createService(pricedConfig).complete(
+        'theme',
+        'Prompt',
+        { type: 'WeeklyTheme', id: 'theme-1' },
+      );
+
+      expect(completion.usage).toEqual({
+        inputTokens: 1000,
+        outputTokens: 200,
+      });
+      expect(mockPrismaService.aiCall.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          feature: 'theme',
+          provider: 'gemini',
+          model: 'theme-model',
+          promptHash: HashUtil.promptHash('Prompt'),
+          inputTokens: 1000,
+          outputTokens: 200,
+          costUsd: 0.003,
+          outcome: 'SUCCESS',
+          entityType: 'WeeklyTheme',
+          entityId: 'theme-1',
+        }),
+      });
+    });
+
+    it('devrait enregistrer les tentatives en erreur', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 500,
+          text: () => Promise.resolve('Internal Server Error'),
+        })
+        .mockResolvedValueOnce(geminiReply('OK'));
+
+      await createService({ ...pricedConfig, maxRetries: 2 }).complete(
+        'theme',
+        'Prompt',
+      );
+
+      const outcomes = mockPrismaService.aiCall.create.mock.calls.map(
+        ([{ data }]) => data.outcome,
+      );
+      expect(outcomes).toEqual(['ERROR', 'SUCCESS']);
+      expect(mockPrismaService.aiCall.create.mock.calls[0][0].data.error).toBe(
+        'API Gemini error: 500 - Internal Server Error',
+      );
+    });
+
+    it('devrait refuser les appels si le budget journalier est atteint', async () => {
+      mockPrismaService.aiBudget.findUnique.mockResolvedValue({
+        dailyLimitUsd: 1,
+        monthlyLimitUsd: null,
+      });
+      mockPrismaService.aiCall.aggregate.mockResolvedValue({
+        _sum: { costUsd: 1.2 },
+      });
+
+      const llm = createService(pricedConfig);
+
+      await expect(llm.complete('theme', 'Prompt')).rejects.toEqual(
+        expect.objectContaining({
+          name: 'LlmBudgetExceededError',
+          period: 'daily',
+        }),
+      );
+      await expect(llm.isBudgetExceeded()).resolves.toBe(true);
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(mockPrismaService.aiCall.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          outcome: 'BUDGET_EXCEEDED',
+          latencyMs: 0,
+        }),
+      });
+    });
+
+    it('devrait autoriser les appels si le budget ne peut pas être lu', async () => {
+      mockPrismaService.aiBudget.findUnique.mockRejectedValue(
+        new Error('DB down'),
+      );
+      (global.fetch as jest.Mock).mockResolvedValue(geminiReply('OK'));
+
+      const completion = await createService(pricedConfig).complete(
+        'theme',
+        'Prompt',
+      );
+
+      expect(completion.text).toBe('OK');
+    });
+
+    it('devrait refuser la demande de correction si le budget est atteint entre-temps', async () => {
+      mockPrismaService.aiBudget.findUnique.mockResolvedValue({
+        dailyLimitUsd: 0.002,
+        monthlyLimitUsd: null,
+      });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            candidates: [{ content: { parts: [{ text: 'pas du JSON' }] } }],
+            usageMetadata: {
+              promptTokenCount: 1000,
+              candidatesTokenCount: 200,
+            },
+          }),
+      });
+
+      await expect(
+        createService(pricedConfig).completeStructured(
+          'theme',
+          'Prompt',
+          z.object({ title: z.string() }),
+        ),
+      ).rejects.toBeInstanceOf(LlmBudgetExceededError);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.aiValidationFailure.create).toHaveBeenCalledWith(
+        {
+          data: expect.objectContaining({ outcome: 'FALLBACK' }),
+        },
+      );
+    });
+  });
+
+  describe('completeStructured', () => {
+    const schema = z.object({
+      title: z.string().max(10),
+      tags: z.array(z.string()).min(1),
+    });
+
+    const geminiService = () =>
+      createService({ ...baseConfig, provider: 'gemini' });
+
+    it('devrait retourner les données validées sans demande de correction', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        geminiReply('```json\n{"title":"Court","tags":["a"]}\n```'),
+      );
+
+      const completion = await geminiService().completeStructured(
+        'theme',
+        'Prompt',
+        schema,
+      );
+
+      expect(completion.data).toEqual({ title: 'Court', tags: ['a'] });
+      expect(completion.repaired).toBe(false);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(
+        mockPrismaService.aiValidationFailure.create,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('devrait redemander une fois avec les erreurs de validation', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(
+          geminiReply('{"title":"Titre beaucoup trop long","tags":[]}'),
+        )
+        .mockResolvedValueOnce(geminiReply('{"title":"Court","tags":["a"]}'));
+
+      const completion = await geminiService().completeStructured(
+        'theme',
+        'Prompt',
+        schema,
+      );
+
+      expect(completion.data).toEqual({ title: 'Court', tags: ['a'] });
+      expect(completion.repaired).toBe(true);
+
+      const repairPrompt = JSON.parse(
+        (global.fetch as jest.Mock).mock.calls[1][1].body,
+      ).contents[0].parts[0].text;
+      expect(repairPrompt).toContain('Prompt');
+      expect(repairPrompt).toContain('Titre beaucoup trop long');
+      expect(repairPrompt).toContain('- title:');
+      expect(repairPrompt).toContain('- tags:');
+
+      expect(mockPrismaService.aiValidationFailure.create).toHaveBeenCalledWith(
+        {
+          data: expect.objectContaining({
+            feature: 'theme',
+            promptHash: HashUtil.promptHash('Prompt'),
+            model: 'theme-model',
+            outcome: 'REPAIRED',
+            errors: {
+              initial: expect.arrayContaining([
+                expect.stringMatching(/^title:/),
+              ]),
+            },
+          }),
+        },
+      );
+    });
+
+    it('devrait traiter une réponse non JSON comme invalide', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(geminiReply('Voici le thème: Court'))
+        .mockResolvedValueOnce(geminiReply('{"title":"Court","tags":["a"]}'));
+
+      const completion = await geminiService().completeStructured(
+        'theme',
+        'Prompt',
+        schema,
+      );
+
+      expect(completion.repaired).toBe(true);
+      expect(
+        mockPrismaService.aiValidationFailure.create.mock.calls[0][0].data
+          .errors.initial[0],
+      ).toMatch(/^JSON invalide/);
+    });
+
+    it('devrait abandonner si la réponse corrigée reste invalide', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(
+        geminiReply('{"title":"Titre beaucoup trop long","tags":["a"]}'),
+      );
+
+      await expect(
+        geminiService().completeStructured('theme', 'Prompt', schema),
+      ).rejects.toBeInstanceOf(LlmValidationError);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.aiValidationFailure.create).toHaveBeenCalledWith(
+        {
+          data: expect.objectContaining({
+            outcome: 'FALLBACK',
+            errors: {
+              initial: [expect.stringMatching(/^title:/)],
+              repair: [expect.stringMatching(/^title:/)],
+            },
+          }),
+        },
+      );
+    });
+
+    it("ne devrait pas échouer si l'enregistrement de la métrique échoue", async () => {
+      mockPrismaService.aiValidationFailure.create.mockRejectedValueOnce(
+        new Error('DB down'),
+      );
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(geminiReply('{"title":"Court","tags":[]}'))
+        .mockResolvedValueOnce(geminiReply('{"title":"Court","tags":["a"]}'));
+
+      const completion = await geminiService().completeStructured(
+        'theme',
+        'Prompt',
+        schema,
+      );
+
+      expect(completion.data.tags).toEqual(['a']);
+    });
+  });
+});
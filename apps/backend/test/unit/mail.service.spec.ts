@@ -0,0 +1,172 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from '../../src/modules/mail/mail.service';
+
+/**
+ * Décode une partie base64 d'un message MIME écrit par FileMailTransport.
+ */
+function decodePart(eml: string, contentType: string): string {
+  const part = eml.split(`Content-Type: ${contentType}; charset=utf-8`)[1];
+  const body = part.split('\r\n\r\n')[1].split('\r\n--')[0];
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+describe('MailService', () => {
+  let service: MailService;
+  let mailDir: string;
+
+  const buildService = (overrides: Record<string, unknown> = {}) => {
+    const config: Record<string, unknown> = {
+      'mail.transport': 'file',
+      'mail.fileDir': mailDir,
+      'mail.from': 'SecondLife Exchange <no-reply@secondlife.test>',
+      'mail.appUrl': 'https://app.secondlife.test',
+      'mail.apiUrl': 'https://api.secondlife.test/api/v1',
+      'mail.unsubscribeSecret': 'test-secret',
+      ...overrides,
+    };
+    return new MailService({
+      get: jest.fn((key: string) => config[key]),
+    } as unknown as ConfigService);
+  };
+
+  const readSingleMail = async (): Promise<string> => {
+    const files = await fs.readdir(mailDir);
+    expect(files).toHaveLength(1);
+    return fs.readFile(path.join(mailDir, files[0]), 'utf8');
+  };
+
+  beforeEach(async () => {
+    mailDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sle-mails-'));
+    service = buildService();
+  });
+
+  afterEach(async () => {
+    await fs.rm(mailDir, { recursive: true, force: true });
+  });
+
+  describe('liens de désinscription', () => {
+    it('devrait vérifier un token signé par le service', () => {
+      const token = service.createUnsubscribeToken('user-1', 'NEW_MESSAGE');
+
+      expect(service.verifyUnsubscribeToken(token)).toEqual({
+        userId: 'user-1',
+        scope: 'NEW_MESSAGE',
+      });
+    });
+
+    it('devrait refuser un token modifié ou signé avec un autre secret', () => {
+      const token = service.createUnsubscribeToken('user-1', 'NEW_MESSAGE');
+      const [, signature] = token.split('.');
+      const forgedPayload = Buffer.from(
+        JSON.stringify({ u: 'user-2', s: 'NEW_MESSAGE' }),
+      ).toString('base64url');
+      const otherService = buildService({
+        'mail.unsubscribeSecret': 'other-secret',
+      });
+
+      expect(
+        service.verifyUnsubscribeToken(`${forgedPayload}.${signature}`),
+      ).toBeNull();
+      expect(otherService.verifyUnsubscribeToken(token)).toBeNull();
+      expect(service.verifyUnsubscribeToken('not-a-token')).toBeNull();
+    });
+  });
+
+  describe('sendTemplate', () => {
+    it('devrait écrire un email multipart avec les en-têtes de désinscription en un clic', async () => {
+      await service.sendTemplate({
+        userId: 'user-1',
+        to: 'jane@example.com',
+        recipientName: 'Jane',
+        template: 'exchange_status',
+        params: { status: 'ACCEPTED', link: '/exchange/abc' },
+        unsubscribeScope: 'EXCHANGE_STATUS',
+      });
+
+      const eml = await readSingleMail();
+      const token = service.createUnsubscribeToken('user-1', 'EXCHANGE_STATUS');
+
+      expect(eml).toContain('To: jane@example.com');
+      expect(eml).toContain('Content-Type: multipart/alternative');
+      expect(eml).toContain(
+        `List-Unsubscribe: <https://api.secondlife.test/api/v1/notifications/unsubscribe?token=${token}>`,
+      );
+      expect(eml).toContain(
+        'List-Unsubscribe-Post: List-Unsubscribe=One-Click',
+      );
+
+      // Sujet non ASCII encodé (RFC 2047), contenu en français par défaut
+      expect(eml).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from('Du nouveau sur votre échange').toString('base64')}?=`,
+      );
+      const text = decodePart(eml, 'text/plain');
+      expect(text).toContain('Bonjour Jane,');
+      expect(text).toContain('Votre échange a été accepté.');
+      expect(text).toContain('https://app.secondlife.test/exchange/abc');
+      expect(text).toContain(
+        `https://app.secondlife.test/unsubscribe?token=${token}`,
+      );
+    });
+
+    it("devrait utiliser la langue de l'utilisateur et échapper le HTML", async () => {
+      await service.sendTemplate({
+        userId: 'user-1',
+        to: 'john@example.com',
+        recipientName: 'John',
+        locale: 'en-GB',
+        template: 'new_message',
+        params: {
+          senderName: '<script>alert(1)</script>',
+          threadTitle: 'Vélo & casque',
+          link: '/thread/t1',
+        },
+        unsubscribeScope: 'NEW_MESSAGE',
+      });
+
+      const eml = await readSingleMail();
+      const html = decodePart(eml, 'text/html');
+
+      expect(html).toContain('<html lang="en">');
+      expect(html).toContain('Hello John,');
+      expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+      expect(html).toContain('Vélo &amp; casque');
+      expect(html).not.toContain('<script>');
+    });
+
+    it('devrait lister les notifications non lues dans un résumé', async () => {
+      await service.sendTemplate({
+        userId: 'user-1',
+        to: 'jane@example.com',
+        recipientName: 'Jane',
+        locale: 'fr',
+        template: 'digest',
+        params: {
+          frequency: 'WEEKLY',
+          unreadCount: 2,
+          items: [
+            {
+              title: 'SecondLife Exchange',
+              body: 'Votre échange a été accepté',
+              link: '/exchange/abc',
+            },
+            { title: 'Nouveau thème', body: 'Jardinage', link: null },
+          ],
+        },
+        unsubscribeScope: 'DIGEST',
+      });
+
+      const text = decodePart(await readSingleMail(), 'text/plain');
+
+      expect(text).toContain('2 notification(s) non lue(s)');
+      expect(text).toContain(
+        '- SecondLife Exchange: Votre échange a été accepté',
+      );
+      expect(text).toContain('  https://app.secondlife.test/exchange/abc');
+      expect(text).toContain('- Nouveau thème: Jardinage');
+      expect(text).toContain('https://app.secondlife.test/notifications');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MatchingService } from '../../src/modules/matching/matching.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+import { RatingsService } from '../../src/modules/ratings/ratings.service';
+import { ItemsService } from '../../src/modules/items/items.service';
+
+describe('MatchingService', () => {
+  let service: MatchingService;
+
+  const mockPrismaService = {
+    preference: {
+      findUnique: jest.fn(),
+    },
+    userProfile: {
+      findUnique: jest.fn(),
+    },
+    item: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    exchange: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockRatingsService = {
+    getSummaries: jest.fn(),
+  };
+
+  const mockItemsService = {
+    findNearbyItems: jest.fn(),
+  };
+
+  const paris = { latitude: 48.8566, longitude: 2.3522 };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MatchingService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RatingsService, useValue: mockRatingsService },
+        { provide: ItemsService, useValue: mockItemsService },
+      ],
+    }).compile();
+
+    service = module.get<MatchingService>(MatchingService);
+
+    mockPrismaService.userProfile.findUnique.mockResolvedValue(paris);
+    mockPrismaService.item.findMany.mockResolvedValue([]);
+    mockPrismaService.exchange.findMany.mockResolvedValue([]);
+    mockRatingsService.getSummaries.mockResolvedValue(new Map());
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getRecommendations', () => {
+    const candidatesQuery = () =>
+      mockPrismaService.item.findMany.mock.calls[1][0];
+
+    it('devrait filtrer les candidats par distance exacte avant la limite', async () => {
+      mockPrismaService.preference.findUnique.mockResolvedValue({
+        radiusKm: 10,
+        dislikedCategories: [],
+        preferredConditions: [],
+        preferredCategories: [],
+      });
+      mockItemsService.findNearbyItems.mockResolvedValue(
+        new Map([
+          ['item-1', 2.5],
+          ['item-2', 9.8],
+        ]),
+      );
+
+      await service.getRecommendations('user-1', { limit: 5 });
+
+      expect(mockItemsService.findNearbyItems).toHaveBeenCalledWith(paris, 10);
+      expect(candidatesQuery()).toEqual(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            id: { in: ['item-1', 'item-2'] },
+          }),
+          orderBy: { popularityScore: 'desc' },
+          take: 15,
+        }),
+      );
+    });
+
+    it("devrait ignorer le rayon si l'utilisateur n'a pas de position", async () => {
+      mockPrismaService.userProfile.findUnique.mockResolvedValue(null);
+      mockPrismaService.preference.findUnique.mockResolvedValue({
+        radiusKm: 10,
+        dislikedCategories: [],
+        preferredConditions: [],
+        preferredCategories: [],
+      });
+
+      await service.getRecommendations('user-1', { limit: 5 });
+
+      expect(mockItemsService.findNearbyItems).not.toHaveBeenCalled();
+      expect(candidatesQuery().where.id).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,351 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { NotificationType } from '@prisma/client';
+import { NotificationPreferencesService } from '../../src/modules/notifications/notification-preferences.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+import { MailService } from '../../src/modules/mail/mail.service';
+
+describe('NotificationPreferencesService', () => {
+  let service: NotificationPreferencesService;
+
+  const mockPrismaService = {
+    notificationPreference: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const mockMailService = {
+    verifyUnsubscribeToken: jest.fn(),
+  };
+
+  const buildPreference = (overrides: Record<string, unknown> = {}) => ({
+    userId: 'user-1',
+    mutedPush: [],
+    mutedInApp: [],
+    mutedEmail: [],
+    digestFrequency: 'WEEKLY',
+    lastDigestAt: null,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timezone: 'Europe/Paris',
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationPreferencesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: MailService, useValue: mockMailService },
+      ],
+    }).compile();
+
+    service = module.get<NotificationPreferencesService>(
+      NotificationPreferencesService,
+    );
+
+    mockPrismaService.notificationPreference.findUnique.mockResolvedValue(null);
+    mockPrismaService.notificationPreference.findMany.mockResolvedValue([]);
+    mockPrismaService.notificationPreference.upsert.mockImplementation(
+      ({ create }) => Promise.resolve(buildPreference(create)),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getPreferences', () => {
+    it('devrait retourner les valeurs par défaut sans préférences enregistrées', async () => {
+      await expect(service.getPreferences('user-1')).resolves.toEqual({
+        mutedPush: [],
+        mutedInApp: [],
+        mutedEmail: ['WEEKLY_THEME'],
+        digestFrequency: 'WEEKLY',
+        quietHoursStart: null,
+        quietHoursEnd: null,
+        timezone: 'Europe/Paris',
+      });
+    });
+  });
+
+  describe('updatePreferences', () => {
+    it('devrait enregistrer les types désactivés et les heures calmes', async () => {
+      const result = await service.updatePreferences('user-1', {
+        mutedPush: [
+          NotificationType.WEEKLY_THEME,
+          NotificationType.WEEKLY_THEME,
+        ],
+        quietHoursStart: '22:00',
+        quietHoursEnd: '07:00',
+        timezone: 'America/New_York',
+      });
+
+      expect(result).toEqual({
+        mutedPush: ['WEEKLY_THEME'],
+        mutedInApp: [],
+        mutedEmail: ['WEEKLY_THEME'],
+        digestFrequency: 'WEEKLY',
+        quietHoursStart: '22:00',
+        quietHoursEnd: '07:00',
+        timezone: 'America/New_York',
+      });
+    });
+
+    it('devrait conserver les champs non fournis', async () => {
+      mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+        buildPreference({
+          mutedInApp: [NotificationType.RECOMMENDATIONS],
+          digestFrequency: 'DAILY',
+          quietHoursStart: '23:00',
+          quietHoursEnd: '06:30',
+        }),
+      );
+
+      await service.updatePreferences('user-1', {
+        mutedPush: [NotificationType.NEW_MESSAGE],
+      });
+
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: {
+            mutedPush: ['NEW_MESSAGE'],
+            mutedInApp: ['RECOMMENDATIONS'],
+            mutedEmail: [],
+            digestFrequency: 'DAILY',
+            quietHoursStart: '23:00',
+            quietHoursEnd: '06:30',
+            timezone: 'Europe/Paris',
+          },
+        }),
+      );
+    });
+
+    it('devrait refuser des heures calmes incomplètes ou vides', async () => {
+      await expect(
+        service.updatePreferences('user-1', { quietHoursStart: '22:00' }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.updatePreferences('user-1', {
+          quietHoursStart: '22:00',
+          quietHoursEnd: '22:00',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser un fuseau horaire inconnu', async () => {
+      await expect(
+        service.updatePreferences('user-1', { timezone: 'Mars/Olympus' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('resolveChannels', () => {
+    it('devrait tout autoriser sans préférences enregistrées', async () => {
+      const channels = await service.resolveChannels(
+        ['user-1'],
+        NotificationType.EXCHANGE_STATUS,
+      );
+
+      expect(channels.get('user-1')).toEqual({
+        push: true,
+        inApp: true,
+        email: true,
+      });
+    });
+
+    it("devrait refuser l'email du thème de la semaine sans préférences enregistrées", async () => {
+      const channels = await service.resolveChannels(
+        ['user-1'],
+        NotificationType.WEEKLY_THEME,
+      );
+
+      expect(channels.get('user-1')).toEqual({
+        push: true,
+        inApp: true,
+        email: false,
+      });
+    });
+
+    it('devrait appliquer les types désactivés par canal', async () => {
+      mockPrismaService.notificationPreference.findMany.mockResolvedValue([
+        buildPreference({
+          mutedPush: [NotificationType.NEW_MESSAGE],
+          mutedInApp: [NotificationType.WEEKLY_THEME],
+          mutedEmail: [NotificationType.NEW_MESSAGE],
+        }),
+      ]);
+
+      const message = await service.resolveChannels(
+        ['user-1'],
+        NotificationType.NEW_MESSAGE,
+      );
+      const theme = await service.resolveChannels(
+        ['user-1'],
+        NotificationType.WEEKLY_THEME,
+      );
+
+      expect(message.get('user-1')).toEqual({
+        push: false,
+        inApp: true,
+        email: false,
+      });
+      expect(theme.get('user-1')).toEqual({
+        push: true,
+        inApp: false,
+        email: true,
+      });
+    });
+
+    it("devrait suspendre le push pendant les heures calmes dans le fuseau de l'utilisateur", async () => {
+      mockPrismaService.notificationPreference.findMany.mockResolvedValue([
+        buildPreference({
+          quietHoursStart: '22:00',
+          quietHoursEnd: '07:00',
+          timezone: 'Asia/Tokyo', // UTC+9, sans heure d'été
+        }),
+      ]);
+
+      // 14:30 UTC = 23:30 à Tokyo → heures calmes
+      const night = await service.resolveChannels(
+        ['user-1'],
+        NotificationType.EXCHANGE_STATUS,
+        new Date('2025-10-21T14:30:00Z'),
+      );
+      // 22:00 UTC = 07:00 à Tokyo → fin des heures calmes (exclue)
+      const morning = await service.resolveChannels(
+        ['user-1'],
+        NotificationType.EXCHANGE_STATUS,
+        new Date('2025-10-21T22:00:00Z'),
+      );
+
+      // L'email n'est pas concerné par les heures calmes
+      expect(night.get('user-1')).toEqual({
+        push: false,
+        inApp: true,
+        email: true,
+      });
+      expect(morning.get('user-1')).toEqual({
+        push: true,
+        inApp: true,
+        email: true,
+      });
+    });
+
+    it('devrait gérer une plage dans la même journée', async () => {
+      mockPrismaService.notificationPreference.findMany.mockResolvedValue([
+        buildPreference({
+          quietHoursStart: '12:00',
+          quietHoursEnd: '14:00',
+          timezone: 'UTC',
+        }),
+      ]);
+
+      const lunch = await service.resolveChannels(
+        ['user-1'],
+        NotificationType.NEW_MESSAGE,
+        new Date('2025-10-21T13:15:00Z'),
+      );
+      const evening = await service.resolveChannels(
+        ['user-1'],
+        NotificationType.NEW_MESSAGE,
+        new Date('2025-10-21T20:00:00Z'),
+      );
+
+      expect(lunch.get('user-1')?.push).toBe(false);
+      expect(evening.get('user-1')?.push).toBe(true);
+    });
+  });
+
+  describe('unsubscribe', () => {
+    beforeEach(() => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'user-1' });
+    });
+
+    it("devrait désactiver l'email pour le type du lien", async () => {
+      mockMailService.verifyUnsubscribeToken.mockReturnValue({
+        userId: 'user-1',
+        scope: 'EXCHANGE_STATUS',
+      });
+      mockPrismaService.notificationPreference.findUnique.mockResolvedValue(
+        buildPreference({ mutedEmail: [NotificationType.WEEKLY_THEME] }),
+      );
+
+      const result = await service.unsubscribe('signed-token');
+
+      expect(mockMailService.verifyUnsubscribeToken).toHaveBeenCalledWith(
+        'signed-token',
+      );
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1' },
+          update: expect.objectContaining({
+            mutedEmail: ['WEEKLY_THEME', 'EXCHANGE_STATUS'],
+          }),
+        }),
+      );
+      expect(result.scope).toBe('EXCHANGE_STATUS');
+    });
+
+    it('devrait désactiver les résumés pour le scope DIGEST', async () => {
+      mockMailService.verifyUnsubscribeToken.mockReturnValue({
+        userId: 'user-1',
+        scope: 'DIGEST',
+      });
+
+      await service.unsubscribe('signed-token');
+
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ digestFrequency: 'NEVER' }),
+        }),
+      );
+    });
+
+    it('devrait refuser un lien invalide ou au scope inconnu', async () => {
+      mockMailService.verifyUnsubscribeToken.mockReturnValueOnce(null);
+      await expect(service.unsubscribe('forged')).rejects.toThrow(
+        BadRequestException,
+      );
+
+      mockMailService.verifyUnsubscribeToken.mockReturnValueOnce({
+        userId: 'user-1',
+        scope: 'EVERYTHING',
+      });
+      await expect(service.unsubscribe('unknown-scope')).rejects.toThrow(
+        BadRequestException,
+      );
+
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("devrait refuser le lien d'un utilisateur supprimé", async () => {
+      mockMailService.verifyUnsubscribeToken.mockReturnValue({
+        userId: 'deleted-user',
+        scope: 'DIGEST',
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.unsubscribe('signed-token')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
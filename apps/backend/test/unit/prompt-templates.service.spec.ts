@@ -0,0 +1,254 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PromptTemplatesService } from '../../src/modules/ai/prompt-templates.service';
+import {
+  findPromptTemplateErrors,
+  PROMPT_DEFINITIONS,
+} from '../../src/modules/ai/prompts/prompt-definitions';
+
+describe('PromptTemplatesService', () => {
+  let service: PromptTemplatesService;
+
+  const mockPrismaService = {
+    promptTemplate: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+    },
+    promptDeployment: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    promptOutcome: {
+      upsert: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: (key: string) =>
+      key === 'ai.promptEnvironment' ? 'production' : undefined,
+  };
+
+  const themeVariables = {
+    weekStart: '20 octobre 2025',
+    categories: '- BOOKS: Livres',
+  };
+
+  /**
+   * Déploiement du prompt theme en production
+   */
+  const deployment = (overrides: Record<string, unknown> = {}) => ({
+    id: 'deployment-1',
+    feature: 'theme',
+    environment: 'production',
+    version: 1,
+    candidateVersion: null,
+    candidateShare: 0,
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    service = new PromptTemplatesService(
+      mockPrismaService as any,
+      mockConfigService as unknown as ConfigService,
+    );
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('render', () => {
+    it('devrait utiliser le texte intégré sans déploiement', async () => {
+      mockPrismaService.promptDeployment.findUnique.mockResolvedValue(null);
+
+      const prompt = await service.render('theme', themeVariables);
+
+      expect(prompt.version).toBe(1);
+      expect(prompt.text).toContain('pour la semaine du 20 octobre 2025.');
+      expect(prompt.text).not.toContain('{{');
+      expect(
+        mockPrismaService.promptDeployment.findUnique,
+      ).toHaveBeenCalledWith({
+        where: {
+          feature_environment: {
+            feature: 'theme',
+            environment: 'production',
+          },
+        },
+      });
+    });
+
+    it('devrait utiliser la version active et garder le déploiement en cache', async () => {
+      mockPrismaService.promptDeployment.findUnique.mockResolvedValue(
+        deployment({ version: 3 }),
+      );
+      mockPrismaService.promptTemplate.findUnique.mockResolvedValue({
+        template: 'Thème du {{weekStart}} parmi {{categories}}',
+      });
+
+      await service.render('theme', themeVariables);
+      const prompt = await service.render('theme', themeVariables);
+
+      expect(prompt).toEqual({
+        text: 'Thème du 20 octobre 2025 parmi - BOOKS: Livres',
+        version: 3,
+      });
+      expect(
+        mockPrismaService.promptDeployment.findUnique,
+      ).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.promptTemplate.findUnique).toHaveBeenCalledTimes(
+        1,
+      );
+    });
+
+    it('devrait répartir les entités entre la version active et la candidate', async () => {
+      mockPrismaService.promptDeployment.findUnique.mockResolvedValue(
+        deployment({ version: 1, candidateVersion: 2, candidateShare: 50 }),
+      );
+      mockPrismaService.promptTemplate.findUnique.mockResolvedValue({
+        template: 'Candidate {{weekStart}} {{categories}}',
+      });
+
+      const versions = [];
+      for (let i = 0; i < 40; i++) {
+        const entity = { type: 'WeeklyTheme', id: `theme-${i}` };
+        const first = await service.render('theme', themeVariables, entity);
+        const second = await service.render('theme', themeVariables, entity);
+
+        expect(second.version).toBe(first.version);
+        versions.push(first.version);
+      }
+
+      expect(versions).toContain(1);
+      expect(versions).toContain(2);
+    });
+
+    it('devrait revenir au texte intégré si le registre ne peut pas être lu', async () => {
+      mockPrismaService.promptDeployment.findUnique.mockRejectedValue(
+        new Error('DB down'),
+      );
+
+      const prompt = await service.render('theme', themeVariables);
+
+      expect(prompt.version).toBe(1);
+      expect(prompt.text).toContain('20 octobre 2025');
+    });
+  });
+
+  describe('createVersion', () => {
+    it('devrait créer la version suivante', async () => {
+      mockPrismaService.promptTemplate.findFirst.mockResolvedValue({
+        version: 2,
+      });
+      mockPrismaService.promptTemplate.create.mockImplementation(
+        ({ data }) => data,
+      );
+
+      const version = await service.createVersion(
+        'theme',
+        { template: 'Semaine du {{ weekStart }}: {{categories}}' },
+        'admin-1',
+      );
+
+      expect(version).toEqual(
+        expect.objectContaining({
+          feature: 'theme',
+          version: 3,
+          createdById: 'admin-1',
+        }),
+      );
+    });
+
+    it('devrait refuser un texte avec une variable inconnue ou absente', async () => {
+      await expect(
+        service.createVersion('theme', {
+          template: 'Semaine du {{weekStart}} pour {{title}}',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.promptTemplate.create).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser une fonctionnalité inconnue', async () => {
+      await expect(
+        service.createVersion('translation', { template: 'Texte' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('updateDeployment', () => {
+    it('devrait déployer une candidate existante dans un environnement', async () => {
+      mockPrismaService.promptTemplate.count.mockResolvedValue(1);
+      mockPrismaService.promptDeployment.upsert.mockResolvedValue(deployment());
+
+      await service.updateDeployment('theme', {
+        environment: 'staging',
+        version: 1,
+        candidateVersion: 2,
+        candidateShare: 20,
+      });
+
+      expect(mockPrismaService.promptDeployment.upsert).toHaveBeenCalledWith({
+        where: {
+          feature_environment: { feature: 'theme', environment: 'staging' },
+        },
+        create: {
+          feature: 'theme',
+          environment: 'staging',
+          version: 1,
+          candidateVersion: 2,
+          candidateShare: 20,
+        },
+        update: { version: 1, candidateVersion: 2, candidateShare: 20 },
+      });
+    });
+
+    it("devrait refuser une version qui n'existe pas", async () => {
+      mockPrismaService.promptTemplate.count.mockResolvedValue(0);
+
+      await expect(
+        service.updateDeployment('theme', { version: 4 }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.promptDeployment.upsert).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser une candidate identique à la version active', async () => {
+      await expect(
+        service.updateDeployment('theme', { version: 2, candidateVersion: 2 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('tagOutcome', () => {
+    it("ne devrait pas échouer si l'enregistrement échoue", async () => {
+      mockPrismaService.promptOutcome.upsert.mockRejectedValue(
+        new Error('DB down'),
+      );
+
+      await expect(
+        service.tagOutcome({
+          feature: 'itemAnalysis',
+          promptVersion: 2,
+          entity: { type: 'Item', id: 'item-1' },
+          metric: 'categoryKept',
+          value: true,
+        }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('prompts intégrés', () => {
+    it('devrait utiliser exactement les variables déclarées', () => {
+      for (const [feature, definition] of Object.entries(PROMPT_DEFINITIONS)) {
+        expect(
+          findPromptTemplateErrors(feature as any, definition.template),
+        ).toEqual([]);
+      }
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ExchangeStatus, Prisma, RatingTag } from '@prisma/client';
+import {
+  RATING_WINDOW_DAYS,
+  RatingsService,
+} from '../../src/modules/ratings/ratings.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+import { NotificationsService } from '../../src/modules/notifications/notifications.service';
+
+describe('RatingsService', () => {
+  let service: RatingsService;
+
+  const mockPrismaService: any = {
+    exchange: {
+      findUnique: jest.fn(),
+    },
+    exchangeRating: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+  };
+
+  const mockNotificationsService = {
+    sendExchangeStatusNotification: jest.fn(),
+  };
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const completedExchange = (daysAgo: number) => ({
+    id: 'ex-1',
+    status: ExchangeStatus.COMPLETED,
+    completedAt: new Date(Date.now() - daysAgo * DAY_MS),
+    requesterId: 'requester-1',
+    responderId: 'responder-1',
+  });
+
+  const rating = (raterId: string, visibleAt: Date) => ({
+    id: `rating-${raterId}`,
+    score: 5,
+    comment: null,
+    tags: [RatingTag.ON_TIME],
+    createdAt: new Date(),
+    visibleAt,
+    rater: { id: raterId, displayName: raterId, avatarUrl: null },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RatingsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<RatingsService>(RatingsService);
+
+    mockPrismaService.exchangeRating.findMany.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('rateExchange', () => {
+    it("devrait masquer le premier avis jusqu'à la fin du délai et inviter l'autre participant", async () => {
+      const exchange = completedExchange(2);
+      mockPrismaService.exchange.findUnique.mockResolvedValue(exchange);
+      mockPrismaService.exchangeRating.count.mockResolvedValue(1);
+
+      await service.rateExchange('ex-1', 'requester-1', {
+        score: 4,
+        comment: '  Très bon échange ',
+        tags: [RatingTag.AS_DESCRIBED],
+      });
+
+      expect(mockPrismaService.exchangeRating.create).toHaveBeenCalledWith({
+        data: {
+          exchangeId: 'ex-1',
+          raterId: 'requester-1',
+          rateeId: 'responder-1',
+          score: 4,
+          comment: 'Très bon échange',
+          tags: [RatingTag.AS_DESCRIBED],
+          visibleAt: new Date(
+            exchange.completedAt.getTime() + RATING_WINDOW_DAYS * DAY_MS,
+          ),
+        },
+      });
+      expect(
+        mockPrismaService.exchangeRating.updateMany,
+      ).not.toHaveBeenCalled();
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).toHaveBeenCalledWith('ex-1', 'RATED', 'responder-1');
+    });
+
+    it('devrait publier les deux avis au dépôt du second', async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(
+        completedExchange(2),
+      );
+      mockPrismaService.exchangeRating.count.mockResolvedValue(2);
+
+      await service.rateExchange('ex-1', 'requester-1', { score: 5 });
+
+      const [{ data }] =
+        mockPrismaService.exchangeRating.updateMany.mock.calls[0];
+      expect(mockPrismaService.exchangeRating.updateMany).toHaveBeenCalledWith({
+        where: { exchangeId: 'ex-1' },
+        data: { visibleAt: expect.any(Date) },
+      });
+      expect(data.visibleAt.getTime()).toBeLessThanOrEqual(Date.now());
+      expect(
+        mockNotificationsService.sendExchangeStatusNotification,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("devrait verrouiller l'échange avant de compter les avis déposés", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(
+        completedExchange(2),
+      );
+      mockPrismaService.exchangeRating.count.mockResolvedValue(2);
+
+      await service.rateExchange('ex-1', 'responder-1', { score: 4 });
+
+      // Avis simultanés: le second attend le verrou et voit le premier
+      const [sql, exchangeId] = mockPrismaService.$queryRaw.mock.calls[0];
+      expect(sql.join('?')).toContain('FOR UPDATE');
+      expect(exchangeId).toBe('ex-1');
+      expect(
+        mockPrismaService.$queryRaw.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockPrismaService.exchangeRating.count.mock.invocationCallOrder[0],
+      );
+    });
+
+    it("devrait refuser un avis sur un échange qui n'est pas réalisé", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue({
+        ...completedExchange(0),
+        status: ExchangeStatus.ACCEPTED,
+        completedAt: null,
+      });
+
+      await expect(
+        service.rateExchange('ex-1', 'requester-1', { score: 5 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.exchangeRating.create).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser un avis après la fin du délai', async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(
+        completedExchange(RATING_WINDOW_DAYS + 1),
+      );
+
+      await expect(
+        service.rateExchange('ex-1', 'requester-1', { score: 5 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("devrait refuser un avis d'un non-participant", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(
+        completedExchange(2),
+      );
+
+      await expect(
+        service.rateExchange('ex-1', 'stranger-1', { score: 5 }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('devrait refuser un second avis du même participant', async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(
+        completedExchange(2),
+      );
+      mockPrismaService.exchangeRating.create.mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(
+        service.rateExchange('ex-1', 'requester-1', { score: 5 }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('getExchangeRatings', () => {
+    it("devrait masquer l'avis de l'autre participant tant qu'il n'est pas visible", async () => {
+      const exchange = completedExchange(2);
+      mockPrismaService.exchange.findUnique.mockResolvedValue(exchange);
+      mockPrismaService.exchangeRating.findMany.mockResolvedValue([
+        rating('responder-1', new Date(Date.now() + DAY_MS)),
+      ]);
+
+      const state = await service.getExchangeRatings('ex-1', 'requester-1');
+
+      expect(state).toEqual({
+        canRate: true,
+        deadline: new Date(
+          exchange.completedAt.getTime() + RATING_WINDOW_DAYS * DAY_MS,
+        ),
+        myRating: null,
+        otherRating: null,
+        otherHasRated: true,
+      });
+    });
+
+    it("devrait afficher l'avis de l'autre participant une fois visible", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue(
+        completedExchange(2),
+      );
+      mockPrismaService.exchangeRating.findMany.mockResolvedValue([
+        rating('requester-1', new Date(Date.now() - 1000)),
+        rating('responder-1', new Date(Date.now() - 1000)),
+      ]);
+
+      const state = await service.getExchangeRatings('ex-1', 'requester-1');
+
+      expect(state.canRate).toBe(false);
+      expect(state.myRating?.rater.id).toBe('requester-1');
+      expect(state.otherRating?.rater.id).toBe('responder-1');
+      expect(state.otherRating).not.toHaveProperty('visibleAt');
+    });
+  });
+
+  describe('getSummaries', () => {
+    it('devrait agréger les avis visibles et couvrir les membres sans avis', async () => {
+      mockPrismaService.exchangeRating.groupBy.mockResolvedValue([
+        { rateeId: 'user-1', _avg: { score: 4.666 }, _count: { _all: 3 } },
+      ]);
+
+      const summaries = await service.getSummaries([
+        'user-1',
+        'user-2',
+        'user-1',
+      ]);
+
+      expect(mockPrismaService.exchangeRating.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            rateeId: { in: ['user-1', 'user-2'] },
+            visibleAt: { lte: expect.any(Date) },
+          },
+        }),
+      );
+      expect(summaries.get('user-1')).toEqual({
+        averageRating: 4.7,
+        ratingsCount: 3,
+      });
+      expect(summaries.get('user-2')).toEqual({
+        averageRating: null,
+        ratingsCount: 0,
+      });
+    });
+  });
+
+  describe('getUserSummary', () => {
+    it('devrait compter les tags reçus, plus fréquents en premier', async () => {
+      mockPrismaService.exchangeRating.findMany.mockResolvedValue([
+        { score: 5, tags: [RatingTag.ON_TIME, RatingTag.FRIENDLY] },
+        { score: 4, tags: [RatingTag.FRIENDLY] },
+      ]);
+
+      const summary = await service.getUserSummary('user-1');
+
+      expect(summary).toEqual({
+        averageRating: 4.5,
+        ratingsCount: 2,
+        tags: [
+          { tag: RatingTag.FRIENDLY, count: 2 },
+          { tag: RatingTag.ON_TIME, count: 1 },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  MAX_REPORTS_PER_DAY,
+  ReportsService,
+} from '../../src/modules/reports/reports.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+
+describe('ReportsService', () => {
+  let service: ReportsService;
+
+  const mockPrismaService = {
+    item: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+    exchange: { findUnique: jest.fn() },
+    post: { findUnique: jest.fn() },
+    report: {
+      findFirst: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<ReportsService>(ReportsService);
+
+    mockPrismaService.report.findFirst.mockResolvedValue(null);
+    mockPrismaService.report.count.mockResolvedValue(0);
+    mockPrismaService.report.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'report-1', createdAt: new Date(), ...data }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createReport', () => {
+    it('devrait signaler un objet et cibler son propriétaire', async () => {
+      mockPrismaService.item.findUnique.mockResolvedValue({
+        id: 'item-1',
+        ownerId: 'owner-1',
+      });
+
+      const result = await service.createReport('reporter-1', {
+        targetType: 'ITEM',
+        targetId: 'item-1',
+        reason: 'SCAM',
+      });
+
+      expect(result).toMatchObject({ id: 'report-1', type: 'ITEM' });
+      expect(mockPrismaService.report.create).toHaveBeenCalledWith({
+        data: {
+          type: 'ITEM',
+          reason: 'SCAM',
+          message: null,
+          reporterId: 'reporter-1',
+          targetItemId: 'item-1',
+          targetUserId: 'owner-1',
+        },
+      });
+    });
+
+    it("devrait cibler l'autre participant d'un échange signalé", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue({
+        id: 'exchange-1',
+        requesterId: 'reporter-1',
+        responderId: 'responder-1',
+      });
+
+      await service.createReport('reporter-1', {
+        targetType: 'EXCHANGE',
+        targetId: 'exchange-1',
+        reason: 'HARASSMENT',
+      });
+
+      expect(mockPrismaService.report.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          targetExchangeId: 'exchange-1',
+          targetUserId: 'responder-1',
+        }),
+      });
+    });
+
+    it("devrait refuser le signalement d'un échange par un non-participant", async () => {
+      mockPrismaService.exchange.findUnique.mockResolvedValue({
+        id: 'exchange-1',
+        requesterId: 'a',
+        responderId: 'b',
+      });
+
+      await expect(
+        service.createReport('reporter-1', {
+          targetType: 'EXCHANGE',
+          targetId: 'exchange-1',
+          reason: 'SPAM',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('devrait refuser de signaler son propre post', async () => {
+      mockPrismaService.post.findUnique.mockResolvedValue({
+        id: 'post-1',
+        authorId: 'reporter-1',
+      });
+
+      await expect(
+        service.createReport('reporter-1', {
+          targetType: 'POST',
+          targetId: 'post-1',
+          reason: 'SPAM',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("devrait renvoyer 404 si l'utilisateur signalé n'existe pas", async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.createReport('reporter-1', {
+          targetType: 'USER',
+          targetId: 'ghost',
+          reason: 'SPAM',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('devrait exiger un message pour le motif OTHER', async () => {
+      await expect(
+        service.createReport('reporter-1', {
+          targetType: 'USER',
+          targetId: 'user-2',
+          reason: 'OTHER',
+          message: '   ',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser un doublon non résolu', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'user-2' });
+      mockPrismaService.report.findFirst.mockResolvedValue({ id: 'report-0' });
+
+      await expect(
+        service.createReport('reporter-1', {
+          targetType: 'USER',
+          targetId: 'user-2',
+          reason: 'SPAM',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.report.findFirst).toHaveBeenCalledWith({
+        where: {
+          reporterId: 'reporter-1',
+          type: 'USER',
+          targetUserId: 'user-2',
+          resolved: false,
+        },
+        select: { id: true },
+      });
+      expect(mockPrismaService.report.create).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser un doublon envoyé en parallèle (contrainte unique)', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'user-2' });
+      mockPrismaService.report.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(
+        service.createReport('reporter-1', {
+          targetType: 'USER',
+          targetId: 'user-2',
+          reason: 'SPAM',
+        }),
+      ).rejects.toThrow(
+        new ConflictException(
+          "Vous avez déjà signalé ce contenu, il est en cours d'examen",
+        ),
+      );
+    });
+
+    it('devrait limiter le nombre de signalements par jour', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ id: 'user-2' });
+      mockPrismaService.report.count.mockResolvedValue(MAX_REPORTS_PER_DAY);
+
+      await expect(
+        service.createReport('reporter-1', {
+          targetType: 'USER',
+          targetId: 'user-2',
+          reason: 'SPAM',
+        }),
+      ).rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+      expect(mockPrismaService.report.create).not.toHaveBeenCalled();
+    });
+  });
+});
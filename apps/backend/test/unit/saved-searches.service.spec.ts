@@ -0,0 +1,255 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ItemCategory, ItemCondition, ItemStatus } from '@prisma/client';
+import { SavedSearchesService } from '../../src/modules/saved-searches/saved-searches.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+import { NotificationsService } from '../../src/modules/notifications/notifications.service';
+
+describe('SavedSearchesService', () => {
+  let service: SavedSearchesService;
+
+  const mockPrismaService = {
+    savedSearch: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    userProfile: {
+      findUnique: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    sendSavedSearchNotification: jest.fn(),
+  };
+
+  const item = {
+    id: 'item-1',
+    title: 'Vélo de ville',
+    ownerId: 'owner-1',
+    category: ItemCategory.SPORTS,
+    condition: ItemCondition.GOOD,
+    status: ItemStatus.AVAILABLE,
+    latitude: 45.76, // Lyon
+    longitude: 4.84,
+  };
+
+  const buildSearch = (overrides: Record<string, unknown> = {}) => ({
+    id: 'search-1',
+    userId: 'user-1',
+    name: 'Vélos',
+    q: null,
+    category: null,
+    condition: null,
+    near: null,
+    latitude: null,
+    longitude: null,
+    radiusKm: null,
+    lastMatchedAt: null,
+    createdAt: new Date('2025-10-20T10:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SavedSearchesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<SavedSearchesService>(SavedSearchesService);
+
+    mockPrismaService.savedSearch.findFirst.mockResolvedValue(null);
+    mockPrismaService.savedSearch.count.mockResolvedValue(0);
+    mockPrismaService.savedSearch.create.mockImplementation(({ data }) =>
+      Promise.resolve(buildSearch(data)),
+    );
+    mockPrismaService.savedSearch.findMany.mockResolvedValue([]);
+    mockPrismaService.$queryRaw.mockResolvedValue([]);
+    mockNotificationsService.sendSavedSearchNotification.mockResolvedValue(
+      undefined,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSavedSearch', () => {
+    it('devrait résoudre la localisation et appliquer le rayon par défaut', async () => {
+      const result = await service.createSavedSearch('user-1', {
+        q: ' vélo ',
+        near: 'Lyon',
+      });
+
+      expect(mockPrismaService.savedSearch.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          name: '« vélo » · Lyon (50 km)',
+          q: 'vélo',
+          category: null,
+          condition: null,
+          near: 'Lyon',
+          radiusKm: 50,
+          latitude: 45.764,
+          longitude: 4.8357,
+        },
+      });
+      expect(result).not.toHaveProperty('latitude');
+    });
+
+    it('devrait refuser une recherche sans critère ou une localisation inconnue', async () => {
+      await expect(
+        service.createSavedSearch('user-1', { name: 'Tout' }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.createSavedSearch('user-1', { near: 'Atlantis' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.savedSearch.create).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser une recherche déjà sauvegardée', async () => {
+      mockPrismaService.savedSearch.findFirst.mockResolvedValue(buildSearch());
+
+      await expect(
+        service.createSavedSearch('user-1', { category: ItemCategory.SPORTS }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('devrait limiter le nombre de recherches par utilisateur', async () => {
+      mockPrismaService.savedSearch.count.mockResolvedValue(20);
+
+      await expect(
+        service.createSavedSearch('user-1', { q: 'vélo' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('deleteSavedSearch', () => {
+    it("ne devrait pas supprimer la recherche d'un autre utilisateur", async () => {
+      await expect(
+        service.deleteSavedSearch('user-2', 'search-1'),
+      ).rejects.toThrow(NotFoundException);
+
+      expect(mockPrismaService.savedSearch.findFirst).toHaveBeenCalledWith({
+        where: { id: 'search-1', userId: 'user-2' },
+      });
+      expect(mockPrismaService.savedSearch.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyMatches', () => {
+    it('devrait filtrer en base sur la catégorie, l’état et les autres utilisateurs', async () => {
+      await service.notifyMatches(item);
+
+      expect(mockPrismaService.savedSearch.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: { not: 'owner-1' },
+          AND: [
+            { OR: [{ category: null }, { category: ItemCategory.SPORTS }] },
+            { OR: [{ condition: null }, { condition: ItemCondition.GOOD }] },
+          ],
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    });
+
+    it('devrait appliquer la recherche plein texte et le rayon, une notification par utilisateur', async () => {
+      mockPrismaService.savedSearch.findMany.mockResolvedValue([
+        buildSearch({ id: 'text-ok', userId: 'user-1', q: 'vélo' }),
+        buildSearch({ id: 'text-ko', userId: 'user-2', q: 'guitare' }),
+        // Lyon → Villeurbanne (~4 km)
+        buildSearch({
+          id: 'near-ok',
+          userId: 'user-3',
+          name: 'Près de chez moi',
+          near: 'Villeurbanne',
+          latitude: 45.77,
+          longitude: 4.88,
+          radiusKm: 10,
+        }),
+        // Lyon → Paris (~390 km)
+        buildSearch({
+          id: 'near-ko',
+          userId: 'user-4',
+          near: 'Paris',
+          latitude: 48.86,
+          longitude: 2.35,
+          radiusKm: 50,
+        }),
+        // Deuxième recherche de user-1: pas de seconde notification
+        buildSearch({ id: 'text-ok-2', userId: 'user-1', q: 'vélo ville' }),
+      ]);
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        { id: 'text-ok' },
+        { id: 'text-ok-2' },
+      ]);
+
+      await expect(service.notifyMatches(item)).resolves.toBe(2);
+
+      expect(mockPrismaService.savedSearch.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['text-ok', 'near-ok', 'text-ok-2'] } },
+        data: { lastMatchedAt: expect.any(Date) },
+      });
+      expect(
+        mockNotificationsService.sendSavedSearchNotification,
+      ).toHaveBeenCalledTimes(2);
+      expect(
+        mockNotificationsService.sendSavedSearchNotification,
+      ).toHaveBeenCalledWith('item-1', 'Vélo de ville', 'Vélos', 'user-1');
+      expect(
+        mockNotificationsService.sendSavedSearchNotification,
+      ).toHaveBeenCalledWith(
+        'item-1',
+        'Vélo de ville',
+        'Près de chez moi',
+        'user-3',
+      );
+    });
+
+    it("devrait utiliser la position du propriétaire si l'objet n'en a pas", async () => {
+      mockPrismaService.savedSearch.findMany.mockResolvedValue([
+        buildSearch({ near: 'Lyon', latitude: 45.76, longitude: 4.84 }),
+      ]);
+      mockPrismaService.userProfile.findUnique.mockResolvedValue({
+        latitude: 45.75,
+        longitude: 4.85,
+      });
+
+      await expect(
+        service.notifyMatches({ ...item, latitude: null, longitude: null }),
+      ).resolves.toBe(1);
+
+      expect(mockPrismaService.userProfile.findUnique).toHaveBeenCalledWith({
+        where: { userId: 'owner-1' },
+        select: { latitude: true, longitude: true },
+      });
+    });
+
+    it("ne devrait rien faire pour un objet qui n'est pas disponible", async () => {
+      await expect(
+        service.notifyMatches({ ...item, status: ItemStatus.TRADED }),
+      ).resolves.toBe(0);
+
+      expect(mockPrismaService.savedSearch.findMany).not.toHaveBeenCalled();
+    });
+
+    it("ne devrait jamais lever d'erreur (la publication ne doit pas échouer)", async () => {
+      mockPrismaService.savedSearch.findMany.mockRejectedValue(
+        new Error('Base indisponible'),
+      );
+
+      await expect(service.notifyMatches(item)).resolves.toBe(0);
+    });
+  });
+});
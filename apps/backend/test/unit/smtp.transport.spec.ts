@@ -0,0 +1,187 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import {
+  SmtpError,
+  SmtpMailTransport,
+} from '../../src/modules/mail/transports/smtp.transport';
+
+/**
+ * Serveur SMTP minimal (sans TLS) qui enregistre le dialogue.
+ */
+interface FakeSmtpServer {
+  port: number;
+  commands: string[];
+  data: string[];
+  close: () => Promise<void>;
+}
+
+async function startFakeSmtpServer(
+  options: { auth?: string; rejectRecipient?: boolean } = {},
+): Promise<FakeSmtpServer> {
+  const commands: string[] = [];
+  const data: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let dataLines: string[] = [];
+    let pendingLogin = 0;
+
+    socket.write('220 fake.smtp ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            data.push(dataLines.join('\r\n'));
+            dataLines = [];
+            socket.write('250 2.0.0 Ok: queued\r\n');
+          } else {
+            dataLines.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+
+        if (pendingLogin > 0) {
+          pendingLogin--;
+          socket.write(
+            pendingLogin > 0 ? '334 UGFzc3dvcmQ6\r\n' : '235 Ok\r\n',
+          );
+        } else if (line.startsWith('EHLO')) {
+          const extensions = ['250-fake.smtp', '250-PIPELINING'];
+          if (options.auth) extensions.push(`250-AUTH ${options.auth}`);
+          extensions.push('250 8BITMIME');
+          socket.write(extensions.map((e) => `${e}\r\n`).join(''));
+        } else if (line.startsWith('AUTH PLAIN')) {
+          socket.write('235 2.7.0 Authentication successful\r\n');
+        } else if (line === 'AUTH LOGIN') {
+          pendingLogin = 2;
+          socket.write('334 VXNlcm5hbWU6\r\n');
+        } else if (line.startsWith('MAIL FROM')) {
+          socket.write('250 Ok\r\n');
+        } else if (line.startsWith('RCPT TO')) {
+          socket.write(
+            options.rejectRecipient
+              ? '550 5.1.1 Mailbox unavailable\r\n'
+              : '250 Ok\r\n',
+          );
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('502 Command not implemented\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve()),
+  );
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    data,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('SmtpMailTransport', () => {
+  let server: FakeSmtpServer;
+
+  const message = {
+    to: 'Jane <jane@example.com>',
+    subject: 'Bienvenue',
+    text: 'Bonjour Jane',
+    html: '<p>Bonjour Jane</p>',
+  };
+
+  const buildTransport = (credentials: { user?: string; pass?: string } = {}) =>
+    new SmtpMailTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      timeoutMs: 5000,
+      ...credentials,
+    });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('devrait dérouler le dialogue SMTP et transmettre le message MIME', async () => {
+    server = await startFakeSmtpServer();
+
+    await buildTransport().send(
+      'SecondLife <no-reply@secondlife.test>',
+      message,
+    );
+
+    expect(server.commands[0]).toMatch(/^EHLO /);
+    expect(server.commands.slice(1)).toEqual([
+      'MAIL FROM:<no-reply@secondlife.test>',
+      'RCPT TO:<jane@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(server.data).toHaveLength(1);
+    expect(server.data[0]).toContain('To: Jane <jane@example.com>');
+    expect(server.data[0]).toContain('Subject: Bienvenue');
+    expect(server.data[0]).toContain(
+      Buffer.from('<p>Bonjour Jane</p>').toString('base64'),
+    );
+  });
+
+  it("devrait s'authentifier avec AUTH PLAIN", async () => {
+    server = await startFakeSmtpServer({ auth: 'PLAIN LOGIN' });
+
+    await buildTransport({ user: 'smtp-user', pass: 'smtp-pass' }).send(
+      'no-reply@secondlife.test',
+      message,
+    );
+
+    expect(server.commands).toContain(
+      `AUTH PLAIN ${Buffer.from('\0smtp-user\0smtp-pass').toString('base64')}`,
+    );
+  });
+
+  it("devrait s'authentifier avec AUTH LOGIN si PLAIN n'est pas proposé", async () => {
+    server = await startFakeSmtpServer({ auth: 'LOGIN' });
+
+    await buildTransport({ user: 'smtp-user', pass: 'smtp-pass' }).send(
+      'no-reply@secondlife.test',
+      message,
+    );
+
+    const login = server.commands.indexOf('AUTH LOGIN');
+    expect(server.commands.slice(login + 1, login + 3)).toEqual([
+      Buffer.from('smtp-user').toString('base64'),
+      Buffer.from('smtp-pass').toString('base64'),
+    ]);
+  });
+
+  it('devrait lever une SmtpError avec le code du serveur si le destinataire est refusé', async () => {
+    server = await startFakeSmtpServer({ rejectRecipient: true });
+
+    const error = await buildTransport()
+      .send('no-reply@secondlife.test', message)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.code).toBe(550);
+    expect(error.message).toContain('RCPT');
+    expect(server.data).toHaveLength(0);
+  });
+});
@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService, TokenExpiredError } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import {
+  SOCKET_AUTH_ERROR_EVENT,
+  SocketAuthError,
+  SocketAuthErrorCode,
+  SocketAuthService,
+} from '../../src/modules/auth/socket-auth.service';
+import { JwtAccessStrategy } from '../../src/modules/auth/strategies/jwt-access.strategy';
+
+describe('SocketAuthService', () => {
+  let service: SocketAuthService;
+
+  const mockUser = {
+    id: 'user-1',
+    email: 'test@example.com',
+    displayName: 'Test User',
+    avatarUrl: null,
+    roles: 'USER',
+    createdAt: new Date(),
+  };
+
+  const mockJwtService = {
+    verifyAsync: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue('access-secret'),
+  };
+
+  const mockJwtAccessStrategy = {
+    validate: jest.fn(),
+  };
+
+  const createSocket = (handshake: Record<string, any> = {}): any => ({
+    id: 'socket-1',
+    handshake: { auth: {}, headers: {}, query: {}, ...handshake },
+    data: {},
+    emit: jest.fn(),
+    disconnect: jest.fn(),
+    once: jest.fn(),
+  });
+
+  beforeEach(async () => {
+    // Les expirations de token sont programmées via setTimeout
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SocketAuthService,
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: JwtAccessStrategy, useValue: mockJwtAccessStrategy },
+      ],
+    }).compile();
+
+    service = module.get<SocketAuthService>(SocketAuthService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('authenticate', () => {
+    it("devrait attacher l'utilisateur au socket avec un token valide", async () => {
+      const socket = createSocket({ auth: { token: 'valid-token' } });
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: 'user-1',
+        exp: Math.floor(Date.now() / 1000) + 900,
+      });
+      mockJwtAccessStrategy.validate.mockResolvedValue(mockUser);
+
+      const user = await service.authenticate(socket);
+
+      expect(user).toEqual(mockUser);
+      expect(socket.data.user).toEqual(mockUser);
+      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith('valid-token', {
+        secret: 'access-secret',
+      });
+      expect(socket.once).toHaveBeenCalledWith(
+        'disconnect',
+        expect.any(Function),
+      );
+    });
+
+    it('devrait accepter le header Authorization Bearer', async () => {
+      const socket = createSocket({
+        headers: { authorization: 'Bearer header-token' },
+      });
+      mockJwtService.verifyAsync.mockResolvedValue({ sub: 'user-1' });
+      mockJwtAccessStrategy.validate.mockResolvedValue(mockUser);
+
+      await service.authenticate(socket);
+
+      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith(
+        'header-token',
+        expect.any(Object),
+      );
+    });
+
+    it('devrait refuser un socket sans token', async () => {
+      await expect(service.authenticate(createSocket())).rejects.toMatchObject({
+        data: { code: SocketAuthErrorCode.TOKEN_MISSING },
+      });
+    });
+
+    it('devrait signaler un token expiré', async () => {
+      mockJwtService.verifyAsync.mockRejectedValue(
+        new TokenExpiredError('jwt expired', new Date()),
+      );
+
+      await expect(
+        service.authenticate(createSocket({ auth: { token: 'old' } })),
+      ).rejects.toMatchObject({
+        data: { code: SocketAuthErrorCode.TOKEN_EXPIRED },
+      });
+    });
+
+    it('devrait signaler un token invalide', async () => {
+      mockJwtService.verifyAsync.mockRejectedValue(new Error('bad signature'));
+
+      await expect(
+        service.authenticate(createSocket({ auth: { token: 'forged' } })),
+      ).rejects.toMatchObject({
+        data: { code: SocketAuthErrorCode.TOKEN_INVALID },
+      });
+    });
+
+    it("devrait refuser si l'utilisateur n'existe plus", async () => {
+      mockJwtService.verifyAsync.mockResolvedValue({ sub: 'deleted' });
+      mockJwtAccessStrategy.validate.mockRejectedValue(
+        new UnauthorizedException('Utilisateur non trouvé'),
+      );
+
+      await expect(
+        service.authenticate(createSocket({ auth: { token: 'valid' } })),
+      ).rejects.toMatchObject({
+        data: { code: SocketAuthErrorCode.USER_NOT_FOUND },
+      });
+    });
+
+    it("devrait déconnecter le socket à l'expiration du token", async () => {
+      const socket = createSocket({ auth: { token: 'valid-token' } });
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: 'user-1',
+        exp: Math.floor(Date.now() / 1000) + 60,
+      });
+      mockJwtAccessStrategy.validate.mockResolvedValue(mockUser);
+
+      await service.authenticate(socket);
+      jest.advanceTimersByTime(60_000);
+
+      expect(socket.emit).toHaveBeenCalledWith(SOCKET_AUTH_ERROR_EVENT, {
+        code: SocketAuthErrorCode.TOKEN_EXPIRED,
+        message: expect.any(String),
+      });
+      expect(socket.disconnect).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('middleware', () => {
+    it('devrait transmettre une SocketAuthError typée au handshake', async () => {
+      const next = jest.fn();
+
+      await service.middleware()(createSocket(), next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(SocketAuthError));
+      expect(next.mock.calls[0][0].data.code).toBe(
+        SocketAuthErrorCode.TOKEN_MISSING,
+      );
+    });
+  });
+
+  describe('requireUser', () => {
+    it('devrait rejeter un socket non authentifié', () => {
+      const socket = createSocket();
+
+      expect(service.requireUser(socket)).toBeNull();
+      expect(socket.emit).toHaveBeenCalledWith(
+        SOCKET_AUTH_ERROR_EVENT,
+        expect.objectContaining({ code: SocketAuthErrorCode.TOKEN_MISSING }),
+      );
+      expect(socket.disconnect).toHaveBeenCalledWith(true);
+    });
+  });
+});
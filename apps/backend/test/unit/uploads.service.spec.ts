@@ -95,10 +95,13 @@ describe('UploadsService', () => {
   });
 
   describe('attachPhoto', () => {
+    const photoUrl =
+      'https://res.cloudinary.com/test-cloud/image/upload/items/photo.jpg';
+
     it('devrait attacher une photo à un item', async () => {
       const mockItem = { id: 'item-1' };
       const photoData = {
-        url: 'https://example.com/photo.jpg',
+        url: photoUrl,
         publicId: 'photo-123',
         width: 800,
         height: 600,
@@ -126,7 +129,7 @@ describe('UploadsService', () => {
 
       await expect(
         service.attachPhoto('item-1', {
-          url: 'https://example.com/photo.jpg',
+          url: photoUrl,
           publicId: 'photo-123',
         }),
       ).rejects.toThrow(NotFoundException);
@@ -140,11 +143,31 @@ describe('UploadsService', () => {
 
       await expect(
         service.attachPhoto('item-1', {
-          url: 'https://example.com/photo.jpg',
+          url: photoUrl,
           publicId: 'photo-123',
         }),
       ).rejects.toThrow(BadRequestException);
     });
+
+    it("devrait refuser une URL qui n'est pas une image du cloud Cloudinary", async () => {
+      for (const url of [
+        'http://169.254.169.254/latest/meta-data/',
+        'https://res.cloudinary.com/autre-cloud/image/upload/photo.jpg',
+      ]) {
+        await expect(
+          service.attachPhoto('item-1', { url, publicId: 'photo-123' }),
+        ).rejects.toThrow(BadRequestException);
+      }
+      await expect(
+        service.attachPhotos('item-1', [
+          { url: photoUrl, publicId: 'photo-123' },
+          { url: 'https://example.com/photo.jpg', publicId: 'photo-456' },
+        ]),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockPrismaService.item.findUnique).not.toHaveBeenCalled();
+      expect(mockPrismaService.itemPhoto.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('deletePhoto', () => {
@@ -0,0 +1,221 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ExchangeStatus, ItemStatus, RatingTag } from '@prisma/client';
+import {
+  PUBLIC_PROFILE_ITEMS_LIMIT,
+  UsersService,
+} from '../../src/modules/users/users.service';
+import { PrismaService } from '../../src/common/prisma/prisma.service';
+import { RatingsService } from '../../src/modules/ratings/ratings.service';
+
+describe('UsersService', () => {
+  let service: UsersService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+    },
+    userProfile: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    item: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    exchange: {
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+  };
+
+  const ratingSummary = {
+    averageRating: 4.5,
+    ratingsCount: 2,
+    tags: [{ tag: RatingTag.ON_TIME, count: 2 }],
+  };
+
+  const mockRatingsService = {
+    getUserSummary: jest.fn(),
+    getSummaries: jest.fn(),
+  };
+
+  const memberSince = new Date('2025-01-15T10:00:00Z');
+
+  const member = {
+    id: 'user-1',
+    displayName: 'Camille',
+    avatarUrl: null,
+    createdAt: memberSince,
+    profile: {
+      bio: 'Passionnée de vélos',
+      location: 'Lyon',
+      latitude: 45.76,
+      longitude: 4.84,
+      showBio: true,
+      showLocation: false,
+      showItems: true,
+      showExchangeStats: false,
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: RatingsService, useValue: mockRatingsService },
+      ],
+    }).compile();
+
+    service = module.get<UsersService>(UsersService);
+
+    mockPrismaService.item.findMany.mockResolvedValue([{ id: 'item-1' }]);
+    mockPrismaService.item.count.mockResolvedValue(1);
+    mockPrismaService.exchange.count.mockResolvedValue(4);
+    mockPrismaService.exchange.groupBy.mockResolvedValue([
+      { status: ExchangeStatus.COMPLETED, _count: { _all: 4 } },
+      { status: ExchangeStatus.DECLINED, _count: { _all: 2 } },
+      { status: ExchangeStatus.PENDING, _count: { _all: 2 } },
+      { status: ExchangeStatus.CANCELLED, _count: { _all: 5 } },
+    ]);
+    mockRatingsService.getUserSummary.mockResolvedValue(ratingSummary);
+    mockRatingsService.getSummaries.mockResolvedValue(
+      new Map([['user-1', { averageRating: 4.5, ratingsCount: 2 }]]),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getPublicProfile', () => {
+    it('devrait masquer les sections choisies par le membre', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(member);
+
+      const profile = await service.getPublicProfile('user-1', 'visitor-1');
+
+      expect(profile).toEqual({
+        id: 'user-1',
+        displayName: 'Camille',
+        avatarUrl: null,
+        memberSince,
+        bio: 'Passionnée de vélos',
+        location: null,
+        reputation: null,
+        ratings: ratingSummary,
+        availableItems: { items: [{ id: 'item-1' }], total: 1 },
+        isOwnProfile: false,
+        privacy: null,
+      });
+      expect(mockPrismaService.exchange.groupBy).not.toHaveBeenCalled();
+      expect(mockPrismaService.item.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { ownerId: 'user-1', status: ItemStatus.AVAILABLE },
+          orderBy: { createdAt: 'desc' },
+          take: PUBLIC_PROFILE_ITEMS_LIMIT,
+        }),
+      );
+    });
+
+    it('devrait tout afficher au propriétaire avec ses réglages', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(member);
+
+      const profile = await service.getPublicProfile('user-1', 'user-1');
+
+      expect(profile.isOwnProfile).toBe(true);
+      expect(profile.location).toBe('Lyon');
+      expect(profile.reputation).toEqual({
+        completedExchanges: 4,
+        responseRate: 75,
+      });
+      expect(profile.privacy).toEqual({
+        showBio: true,
+        showLocation: false,
+        showItems: true,
+        showExchangeStats: false,
+      });
+    });
+
+    it('devrait tout afficher pour un membre sans profil enregistré', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...member,
+        profile: null,
+      });
+
+      const profile = await service.getPublicProfile('user-1');
+
+      expect(profile.bio).toBeNull();
+      expect(profile.reputation).not.toBeNull();
+      expect(profile.availableItems).not.toBeNull();
+    });
+
+    it("devrait lancer NotFoundException si le membre n'existe pas", async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.getPublicProfile('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getStats', () => {
+    it('devrait calculer le taux de réponse hors propositions annulées', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        createdAt: memberSince,
+      });
+      mockPrismaService.item.count
+        .mockResolvedValueOnce(6)
+        .mockResolvedValueOnce(3);
+      mockPrismaService.exchange.count
+        .mockResolvedValueOnce(5)
+        .mockResolvedValueOnce(13)
+        .mockResolvedValueOnce(4);
+
+      const stats = await service.getStats('user-1');
+
+      expect(stats).toEqual({
+        memberSince,
+        publishedItems: 6,
+        availableItems: 3,
+        exchangesInitiated: 5,
+        exchangesReceived: 13,
+        completedExchanges: 4,
+        responseRate: 75,
+        averageRating: 4.5,
+        ratingsCount: 2,
+      });
+    });
+
+    it('devrait renvoyer un taux de réponse null sans proposition reçue', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        createdAt: memberSince,
+      });
+      mockPrismaService.exchange.groupBy.mockResolvedValue([]);
+
+      const stats = await service.getStats('user-1');
+
+      expect(stats.responseRate).toBeNull();
+    });
+  });
+
+  describe('updatePrivacy', () => {
+    it('devrait ne modifier que les réglages fournis', async () => {
+      mockPrismaService.userProfile.upsert.mockResolvedValue({
+        ...member.profile,
+        showItems: false,
+      });
+
+      const privacy = await service.updatePrivacy('user-1', {
+        showItems: false,
+      });
+
+      expect(mockPrismaService.userProfile.upsert).toHaveBeenCalledWith({
+        where: { userId: 'user-1' },
+        update: { showItems: false },
+        create: { userId: 'user-1', showItems: false },
+      });
+      expect(privacy.showItems).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import {
+  PushSubscriptionData,
+  WEB_PUSH_MAX_PAYLOAD_BYTES,
+  WebPushError,
+  WebPushService,
+} from '../../src/modules/notifications/web-push.service';
+
+/**
+ * Requête reçue par le service push local (serveur HTTP de test).
+ */
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * Déchiffre un corps aes128gcm avec les clés de l'abonné (côté navigateur).
+ */
+function decrypt(
+  body: Buffer,
+  subscriber: crypto.ECDH,
+  authSecret: Buffer,
+): string {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const sharedSecret = subscriber.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    subscriber.getPublicKey(),
+    serverPublicKey,
+  ]);
+  const ikm = Buffer.from(
+    crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32),
+  );
+  const contentKey = Buffer.from(
+    crypto.hkdfSync(
+      'sha256',
+      ikm,
+      salt,
+      Buffer.from('Content-Encoding: aes128gcm\0'),
+      16,
+    ),
+  );
+  const nonce = Buffer.from(
+    crypto.hkdfSync(
+      'sha256',
+      ikm,
+      salt,
+      Buffer.from('Content-Encoding: nonce\0'),
+      12,
+    ),
+  );
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const plaintext = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, -16)),
+    decipher.final(),
+  ]);
+
+  // Retirer le délimiteur de dernier enregistrement
+  expect(plaintext[plaintext.length - 1]).toBe(0x02);
+  return plaintext.subarray(0, -1).toString('utf8');
+}
+
+describe('WebPushService', () => {
+  const vapidKeys = WebPushService.generateVapidKeys();
+
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest | null;
+  let nextStatus: number;
+
+  let service: WebPushService;
+  let subscriber: crypto.ECDH;
+  let authSecret: Buffer;
+  let subscription: PushSubscriptionData;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        received = {
+          url: req.url ?? '',
+          headers: req.headers,
+          body: Buffer.concat(chunks),
+        };
+        res.statusCode = nextStatus;
+        res.end(nextStatus === 410 ? 'push subscription has unsubscribed' : '');
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = null;
+    nextStatus = 201;
+
+    service = new WebPushService({
+      get: () => ({
+        vapidPublicKey: vapidKeys.publicKey,
+        vapidPrivateKey: vapidKeys.privateKey,
+        vapidSubject: 'mailto:test@secondlife.com',
+        ttlSeconds: 3600,
+        timeoutMs: 2000,
+      }),
+    } as unknown as ConfigService);
+
+    subscriber = crypto.createECDH('prime256v1');
+    subscriber.generateKeys();
+    authSecret = crypto.randomBytes(16);
+    subscription = {
+      endpoint: `${baseUrl}/push/device-1`,
+      keys: {
+        p256dh: subscriber.getPublicKey().toString('base64url'),
+        auth: authSecret.toString('base64url'),
+      },
+    };
+  });
+
+  it('devrait envoyer un message chiffré lisible par le navigateur', async () => {
+    const payload = { title: 'Bonjour', body: 'Échange accepté ✔' };
+
+    await expect(service.send(subscription, payload)).resolves.toBe(201);
+
+    expect(received!.url).toBe('/push/device-1');
+    expect(received!.headers['content-encoding']).toBe('aes128gcm');
+    expect(received!.headers['ttl']).toBe('3600');
+    expect(JSON.parse(decrypt(received!.body, subscriber, authSecret))).toEqual(
+      payload,
+    );
+  });
+
+  it('devrait limiter le corps chiffré à 4096 octets', async () => {
+    // {"body":"..."}: 11 octets de JSON autour du texte
+    const maxPayload = { body: 'x'.repeat(WEB_PUSH_MAX_PAYLOAD_BYTES - 11) };
+
+    await expect(service.send(subscription, maxPayload)).resolves.toBe(201);
+    expect(received!.body.length).toBe(4096);
+
+    await expect(
+      service.send(subscription, { body: `${maxPayload.body}x` }),
+    ).rejects.toThrow(WebPushError);
+  });
+
+  it('devrait signer la requête avec un JWT VAPID valide', async () => {
+    await service.send(subscription, { title: 'Test' });
+
+    const match = /^vapid t=([^,]+), k=(.+)$/.exec(
+      received!.headers['authorization'] as string,
+    );
+    expect(match).not.toBeNull();
+    const [, jwt, publicKey] = match!;
+    expect(publicKey).toBe(vapidKeys.publicKey);
+
+    const [header, claims, signature] = jwt.split('.');
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toEqual(
+      expect.objectContaining({
+        aud: baseUrl,
+        sub: 'mailto:test@secondlife.com',
+      }),
+    );
+
+    const rawPublicKey = Buffer.from(publicKey, 'base64url');
+    const verifyKey = crypto.createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: rawPublicKey.subarray(1, 33).toString('base64url'),
+        y: rawPublicKey.subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    expect(
+      crypto.verify(
+        'sha256',
+        Buffer.from(`${header}.${claims}`),
+        { key: verifyKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url'),
+      ),
+    ).toBe(true);
+  });
+
+  it('devrait signaler un abonnement expiré (410)', async () => {
+    nextStatus = 410;
+
+    const error = await service
+      .send(subscription, { title: 'Test' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(WebPushError);
+    expect(error.statusCode).toBe(410);
+    expect(error.isGone).toBe(true);
+  });
+
+  it("devrait refuser un envoi si VAPID n'est pas configuré", async () => {
+    const unconfigured = new WebPushService({
+      get: () => undefined,
+    } as unknown as ConfigService);
+
+    expect(unconfigured.getPublicKey()).toBeNull();
+    await expect(
+      unconfigured.send(subscription, { title: 'Test' }),
+    ).rejects.toThrow(WebPushError);
+    expect(received).toBeNull();
+  });
+
+  describe('parseSubscription', () => {
+    it("devrait accepter le JSON d'une PushSubscription", () => {
+      expect(service.parseSubscription(JSON.stringify(subscription))).toEqual(
+        subscription,
+      );
+    });
+
+    it('devrait refuser un token opaque ou des clés invalides', () => {
+      expect(service.parseSubscription('mock-token-123')).toBeNull();
+      expect(
+        service.parseSubscription(
+          JSON.stringify({
+            ...subscription,
+            keys: { p256dh: 'abc', auth: 'def' },
+          }),
+        ),
+      ).toBeNull();
+    });
+  });
+});
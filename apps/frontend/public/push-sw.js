@@ -0,0 +1,70 @@
+/**
+ * FICHIER: public/push-sw.js
+ *
+ * DESCRIPTION:
+ * Service Worker dédié aux notifications push (Web Push).
+ * Il est enregistré par `NotificationService` avec le scope `/push/` pour ne pas
+ * entrer en conflit avec le Service Worker PWA généré par next-pwa (`/sw.js`).
+ * Il fonctionne aussi en développement (next-pwa y est désactivé).
+ *
+ * ÉVÉNEMENTS:
+ * - push: affiche la notification envoyée par le backend
+ *   (payload JSON: { title, body, icon, badge, data: { url, type, ... } })
+ * - notificationclick: ouvre (ou met au premier plan) la page `data.url`
+ */
+
+self.addEventListener('install', () => {
+  // Activer immédiatement la nouvelle version (pas de cache à migrer)
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (error) {
+    // Message non JSON: l'afficher tel quel
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'SecondLife Exchange';
+  const data = payload.data || {};
+
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body,
+      icon: payload.icon || '/icons/icon-192x192.png',
+      badge: payload.badge,
+      // Regrouper par type (un nouveau message remplace le précédent)
+      tag: data.type ? `secondlife-${data.type}` : 'secondlife-notification',
+      data,
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = new URL(
+    (event.notification.data && event.notification.data.url) || '/',
+    self.location.origin
+  ).href;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: 'window', includeUncontrolled: true })
+      .then((windowClients) => {
+        // Réutiliser un onglet déjà ouvert sur cette page
+        // (navigate() est impossible: ce worker ne contrôle aucune page)
+        const client = windowClients.find((c) => c.url === url);
+        if (client) {
+          return client.focus();
+        }
+        return self.clients.openWindow(url);
+      })
+  );
+});
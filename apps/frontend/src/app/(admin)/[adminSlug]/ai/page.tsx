@@ -0,0 +1,414 @@
+/**
+ * FICHIER: ai/page.tsx
+ *
+ * DESCRIPTION:
+ * Page de suivi de l'usage IA: appels, tokens et coût par fonctionnalité,
+ * dépenses par jour et réglage du budget journalier / mensuel.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { adminApi, type AiUsage } from '@/lib/admin.api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const FEATURE_LABELS: Record<string, string> = {
+  itemAnalysis: "Analyse d'objets",
+  suggestions: 'Suggestions',
+  theme: 'Thème de la semaine',
+  ecoEnrichment: 'Enrichissement éco',
+  photoAnalysis: 'Analyse des photos',
+};
+
+const OUTCOME_LABELS: Record<string, string> = {
+  SUCCESS: 'Succès',
+  ERROR: 'Erreur',
+  BUDGET_EXCEEDED: 'Refusé (budget)',
+};
+
+const formatUsd = (value: number) =>
+  `${value.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 4 })} $`;
+
+// Champ vide: pas de limite
+const parseLimit = (value: string) =>
+  value.trim() === '' ? null : Number(value);
+
+type FeatureSummary = {
+  feature: string;
+  calls: number;
+  errors: number;
+  refused: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyTotal: number;
+};
+
+/**
+ * Regroupe les lignes (fonctionnalité, résultat) par fonctionnalité.
+ */
+function summarizeByFeature(rows: AiUsage['byFeature'] = []) {
+  const features = new Map<string, FeatureSummary>();
+
+  for (const row of rows) {
+    const summary = features.get(row.feature) || {
+      feature: row.feature,
+      calls: 0,
+      errors: 0,
+      refused: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      latencyTotal: 0,
+    };
+
+    summary.calls += row.calls;
+    if (row.outcome === 'ERROR') summary.errors += row.calls;
+    if (row.outcome === 'BUDGET_EXCEEDED') summary.refused += row.calls;
+    summary.inputTokens += row.inputTokens;
+    summary.outputTokens += row.outputTokens;
+    summary.costUsd += row.costUsd;
+    summary.latencyTotal += row.avgLatencyMs * row.calls;
+    features.set(row.feature, summary);
+  }
+
+  return Array.from(features.values()).sort((a, b) => b.costUsd - a.costUsd);
+}
+
+function BudgetCard({
+  title,
+  spent,
+  limit,
+  exceeded,
+}: {
+  title: string;
+  spent: number;
+  limit: number | null;
+  exceeded: boolean;
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{formatUsd(spent)}</CardTitle>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>
+            {limit === null ? 'Sans limite' : `Limite: ${formatUsd(limit)}`}
+          </span>
+          {exceeded && <Badge variant="destructive">Atteint</Badge>}
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
+
+export default function AdminAiUsagePage() {
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState('30');
+  const [dailyLimit, setDailyLimit] = useState('');
+  const [monthlyLimit, setMonthlyLimit] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin-ai-usage', days],
+    queryFn: () => adminApi.getAiUsage(Number(days)),
+  });
+
+  const budget = data?.budget;
+  const savedDailyLimit = budget?.dailyLimitUsd;
+  const savedMonthlyLimit = budget?.monthlyLimitUsd;
+
+  // Pré-remplir le formulaire avec les limites enregistrées
+  useEffect(() => {
+    setDailyLimit(savedDailyLimit?.toString() ?? '');
+    setMonthlyLimit(savedMonthlyLimit?.toString() ?? '');
+  }, [savedDailyLimit, savedMonthlyLimit]);
+
+  const saveBudget = async () => {
+    setIsSaving(true);
+    try {
+      await adminApi.updateAiBudget({
+        dailyLimitUsd: parseLimit(dailyLimit),
+        monthlyLimitUsd: parseLimit(monthlyLimit),
+      });
+      toast.success('Budget IA mis à jour');
+      queryClient.invalidateQueries({ queryKey: ['admin-ai-usage'] });
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors de la mise à jour du budget'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="mb-1 text-2xl font-medium">Usage IA</h1>
+          <p className="text-muted-foreground">Chargement...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const features = summarizeByFeature(data?.byFeature);
+
+  return (
+    <div className="space-y-6 lg:space-y-8">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="mb-1 text-2xl font-medium">Usage IA</h1>
+          <p className="text-muted-foreground">
+            Appels aux modèles, tokens consommés et dépenses
+          </p>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">7 derniers jours</SelectItem>
+            <SelectItem value="30">30 derniers jours</SelectItem>
+            <SelectItem value="90">90 derniers jours</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Budget */}
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <BudgetCard
+          title="Dépenses aujourd'hui"
+          spent={budget?.dailySpentUsd ?? 0}
+          limit={budget?.dailyLimitUsd ?? null}
+          exceeded={budget?.exceeded === 'daily'}
+        />
+        <BudgetCard
+          title="Dépenses ce mois"
+          spent={budget?.monthlySpentUsd ?? 0}
+          limit={budget?.monthlyLimitUsd ?? null}
+          exceeded={budget?.exceeded === 'monthly'}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Budget</CardTitle>
+          <CardDescription>
+            Limite atteinte: l&apos;analyse automatique des objets est ignorée
+            et la génération des suggestions est différée. Laisser vide pour ne
+            pas limiter.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="daily-limit">Limite journalière (USD)</Label>
+              <Input
+                id="daily-limit"
+                type="number"
+                min="0"
+                step="0.01"
+                value={dailyLimit}
+                onChange={(e) => setDailyLimit(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="monthly-limit">Limite mensuelle (USD)</Label>
+              <Input
+                id="monthly-limit"
+                type="number"
+                min="0"
+                step="0.01"
+                value={monthlyLimit}
+                onChange={(e) => setMonthlyLimit(e.target.value)}
+              />
+            </div>
+            <Button onClick={saveBudget} disabled={isSaving}>
+              {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Par fonctionnalité */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Par fonctionnalité</CardTitle>
+          <CardDescription>
+            Depuis le{' '}
+            {data?.since
+              ? new Date(data.since).toLocaleDateString('fr-FR')
+              : '-'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fonctionnalité</TableHead>
+                <TableHead>Appels</TableHead>
+                <TableHead>Erreurs</TableHead>
+                <TableHead>Refusés</TableHead>
+                <TableHead>Tokens (entrée / sortie)</TableHead>
+                <TableHead>Latence moyenne</TableHead>
+                <TableHead>Coût</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {features.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={7}
+                    className="text-center text-muted-foreground"
+                  >
+                    Aucun appel sur la période
+                  </TableCell>
+                </TableRow>
+              ) : (
+                features.map((feature) => (
+                  <TableRow key={feature.feature}>
+                    <TableCell className="font-medium">
+                      {FEATURE_LABELS[feature.feature] || feature.feature}
+                    </TableCell>
+                    <TableCell>{feature.calls}</TableCell>
+                    <TableCell>{feature.errors}</TableCell>
+                    <TableCell>{feature.refused}</TableCell>
+                    <TableCell>
+                      {feature.inputTokens.toLocaleString('fr-FR')} /{' '}
+                      {feature.outputTokens.toLocaleString('fr-FR')}
+                    </TableCell>
+                    <TableCell>
+                      {Math.round(feature.latencyTotal / feature.calls)} ms
+                    </TableCell>
+                    <TableCell>{formatUsd(feature.costUsd)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Par jour */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Par jour</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Jour</TableHead>
+                <TableHead>Appels</TableHead>
+                <TableHead>Coût</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data?.daily?.map((row) => (
+                <TableRow key={row.day}>
+                  <TableCell>
+                    {new Date(row.day).toLocaleDateString('fr-FR')}
+                  </TableCell>
+                  <TableCell>{row.calls}</TableCell>
+                  <TableCell>{formatUsd(row.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Derniers appels */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Derniers appels</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Fonctionnalité</TableHead>
+                <TableHead>Modèle</TableHead>
+                <TableHead>Résultat</TableHead>
+                <TableHead>Entité</TableHead>
+                <TableHead>Latence</TableHead>
+                <TableHead>Coût</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data?.recent?.map((call) => (
+                <TableRow key={call.id}>
+                  <TableCell>
+                    {new Date(call.createdAt).toLocaleString('fr-FR')}
+                  </TableCell>
+                  <TableCell>
+                    {FEATURE_LABELS[call.feature] || call.feature}
+                  </TableCell>
+                  <TableCell>
+                    <code className="rounded bg-muted px-2 py-1 text-xs">
+                      {call.model}
+                    </code>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        call.outcome === 'SUCCESS' ? 'secondary' : 'destructive'
+                      }
+                      title={call.error || undefined}
+                    >
+                      {OUTCOME_LABELS[call.outcome] || call.outcome}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {call.entityType ? (
+                      <code className="rounded bg-muted px-2 py-1 text-xs">
+                        {call.entityType} {call.entityId}
+                      </code>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{call.latencyMs} ms</TableCell>
+                  <TableCell>{formatUsd(call.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,553 @@
+/**
+ * FICHIER: prompts/page.tsx
+ *
+ * DESCRIPTION:
+ * Page de gestion des prompts IA: versions de chaque prompt, version active et
+ * version candidate (comparaison A/B) par environnement, et comparaison des
+ * versions (appels, réponses invalides, résultats observés).
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { isAxiosError } from 'axios';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { adminApi, type AiPrompts } from '@/lib/admin.api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const FEATURE_LABELS: Record<string, string> = {
+  itemAnalysis: "Analyse d'objets",
+  suggestions: 'Suggestions',
+  theme: 'Thème de la semaine',
+  ecoEnrichment: 'Enrichissement éco',
+  photoAnalysis: 'Analyse des photos',
+};
+
+const METRIC_LABELS: Record<string, string> = {
+  categoryKept: 'Catégorie conservée',
+};
+
+// Valeur du sélecteur de candidate: pas de comparaison A/B
+const NO_CANDIDATE = 'none';
+
+const formatUsd = (value: number) =>
+  `${value.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 4 })} $`;
+
+const formatRate = (count: number, total: number) =>
+  total === 0 ? '-' : `${Math.round((count / total) * 100)} %`;
+
+/**
+ * Message d'erreur renvoyé par l'API (validation du prompt, version inconnue...).
+ */
+const errorMessage = (error: unknown, fallback: string) => {
+  const message = isAxiosError(error)
+    ? error.response?.data?.message
+    : undefined;
+  if (Array.isArray(message)) return message.join(', ');
+  return message || fallback;
+};
+
+type VersionSummary = {
+  version: number;
+  calls: number;
+  errors: number;
+  costUsd: number;
+  latencyTotal: number;
+  repaired: number;
+  fallback: number;
+  metrics: Record<string, { kept: number; total: number }>;
+};
+
+/**
+ * Regroupe les statistiques d'un prompt par version.
+ */
+function summarizeByVersion(data: AiPrompts, feature: string) {
+  const versions = new Map<number, VersionSummary>();
+  const summaryOf = (version: number) => {
+    const summary = versions.get(version) || {
+      version,
+      calls: 0,
+      errors: 0,
+      costUsd: 0,
+      latencyTotal: 0,
+      repaired: 0,
+      fallback: 0,
+      metrics: {},
+    };
+    versions.set(version, summary);
+    return summary;
+  };
+
+  for (const row of data.calls.filter((row) => row.feature === feature)) {
+    const summary = summaryOf(row.promptVersion);
+    summary.calls += row.calls;
+    if (row.outcome === 'ERROR') summary.errors += row.calls;
+    summary.costUsd += row.costUsd;
+    summary.latencyTotal += row.avgLatencyMs * row.calls;
+  }
+
+  for (const row of data.validationFailures.filter(
+    (row) => row.feature === feature
+  )) {
+    const summary = summaryOf(row.promptVersion);
+    if (row.outcome === 'REPAIRED') summary.repaired += row.count;
+    if (row.outcome === 'FALLBACK') summary.fallback += row.count;
+  }
+
+  for (const row of data.outcomes.filter((row) => row.feature === feature)) {
+    const metric = (summaryOf(row.promptVersion).metrics[row.metric] ||= {
+      kept: 0,
+      total: 0,
+    });
+    metric.total += row.count;
+    if (row.value) metric.kept += row.count;
+  }
+
+  return Array.from(versions.values()).sort((a, b) => b.version - a.version);
+}
+
+export default function AdminAiPromptsPage() {
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState('30');
+  const [feature, setFeature] = useState('itemAnalysis');
+
+  // Déploiement
+  const [environment, setEnvironment] = useState('');
+  const [activeVersion, setActiveVersion] = useState('1');
+  const [candidateVersion, setCandidateVersion] = useState(NO_CANDIDATE);
+  const [candidateShare, setCandidateShare] = useState('0');
+  const [isDeploying, setIsDeploying] = useState(false);
+
+  // Nouvelle version
+  const [baseVersion, setBaseVersion] = useState('');
+  const [template, setTemplate] = useState('');
+  const [note, setNote] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin-ai-prompts', days],
+    queryFn: () => adminApi.getAiPrompts(Number(days)),
+  });
+
+  const prompt = data?.prompts.find((p) => p.feature === feature);
+  const serverEnvironment = data?.environment;
+  const deployment = prompt?.deployments.find(
+    (d) => d.environment === environment
+  );
+  const latestVersion = prompt?.versions[0]?.version;
+
+  // Environnement du serveur par défaut
+  useEffect(() => {
+    if (serverEnvironment) {
+      setEnvironment((current) => current || serverEnvironment);
+    }
+  }, [serverEnvironment]);
+
+  // Pré-remplir le déploiement de l'environnement choisi
+  const deployedVersion = deployment?.version;
+  const deployedCandidate = deployment?.candidateVersion;
+  const deployedShare = deployment?.candidateShare;
+  useEffect(() => {
+    setActiveVersion(String(deployedVersion ?? 1));
+    setCandidateVersion(
+      deployedCandidate ? String(deployedCandidate) : NO_CANDIDATE
+    );
+    setCandidateShare(String(deployedShare ?? 0));
+  }, [feature, environment, deployedVersion, deployedCandidate, deployedShare]);
+
+  // Nouvelle version: partir de la dernière version du prompt
+  useEffect(() => {
+    setBaseVersion(latestVersion ? String(latestVersion) : '');
+  }, [feature, latestVersion]);
+
+  const baseTemplate = prompt?.versions.find(
+    (v) => String(v.version) === baseVersion
+  )?.template;
+  useEffect(() => {
+    setTemplate(baseTemplate ?? '');
+  }, [baseTemplate]);
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: ['admin-ai-prompts'] });
+
+  const saveDeployment = async () => {
+    setIsDeploying(true);
+    try {
+      const candidate =
+        candidateVersion === NO_CANDIDATE ? null : Number(candidateVersion);
+      await adminApi.updatePromptDeployment(feature, {
+        environment,
+        version: Number(activeVersion),
+        candidateVersion: candidate,
+        candidateShare: candidate === null ? 0 : Number(candidateShare),
+      });
+      toast.success(`Déploiement ${environment} mis à jour`);
+      refresh();
+    } catch (error) {
+      toast.error(errorMessage(error, 'Erreur lors du déploiement'));
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const createVersion = async () => {
+    setIsCreating(true);
+    try {
+      const created = await adminApi.createPromptVersion(feature, {
+        template,
+        note: note.trim() || undefined,
+      });
+      toast.success(`Version ${created.version} créée`);
+      setNote('');
+      refresh();
+    } catch (error) {
+      toast.error(errorMessage(error, 'Erreur lors de la création'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="mb-1 text-2xl font-medium">Prompts IA</h1>
+          <p className="text-muted-foreground">Chargement...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const versions = summarizeByVersion(data, feature);
+
+  return (
+    <div className="space-y-6 lg:space-y-8">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="mb-1 text-2xl font-medium">Prompts IA</h1>
+          <p className="text-muted-foreground">
+            Versions, déploiement par environnement et comparaison A/B (serveur:{' '}
+            <code>{data.environment}</code>)
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={feature} onValueChange={setFeature}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {data.prompts.map((p) => (
+                <SelectItem key={p.feature} value={p.feature}>
+                  {FEATURE_LABELS[p.feature] || p.feature}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">7 derniers jours</SelectItem>
+              <SelectItem value="30">30 derniers jours</SelectItem>
+              <SelectItem value="90">90 derniers jours</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Comparaison des versions */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Comparaison des versions</CardTitle>
+          <CardDescription>
+            {prompt?.description}. Depuis le{' '}
+            {new Date(data.since).toLocaleDateString('fr-FR')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Appels</TableHead>
+                <TableHead>Erreurs</TableHead>
+                <TableHead>Corrigées</TableHead>
+                <TableHead>Abandonnées</TableHead>
+                <TableHead>Latence moyenne</TableHead>
+                <TableHead>Coût</TableHead>
+                <TableHead>Résultats observés</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={8}
+                    className="text-center text-muted-foreground"
+                  >
+                    Aucun appel sur la période
+                  </TableCell>
+                </TableRow>
+              ) : (
+                versions.map((version) => (
+                  <TableRow key={version.version}>
+                    <TableCell className="font-medium">
+                      v{version.version}
+                    </TableCell>
+                    <TableCell>{version.calls}</TableCell>
+                    <TableCell>
+                      {formatRate(version.errors, version.calls)}
+                    </TableCell>
+                    <TableCell>
+                      {formatRate(version.repaired, version.calls)}
+                    </TableCell>
+                    <TableCell>
+                      {formatRate(version.fallback, version.calls)}
+                    </TableCell>
+                    <TableCell>
+                      {version.calls
+                        ? `${Math.round(version.latencyTotal / version.calls)} ms`
+                        : '-'}
+                    </TableCell>
+                    <TableCell>{formatUsd(version.costUsd)}</TableCell>
+                    <TableCell>
+                      {Object.entries(version.metrics).map(
+                        ([metric, { kept, total }]) => (
+                          <div key={metric}>
+                            {METRIC_LABELS[metric] || metric}:{' '}
+                            {formatRate(kept, total)} ({total})
+                          </div>
+                        )
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Déploiement */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Déploiement</CardTitle>
+          <CardDescription>
+            La version candidate reçoit le pourcentage de trafic indiqué; un
+            même objet ou thème reçoit toujours la même version.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="environment">Environnement</Label>
+              <Input
+                id="environment"
+                value={environment}
+                onChange={(e) => setEnvironment(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Version active</Label>
+              <Select value={activeVersion} onValueChange={setActiveVersion}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {prompt?.versions.map((v) => (
+                    <SelectItem key={v.version} value={String(v.version)}>
+                      v{v.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Version candidate</Label>
+              <Select
+                value={candidateVersion}
+                onValueChange={setCandidateVersion}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CANDIDATE}>Aucune</SelectItem>
+                  {prompt?.versions
+                    .filter((v) => String(v.version) !== activeVersion)
+                    .map((v) => (
+                      <SelectItem key={v.version} value={String(v.version)}>
+                        v{v.version}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="candidate-share">Trafic candidate (%)</Label>
+              <Input
+                id="candidate-share"
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={candidateShare}
+                disabled={candidateVersion === NO_CANDIDATE}
+                onChange={(e) => setCandidateShare(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={saveDeployment}
+              disabled={isDeploying || !environment.trim()}
+            >
+              {isDeploying ? 'Enregistrement...' : 'Déployer'}
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Environnement</TableHead>
+                <TableHead>Version active</TableHead>
+                <TableHead>Candidate</TableHead>
+                <TableHead>Mis à jour</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {prompt?.deployments.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={4}
+                    className="text-center text-muted-foreground"
+                  >
+                    Aucun déploiement: version 1 dans tous les environnements
+                  </TableCell>
+                </TableRow>
+              ) : (
+                prompt?.deployments.map((d) => (
+                  <TableRow key={d.id}>
+                    <TableCell>
+                      <code className="rounded bg-muted px-2 py-1 text-xs">
+                        {d.environment}
+                      </code>
+                      {d.environment === data.environment && (
+                        <Badge variant="secondary" className="ml-2">
+                          Serveur
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>v{d.version}</TableCell>
+                    <TableCell>
+                      {d.candidateVersion
+                        ? `v${d.candidateVersion} (${d.candidateShare} %)`
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {new Date(d.updatedAt).toLocaleString('fr-FR')}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Nouvelle version */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Nouvelle version</CardTitle>
+          <CardDescription>
+            Une version n&apos;est jamais modifiée: chaque enregistrement crée
+            la version suivante, à déployer ensuite.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="space-y-2">
+              <Label>Partir de</Label>
+              <Select value={baseVersion} onValueChange={setBaseVersion}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {prompt?.versions.map((v) => (
+                    <SelectItem key={v.version} value={String(v.version)}>
+                      v{v.version}
+                      {v.note ? ` - ${v.note}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="note">Note</Label>
+              <Input
+                id="note"
+                placeholder="Ex: exemples de tags plus précis"
+                maxLength={200}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 text-sm">
+            {Object.entries(prompt?.variables ?? {}).map(
+              ([name, description]) => (
+                <Badge key={name} variant="outline" title={description}>
+                  {`{{${name}}}`}
+                </Badge>
+              )
+            )}
+          </div>
+
+          <Textarea
+            rows={20}
+            className="font-mono text-xs"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+          />
+
+          <Button
+            onClick={createVersion}
+            disabled={
+              isCreating || !template.trim() || template === baseTemplate
+            }
+          >
+            {isCreating ? 'Enregistrement...' : 'Créer la version'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -40,6 +40,8 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Checkbox } from '@/components/ui/checkbox';
+import { REPORT_REASON_LABELS, REPORT_TARGET_LABELS } from '@/lib/constants';
+import { ReportReason, ReportTargetType } from '@/types';
 
 export default function AdminReportsPage() {
   const queryClient = useQueryClient();
@@ -160,7 +162,9 @@ export default function AdminReportsPage() {
             <TableHeader>
               <TableRow>
                 <TableHead>Type</TableHead>
+                <TableHead>Motif</TableHead>
                 <TableHead>Message</TableHead>
+                <TableHead>Signalé par</TableHead>
                 <TableHead>Utilisateur ciblé</TableHead>
                 <TableHead>Statut</TableHead>
                 <TableHead>Date</TableHead>
@@ -171,10 +175,22 @@ export default function AdminReportsPage() {
               {data?.reports?.map((report: any) => (
                 <TableRow key={report.id}>
                   <TableCell>
-                    <Badge variant="secondary">{report.type}</Badge>
+                    <Badge variant="secondary">
+                      {REPORT_TARGET_LABELS[report.type as ReportTargetType] || report.type}
+                    </Badge>
                   </TableCell>
                   <TableCell>
-                    <div className="max-w-md truncate">{report.message}</div>
+                    {REPORT_REASON_LABELS[report.reason as ReportReason] || report.reason}
+                  </TableCell>
+                  <TableCell>
+                    <div className="max-w-md truncate">{report.message || '-'}</div>
+                  </TableCell>
+                  <TableCell>
+                    {report.reporter ? (
+                      <span className="text-sm">{report.reporter.displayName}</span>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
                   </TableCell>
                   <TableCell>
                     {report.targetUserId ? (
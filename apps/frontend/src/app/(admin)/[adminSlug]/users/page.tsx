@@ -34,8 +34,39 @@ import {
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 
+/**
+ * Durées de bannissement proposées (en jours); 'permanent' = sans date de fin
+ */
+const BAN_DURATIONS = [
+  { value: 'permanent', label: 'Définitif' },
+  { value: '1', label: '1 jour' },
+  { value: '7', label: '7 jours' },
+  { value: '30', label: '30 jours' },
+];
+
+/**
+ * Utilisateur de la liste admin (seul le bannissement est lu ici)
+ */
+interface AdminUserBanInfo {
+  ban?: { expiresAt?: string | null } | null;
+}
+
+/**
+ * Un bannissement dont la date de fin est dépassée n'est plus actif
+ * (le serveur le lève à la prochaine connexion de l'utilisateur)
+ */
+const isBanActive = (ban?: AdminUserBanInfo['ban']) =>
+  !!ban && (!ban.expiresAt || new Date(ban.expiresAt) > new Date());
+
 export default function AdminUsersPage() {
   const queryClient = useQueryClient();
   const [page, setPage] = useState(1);
@@ -43,6 +74,7 @@ export default function AdminUsersPage() {
   const [selectedUser, setSelectedUser] = useState<any>(null);
   const [banDialogOpen, setBanDialogOpen] = useState(false);
   const [banReason, setBanReason] = useState('');
+  const [banDuration, setBanDuration] = useState('permanent');
 
   const { data, isLoading } = useQuery({
     queryKey: ['admin-users', page, search],
@@ -67,10 +99,21 @@ export default function AdminUsersPage() {
   const confirmBan = async () => {
     if (!selectedUser) return;
     try {
-      await adminApi.banUser(selectedUser.id, banReason || undefined);
+      const expiresAt =
+        banDuration === 'permanent'
+          ? undefined
+          : new Date(
+              Date.now() + Number(banDuration) * 24 * 60 * 60 * 1000
+            ).toISOString();
+      await adminApi.banUser(
+        selectedUser.id,
+        banReason || undefined,
+        expiresAt
+      );
       toast.success('Utilisateur banni avec succès');
       setBanDialogOpen(false);
       setBanReason('');
+      setBanDuration('permanent');
       setSelectedUser(null);
       queryClient.invalidateQueries({ queryKey: ['admin-users'] });
     } catch (error: any) {
@@ -79,8 +122,14 @@ export default function AdminUsersPage() {
   };
 
   const getStatusBadge = (user: any) => {
-    if (user.ban) {
-      return <Badge variant="destructive">Banni</Badge>;
+    if (isBanActive(user.ban)) {
+      return (
+        <Badge variant="destructive">
+          {user.ban.expiresAt
+            ? `Suspendu jusqu'au ${new Date(user.ban.expiresAt).toLocaleDateString('fr-FR')}`
+            : 'Banni'}
+        </Badge>
+      );
     }
     return <Badge variant="default">Actif</Badge>;
   };
@@ -118,7 +167,7 @@ export default function AdminUsersPage() {
           <CardHeader className="pb-3">
             <CardDescription>Utilisateurs bannis</CardDescription>
             <CardTitle className="text-2xl">
-              {data?.users?.filter((u: any) => u.ban).length || 0}
+              {data?.users?.filter((u: AdminUserBanInfo) => isBanActive(u.ban)).length || 0}
             </CardTitle>
           </CardHeader>
         </Card>
@@ -212,7 +261,7 @@ export default function AdminUsersPage() {
                       >
                         <Eye className="w-4 h-4" />
                       </Button>
-                      {user.ban ? (
+                      {isBanActive(user.ban) ? (
                         <Button
                           variant="ghost"
                           size="icon"
@@ -284,6 +333,21 @@ export default function AdminUsersPage() {
                 onChange={(e) => setBanReason(e.target.value)}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="duration">Durée</Label>
+              <Select value={banDuration} onValueChange={setBanDuration}>
+                <SelectTrigger id="duration">
+                  <SelectValue placeholder="Durée du bannissement" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BAN_DURATIONS.map((duration) => (
+                    <SelectItem key={duration.value} value={duration.value}>
+                      {duration.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setBanDialogOpen(false)}>
@@ -5,11 +5,13 @@
  *
  * DESCRIPTION:
  * Page ultra complète d'un échange. Elle regroupe le suivi du statut,
- * la comparaison des deux objets échangés, les actions possibles selon
+ * la comparaison des deux lots d'objets échangés, les actions possibles selon
  * le rôle de l'utilisateur, ainsi qu'un chat temps réel via socket.io.
  *
  * FONCTIONNALITÉS:
- * - Chargement de l'échange + items associés via exchangesApi/itemsApi
+ * - Chargement de l'échange + lot d'items liés (items, côtés OFFERED/REQUESTED) via exchangesApi
+ * - Négociation: contre-propositions à tour de rôle (CounterProposalDialog) et
+ *   historique des révisions du lot (NegotiationTimeline)
  * - Historique et timeline des statuts (StatusBadge + StatusActions)
  * - Chat temps réel (MessageBubble + socketService)
  * - Upload d'images / visualisation (Image preview)
@@ -41,15 +43,19 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog';
-import { Exchange, ChatMessage, Item } from '@/types';
+import { Exchange, ChatMessage, ExchangeItem, Item } from '@/types';
 import { exchangesApi } from '@/lib/exchanges.api';
-import { itemsApi } from '@/lib/items.api';
 import { StatusBadge } from '@/components/exchanges/StatusBadge';
 import { StatusActions } from '@/components/exchanges/StatusActions';
+import { CounterProposalDialog } from '@/components/exchanges/CounterProposalDialog';
+import { NegotiationTimeline } from '@/components/exchanges/NegotiationTimeline';
+import { ReportDialog } from '@/components/reports/ReportDialog';
+import { RatingBadge } from '@/components/ratings/RatingBadge';
+import { ExchangeRatingCard } from '@/components/ratings/ExchangeRatingCard';
 import { MessageBubble } from '@/components/chat/MessageBubble';
 import { useQuery } from '@tanstack/react-query';
 import { useAuthStore } from '@/store/auth';
-import { socketService } from '@/lib/socket';
+import { socketService, SocketAuthError } from '@/lib/socket';
 import {
   ArrowLeft,
   Send,
@@ -58,6 +64,8 @@ import {
   Package,
   Image as ImageIcon,
   X as XIcon,
+  Flag,
+  ArrowLeftRight,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
@@ -65,6 +73,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import ProtectedRoute from '../../(auth)/protected';
 import { toast } from 'react-hot-toast';
+import { isAxiosError } from 'axios';
 import { uploadApi } from '@/lib/upload.api';
 import { PhotoMeta } from '@/types';
 
@@ -90,6 +99,7 @@ function ExchangeDetailPageContent() {
     data: exchange,
     isLoading,
     error,
+    refetch,
   } = useQuery({
     queryKey: ['exchange', exchangeId],
     queryFn: () => exchangesApi.getExchange(exchangeId),
@@ -103,87 +113,16 @@ function ExchangeDetailPageContent() {
       : exchange.requester
     : null;
 
-  // Récupérer l'item offert (celui du requester)
-  const { data: offeredItem } = useQuery({
-    queryKey: [
-      'item',
-      'offered',
-      exchange?.requesterId,
-      exchange?.offeredItemTitle,
-    ],
-    queryFn: async () => {
-      if (!exchange?.offeredItemTitle || !exchange?.requesterId) return null;
-      try {
-        // Rechercher par titre uniquement (le backend n'accepte pas les CUIDs comme UUIDs)
-        const result = await itemsApi.listItems({
-          q: exchange.offeredItemTitle,
-          limit: 20,
-          page: 1,
-        });
-        // Vérifier que result et result.items existent
-        if (!result || !result.items || !Array.isArray(result.items)) {
-          return null;
-        }
-        // Filtrer côté client pour trouver l'item avec le bon titre ET le bon propriétaire
-        const item = result.items.find(
-          (item) =>
-            item.title.toLowerCase().trim() ===
-              exchange.offeredItemTitle.toLowerCase().trim() &&
-            item.ownerId === exchange.requesterId
-        );
-        return item || null;
-      } catch (error: any) {
-        console.error(
-          "Erreur lors de la récupération de l'item offert:",
-          error?.response?.data || error?.message || error
-        );
-        return null;
-      }
-    },
-    enabled: !!exchange?.offeredItemTitle && !!exchange?.requesterId,
-    retry: false, // Ne pas réessayer en cas d'erreur
-  });
+  // Lot de l'échange par côté (item null pour les anciens échanges ou si l'item a été supprimé)
+  const offeredEntries =
+    exchange?.items.filter((entry) => entry.side === 'OFFERED') ?? [];
+  const requestedEntries =
+    exchange?.items.filter((entry) => entry.side === 'REQUESTED') ?? [];
 
-  // Récupérer l'item demandé (celui du responder)
-  const { data: requestedItem } = useQuery({
-    queryKey: [
-      'item',
-      'requested',
-      exchange?.responderId,
-      exchange?.requestedItemTitle,
-    ],
-    queryFn: async () => {
-      if (!exchange?.requestedItemTitle || !exchange?.responderId) return null;
-      try {
-        // Rechercher par titre uniquement (le backend n'accepte pas les CUIDs comme UUIDs)
-        const result = await itemsApi.listItems({
-          q: exchange.requestedItemTitle,
-          limit: 20,
-          page: 1,
-        });
-        // Vérifier que result et result.items existent
-        if (!result || !result.items || !Array.isArray(result.items)) {
-          return null;
-        }
-        // Filtrer côté client pour trouver l'item avec le bon titre ET le bon propriétaire
-        const item = result.items.find(
-          (item) =>
-            item.title.toLowerCase().trim() ===
-              exchange.requestedItemTitle.toLowerCase().trim() &&
-            item.ownerId === exchange.responderId
-        );
-        return item || null;
-      } catch (error: any) {
-        console.error(
-          "Erreur lors de la récupération de l'item demandé:",
-          error?.response?.data || error?.message || error
-        );
-        return null;
-      }
-    },
-    enabled: !!exchange?.requestedItemTitle && !!exchange?.responderId,
-    retry: false, // Ne pas réessayer en cas d'erreur
-  });
+  // Le destinataire du lot en cours accepte, refuse ou contre-propose
+  // (l'autre participant que l'auteur de la dernière révision)
+  const isProposalRecipient = exchange?.proposedById !== user?.id;
+  const isCounterProposal = (exchange?.currentVersion ?? 1) > 1;
 
   // Connexion au socket
   useEffect(() => {
@@ -197,10 +136,17 @@ function ExchangeDetailPageContent() {
       setOptimisticMessages((prev) => prev.filter((m) => m.id !== message.id));
     };
 
+    // Session WebSocket refusée (token invalide, rafraîchissement impossible...)
+    const handleAuthError = (authError: SocketAuthError) => {
+      toast.error(authError.message);
+    };
+
     socketService.onMessage(handleNewMessage);
+    socketService.onAuthError(handleAuthError);
 
     return () => {
       socketService.offMessage(handleNewMessage);
+      socketService.offAuthError(handleAuthError);
       socketService.leaveExchange();
     };
   }, [exchangeId, user]);
@@ -234,13 +180,28 @@ function ExchangeDetailPageContent() {
     if (!exchange) return;
 
     try {
-      await exchangesApi.updateExchangeStatus(exchange.id, { status });
+      // La décision porte sur la révision affichée: refusée (409) si une
+      // contre-proposition plus récente est arrivée entre-temps
+      await exchangesApi.updateExchangeStatus(exchange.id, {
+        status,
+        version: exchange.currentVersion,
+      });
       toast.success(
         status === 'ACCEPTED' ? 'Échange accepté !' : 'Échange refusé'
       );
       router.refresh();
     } catch (error) {
-      toast.error('Erreur lors de la mise à jour du statut');
+      // Les transitions refusées (409) renvoient un message explicite
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) ||
+          'Erreur lors de la mise à jour du statut'
+      );
+      if (
+        isAxiosError(error) &&
+        error.response?.data?.code === 'EXCHANGE_STALE_REVISION'
+      ) {
+        refetch();
+      }
     }
   };
 
@@ -334,7 +295,7 @@ function ExchangeDetailPageContent() {
       const contentToSend =
         messageContent || (uploadedImages.length > 0 ? '📷 Photo(s)' : '');
       const imageUrls = uploadedImages.map((img) => img.url);
-      socketService.sendMessage(exchangeId, contentToSend, imageUrls, user?.id);
+      socketService.sendMessage(exchangeId, contentToSend, imageUrls);
     } catch (error) {
       toast.error("Erreur lors de l'envoi du message");
       setOptimisticMessages((prev) =>
@@ -359,9 +320,7 @@ function ExchangeDetailPageContent() {
     }
   };
 
-  const getItemImageUrl = (itemTitle: string, isOffered: boolean): string => {
-    const item = isOffered ? offeredItem : requestedItem;
-
+  const getItemImageUrl = (item: Item | null): string => {
     if (item?.photos && item.photos.length > 0) {
       // Utiliser la première photo de l'item
       return item.photos[0].url;
@@ -382,6 +341,33 @@ function ExchangeDetailPageContent() {
     }
   };
 
+  // Objets d'un côté du lot (chaque objet ouvre sa fiche)
+  const renderBundle = (entries: ExchangeItem[]) => (
+    <div className="space-y-2">
+      {entries.map((entry) => (
+        <button
+          key={entry.id}
+          type="button"
+          onClick={() => handleItemClick(entry.item, entry.title)}
+          className="flex w-full items-center gap-3 rounded-xl p-1 text-left transition-colors hover:bg-muted/50"
+        >
+          <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-xl">
+            <Image
+              src={getItemImageUrl(entry.item)}
+              alt={entry.title}
+              fill
+              className="object-cover"
+              sizes="64px"
+            />
+          </div>
+          <div className="min-w-0 flex-1">
+            <h4 className="truncate font-medium">{entry.title}</h4>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -454,7 +440,10 @@ function ExchangeDetailPageContent() {
             </Avatar>
 
             <div className="flex-1">
-              <h3>{otherUser.displayName}</h3>
+              <div className="flex flex-wrap items-center gap-2">
+                <h3>{otherUser.displayName}</h3>
+                <RatingBadge rating={otherUser.rating} />
+              </div>
               <p className="text-sm text-muted-foreground">
                 En ligne il y a 5 min
               </p>
@@ -470,6 +459,16 @@ function ExchangeDetailPageContent() {
               {exchange.status === 'DECLINED' && 'Refusé'}
               {exchange.status === 'CANCELLED' && 'Annulé'}
             </Badge>
+
+            <ReportDialog targetType="EXCHANGE" targetId={exchange.id}>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Signaler cet échange"
+              >
+                <Flag className="h-5 w-5" />
+              </Button>
+            </ReportDialog>
           </div>
         </div>
       </div>
@@ -478,65 +477,37 @@ function ExchangeDetailPageContent() {
       <div className="border-b border-border bg-card/50">
         <div className="container mx-auto px-4 py-4 lg:px-8">
           <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-            {/* Carte 1: Item offert (celui du requester) */}
-            <Card
-              className="cursor-pointer border-border bg-card p-4 transition-all hover:border-primary/50 hover:shadow-md"
-              onClick={() => handleItemClick(offeredItem || null)}
-            >
+            {/* Carte 1: Lot offert (celui du requester) */}
+            <Card className="border-border bg-card p-4">
               <p className="mb-2 text-sm text-muted-foreground">
                 {isRequester
                   ? 'Vous proposez'
                   : `${otherUser?.displayName} propose`}
               </p>
-              <div className="flex items-center gap-3">
-                <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-xl">
-                  <Image
-                    src={getItemImageUrl(exchange.offeredItemTitle, true)}
-                    alt={exchange.offeredItemTitle}
-                    fill
-                    className="object-cover"
-                    sizes="64px"
-                  />
-                </div>
-                <div className="min-w-0 flex-1">
-                  <h4 className="truncate font-medium">
-                    {exchange.offeredItemTitle}
-                  </h4>
-                </div>
-              </div>
+              {renderBundle(offeredEntries)}
             </Card>
 
-            {/* Carte 2: Item demandé (celui du responder) */}
-            <Card
-              className="cursor-pointer border-border bg-card p-4 transition-all hover:border-primary/50 hover:shadow-md"
-              onClick={() => handleItemClick(requestedItem || null)}
-            >
+            {/* Carte 2: Lot demandé (celui du responder) */}
+            <Card className="border-border bg-card p-4">
               <p className="mb-2 text-sm text-muted-foreground">
                 {isRequester
                   ? `${otherUser?.displayName} propose`
                   : 'Vous proposez'}
               </p>
-              <div className="flex items-center gap-3">
-                <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-xl">
-                  <Image
-                    src={getItemImageUrl(exchange.requestedItemTitle, false)}
-                    alt={exchange.requestedItemTitle}
-                    fill
-                    className="object-cover"
-                    sizes="64px"
-                  />
-                </div>
-                <div className="min-w-0 flex-1">
-                  <h4 className="truncate font-medium">
-                    {exchange.requestedItemTitle}
-                  </h4>
-                </div>
-              </div>
+              {renderBundle(requestedEntries)}
             </Card>
           </div>
 
-          {exchange.status === 'PENDING' && !isRequester && (
-            <div className="mt-4 flex gap-3">
+          {exchange.status === 'PENDING' && isCounterProposal && (
+            <p className="mt-3 text-sm text-muted-foreground">
+              {isProposalRecipient
+                ? `${otherUser.displayName} a modifié le lot (version ${exchange.currentVersion}): acceptez, refusez ou faites une nouvelle proposition.`
+                : `Contre-proposition envoyée, en attente de la réponse de ${otherUser.displayName}.`}
+            </p>
+          )}
+
+          {exchange.status === 'PENDING' && isProposalRecipient && (
+            <div className="mt-4 flex flex-wrap gap-3">
               <Button
                 className="flex-1 bg-primary hover:bg-primary/90"
                 onClick={() => handleStatusUpdate('ACCEPTED')}
@@ -552,6 +523,42 @@ function ExchangeDetailPageContent() {
                 <X className="mr-2 h-4 w-4" />
                 Refuser
               </Button>
+              <CounterProposalDialog exchange={exchange}>
+                <Button variant="outline" className="flex-1">
+                  <ArrowLeftRight className="mr-2 h-4 w-4" />
+                  Contre-proposer
+                </Button>
+              </CounterProposalDialog>
+            </div>
+          )}
+
+          {/* Négociation: une entrée par révision du lot */}
+          {isCounterProposal && (
+            <div className="mt-4">
+              <NegotiationTimeline
+                exchange={exchange}
+                currentUserId={user?.id}
+              />
+            </div>
+          )}
+
+          {/* Échange accepté: confirmation de réalisation (par chacun) ou annulation */}
+          {exchange.status === 'ACCEPTED' && (
+            <div className="mt-4">
+              <StatusActions
+                exchange={exchange}
+                onStatusUpdate={() => refetch()}
+              />
+            </div>
+          )}
+
+          {/* Échange réalisé: avis sur l'autre participant */}
+          {exchange.status === 'COMPLETED' && (
+            <div className="mt-4">
+              <ExchangeRatingCard
+                exchangeId={exchange.id}
+                otherUserName={otherUser.displayName}
+              />
             </div>
           )}
         </div>
@@ -226,6 +226,7 @@ function ExplorePageContent() {
       aiSummary: undefined,
       aiRepairTip: undefined,
       popularityScore: 0,
+      favoriteCount: 0,
       photos: [
         {
           id: 'p1',
@@ -262,6 +263,7 @@ function ExplorePageContent() {
       aiSummary: undefined,
       aiRepairTip: undefined,
       popularityScore: 0,
+      favoriteCount: 0,
       photos: [
         {
           id: 'p2',
@@ -298,6 +300,7 @@ function ExplorePageContent() {
       aiSummary: undefined,
       aiRepairTip: undefined,
       popularityScore: 0,
+      favoriteCount: 0,
       photos: [
         {
           id: 'p3',
@@ -470,6 +473,7 @@ function ExplorePageContent() {
           params={params}
           onParamsChange={handleParamsChange}
           onReset={handleReset}
+          facets={data?.facets}
         />
       </motion.div>
 
@@ -72,6 +72,7 @@
 
 'use client';
 
+import { useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
@@ -81,14 +82,13 @@ import { Button } from '@/components/ui/button';
 import { ItemPhotos } from '@/components/items/ItemPhotos';
 import { ItemOwnerActions } from '@/components/items/ItemOwnerActions';
 import { ProposeExchangeModal } from '@/components/exchanges/ProposeExchangeModal';
+import { ReportDialog } from '@/components/reports/ReportDialog';
+import { FavoriteButton } from '@/components/items/FavoriteButton';
 import { MatchBanner } from '@/components/matching/MatchBanner';
 import { itemsApi } from '@/lib/items.api';
 import { useAuthStore } from '@/store/auth';
-import {
-  ITEM_CATEGORY_LABELS,
-  ITEM_CONDITION_LABELS,
-  ITEM_STATUS_LABELS,
-} from '@/lib/constants';
+import { ITEM_CONDITION_LABELS, ITEM_STATUS_LABELS } from '@/lib/constants';
+import { useCategories } from '@/hooks/useCategories';
 import { formatDistanceToNow } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import {
@@ -98,6 +98,7 @@ import {
   User,
   Sparkles,
   Wrench,
+  Flag,
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -154,6 +155,7 @@ export default function ItemDetailPage() {
    * - Utilisé pour afficher conditionnellement certaines actions
    */
   const { user } = useAuthStore();
+  const { getCategoryLabel } = useCategories();
 
   /**
    * ID de l'item extrait des paramètres de route
@@ -288,6 +290,10 @@ export default function ItemDetailPage() {
          * Score de popularité (0 pour les mocks)
          */
         popularityScore: 0,
+        /**
+         * Aucun utilisateur ne suit un aperçu
+         */
+        favoriteCount: 0,
         /**
          * Photos de l'item depuis Unsplash
          *
@@ -387,6 +393,16 @@ export default function ItemDetailPage() {
     enabled: !!itemId && !isMock,
   });
 
+  /**
+   * Signaler la consultation de la fiche (score de popularité).
+   * Appel silencieux: le serveur déduplique (une vue par visiteur et par jour)
+   * et ignore les vues du propriétaire.
+   */
+  useEffect(() => {
+    if (!itemId || isMock) return;
+    itemsApi.recordView(itemId).catch(() => undefined);
+  }, [itemId, isMock]);
+
   // ============================================
   // DÉTERMINATION DE L'ITEM À AFFICHER
   // ============================================
@@ -729,7 +745,7 @@ export default function ItemDetailPage() {
                        * - Fallback sur la valeur brute si le label n'existe pas
                        */}
                       <Badge variant="secondary">
-                        {ITEM_CATEGORY_LABELS[item.category] || item.category}
+                        {getCategoryLabel(item.category)}
                       </Badge>
                       {/* Badge de condition
                        * - Affiche le label français de la condition
@@ -758,6 +774,16 @@ export default function ItemDetailPage() {
                       </Badge>
                     </div>
                   </div>
+                  {/* Suivre l'objet (notification à chaque changement de statut)
+                   * - Le propriétaire voit seulement le nombre de personnes qui le suivent
+                   */}
+                  {!isMock && (
+                    <FavoriteButton
+                      item={item}
+                      variant="button"
+                      className="shrink-0"
+                    />
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -943,8 +969,18 @@ export default function ItemDetailPage() {
                   <div>
                     {/* Nom d'affichage du propriétaire
                      * - font-medium: Poids de police moyen
+                     * - Lien vers son profil public (sauf item mock)
                      */}
-                    <p className="font-medium">{item.owner.displayName}</p>
+                    {isMock ? (
+                      <p className="font-medium">{item.owner.displayName}</p>
+                    ) : (
+                      <Link
+                        href={`/users/${item.ownerId}`}
+                        className="font-medium hover:underline"
+                      >
+                        {item.owner.displayName}
+                      </Link>
+                    )}
                     {/* Localisation (affichage conditionnel)
                      *
                      * CONDITION:
@@ -1074,6 +1110,39 @@ export default function ItemDetailPage() {
                 </CardContent>
               </Card>
             )}
+
+            {/* ============================================
+                SIGNALEMENT
+                ============================================ */}
+            {/* Signaler l'objet ou son propriétaire (utilisateurs connectés, hors propriétaire)
+             *
+             * COMPOSANT:
+             * - ReportDialog: choix du motif + précisions, envoyé à la modération
+             */}
+            {user && !isOwner && (
+              <div className="flex flex-wrap justify-center gap-2">
+                <ReportDialog targetType="ITEM" targetId={item.id}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-muted-foreground"
+                  >
+                    <Flag className="mr-2 h-4 w-4" />
+                    Signaler cet objet
+                  </Button>
+                </ReportDialog>
+                <ReportDialog targetType="USER" targetId={item.ownerId}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-muted-foreground"
+                  >
+                    <Flag className="mr-2 h-4 w-4" />
+                    Signaler le propriétaire
+                  </Button>
+                </ReportDialog>
+              </div>
+            )}
           </div>
         </div>
       </motion.div>
@@ -4,11 +4,12 @@
  * FICHIER: app/notifications/page.tsx
  *
  * DESCRIPTION:
- * Page de gestion des notifications push. Elle guide l'utilisateur dans
- * l'activation des notifications, l'enregistrement du token et le test
- * d'envoi via notificationsApi.
+ * Page des notifications: boîte de réception in-app et gestion des
+ * notifications push (activation, enregistrement du token, test d'envoi).
  *
  * FONCTIONNALITÉS:
+ * - Boîte de réception persistante (NotificationInbox)
+ * - Appareils recevant les notifications push (NotificationDevices)
  * - Vérification du support navigateur + statut de permission
  * - Demande de permission et enregistrement du token (notificationService)
  * - Test d'envoi de notification (notificationsApi.sendTestNotification)
@@ -28,6 +29,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { notificationService } from '@/lib/notifications';
 import { notificationsApi } from '@/lib/notifications.api';
+import { NotificationInbox } from '@/components/notifications/NotificationInbox';
+import { NotificationDevices } from '@/components/notifications/NotificationDevices';
 import { toast } from 'react-hot-toast';
 import {
   Bell,
@@ -170,13 +173,16 @@ function NotificationsPageContent() {
             <div>
               <h1 className="text-3xl font-bold">Notifications</h1>
               <p className="mt-2 text-muted-foreground">
-                Gérez vos préférences de notifications
+                Consultez vos notifications et gérez vos préférences
               </p>
             </div>
             {getStatusBadge()}
           </div>
         </div>
 
+        {/* Boîte de réception */}
+        <NotificationInbox />
+
         {/* Carte principale */}
         <Card>
           <CardHeader>
@@ -321,6 +327,9 @@ function NotificationsPageContent() {
             )}
           </CardContent>
         </Card>
+
+        {/* Appareils enregistrés */}
+        <NotificationDevices />
       </motion.div>
     </Container>
   );
@@ -333,4 +342,3 @@ export default function NotificationsPage() {
     </ProtectedRoute>
   );
 }
-
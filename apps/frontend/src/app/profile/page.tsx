@@ -14,6 +14,7 @@
  * - Upload d'avatar via Cloudinary (composant AvatarUpload)
  * - Statistiques utilisateur (items publiés, échanges initiés/reçus)
  * - Actions rapides (publier un objet, explorer)
+ * - Préférences de notification par type/canal et heures calmes
  * - Zone de danger (suppression de compte avec confirmation)
  * - Déconnexion avec redirection
  *
@@ -69,6 +70,9 @@ import { useState, useEffect } from 'react';
 // Import de Next.js
 import { useRouter } from 'next/navigation';
 
+// Import de React Query (statistiques du profil)
+import { useQuery } from '@tanstack/react-query';
+
 // Import de Framer Motion pour les animations
 import { motion } from 'framer-motion';
 
@@ -108,6 +112,9 @@ import { User, UpdateProfileDto } from '@/types';
 // Import du store d'authentification
 import { useAuthStore } from '@/store/auth';
 
+// Import du client API (statistiques)
+import apiClient from '@/lib/api';
+
 // Import de react-hot-toast
 import { toast } from 'react-hot-toast';
 
@@ -123,6 +130,9 @@ import {
 
 // Import des composants
 import { AvatarUpload } from '@/components/profile/AvatarUpload';
+import { NotificationPreferencesCard } from '@/components/profile/NotificationPreferencesCard';
+import { SavedSearchesCard } from '@/components/profile/SavedSearchesCard';
+import { ProfilePrivacyCard } from '@/components/profile/ProfilePrivacyCard';
 import ProtectedRoute from '../(auth)/protected';
 
 /**
@@ -298,6 +308,15 @@ function ProfilePageContent() {
    */
   const router = useRouter();
 
+  /**
+   * Statistiques de l'utilisateur (carte "Statistiques")
+   */
+  const { data: stats } = useQuery({
+    queryKey: ['user-stats'],
+    queryFn: () => apiClient.getUserStats(),
+    enabled: !!user,
+  });
+
   // ============================================
   // GESTION DE L'ÉTAT LOCAL
   // ============================================
@@ -1193,6 +1212,15 @@ function ProfilePageContent() {
                 </form>
               </CardContent>
             </Card>
+
+            {/* Préférences de notification (push / boîte de réception, heures calmes) */}
+            <NotificationPreferencesCard />
+
+            {/* Recherches sauvegardées (alertes sur les nouveaux objets) */}
+            <SavedSearchesCard />
+
+            {/* Confidentialité du profil public (sections visibles des autres membres) */}
+            {user && <ProfilePrivacyCard userId={user.id} />}
           </motion.div>
 
           {/* ============================================
@@ -1220,41 +1248,56 @@ function ProfilePageContent() {
                 ============================================ */}
             {/* Carte des statistiques utilisateur
              *
-             * CONTENU:
+             * CONTENU (GET /users/me/stats):
              * - Objets publiés: Nombre d'items créés par l'utilisateur
              * - Échanges initiés: Nombre d'échanges où l'utilisateur est demandeur
              * - Échanges reçus: Nombre d'échanges où l'utilisateur est répondant
-             *
-             * NOTE:
-             * - Actuellement affiche 0 (statistiques à implémenter)
-             * - Pourrait être récupéré depuis l'API /users/me/stats
+             * - Échanges réalisés et taux de réponse: réputation affichée sur le profil public
+             * - Note moyenne: avis reçus après les échanges
              */}
             <Card>
               <CardHeader>
                 <CardTitle>Statistiques</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {/* Statistique: Objets publiés */}
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">
-                    Objets publiés
-                  </span>
-                  <Badge variant="secondary">0</Badge>
-                </div>
-                {/* Statistique: Échanges initiés */}
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">
-                    Échanges initiés
-                  </span>
-                  <Badge variant="secondary">0</Badge>
-                </div>
-                {/* Statistique: Échanges reçus */}
-                <div className="flex items-center justify-between">
-                  <span className="text-sm text-muted-foreground">
-                    Échanges reçus
-                  </span>
-                  <Badge variant="secondary">0</Badge>
-                </div>
+                {[
+                  { label: 'Objets publiés', value: stats?.publishedItems },
+                  {
+                    label: 'Échanges initiés',
+                    value: stats?.exchangesInitiated,
+                  },
+                  { label: 'Échanges reçus', value: stats?.exchangesReceived },
+                  {
+                    label: 'Échanges réalisés',
+                    value: stats?.completedExchanges,
+                  },
+                  {
+                    label: 'Note moyenne',
+                    value: stats
+                      ? stats.averageRating !== null
+                        ? `${stats.averageRating.toLocaleString('fr-FR')} / 5 (${stats.ratingsCount} avis)`
+                        : 'Aucun avis'
+                      : undefined,
+                  },
+                  {
+                    label: 'Taux de réponse',
+                    value: stats
+                      ? stats.responseRate !== null
+                        ? `${stats.responseRate} %`
+                        : '—'
+                      : undefined,
+                  },
+                ].map(({ label, value }) => (
+                  <div
+                    key={label}
+                    className="flex items-center justify-between"
+                  >
+                    <span className="text-sm text-muted-foreground">
+                      {label}
+                    </span>
+                    <Badge variant="secondary">{value ?? '…'}</Badge>
+                  </div>
+                ))}
               </CardContent>
             </Card>
 
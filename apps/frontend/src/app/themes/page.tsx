@@ -32,11 +32,12 @@ import { Calendar, Sparkles, AlertCircle, Tag } from 'lucide-react';
 import Link from 'next/link';
 import { useUnsplashImages } from '@/hooks/useUnsplashImages';
 import { SuggestedItem } from '@/types';
-import { ITEM_CATEGORY_LABELS } from '@/lib/constants';
+import { useCategories } from '@/hooks/useCategories';
 
 export default function ThemesPage() {
   const [selectedWeekIndex, setSelectedWeekIndex] = useState(0);
   const [selectedWeekForDetails, setSelectedWeekForDetails] = useState<string | null>(null);
+  const { getCategoryLabel } = useCategories();
 
   const { data: activeTheme, isLoading: isActiveLoading } = useQuery({
     queryKey: ['theme-active'],
@@ -162,7 +163,7 @@ export default function ThemesPage() {
                         className="text-sm"
                       >
                         <Tag className="mr-1 h-3.5 w-3.5" />
-                        {ITEM_CATEGORY_LABELS[category] || category}
+                        {getCategoryLabel(category)}
                       </Badge>
                     ))}
                   </div>
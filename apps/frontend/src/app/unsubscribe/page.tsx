@@ -0,0 +1,111 @@
+/**
+ * FICHIER: app/unsubscribe/page.tsx
+ *
+ * DESCRIPTION:
+ * Page ouverte depuis le lien "Ne plus recevoir ces emails" des emails de notification.
+ * Elle est publique: le token signé du lien identifie l'utilisateur, aucune connexion
+ * n'est nécessaire.
+ *
+ * FONCTIONNEMENT:
+ * - Le token est lu dans l'URL (?token=...)
+ * - La désinscription n'est appliquée qu'après confirmation (bouton), pour que
+ *   l'ouverture automatique du lien par un antivirus de messagerie ne désinscrive pas
+ * - POST /notifications/unsubscribe: désactive l'email pour le type concerné
+ *   ou les résumés
+ * - Les préférences restent modifiables depuis le profil
+ *
+ * ARCHITECTURE:
+ * - UnsubscribePageContent enveloppé dans Suspense (useSearchParams)
+ *
+ * @module app/unsubscribe/page
+ */
+
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { MailX, CheckCircle, AlertCircle } from 'lucide-react';
+import { Container } from '@/components/common/Container';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { notificationsApi } from '@/lib/notifications.api';
+
+type UnsubscribeStatus = 'idle' | 'loading' | 'done' | 'error';
+
+function UnsubscribePageContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<UnsubscribeStatus>('idle');
+  const [message, setMessage] = useState('');
+
+  const handleUnsubscribe = async () => {
+    if (!token) return;
+
+    setStatus('loading');
+    try {
+      const result = await notificationsApi.unsubscribe(token);
+      setMessage(result.message);
+      setStatus('done');
+    } catch (error) {
+      console.error('Erreur lors de la désinscription:', error);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <Container className="flex min-h-[60vh] items-center justify-center py-12">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MailX className="h-5 w-5" />
+            Se désinscrire des emails
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!token || status === 'error' ? (
+            <p className="flex items-start gap-2 text-sm text-red-600">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              Ce lien de désinscription est invalide. Vous pouvez gérer vos
+              emails depuis votre profil.
+            </p>
+          ) : status === 'done' ? (
+            <p className="flex items-start gap-2 text-sm text-green-600">
+              <CheckCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              {message}
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Vous ne recevrez plus les emails de ce type. Les notifications
+                restent visibles dans l&apos;application.
+              </p>
+              <Button
+                onClick={handleUnsubscribe}
+                disabled={status === 'loading'}
+                className="w-full"
+              >
+                {status === 'loading'
+                  ? 'Désinscription...'
+                  : 'Confirmer la désinscription'}
+              </Button>
+            </>
+          )}
+          <p className="text-center text-sm">
+            <Link href="/profile" className="text-primary hover:underline">
+              Gérer mes préférences de notification
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </Container>
+  );
+}
+
+export default function UnsubscribePage() {
+  return (
+    <Suspense fallback={null}>
+      <UnsubscribePageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+/**
+ * FICHIER: app/users/[id]/page.tsx
+ *
+ * DESCRIPTION:
+ * Profil public d'un membre: nom, avatar, ancienneté, et selon ses réglages
+ * de confidentialité sa bio, sa ville, sa réputation d'échange (échanges
+ * réalisés, taux de réponse) et ses objets disponibles. Les avis reçus après
+ * les échanges (note moyenne, tags, derniers avis) sont toujours affichés.
+ *
+ * FONCTIONNALITÉS:
+ * - Chargement via apiClient.getUser (GET /users/:id, clé React Query `public-profile`)
+ * - Les sections masquées par le membre ne sont pas affichées
+ * - Le membre qui consulte son propre profil voit toutes les sections et un
+ *   rappel des sections masquées aux autres (réglages sur /profile)
+ * - Lien vers /explore filtré sur le membre quand il a plus d'objets que l'aperçu
+ *
+ * UX:
+ * - Page publique (pas de ProtectedRoute)
+ * - État de chargement (squelette) et message si le membre n'existe pas
+ */
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import {
+  ArrowLeftRight,
+  CalendarDays,
+  EyeOff,
+  MapPin,
+  MessageCircleReply,
+  User as UserIcon,
+} from 'lucide-react';
+import { Container } from '@/components/common/Container';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ItemCard } from '@/components/items/ItemCard';
+import { RatingBadge } from '@/components/ratings/RatingBadge';
+import { UserReviews } from '@/components/ratings/UserReviews';
+import apiClient from '@/lib/api';
+import { ProfilePrivacy } from '@/types';
+
+/**
+ * Libellés des sections masquables (rappel affiché au propriétaire)
+ */
+const PRIVACY_SECTION_LABELS: Record<keyof ProfilePrivacy, string> = {
+  showBio: 'bio',
+  showLocation: 'ville',
+  showItems: 'objets disponibles',
+  showExchangeStats: 'réputation',
+};
+
+export default function PublicProfilePage() {
+  const params = useParams();
+  const userId = params.id as string;
+
+  const {
+    data: profile,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['public-profile', userId],
+    queryFn: () => apiClient.getUser(userId),
+    enabled: !!userId,
+  });
+
+  if (isLoading) {
+    return (
+      <Container className="py-10">
+        <div className="mb-8 h-32 animate-pulse rounded-lg bg-muted" />
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {Array.from({ length: 3 }).map((_, index) => (
+            <div
+              key={index}
+              className="h-80 animate-pulse rounded-lg bg-muted"
+            />
+          ))}
+        </div>
+      </Container>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <Container className="py-16 text-center">
+        <h1 className="mb-2 text-2xl font-semibold">Membre introuvable</h1>
+        <p className="mb-4 text-muted-foreground">
+          Ce profil n&apos;existe pas ou a été supprimé.
+        </p>
+        <Button asChild>
+          <Link href="/explore">Explorer les objets</Link>
+        </Button>
+      </Container>
+    );
+  }
+
+  // Sections masquées aux autres membres (visible uniquement par le propriétaire)
+  const hiddenSections = profile.privacy
+    ? (Object.keys(PRIVACY_SECTION_LABELS) as (keyof ProfilePrivacy)[])
+        .filter((section) => !profile.privacy?.[section])
+        .map((section) => PRIVACY_SECTION_LABELS[section])
+    : [];
+
+  return (
+    <Container className="py-10">
+      {/* En-tête: identité du membre */}
+      <div className="mb-8 flex flex-col gap-6 md:flex-row md:items-center">
+        <Avatar className="h-24 w-24 shrink-0">
+          <AvatarImage
+            src={profile.avatarUrl ?? undefined}
+            alt={profile.displayName}
+            className="object-cover"
+          />
+          <AvatarFallback className="bg-primary/10">
+            <UserIcon className="h-10 w-10" />
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold">{profile.displayName}</h1>
+          <RatingBadge rating={profile.ratings} className="mt-1" />
+          <div className="mt-2 flex flex-wrap gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <CalendarDays className="h-4 w-4" />
+              Membre depuis{' '}
+              {format(new Date(profile.memberSince), 'MMMM yyyy', {
+                locale: fr,
+              })}
+            </span>
+            {profile.location && (
+              <span className="flex items-center gap-1">
+                <MapPin className="h-4 w-4" />
+                {profile.location}
+              </span>
+            )}
+          </div>
+          {profile.bio && <p className="mt-3 max-w-2xl">{profile.bio}</p>}
+        </div>
+        {profile.isOwnProfile && (
+          <Button variant="outline" asChild>
+            <Link href="/profile">Modifier mon profil</Link>
+          </Button>
+        )}
+      </div>
+
+      {/* Rappel au propriétaire: sections masquées aux autres membres */}
+      {hiddenSections.length > 0 && (
+        <div className="mb-8 flex items-center gap-2 rounded-md bg-muted p-3 text-sm text-muted-foreground">
+          <EyeOff className="h-4 w-4 shrink-0" />
+          Masqué aux autres membres: {hiddenSections.join(', ')}
+        </div>
+      )}
+
+      {/* Réputation d'échange */}
+      {profile.reputation && (
+        <div className="mb-8 grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <ArrowLeftRight className="h-4 w-4" />
+                Échanges réalisés
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-3xl font-bold">
+                {profile.reputation.completedExchanges}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <MessageCircleReply className="h-4 w-4" />
+                Taux de réponse
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-3xl font-bold">
+                {profile.reputation.responseRate !== null
+                  ? `${profile.reputation.responseRate} %`
+                  : '—'}
+              </p>
+              {profile.reputation.responseRate === null && (
+                <p className="text-sm text-muted-foreground">
+                  Aucune proposition reçue pour le moment
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Avis reçus après les échanges */}
+      <UserReviews userId={profile.id} summary={profile.ratings} />
+
+      {/* Objets disponibles */}
+      {profile.availableItems && (
+        <section>
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-xl font-semibold">
+              Objets disponibles ({profile.availableItems.total})
+            </h2>
+            {profile.availableItems.total >
+              profile.availableItems.items.length && (
+              <Button variant="outline" asChild>
+                <Link href={`/explore?ownerId=${profile.id}`}>Tout voir</Link>
+              </Button>
+            )}
+          </div>
+          {profile.availableItems.items.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">
+              Aucun objet disponible pour le moment
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {profile.availableItems.items.map((item, index) => (
+                <ItemCard key={item.id} item={item} index={index} />
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+    </Container>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+/**
+ * FICHIER: app/watchlist/page.tsx
+ *
+ * DESCRIPTION:
+ * Page "Objets suivis": liste de suivi de l'utilisateur. Un objet suivi
+ * déclenche une notification (WATCHED_ITEM) à chaque changement de statut,
+ * par exemple quand il redevient disponible après l'échec d'un échange.
+ *
+ * FONCTIONNALITÉS:
+ * - Chargement paginé via favoritesApi.listFavorites (clé React Query `favorites`)
+ * - Tous statuts confondus: un objet réservé ou échangé reste visible avec
+ *   son statut, jusqu'à ce que l'utilisateur arrête de le suivre
+ * - Bouton favori de chaque carte pour ne plus suivre un objet
+ * - Pagination contrôlée par boutons Précédent/Suivant
+ *
+ * UX:
+ * - Statut et date de suivi affichés au-dessus de chaque carte
+ * - État vide avec lien vers /explore
+ * - ProtectedRoute pour restreindre l'accès aux utilisateurs connectés
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Heart, RefreshCw } from 'lucide-react';
+import { Container } from '@/components/common/Container';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ItemCard } from '@/components/items/ItemCard';
+import { favoritesApi } from '@/lib/favorites.api';
+import { ITEM_STATUS_LABELS } from '@/lib/constants';
+import ProtectedRoute from '../(auth)/protected';
+
+const PAGE_SIZE = 12;
+
+function WatchlistPageContent() {
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['favorites', page],
+    queryFn: () => favoritesApi.listFavorites({ page, limit: PAGE_SIZE }),
+    placeholderData: (previousData) => previousData,
+  });
+
+  return (
+    <Container className="py-10">
+      <div className="mb-8">
+        <h1 className="flex items-center gap-2 text-3xl font-bold">
+          <Heart className="h-7 w-7" />
+          Objets suivis
+        </h1>
+        <p className="mt-2 text-muted-foreground">
+          Vous êtes prévenu à chaque changement de statut de ces objets, par
+          exemple quand l&apos;un d&apos;eux redevient disponible.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {Array.from({ length: 6 }).map((_, index) => (
+            <div
+              key={index}
+              className="h-80 animate-pulse rounded-lg bg-muted"
+            />
+          ))}
+        </div>
+      ) : error || !data ? (
+        <div className="py-16 text-center text-destructive">
+          <p className="mb-4">Erreur lors du chargement de vos objets suivis</p>
+          <Button onClick={() => refetch()} variant="outline">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Réessayer
+          </Button>
+        </div>
+      ) : data.items.length === 0 ? (
+        <div className="py-16 text-center">
+          <div className="mb-4 text-6xl">🤍</div>
+          <h3 className="mb-2 text-xl font-semibold">
+            Vous ne suivez aucun objet
+          </h3>
+          <p className="mb-4 text-muted-foreground">
+            Touchez le cœur d&apos;un objet pour être prévenu de ses changements
+            de statut
+          </p>
+          <Button asChild>
+            <Link href="/explore">Explorer les objets</Link>
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {data.items.map((item, index) => (
+              <div key={item.id} className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <Badge
+                    variant={
+                      item.status === 'AVAILABLE' ? 'default' : 'secondary'
+                    }
+                  >
+                    {ITEM_STATUS_LABELS[item.status] || item.status}
+                  </Badge>
+                  <span>
+                    Suivi{' '}
+                    {formatDistanceToNow(new Date(item.favoritedAt), {
+                      addSuffix: true,
+                      locale: fr,
+                    })}
+                  </span>
+                </div>
+                <ItemCard item={item} index={index} />
+              </div>
+            ))}
+          </div>
+
+          {data.totalPages > 1 && (
+            <div className="mt-8 flex items-center justify-center gap-4">
+              <Button
+                variant="outline"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={page <= 1}
+              >
+                Précédent
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {data.page} sur {data.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={page >= data.totalPages}
+              >
+                Suivant
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </Container>
+  );
+}
+
+export default function WatchlistPage() {
+  return (
+    <ProtectedRoute>
+      <WatchlistPageContent />
+    </ProtectedRoute>
+  );
+}
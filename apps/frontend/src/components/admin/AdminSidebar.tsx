@@ -18,7 +18,9 @@ import {
   Sparkles,
   Leaf,
   FileText,
+  FileCode,
   Settings,
+  Gauge,
 } from 'lucide-react';
 import { ADMIN_BASE_PATH } from '@/lib/admin.config';
 import { cn } from '@/lib/utils';
@@ -31,6 +33,8 @@ const menuItems = [
   { id: 'reports', label: 'Signalements', icon: Flag, href: `/${ADMIN_BASE_PATH}/reports` },
   { id: 'ai-themes', label: 'Thèmes IA', icon: Sparkles, href: `/${ADMIN_BASE_PATH}/themes` },
   { id: 'eco-content', label: 'Contenu Écologique', icon: Leaf, href: `/${ADMIN_BASE_PATH}/eco` },
+  { id: 'ai-usage', label: 'Usage IA', icon: Gauge, href: `/${ADMIN_BASE_PATH}/ai` },
+  { id: 'ai-prompts', label: 'Prompts IA', icon: FileCode, href: `/${ADMIN_BASE_PATH}/prompts` },
   { id: 'logs', label: 'Logs', icon: FileText, href: `/${ADMIN_BASE_PATH}/logs` },
   { id: 'settings', label: 'Paramètres', icon: Settings, href: `/${ADMIN_BASE_PATH}/settings` },
 ];
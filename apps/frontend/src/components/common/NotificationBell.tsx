@@ -2,70 +2,55 @@
  * FICHIER: components/common/NotificationBell.tsx
  *
  * DESCRIPTION:
- * Bouton (icône cloche) permettant d’activer les notifications push via
- * `notificationService`. Utilisé dans la barre de navigation pour inciter
- * l’utilisateur à accepter les rappels hebdomadaires.
+ * Icône cloche menant à la boîte de réception (`/notifications`), avec un badge
+ * affichant le nombre de notifications non lues.
  *
- * FLUX:
- * 1. Demande la permission navigateur (notificationService.requestPermission)
- * 2. Si accordée, tente de récupérer un token FCM/webpush
- * 3. Enregistre le token côté backend (`notificationService.registerToken`)
- * 4. Affiche des toasts de succès/erreur
+ * COMPTEUR:
+ * - Lu depuis `useNotificationsStore`, synchronisé avec le serveur par
+ *   `useNotificationsSync` (même valeur sur tous les appareils)
+ * - Mis à jour en temps réel via le socket `/notifications`
  *
  * UX:
- * - `isLoading` empêche les clics multiples et ajoute un état disabled.
- * - Message spécifique si la permission est refusée côté navigateur.
+ * - Masqué si l'utilisateur n'est pas connecté
+ * - Badge plafonné à "99+"
+ * - L'activation des notifications push se fait depuis la page /notifications
  */
 
 'use client';
 
-import { useState } from 'react';
-import { Button } from '@/components/ui/button';
+import Link from 'next/link';
 import { Bell } from 'lucide-react';
-import { toast } from 'react-hot-toast';
-import { notificationService } from '@/lib/notifications';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuthStore } from '@/store/auth';
+import { useNotificationsStore } from '@/store/notifications';
 
 export function NotificationBell() {
-  const [isLoading, setIsLoading] = useState(false);
+  const isAuthenticated = useAuthStore((s) => s.isAuthenticated);
+  const unreadCount = useNotificationsStore((s) => s.unreadCount);
 
-  const handleNotificationPermission = async () => {
-    setIsLoading(true);
-    try {
-      // 1) Demander la permission notification au navigateur
-      const permission = await notificationService.requestPermission();
+  if (!isAuthenticated) return null;
 
-      if (permission) {
-        // 2) Récupérer un token (FCM/WebPush). Peut être null selon l’environnement.
-        const token = await notificationService.getToken();
-        if (token) {
-          // 3) Envoyer ce token à l’API backend pour qu’il soit stocké
-          await notificationService.registerToken(token);
-          toast.success('Notifications activées !');
-        } else {
-          // Certains navigateurs peuvent autoriser mais ne pas fournir de token
-          toast.success('Notifications activées (mode local)');
-        }
-      } else {
-        toast.error('Notifications bloquées dans les paramètres du navigateur');
-      }
-    } catch (error) {
-      console.error("Erreur lors de l'activation des notifications:", error);
-      toast.error("Erreur lors de l'activation des notifications");
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const label =
+    unreadCount > 0
+      ? `Notifications (${unreadCount} non lue${unreadCount > 1 ? 's' : ''})`
+      : 'Notifications';
 
   return (
     <Button
       variant="ghost"
       size="icon"
-      onClick={handleNotificationPermission}
-      disabled={isLoading}
-      className="h-10 w-10 hover:bg-primary/10"
-      aria-label="Activer les notifications"
+      className="relative h-10 w-10 hover:bg-primary/10"
+      asChild
     >
-      <Bell className="h-5 w-5" />
+      <Link href="/notifications" aria-label={label}>
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <Badge className="absolute -right-1 -top-1 flex h-5 min-w-5 items-center justify-center bg-primary p-0 text-[10px]">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </Badge>
+        )}
+      </Link>
     </Button>
   );
 }
@@ -4,13 +4,15 @@
  * DESCRIPTION:
  * Overlay plein écran pour lancer une recherche rapide depuis n’importe où.
  * Gestion du focus, fermeture via Escape, suggestions rapides et redirection
- * vers `/explore?search=...`.
+ * vers `/explore?q=...`.
  *
  * FLUX:
  * - `isOpen` contrôle l’affichage (AnimatePresence + motion).
  * - focus automatique sur l’input, blocage du scroll body.
  * - submit => redirige vers /explore avec la query + ferme l’overlay.
  * - suggestions cliquables (“Électronique”, etc.) pré-remplissent la recherche.
+ * - “Sauvegarder” enregistre la recherche (POST /saved-searches): l’utilisateur
+ *   connecté est notifié à chaque nouvel objet correspondant.
  *
  * UX:
  * - Fond sombre (backdrop) et carte stylée.
@@ -21,10 +23,15 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { isAxiosError } from 'axios';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Search, X } from 'lucide-react';
+import { BellPlus, Search, X } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import { savedSearchesApi } from '@/lib/saved-searches.api';
+import { useAuthStore } from '@/store/auth';
 
 interface SearchOverlayProps {
   isOpen: boolean;
@@ -33,8 +40,11 @@ interface SearchOverlayProps {
 
 export function SearchOverlay({ isOpen, onClose }: SearchOverlayProps) {
   const [query, setQuery] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
   const router = useRouter();
   const inputRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
 
   useEffect(() => {
     if (isOpen && inputRef.current) {
@@ -68,12 +78,35 @@ export function SearchOverlay({ isOpen, onClose }: SearchOverlayProps) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (query.trim()) {
-      router.push(`/explore?search=${encodeURIComponent(query.trim())}`);
+      router.push(`/explore?q=${encodeURIComponent(query.trim())}`);
       onClose();
       setQuery('');
     }
   };
 
+  const handleSaveSearch = async () => {
+    if (!user) {
+      toast.error('Connectez-vous pour sauvegarder une recherche');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await savedSearchesApi.createSavedSearch({ q: query.trim() });
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      toast.success(
+        'Recherche sauvegardée: vous serez prévenu des nouveaux objets'
+      );
+    } catch (error) {
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) ||
+          'Erreur lors de la sauvegarde de la recherche'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleClose = () => {
     setQuery('');
     onClose();
@@ -115,7 +148,7 @@ export function SearchOverlay({ isOpen, onClose }: SearchOverlayProps) {
                   placeholder="Rechercher des objets, catégories..."
                   value={query}
                   onChange={(e) => setQuery(e.target.value)}
-                  className="h-14 border-0 bg-transparent pl-12 pr-24 text-base focus-visible:ring-2 focus-visible:ring-primary"
+                  className="h-14 border-0 bg-transparent pl-12 pr-36 text-base focus-visible:ring-2 focus-visible:ring-primary"
                   role="search"
                   aria-label="Rechercher des objets"
                 />
@@ -131,6 +164,18 @@ export function SearchOverlay({ isOpen, onClose }: SearchOverlayProps) {
                       <X className="h-4 w-4" />
                     </Button>
                   )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleSaveSearch}
+                    disabled={!query.trim() || isSaving}
+                    className="h-8 w-8"
+                    title="Sauvegarder cette recherche"
+                    aria-label="Sauvegarder cette recherche"
+                  >
+                    <BellPlus className="h-4 w-4" />
+                  </Button>
                   <Button
                     type="submit"
                     size="sm"
@@ -158,7 +203,7 @@ export function SearchOverlay({ isOpen, onClose }: SearchOverlayProps) {
                         onClick={() => {
                           setQuery(suggestion);
                           router.push(
-                            `/explore?search=${encodeURIComponent(suggestion)}`
+                            `/explore?q=${encodeURIComponent(suggestion)}`
                           );
                           onClose();
                         }}
@@ -9,7 +9,15 @@ import { Post } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { useAuthStore } from '@/store/auth';
-import { MessageSquare, Edit, Trash2, Reply, MoreVertical } from 'lucide-react';
+import {
+  MessageSquare,
+  Edit,
+  Trash2,
+  Reply,
+  MoreVertical,
+  Flag,
+} from 'lucide-react';
+import { ReportDialog } from '@/components/reports/ReportDialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -35,6 +43,7 @@ export function PostCard({
   const { user } = useAuthStore();
   const isOwner = user?.id === post.authorId;
   const isAdmin = user?.roles === 'ADMIN';
+  const canReport = !!user && !isOwner;
 
   return (
     <motion.div
@@ -146,6 +155,18 @@ export function PostCard({
                       <Reply className="mr-1 h-3 w-3" />
                       Répondre
                     </Button>
+                    {canReport && (
+                      <ReportDialog targetType="POST" targetId={post.id}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 px-2 text-xs"
+                          aria-label="Signaler ce message"
+                        >
+                          <Flag className="h-3 w-3" />
+                        </Button>
+                      </ReportDialog>
+                    )}
                   </div>
                 )}
               </div>
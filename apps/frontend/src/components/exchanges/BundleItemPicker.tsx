@@ -0,0 +1,79 @@
+/**
+ * FICHIER: components/exchanges/BundleItemPicker.tsx
+ *
+ * DESCRIPTION:
+ * Liste d'objets à cocher pour composer un côté d'un lot d'échange
+ * (proposition d'échange, contre-proposition). Chaque objet est un bouton
+ * bascule; la sélection est gérée par le parent.
+ *
+ * UTILISATION:
+ * <BundleItemPicker items={myItems} selectedIds={ids} onToggle={toggle} />
+ */
+
+import Image from 'next/image';
+import { Check, Package } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ITEM_CONDITION_LABELS, MAX_BUNDLE_ITEMS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import { Item } from '@/types';
+
+interface BundleItemPickerProps {
+  items: Item[];
+  selectedIds: string[];
+  onToggle: (itemId: string) => void;
+  emptyMessage: string; // Affiché quand aucun objet n'est disponible
+}
+
+export function BundleItemPicker({
+  items,
+  selectedIds,
+  onToggle,
+  emptyMessage,
+}: BundleItemPickerProps) {
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  const isFull = selectedIds.length >= MAX_BUNDLE_ITEMS;
+
+  return (
+    <div className="grid max-h-48 grid-cols-1 gap-2 overflow-y-auto">
+      {items.map((item) => {
+        const selected = selectedIds.includes(item.id);
+
+        return (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => onToggle(item.id)}
+            disabled={!selected && isFull}
+            aria-pressed={selected}
+            className={cn(
+              'flex items-center gap-3 rounded-lg border p-2 text-left transition-colors hover:bg-muted disabled:opacity-50',
+              selected && 'border-primary bg-primary/10'
+            )}
+          >
+            {item.photos.length > 0 ? (
+              <Image
+                src={item.photos[0].url}
+                alt={item.title}
+                width={32}
+                height={32}
+                className="h-8 w-8 rounded object-cover"
+              />
+            ) : (
+              <div className="flex h-8 w-8 items-center justify-center rounded bg-muted">
+                <Package className="h-4 w-4 text-muted-foreground" />
+              </div>
+            )}
+            <span className="flex-1 text-sm font-medium">{item.title}</span>
+            <Badge variant="outline" className="text-xs">
+              {ITEM_CONDITION_LABELS[item.condition] ?? item.condition}
+            </Badge>
+            {selected && <Check className="h-4 w-4 text-primary" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
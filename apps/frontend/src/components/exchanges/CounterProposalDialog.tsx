@@ -0,0 +1,210 @@
+/**
+ * FICHIER: components/exchanges/CounterProposalDialog.tsx
+ *
+ * DESCRIPTION:
+ * Dialogue de contre-proposition du destinataire du lot en cours (demandeur
+ * ou répondant): il ajuste le lot d'une proposition en attente (objets de
+ * l'autre participant qu'il souhaite recevoir, objets à lui qu'il accepte de
+ * donner), ajoute une note s'il le souhaite, puis le renvoie à l'autre
+ * participant. Chaque envoi crée une nouvelle révision de la négociation.
+ *
+ * DONNÉES:
+ * - Objets disponibles de chaque participant (itemsApi.listItems)
+ * - POST /exchanges/:id/revisions (exchangesApi.counterPropose)
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import { ArrowLeftRight } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { exchangesApi } from '@/lib/exchanges.api';
+import { itemsApi } from '@/lib/items.api';
+import { useAuthStore } from '@/store/auth';
+import { Exchange, ExchangeItemSide } from '@/types';
+import { BundleItemPicker } from './BundleItemPicker';
+
+interface CounterProposalDialogProps {
+  exchange: Exchange;
+  children: React.ReactNode; // Bouton déclencheur
+}
+
+/**
+ * IDs des objets encore existants d'un côté du lot en cours
+ */
+const bundleItemIds = (exchange: Exchange, side: ExchangeItemSide) =>
+  exchange.items
+    .filter((entry) => entry.side === side && entry.itemId)
+    .map((entry) => entry.itemId as string);
+
+export function CounterProposalDialog({
+  exchange,
+  children,
+}: CounterProposalDialogProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const [open, setOpen] = useState(false);
+  const [theirItemIds, setTheirItemIds] = useState<string[]>([]);
+  const [myItemIds, setMyItemIds] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+
+  // Côtés du lot vus par l'utilisateur: le demandeur apporte les objets OFFERED,
+  // le répondant les objets REQUESTED
+  const isRequester = exchange.requesterId === user?.id;
+  const otherUser = isRequester ? exchange.responder : exchange.requester;
+  const mySide: ExchangeItemSide = isRequester ? 'OFFERED' : 'REQUESTED';
+  const theirSide: ExchangeItemSide = isRequester ? 'REQUESTED' : 'OFFERED';
+
+  // Objets disponibles de l'autre participant
+  const { data: theirItems } = useQuery({
+    queryKey: ['owner-items', otherUser.id, 'AVAILABLE'],
+    queryFn: () =>
+      itemsApi.listItems({
+        ownerId: otherUser.id,
+        status: 'AVAILABLE',
+        limit: 50,
+      }),
+    enabled: open,
+  });
+
+  // Mes objets disponibles
+  const { data: myItems } = useQuery({
+    queryKey: ['my-items', 'AVAILABLE'],
+    queryFn: () =>
+      itemsApi.listItems({
+        ownerId: user?.id,
+        status: 'AVAILABLE',
+        limit: 50,
+      }),
+    enabled: !!user?.id && open,
+  });
+
+  // Repartir du lot en cours à chaque ouverture
+  useEffect(() => {
+    if (open) {
+      setTheirItemIds(bundleItemIds(exchange, theirSide));
+      setMyItemIds(bundleItemIds(exchange, mySide));
+      setNote('');
+    }
+  }, [open, exchange, theirSide, mySide]);
+
+  const counterMutation = useMutation({
+    mutationFn: () =>
+      exchangesApi.counterPropose(exchange.id, {
+        offeredItemIds: isRequester ? myItemIds : theirItemIds,
+        requestedItemIds: isRequester ? theirItemIds : myItemIds,
+        note: note.trim() || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchange', exchange.id] });
+      toast.success('Contre-proposition envoyée');
+      setOpen(false);
+    },
+    onError: (error) => {
+      const message = isAxiosError(error)
+        ? error.response?.data?.message
+        : undefined;
+      toast.error(
+        typeof message === 'string'
+          ? message
+          : "Impossible d'envoyer la contre-proposition"
+      );
+    },
+  });
+
+  const toggle =
+    (setter: React.Dispatch<React.SetStateAction<string[]>>) =>
+    (itemId: string) =>
+      setter((current) =>
+        current.includes(itemId)
+          ? current.filter((id) => id !== itemId)
+          : [...current, itemId]
+      );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Contre-proposer un lot</DialogTitle>
+          <DialogDescription>
+            Ajustez les objets échangés de chaque côté. {otherUser.displayName}{' '}
+            pourra accepter, refuser ou vous répondre par une nouvelle
+            proposition.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <h4 className="mb-3 font-medium">
+              Objets de {otherUser.displayName} que vous recevez *
+            </h4>
+            <BundleItemPicker
+              items={theirItems?.items ?? []}
+              selectedIds={theirItemIds}
+              onToggle={toggle(setTheirItemIds)}
+              emptyMessage="Aucun objet disponible pour ce membre."
+            />
+          </div>
+
+          <div>
+            <h4 className="mb-3 font-medium">Vos objets en échange *</h4>
+            <BundleItemPicker
+              items={myItems?.items ?? []}
+              selectedIds={myItemIds}
+              onToggle={toggle(setMyItemIds)}
+              emptyMessage="Vous n'avez aucun objet disponible."
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="counter-note">Note (optionnel)</Label>
+            <Textarea
+              id="counter-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Expliquez ce que vous changez..."
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+            >
+              Annuler
+            </Button>
+            <Button
+              onClick={() => counterMutation.mutate()}
+              disabled={
+                theirItemIds.length === 0 ||
+                myItemIds.length === 0 ||
+                counterMutation.isPending
+              }
+              className="flex items-center gap-2"
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+              Envoyer la contre-proposition
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
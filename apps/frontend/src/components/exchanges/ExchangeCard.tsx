@@ -8,7 +8,7 @@
  * de l'utilisateur connecté (requester ou responder).
  *
  * FONCTIONNALITÉS PRINCIPALES:
- * - Affichage de l'avatar et du nom de l'autre utilisateur
+ * - Affichage de l'avatar, du nom et de la réputation (avis) de l'autre utilisateur
  * - Affichage des items proposés et demandés (adapté selon le rôle)
  * - Badge de statut avec couleurs adaptées selon le statut
  * - Message optionnel de l'échange (citation stylisée)
@@ -55,6 +55,9 @@ import { Exchange } from '@/types';
 // Import du composant StatusBadge
 import { StatusBadge } from './StatusBadge';
 
+// Import de la réputation (avis) de l'autre utilisateur
+import { RatingBadge } from '@/components/ratings/RatingBadge';
+
 /**
  * Interface TypeScript qui définit les propriétés (props) que ce composant accepte
  */
@@ -239,6 +242,10 @@ export function ExchangeCard({ exchange, currentUserId }: ExchangeCardProps) {
                     {otherUser.displayName}
                   </p>
                   {/*
+                  Réputation de l'autre utilisateur (note moyenne et nombre d'avis)
+                */}
+                  <RatingBadge rating={otherUser.rating} />
+                  {/*
                   Badge de statut avec style personnalisé
                   status: statut de l'échange
                   variant="outline": style avec bordure
@@ -0,0 +1,114 @@
+/**
+ * FICHIER: components/exchanges/NegotiationTimeline.tsx
+ *
+ * DESCRIPTION:
+ * Historique de la négociation d'un échange: une entrée par révision du lot
+ * (proposition initiale puis contre-propositions), de la plus ancienne à la
+ * plus récente, avec l'auteur, la date, la note et les objets de chaque côté.
+ * Seule la dernière révision peut être acceptée; elle est mise en évidence.
+ *
+ * DONNÉES:
+ * - `exchange.revisions` renvoyé par GET /exchanges/:id
+ */
+
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { History } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { Exchange, ExchangeRevision } from '@/types';
+
+interface NegotiationTimelineProps {
+  exchange: Exchange;
+  currentUserId?: string;
+}
+
+/**
+ * Titres des objets d'un côté d'une révision
+ */
+const sideTitles = (
+  revision: ExchangeRevision,
+  side: 'OFFERED' | 'REQUESTED'
+) =>
+  revision.items
+    .filter((entry) => entry.side === side)
+    .map((entry) => entry.title)
+    .join(', ');
+
+export function NegotiationTimeline({
+  exchange,
+  currentUserId,
+}: NegotiationTimelineProps) {
+  const revisions = exchange.revisions ?? [];
+
+  // Pas de négociation: la proposition initiale est déjà affichée au-dessus
+  if (revisions.length < 2) {
+    return null;
+  }
+
+  const authorName = (authorId: string) =>
+    authorId === currentUserId
+      ? 'Vous'
+      : authorId === exchange.requesterId
+        ? exchange.requester.displayName
+        : exchange.responder.displayName;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Historique de la négociation
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-4 border-l border-border pl-4">
+          {revisions.map((revision) => {
+            const isCurrent = revision.version === exchange.currentVersion;
+
+            return (
+              <li key={revision.id} className="relative space-y-1">
+                <span
+                  className={cn(
+                    'absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full',
+                    isCurrent ? 'bg-primary' : 'bg-muted-foreground/40'
+                  )}
+                />
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium">
+                    {revision.version === 1
+                      ? `Proposition de ${authorName(revision.authorId)}`
+                      : `Contre-proposition de ${authorName(revision.authorId)}`}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(revision.createdAt), "d MMM 'à' HH:mm", {
+                      locale: fr,
+                    })}
+                  </span>
+                  {isCurrent && exchange.status === 'PENDING' && (
+                    <Badge variant="secondary">Version en cours</Badge>
+                  )}
+                </div>
+                <p
+                  className={cn(
+                    'text-sm',
+                    isCurrent ? 'text-foreground' : 'text-muted-foreground'
+                  )}
+                >
+                  {sideTitles(revision, 'OFFERED')} ⇄{' '}
+                  {sideTitles(revision, 'REQUESTED')}
+                </p>
+                {revision.note && (
+                  <p className="text-sm italic text-muted-foreground">
+                    « {revision.note} »
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
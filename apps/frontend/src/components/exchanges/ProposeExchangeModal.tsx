@@ -11,17 +11,18 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Badge } from '@/components/ui/badge';
 import { Item, CreateExchangeDto } from '@/types';
 import { exchangesApi } from '@/lib/exchanges.api';
 import { itemsApi } from '@/lib/items.api';
 import { toast } from 'react-hot-toast';
+import { isAxiosError } from 'axios';
 import { useQuery } from '@tanstack/react-query';
 import { useAuthStore } from '@/store/auth';
 import { ArrowRight, Package } from 'lucide-react';
+import { MAX_BUNDLE_ITEMS } from '@/lib/constants';
+import { BundleItemPicker } from './BundleItemPicker';
 
 interface ProposeExchangeModalProps {
   requestedItem: Item;
@@ -30,10 +31,15 @@ interface ProposeExchangeModalProps {
 }
 
 const exchangeSchema = z.object({
-  offeredItemTitle: z
-    .string()
-    .min(3, 'Le titre doit contenir au moins 3 caractères'),
-  message: z.string().optional(),
+  offeredItemIds: z
+    .array(z.string())
+    .min(1, 'Sélectionnez au moins un de vos objets disponibles')
+    .max(MAX_BUNDLE_ITEMS, `${MAX_BUNDLE_ITEMS} objets maximum`),
+  // Objets supplémentaires demandés au même propriétaire (en plus de celui de la page)
+  extraRequestedItemIds: z
+    .array(z.string())
+    .max(MAX_BUNDLE_ITEMS - 1, `${MAX_BUNDLE_ITEMS} objets maximum`),
+  message: z.string().max(500).optional(),
 });
 
 type ExchangeForm = z.infer<typeof exchangeSchema>;
@@ -51,20 +57,41 @@ export function ProposeExchangeModal({
     handleSubmit,
     formState: { errors },
     reset,
+    setValue,
+    watch,
   } = useForm<ExchangeForm>({
     resolver: zodResolver(exchangeSchema),
+    defaultValues: { offeredItemIds: [], extraRequestedItemIds: [] },
   });
 
-  // Récupérer les items de l'utilisateur pour les suggestions
+  // Récupérer les items disponibles de l'utilisateur (seuls proposables)
   const { data: myItems } = useQuery({
-    queryKey: ['my-items'],
-    queryFn: () => itemsApi.listItems({ ownerId: user?.id, limit: 50 }),
+    queryKey: ['my-items', 'AVAILABLE'],
+    queryFn: () =>
+      itemsApi.listItems({ ownerId: user?.id, status: 'AVAILABLE', limit: 50 }),
     enabled: !!user?.id && open,
   });
 
+  // Autres objets disponibles du propriétaire, pour demander un lot
+  const { data: ownerItems } = useQuery({
+    queryKey: ['owner-items', responderId, 'AVAILABLE'],
+    queryFn: () =>
+      itemsApi.listItems({
+        ownerId: responderId,
+        status: 'AVAILABLE',
+        limit: 50,
+      }),
+    enabled: open,
+  });
+
+  const offeredItemIds = watch('offeredItemIds') ?? [];
+  const extraRequestedItemIds = watch('extraRequestedItemIds') ?? [];
+  const otherOwnerItems =
+    ownerItems?.items.filter((item) => item.id !== requestedItem.id) ?? [];
+
   useEffect(() => {
     if (open) {
-      reset();
+      reset({ offeredItemIds: [], extraRequestedItemIds: [] });
     }
   }, [open, reset]);
 
@@ -72,8 +99,8 @@ export function ProposeExchangeModal({
     try {
       const exchangeData: CreateExchangeDto = {
         responderId,
-        requestedItemTitle: requestedItem.title,
-        offeredItemTitle: data.offeredItemTitle,
+        requestedItemIds: [requestedItem.id, ...data.extraRequestedItemIds],
+        offeredItemIds: data.offeredItemIds,
         message: data.message,
       };
 
@@ -81,13 +108,27 @@ export function ProposeExchangeModal({
       toast.success("Proposition d'échange envoyée !");
       setOpen(false);
     } catch (error) {
-      toast.error("Erreur lors de l'envoi de la proposition");
+      // 409: un des objets a été réservé entre-temps
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) ||
+          "Erreur lors de l'envoi de la proposition"
+      );
     }
   };
 
-  const handleItemSelect = (itemTitle: string) => {
-    // Pré-remplir le champ avec le titre de l'item sélectionné
-    reset({ offeredItemTitle: itemTitle });
+  const toggleItem = (
+    field: 'offeredItemIds' | 'extraRequestedItemIds',
+    itemId: string
+  ) => {
+    const current =
+      field === 'offeredItemIds' ? offeredItemIds : extraRequestedItemIds;
+    setValue(
+      field,
+      current.includes(itemId)
+        ? current.filter((id) => id !== itemId)
+        : [...current, itemId],
+      { shouldValidate: true }
+    );
   };
 
   return (
@@ -97,7 +138,7 @@ export function ProposeExchangeModal({
         <DialogHeader>
           <DialogTitle>Proposer un échange</DialogTitle>
           <DialogDescription>
-            Proposez un de vos objets en échange de "{requestedItem.title}"
+            {`Proposez un ou plusieurs de vos objets en échange de "${requestedItem.title}"`}
           </DialogDescription>
         </DialogHeader>
 
@@ -124,58 +165,51 @@ export function ProposeExchangeModal({
                 </p>
               </div>
             </div>
+
+            {otherOwnerItems.length > 0 && (
+              <div className="mt-4">
+                <p className="mb-2 text-sm text-muted-foreground">
+                  Ajouter d&apos;autres objets de{' '}
+                  {requestedItem.owner.displayName} (optionnel)
+                </p>
+                <BundleItemPicker
+                  items={otherOwnerItems}
+                  selectedIds={extraRequestedItemIds}
+                  onToggle={(itemId) =>
+                    toggleItem('extraRequestedItemIds', itemId)
+                  }
+                  emptyMessage=""
+                />
+              </div>
+            )}
           </div>
 
           {/* Mes objets disponibles */}
-          {myItems && myItems.items.length > 0 && (
-            <div>
-              <h4 className="mb-3 font-medium">Mes objets disponibles</h4>
-              <div className="grid max-h-32 grid-cols-1 gap-2 overflow-y-auto">
-                {myItems.items.map((item) => (
-                  <button
-                    key={item.id}
-                    onClick={() => handleItemSelect(item.title)}
-                    className="flex items-center gap-3 rounded-lg border p-2 text-left transition-colors hover:bg-muted"
-                  >
-                    {item.photos.length > 0 ? (
-                      <img
-                        src={item.photos[0].url}
-                        alt={item.title}
-                        className="h-8 w-8 rounded object-cover"
-                      />
-                    ) : (
-                      <div className="flex h-8 w-8 items-center justify-center rounded bg-muted">
-                        <Package className="h-4 w-4 text-muted-foreground" />
-                      </div>
-                    )}
-                    <span className="text-sm font-medium">{item.title}</span>
-                    <Badge variant="outline" className="text-xs">
-                      {item.condition}
-                    </Badge>
-                  </button>
-                ))}
-              </div>
-            </div>
-          )}
+          <div>
+            <h4 className="mb-3 font-medium">
+              Objets que vous proposez *
+              {offeredItemIds.length > 0 && (
+                <span className="ml-2 text-sm font-normal text-muted-foreground">
+                  ({offeredItemIds.length} sélectionné
+                  {offeredItemIds.length > 1 ? 's' : ''})
+                </span>
+              )}
+            </h4>
+            <BundleItemPicker
+              items={myItems?.items ?? []}
+              selectedIds={offeredItemIds}
+              onToggle={(itemId) => toggleItem('offeredItemIds', itemId)}
+              emptyMessage="Vous n'avez aucun objet disponible à proposer. Publiez d'abord un objet pour pouvoir échanger."
+            />
+            {errors.offeredItemIds && (
+              <p className="mt-1 text-sm text-destructive">
+                {errors.offeredItemIds.message}
+              </p>
+            )}
+          </div>
 
           {/* Formulaire */}
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-            <div>
-              <Label htmlFor="offeredItemTitle">
-                Objet que vous proposez *
-              </Label>
-              <Input
-                id="offeredItemTitle"
-                placeholder="Titre de votre objet"
-                {...register('offeredItemTitle')}
-              />
-              {errors.offeredItemTitle && (
-                <p className="mt-1 text-sm text-destructive">
-                  {errors.offeredItemTitle.message}
-                </p>
-              )}
-            </div>
-
             <div>
               <Label htmlFor="message">Message (optionnel)</Label>
               <Textarea
@@ -16,14 +16,17 @@
  * - État de chargement pendant la mise à jour
  *
  * RÈGLES DE PERMISSIONS:
- * - Accepter: seulement le responder quand le statut est PENDING
- * - Refuser: seulement le responder quand le statut est PENDING
- * - Marquer comme terminé: requester ou responder quand le statut est ACCEPTED
+ * - Accepter: seulement le destinataire du lot en cours quand le statut est PENDING
+ *   (le responder, ou le requester après une contre-proposition)
+ * - Refuser: seulement le destinataire du lot en cours quand le statut est PENDING
+ * - Confirmer la réalisation: requester ou responder quand le statut est ACCEPTED,
+ *   une seule fois chacun; l'échange passe à COMPLETED quand les deux ont confirmé
  * - Annuler: requester ou responder quand le statut est PENDING ou ACCEPTED
  *
  * UX:
  * - Boutons désactivés pendant la mise à jour pour éviter les doubles clics
- * - Messages de succès/erreur clairs
+ * - Messages de succès/erreur clairs (message du serveur pour les transitions refusées)
+ * - Indication "en attente de l'autre participant" après sa propre confirmation
  * - Badges informatifs pour les statuts terminaux
  */
 
@@ -38,11 +41,24 @@ import { Exchange, ExchangeStatus } from '@/types';
 import { exchangesApi } from '@/lib/exchanges.api';
 // Import de react-hot-toast pour afficher des notifications
 import { toast } from 'react-hot-toast';
+// Import de isAxiosError pour lire le message des erreurs 409 du serveur
+import { isAxiosError } from 'axios';
 // Import des icônes Lucide React
-import { Check, X, CheckCircle, XCircle } from 'lucide-react';
+import { Check, X, CheckCircle, XCircle, Clock } from 'lucide-react';
 // Import du store d'authentification pour récupérer l'utilisateur connecté
 import { useAuthStore } from '@/store/auth';
 
+/**
+ * Messages de succès affichés après une transition réussie
+ */
+const SUCCESS_MESSAGES: Record<ExchangeStatus, string> = {
+  PENDING: 'Échange mis à jour',
+  ACCEPTED: 'Échange accepté',
+  DECLINED: 'Échange refusé',
+  COMPLETED: 'Échange terminé',
+  CANCELLED: 'Échange annulé',
+};
+
 /**
  * Interface TypeScript qui définit les propriétés (props) que ce composant accepte
  */
@@ -95,6 +111,14 @@ export function StatusActions({
    */
   const isResponder = exchange.responderId === user?.id;
 
+  /**
+   * Vérifier si l'utilisateur connecté doit répondre au lot en cours:
+   * l'autre participant en est l'auteur (proposition initiale du requester,
+   * ou contre-proposition du responder)
+   */
+  const isProposalRecipient =
+    (isRequester || isResponder) && exchange.proposedById !== user?.id;
+
   // ============================================
   // GESTION DE LA MISE À JOUR DU STATUT
   // ============================================
@@ -121,6 +145,7 @@ export function StatusActions({
         exchange.id,
         {
           status: newStatus, // Le nouveau statut à appliquer
+          version: exchange.currentVersion, // Révision du lot acceptée/refusée (la dernière)
         }
       );
 
@@ -132,16 +157,25 @@ export function StatusActions({
 
       /**
        * Afficher un message de succès à l'utilisateur
-       * newStatus.toLowerCase() convertit le statut en minuscules pour l'affichage
-       * (ex: "ACCEPTED" devient "accepté")
+       * Cas particulier: une confirmation de réalisation unilatérale laisse
+       * l'échange ACCEPTED (on attend la confirmation de l'autre participant)
        */
-      toast.success(`Échange ${newStatus.toLowerCase()}`);
+      if (newStatus === 'COMPLETED' && updatedExchange.status !== 'COMPLETED') {
+        toast.success(
+          "Confirmation enregistrée, en attente de l'autre participant"
+        );
+      } else {
+        toast.success(SUCCESS_MESSAGES[newStatus]);
+      }
     } catch (error) {
       /**
-       * En cas d'erreur (ex: serveur indisponible, erreur réseau, etc.)
-       * Afficher un message d'erreur à l'utilisateur
+       * En cas d'erreur (ex: transition refusée (409), erreur réseau, etc.)
+       * Afficher le message du serveur s'il existe, sinon un message générique
        */
-      toast.error('Erreur lors de la mise à jour');
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) ||
+          'Erreur lors de la mise à jour'
+      );
     } finally {
       /**
        * Toujours désactiver l'état de chargement, même en cas d'erreur
@@ -164,25 +198,38 @@ export function StatusActions({
 
   /**
    * L'utilisateur peut accepter l'échange si:
-   * - Il est le responder (celui qui a reçu la proposition)
+   * - Il est le destinataire du lot en cours
    * - ET le statut est PENDING (en attente)
    */
-  const canAccept = isResponder && exchange.status === 'PENDING';
+  const canAccept = isProposalRecipient && exchange.status === 'PENDING';
 
   /**
    * L'utilisateur peut refuser l'échange si:
-   * - Il est le responder (celui qui a reçu la proposition)
+   * - Il est le destinataire du lot en cours
    * - ET le statut est PENDING (en attente)
    */
-  const canDecline = isResponder && exchange.status === 'PENDING';
+  const canDecline = isProposalRecipient && exchange.status === 'PENDING';
 
   /**
-   * L'utilisateur peut marquer l'échange comme terminé si:
+   * Confirmations de réalisation déjà enregistrées (la complétion exige les deux)
+   */
+  const hasConfirmed = isRequester
+    ? !!exchange.requesterConfirmedAt
+    : isResponder && !!exchange.responderConfirmedAt;
+  const otherHasConfirmed = isRequester
+    ? !!exchange.responderConfirmedAt
+    : isResponder && !!exchange.requesterConfirmedAt;
+
+  /**
+   * L'utilisateur peut confirmer la réalisation de l'échange si:
    * - Il est le requester OU le responder (n'importe lequel des deux)
    * - ET le statut est ACCEPTED (accepté)
+   * - ET il n'a pas déjà confirmé
    */
   const canComplete =
-    (isRequester || isResponder) && exchange.status === 'ACCEPTED';
+    (isRequester || isResponder) &&
+    exchange.status === 'ACCEPTED' &&
+    !hasConfirmed;
 
   /**
    * L'utilisateur peut annuler l'échange si:
@@ -321,24 +368,36 @@ export function StatusActions({
         )}
 
         {/* ============================================
-          BOUTON MARQUER COMME TERMINÉ
+          BOUTON CONFIRMER LA RÉALISATION
           ============================================ */}
         {/*
-        Afficher le bouton "Marquer comme terminé" seulement si l'utilisateur peut compléter
-        (canComplete = true)
+        Afficher le bouton "Confirmer la réalisation" seulement si l'utilisateur peut compléter
+        (canComplete = true). Le libellé indique si l'autre participant a déjà confirmé.
       */}
         {canComplete && (
           <Button
-            onClick={() => handleStatusUpdate('COMPLETED')} // Mettre à jour le statut à COMPLETED
+            onClick={() => handleStatusUpdate('COMPLETED')} // Demander le statut COMPLETED (confirmation)
             disabled={isLoading} // Désactiver pendant la mise à jour
             variant="default" // Style par défaut (couleur primaire)
             className="flex items-center gap-2" // Aligner l'icône et le texte
           >
             <CheckCircle className="h-4 w-4" />
-            Marquer comme terminé
+            {otherHasConfirmed
+              ? 'Confirmer et terminer'
+              : 'Confirmer la réalisation'}
           </Button>
         )}
 
+        {/*
+        Badge d'attente: l'utilisateur a confirmé, l'autre participant pas encore
+      */}
+        {exchange.status === 'ACCEPTED' && hasConfirmed && (
+          <Badge variant="outline" className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {"En attente de la confirmation de l'autre participant"}
+          </Badge>
+        )}
+
         {/* ============================================
           BOUTON ANNULER
           ============================================ */}
@@ -0,0 +1,59 @@
+/**
+ * FICHIER: components/items/CategoryIcon.tsx
+ *
+ * DESCRIPTION:
+ * Icône d'une catégorie d'item. Le nom de l'icône vient du registre des
+ * catégories (GET /items/categories, champ `icon`); seules les icônes lucide
+ * listées ici sont chargées, les autres sont remplacées par un paquet.
+ *
+ * UTILISATION:
+ * <CategoryIcon category={item.category} className="h-3 w-3" />
+ */
+
+'use client';
+
+import {
+  BookOpen,
+  Dumbbell,
+  Home,
+  Hourglass,
+  LucideIcon,
+  Package,
+  Palette,
+  Puzzle,
+  Scissors,
+  Shirt,
+  Smartphone,
+  Wrench,
+} from 'lucide-react';
+import { useCategories } from '@/hooks/useCategories';
+
+/**
+ * Icônes disponibles, par nom lucide (kebab-case, comme dans le registre).
+ */
+const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  shirt: Shirt,
+  smartphone: Smartphone,
+  'book-open': BookOpen,
+  home: Home,
+  wrench: Wrench,
+  puzzle: Puzzle,
+  dumbbell: Dumbbell,
+  palette: Palette,
+  hourglass: Hourglass,
+  scissors: Scissors,
+  package: Package,
+};
+
+interface CategoryIconProps {
+  category: string;
+  className?: string;
+}
+
+export function CategoryIcon({ category, className }: CategoryIconProps) {
+  const { categories } = useCategories();
+  const icon = categories.find((option) => option.value === category)?.icon;
+  const Icon = (icon && CATEGORY_ICONS[icon]) || Package;
+
+  return <Icon className={className} aria-hidden="true" />;
+}
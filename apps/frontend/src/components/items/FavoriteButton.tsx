@@ -0,0 +1,155 @@
+/**
+ * FICHIER: components/items/FavoriteButton.tsx
+ *
+ * DESCRIPTION:
+ * Bouton cœur "Suivre cet objet" avec le nombre d'utilisateurs qui le suivent.
+ * Un objet suivi apparaît dans la page /watchlist et l'utilisateur reçoit une
+ * notification (WATCHED_ITEM) à chaque changement de statut: réservé, échangé,
+ * retiré ou de nouveau disponible.
+ *
+ * UTILISATION:
+ * - <FavoriteButton item={item} /> : bouton icône (cartes d'objets)
+ * - <FavoriteButton item={item} variant="button" /> : bouton avec libellé (fiche)
+ *
+ * FONCTIONNEMENT:
+ * - GET /favorites/ids (clé React Query `favorite-ids`, partagée par toutes
+ *   les cartes: une seule requête par page)
+ * - PUT / DELETE /favorites/:itemId, puis mise à jour du cache et du compteur
+ * - Le propriétaire voit le compteur mais ne peut pas suivre son propre objet
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { isAxiosError } from 'axios';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Heart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { favoritesApi } from '@/lib/favorites.api';
+import { useAuthStore } from '@/store/auth';
+import { cn } from '@/lib/utils';
+import { FavoriteStatus, Item } from '@/types';
+
+interface FavoriteButtonProps {
+  item: Pick<Item, 'id' | 'ownerId' | 'favoriteCount'>;
+  variant?: 'icon' | 'button'; // Icône seule (cartes) ou bouton avec libellé
+  className?: string;
+}
+
+export function FavoriteButton({
+  item,
+  variant = 'icon',
+  className,
+}: FavoriteButtonProps) {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const [favoriteCount, setFavoriteCount] = useState(item.favoriteCount ?? 0);
+
+  // Resynchroniser le compteur quand l'item est rechargé
+  useEffect(() => {
+    setFavoriteCount(item.favoriteCount ?? 0);
+  }, [item.favoriteCount]);
+
+  const { data: favoriteIds } = useQuery({
+    queryKey: ['favorite-ids'],
+    queryFn: () => favoritesApi.listFavoriteIds(),
+    enabled: !!user,
+    staleTime: 60 * 1000,
+  });
+
+  const isOwner = user?.id === item.ownerId;
+  const isFavorite = favoriteIds?.includes(item.id) ?? false;
+
+  const toggleMutation = useMutation({
+    mutationFn: () =>
+      isFavorite
+        ? favoritesApi.removeFavorite(item.id)
+        : favoritesApi.addFavorite(item.id),
+    onSuccess: (status: FavoriteStatus) => {
+      setFavoriteCount(status.favoriteCount);
+      queryClient.setQueryData<string[]>(['favorite-ids'], (ids = []) =>
+        status.isFavorite
+          ? [...ids.filter((id) => id !== status.itemId), status.itemId]
+          : ids.filter((id) => id !== status.itemId)
+      );
+      queryClient.invalidateQueries({ queryKey: ['favorites'] });
+      toast.success(
+        status.isFavorite
+          ? 'Objet suivi: vous serez prévenu de ses changements de statut'
+          : 'Objet retiré de votre liste de suivi'
+      );
+    },
+    onError: (error) => {
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) ||
+          'Erreur lors de la mise à jour de votre liste de suivi'
+      );
+    },
+  });
+
+  const handleClick: React.MouseEventHandler<HTMLButtonElement> = (e) => {
+    // Sur une carte, ne pas déclencher la navigation vers la fiche
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!user) {
+      toast.error('Connectez-vous pour suivre cet objet');
+      return;
+    }
+    toggleMutation.mutate();
+  };
+
+  const label = isOwner
+    ? `${favoriteCount} personne(s) suivent votre objet`
+    : isFavorite
+      ? 'Ne plus suivre cet objet'
+      : 'Suivre cet objet';
+
+  const heart = (
+    <Heart
+      className={cn('h-4 w-4', isFavorite && 'fill-red-500 text-red-500')}
+    />
+  );
+
+  if (variant === 'button') {
+    return (
+      <Button
+        variant={isFavorite ? 'secondary' : 'outline'}
+        size="sm"
+        className={className}
+        onClick={handleClick}
+        disabled={isOwner || toggleMutation.isPending}
+        aria-pressed={isFavorite}
+        title={label}
+      >
+        {heart}
+        <span className="ml-2">
+          {isOwner ? 'Suivi par' : isFavorite ? 'Suivi' : 'Suivre'}
+        </span>
+        <span className="ml-1 text-muted-foreground">{favoriteCount}</span>
+      </Button>
+    );
+  }
+
+  // Carte d'un objet du propriétaire que personne ne suit: rien à afficher
+  if (isOwner && favoriteCount === 0) {
+    return null;
+  }
+
+  return (
+    <Button
+      variant="secondary"
+      size="sm"
+      className={cn('h-8 gap-1 px-2 opacity-80 hover:opacity-100', className)}
+      onClick={handleClick}
+      disabled={isOwner || toggleMutation.isPending}
+      aria-pressed={isFavorite}
+      aria-label={label}
+      title={label}
+    >
+      {heart}
+      {favoriteCount > 0 && <span className="text-xs">{favoriteCount}</span>}
+    </Button>
+  );
+}
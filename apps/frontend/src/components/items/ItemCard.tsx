@@ -15,6 +15,8 @@
  * - Formatage du temps relatif en français (ex: "il y a 2 jours")
  * - Affichage des badges de catégorie, condition et tags
  * - Affichage du propriétaire et de la localisation
+ * - Bouton de signalement (utilisateurs connectés, hors propriétaire)
+ * - Bouton favori avec le nombre d'utilisateurs qui suivent l'objet
  *
  * UX:
  * - Effet hover avec ombre pour indiquer l'interactivité
@@ -34,15 +36,27 @@ import { motion } from 'framer-motion';
 // Import des composants UI
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+// Import du signalement
+import { ReportDialog } from '@/components/reports/ReportDialog';
+
+// Import du bouton favori (liste de suivi)
+import { FavoriteButton } from './FavoriteButton';
+import { CategoryIcon } from './CategoryIcon';
+
+// Import du store d'authentification
+import { useAuthStore } from '@/store/auth';
 
 // Import des types
 import { Item } from '@/types';
 
 // Import des constantes pour les labels
-import { ITEM_CATEGORY_LABELS, ITEM_CONDITION_LABELS } from '@/lib/constants';
+import { ITEM_CONDITION_LABELS } from '@/lib/constants';
+import { useCategories } from '@/hooks/useCategories';
 
 // Import des icônes
-import { MapPin, Calendar } from 'lucide-react';
+import { MapPin, Calendar, Flag } from 'lucide-react';
 
 // Import de date-fns pour le formatage des dates
 import { formatDistanceToNow } from 'date-fns';
@@ -68,6 +82,9 @@ interface ItemCardProps {
  * @param index - Index pour l'animation progressive (défaut: 0)
  */
 export function ItemCard({ item, index = 0 }: ItemCardProps) {
+  const { user } = useAuthStore();
+  const { getCategoryLabel } = useCategories();
+
   // ============================================
   // FONCTION: formatRelativeTime
   // ============================================
@@ -104,6 +121,12 @@ export function ItemCard({ item, index = 0 }: ItemCardProps) {
    */
   const isMock = item.id.startsWith('mock-');
 
+  /**
+   * Le bouton de signalement est réservé aux utilisateurs connectés
+   * qui ne sont pas propriétaires de l'item (et jamais pour un aperçu)
+   */
+  const canReport = !isMock && !!user && user.id !== item.ownerId;
+
   /**
    * Gestionnaire de clic pour les items mock.
    * Empêche la navigation vers la page de détail (car l'item n'existe pas encore)
@@ -153,7 +176,7 @@ export function ItemCard({ item, index = 0 }: ItemCardProps) {
         transition-shadow: transition fluide pour l'ombre
         hover:shadow-lg: ombre plus prononcée au survol
       */}
-        <Card className="h-full cursor-pointer transition-shadow hover:shadow-lg">
+        <Card className="relative h-full cursor-pointer transition-shadow hover:shadow-lg">
           {/*
           Lien vers la page de détail de l'item
           href: URL vers la page de détail (ou /explore pour les items mock)
@@ -225,7 +248,11 @@ export function ItemCard({ item, index = 0 }: ItemCardProps) {
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <MapPin className="h-4 w-4" />
                 <span>
-                  {item.owner.location || 'Localisation non précisée'}
+                  {item.location ||
+                    item.owner.location ||
+                    'Localisation non précisée'}
+                  {item.distanceKm !== undefined &&
+                    ` · à ${item.distanceKm} km`}
                 </span>
               </div>
             </CardHeader>
@@ -254,10 +281,11 @@ export function ItemCard({ item, index = 0 }: ItemCardProps) {
                 {/*
                 Badge de catégorie
                 variant="secondary": style secondaire (gris)
-                ITEM_CATEGORY_LABELS: dictionnaire des labels traduits
+                getCategoryLabel / CategoryIcon: label traduit et icône du registre des catégories
               */}
-                <Badge variant="secondary">
-                  {ITEM_CATEGORY_LABELS[item.category] || item.category}
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <CategoryIcon category={item.category} className="h-3 w-3" />
+                  {getCategoryLabel(item.category)}
                 </Badge>
                 {/*
                 Badge de condition
@@ -315,6 +343,35 @@ export function ItemCard({ item, index = 0 }: ItemCardProps) {
               )}
             </CardContent>
           </Link>
+
+          {/*
+          Bouton de signalement superposé à la photo
+          Placé hors du Link pour ne pas déclencher la navigation
+        */}
+          {/*
+          Bouton favori superposé à la photo (coin supérieur gauche)
+          Placé hors du Link pour ne pas déclencher la navigation
+        */}
+          {!isMock && (
+            <div className="absolute left-2 top-2">
+              <FavoriteButton item={item} />
+            </div>
+          )}
+
+          {canReport && (
+            <div className="absolute right-2 top-2">
+              <ReportDialog targetType="ITEM" targetId={item.id}>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="h-8 w-8 opacity-80 hover:opacity-100"
+                  aria-label="Signaler cet objet"
+                >
+                  <Flag className="h-4 w-4" />
+                </Button>
+              </ReportDialog>
+            </div>
+          )}
         </Card>
       </motion.div>
     </>
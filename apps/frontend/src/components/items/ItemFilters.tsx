@@ -12,10 +12,13 @@
  * - Filtrage par catégorie (électronique, vêtements, etc.)
  * - Filtrage par condition (neuf, bon état, etc.)
  * - Filtrage par statut (disponible, réservé, etc.)
- * - Tri des résultats (date, popularité, etc.)
+ * - Recherche autour d'une ville ou de coordonnées, dans un rayon donné
+ * - Tri des résultats (date, popularité, distance, etc.)
+ * - Nombre d'items par catégorie, état et statut (facettes renvoyées par l'API)
  * - Affichage des filtres actifs avec badges
  * - Suppression individuelle des filtres
  * - Bouton de réinitialisation de tous les filtres
+ * - Sauvegarde de la recherche (alerte à chaque nouvel objet correspondant)
  *
  * UX:
  * - Mise à jour en temps réel des filtres (pas besoin de cliquer sur "Appliquer")
@@ -33,20 +36,23 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { SaveSearchDialog } from './SaveSearchDialog';
+import { CategoryIcon } from './CategoryIcon';
+// Import du registre des catégories (GET /items/categories)
+import { useCategories } from '@/hooks/useCategories';
 // Import des constantes pour les options de filtrage
 import {
-  ITEM_CATEGORIES,
   ITEM_CONDITIONS,
   ITEM_STATUS,
-  ITEM_CATEGORY_LABELS,
   ITEM_CONDITION_LABELS,
   ITEM_STATUS_LABELS,
   SORT_OPTIONS,
+  RADIUS_OPTIONS,
 } from '@/lib/constants';
 // Import des types TypeScript pour garantir la sécurité des types
-import { ListItemsParams } from '@/types';
+import { ItemCategory, ItemFacets, ListItemsParams } from '@/types';
 // Import des icônes Lucide React
-import { Search, X, Filter } from 'lucide-react';
+import { Search, X, Filter, MapPin, BellPlus } from 'lucide-react';
 
 /**
  * Interface TypeScript qui définit les propriétés (props) que ce composant accepte
@@ -55,6 +61,7 @@ interface ItemFiltersProps {
   params: ListItemsParams; // Paramètres de filtrage actuels (recherche, catégorie, etc.)
   onParamsChange: (params: Partial<ListItemsParams>) => void; // Callback appelé quand un filtre change
   onReset: () => void; // Callback appelé pour réinitialiser tous les filtres
+  facets?: ItemFacets; // Compteurs par valeur de filtre (dernière réponse de l'API)
 }
 
 /**
@@ -65,11 +72,13 @@ interface ItemFiltersProps {
  * @param params - Paramètres de filtrage actuels
  * @param onParamsChange - Callback appelé quand un filtre change
  * @param onReset - Callback appelé pour réinitialiser tous les filtres
+ * @param facets - Compteurs affichés à côté de chaque option (optionnel)
  */
 export function ItemFilters({
   params,
   onParamsChange,
   onReset,
+  facets,
 }: ItemFiltersProps) {
   // ============================================
   // GESTION DE L'ÉTAT LOCAL
@@ -82,6 +91,11 @@ export function ItemFilters({
    */
   const [localParams, setLocalParams] = useState(params);
 
+  /**
+   * Registre des catégories (options du filtre et labels)
+   */
+  const { categories, getCategoryLabel } = useCategories();
+
   /**
    * useEffect pour synchroniser l'état local avec les props
    * Quand les paramètres changent depuis l'extérieur (ex: réinitialisation),
@@ -91,6 +105,16 @@ export function ItemFilters({
     setLocalParams(params);
   }, [params]);
 
+  /**
+   * Saisie de la localisation (near), appliquée seulement à la validation
+   * (Entrée ou perte du focus): une ville à moitié tapée serait refusée par l'API
+   */
+  const [nearInput, setNearInput] = useState(params.near || '');
+
+  useEffect(() => {
+    setNearInput(params.near || '');
+  }, [params.near]);
+
   // ============================================
   // GESTION DES CHANGEMENTS DE FILTRES
   // ============================================
@@ -124,6 +148,48 @@ export function ItemFilters({
     onParamsChange({ [key]: value });
   };
 
+  /**
+   * Tri par défaut: par pertinence pendant une recherche, sinon par date.
+   * Un tri égal au tri par défaut n'est pas compté comme un filtre actif.
+   */
+  const defaultSort = localParams.q ? 'relevance' : '-createdAt';
+
+  /**
+   * Met à jour la recherche textuelle.
+   * Sans recherche, le tri par pertinence n'a plus de sens: on revient au tri par défaut.
+   */
+  const handleSearchChange = (value: string | undefined) => {
+    const changes: Partial<ListItemsParams> = { q: value };
+    if (!value && localParams.sort === 'relevance') changes.sort = undefined;
+
+    setLocalParams({ ...localParams, ...changes });
+    onParamsChange(changes);
+  };
+
+  /**
+   * Applique (ou retire) la localisation.
+   * Sans localisation, le tri par distance n'a plus de sens: on revient au tri par défaut.
+   */
+  const handleNearChange = (value: string | undefined) => {
+    const near = value?.trim() || undefined;
+    if (near === localParams.near) return;
+
+    const changes: Partial<ListItemsParams> = { near };
+    if (!near) {
+      changes.radiusKm = undefined;
+      if (localParams.sort === 'distance') changes.sort = undefined;
+    }
+
+    setLocalParams({ ...localParams, ...changes });
+    onParamsChange(changes);
+  };
+
+  /**
+   * Libellé d'une option, suivi du nombre d'items correspondants si connu
+   */
+  const withCount = (label: string, count?: number) =>
+    facets ? `${label} (${count ?? 0})` : label;
+
   // ============================================
   // CALCUL DES FILTRES ACTIFS
   // ============================================
@@ -138,7 +204,8 @@ export function ItemFilters({
     localParams.category || // Catégorie sélectionnée
     localParams.condition || // Condition sélectionnée
     localParams.status || // Statut sélectionné
-    localParams.sort !== '-createdAt'; // Tri différent du tri par défaut
+    localParams.near || // Localisation
+    (localParams.sort && localParams.sort !== defaultSort); // Tri différent du tri par défaut
 
   /**
    * Compter le nombre de filtres actifs
@@ -150,9 +217,20 @@ export function ItemFilters({
     localParams.category, // Catégorie
     localParams.condition, // Condition
     localParams.status, // Statut
-    localParams.sort !== '-createdAt' ? localParams.sort : null, // Tri (seulement si différent du défaut)
+    localParams.near, // Localisation
+    localParams.sort !== defaultSort ? localParams.sort : null, // Tri (seulement si différent du défaut)
   ].filter(Boolean).length; // Compter seulement les valeurs non vides
 
+  /**
+   * Une recherche peut être sauvegardée dès qu'elle a un critère
+   * (le statut et le tri ne sont pas sauvegardés)
+   */
+  const canSaveSearch =
+    localParams.q ||
+    localParams.category ||
+    localParams.condition ||
+    localParams.near;
+
   // ============================================
   // RENDU DU COMPOSANT (JSX)
   // ============================================
@@ -195,7 +273,7 @@ export function ItemFilters({
               <Input
                 placeholder="Rechercher un objet..."
                 value={localParams.q || ''}
-                onChange={(e) => handleChange('q', e.target.value)} // Mettre à jour le filtre de recherche
+                onChange={(e) => handleSearchChange(e.target.value)} // Mettre à jour le filtre de recherche
                 className="pl-10"
               />
             </div>
@@ -231,12 +309,14 @@ export function ItemFilters({
               <option value="">Toutes les catégories</option>
               {/*
                 Parcourir toutes les catégories disponibles et créer une option pour chacune
-                ITEM_CATEGORIES: liste des catégories (ex: ['ELECTRONICS', 'CLOTHING', ...])
-                ITEM_CATEGORY_LABELS: labels traduits (ex: { ELECTRONICS: 'Électronique', ... })
+                categories: registre des catégories (ex: { value: 'ELECTRONICS', label: 'Électronique', ... })
               */}
-              {ITEM_CATEGORIES.map((category) => (
-                <option key={category} value={category}>
-                  {ITEM_CATEGORY_LABELS[category]}
+              {categories.map((category) => (
+                <option key={category.value} value={category.value}>
+                  {withCount(
+                    category.label,
+                    facets?.category[category.value as ItemCategory]
+                  )}
                 </option>
               ))}
             </select>
@@ -251,7 +331,10 @@ export function ItemFilters({
               <option value="">Tous les états</option>
               {ITEM_CONDITIONS.map((condition) => (
                 <option key={condition} value={condition}>
-                  {ITEM_CONDITION_LABELS[condition]}
+                  {withCount(
+                    ITEM_CONDITION_LABELS[condition],
+                    facets?.condition[condition]
+                  )}
                 </option>
               ))}
             </select>
@@ -266,17 +349,61 @@ export function ItemFilters({
               <option value="">Tous les statuts</option>
               {ITEM_STATUS.map((status) => (
                 <option key={status} value={status}>
-                  {ITEM_STATUS_LABELS[status]}
+                  {withCount(
+                    ITEM_STATUS_LABELS[status],
+                    facets?.status[status]
+                  )}
                 </option>
               ))}
             </select>
 
+            {/*
+              Localisation: ville courante (ex: "Lyon") ou "latitude,longitude"
+            */}
+            <div className="relative">
+              <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Près de..."
+                value={nearInput}
+                onChange={(e) => setNearInput(e.target.value)}
+                onBlur={() => handleNearChange(nearInput)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleNearChange(nearInput);
+                }}
+                className="pl-10 md:w-40"
+              />
+            </div>
+
+            {/*
+              Rayon: proposé seulement avec une localisation (50 km par défaut côté serveur)
+            */}
+            {localParams.near && (
+              <select
+                value={localParams.radiusKm || 50}
+                onChange={(e) =>
+                  handleChange('radiusKm', parseInt(e.target.value))
+                }
+                className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                {RADIUS_OPTIONS.map((radius) => (
+                  <option key={radius} value={radius}>
+                    {radius} km
+                  </option>
+                ))}
+              </select>
+            )}
+
             <select
-              value={localParams.sort || '-createdAt'}
+              value={localParams.sort || defaultSort}
               onChange={(e) => handleChange('sort', e.target.value)}
               className="h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
             >
-              {SORT_OPTIONS.map((option) => (
+              {SORT_OPTIONS.filter(
+                // Les tris par distance et par pertinence nécessitent une localisation / une recherche
+                (option) =>
+                  (option.value !== 'distance' || localParams.near) &&
+                  (option.value !== 'relevance' || localParams.q)
+              ).map((option) => (
                 <option key={option.value} value={option.value}>
                   {option.label}
                 </option>
@@ -316,7 +443,7 @@ export function ItemFilters({
                   hover:text-destructive: couleur rouge au survol pour indiquer la suppression
                 */}
                 <button
-                  onClick={() => handleChange('q', undefined)} // Supprimer le filtre de recherche
+                  onClick={() => handleSearchChange(undefined)} // Supprimer le filtre de recherche
                   className="ml-1 hover:text-destructive"
                 >
                   <X className="h-3 w-3" />
@@ -325,7 +452,11 @@ export function ItemFilters({
             )}
             {localParams.category && (
               <Badge variant="secondary" className="flex items-center gap-1">
-                {ITEM_CATEGORY_LABELS[localParams.category]}
+                <CategoryIcon
+                  category={localParams.category}
+                  className="h-3 w-3"
+                />
+                {getCategoryLabel(localParams.category)}
                 <button
                   onClick={() => handleChange('category', undefined)}
                   className="ml-1 hover:text-destructive"
@@ -356,20 +487,42 @@ export function ItemFilters({
                 </button>
               </Badge>
             )}
-            {localParams.sort !== '-createdAt' && (
+            {localParams.near && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                Près de {localParams.near} ({localParams.radiusKm || 50} km)
+                <button
+                  onClick={() => handleNearChange(undefined)}
+                  className="ml-1 hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+            {localParams.sort && localParams.sort !== defaultSort && (
               <Badge variant="secondary" className="flex items-center gap-1">
                 {
                   SORT_OPTIONS.find((opt) => opt.value === localParams.sort)
                     ?.label
                 }
                 <button
-                  onClick={() => handleChange('sort', '-createdAt')}
+                  onClick={() => handleChange('sort', undefined)}
                   className="ml-1 hover:text-destructive"
                 >
                   <X className="h-3 w-3" />
                 </button>
               </Badge>
             )}
+            {/*
+              Bouton pour sauvegarder la recherche (ouvre une boîte de dialogue)
+            */}
+            {canSaveSearch && (
+              <SaveSearchDialog params={localParams}>
+                <Button variant="outline" size="sm" className="ml-2">
+                  <BellPlus className="mr-2 h-4 w-4" />
+                  Sauvegarder cette recherche
+                </Button>
+              </SaveSearchDialog>
+            )}
             {/*
               Bouton pour réinitialiser tous les filtres
               Affiche le nombre de filtres actifs pour informer l'utilisateur
@@ -11,6 +11,7 @@
  * - Formulaire avec validation Zod (validation côté client)
  * - Gestion des tags (ajout/suppression dynamique, maximum 10 tags)
  * - Option d'aide IA (Gemini) pour catégorie et tags automatiques
+ * - Analyse des photos par l'IA en édition (suggestions à accepter ou refuser)
  * - Mode création ou édition (adaptation selon le contexte)
  * - Validation en temps réel avec affichage des erreurs
  * - Gestion des erreurs avec toast notifications
@@ -44,6 +45,12 @@
  *   - Un résumé de l'objet
  * - Si activée, la catégorie devient optionnelle (l'IA peut la fournir)
  *
+ * ANALYSE DES PHOTOS (mode édition, objet avec photos):
+ * - L'IA propose titre, catégorie, état, tags et dégâts visibles d'après les photos
+ * - Rien n'est écrasé: chaque suggestion est acceptée ou refusée par l'utilisateur
+ * - Tags acceptés ajoutés aux tags existants (sans doublon, 10 maximum)
+ * - Dégâts acceptés ajoutés à la fin de la description
+ *
  * UTILISATION:
  * ```tsx
  * <ItemForm
@@ -76,14 +83,16 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import {
+  AcceptedPhotoSuggestion,
+  PhotoAnalysisSuggestions,
+} from '@/components/items/PhotoAnalysisSuggestions';
 
 // Import des constantes
-import {
-  ITEM_CATEGORIES,
-  ITEM_CONDITIONS,
-  ITEM_CATEGORY_LABELS,
-  ITEM_CONDITION_LABELS,
-} from '@/lib/constants';
+import { ITEM_CONDITIONS, ITEM_CONDITION_LABELS } from '@/lib/constants';
+
+// Import du registre des catégories (GET /items/categories)
+import { useCategories } from '@/hooks/useCategories';
 
 // Import des types
 import {
@@ -149,7 +158,7 @@ const itemSchema = z.object({
    * Catégorie de l'item
    * - Optionnel si IA activée (l'IA peut suggérer la catégorie)
    * - Sinon requis (vérifié côté serveur si aiAuto === false)
-   * - Doit correspondre à une valeur de ITEM_CATEGORIES
+   * - Doit correspondre à une catégorie du registre (useCategories)
    */
   category: z.string().optional(),
 
@@ -255,6 +264,11 @@ export function ItemForm({
    */
   const [tags, setTags] = useState<string[]>(initialData?.tags || []);
 
+  /**
+   * Registre des catégories (options du sélecteur et sous-catégories)
+   */
+  const { categories } = useCategories();
+
   /**
    * État pour la valeur de l'input de nouveau tag
    *
@@ -332,6 +346,14 @@ export function ItemForm({
    */
   const category = watch('category');
 
+  /**
+   * Sous-catégories de la catégorie choisie (aide sous le sélecteur)
+   */
+  const selectedSubcategories =
+    categories
+      .find((option) => option.value === category)
+      ?.subcategories.map((subcategory) => subcategory.label) ?? [];
+
   // ============================================
   // FONCTIONS DE GESTION DES TAGS
   // ============================================
@@ -428,6 +450,49 @@ export function ItemForm({
     setValue('tags', updatedTags);
   };
 
+  // ============================================
+  // FONCTION: acceptPhotoSuggestion
+  // ============================================
+
+  /**
+   * FONCTION: acceptPhotoSuggestion
+   *
+   * Applique au formulaire une suggestion de l'analyse des photos acceptée
+   * par l'utilisateur (enregistrée seulement à la soumission).
+   *
+   * - title, category, condition: remplacent la valeur du champ
+   * - tags: ajoutés aux tags existants (sans doublon, 10 maximum)
+   * - damageNotes: ajoutés à la fin de la description
+   *
+   * @param suggestion - Champ et valeur proposés par l'IA
+   */
+  const acceptPhotoSuggestion = (suggestion: AcceptedPhotoSuggestion) => {
+    const options = { shouldDirty: true, shouldValidate: true };
+
+    switch (suggestion.field) {
+      case 'tags': {
+        const updatedTags = [
+          ...tags,
+          ...suggestion.value.filter((tag) => !tags.includes(tag)),
+        ].slice(0, 10);
+        setTags(updatedTags);
+        setValue('tags', updatedTags, options);
+        break;
+      }
+      case 'damageNotes': {
+        const description = watch('description').trim();
+        setValue(
+          'description',
+          `${description}\n\nDégâts visibles: ${suggestion.value}`.trim(),
+          options
+        );
+        break;
+      }
+      default:
+        setValue(suggestion.field, suggestion.value, options);
+    }
+  };
+
   // ============================================
   // FONCTION: handleFormSubmit
   // ============================================
@@ -680,8 +745,8 @@ export function ItemForm({
              *
              * OPTIONS:
              * - Option vide par défaut (placeholder)
-             * - Options générées depuis ITEM_CATEGORIES
-             * - Labels en français via ITEM_CATEGORY_LABELS
+             * - Options générées depuis le registre des catégories (useCategories)
+             * - Sous-catégories de la catégorie choisie affichées en aide
              */}
             <select
               id="category"
@@ -690,17 +755,23 @@ export function ItemForm({
             >
               <option value="">Sélectionner une catégorie</option>
               {/**
-               * Générer les options depuis ITEM_CATEGORIES
-               *
-               * ITEM_CATEGORIES: ['CLOTHING', 'ELECTRONICS', 'BOOKS', ...]
-               * ITEM_CATEGORY_LABELS: { CLOTHING: 'Vêtements', ... }
+               * Générer les options depuis le registre des catégories
+               * (ex: { value: 'CLOTHING', label: 'Vêtements', ... })
                */}
-              {ITEM_CATEGORIES.map((category) => (
-                <option key={category} value={category}>
-                  {ITEM_CATEGORY_LABELS[category]}
+              {categories.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
                 </option>
               ))}
             </select>
+            {/**
+             * Aide: contenu de la catégorie choisie (ex: Mobilier, Décoration, Cuisine)
+             */}
+            {selectedSubcategories.length > 0 && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Par exemple: {selectedSubcategories.join(', ')}
+              </p>
+            )}
             {/**
              * Affichage de l'erreur de validation
              */}
@@ -824,6 +895,24 @@ export function ItemForm({
             )}
           </div>
 
+          {/* ============================================
+              ANALYSE DES PHOTOS (édition, objet avec photos)
+              ============================================ */}
+          {mode === 'edit' && initialData && initialData.photos?.length > 0 && (
+            <div>
+              <Label className="flex items-center gap-2">
+                <Sparkles className="h-4 w-4 text-primary" />
+                Suggestions d&apos;après les photos
+              </Label>
+              <div className="mt-1">
+                <PhotoAnalysisSuggestions
+                  itemId={initialData.id}
+                  onAccept={acceptPhotoSuggestion}
+                />
+              </div>
+            </div>
+          )}
+
           {/* ============================================
               OPTION: Aide IA (Gemini)
               ============================================ */}
@@ -0,0 +1,216 @@
+/**
+ * FICHIER: components/items/PhotoAnalysisSuggestions.tsx
+ *
+ * DESCRIPTION:
+ * Panneau "Analyser les photos" du formulaire d'édition d'un objet. L'IA examine
+ * les photos de l'objet (POST /items/:id/analyze-photos) et propose une
+ * catégorie, un état, des tags, un titre plus précis et les dégâts visibles.
+ *
+ * FONCTIONNEMENT:
+ * - Chaque suggestion affiche la confiance de l'IA (en %, "faible" sous 50 %)
+ * - Accepter: la valeur est transmise au formulaire (onAccept), rien n'est
+ *   enregistré avant la sauvegarde du formulaire
+ * - Refuser: la suggestion est retirée, le champ du formulaire reste inchangé
+ * - Une nouvelle analyse remplace les suggestions restantes
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { isAxiosError } from 'axios';
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Camera, Check, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { itemsApi } from '@/lib/items.api';
+import { ITEM_CONDITION_LABELS } from '@/lib/constants';
+import { useCategories } from '@/hooks/useCategories';
+import { cn } from '@/lib/utils';
+import {
+  AiFieldSuggestion,
+  ItemCategory,
+  ItemCondition,
+  ItemPhotoAnalysis,
+} from '@/types';
+
+/**
+ * Suggestion acceptée par le propriétaire, à appliquer au formulaire.
+ */
+export type AcceptedPhotoSuggestion =
+  | { field: 'title'; value: string }
+  | { field: 'category'; value: ItemCategory }
+  | { field: 'condition'; value: ItemCondition }
+  | { field: 'tags'; value: string[] }
+  | { field: 'damageNotes'; value: string };
+
+type SuggestionField = AcceptedPhotoSuggestion['field'];
+
+interface PhotoAnalysisSuggestionsProps {
+  itemId: string;
+  onAccept: (suggestion: AcceptedPhotoSuggestion) => void;
+}
+
+/**
+ * Ordre d'affichage et libellés des champs proposés
+ */
+const FIELD_LABELS: Record<SuggestionField, string> = {
+  title: 'Titre',
+  category: 'Catégorie',
+  condition: 'État',
+  tags: 'Tags',
+  damageNotes: 'Dégâts visibles',
+};
+
+/**
+ * Confiance en dessous de laquelle la suggestion est signalée comme incertaine
+ */
+const LOW_CONFIDENCE = 0.5;
+
+export function PhotoAnalysisSuggestions({
+  itemId,
+  onAccept,
+}: PhotoAnalysisSuggestionsProps) {
+  const { getCategoryLabel } = useCategories();
+
+  // Suggestions encore à traiter (acceptées ou refusées: retirées)
+  const [pending, setPending] = useState<AcceptedPhotoSuggestion[]>([]);
+  const [confidences, setConfidences] = useState<
+    Partial<Record<SuggestionField, number>>
+  >({});
+  const [analyzed, setAnalyzed] = useState(false);
+
+  const analyzeMutation = useMutation({
+    mutationFn: () => itemsApi.analyzeItemPhotos(itemId),
+    onSuccess: (analysis: ItemPhotoAnalysis) => {
+      const suggestions: AcceptedPhotoSuggestion[] = [];
+      const scores: Partial<Record<SuggestionField, number>> = {};
+      const add = <S extends AcceptedPhotoSuggestion>(
+        field: S['field'],
+        suggestion: AiFieldSuggestion<S['value']> | null
+      ) => {
+        if (!suggestion) return;
+        suggestions.push({ field, value: suggestion.value } as S);
+        scores[field] = suggestion.confidence;
+      };
+
+      add('title', analysis.title);
+      add('category', analysis.category);
+      add('condition', analysis.condition);
+      add('tags', analysis.tags);
+      add('damageNotes', analysis.damageNotes);
+
+      setPending(suggestions);
+      setConfidences(scores);
+      setAnalyzed(true);
+    },
+    onError: (error: unknown) => {
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) ||
+          "Impossible d'analyser les photos"
+      );
+    },
+  });
+
+  const resolve = (field: SuggestionField) =>
+    setPending((current) => current.filter((s) => s.field !== field));
+
+  const accept = (suggestion: AcceptedPhotoSuggestion) => {
+    onAccept(suggestion);
+    resolve(suggestion.field);
+  };
+
+  const describe = (suggestion: AcceptedPhotoSuggestion): string => {
+    switch (suggestion.field) {
+      case 'category':
+        return getCategoryLabel(suggestion.value);
+      case 'condition':
+        return ITEM_CONDITION_LABELS[suggestion.value];
+      case 'tags':
+        return suggestion.value.join(', ');
+      default:
+        return suggestion.value;
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-dashed p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          L&apos;IA examine vos photos et propose des améliorations: vous
+          choisissez ce qui est appliqué.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => analyzeMutation.mutate()}
+          disabled={analyzeMutation.isPending}
+        >
+          {analyzeMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Camera className="mr-2 h-4 w-4" />
+          )}
+          {analyzed ? "Relancer l'analyse" : 'Analyser les photos'}
+        </Button>
+      </div>
+
+      {analyzed && pending.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Toutes les suggestions ont été traitées.
+        </p>
+      )}
+
+      {pending.map((suggestion) => {
+        const confidence = confidences[suggestion.field] ?? 0;
+
+        return (
+          <div
+            key={suggestion.field}
+            className="flex items-start justify-between gap-3 rounded-md bg-muted/50 p-3"
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">
+                  {FIELD_LABELS[suggestion.field]}
+                </span>
+                <Badge
+                  variant={
+                    confidence < LOW_CONFIDENCE ? 'outline' : 'secondary'
+                  }
+                  className={cn(
+                    confidence < LOW_CONFIDENCE && 'text-muted-foreground'
+                  )}
+                >
+                  Confiance {Math.round(confidence * 100)} %
+                  {confidence < LOW_CONFIDENCE && ' (faible)'}
+                </Badge>
+              </div>
+              <p className="break-words text-sm">{describe(suggestion)}</p>
+            </div>
+            <div className="flex shrink-0 gap-1">
+              <Button
+                type="button"
+                size="sm"
+                onClick={() => accept(suggestion)}
+                aria-label={`Accepter: ${FIELD_LABELS[suggestion.field]}`}
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => resolve(suggestion.field)}
+                aria-label={`Refuser: ${FIELD_LABELS[suggestion.field]}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
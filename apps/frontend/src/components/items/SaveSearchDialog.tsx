@@ -0,0 +1,158 @@
+/**
+ * FICHIER: components/items/SaveSearchDialog.tsx
+ *
+ * DESCRIPTION:
+ * Boîte de dialogue "Sauvegarder cette recherche" (page /explore).
+ * Les critères courants (recherche, catégorie, état, localisation et rayon)
+ * sont enregistrés via POST /saved-searches; l'utilisateur reçoit ensuite une
+ * notification à chaque nouvel objet correspondant.
+ *
+ * UTILISATION:
+ * <SaveSearchDialog params={params}>
+ *   <Button>Sauvegarder cette recherche</Button>
+ * </SaveSearchDialog>
+ *
+ * NOTES:
+ * - Le statut et le tri ne font pas partie d'une recherche sauvegardée
+ *   (les alertes portent toujours sur des objets disponibles)
+ * - Le nom est pré-rempli à partir des critères et reste modifiable
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { isAxiosError } from 'axios';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { savedSearchesApi } from '@/lib/saved-searches.api';
+import { ITEM_CONDITION_LABELS } from '@/lib/constants';
+import { useCategories } from '@/hooks/useCategories';
+import { useAuthStore } from '@/store/auth';
+import { CreateSavedSearchDto, ListItemsParams, SavedSearch } from '@/types';
+
+/**
+ * Critères d'une recherche sauvegardée à partir des filtres de /explore
+ */
+export function toSavedSearchCriteria(
+  params: ListItemsParams
+): CreateSavedSearchDto {
+  return {
+    q: params.q?.trim() || undefined,
+    category: params.category,
+    condition: params.condition,
+    near: params.near || undefined,
+    radiusKm: params.near ? params.radiusKm : undefined,
+  };
+}
+
+/**
+ * Description lisible des critères: « vélo » · Sport · Lyon (25 km)
+ * (label de catégorie fourni par useCategories)
+ */
+export function describeSavedSearch(
+  criteria: CreateSavedSearchDto | SavedSearch,
+  getCategoryLabel: (value: string) => string
+): string {
+  return [
+    criteria.q && `« ${criteria.q} »`,
+    criteria.category && getCategoryLabel(criteria.category),
+    criteria.condition && ITEM_CONDITION_LABELS[criteria.condition],
+    criteria.near && `${criteria.near} (${criteria.radiusKm ?? 50} km)`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+interface SaveSearchDialogProps {
+  params: ListItemsParams; // Filtres courants de /explore
+  children: React.ReactNode; // Élément déclencheur
+}
+
+export function SaveSearchDialog({ params, children }: SaveSearchDialogProps) {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const { getCategoryLabel } = useCategories();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const criteria = toSavedSearchCriteria(params);
+  const description = describeSavedSearch(criteria, getCategoryLabel);
+
+  const handleOpenChange = (value: boolean) => {
+    if (value && !user) {
+      toast.error('Connectez-vous pour sauvegarder une recherche');
+      return;
+    }
+    setOpen(value);
+    if (value) setName(description.slice(0, 100));
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await savedSearchesApi.createSavedSearch({
+        ...criteria,
+        name: name.trim() || undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      toast.success(
+        'Recherche sauvegardée: vous serez prévenu des nouveaux objets'
+      );
+      setOpen(false);
+    } catch (error) {
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) ||
+          'Erreur lors de la sauvegarde de la recherche'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sauvegarder cette recherche</DialogTitle>
+          <DialogDescription>
+            Vous recevrez une notification à chaque nouvel objet disponible
+            correspondant à : {description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="saved-search-name">Nom</Label>
+          <Input
+            id="saved-search-name"
+            maxLength={100}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Annuler
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Sauvegarde...' : 'Sauvegarder'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -59,6 +59,9 @@ import { usePathname } from 'next/navigation';
 import { useAuthStore } from '@/store/auth';
 import { useNotificationsStore } from '@/store/notifications';
 
+// Import du hook de synchronisation des notifications (compteur serveur + socket)
+import { useNotificationsSync } from '@/hooks/useNotificationsSync';
+
 // Import de react-hot-toast
 import { toast } from 'react-hot-toast';
 
@@ -101,6 +104,12 @@ export function Navbar() {
    */
   const { unreadCount } = useNotificationsStore();
 
+  /**
+   * Synchronisation du compteur avec la boîte de réception du serveur
+   * (la barre de navigation est montée sur toutes les pages).
+   */
+  useNotificationsSync();
+
   // ============================================
   // CONFIGURATION DES LIENS DE NAVIGATION
   // ============================================
@@ -14,7 +14,7 @@
  * - Tooltip détaillé avec les raisons du score (décomposition du calcul)
  * - Informations complètes de l'item (titre, description, catégorie, condition)
  * - Tags et score de popularité (affichage conditionnel)
- * - Informations du propriétaire (avatar, nom, date de création)
+ * - Informations du propriétaire (avatar, nom, réputation, date de création)
  * - Lien vers la page de détail de l'item
  * - Animation au survol (Framer Motion)
  * - Design responsive et moderne
@@ -72,8 +72,12 @@ import {
 // Import des types
 import { Recommendation } from '@/types';
 
-// Import des constantes
-import { ITEM_CATEGORY_LABELS, ITEM_CONDITION_LABELS } from '@/lib/constants';
+// Import de la réputation (avis) du propriétaire
+import { RatingBadge } from '@/components/ratings/RatingBadge';
+
+// Import des constantes et du registre des catégories
+import { ITEM_CONDITION_LABELS } from '@/lib/constants';
+import { useCategories } from '@/hooks/useCategories';
 
 // Import de date-fns pour le formatage des dates
 import { formatDistanceToNow } from 'date-fns';
@@ -128,21 +132,20 @@ export function RecommendationCard({
    *   - Ex: { score: 20, description: "Catégorie correspond à vos préférences" }
    */
   const { item, score, reasons } = recommendation;
+  const { getCategoryLabel } = useCategories();
 
   /**
    * Récupération des labels français pour la catégorie et la condition
    *
    * FALLBACK:
-   * - Si le label n'existe pas dans les constantes, utilise la valeur brute
+   * - Si le label n'existe pas (registre ou constantes), utilise la valeur brute
    * - Cela garantit qu'un label est toujours affiché (même si la constante est manquante)
    *
    * TYPE-SAFETY:
-   * - as keyof typeof ITEM_CATEGORY_LABELS: cast pour TypeScript
+   * - as keyof typeof ITEM_CONDITION_LABELS: cast pour TypeScript
    * - Permet d'accéder aux labels de manière type-safe
    */
-  const categoryLabel =
-    ITEM_CATEGORY_LABELS[item.category as keyof typeof ITEM_CATEGORY_LABELS] ||
-    item.category;
+  const categoryLabel = getCategoryLabel(item.category);
   const conditionLabel =
     ITEM_CONDITION_LABELS[
       item.condition as keyof typeof ITEM_CONDITION_LABELS
@@ -586,6 +589,10 @@ export function RecommendationCard({
               <p className="text-sm font-medium text-foreground">
                 {item.owner.displayName}
               </p>
+              {/**
+               * Réputation du propriétaire (note moyenne et nombre d'avis)
+               */}
+              <RatingBadge rating={item.owner.rating} />
               {/**
                * Date de création formatée
                *
@@ -0,0 +1,103 @@
+'use client';
+
+/**
+ * FICHIER: components/notifications/NotificationDevices.tsx
+ *
+ * DESCRIPTION:
+ * Liste des appareils qui reçoivent les notifications push de l'utilisateur
+ * (page /notifications). Chaque navigateur enregistré est un appareil distinct.
+ *
+ * FONCTIONNALITÉS:
+ * - Nom de l'appareil, dernière activité, mention "Cet appareil"
+ * - Révocation d'un appareil (il ne reçoit plus de push)
+ *
+ * NOTE:
+ * Les appareils inactifs depuis longtemps sont supprimés automatiquement par le serveur.
+ */
+
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { toast } from 'react-hot-toast';
+import { Smartphone, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { notificationsApi } from '@/lib/notifications.api';
+import { notificationService } from '@/lib/notifications';
+import { NotificationDevice } from '@/types';
+
+export function NotificationDevices() {
+  const queryClient = useQueryClient();
+  const currentDeviceId = notificationService.getCurrentDeviceId();
+
+  const { data: devices = [], isLoading } = useQuery({
+    queryKey: ['notification-devices'],
+    queryFn: () => notificationsApi.listDevices(),
+    retry: false,
+  });
+
+  const handleRevoke = async (device: NotificationDevice) => {
+    try {
+      await notificationsApi.revokeDevice(device.id);
+      queryClient.invalidateQueries({ queryKey: ['notification-devices'] });
+      toast.success('Appareil révoqué');
+    } catch (error) {
+      console.error("Erreur lors de la révocation de l'appareil:", error);
+      toast.error("Impossible de révoquer l'appareil");
+    }
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Smartphone className="h-5 w-5" />
+          Mes appareils
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Chargement...</p>
+        ) : devices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Aucun appareil ne reçoit vos notifications push.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border rounded-lg border border-border">
+            {devices.map((device) => (
+              <li
+                key={device.id}
+                className="flex items-center justify-between gap-3 p-4"
+              >
+                <div>
+                  <p className="flex items-center gap-2 text-sm font-medium">
+                    {device.label || 'Appareil inconnu'}
+                    {device.id === currentDeviceId && (
+                      <Badge variant="secondary">Cet appareil</Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Actif{' '}
+                    {formatDistanceToNow(new Date(device.lastSeenAt), {
+                      addSuffix: true,
+                      locale: fr,
+                    })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRevoke(device)}
+                  aria-label={`Révoquer ${device.label || "l'appareil"}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
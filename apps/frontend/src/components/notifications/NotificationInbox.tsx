@@ -0,0 +1,257 @@
+'use client';
+
+/**
+ * FICHIER: components/notifications/NotificationInbox.tsx
+ *
+ * DESCRIPTION:
+ * Boîte de réception des notifications in-app (page /notifications).
+ * Les notifications sont conservées côté serveur: la liste et le compteur
+ * de non lues sont identiques sur tous les appareils de l'utilisateur.
+ *
+ * FONCTIONNALITÉS:
+ * - Liste paginée avec filtre (toutes, non lues, archivées)
+ * - Clic sur une notification: marquée comme lue puis ouverture du lien profond
+ * - "Tout marquer comme lu" et archivage individuel
+ * - Rafraîchissement en temps réel via le socket `/notifications`
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { toast } from 'react-hot-toast';
+import { Archive, CheckCheck, Inbox } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { notificationsApi } from '@/lib/notifications.api';
+import { notificationsSocket } from '@/lib/notifications.socket';
+import { useNotificationsStore } from '@/store/notifications';
+import { AppNotification, NotificationListStatus } from '@/types';
+
+/**
+ * Nombre de notifications par page
+ */
+const PAGE_SIZE = 20;
+
+/**
+ * Filtres proposés à l'utilisateur
+ */
+const STATUS_FILTERS: { value: NotificationListStatus; label: string }[] = [
+  { value: 'all', label: 'Toutes' },
+  { value: 'unread', label: 'Non lues' },
+  { value: 'archived', label: 'Archivées' },
+];
+
+export function NotificationInbox() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const unreadCount = useNotificationsStore((s) => s.unreadCount);
+  const setUnreadCount = useNotificationsStore((s) => s.setUnreadCount);
+
+  const [status, setStatus] = useState<NotificationListStatus>('all');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['notifications-inbox', status, page],
+    queryFn: () =>
+      notificationsApi.listNotifications({ status, page, limit: PAGE_SIZE }),
+    retry: false,
+  });
+
+  // Le serveur renvoie le compteur avec chaque page: le badge reste exact
+  useEffect(() => {
+    if (data) setUnreadCount(data.unreadCount);
+  }, [data, setUnreadCount]);
+
+  // Nouvelles notifications et lectures sur un autre appareil
+  useEffect(() => {
+    const refresh = () =>
+      queryClient.invalidateQueries({ queryKey: ['notifications-inbox'] });
+
+    const unsubscribeNew = notificationsSocket.onNew(refresh);
+    const unsubscribeRead = notificationsSocket.onRead(refresh);
+    return () => {
+      unsubscribeNew();
+      unsubscribeRead();
+    };
+  }, [queryClient]);
+
+  const refresh = () =>
+    queryClient.invalidateQueries({ queryKey: ['notifications-inbox'] });
+
+  const handleStatusChange = (value: NotificationListStatus) => {
+    setStatus(value);
+    setPage(1);
+  };
+
+  const handleOpen = async (notification: AppNotification) => {
+    try {
+      if (!notification.readAt) {
+        await notificationsApi.markAsRead(notification.id);
+        refresh();
+      }
+    } catch (error) {
+      console.error('Erreur lors du marquage de la notification:', error);
+    }
+
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await notificationsApi.markAllAsRead();
+      setUnreadCount(0);
+      refresh();
+    } catch (error) {
+      console.error('Erreur lors du marquage des notifications:', error);
+      toast.error('Impossible de marquer les notifications comme lues');
+    }
+  };
+
+  const handleArchive = async (notification: AppNotification) => {
+    try {
+      await notificationsApi.archive(notification.id);
+      refresh();
+    } catch (error) {
+      console.error("Erreur lors de l'archivage de la notification:", error);
+      toast.error("Impossible d'archiver la notification");
+    }
+  };
+
+  const notifications = data?.items ?? [];
+  const totalPages = data?.totalPages ?? 1;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Boîte de réception
+          {unreadCount > 0 && (
+            <Badge variant="secondary">{unreadCount} non lue(s)</Badge>
+          )}
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleMarkAllAsRead}
+          disabled={unreadCount === 0}
+        >
+          <CheckCheck className="mr-2 h-4 w-4" />
+          Tout marquer comme lu
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filtres */}
+        <div className="flex gap-2">
+          {STATUS_FILTERS.map((filter) => (
+            <Button
+              key={filter.value}
+              variant={status === filter.value ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => handleStatusChange(filter.value)}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
+
+        {/* Liste */}
+        {isLoading ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Chargement...
+          </p>
+        ) : error ? (
+          <p className="py-8 text-center text-sm text-red-600">
+            Impossible de charger les notifications
+          </p>
+        ) : notifications.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Aucune notification
+          </p>
+        ) : (
+          <ul className="divide-y divide-border rounded-lg border border-border">
+            {notifications.map((notification) => (
+              <li
+                key={notification.id}
+                className={`flex items-start gap-3 p-4 ${
+                  notification.readAt ? '' : 'bg-primary/5'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => handleOpen(notification)}
+                  className="flex flex-1 items-start gap-3 text-left"
+                >
+                  <span
+                    className={`mt-2 h-2 w-2 shrink-0 rounded-full ${
+                      notification.readAt ? 'bg-transparent' : 'bg-primary'
+                    }`}
+                    aria-hidden="true"
+                  />
+                  <span className="flex-1">
+                    <span
+                      className={`block text-sm ${
+                        notification.readAt ? '' : 'font-semibold'
+                      }`}
+                    >
+                      {notification.title}
+                    </span>
+                    <span className="block text-sm text-muted-foreground">
+                      {notification.body}
+                    </span>
+                    <span className="mt-1 block text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), {
+                        addSuffix: true,
+                        locale: fr,
+                      })}
+                    </span>
+                  </span>
+                </button>
+                {!notification.archivedAt && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleArchive(notification)}
+                    aria-label="Archiver la notification"
+                  >
+                    <Archive className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page <= 1}
+            >
+              Précédent
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} / {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={page >= totalPages}
+            >
+              Suivant
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,297 @@
+/**
+ * FICHIER: components/profile/NotificationPreferencesCard.tsx
+ *
+ * DESCRIPTION:
+ * Carte de la page profil permettant de choisir, pour chaque type de notification,
+ * les canaux autorisés (push, boîte de réception et email), la fréquence du résumé
+ * par email ainsi que des heures calmes.
+ *
+ * FONCTIONNEMENT:
+ * - Les préférences sont lues puis enregistrées via `notificationsApi`
+ *   (GET/PUT /notifications/preferences) et vérifiées par le serveur avant chaque envoi
+ * - Pendant les heures calmes, seul le push est suspendu: la boîte de réception
+ *   et les emails continuent d'être alimentés
+ * - Les liens de désinscription des emails modifient ces mêmes préférences
+ * - Le fuseau horaire enregistré est celui de l'appareil utilisé pour sauvegarder
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { BellRing, Mail, Moon } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { notificationsApi } from '@/lib/notifications.api';
+import {
+  DigestFrequency,
+  NotificationPreferences,
+  NotificationType,
+} from '@/types';
+
+/**
+ * Types de notification proposés à l'utilisateur
+ * (RECOMMENDATIONS n'est pas proposé: aucune notification de ce type n'est envoyée)
+ */
+const NOTIFICATION_TYPES: { type: NotificationType; label: string }[] = [
+  { type: 'WEEKLY_THEME', label: 'Thème de la semaine' },
+  { type: 'EXCHANGE_STATUS', label: 'Suivi de mes échanges' },
+  { type: 'NEW_MESSAGE', label: 'Nouveaux messages' },
+  { type: 'COMMUNITY_REPLY', label: 'Réponses dans la communauté' },
+  { type: 'SAVED_SEARCH', label: 'Alertes de recherches sauvegardées' },
+  { type: 'WATCHED_ITEM', label: 'Objets suivis' },
+];
+
+/**
+ * Fréquences du résumé par email des notifications non lues
+ */
+const DIGEST_FREQUENCIES: { value: DigestFrequency; label: string }[] = [
+  { value: 'DAILY', label: 'Chaque jour' },
+  { value: 'WEEKLY', label: 'Chaque lundi' },
+  { value: 'NEVER', label: 'Jamais' },
+];
+
+/**
+ * Heures calmes proposées lors de l'activation
+ */
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+
+/**
+ * Fuseau horaire de l'appareil (ex: Europe/Paris)
+ */
+function getDeviceTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Ajoute ou retire un type d'une liste de types désactivés
+ */
+function toggleMuted(
+  muted: NotificationType[],
+  type: NotificationType,
+  enabled: boolean
+): NotificationType[] {
+  return enabled ? muted.filter((t) => t !== type) : [...muted, type];
+}
+
+export function NotificationPreferencesCard() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<NotificationPreferences | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: () => notificationsApi.getPreferences(),
+    retry: false,
+  });
+
+  // Copie locale modifiable des préférences serveur
+  useEffect(() => {
+    if (data) setDraft(data);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (preferences: NotificationPreferences) =>
+      notificationsApi.updatePreferences({
+        ...preferences,
+        timezone: getDeviceTimezone(),
+      }),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['notification-preferences'], saved);
+      toast.success('Préférences de notification enregistrées');
+    },
+    onError: () => {
+      toast.error("Impossible d'enregistrer les préférences");
+    },
+  });
+
+  const quietHoursEnabled =
+    draft?.quietHoursStart !== null && draft?.quietHoursEnd !== null;
+
+  const handleQuietHoursToggle = (enabled: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      quietHoursStart: enabled ? DEFAULT_QUIET_HOURS.start : null,
+      quietHoursEnd: enabled ? DEFAULT_QUIET_HOURS.end : null,
+    });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Préférences de notification
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || (!draft && !error) ? (
+          <p className="text-sm text-muted-foreground">Chargement...</p>
+        ) : error || !draft ? (
+          <p className="text-sm text-red-600">
+            Impossible de charger les préférences
+          </p>
+        ) : (
+          <>
+            {/* Types × canaux */}
+            <div className="space-y-3">
+              <div className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-x-6 text-xs font-medium text-muted-foreground">
+                <span>Type</span>
+                <span>Push</span>
+                <span>Boîte de réception</span>
+                <span>Email</span>
+              </div>
+              {NOTIFICATION_TYPES.map(({ type, label }) => (
+                <div
+                  key={type}
+                  className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-x-6"
+                >
+                  <span className="text-sm">{label}</span>
+                  <Switch
+                    checked={!draft.mutedPush.includes(type)}
+                    onCheckedChange={(enabled) =>
+                      setDraft({
+                        ...draft,
+                        mutedPush: toggleMuted(draft.mutedPush, type, enabled),
+                      })
+                    }
+                    aria-label={`Push: ${label}`}
+                  />
+                  <Switch
+                    checked={!draft.mutedInApp.includes(type)}
+                    onCheckedChange={(enabled) =>
+                      setDraft({
+                        ...draft,
+                        mutedInApp: toggleMuted(
+                          draft.mutedInApp,
+                          type,
+                          enabled
+                        ),
+                      })
+                    }
+                    aria-label={`Boîte de réception: ${label}`}
+                  />
+                  <Switch
+                    checked={!draft.mutedEmail.includes(type)}
+                    onCheckedChange={(enabled) =>
+                      setDraft({
+                        ...draft,
+                        mutedEmail: toggleMuted(
+                          draft.mutedEmail,
+                          type,
+                          enabled
+                        ),
+                      })
+                    }
+                    aria-label={`Email: ${label}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Résumé par email */}
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-border bg-muted/30 p-4">
+              <div>
+                <h3 className="flex items-center gap-2 font-semibold">
+                  <Mail className="h-4 w-4" />
+                  Résumé par email
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Récapitulatif de vos notifications non lues
+                </p>
+              </div>
+              <Select
+                value={draft.digestFrequency}
+                onValueChange={(value) =>
+                  setDraft({
+                    ...draft,
+                    digestFrequency: value as DigestFrequency,
+                  })
+                }
+              >
+                <SelectTrigger
+                  className="w-40"
+                  aria-label="Fréquence du résumé"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIGEST_FREQUENCIES.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Heures calmes */}
+            <div className="space-y-3 rounded-lg border border-border bg-muted/30 p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="flex items-center gap-2 font-semibold">
+                    <Moon className="h-4 w-4" />
+                    Heures calmes
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Aucune notification push pendant cette plage (fuseau:{' '}
+                    {draft.timezone})
+                  </p>
+                </div>
+                <Switch
+                  checked={quietHoursEnabled}
+                  onCheckedChange={handleQuietHoursToggle}
+                  aria-label="Activer les heures calmes"
+                />
+              </div>
+              {quietHoursEnabled && (
+                <div className="flex gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="quiet-hours-start">Début</Label>
+                    <Input
+                      id="quiet-hours-start"
+                      type="time"
+                      value={draft.quietHoursStart ?? ''}
+                      onChange={(e) =>
+                        setDraft({ ...draft, quietHoursStart: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="quiet-hours-end">Fin</Label>
+                    <Input
+                      id="quiet-hours-end"
+                      type="time"
+                      value={draft.quietHoursEnd ?? ''}
+                      onChange={(e) =>
+                        setDraft({ ...draft, quietHoursEnd: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <Button
+              onClick={() => saveMutation.mutate(draft)}
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
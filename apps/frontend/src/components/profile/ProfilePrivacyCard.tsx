@@ -0,0 +1,109 @@
+/**
+ * FICHIER: components/profile/ProfilePrivacyCard.tsx
+ *
+ * DESCRIPTION:
+ * Carte de la page profil permettant de choisir les sections du profil public
+ * (/users/:id) visibles des autres membres: bio, ville, objets disponibles et
+ * réputation d'échange. Le nom, l'avatar et l'ancienneté restent toujours visibles.
+ *
+ * FONCTIONNEMENT:
+ * - Réglages lus puis enregistrés à chaque changement via apiClient
+ *   (GET/PUT /users/me/privacy, clé React Query `profile-privacy`)
+ * - La ville est la seule information de localisation publiée, jamais les coordonnées
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { ExternalLink, ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import apiClient from '@/lib/api';
+import { ProfilePrivacy } from '@/types';
+
+/**
+ * Sections masquables du profil public
+ */
+const PRIVACY_SECTIONS: { key: keyof ProfilePrivacy; label: string }[] = [
+  { key: 'showBio', label: 'Bio' },
+  { key: 'showLocation', label: 'Ville' },
+  { key: 'showItems', label: 'Objets disponibles' },
+  { key: 'showExchangeStats', label: 'Échanges réalisés et taux de réponse' },
+];
+
+interface ProfilePrivacyCardProps {
+  userId: string; // Pour le lien vers le profil public
+}
+
+export function ProfilePrivacyCard({ userId }: ProfilePrivacyCardProps) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['profile-privacy'],
+    queryFn: () => apiClient.getProfilePrivacy(),
+    retry: false,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (privacy: Partial<ProfilePrivacy>) =>
+      apiClient.updateProfilePrivacy(privacy),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['profile-privacy'], saved);
+      queryClient.invalidateQueries({ queryKey: ['public-profile', userId] });
+      toast.success('Confidentialité du profil enregistrée');
+    },
+    onError: () => {
+      toast.error("Impossible d'enregistrer la confidentialité du profil");
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Profil public
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Votre nom, votre avatar et votre date d&apos;inscription sont toujours
+          visibles. Choisissez les autres informations affichées aux membres.
+        </p>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Chargement...</p>
+        ) : error || !data ? (
+          <p className="text-sm text-red-600">
+            Impossible de charger la confidentialité du profil
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {PRIVACY_SECTIONS.map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between">
+                <Label htmlFor={`privacy-${key}`}>{label}</Label>
+                <Switch
+                  id={`privacy-${key}`}
+                  checked={data[key]}
+                  disabled={saveMutation.isPending}
+                  onCheckedChange={(visible) =>
+                    saveMutation.mutate({ [key]: visible })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        <Button variant="outline" className="w-full" asChild>
+          <Link href={`/users/${userId}`}>
+            <ExternalLink className="mr-2 h-4 w-4" />
+            Voir mon profil public
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * FICHIER: components/profile/SavedSearchesCard.tsx
+ *
+ * DESCRIPTION:
+ * Carte de la page profil listant les recherches sauvegardées de l'utilisateur.
+ * Chaque recherche peut être relancée sur /explore ou supprimée (ses alertes
+ * s'arrêtent alors).
+ *
+ * FONCTIONNEMENT:
+ * - GET /saved-searches (clé React Query `saved-searches`, invalidée après
+ *   une sauvegarde depuis /explore ou la recherche rapide)
+ * - DELETE /saved-searches/:id
+ * - Les alertes sont des notifications SAVED_SEARCH, réglables dans les
+ *   préférences de notification
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { toast } from 'react-hot-toast';
+import { BellRing, Search, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { describeSavedSearch } from '@/components/items/SaveSearchDialog';
+import { savedSearchesApi } from '@/lib/saved-searches.api';
+import { useCategories } from '@/hooks/useCategories';
+import { SavedSearch } from '@/types';
+
+/**
+ * Lien /explore reproduisant les critères de la recherche
+ */
+function toExploreHref(savedSearch: SavedSearch): string {
+  const params = new URLSearchParams();
+  if (savedSearch.q) params.set('q', savedSearch.q);
+  if (savedSearch.category) params.set('category', savedSearch.category);
+  if (savedSearch.condition) params.set('condition', savedSearch.condition);
+  if (savedSearch.near) params.set('near', savedSearch.near);
+  if (savedSearch.near && savedSearch.radiusKm) {
+    params.set('radiusKm', String(savedSearch.radiusKm));
+  }
+  return `/explore?${params.toString()}`;
+}
+
+export function SavedSearchesCard() {
+  const queryClient = useQueryClient();
+  const { getCategoryLabel } = useCategories();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['saved-searches'],
+    queryFn: () => savedSearchesApi.listSavedSearches(),
+    retry: false,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => savedSearchesApi.deleteSavedSearch(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+      toast.success('Recherche supprimée');
+    },
+    onError: () => {
+      toast.error('Impossible de supprimer la recherche');
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Recherches sauvegardées
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Chargement...</p>
+        ) : error || !data ? (
+          <p className="text-sm text-red-600">
+            Impossible de charger les recherches sauvegardées
+          </p>
+        ) : data.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Aucune recherche sauvegardée. Depuis la page Explorer, utilisez «
+            Sauvegarder cette recherche » pour être prévenu des nouveaux objets.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {data.map((savedSearch) => (
+              <li
+                key={savedSearch.id}
+                className="flex items-center justify-between gap-4 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">
+                    {savedSearch.name}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {describeSavedSearch(savedSearch, getCategoryLabel)}
+                    {savedSearch.lastMatchedAt &&
+                      ` · Dernière alerte ${formatDistanceToNow(
+                        new Date(savedSearch.lastMatchedAt),
+                        { addSuffix: true, locale: fr }
+                      )}`}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Button variant="ghost" size="icon" asChild>
+                    <Link
+                      href={toExploreHref(savedSearch)}
+                      aria-label={`Relancer: ${savedSearch.name}`}
+                    >
+                      <Search className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(savedSearch.id)}
+                    disabled={deleteMutation.isPending}
+                    aria-label={`Supprimer: ${savedSearch.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
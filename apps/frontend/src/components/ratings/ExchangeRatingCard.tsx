@@ -0,0 +1,230 @@
+/**
+ * FICHIER: components/ratings/ExchangeRatingCard.tsx
+ *
+ * DESCRIPTION:
+ * Avis d'un échange réalisé, affiché sur la page de l'échange: formulaire pour
+ * noter l'autre participant (1 à 5 étoiles, tags et commentaire optionnels),
+ * puis les deux avis une fois visibles.
+ *
+ * RÈGLES (appliquées par le serveur):
+ * - Un avis par participant, pendant le délai qui suit la réalisation
+ * - L'avis de l'autre participant reste masqué tant que l'on n'a pas déposé
+ *   le sien, ou jusqu'à la fin du délai
+ *
+ * DONNÉES:
+ * - GET/POST /ratings/exchanges/:exchangeId (clé React Query `exchange-ratings`)
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Star } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ratingsApi } from '@/lib/ratings.api';
+import { RATING_TAG_LABELS } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+import { Rating, RatingTag } from '@/types';
+
+const RATING_TAGS = Object.keys(RATING_TAG_LABELS) as RatingTag[];
+
+interface ExchangeRatingCardProps {
+  exchangeId: string;
+  otherUserName: string; // Participant noté
+}
+
+/**
+ * Étoiles de 1 à 5 (sélectionnables si onChange est fourni)
+ */
+function Stars({
+  score,
+  onChange,
+}: {
+  score: number;
+  onChange?: (score: number) => void;
+}) {
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map((value) => {
+        const star = (
+          <Star
+            className={cn(
+              'h-5 w-5',
+              value <= score
+                ? 'fill-yellow-400 text-yellow-400'
+                : 'text-muted-foreground'
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange(value)}
+            aria-label={`${value} sur 5`}
+          >
+            {star}
+          </button>
+        ) : (
+          <span key={value}>{star}</span>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Avis déposé (le mien ou celui de l'autre participant)
+ */
+function RatingView({ title, rating }: { title: string; rating: Rating }) {
+  return (
+    <div className="space-y-2 rounded-lg border border-border/60 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">{title}</p>
+        <Stars score={rating.score} />
+      </div>
+      {rating.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {rating.tags.map((tag) => (
+            <Badge key={tag} variant="secondary">
+              {RATING_TAG_LABELS[tag]}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {rating.comment && (
+        <p className="text-sm text-muted-foreground">« {rating.comment} »</p>
+      )}
+    </div>
+  );
+}
+
+export function ExchangeRatingCard({
+  exchangeId,
+  otherUserName,
+}: ExchangeRatingCardProps) {
+  const queryClient = useQueryClient();
+  const [score, setScore] = useState(0);
+  const [tags, setTags] = useState<RatingTag[]>([]);
+  const [comment, setComment] = useState('');
+
+  const { data: state, isLoading } = useQuery({
+    queryKey: ['exchange-ratings', exchangeId],
+    queryFn: () => ratingsApi.getExchangeRatings(exchangeId),
+  });
+
+  const rateMutation = useMutation({
+    mutationFn: () =>
+      ratingsApi.rateExchange(exchangeId, {
+        score,
+        tags,
+        comment: comment.trim() || undefined,
+      }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['exchange-ratings', exchangeId], updated);
+      toast.success('Merci pour votre avis');
+    },
+    onError: (error) => {
+      const message = isAxiosError(error)
+        ? error.response?.data?.message
+        : undefined;
+      toast.error(
+        typeof message === 'string'
+          ? message
+          : "Impossible d'enregistrer votre avis"
+      );
+    },
+  });
+
+  if (isLoading || !state) {
+    return null;
+  }
+
+  const toggleTag = (tag: RatingTag) =>
+    setTags((current) =>
+      current.includes(tag)
+        ? current.filter((value) => value !== tag)
+        : [...current, tag]
+    );
+
+  const deadline = state.deadline
+    ? format(new Date(state.deadline), 'd MMMM yyyy', { locale: fr })
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Avis sur l&apos;échange</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {state.canRate && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {state.otherHasRated
+                ? `${otherUserName} a déjà laissé son avis: donnez le vôtre pour le découvrir.`
+                : `Comment s'est passé votre échange avec ${otherUserName} ? Votre avis restera masqué jusqu'à ce que ${otherUserName} ait noté l'échange${deadline ? `, ou jusqu'au ${deadline}` : ''}.`}
+            </p>
+            <Stars score={score} onChange={setScore} />
+            <div className="flex flex-wrap gap-2">
+              {RATING_TAGS.map((tag) => (
+                <Button
+                  key={tag}
+                  type="button"
+                  size="sm"
+                  variant={tags.includes(tag) ? 'default' : 'outline'}
+                  onClick={() => toggleTag(tag)}
+                >
+                  {RATING_TAG_LABELS[tag]}
+                </Button>
+              ))}
+            </div>
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Commentaire (optionnel)"
+              maxLength={500}
+              rows={3}
+            />
+            <Button
+              onClick={() => rateMutation.mutate()}
+              disabled={score === 0 || rateMutation.isPending}
+            >
+              Publier mon avis
+            </Button>
+          </div>
+        )}
+
+        {state.myRating && (
+          <RatingView title="Votre avis" rating={state.myRating} />
+        )}
+
+        {state.otherRating ? (
+          <RatingView
+            title={`Avis de ${otherUserName}`}
+            rating={state.otherRating}
+          />
+        ) : (
+          state.myRating && (
+            <p className="text-sm text-muted-foreground">
+              {`${otherUserName} n'a pas encore laissé son avis${deadline ? ` (délai jusqu'au ${deadline})` : ''}.`}
+            </p>
+          )
+        )}
+
+        {!state.canRate && !state.myRating && (
+          <p className="text-sm text-muted-foreground">
+            Le délai pour noter cet échange est terminé.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * FICHIER: components/ratings/RatingBadge.tsx
+ *
+ * DESCRIPTION:
+ * Réputation compacte d'un membre: étoile, note moyenne et nombre d'avis
+ * (avis déposés après les échanges réalisés). Affiché à côté du nom d'un
+ * membre (cartes d'échange, recommandations, profil public).
+ *
+ * UTILISATION:
+ * <RatingBadge rating={otherUser.rating} />
+ */
+
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { RatingSummary } from '@/types';
+
+interface RatingBadgeProps {
+  rating?: RatingSummary; // Absente: rien n'est affiché
+  className?: string;
+}
+
+export function RatingBadge({ rating, className }: RatingBadgeProps) {
+  if (!rating) {
+    return null;
+  }
+
+  if (rating.ratingsCount === 0 || rating.averageRating === null) {
+    return (
+      <span className={cn('text-xs text-muted-foreground', className)}>
+        Aucun avis
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 text-xs text-muted-foreground',
+        className
+      )}
+      title={`Note moyenne sur ${rating.ratingsCount} avis`}
+    >
+      <Star className="h-3.5 w-3.5 fill-yellow-400 text-yellow-400" />
+      <span className="font-medium text-foreground">
+        {rating.averageRating.toLocaleString('fr-FR')}
+      </span>
+      ({rating.ratingsCount} avis)
+    </span>
+  );
+}
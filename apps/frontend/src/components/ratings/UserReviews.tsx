@@ -0,0 +1,115 @@
+/**
+ * FICHIER: components/ratings/UserReviews.tsx
+ *
+ * DESCRIPTION:
+ * Section "Avis" du profil public d'un membre: note moyenne, tags les plus
+ * reçus et derniers avis laissés par ses partenaires d'échange.
+ *
+ * DONNÉES:
+ * - Réputation agrégée fournie par le profil (GET /users/:id, champ `ratings`)
+ * - Derniers avis: GET /ratings/users/:userId (clé React Query `user-ratings`)
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { Star } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { ratingsApi } from '@/lib/ratings.api';
+import { RATING_TAG_LABELS } from '@/lib/constants';
+import { UserRatingSummary } from '@/types';
+
+/**
+ * Nombre d'avis affichés sur le profil (les plus récents)
+ */
+const REVIEWS_PREVIEW_LIMIT = 5;
+
+interface UserReviewsProps {
+  userId: string;
+  summary: UserRatingSummary;
+}
+
+export function UserReviews({ userId, summary }: UserReviewsProps) {
+  const { data } = useQuery({
+    queryKey: ['user-ratings', userId],
+    queryFn: () =>
+      ratingsApi.listUserRatings(userId, { limit: REVIEWS_PREVIEW_LIMIT }),
+    enabled: summary.ratingsCount > 0,
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Star className="h-5 w-5 fill-yellow-400 text-yellow-400" />
+          {summary.averageRating !== null
+            ? `${summary.averageRating.toLocaleString('fr-FR')} / 5`
+            : 'Avis'}
+          <span className="text-sm font-normal text-muted-foreground">
+            ({summary.ratingsCount} avis)
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {summary.ratingsCount === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Aucun avis pour le moment
+          </p>
+        ) : (
+          <>
+            {summary.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {summary.tags.map(({ tag, count }) => (
+                  <Badge key={tag} variant="secondary">
+                    {RATING_TAG_LABELS[tag]} · {count}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="space-y-3">
+              {data?.items.map((rating) => (
+                <div
+                  key={rating.id}
+                  className="flex gap-3 border-t border-border/60 pt-3"
+                >
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={rating.rater.avatarUrl ?? undefined} />
+                    <AvatarFallback className="text-xs">
+                      {rating.rater.displayName.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium">
+                        {rating.rater.displayName}
+                      </span>
+                      <span className="inline-flex items-center gap-0.5">
+                        <Star className="h-3.5 w-3.5 fill-yellow-400 text-yellow-400" />
+                        {rating.score}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(rating.createdAt), {
+                          addSuffix: true,
+                          locale: fr,
+                        })}
+                      </span>
+                    </div>
+                    {rating.comment && (
+                      <p className="text-sm text-muted-foreground">
+                        {rating.comment}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * FICHIER: components/reports/ReportDialog.tsx
+ *
+ * DESCRIPTION:
+ * Boîte de dialogue de signalement d'un contenu (objet, utilisateur, échange, post).
+ * Le signalement est envoyé à POST /reports et rejoint la file de modération admin.
+ *
+ * UTILISATION:
+ * <ReportDialog targetType="ITEM" targetId={item.id}>
+ *   <Button>Signaler</Button>
+ * </ReportDialog>
+ *
+ * ERREURS GÉRÉES:
+ * - 409: contenu déjà signalé (en attente de modération)
+ * - 429: trop de signalements envoyés
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { isAxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { reportsApi } from '@/lib/reports.api';
+import { REPORT_REASON_LABELS } from '@/lib/constants';
+import { useAuthStore } from '@/store/auth';
+import { ReportReason, ReportTargetType } from '@/types';
+
+const DIALOG_TITLES: Record<ReportTargetType, string> = {
+  ITEM: 'Signaler cet objet',
+  USER: 'Signaler cet utilisateur',
+  EXCHANGE: 'Signaler cet échange',
+  POST: 'Signaler ce message',
+};
+
+interface ReportDialogProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  children: React.ReactNode; // Élément déclencheur (bouton, entrée de menu...)
+}
+
+export function ReportDialog({
+  targetType,
+  targetId,
+  children,
+}: ReportDialogProps) {
+  const { user } = useAuthStore();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Le motif "Autre" doit être précisé
+  const needsMessage = reason === 'OTHER' && !message.trim();
+
+  const handleOpenChange = (value: boolean) => {
+    if (value && !user) {
+      toast.error('Connectez-vous pour signaler un contenu');
+      return;
+    }
+    setOpen(value);
+    if (!value) {
+      setReason('');
+      setMessage('');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!reason || needsMessage) return;
+
+    setIsSubmitting(true);
+    try {
+      await reportsApi.createReport({
+        targetType,
+        targetId,
+        reason,
+        message: message.trim() || undefined,
+      });
+      toast.success('Merci, votre signalement a été transmis à la modération');
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(
+        (isAxiosError(error) && error.response?.data?.message) ||
+          "Erreur lors de l'envoi du signalement"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{DIALOG_TITLES[targetType]}</DialogTitle>
+          <DialogDescription>
+            {
+              "Votre signalement est anonyme pour l'utilisateur concerné et sera examiné par un modérateur."
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="report-reason">Motif *</Label>
+            <Select
+              value={reason}
+              onValueChange={(value) => setReason(value as ReportReason)}
+            >
+              <SelectTrigger id="report-reason">
+                <SelectValue placeholder="Choisir un motif" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map(
+                  (value) => (
+                    <SelectItem key={value} value={value}>
+                      {REPORT_REASON_LABELS[value]}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-message">
+              Précisions{reason === 'OTHER' ? ' *' : ' (optionnel)'}
+            </Label>
+            <Textarea
+              id="report-message"
+              placeholder="Décrivez le problème..."
+              rows={3}
+              maxLength={1000}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Annuler
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={!reason || needsMessage || isSubmitting}
+          >
+            {isSubmitting ? 'Envoi...' : 'Signaler'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
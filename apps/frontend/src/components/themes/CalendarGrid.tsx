@@ -19,7 +19,7 @@ import {
   Tag,
 } from 'lucide-react';
 import { useUnsplashImages } from '@/hooks/useUnsplashImages';
-import { ITEM_CATEGORY_LABELS } from '@/lib/constants';
+import { useCategories } from '@/hooks/useCategories';
 
 interface CalendarGridProps {
   weeks: CalendarWeek[];
@@ -190,6 +190,7 @@ function WeeklyThemeCard({
   weekEnd,
   isCurrentWeekActive,
 }: WeeklyThemeCardProps) {
+  const { getCategoryLabel } = useCategories();
   const { data: images } = useUnsplashImages(
     data.photoUrl ? '' : `${data.query} sustainable`,
     1,
@@ -254,7 +255,7 @@ function WeeklyThemeCard({
                   className="text-xs"
                 >
                   <Tag className="mr-1 h-3 w-3" />
-                  {ITEM_CATEGORY_LABELS[category] || category}
+                  {getCategoryLabel(category)}
                 </Badge>
               ))}
             </div>
@@ -1,7 +1,21 @@
+import { ReactElement } from 'react';
 import { render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { CalendarGrid } from '../CalendarGrid';
 import { CalendarWeek } from '@/types';
 
+// WeeklyThemeCard charge les catégories avec react-query
+const renderWithQueryClient = (ui: ReactElement) =>
+  render(
+    <QueryClientProvider
+      client={
+        new QueryClient({ defaultOptions: { queries: { retry: false } } })
+      }
+    >
+      {ui}
+    </QueryClientProvider>
+  );
+
 const mockWeeks: CalendarWeek[] = [
   {
     weekStart: '2024-01-15T00:00:00Z',
@@ -37,7 +51,7 @@ const mockWeeks: CalendarWeek[] = [
 
 describe('CalendarGrid', () => {
   it('renders calendar grid with weeks', () => {
-    render(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
+    renderWithQueryClient(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
 
     expect(screen.getByText('Calendrier des Thèmes')).toBeInTheDocument();
     expect(
@@ -47,7 +61,7 @@ describe('CalendarGrid', () => {
   });
 
   it('displays week information correctly', () => {
-    render(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
+    renderWithQueryClient(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
 
     expect(screen.getByText('Thème Passé')).toBeInTheDocument();
     expect(screen.getByText('Thème Actuel')).toBeInTheDocument();
@@ -55,7 +69,7 @@ describe('CalendarGrid', () => {
   });
 
   it('shows correct status badges', () => {
-    render(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
+    renderWithQueryClient(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
 
     expect(screen.getAllByText('Passé')).toHaveLength(2);
     expect(screen.getByText('Actuel')).toBeInTheDocument();
@@ -63,21 +77,23 @@ describe('CalendarGrid', () => {
   });
 
   it('displays active theme information', () => {
-    render(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
+    renderWithQueryClient(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
 
     expect(screen.getByText('Description du thème actuel')).toBeInTheDocument();
     expect(screen.getAllByText('Thème actif')).toHaveLength(2); // One in the card, one in the legend
   });
 
   it('shows correct buttons for themes', () => {
-    render(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
+    renderWithQueryClient(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
 
     expect(screen.getByText('Voir les suggestions')).toBeInTheDocument();
     expect(screen.getAllByText('Aucune suggestion')).toHaveLength(2);
   });
 
   it('renders loading state', () => {
-    render(<CalendarGrid weeks={[]} currentWeek={0} isLoading={true} />);
+    renderWithQueryClient(
+      <CalendarGrid weeks={[]} currentWeek={0} isLoading={true} />
+    );
 
     // Should show skeleton loaders
     const skeletonElements = document.querySelectorAll('.animate-pulse');
@@ -85,7 +101,7 @@ describe('CalendarGrid', () => {
   });
 
   it('displays legend', () => {
-    render(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
+    renderWithQueryClient(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
 
     expect(screen.getAllByText('Thème actif')).toHaveLength(2); // One in the card, one in the legend
     expect(screen.getByText('Semaine actuelle')).toBeInTheDocument();
@@ -93,14 +109,14 @@ describe('CalendarGrid', () => {
   });
 
   it('handles empty weeks array', () => {
-    render(<CalendarGrid weeks={[]} currentWeek={0} />);
+    renderWithQueryClient(<CalendarGrid weeks={[]} currentWeek={0} />);
 
     expect(screen.getByText('Calendrier des Thèmes')).toBeInTheDocument();
     expect(screen.getByText('0 semaines')).toBeInTheDocument();
   });
 
   it('shows correct date formatting', () => {
-    render(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
+    renderWithQueryClient(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
 
     // Check that dates are formatted correctly (French locale)
     expect(screen.getByText(/15 janv/)).toBeInTheDocument();
@@ -119,7 +135,9 @@ describe('CalendarGrid', () => {
       },
     ];
 
-    render(<CalendarGrid weeks={weeksWithoutThemes} currentWeek={0} />);
+    renderWithQueryClient(
+      <CalendarGrid weeks={weeksWithoutThemes} currentWeek={0} />
+    );
 
     expect(
       screen.getByText('Aucun thème défini pour cette semaine')
@@ -128,7 +146,7 @@ describe('CalendarGrid', () => {
   });
 
   it('applies correct styling for current week', () => {
-    render(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
+    renderWithQueryClient(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
 
     // The current week should have special styling
     const currentWeekCard = screen.getByText('Thème Actuel').closest('.group');
@@ -136,7 +154,7 @@ describe('CalendarGrid', () => {
   });
 
   it('shows correct week count in badge', () => {
-    render(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
+    renderWithQueryClient(<CalendarGrid weeks={mockWeeks} currentWeek={1} />);
 
     expect(screen.getByText('3 semaines')).toBeInTheDocument();
   });
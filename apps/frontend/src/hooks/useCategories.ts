@@ -0,0 +1,77 @@
+/**
+ * FICHIER: hooks/useCategories.ts
+ *
+ * DESCRIPTION:
+ * Hook personnalisé pour lire le registre des catégories d'items
+ * (GET /items/categories): labels traduits, icônes et sous-catégories.
+ * Ce sont les seules catégories acceptées par le backend; les formulaires et
+ * les filtres construisent leurs options à partir de ce hook.
+ *
+ * FONCTIONNEMENT:
+ * - Labels, icônes et sous-catégories viennent uniquement du serveur
+ * - Le registre change rarement: cache d'une heure
+ * - En attendant la réponse ou en cas d'erreur: repli sur les valeurs
+ *   (ITEM_CATEGORIES), affichées telles quelles avec l'icône par défaut
+ *
+ * EXEMPLE D'UTILISATION:
+ * ```tsx
+ * const { categories, getCategoryLabel } = useCategories();
+ *
+ * categories.map((category) => (
+ *   <option key={category.value} value={category.value}>
+ *     {category.label}
+ *   </option>
+ * ));
+ * ```
+ *
+ * @module hooks/useCategories
+ */
+
+'use client';
+
+// Import de React pour les hooks useCallback et useMemo
+import { useCallback, useMemo } from 'react';
+
+// Import de React Query pour la gestion des requêtes
+import { useQuery } from '@tanstack/react-query';
+
+// Import du client API et des valeurs de repli
+import apiClient from '@/lib/api';
+import { ITEM_CATEGORIES } from '@/lib/constants';
+import type { ItemCategoryOption } from '@/types';
+
+/**
+ * Catégories de repli (API indisponible): valeurs seules, sans traduction
+ */
+const FALLBACK_CATEGORY_OPTIONS: ItemCategoryOption[] = ITEM_CATEGORIES.map(
+  (value) => ({ value, label: value, icon: 'package', subcategories: [] })
+);
+
+/**
+ * HOOK: useCategories
+ *
+ * @returns categories (registre, jamais vide), getCategoryLabel et isLoading
+ */
+export function useCategories() {
+  const { data, isLoading } = useQuery<ItemCategoryOption[]>({
+    queryKey: ['item-categories'],
+    queryFn: () => apiClient.getCategories(),
+    staleTime: 60 * 60 * 1000, // 1 heure
+  });
+
+  const categories = useMemo<ItemCategoryOption[]>(
+    () => (data?.length ? data : FALLBACK_CATEGORY_OPTIONS),
+    [data]
+  );
+
+  /**
+   * Label d'une catégorie (la valeur telle quelle si elle est inconnue).
+   */
+  const getCategoryLabel = useCallback(
+    (value: string) =>
+      categories.find((category) => category.value === value)?.label ?? value,
+    [categories]
+  );
+
+  return { categories, getCategoryLabel, isLoading };
+}
@@ -0,0 +1,51 @@
+/**
+ * FICHIER: hooks/useNotificationsSync.ts
+ *
+ * DESCRIPTION:
+ * Ce hook synchronise le compteur de notifications non lues avec le serveur
+ * tant que l'utilisateur est connecté. Le compteur provient de la boîte de
+ * réception (table `notifications`): il est donc identique sur tous les appareils.
+ *
+ * FONCTIONNEMENT:
+ * - Connexion: récupère le compteur (GET /notifications/unread-count)
+ *   puis ouvre le socket `/notifications` (mises à jour en temps réel)
+ * - Si le push est autorisé, réenregistre cet appareil: le serveur met à jour
+ *   sa date de dernière activité (les appareils inactifs sont supprimés)
+ * - Déconnexion: ferme le socket et remet le compteur à 0
+ *
+ * UTILISATION:
+ * Appelé une seule fois, dans la barre de navigation (montée sur toutes les pages).
+ *
+ * @module hooks/useNotificationsSync
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/auth';
+import { useNotificationsStore } from '@/store/notifications';
+import { notificationsSocket } from '@/lib/notifications.socket';
+import { notificationService } from '@/lib/notifications';
+
+export function useNotificationsSync() {
+  const isAuthenticated = useAuthStore((s) => s.isAuthenticated);
+  const { fetchUnreadCount, clear } = useNotificationsStore();
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      clear();
+      return;
+    }
+
+    fetchUnreadCount();
+    notificationsSocket.connect();
+
+    if (notificationService.isEnabled()) {
+      notificationService.getToken();
+    }
+
+    return () => {
+      notificationsSocket.disconnect();
+    };
+  }, [isAuthenticated, fetchUnreadCount, clear]);
+}
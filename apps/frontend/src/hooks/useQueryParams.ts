@@ -24,7 +24,9 @@
  * - condition: Condition de l'item (NEW, GOOD, FAIR, TO_REPAIR)
  * - status: Statut de l'item (AVAILABLE, PENDING, TRADED, ARCHIVED)
  * - ownerId: ID du propriétaire (string)
- * - sort: Tri (défaut: '-createdAt', string)
+ * - near: Ville ou coordonnées autour desquelles chercher (string)
+ * - radiusKm: Rayon autour de near (parsé en nombre)
+ * - sort: Tri (défaut: 'relevance' avec une recherche, sinon '-createdAt', string)
  *
  * AVANTAGES:
  * - URLs partageables avec filtres inclus
@@ -114,6 +116,8 @@ export function useQueryParams() {
    * - Autres: undefined si non fourni
    */
   const params = useMemo((): ListItemsParams => {
+    const radiusKm = searchParams.get('radiusKm');
+
     return {
       /**
        * Page: parser en nombre ou utiliser 1 par défaut
@@ -164,10 +168,19 @@ export function useQueryParams() {
       ownerId: searchParams.get('ownerId') || undefined,
 
       /**
-       * Tri: utiliser la valeur ou '-createdAt' par défaut
-       * '-createdAt' signifie tri décroissant par date de création
+       * Recherche par distance: point (ville ou "lat,lng") et rayon en km
+       */
+      near: searchParams.get('near') || undefined,
+      radiusKm: radiusKm ? parseInt(radiusKm) : undefined,
+
+      /**
+       * Tri: utiliser la valeur, sinon le tri par défaut
+       * - avec une recherche: 'relevance' (les plus pertinents d'abord)
+       * - sinon: '-createdAt' (tri décroissant par date de création)
        */
-      sort: searchParams.get('sort') || '-createdAt',
+      sort:
+        searchParams.get('sort') ||
+        (searchParams.get('q') ? 'relevance' : '-createdAt'),
     };
   }, [searchParams]); // Recalculer si searchParams change
 
@@ -238,6 +251,8 @@ export function useQueryParams() {
       newParams.category !== undefined ||
       newParams.condition !== undefined ||
       newParams.status !== undefined ||
+      newParams.near !== undefined ||
+      newParams.radiusKm !== undefined ||
       newParams.sort !== undefined
     ) {
       /**
@@ -15,6 +15,96 @@ type LoginResponse = {
   [key: string]: unknown;
 };
 
+export type AiBudgetStatus = {
+  dailyLimitUsd: number | null;
+  monthlyLimitUsd: number | null;
+  dailySpentUsd: number;
+  monthlySpentUsd: number;
+  exceeded: 'daily' | 'monthly' | null;
+};
+
+export type AiCallOutcome = 'SUCCESS' | 'ERROR' | 'BUDGET_EXCEEDED';
+
+export type AiUsage = {
+  since: string;
+  budget: AiBudgetStatus;
+  byFeature: {
+    feature: string;
+    outcome: AiCallOutcome;
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    avgLatencyMs: number;
+  }[];
+  daily: { day: string; calls: number; costUsd: number }[];
+  recent: {
+    id: string;
+    feature: string;
+    model: string;
+    outcome: AiCallOutcome;
+    error: string | null;
+    entityType: string | null;
+    entityId: string | null;
+    latencyMs: number;
+    costUsd: number;
+    createdAt: string;
+  }[];
+};
+
+export type AiPromptVersion = {
+  id: string | null; // null: texte intégré au code (version 1)
+  feature: string;
+  version: number;
+  template: string;
+  note: string | null;
+  createdById: string | null;
+  createdAt: string | null;
+};
+
+export type AiPromptDeployment = {
+  id: string;
+  feature: string;
+  environment: string;
+  version: number;
+  candidateVersion: number | null;
+  candidateShare: number;
+  updatedAt: string;
+};
+
+export type AiPrompts = {
+  since: string;
+  environment: string; // Environnement du serveur
+  prompts: {
+    feature: string;
+    description: string;
+    variables: Record<string, string>;
+    versions: AiPromptVersion[];
+    deployments: AiPromptDeployment[];
+  }[];
+  calls: {
+    feature: string;
+    promptVersion: number;
+    outcome: AiCallOutcome;
+    calls: number;
+    costUsd: number;
+    avgLatencyMs: number;
+  }[];
+  validationFailures: {
+    feature: string;
+    promptVersion: number;
+    outcome: 'REPAIRED' | 'FALLBACK';
+    count: number;
+  }[];
+  outcomes: {
+    feature: string;
+    promptVersion: number;
+    metric: string;
+    value: boolean;
+    count: number;
+  }[];
+};
+
 // Construire l'URL de base de l'API
 const getApiBaseURL = () => {
   const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
@@ -132,12 +222,15 @@ export const adminApi = {
     return response.data;
   },
 
-  banUser: async (id: string, reason?: string) => {
+  /**
+   * @param expiresAt - Date de fin (ISO 8601); absente = bannissement définitif
+   */
+  banUser: async (id: string, reason?: string, expiresAt?: string) => {
     const adminBasePath =
       process.env.NEXT_PUBLIC_ADMIN_BASE_PATH || 'greenroom-core-qlf18scha7';
     const response = await adminApiClient.patch(
       `/${adminBasePath}/users/${id}/ban`,
-      { reason }
+      { reason, expiresAt }
     );
     return response.data;
   },
@@ -382,6 +475,71 @@ export const adminApi = {
     return response.data;
   },
 
+  // AI
+  getAiUsage: async (days = 30): Promise<AiUsage> => {
+    const adminBasePath =
+      process.env.NEXT_PUBLIC_ADMIN_BASE_PATH || 'greenroom-core-qlf18scha7';
+    const response = await adminApiClient.get(
+      `/${adminBasePath}/ai/usage?days=${days}`
+    );
+    return response.data;
+  },
+
+  // null: pas de limite
+  updateAiBudget: async (payload: {
+    dailyLimitUsd: number | null;
+    monthlyLimitUsd: number | null;
+  }): Promise<AiBudgetStatus> => {
+    const adminBasePath =
+      process.env.NEXT_PUBLIC_ADMIN_BASE_PATH || 'greenroom-core-qlf18scha7';
+    const response = await adminApiClient.patch(
+      `/${adminBasePath}/ai/budget`,
+      payload
+    );
+    return response.data;
+  },
+
+  getAiPrompts: async (days = 30): Promise<AiPrompts> => {
+    const adminBasePath =
+      process.env.NEXT_PUBLIC_ADMIN_BASE_PATH || 'greenroom-core-qlf18scha7';
+    const response = await adminApiClient.get(
+      `/${adminBasePath}/ai/prompts?days=${days}`
+    );
+    return response.data;
+  },
+
+  createPromptVersion: async (
+    feature: string,
+    payload: { template: string; note?: string }
+  ): Promise<AiPromptVersion> => {
+    const adminBasePath =
+      process.env.NEXT_PUBLIC_ADMIN_BASE_PATH || 'greenroom-core-qlf18scha7';
+    const response = await adminApiClient.post(
+      `/${adminBasePath}/ai/prompts/${feature}/versions`,
+      payload
+    );
+    return response.data;
+  },
+
+  // candidateVersion null: pas de comparaison A/B
+  updatePromptDeployment: async (
+    feature: string,
+    payload: {
+      environment: string;
+      version: number;
+      candidateVersion: number | null;
+      candidateShare: number;
+    }
+  ): Promise<AiPromptDeployment> => {
+    const adminBasePath =
+      process.env.NEXT_PUBLIC_ADMIN_BASE_PATH || 'greenroom-core-qlf18scha7';
+    const response = await adminApiClient.patch(
+      `/${adminBasePath}/ai/prompts/${feature}/deployment`,
+      payload
+    );
+    return response.data;
+  },
+
   // Logs
   getLogs: async (page = 1, limit = 50, adminId?: string) => {
     const adminBasePath =
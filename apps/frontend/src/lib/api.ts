@@ -45,7 +45,11 @@ import {
   AuthResponse,
   User,
   Item,
+  ItemCategoryOption,
   Exchange,
+  ProfilePrivacy,
+  PublicProfile,
+  UserStats,
   WeeklyTheme,
   PaginatedResponse,
   LoginDto,
@@ -279,6 +283,29 @@ class ApiClient {
          */
         const originalRequest = error.config;
 
+        // ============================================
+        // CAS SPÉCIAL: Compte suspendu (bannissement)
+        // ============================================
+        /**
+         * Le serveur répond 403 avec `code: 'ACCOUNT_SUSPENDED'` quand l'utilisateur
+         * est banni (connexion, rafraîchissement ou route protégée).
+         * La session n'est plus utilisable: nettoyer les tokens et revenir sur /login.
+         * Le message (raison, date de fin) est affiché par le toast plus bas.
+         */
+        if (
+          error.response?.status === 403 &&
+          error.response?.data?.code === 'ACCOUNT_SUSPENDED'
+        ) {
+          this.clearTokens();
+
+          if (
+            typeof window !== 'undefined' &&
+            !window.location.pathname.includes('/login')
+          ) {
+            window.location.href = '/login';
+          }
+        }
+
         // ============================================
         // CAS SPÉCIAL: Endpoint de rafraîchissement
         // ============================================
@@ -999,12 +1026,17 @@ class ApiClient {
   }
 
   /**
-   * Récupère la liste des catégories disponibles.
+   * Récupère le registre des catégories (labels traduits, icônes, sous-catégories).
    *
+   * @param locale - Langue des labels (défaut serveur: 'fr')
    * @returns Liste des catégories
    */
-  async getCategories(): Promise<string[]> {
-    const response = await this.client.get<string[]>('/items/categories');
+  async getCategories(locale?: string): Promise<ItemCategoryOption[]> {
+    const response = await this.client.get<ItemCategoryOption[]>(
+      '/items/categories',
+      // Silencieux: les catégories par défaut (constants.ts) prennent le relais
+      { params: { locale }, _skipErrorToast: true } as object
+    );
     return response.data;
   }
 
@@ -1127,13 +1159,14 @@ class ApiClient {
   // ============================================
 
   /**
-   * Récupère les informations d'un utilisateur par son username.
+   * Récupère le profil public d'un membre.
+   * Les sections masquées par le membre valent null (sauf pour lui-même).
    *
-   * @param username - Nom d'utilisateur
-   * @returns Informations de l'utilisateur
+   * @param userId - ID du membre
+   * @returns Profil public (bio, ville, objets disponibles, réputation)
    */
-  async getUser(username: string): Promise<User> {
-    const response = await this.client.get<User>(`/users/${username}`);
+  async getUser(userId: string): Promise<PublicProfile> {
+    const response = await this.client.get<PublicProfile>(`/users/${userId}`);
     return response.data;
   }
 
@@ -1160,10 +1193,34 @@ class ApiClient {
   /**
    * Récupère les statistiques de l'utilisateur connecté.
    *
-   * @returns Statistiques (nombre d'items, d'échanges, etc.)
+   * @returns Statistiques (objets, propositions, échanges réalisés, taux de réponse)
    */
-  async getUserStats() {
-    const response = await this.client.get('/users/me/stats');
+  async getUserStats(): Promise<UserStats> {
+    const response = await this.client.get<UserStats>('/users/me/stats');
+    return response.data;
+  }
+
+  /**
+   * Récupère les sections visibles du profil public de l'utilisateur connecté.
+   */
+  async getProfilePrivacy(): Promise<ProfilePrivacy> {
+    const response = await this.client.get<ProfilePrivacy>('/users/me/privacy');
+    return response.data;
+  }
+
+  /**
+   * Modifie les sections visibles du profil public (mise à jour partielle).
+   *
+   * @param privacy - Réglages à modifier
+   * @returns Réglages enregistrés
+   */
+  async updateProfilePrivacy(
+    privacy: Partial<ProfilePrivacy>
+  ): Promise<ProfilePrivacy> {
+    const response = await this.client.put<ProfilePrivacy>(
+      '/users/me/privacy',
+      privacy
+    );
     return response.data;
   }
 }
@@ -8,7 +8,7 @@
  * possibles pour garantir la cohérence et faciliter la maintenance.
  *
  * FONCTIONNALITÉS PRINCIPALES:
- * - Définition des catégories d'items disponibles (CLOTHING, ELECTRONICS, etc.)
+ * - Valeurs des catégories d'items (labels, icônes: GET /items/categories)
  * - Définition des conditions d'items (NEW, GOOD, FAIR, TO_REPAIR)
  * - Définition des statuts d'items (AVAILABLE, PENDING, TRADED, ARCHIVED)
  * - Options de tri pour les listes d'items (date, titre, etc.)
@@ -29,38 +29,31 @@
  * - Type-safe avec TypeScript (as const)
  */
 
+import type { RatingTag, ReportReason, ReportTargetType } from '@/types';
+
 /**
  * CONSTANTE: ITEM_CATEGORIES
  *
- * Liste de toutes les catégories d'items disponibles dans l'application.
- * Utilisée dans les formulaires (ItemForm) et les filtres (ItemFilters).
- *
- * TYPE:
- * - as const: rend le tableau readonly et les valeurs littérales (type-safe)
- * - Permet à TypeScript d'inférer les types exacts au lieu de string[]
+ * Valeurs des catégories d'items (type ItemCategory et validations).
  *
- * UTILISATION:
- * - Dans les sélecteurs de catégorie (formulaires)
- * - Dans les filtres de recherche
- * - Pour valider les catégories dans les schémas Zod
- * - Pour mapper vers les labels français (ITEM_CATEGORY_LABELS)
- *
- * NOTE:
- * Ces valeurs doivent correspondre exactement aux catégories définies dans le backend.
- * Toute modification doit être synchronisée avec le backend.
+ * SOURCE DE VÉRITÉ:
+ * Le registre du backend (`common/utils/item-categories.ts`) valide les
+ * catégories et fournit labels traduits, icônes et sous-catégories via
+ * GET /items/categories (hook useCategories). Seules les valeurs sont reprises
+ * ici: elles servent de repli si l'API est indisponible.
  */
 export const ITEM_CATEGORIES = [
-  'CLOTHING', // Vêtements (vêtements, chaussures, accessoires)
-  'ELECTRONICS', // Électronique (smartphones, ordinateurs, gadgets)
-  'BOOKS', // Livres (romans, manuels, bandes dessinées)
-  'HOME', // Maison (décoration, mobilier, ustensiles)
-  'TOOLS', // Outils (bricolage, jardinage, professionnel)
-  'TOYS', // Jouets (enfants, jeux de société, puzzles)
-  'SPORTS', // Sport (équipement sportif, vêtements de sport)
-  'ART', // Art (peintures, sculptures, objets d'art)
-  'VINTAGE', // Vintage (objets rétro, collection)
-  'HANDCRAFT', // Artisanat (objets faits main, créations)
-  'OTHER', // Autre (catégorie fourre-tout pour les items non classés)
+  'CLOTHING',
+  'ELECTRONICS',
+  'BOOKS',
+  'HOME',
+  'TOOLS',
+  'TOYS',
+  'SPORTS',
+  'ART',
+  'VINTAGE',
+  'HANDCRAFT',
+  'OTHER',
 ] as const;
 
 /**
@@ -141,6 +134,8 @@ export const ITEM_STATUS = [
  * - 'createdAt': Plus ancien (les items les plus anciens en premier)
  * - 'title': Titre A-Z (tri alphabétique croissant)
  * - '-title': Titre Z-A (tri alphabétique décroissant)
+ * - 'distance': Plus proche (uniquement avec une localisation `near`)
+ * - 'relevance': Pertinence (uniquement avec une recherche `q`, tri par défaut dans ce cas)
  *
  * TYPE:
  * - as const: rend le tableau readonly et les valeurs littérales (type-safe)
@@ -159,44 +154,17 @@ export const SORT_OPTIONS = [
   { value: 'createdAt', label: 'Plus ancien' }, // Tri croissant par date de création (anciens d'abord)
   { value: 'title', label: 'Titre A-Z' }, // Tri croissant par titre (alphabétique A-Z)
   { value: '-title', label: 'Titre Z-A' }, // Tri décroissant par titre (alphabétique Z-A)
+  { value: 'distance', label: 'Plus proche' }, // Tri par distance (nécessite une localisation)
+  { value: 'relevance', label: 'Pertinence' }, // Tri par pertinence (nécessite une recherche)
 ] as const;
 
 /**
- * CONSTANTE: ITEM_CATEGORY_LABELS
+ * CONSTANTE: RADIUS_OPTIONS
  *
- * Dictionnaire des labels français pour les catégories d'items.
- * Utilisé pour afficher les catégories dans l'interface utilisateur de manière lisible.
- *
- * STRUCTURE:
- * - Clé: valeur de catégorie (ex: 'CLOTHING')
- * - Valeur: label français affiché (ex: 'Vêtements')
- *
- * UTILISATION:
- * - Dans les composants d'affichage (ItemCard, ItemFilters)
- * - Pour traduire les valeurs techniques en labels compréhensibles
- * - Dans les badges et les sélecteurs de catégorie
- *
- * EXEMPLE:
- * ITEM_CATEGORY_LABELS['CLOTHING'] -> "Vêtements"
- * ITEM_CATEGORY_LABELS['ELECTRONICS'] -> "Électronique"
- *
- * NOTE:
- * Toutes les catégories de ITEM_CATEGORIES doivent avoir un label correspondant.
- * Si une catégorie n'a pas de label, elle sera affichée telle quelle (fallback).
+ * Rayons proposés pour la recherche par distance (en km).
+ * Sans choix explicite, le serveur utilise 50 km.
  */
-export const ITEM_CATEGORY_LABELS: Record<string, string> = {
-  CLOTHING: 'Vêtements', // Vêtements, chaussures, accessoires de mode
-  ELECTRONICS: 'Électronique', // Smartphones, ordinateurs, gadgets électroniques
-  BOOKS: 'Livres', // Romans, manuels, bandes dessinées, magazines
-  HOME: 'Maison', // Décoration, mobilier, ustensiles de cuisine
-  TOOLS: 'Outils', // Outils de bricolage, jardinage, professionnels
-  TOYS: 'Jouets', // Jouets pour enfants, jeux de société, puzzles
-  SPORTS: 'Sport', // Équipement sportif, vêtements de sport
-  ART: 'Art', // Peintures, sculptures, objets d'art
-  VINTAGE: 'Vintage', // Objets rétro, collection, antiquités
-  HANDCRAFT: 'Artisanat', // Objets faits main, créations artisanales
-  OTHER: 'Autre', // Catégorie fourre-tout pour les items non classés
-};
+export const RADIUS_OPTIONS = [5, 10, 25, 50, 100, 200] as const;
 
 /**
  * CONSTANTE: ITEM_CONDITION_LABELS
@@ -258,6 +226,59 @@ export const ITEM_STATUS_LABELS: Record<string, string> = {
   ARCHIVED: 'Archivé', // L'item est masqué mais pas supprimé, peut être réactivé
 };
 
+/**
+ * CONSTANTE: REPORT_REASON_LABELS
+ *
+ * Labels français des motifs de signalement (taxonomie partagée avec le backend).
+ * Utilisé dans le formulaire de signalement et la file de modération admin.
+ *
+ * NOTE:
+ * Le motif OTHER exige un message de précision (validé côté serveur).
+ */
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  SPAM: 'Spam ou publicité', // Contenu répétitif ou promotionnel
+  SCAM: 'Arnaque', // Tentative d'escroquerie, demande de paiement
+  INAPPROPRIATE: 'Contenu inapproprié', // Contenu choquant ou offensant
+  HARASSMENT: 'Harcèlement', // Comportement abusif envers un membre
+  PROHIBITED_ITEM: 'Objet interdit', // Objet dont l'échange est illégal ou dangereux
+  MISLEADING: 'Annonce trompeuse', // Description ou photos ne correspondant pas à l'objet
+  OTHER: 'Autre', // Préciser dans le message
+};
+
+/**
+ * CONSTANTE: REPORT_TARGET_LABELS
+ *
+ * Labels français des types de contenus signalables.
+ */
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  ITEM: 'Objet',
+  USER: 'Utilisateur',
+  EXCHANGE: 'Échange',
+  POST: 'Message',
+};
+
+/**
+ * CONSTANTE: RATING_TAG_LABELS
+ *
+ * Labels français des tags d'un avis après échange.
+ * Utilisé dans le formulaire d'avis et sur le profil public.
+ */
+export const RATING_TAG_LABELS: Record<RatingTag, string> = {
+  ON_TIME: 'Ponctuel',
+  AS_DESCRIBED: 'Conforme à la description',
+  FRIENDLY: 'Sympathique',
+  RESPONSIVE: 'Réactif',
+  CAREFUL: 'Soigneux',
+};
+
+/**
+ * CONSTANTE: MAX_BUNDLE_ITEMS
+ *
+ * Nombre maximum d'objets de chaque côté d'un lot d'échange
+ * (doit correspondre à la limite du serveur).
+ */
+export const MAX_BUNDLE_ITEMS = 10;
+
 /**
  * CONSTANTE: UPLOAD_CONFIG
  *
@@ -9,6 +9,7 @@
  * - Liste paginée des échanges de l'utilisateur connecté avec filtres
  * - Récupération d'un échange par son ID avec tous ses détails
  * - Création d'un nouvel échange (proposition d'échange)
+ * - Contre-proposition d'un lot modifié (nouvelle révision de la négociation)
  * - Mise à jour du statut d'un échange (accepter, refuser, compléter, annuler)
  * - Gestion gracieuse des erreurs (ex: utilisateur non authentifié)
  *
@@ -30,6 +31,7 @@ import {
   PaginatedResponse,
   ListExchangesParams,
   CreateExchangeDto,
+  CounterProposalDto,
   UpdateExchangeStatusDto,
 } from '@/types';
 
@@ -191,14 +193,14 @@ export const exchangesApi = {
    * 3. Retourner l'échange créé avec son ID généré
    *
    * DONNÉES REQUISES:
-   * - responderItemId: ID de l'item que l'utilisateur veut recevoir (obligatoire)
-   * - requesterItemId: ID de l'item que l'utilisateur propose en échange (obligatoire)
+   * - requestedItemIds: IDs des items que l'utilisateur veut recevoir (au moins un)
+   * - offeredItemIds: IDs des items que l'utilisateur propose en échange (au moins un)
    * - message: message optionnel pour accompagner la proposition
    *
    * SÉCURITÉ:
-   * - L'utilisateur doit être le propriétaire de requesterItemId
-   * - L'utilisateur ne peut pas être le propriétaire de responderItemId
-   * - Les deux items doivent être disponibles (status: AVAILABLE)
+   * - L'utilisateur doit être le propriétaire des items proposés
+   * - Les items demandés doivent appartenir au répondant
+   * - Tous les items doivent être disponibles (status: AVAILABLE)
    *
    * @param data - Données de l'échange à créer (CreateExchangeDto)
    * @returns Promise qui se résout avec l'échange créé (avec ID généré)
@@ -234,16 +236,19 @@ export const exchangesApi = {
    * 3. Retourner l'échange mis à jour
    *
    * TRANSITIONS DE STATUT POSSIBLES:
-   * - PENDING → ACCEPTED (par le responder)
-   * - PENDING → DECLINED (par le responder)
+   * - PENDING → ACCEPTED (par le destinataire du lot: le responder, ou le
+   *   requester après une contre-proposition)
+   * - PENDING → DECLINED (par le destinataire du lot)
    * - PENDING → CANCELLED (par le requester ou responder)
-   * - ACCEPTED → COMPLETED (par le requester ou responder)
+   * - ACCEPTED → COMPLETED (confirmation du requester ET du responder: la première
+   *   confirmation est enregistrée, l'échange reste ACCEPTED jusqu'à la seconde)
    * - ACCEPTED → CANCELLED (par le requester ou responder)
    *
    * SÉCURITÉ:
    * - Seuls les participants de l'échange peuvent modifier le statut
    * - Les transitions de statut sont validées côté serveur
    * - Certaines transitions sont irréversibles (ex: DECLINED, COMPLETED)
+   * - Une transition refusée renvoie un 409 avec `code`, `from`, `to`, `allowed`
    *
    * @param id - ID de l'échange à mettre à jour
    * @param data - Nouveau statut à appliquer (UpdateExchangeStatusDto)
@@ -273,4 +278,27 @@ export const exchangesApi = {
      */
     return response.data;
   },
+
+  /**
+   * MÉTHODE: counterPropose
+   *
+   * Contre-proposition du destinataire du lot en cours (demandeur ou répondant):
+   * remplace le lot d'une proposition en attente (objets proposés par le demandeur
+   * et objets demandés) et l'enregistre comme nouvelle révision. L'autre
+   * participant doit ensuite accepter, refuser ou contre-proposer à son tour.
+   *
+   * @param id - ID de l'échange
+   * @param data - Lot complet (offeredItemIds, requestedItemIds) et note optionnelle
+   * @returns Promise qui se résout avec l'échange mis à jour
+   */
+  async counterPropose(
+    id: string,
+    data: CounterProposalDto
+  ): Promise<Exchange> {
+    const response = await apiClient.client.post<Exchange>(
+      `/exchanges/${id}/revisions`,
+      data
+    );
+    return response.data;
+  },
 };
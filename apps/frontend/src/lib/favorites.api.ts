@@ -0,0 +1,51 @@
+import { apiClient } from './api';
+import { FavoriteStatus, PaginatedFavoritesResponse } from '@/types';
+
+export const favoritesApi = {
+  /**
+   * Liste de suivi de l'utilisateur (ajouts les plus récents en premier),
+   * tous statuts confondus
+   */
+  async listFavorites(params?: {
+    page?: number;
+    limit?: number;
+  }): Promise<PaginatedFavoritesResponse> {
+    const response = await apiClient.client.get<PaginatedFavoritesResponse>(
+      '/favorites',
+      { params }
+    );
+    return response.data;
+  },
+
+  /**
+   * IDs des objets suivis (état du bouton favori sur les cartes)
+   */
+  async listFavoriteIds(): Promise<string[]> {
+    const response = await apiClient.client.get<string[]>('/favorites/ids');
+    return response.data;
+  },
+
+  /**
+   * Suit un objet: une notification est envoyée à chaque changement de statut
+   */
+  async addFavorite(itemId: string): Promise<FavoriteStatus> {
+    const response = await apiClient.client.put<FavoriteStatus>(
+      `/favorites/${itemId}`,
+      undefined,
+      // L'appelant affiche lui-même le message d'erreur
+      { _skipErrorToast: true } as object
+    );
+    return response.data;
+  },
+
+  /**
+   * Ne plus suivre un objet
+   */
+  async removeFavorite(itemId: string): Promise<FavoriteStatus> {
+    const response = await apiClient.client.delete<FavoriteStatus>(
+      `/favorites/${itemId}`,
+      { _skipErrorToast: true } as object
+    );
+    return response.data;
+  },
+};
@@ -12,6 +12,7 @@
  * - Mise à jour d'un item existant (mise à jour partielle)
  * - Suppression d'un item (avec cascade des photos)
  * - Attachement de photos à un item (après upload vers Cloudinary)
+ * - Analyse des photos d'un item par l'IA (suggestions à accepter ou refuser)
  *
  * ARCHITECTURE:
  * - Utilise apiClient pour les appels HTTP
@@ -27,14 +28,18 @@
 // Import du client API centralisé pour les appels HTTP
 import apiClient from './api';
 
+// Import de l'identifiant de session anonyme (déduplication des vues)
+import { getSessionId } from './session-id';
+
 // Import des types TypeScript pour garantir la sécurité des types
 import {
   Item,
   CreateItemDto,
   UpdateItemDto,
   ListItemsParams,
-  PaginatedResponse,
+  PaginatedItemsResponse,
   PhotoMeta,
+  ItemPhotoAnalysis,
 } from '@/types';
 
 /**
@@ -56,11 +61,12 @@ export const itemsApi = {
    * 3. Retourner la liste paginée d'items
    *
    * PARAMÈTRES SUPPORTÉS:
-   * - q: recherche textuelle (titre, description, tags)
+   * - q: recherche plein texte (titre, tags, description; sans accents, tolérante aux fautes)
    * - category: filtre par catégorie
    * - condition: filtre par condition
    * - status: filtre par statut (AVAILABLE, RESERVED, etc.)
-   * - sort: tri (ex: '-createdAt', 'popularity', etc.)
+   * - near / radiusKm: recherche autour d'une ville ou de coordonnées
+   * - sort: tri (ex: '-createdAt', 'distance', 'relevance', etc.)
    * - page: numéro de page (défaut: 1)
    * - limit: nombre d'items par page (défaut: 20)
    *
@@ -69,11 +75,11 @@ export const itemsApi = {
    */
   async listItems(
     params: ListItemsParams = {}
-  ): Promise<PaginatedResponse<Item>> {
+  ): Promise<PaginatedItemsResponse> {
     /**
      * Appeler l'endpoint GET /items
      * apiClient.client.get() fait un appel HTTP GET avec les paramètres de requête
-     * Le type générique <PaginatedResponse<Item>> garantit le type de la réponse
+     * La réponse inclut les facettes (compteurs par catégorie, état et statut)
      */
     const response = await apiClient.client.get('/items', { params });
 
@@ -123,6 +129,25 @@ export const itemsApi = {
     return response.data;
   },
 
+  /**
+   * MÉTHODE: recordView
+   *
+   * Signale la consultation de la fiche d'un item (score de popularité).
+   * Le serveur ne compte qu'une vue par visiteur et par jour: l'utilisateur
+   * connecté, sinon l'identifiant de session du navigateur. Les vues du
+   * propriétaire sont ignorées.
+   *
+   * @param id - ID de l'item consulté
+   */
+  async recordView(id: string): Promise<void> {
+    await apiClient.client.post(
+      `/items/${id}/views`,
+      { sessionId: getSessionId() ?? undefined },
+      // Signal silencieux: aucune erreur affichée à l'utilisateur
+      { _skipErrorToast: true } as object
+    );
+  },
+
   /**
    * MÉTHODE: createItem
    *
@@ -260,4 +285,28 @@ export const itemsApi = {
      */
     await apiClient.client.post(`/items/${itemId}/photos`, { photos });
   },
+
+  /**
+   * MÉTHODE: analyzeItemPhotos
+   *
+   * Analyse les photos d'un item avec un modèle IA multimodal.
+   * Seul le propriétaire peut lancer l'analyse, l'item doit avoir au moins une photo.
+   *
+   * SUGGESTIONS RETOURNÉES (avec leur confiance, de 0 à 1):
+   * - Catégorie, état, tags
+   * - Titre amélioré (null si le titre actuel convient)
+   * - Dégâts visibles (null si aucun)
+   *
+   * L'item n'est pas modifié: les suggestions acceptées sont enregistrées
+   * avec updateItem.
+   *
+   * @param itemId - ID de l'item dont les photos sont analysées
+   * @returns Promise qui se résout avec les suggestions
+   */
+  async analyzeItemPhotos(itemId: string): Promise<ItemPhotoAnalysis> {
+    const response = await apiClient.client.post(
+      `/items/${itemId}/analyze-photos`
+    );
+    return response.data;
+  },
 };
@@ -33,6 +33,7 @@ export const CTA_LINK: NavLink = {
 
 export const USER_LINKS: NavLink[] = [
   { href: '/profile', label: 'Mon profil', icon: 'User' },
+  { href: '/watchlist', label: 'Objets suivis', icon: 'Heart' },
   { href: '/settings', label: 'Paramètres', icon: 'Settings' },
   { href: '/logout', label: 'Déconnexion', icon: 'LogOut' },
 ];
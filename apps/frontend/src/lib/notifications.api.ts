@@ -1,12 +1,117 @@
 import { apiClient } from './api';
 import {
+  AppNotification,
+  ListNotificationsParams,
+  NotificationDevice,
+  NotificationPreferences,
   NotificationToken,
+  PaginatedNotificationsResponse,
+  UpdateNotificationPreferencesDto,
+  UnsubscribeResponse,
   RegisterTokenDto,
   SendTestNotificationDto,
   SendNotificationResponse,
+  VapidPublicKeyResponse,
 } from '@/types';
 
 export const notificationsApi = {
+  /**
+   * Préférences de notification de l'utilisateur
+   */
+  async getPreferences(): Promise<NotificationPreferences> {
+    const response = await apiClient.client.get<NotificationPreferences>(
+      '/notifications/preferences'
+    );
+    return response.data;
+  },
+
+  /**
+   * Met à jour les préférences (seuls les champs fournis sont modifiés)
+   */
+  async updatePreferences(
+    data: UpdateNotificationPreferencesDto
+  ): Promise<NotificationPreferences> {
+    const response = await apiClient.client.put<NotificationPreferences>(
+      '/notifications/preferences',
+      data
+    );
+    return response.data;
+  },
+
+  /**
+   * Désinscription en un clic depuis un email (sans être connecté)
+   */
+  async unsubscribe(token: string): Promise<UnsubscribeResponse> {
+    const response = await apiClient.client.post<UnsubscribeResponse>(
+      '/notifications/unsubscribe',
+      { token }
+    );
+    return response.data;
+  },
+
+  /**
+   * Liste paginée de la boîte de réception
+   */
+  async listNotifications(
+    params: ListNotificationsParams = {}
+  ): Promise<PaginatedNotificationsResponse> {
+    const response = await apiClient.client.get<PaginatedNotificationsResponse>(
+      '/notifications',
+      { params }
+    );
+    return response.data;
+  },
+
+  /**
+   * Nombre de notifications non lues (tous appareils confondus)
+   */
+  async getUnreadCount(): Promise<number> {
+    const response = await apiClient.client.get<{ unreadCount: number }>(
+      '/notifications/unread-count'
+    );
+    return response.data.unreadCount;
+  },
+
+  /**
+   * Marque une notification comme lue
+   */
+  async markAsRead(id: string): Promise<AppNotification> {
+    const response = await apiClient.client.patch<AppNotification>(
+      `/notifications/${id}/read`
+    );
+    return response.data;
+  },
+
+  /**
+   * Marque toutes les notifications comme lues
+   */
+  async markAllAsRead(): Promise<{ updated: number }> {
+    const response = await apiClient.client.post<{ updated: number }>(
+      '/notifications/read-all'
+    );
+    return response.data;
+  },
+
+  /**
+   * Archive une notification
+   */
+  async archive(id: string): Promise<AppNotification> {
+    const response = await apiClient.client.patch<AppNotification>(
+      `/notifications/${id}/archive`
+    );
+    return response.data;
+  },
+
+  /**
+   * Récupère la clé publique VAPID (applicationServerKey de pushManager.subscribe)
+   */
+  async getVapidPublicKey(): Promise<string | null> {
+    const response = await apiClient.client.get<VapidPublicKeyResponse>(
+      '/notifications/vapid-public-key'
+    );
+    return response.data.publicKey;
+  },
+
   /**
    * Enregistre un token de notification
    */
@@ -18,6 +123,23 @@ export const notificationsApi = {
     return response.data;
   },
 
+  /**
+   * Liste les appareils enregistrés de l'utilisateur
+   */
+  async listDevices(): Promise<NotificationDevice[]> {
+    const response = await apiClient.client.get<NotificationDevice[]>(
+      '/notifications/devices'
+    );
+    return response.data;
+  },
+
+  /**
+   * Révoque un appareil (il ne recevra plus de notifications push)
+   */
+  async revokeDevice(id: string): Promise<void> {
+    await apiClient.client.delete(`/notifications/devices/${id}`);
+  },
+
   /**
    * Envoie une notification de test (admin uniquement)
    */
@@ -31,4 +153,3 @@ export const notificationsApi = {
     return response.data;
   },
 };
-
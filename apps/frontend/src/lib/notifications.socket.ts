@@ -0,0 +1,124 @@
+/**
+ * FICHIER: notifications.socket.ts
+ *
+ * DESCRIPTION:
+ * Client Socket.IO du namespace `/notifications` (boîte de réception in-app).
+ * Le serveur pousse chaque nouvelle notification et chaque lecture effectuée
+ * sur un autre appareil, avec le compteur de non lues à jour.
+ *
+ * FONCTIONNALITÉS:
+ * - Connexion authentifiée avec l'access token (même token que l'API)
+ * - Mise à jour du store `useNotificationsStore` à chaque événement
+ * - Écouteurs `onNew` / `onRead` pour rafraîchir les listes affichées
+ *
+ * ÉVÉNEMENTS REÇUS:
+ * - `notification:new`: { notification, unreadCount }
+ * - `notification:read`: { all, ids, unreadCount }
+ */
+
+// Import de Socket.IO Client
+import { io, Socket } from 'socket.io-client';
+
+// Import des types
+import { NotificationNewEvent, NotificationReadEvent } from '@/types';
+
+// Import du store du compteur de non lues
+import { useNotificationsStore } from '@/store/notifications';
+
+/**
+ * CLASSE: NotificationsSocketService
+ *
+ * Connexion unique au namespace `/notifications`, partagée par l'application.
+ */
+class NotificationsSocketService {
+  /**
+   * Instance Socket.IO (null si non connecté)
+   */
+  private socket: Socket | null = null;
+
+  /**
+   * Écouteurs des nouvelles notifications (conservés même si le socket est recréé)
+   */
+  private newListeners = new Set<(event: NotificationNewEvent) => void>();
+
+  /**
+   * Écouteurs des lectures (synchronisation multi-appareils)
+   */
+  private readListeners = new Set<(event: NotificationReadEvent) => void>();
+
+  /**
+   * Établit la connexion au namespace `/notifications`.
+   * Si un socket existe déjà, ne fait rien.
+   */
+  connect() {
+    if (this.socket) return;
+
+    const baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+
+    this.socket = io(`${baseURL}/notifications`, {
+      withCredentials: true,
+      transports: ['websocket', 'polling'],
+      // Relu à chaque (re)connexion pour envoyer l'access token à jour
+      auth: (cb) =>
+        cb({
+          token:
+            typeof window !== 'undefined'
+              ? localStorage.getItem('accessToken')
+              : null,
+        }),
+    });
+
+    this.socket.on('notification:new', (event: NotificationNewEvent) => {
+      useNotificationsStore.getState().setUnreadCount(event.unreadCount);
+      this.newListeners.forEach((listener) => listener(event));
+    });
+
+    this.socket.on('notification:read', (event: NotificationReadEvent) => {
+      useNotificationsStore.getState().setUnreadCount(event.unreadCount);
+      this.readListeners.forEach((listener) => listener(event));
+    });
+
+    this.socket.on('connect_error', (error) => {
+      console.error('Notifications socket connection error:', error);
+    });
+  }
+
+  /**
+   * Ferme la connexion (ex: déconnexion de l'utilisateur)
+   */
+  disconnect() {
+    if (this.socket) {
+      this.socket.disconnect();
+      this.socket = null;
+    }
+  }
+
+  /**
+   * S'abonne aux nouvelles notifications
+   *
+   * @returns Fonction de désabonnement
+   */
+  onNew(listener: (event: NotificationNewEvent) => void) {
+    this.newListeners.add(listener);
+    return () => {
+      this.newListeners.delete(listener);
+    };
+  }
+
+  /**
+   * S'abonne aux lectures effectuées (sur cet appareil ou un autre)
+   *
+   * @returns Fonction de désabonnement
+   */
+  onRead(listener: (event: NotificationReadEvent) => void) {
+    this.readListeners.add(listener);
+    return () => {
+      this.readListeners.delete(listener);
+    };
+  }
+}
+
+/**
+ * Instance singleton du service
+ */
+export const notificationsSocket = new NotificationsSocketService();
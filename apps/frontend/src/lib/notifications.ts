@@ -8,7 +8,7 @@
  *
  * FONCTIONNALITÉS PRINCIPALES:
  * - Gestion des permissions de notification (demande, vérification)
- * - Génération et enregistrement de tokens pour les notifications push
+ * - Abonnement Web Push (PushSubscription) et enregistrement côté serveur
  * - Envoi de notifications de test
  * - Affichage de notifications locales
  * - Vérification du support navigateur
@@ -22,7 +22,8 @@
  *
  * SÉCURITÉ:
  * - Vérification du support navigateur avant toute opération
- * - Tokens générés de manière sécurisée (mock actuellement, Firebase en production)
+ * - Abonnement signé par la clé publique VAPID du serveur (seul ce serveur peut envoyer)
+ * - Les messages sont chiffrés de bout en bout avec les clés de l'abonnement
  * - Enregistrement des tokens côté serveur pour authentification
  *
  * UX:
@@ -36,6 +37,34 @@ import { notificationsApi } from './notifications.api';
 // Import de react-hot-toast pour afficher des notifications à l'utilisateur
 import { toast } from 'react-hot-toast';
 
+/**
+ * Service Worker dédié aux notifications push (public/push-sw.js).
+ * Scope distinct de celui du Service Worker PWA de next-pwa ('/').
+ */
+const PUSH_SW_URL = '/push-sw.js';
+const PUSH_SW_SCOPE = '/push/';
+
+/**
+ * Clé localStorage de l'identifiant serveur de cet appareil
+ * (permet de le signaler dans la liste des appareils)
+ */
+const DEVICE_ID_STORAGE_KEY = 'notificationDeviceId';
+
+/**
+ * Convertit une clé base64url (clé publique VAPID) en tableau d'octets
+ * attendu par `pushManager.subscribe({ applicationServerKey })`.
+ */
+function urlBase64ToUint8Array(base64Url: string) {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
 /**
  * CLASSE: NotificationService
  *
@@ -213,23 +242,20 @@ export class NotificationService {
   /**
    * MÉTHODE PUBLIQUE: getToken
    *
-   * Obtient un token de notification push pour l'appareil actuel.
-   * Ce token est utilisé par le serveur pour envoyer des notifications push
-   * à cet appareil spécifique.
+   * Abonne l'appareil aux notifications push (Web Push) et retourne le token.
+   * Le token est le JSON de la PushSubscription ({ endpoint, keys: { p256dh, auth } }):
+   * le serveur l'utilise pour chiffrer et envoyer les notifications à cet appareil.
    *
    * FLUX:
    * 1. Vérifier que la permission est accordée
-   * 2. Vérifier que le Service Worker est disponible
-   * 3. Attendre que le Service Worker soit prêt
-   * 4. Générer un token (mock actuellement, Firebase en production)
+   * 2. Vérifier que Service Worker et Push API sont disponibles
+   * 3. Enregistrer le Service Worker push et attendre son activation
+   * 4. Réutiliser l'abonnement existant, ou s'abonner avec la clé VAPID du serveur
    * 5. Enregistrer le token côté serveur
    * 6. Retourner le token
    *
-   * NOTE: Actuellement, cette méthode génère un token mock.
-   * En production, il faudrait utiliser Firebase Cloud Messaging (FCM)
-   * ou un autre service de notifications push.
-   *
    * @returns Le token de notification push, ou null si impossible à obtenir
+   *          (navigateur non compatible, Web Push non configuré côté serveur...)
    */
   async getToken(): Promise<string | null> {
     /**
@@ -245,47 +271,77 @@ export class NotificationService {
        * Vérifier que:
        * 1. window existe (on est côté client)
        * 2. Le Service Worker est disponible dans le navigateur
+       * 3. L'API Push est disponible (absente de certains navigateurs, ex: Safari hors PWA)
        *
        * Les Service Workers sont nécessaires pour recevoir des notifications push
        * même quand l'application n'est pas ouverte
        */
-      if (typeof window !== 'undefined' && 'serviceWorker' in navigator) {
-        /**
-         * Attendre que le Service Worker soit enregistré et prêt
-         * navigator.serviceWorker.ready retourne une Promise qui se résout
-         * quand le Service Worker est actif
-         */
-        const registration = await navigator.serviceWorker.ready;
+      if (
+        typeof window === 'undefined' ||
+        !('serviceWorker' in navigator) ||
+        !('PushManager' in window)
+      ) {
+        return null;
+      }
 
-        /**
-         * Générer un token mock pour les tests
-         * EN PRODUCTION: Utiliser Firebase Cloud Messaging (FCM) ou un autre service
-         * Exemple avec FCM:
-         * const messaging = getMessaging();
-         * const token = await getToken(messaging, { vapidKey: '...' });
-         */
-        const token = this.generateMockToken();
+      /**
+       * Enregistrer (ou récupérer) le Service Worker push
+       * pushManager.subscribe() exige un Service Worker actif
+       */
+      const registration = await this.registerPushWorker();
 
-        /**
-         * Enregistrer le token côté serveur pour que le backend puisse
-         * envoyer des notifications push à cet appareil
-         */
-        await this.registerToken(token);
+      /**
+       * Clé publique VAPID du serveur: sans elle, le serveur ne peut pas envoyer
+       */
+      const publicKey = await notificationsApi.getVapidPublicKey();
+      if (!publicKey) {
+        console.warn('Web Push non configuré côté serveur (clé VAPID absente)');
+        return null;
+      }
+      const applicationServerKey = urlBase64ToUint8Array(publicKey);
 
+      /**
+       * Réutiliser l'abonnement existant s'il a été créé avec la même clé VAPID
+       * (un changement de clé côté serveur impose de se réabonner)
+       */
+      let subscription = await registration.pushManager.getSubscription();
+      if (
+        subscription &&
+        !this.isSameKey(
+          subscription.options.applicationServerKey,
+          applicationServerKey
+        )
+      ) {
+        await subscription.unsubscribe();
+        subscription = null;
+      }
+
+      if (!subscription) {
         /**
-         * Retourner le token pour utilisation ultérieure (ex: stockage local)
+         * userVisibleOnly: chaque push doit afficher une notification
+         * (obligatoire pour Chrome)
          */
-        return token;
+        subscription = await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey,
+        });
       }
 
       /**
-       * Si le Service Worker n'est pas disponible, retourner null
+       * Enregistrer l'abonnement côté serveur pour que le backend puisse
+       * envoyer des notifications push à cet appareil
        */
-      return null;
+      const token = JSON.stringify(subscription.toJSON());
+      const registered = await this.registerToken(token);
+
+      /**
+       * Retourner le token pour utilisation ultérieure (ex: stockage local)
+       */
+      return registered ? token : null;
     } catch (error) {
       /**
-       * En cas d'erreur (ex: Service Worker indisponible, erreur réseau, etc.)
-       * Logger l'erreur pour le debug et retourner null
+       * En cas d'erreur (ex: Service Worker indisponible, abonnement refusé,
+       * erreur réseau, etc.) logger l'erreur pour le debug et retourner null
        */
       console.error("Erreur lors de l'obtention du token:", error);
       return null;
@@ -309,11 +365,17 @@ export class NotificationService {
        * provider: 'webpush' indique qu'on utilise Web Push (standard web)
        * D'autres providers possibles: 'fcm' (Firebase), 'apns' (Apple), etc.
        */
-      await notificationsApi.registerToken({
+      const device = await notificationsApi.registerToken({
         token,
         provider: 'webpush', // Provider Web Push standard
       });
 
+      /**
+       * Mémoriser l'identifiant de cet appareil: chaque navigateur a son propre
+       * enregistrement côté serveur (les autres appareils sont conservés)
+       */
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, device.id);
+
       /**
        * Logger un message de succès (en développement)
        * En production, on pourrait vouloir logger moins d'informations
@@ -330,6 +392,18 @@ export class NotificationService {
     }
   }
 
+  /**
+   * MÉTHODE PUBLIQUE: getCurrentDeviceId
+   *
+   * Retourne l'identifiant serveur de cet appareil (null s'il n'a jamais été enregistré).
+   *
+   * @returns ID de l'appareil ou null
+   */
+  getCurrentDeviceId(): string | null {
+    if (typeof window === 'undefined') return null;
+    return localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  }
+
   /**
    * MÉTHODE PUBLIQUE: sendTestNotification
    *
@@ -499,44 +573,53 @@ export class NotificationService {
   }
 
   /**
-   * MÉTHODE PRIVÉE: generateMockToken
-   *
-   * Génère un token mock aléatoire pour les tests.
+   * MÉTHODE PRIVÉE: registerPushWorker
    *
-   * EN PRODUCTION: Cette méthode ne devrait pas être utilisée.
-   * Il faudrait utiliser Firebase Cloud Messaging (FCM) ou un autre service
-   * pour générer de vrais tokens de notification push.
+   * Enregistre le Service Worker push (sans effet s'il l'est déjà)
+   * et attend qu'il soit actif.
    *
-   * Le token généré est une chaîne aléatoire de 64 caractères alphanumériques.
-   *
-   * @returns Un token mock aléatoire de 64 caractères
+   * @returns L'enregistrement du Service Worker push
    */
-  private generateMockToken(): string {
-    /**
-     * Caractères possibles pour le token (lettres majuscules, minuscules, chiffres)
-     */
-    const chars =
-      'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  private async registerPushWorker(): Promise<ServiceWorkerRegistration> {
+    const registration = await navigator.serviceWorker.register(PUSH_SW_URL, {
+      scope: PUSH_SW_SCOPE,
+    });
 
-    /**
-     * Initialiser une chaîne vide pour le résultat
-     */
-    let result = '';
+    if (registration.active) {
+      return registration;
+    }
 
     /**
-     * Générer 64 caractères aléatoires
-     * Math.random() génère un nombre entre 0 et 1
-     * Math.floor() arrondit vers le bas
-     * chars.charAt() récupère le caractère à l'index donné
+     * Attendre la fin de l'installation (premier enregistrement)
      */
-    for (let i = 0; i < 64; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+    const worker = registration.installing || registration.waiting;
+    if (worker) {
+      await new Promise<void>((resolve) => {
+        worker.addEventListener('statechange', () => {
+          if (worker.state === 'activated') {
+            resolve();
+          }
+        });
+      });
     }
 
-    /**
-     * Retourner le token généré
-     */
-    return result;
+    return registration;
+  }
+
+  /**
+   * MÉTHODE PRIVÉE: isSameKey
+   *
+   * Compare la clé VAPID d'un abonnement existant avec la clé actuelle du serveur.
+   */
+  private isSameKey(
+    current: ArrayBuffer | null,
+    expected: Uint8Array
+  ): boolean {
+    if (!current || current.byteLength !== expected.length) {
+      return false;
+    }
+    const bytes = new Uint8Array(current);
+    return bytes.every((byte, i) => byte === expected[i]);
   }
 
   /**
@@ -548,12 +631,9 @@ export class NotificationService {
    *
    * FLUX:
    * 1. Vérifier que les notifications sont supportées
-   * 2. Enregistrer le Service Worker pour les notifications push
+   * 2. Enregistrer le Service Worker pour les notifications push (public/push-sw.js)
    * 3. Retourner true si l'initialisation a réussi
    *
-   * NOTE: Le Service Worker doit être présent dans le dossier public de l'application.
-   * Pour Firebase, il s'agit généralement de 'firebase-messaging-sw.js'.
-   *
    * @returns true si l'initialisation a réussi, false sinon
    */
   async initialize(): Promise<boolean> {
@@ -574,13 +654,12 @@ export class NotificationService {
     if ('serviceWorker' in navigator) {
       try {
         /**
-         * Enregistrer le Service Worker pour Firebase Cloud Messaging
-         * '/firebase-messaging-sw.js' est le fichier Service Worker standard pour FCM
-         *
-         * EN PRODUCTION: Ce fichier doit être présent dans le dossier public
-         * et configuré avec les clés Firebase appropriées
+         * Enregistrer le Service Worker push: il affiche les notifications
+         * reçues et gère le clic (ouverture de la page concernée)
          */
-        await navigator.serviceWorker.register('/firebase-messaging-sw.js');
+        await navigator.serviceWorker.register(PUSH_SW_URL, {
+          scope: PUSH_SW_SCOPE,
+        });
         console.log('Service Worker enregistré');
       } catch (error) {
         /**
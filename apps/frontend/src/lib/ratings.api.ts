@@ -0,0 +1,50 @@
+import { apiClient } from './api';
+import {
+  CreateRatingDto,
+  ExchangeRatingsState,
+  PaginatedResponse,
+  Rating,
+} from '@/types';
+
+export const ratingsApi = {
+  /**
+   * Avis d'un échange: le mien, celui de l'autre participant s'il est visible
+   * et la possibilité de noter
+   */
+  async getExchangeRatings(exchangeId: string): Promise<ExchangeRatingsState> {
+    const response = await apiClient.client.get<ExchangeRatingsState>(
+      `/ratings/exchanges/${exchangeId}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Note l'autre participant d'un échange réalisé (un avis par participant)
+   */
+  async rateExchange(
+    exchangeId: string,
+    rating: CreateRatingDto
+  ): Promise<ExchangeRatingsState> {
+    const response = await apiClient.client.post<ExchangeRatingsState>(
+      `/ratings/exchanges/${exchangeId}`,
+      rating,
+      // L'appelant affiche lui-même le message d'erreur
+      { _skipErrorToast: true } as object
+    );
+    return response.data;
+  },
+
+  /**
+   * Avis visibles reçus par un membre (plus récents en premier)
+   */
+  async listUserRatings(
+    userId: string,
+    params?: { page?: number; limit?: number }
+  ): Promise<PaginatedResponse<Rating>> {
+    const response = await apiClient.client.get<PaginatedResponse<Rating>>(
+      `/ratings/users/${userId}`,
+      { params }
+    );
+    return response.data;
+  },
+};
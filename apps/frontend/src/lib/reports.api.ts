@@ -0,0 +1,18 @@
+import { apiClient } from './api';
+import { CreateReportDto, ReportResponse } from '@/types';
+
+export const reportsApi = {
+  /**
+   * Signale un objet, un utilisateur, un échange ou un post.
+   * Erreurs possibles: 409 (déjà signalé), 429 (trop de signalements)
+   */
+  async createReport(data: CreateReportDto): Promise<ReportResponse> {
+    const response = await apiClient.client.post<ReportResponse>(
+      '/reports',
+      data,
+      // Le formulaire affiche lui-même le message d'erreur
+      { _skipErrorToast: true } as object
+    );
+    return response.data;
+  },
+};
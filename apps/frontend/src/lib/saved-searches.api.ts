@@ -0,0 +1,36 @@
+import { apiClient } from './api';
+import { CreateSavedSearchDto, SavedSearch } from '@/types';
+
+export const savedSearchesApi = {
+  /**
+   * Recherches sauvegardées de l'utilisateur (plus récentes en premier)
+   */
+  async listSavedSearches(): Promise<SavedSearch[]> {
+    const response =
+      await apiClient.client.get<SavedSearch[]>('/saved-searches');
+    return response.data;
+  },
+
+  /**
+   * Sauvegarde une recherche: une notification est envoyée à chaque nouvel
+   * objet correspondant.
+   * Erreurs possibles: 400 (aucun critère, ville inconnue, limite atteinte),
+   * 409 (déjà sauvegardée)
+   */
+  async createSavedSearch(data: CreateSavedSearchDto): Promise<SavedSearch> {
+    const response = await apiClient.client.post<SavedSearch>(
+      '/saved-searches',
+      data,
+      // L'appelant affiche lui-même le message d'erreur
+      { _skipErrorToast: true } as object
+    );
+    return response.data;
+  },
+
+  /**
+   * Supprime une recherche sauvegardée (ses alertes s'arrêtent)
+   */
+  async deleteSavedSearch(id: string): Promise<void> {
+    await apiClient.client.delete(`/saved-searches/${id}`);
+  },
+};
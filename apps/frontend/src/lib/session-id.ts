@@ -0,0 +1,23 @@
+/**
+ * Identifiant anonyme du navigateur, utilisé pour ne compter qu'une fois
+ * les vues d'un visiteur non connecté.
+ * Sécurisé pour SSR : aucun accès à localStorage côté serveur.
+ */
+
+export const SESSION_ID_KEY = 'secondlife_session_id';
+
+const isBrowser = typeof window !== 'undefined';
+
+const createSessionId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+export const getSessionId = (): string | null => {
+  if (!isBrowser) return null;
+  const existing = localStorage.getItem(SESSION_ID_KEY);
+  if (existing) return existing;
+  const sessionId = createSessionId();
+  localStorage.setItem(SESSION_ID_KEY, sessionId);
+  return sessionId;
+};
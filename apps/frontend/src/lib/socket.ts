@@ -13,11 +13,19 @@
  * - Émission d'événements de frappe (typing)
  * - Écoute des événements (messages, typing, user joined/left)
  * - Gestion des listeners (ajout/suppression)
+ * - Authentification du handshake avec l'access token (même token que l'API)
+ * - Gestion des erreurs d'authentification typées (`auth:error` / `connect_error`)
  *
  * ARCHITECTURE:
  * - Une seule connexion Socket.IO partagée
- * - Changement de room selon l'échange actuel
+ * - Changement de room selon l'échange actuel (rejointe à chaque (re)connexion)
  * - Les messages sont émis dans la room de l'échange
+ * - L'expéditeur est déterminé côté serveur à partir du token (pas de userId envoyé)
+ *
+ * AUTHENTIFICATION:
+ * - Token absent/invalide: les écouteurs `onAuthError` sont notifiés
+ * - Token expiré: une requête API déclenche le rafraîchissement automatique
+ *   (intercepteur de `apiClient`), puis le socket se reconnecte une fois
  */
 
 // Import de Socket.IO Client
@@ -26,6 +34,44 @@ import { io, Socket } from 'socket.io-client';
 // Import des types
 import { ChatMessage } from '@/types';
 
+// Import du client API (rafraîchissement du token via son intercepteur)
+import { apiClient } from './api';
+
+/**
+ * Codes d'erreur d'authentification renvoyés par le serveur WebSocket
+ */
+export type SocketAuthErrorCode =
+  | 'TOKEN_MISSING'
+  | 'TOKEN_INVALID'
+  | 'TOKEN_EXPIRED'
+  | 'USER_NOT_FOUND'
+  | 'ACCOUNT_SUSPENDED';
+
+/**
+ * Erreur d'authentification WebSocket (événement `auth:error` ou `connect_error.data`)
+ */
+export interface SocketAuthError {
+  code: SocketAuthErrorCode;
+  message: string;
+}
+
+/**
+ * Nom de l'événement émis par le serveur avant une déconnexion pour cause d'authentification
+ */
+const AUTH_ERROR_EVENT = 'auth:error';
+
+/**
+ * Vérifie qu'une valeur reçue du serveur est bien une erreur d'authentification typée
+ */
+function isSocketAuthError(value: unknown): value is SocketAuthError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as SocketAuthError).code === 'string' &&
+    typeof (value as SocketAuthError).message === 'string'
+  );
+}
+
 /**
  * CLASSE: SocketService
  *
@@ -42,6 +88,17 @@ class SocketService {
    */
   private currentExchangeId: string | null = null;
 
+  /**
+   * Écouteurs des erreurs d'authentification (conservés même si le socket est recréé)
+   */
+  private authErrorListeners = new Set<(error: SocketAuthError) => void>();
+
+  /**
+   * Indique qu'une reconnexion après expiration du token est en cours
+   * (évite les boucles si le rafraîchissement échoue)
+   */
+  private isRecoveringAuth = false;
+
   // ============================================
   // MÉTHODE: connect
   // ============================================
@@ -54,6 +111,7 @@ class SocketService {
    * CONFIGURATION:
    * - withCredentials: true (envoie les cookies)
    * - transports: ['websocket', 'polling'] (fallback sur polling si websocket échoue)
+   * - auth: callback relu à chaque (re)connexion pour envoyer l'access token à jour
    */
   connect() {
     // Ne pas reconnecter si déjà connecté
@@ -66,11 +124,24 @@ class SocketService {
     this.socket = io(baseURL, {
       withCredentials: true, // Envoyer les cookies (pour l'authentification)
       transports: ['websocket', 'polling'], // Essayer websocket d'abord, puis polling
+      auth: (cb) =>
+        cb({
+          token:
+            typeof window !== 'undefined'
+              ? localStorage.getItem('accessToken')
+              : null,
+        }),
     });
 
     // Écouter l'événement de connexion
     this.socket.on('connect', () => {
       console.log('Socket connected:', this.socket?.id);
+      this.isRecoveringAuth = false;
+
+      // (Re)joindre la room de l'échange courant après chaque connexion
+      if (this.currentExchangeId) {
+        this.socket?.emit('join', { exchangeId: this.currentExchangeId });
+      }
     });
 
     // Écouter l'événement de déconnexion
@@ -78,12 +149,54 @@ class SocketService {
       console.log('Socket disconnected');
     });
 
-    // Écouter les erreurs de connexion
+    // Erreur d'authentification en cours de session (ex: token expiré)
+    this.socket.on(AUTH_ERROR_EVENT, (error: unknown) => {
+      if (isSocketAuthError(error)) {
+        this.handleAuthError(error);
+      }
+    });
+
+    // Écouter les erreurs de connexion (handshake refusé: `error.data` est typé)
     this.socket.on('connect_error', (error) => {
       console.error('Socket connection error:', error);
+
+      const data = (error as Error & { data?: unknown }).data;
+      if (isSocketAuthError(data)) {
+        this.handleAuthError(data);
+      }
     });
   }
 
+  // ============================================
+  // MÉTHODE PRIVÉE: handleAuthError
+  // ============================================
+
+  /**
+   * Traite une erreur d'authentification du serveur.
+   *
+   * - TOKEN_EXPIRED (première fois): un appel API rafraîchit le token via
+   *   l'intercepteur de `apiClient`, puis le socket se reconnecte
+   * - Sinon: le socket reste déconnecté et les écouteurs `onAuthError` sont notifiés
+   *
+   * @param error - Erreur typée renvoyée par le serveur
+   */
+  private async handleAuthError(error: SocketAuthError) {
+    if (error.code === 'TOKEN_EXPIRED' && !this.isRecoveringAuth) {
+      this.isRecoveringAuth = true;
+
+      try {
+        // Un 401 sur cette requête déclenche le rafraîchissement des tokens
+        await apiClient.getProfile();
+        this.socket?.connect();
+        return;
+      } catch {
+        // Rafraîchissement impossible: on notifie les écouteurs ci-dessous
+      }
+    }
+
+    this.authErrorListeners.forEach((listener) => listener(error));
+  }
+
   // ============================================
   // MÉTHODE: disconnect
   // ============================================
@@ -122,13 +235,15 @@ class SocketService {
     // Si on change d'échange, quitter l'ancien et rejoindre le nouveau
     if (this.currentExchangeId !== exchangeId) {
       // Quitter la room précédente si elle existe
-      if (this.currentExchangeId) {
-        this.socket?.emit('leave', this.currentExchangeId);
+      if (this.currentExchangeId && this.socket?.connected) {
+        this.socket.emit('leave', { exchangeId: this.currentExchangeId });
       }
 
-      // Rejoindre la nouvelle room
-      this.socket?.emit('join', exchangeId);
+      // Rejoindre la nouvelle room (sinon elle sera rejointe à la connexion)
       this.currentExchangeId = exchangeId;
+      if (this.socket?.connected) {
+        this.socket.emit('join', { exchangeId });
+      }
     }
   }
 
@@ -141,7 +256,7 @@ class SocketService {
    */
   leaveExchange() {
     if (this.socket && this.currentExchangeId) {
-      this.socket.emit('leave', this.currentExchangeId);
+      this.socket.emit('leave', { exchangeId: this.currentExchangeId });
       this.currentExchangeId = null;
     }
   }
@@ -152,19 +267,14 @@ class SocketService {
 
   /**
    * Envoie un message de chat dans un échange.
+   * L'expéditeur est l'utilisateur authentifié du socket (déterminé par le serveur).
    *
    * @param exchangeId - ID de l'échange
    * @param content - Contenu textuel du message
    * @param images - URLs des images (optionnel)
-   * @param userId - ID de l'utilisateur expéditeur (optionnel)
    * @throws Error si le socket n'est pas connecté
    */
-  sendMessage(
-    exchangeId: string,
-    content: string,
-    images?: string[],
-    userId?: string
-  ) {
+  sendMessage(exchangeId: string, content: string, images?: string[]) {
     if (!this.socket) {
       throw new Error('Socket not connected');
     }
@@ -174,7 +284,6 @@ class SocketService {
       exchangeId,
       content,
       images: images || [],
-      userId,
     });
   }
 
@@ -249,10 +358,29 @@ class SocketService {
     this.socket.on('user:left', callback);
   }
 
+  /**
+   * Écoute les erreurs d'authentification non récupérables
+   * (token absent/invalide, utilisateur supprimé, rafraîchissement impossible).
+   *
+   * @param callback - Fonction appelée avec l'erreur typée
+   */
+  onAuthError(callback: (error: SocketAuthError) => void) {
+    this.authErrorListeners.add(callback);
+  }
+
   // ============================================
   // SUPPRESSION DES ÉCOUTEURS
   // ============================================
 
+  /**
+   * Supprime un écouteur d'erreurs d'authentification.
+   *
+   * @param callback - Callback à supprimer
+   */
+  offAuthError(callback: (error: SocketAuthError) => void) {
+    this.authErrorListeners.delete(callback);
+  }
+
   /**
    * Supprime l'écouteur de messages.
    *
@@ -8,21 +8,21 @@
  * un badge avec le nombre de notifications non lues dans l'interface.
  *
  * FONCTIONNALITÉS PRINCIPALES:
- * - Stockage persistant du compteur dans localStorage
+ * - Récupération du compteur réel depuis le serveur (fetchUnreadCount)
  * - Incrémentation/décrémentation du compteur
  * - Réinitialisation du compteur (clear)
  * - Définition directe du compteur (setUnreadCount)
  * - Protection contre les valeurs négatives (Math.max(0, count))
  *
  * ARCHITECTURE:
- * - Pattern: Store Zustand avec middleware de persistance
- * - Persistance: localStorage sous la clé 'notifications-store'
- * - Seul unreadCount est persisté
+ * - Pattern: Store Zustand simple (sans persistance)
+ * - Source de vérité: la boîte de réception côté serveur (table `notifications`),
+ *   le compteur est donc le même sur tous les appareils
  *
  * UTILISATION:
  * - Affiché dans la NotificationBell (badge avec le nombre)
- * - Mis à jour lors de la réception de nouvelles notifications (WebSocket, polling)
- * - Réinitialisé quand l'utilisateur consulte ses notifications (page /notifications)
+ * - Synchronisé par `useNotificationsSync` (API au chargement, puis socket `/notifications`)
+ * - Réinitialisé à la déconnexion de l'utilisateur
  *
  * EXEMPLE D'UTILISATION:
  * ```tsx
@@ -34,7 +34,7 @@
  * // Incrémenter quand une nouvelle notification arrive
  * increment();
  *
- * // Réinitialiser quand l'utilisateur consulte ses notifications
+ * // Réinitialiser à la déconnexion de l'utilisateur
  * clear();
  * ```
  *
@@ -46,8 +46,8 @@
 // Import de Zustand pour la gestion d'état global
 import { create } from 'zustand';
 
-// Import du middleware de persistance pour sauvegarder dans localStorage
-import { persist } from 'zustand/middleware';
+// Import de l'API des notifications
+import { notificationsApi } from '@/lib/notifications.api';
 
 /**
  * INTERFACE: NotificationsState
@@ -62,6 +62,7 @@ import { persist } from 'zustand/middleware';
  * ACTIONS:
  * - setUnreadCount: Définit directement le compteur
  * - increment: Incrémente le compteur (par défaut +1)
+ * - fetchUnreadCount: Récupère le compteur depuis le serveur
  * - clear: Réinitialise le compteur à 0
  */
 interface NotificationsState {
@@ -71,7 +72,7 @@ interface NotificationsState {
    * - 0: Aucune notification non lue
    * - > 0: Nombre de notifications non lues
    *
-   * PERSISTÉ: Oui (sauvegardé dans localStorage)
+   * PERSISTÉ: Non (relu depuis le serveur à chaque chargement)
    */
   unreadCount: number;
 
@@ -95,6 +96,14 @@ interface NotificationsState {
    */
   increment: (by?: number) => void;
 
+  /**
+   * Fonction pour récupérer le compteur réel depuis le serveur
+   *
+   * ERREURS:
+   * En cas d'échec, le compteur actuel est conservé
+   */
+  fetchUnreadCount: () => Promise<void>;
+
   /**
    * Fonction pour réinitialiser le compteur à 0
    *
@@ -109,16 +118,14 @@ interface NotificationsState {
  * STORE: useNotificationsStore
  *
  * Store Zustand pour la gestion du compteur de notifications non lues.
- * Utilise le middleware persist pour sauvegarder le compteur dans localStorage.
  *
  * ARCHITECTURE:
  * - create<NotificationsState>()(): Crée le store avec TypeScript
- * - persist(): Middleware qui sauvegarde automatiquement dans localStorage
  * - (set) => ({ ... }): Fonction qui retourne l'état initial et les actions
  *
  * PERSISTANCE:
- * - Clé localStorage: 'notifications-store'
- * - Données persistées: unreadCount
+ * Aucune: l'ancien compteur localStorage divergeait d'un appareil à l'autre,
+ * le serveur fait désormais foi
  *
  * UTILISATION:
  * ```tsx
@@ -126,145 +133,138 @@ interface NotificationsState {
  * ```
  */
 export const useNotificationsStore = create<NotificationsState>()(
-  persist(
+  /**
+   * Fonction qui définit l'état initial et les actions du store
+   *
+   * PARAMÈTRES:
+   * - set: Fonction pour mettre à jour l'état (set({ unreadCount: ... }))
+   *
+   * RETOUR:
+   * Objet contenant l'état initial et toutes les actions
+   */
+  (set) => ({
+    // ============================================
+    // ÉTAT INITIAL
+    // ============================================
+
     /**
-     * Fonction qui définit l'état initial et les actions du store
+     * Nombre de notifications non lues
+     * Initialisé à 0 (aucune notification non lue)
+     * Sera mis à jour lors de la réception de nouvelles notifications
+     */
+    unreadCount: 0,
+
+    // ============================================
+    // ACTION: setUnreadCount
+    // ============================================
+    /**
+     * ACTION: setUnreadCount
+     *
+     * Définit directement le nombre de notifications non lues.
+     *
+     * UTILISATION:
+     * Utilisé pour synchroniser le compteur avec le serveur
+     * (ex: après avoir récupéré le nombre réel depuis l'API)
      *
-     * PARAMÈTRES:
-     * - set: Fonction pour mettre à jour l'état (set({ unreadCount: ... }))
+     * PROTECTION:
+     * Le compteur ne peut pas être négatif (Math.max(0, count))
+     * Si count < 0, le compteur sera mis à 0
      *
-     * RETOUR:
-     * Objet contenant l'état initial et toutes les actions
+     * EXEMPLE:
+     * - setUnreadCount(5) -> unreadCount: 5
+     * - setUnreadCount(-3) -> unreadCount: 0 (protection)
+     * - setUnreadCount(0) -> unreadCount: 0
+     *
+     * @param count - Nouveau nombre de notifications non lues (peut être négatif, sera corrigé à 0)
      */
-    (set) => ({
-      // ============================================
-      // ÉTAT INITIAL
-      // ============================================
-
+    setUnreadCount: (count: number) =>
       /**
-       * Nombre de notifications non lues
-       * Initialisé à 0 (aucune notification non lue)
-       * Sera mis à jour lors de la réception de nouvelles notifications
+       * Mettre à jour le compteur avec protection contre les valeurs négatives
+       * Math.max(0, count) garantit que le compteur est toujours >= 0
        */
-      unreadCount: 0,
+      set({ unreadCount: Math.max(0, count) }),
 
-      // ============================================
-      // ACTION: setUnreadCount
-      // ============================================
+    // ============================================
+    // ACTION: increment
+    // ============================================
+    /**
+     * ACTION: increment
+     *
+     * Incrémente le compteur de notifications non lues.
+     *
+     * UTILISATION:
+     * Utilisé quand une nouvelle notification arrive
+     * (ex: via WebSocket, polling, ou événement utilisateur)
+     *
+     * PROTECTION:
+     * Le compteur ne peut pas être négatif (Math.max(0, count))
+     * Même si by est négatif, le compteur ne descendra pas en dessous de 0
+     *
+     * EXEMPLES:
+     * - increment() -> unreadCount: +1
+     * - increment(3) -> unreadCount: +3
+     * - increment(-5) avec unreadCount: 2 -> unreadCount: 0 (protection)
+     *
+     * @param by - Nombre à ajouter (optionnel, défaut: 1, peut être négatif)
+     */
+    increment: (by = 1) =>
       /**
-       * ACTION: setUnreadCount
-       *
-       * Définit directement le nombre de notifications non lues.
-       *
-       * UTILISATION:
-       * Utilisé pour synchroniser le compteur avec le serveur
-       * (ex: après avoir récupéré le nombre réel depuis l'API)
+       * Incrémenter le compteur avec protection contre les valeurs négatives
        *
-       * PROTECTION:
-       * Le compteur ne peut pas être négatif (Math.max(0, count))
-       * Si count < 0, le compteur sera mis à 0
+       * FONCTIONNEMENT:
+       * 1. s.unreadCount + by: calcule le nouveau compteur
+       * 2. Math.max(0, ...): garantit que le résultat est >= 0
+       * 3. set({ unreadCount: ... }): met à jour l'état
        *
        * EXEMPLE:
-       * - setUnreadCount(5) -> unreadCount: 5
-       * - setUnreadCount(-3) -> unreadCount: 0 (protection)
-       * - setUnreadCount(0) -> unreadCount: 0
-       *
-       * @param count - Nouveau nombre de notifications non lues (peut être négatif, sera corrigé à 0)
+       * - unreadCount: 5, by: 2 -> nouveau: 7
+       * - unreadCount: 2, by: -5 -> nouveau: 0 (protection)
        */
-      setUnreadCount: (count: number) =>
-        /**
-         * Mettre à jour le compteur avec protection contre les valeurs négatives
-         * Math.max(0, count) garantit que le compteur est toujours >= 0
-         */
-        set({ unreadCount: Math.max(0, count) }),
+      set((s) => ({ unreadCount: Math.max(0, s.unreadCount + by) })),
 
-      // ============================================
-      // ACTION: increment
-      // ============================================
-      /**
-       * ACTION: increment
-       *
-       * Incrémente le compteur de notifications non lues.
-       *
-       * UTILISATION:
-       * Utilisé quand une nouvelle notification arrive
-       * (ex: via WebSocket, polling, ou événement utilisateur)
-       *
-       * PROTECTION:
-       * Le compteur ne peut pas être négatif (Math.max(0, count))
-       * Même si by est négatif, le compteur ne descendra pas en dessous de 0
-       *
-       * EXEMPLES:
-       * - increment() -> unreadCount: +1
-       * - increment(3) -> unreadCount: +3
-       * - increment(-5) avec unreadCount: 2 -> unreadCount: 0 (protection)
-       *
-       * @param by - Nombre à ajouter (optionnel, défaut: 1, peut être négatif)
-       */
-      increment: (by = 1) =>
-        /**
-         * Incrémenter le compteur avec protection contre les valeurs négatives
-         *
-         * FONCTIONNEMENT:
-         * 1. s.unreadCount + by: calcule le nouveau compteur
-         * 2. Math.max(0, ...): garantit que le résultat est >= 0
-         * 3. set({ unreadCount: ... }): met à jour l'état
-         *
-         * EXEMPLE:
-         * - unreadCount: 5, by: 2 -> nouveau: 7
-         * - unreadCount: 2, by: -5 -> nouveau: 0 (protection)
-         */
-        set((s) => ({ unreadCount: Math.max(0, s.unreadCount + by) })),
-
-      // ============================================
-      // ACTION: clear
-      // ============================================
-      /**
-       * ACTION: clear
-       *
-       * Réinitialise le compteur à 0.
-       *
-       * UTILISATION:
-       * Appelé quand l'utilisateur consulte ses notifications
-       * (ex: ouverture de la page /notifications, clic sur la NotificationBell)
-       *
-       * EXEMPLE:
-       * - unreadCount: 5 -> clear() -> unreadCount: 0
-       */
-      clear: () =>
-        /**
-         * Réinitialiser le compteur à 0
-         * set({ unreadCount: 0 }) met à jour l'état
-         */
-        set({ unreadCount: 0 }),
-    }),
-    {
-      // ============================================
-      // CONFIGURATION DE LA PERSISTANCE
-      // ============================================
-      /**
-       * Nom de la clé dans localStorage
-       *
-       * Les données seront sauvegardées sous la clé 'notifications-store'
-       * Format: { unreadCount: 5 }
-       */
-      name: 'notifications-store',
+    // ============================================
+    // ACTION: fetchUnreadCount
+    // ============================================
+    /**
+     * ACTION: fetchUnreadCount
+     *
+     * Récupère le nombre de notifications non lues depuis le serveur
+     * (GET /notifications/unread-count), tous appareils confondus.
+     *
+     * UTILISATION:
+     * Appelé à la connexion de l'utilisateur et au chargement de l'application
+     */
+    fetchUnreadCount: async () => {
+      try {
+        const count = await notificationsApi.getUnreadCount();
+        set({ unreadCount: Math.max(0, count) });
+      } catch (error) {
+        console.error(
+          'Erreur lors de la récupération des notifications non lues:',
+          error
+        );
+      }
+    },
 
+    // ============================================
+    // ACTION: clear
+    // ============================================
+    /**
+     * ACTION: clear
+     *
+     * Réinitialise le compteur à 0.
+     *
+     * UTILISATION:
+     * Appelé à la déconnexion de l'utilisateur (le compteur est propre au compte)
+     *
+     * EXEMPLE:
+     * - unreadCount: 5 -> clear() -> unreadCount: 0
+     */
+    clear: () =>
       /**
-       * Fonction pour déterminer quelles parties de l'état sont persistées
-       *
-       * DONNÉES PERSISTÉES:
-       * - unreadCount: Le nombre de notifications non lues
-       *
-       * RESTAURATION:
-       * Au chargement de la page, Zustand restaure automatiquement unreadCount
-       * depuis localStorage. Cela permet de maintenir le compteur même après
-       * un rafraîchissement de page.
-       *
-       * @param s - L'état complet du store
-       * @returns Objet avec seulement les propriétés à persister
+       * Réinitialiser le compteur à 0
+       * set({ unreadCount: 0 }) met à jour l'état
        */
-      partialize: (s) => ({ unreadCount: s.unreadCount }),
-    }
-  )
+      set({ unreadCount: 0 }),
+  })
 );
@@ -26,6 +26,105 @@ export interface User {
   roles: 'USER' | 'ADMIN';
   createdAt: string;
   updatedAt: string;
+  rating?: RatingSummary; // Réputation (participants d'un échange)
+}
+
+/**
+ * Sections du profil public visibles des autres membres (GET/PUT /users/me/privacy)
+ */
+export interface ProfilePrivacy {
+  showBio: boolean;
+  showLocation: boolean; // Ville uniquement, jamais les coordonnées
+  showItems: boolean;
+  showExchangeStats: boolean;
+}
+
+/**
+ * Réputation d'échange d'un membre
+ */
+export interface ExchangeReputation {
+  completedExchanges: number;
+  responseRate: number | null; // % des propositions reçues acceptées ou refusées
+}
+
+/**
+ * Profil public d'un membre (GET /users/:id).
+ * Une section masquée par le membre vaut null.
+ */
+export interface PublicProfile {
+  id: string;
+  displayName: string;
+  avatarUrl: string | null;
+  memberSince: string;
+  bio: string | null;
+  location: string | null;
+  reputation: ExchangeReputation | null;
+  ratings: UserRatingSummary; // Avis reçus, toujours visibles
+  availableItems: { items: Item[]; total: number } | null;
+  isOwnProfile: boolean;
+  privacy: ProfilePrivacy | null; // Renvoyé au propriétaire uniquement
+}
+
+/**
+ * Statistiques de l'utilisateur connecté (GET /users/me/stats)
+ */
+export interface UserStats extends ExchangeReputation, RatingSummary {
+  memberSince: string;
+  publishedItems: number;
+  availableItems: number;
+  exchangesInitiated: number;
+  exchangesReceived: number;
+}
+
+// Avis après échange (note de 1 à 5, masqués jusqu'au second avis ou à la fin du délai)
+export type RatingTag =
+  | 'ON_TIME'
+  | 'AS_DESCRIBED'
+  | 'FRIENDLY'
+  | 'RESPONSIVE'
+  | 'CAREFUL';
+
+/**
+ * Réputation agrégée d'un membre (avis visibles uniquement)
+ */
+export interface RatingSummary {
+  averageRating: number | null; // Arrondie à 0,1 (null sans avis)
+  ratingsCount: number;
+}
+
+export interface UserRatingSummary extends RatingSummary {
+  tags: { tag: RatingTag; count: number }[]; // Plus fréquents en premier
+}
+
+export interface Rating {
+  id: string;
+  score: number;
+  comment: string | null;
+  tags: RatingTag[];
+  createdAt: string;
+  rater: {
+    id: string;
+    displayName: string;
+    avatarUrl: string | null;
+  };
+}
+
+/**
+ * État des avis d'un échange pour l'utilisateur connecté
+ * (GET /ratings/exchanges/:exchangeId)
+ */
+export interface ExchangeRatingsState {
+  canRate: boolean;
+  deadline: string | null; // Fin du délai pour noter
+  myRating: Rating | null;
+  otherRating: Rating | null; // Null tant qu'il est masqué
+  otherHasRated: boolean;
+}
+
+export interface CreateRatingDto {
+  score: number;
+  comment?: string;
+  tags?: RatingTag[];
 }
 
 export interface Item {
@@ -51,12 +150,29 @@ export interface Item {
   aiSummary?: string;
   aiRepairTip?: string;
   popularityScore: number;
+  favoriteCount: number; // Nombre d'utilisateurs qui suivent l'objet
+  location?: string | null;
+  latitude?: number | null; // Arrondie à ~1 km
+  longitude?: number | null;
+  geohash?: string | null;
+  distanceKm?: number; // Présent pour une recherche autour d'un point (near)
   photos: ItemPhoto[];
   createdAt: string;
   updatedAt: string;
   owner: User;
 }
 
+/**
+ * Catégorie du registre (GET /items/categories): label traduit, nom d'icône
+ * lucide et sous-catégories indicatives.
+ */
+export interface ItemCategoryOption {
+  value: string;
+  label: string;
+  icon: string;
+  subcategories: readonly { value: string; label: string }[];
+}
+
 export interface ItemPhoto {
   id: string;
   itemId: string;
@@ -145,6 +261,8 @@ export interface UpdateProfileDto {
   avatarUrl?: string;
   bio?: string;
   location?: string;
+  latitude?: number; // Avec longitude, prioritaire sur location
+  longitude?: number;
 }
 
 // Types pour les items
@@ -186,9 +304,47 @@ export interface ListItemsParams {
   condition?: ItemCondition;
   status?: ItemStatus;
   ownerId?: string;
+  near?: string; // Ville connue ou "latitude,longitude"
+  radiusKm?: number;
   sort?: string;
 }
 
+/**
+ * Compteurs par valeur de filtre renvoyés avec GET /items.
+ * Chaque facette ignore son propre filtre (ex: le nombre d'items par catégorie
+ * reste visible quand une catégorie est sélectionnée).
+ */
+export interface ItemFacets {
+  category: Partial<Record<ItemCategory, number>>;
+  condition: Partial<Record<ItemCondition, number>>;
+  status: Partial<Record<ItemStatus, number>>;
+}
+
+export interface PaginatedItemsResponse extends PaginatedResponse<Item> {
+  facets: ItemFacets;
+}
+
+/**
+ * Valeur proposée par l'IA pour un champ, avec sa confiance (0 à 1).
+ */
+export interface AiFieldSuggestion<T> {
+  value: T;
+  confidence: number;
+}
+
+/**
+ * Suggestions de l'analyse des photos (POST /items/:id/analyze-photos):
+ * rien n'est appliqué tant que le propriétaire ne les accepte pas.
+ */
+export interface ItemPhotoAnalysis {
+  category: AiFieldSuggestion<ItemCategory>;
+  condition: AiFieldSuggestion<ItemCondition>;
+  tags: AiFieldSuggestion<string[]>;
+  title: AiFieldSuggestion<string> | null; // null: titre actuel conservé
+  damageNotes: AiFieldSuggestion<string> | null; // null: aucun dégât visible
+  promptVersion: number;
+}
+
 export interface UploadSignature {
   signature: string;
   timestamp: number | string;
@@ -214,16 +370,44 @@ export type ExchangeStatus =
   | 'COMPLETED'
   | 'CANCELLED';
 
+// Côté d'un objet dans le lot: apporté par le demandeur ou par le répondant
+export type ExchangeItemSide = 'OFFERED' | 'REQUESTED';
+
+export interface ExchangeItem {
+  id: string;
+  side: ExchangeItemSide;
+  title: string; // snapshot du titre à la proposition
+  itemId: string | null; // null si l'item a été supprimé depuis
+  item: Item | null;
+}
+
+// Version immuable du lot (proposition initiale puis contre-propositions)
+export interface ExchangeRevision {
+  id: string;
+  exchangeId: string;
+  version: number;
+  authorId: string;
+  note?: string | null;
+  items: Pick<ExchangeItem, 'itemId' | 'side' | 'title'>[]; // lot à cette version
+  createdAt: string;
+}
+
 export interface Exchange {
   id: string;
   requesterId: string;
   responderId: string;
-  requestedItemTitle: string;
-  offeredItemTitle: string;
+  proposedById: string; // auteur du lot en cours (l'autre participant accepte ou refuse)
+  currentVersion: number; // dernière révision du lot, la seule acceptable
+  requestedItemTitle: string; // titres du lot demandé, joints par ", "
+  offeredItemTitle: string; // titres du lot proposé, joints par ", "
+  items: ExchangeItem[];
+  revisions?: ExchangeRevision[]; // historique de négociation (page de l'échange)
   message?: string;
   status: ExchangeStatus;
   createdAt: string;
   completedAt?: string;
+  requesterConfirmedAt?: string | null; // confirmation de réalisation par le demandeur
+  responderConfirmedAt?: string | null; // confirmation de réalisation par le répondant
   requester: User;
   responder: User;
   messages?: ChatMessage[];
@@ -277,13 +461,21 @@ export interface SuggestedItem {
 // DTOs pour les échanges
 export interface CreateExchangeDto {
   responderId: string;
-  requestedItemTitle: string;
-  offeredItemTitle: string;
+  requestedItemIds: string[];
+  offeredItemIds: string[];
   message?: string;
 }
 
+// Contre-proposition: lot complet qui remplace celui en cours
+export interface CounterProposalDto {
+  offeredItemIds: string[];
+  requestedItemIds: string[];
+  note?: string;
+}
+
 export interface UpdateExchangeStatusDto {
   status: ExchangeStatus;
+  version?: number; // révision acceptée ou refusée (doit être la dernière)
   message?: string;
 }
 
@@ -332,6 +524,7 @@ export interface Recommendation {
       id: string;
       displayName: string;
       avatarUrl?: string;
+      rating?: RatingSummary;
     };
     photos: Array<{
       id: string;
@@ -340,6 +533,7 @@ export interface Recommendation {
       height?: number;
     }>;
     createdAt: string;
+    distanceKm?: number;
   };
   score: number;
   reasons: RecommendationReason[];
@@ -536,6 +730,17 @@ export interface NotificationToken {
 export interface RegisterTokenDto {
   token: string;
   provider?: 'webpush' | 'fcm';
+  label?: string; // Nom de l'appareil (déduit du user agent par le serveur sinon)
+}
+
+// Appareil recevant les notifications push (le token n'est pas exposé)
+export interface NotificationDevice {
+  id: string;
+  provider: 'webpush' | 'fcm';
+  label: string | null;
+  userAgent: string | null;
+  lastSeenAt: string;
+  createdAt: string;
 }
 
 export interface SendTestNotificationDto {
@@ -550,6 +755,140 @@ export interface SendNotificationResponse {
   sentCount: number;
 }
 
+export interface VapidPublicKeyResponse {
+  publicKey: string | null; // null si Web Push n'est pas configuré côté serveur
+}
+
+// Boîte de réception (notifications in-app)
+// Nommé AppNotification pour ne pas masquer l'API Notification du navigateur
+export type NotificationListStatus = 'all' | 'unread' | 'archived';
+
+export interface AppNotification {
+  id: string;
+  type: string; // test, weekly_theme, exchange_status, new_message, saved_search...
+  title: string;
+  body: string;
+  link: string | null; // Lien profond dans l'application
+  payload: Record<string, unknown> | null;
+  readAt: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+}
+
+export interface PaginatedNotificationsResponse
+  extends PaginatedResponse<AppNotification> {
+  unreadCount: number;
+}
+
+export interface ListNotificationsParams {
+  page?: number;
+  limit?: number;
+  status?: NotificationListStatus;
+}
+
+// Préférences de notification (par type et par canal + heures calmes)
+export type NotificationType =
+  | 'WEEKLY_THEME'
+  | 'EXCHANGE_STATUS'
+  | 'NEW_MESSAGE'
+  | 'COMMUNITY_REPLY'
+  | 'RECOMMENDATIONS'
+  | 'SAVED_SEARCH'
+  | 'WATCHED_ITEM';
+
+export type DigestFrequency = 'NEVER' | 'DAILY' | 'WEEKLY';
+
+export interface NotificationPreferences {
+  mutedPush: NotificationType[]; // Types désactivés pour le push
+  mutedInApp: NotificationType[]; // Types désactivés pour la boîte de réception
+  mutedEmail: NotificationType[]; // Types désactivés pour l'email
+  digestFrequency: DigestFrequency; // Résumé par email des notifications non lues
+  quietHoursStart: string | null; // "22:00" (heure locale)
+  quietHoursEnd: string | null; // "07:00"
+  timezone: string; // Identifiant IANA (ex: Europe/Paris)
+}
+
+export type UpdateNotificationPreferencesDto = Partial<NotificationPreferences>;
+
+// Désinscription en un clic (lien reçu par email)
+export interface UnsubscribeResponse {
+  scope: NotificationType | 'DIGEST';
+  message: string;
+}
+
+// Événements temps réel du namespace /notifications
+export interface NotificationNewEvent {
+  notification: AppNotification;
+  unreadCount: number;
+}
+
+export interface NotificationReadEvent {
+  all: boolean;
+  ids: string[];
+  unreadCount: number;
+}
+
+// Types pour les signalements
+export type ReportTargetType = 'ITEM' | 'USER' | 'EXCHANGE' | 'POST';
+
+export type ReportReason =
+  | 'SPAM'
+  | 'SCAM'
+  | 'INAPPROPRIATE'
+  | 'HARASSMENT'
+  | 'PROHIBITED_ITEM'
+  | 'MISLEADING'
+  | 'OTHER';
+
+export interface CreateReportDto {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  message?: string;
+}
+
+export interface ReportResponse {
+  id: string;
+  type: ReportTargetType;
+  reason: ReportReason;
+  createdAt: string;
+}
+
+// Recherches sauvegardées (alerte à chaque nouvel objet correspondant)
+export interface SavedSearch {
+  id: string;
+  name: string;
+  q: string | null;
+  category: ItemCategory | null;
+  condition: ItemCondition | null;
+  near: string | null;
+  radiusKm: number | null;
+  lastMatchedAt: string | null; // Dernier objet signalé
+  createdAt: string;
+}
+
+export interface CreateSavedSearchDto {
+  name?: string;
+  q?: string;
+  category?: ItemCategory;
+  condition?: ItemCondition;
+  near?: string;
+  radiusKm?: number;
+}
+
+// Favoris (liste de suivi, alerte quand le statut d'un objet change)
+export interface FavoriteStatus {
+  itemId: string;
+  isFavorite: boolean;
+  favoriteCount: number;
+}
+
+export interface FavoriteItem extends Item {
+  favoritedAt: string;
+}
+
+export type PaginatedFavoritesResponse = PaginatedResponse<FavoriteItem>;
+
 // Types pour le calendrier des thèmes
 export interface CalendarWeek {
   weekStart: string;